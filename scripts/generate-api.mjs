@@ -0,0 +1,527 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI codegen for the service layer
+ *
+ * Reads the backend OpenAPI document, merges openapi/overlays/*.json over it and
+ * writes src/services/generated/:
+ * - schemas.ts    zod schemas and wire (snake_case) DTO types
+ * - models.ts     camelCase domain models and mappers to/from the DTOs
+ * - endpoints.ts  one typed, validated function per operation
+ *
+ * Usage:
+ *   node scripts/generate-api.mjs          generate from openapi/openapi.json
+ *   node scripts/generate-api.mjs --pull   refresh openapi/openapi.json from
+ *                                          OPENAPI_URL (default: local backend) first
+ *
+ * openapi/openapi.json is only ever written by --pull. Endpoints and fields the
+ * client relies on before the backend publishes them go in an overlay: a JSON
+ * Merge Patch (RFC 7386) of the pulled document, one file per feature, applied
+ * in file name order. Delete an overlay once the backend's own spec has it.
+ */
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const specPath = resolve(root, "openapi/openapi.json");
+const overlayDir = resolve(root, "openapi/overlays");
+const outDir = resolve(root, "src/services/generated");
+const specUrl = process.env.OPENAPI_URL || "http://localhost:8000/openapi.json";
+
+const HEADER = `/**
+ * Generated by scripts/generate-api.mjs from openapi/openapi.json and openapi/overlays/.
+ * Do not edit by hand: run \`npm run api:generate\` instead.
+ */
+`;
+
+// Fields of the backend's PaginatedResponse; such schemas map onto paginatedSchema()
+const PAGE_FIELDS = ["items", "page", "page_size", "total", "total_pages"];
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+const camelCase = (name) => name.replace(/[-_]+([a-zA-Z0-9])/g, (_, c) => c.toUpperCase());
+const lowerFirst = (name) => name.charAt(0).toLowerCase() + name.slice(1);
+const upperFirst = (name) => name.charAt(0).toUpperCase() + name.slice(1);
+const propKey = (name) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+const schemaName = (component) => `${lowerFirst(component)}Schema`;
+const dtoName = (component) => `${component}Dto`;
+const refName = (schema) => schema.$ref.split("/").pop();
+
+// ---------------------------------------------------------------------------
+// Schema helpers
+// ---------------------------------------------------------------------------
+
+/** Split `anyOf: [X, {type: "null"}]` (and `nullable: true`) into X plus a flag */
+const unwrapNullable = (schema = {}) => {
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants) {
+    const rest = variants.filter((variant) => variant.type !== "null");
+    if (rest.length === 1 && rest.length < variants.length) {
+      return { schema: rest[0], nullable: true };
+    }
+  }
+  if (Array.isArray(schema.type) && schema.type.includes("null")) {
+    const type = schema.type.filter((t) => t !== "null");
+    return { schema: { ...schema, type: type.length === 1 ? type[0] : type }, nullable: true };
+  }
+  return { schema, nullable: !!schema.nullable };
+};
+
+const createContext = (spec) => {
+  const components = spec.components?.schemas || {};
+  const resolve = (schema) => (schema?.$ref ? components[refName(schema)] : schema);
+
+  const isPage = (schema) => {
+    const target = resolve(schema);
+    const keys = Object.keys(target?.properties || {}).sort();
+    return keys.join() === PAGE_FIELDS.join() && target.properties.items.type === "array";
+  };
+
+  const isObject = (schema) => {
+    const target = resolve(schema);
+    return !!target?.properties && !isPage(target);
+  };
+
+  return { components, resolve, isPage, isObject };
+};
+
+// ---------------------------------------------------------------------------
+// schemas.ts
+// ---------------------------------------------------------------------------
+
+const zodFor = (raw, ctx) => {
+  const { schema } = unwrapNullable(raw);
+
+  if (schema.$ref) {
+    return ctx.isPage(schema) ? zodFor(ctx.resolve(schema), ctx) : schemaName(refName(schema));
+  }
+  if (schema.allOf?.length === 1) return zodFor(schema.allOf[0], ctx);
+  if (schema.enum) return `z.enum([${schema.enum.map((value) => JSON.stringify(value)).join(", ")}])`;
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "z.instanceof(Blob)" : "z.string()";
+    case "integer":
+    case "number":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "array":
+      return `z.array(${zodFor(schema.items || {}, ctx)})`;
+    case "object":
+    case undefined:
+      if (ctx.isPage(schema)) return `paginatedSchema(${zodFor(schema.properties.items.items, ctx)})`;
+      if (schema.properties) return zodObject(schema, ctx, "");
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `z.record(${zodFor(schema.additionalProperties, ctx)})`;
+      }
+      return schema.type === "object" ? "z.record(z.unknown())" : "z.unknown()";
+    default:
+      return "z.unknown()";
+  }
+};
+
+const zodObject = (schema, ctx, indent) => {
+  const required = new Set(schema.required || []);
+  const lines = Object.entries(schema.properties).map(([key, property]) => {
+    const { nullable } = unwrapNullable(property);
+    const modifier = !required.has(key) ? ".nullish()" : nullable ? ".nullable()" : "";
+    return `${indent}  ${propKey(key)}: ${zodFor(property, ctx)}${modifier},`;
+  });
+  return `z.object({\n${lines.join("\n")}\n${indent}})`;
+};
+
+/** Components ordered so every schema is declared after the ones it references */
+const sortComponents = (ctx) => {
+  const order = [];
+  const visited = new Set();
+
+  const collectRefs = (schema, refs = new Set()) => {
+    if (!schema || typeof schema !== "object") return refs;
+    if (schema.$ref) refs.add(refName(schema));
+    Object.values(schema).forEach((value) => collectRefs(value, refs));
+    return refs;
+  };
+
+  const visit = (name) => {
+    if (visited.has(name)) return;
+    visited.add(name);
+    collectRefs(ctx.components[name]).forEach(visit);
+    order.push(name);
+  };
+
+  Object.keys(ctx.components).sort().forEach(visit);
+  return order;
+};
+
+const renderSchemas = (ctx, names) => {
+  const blocks = names.map((name) => {
+    const schema = ctx.components[name];
+    const expression = schema.properties && !ctx.isPage(schema) ? zodObject(schema, ctx, "") : zodFor(schema, ctx);
+    const description = schema.description ? `/** ${schema.description} */\n` : "";
+    return (
+      `${description}export const ${schemaName(name)} = ${expression};\n\n` +
+      `export type ${dtoName(name)} = InferSchema<typeof ${schemaName(name)}>;`
+    );
+  });
+
+  const usesPages = blocks.some((block) => block.includes("paginatedSchema("));
+  const validationImports = usesPages ? "type InferSchema, paginatedSchema" : "type InferSchema";
+
+  return `${HEADER}import { z } from "zod";
+import { ${validationImports} } from "../validation";
+
+${blocks.join("\n\n")}
+`;
+};
+
+// ---------------------------------------------------------------------------
+// models.ts
+// ---------------------------------------------------------------------------
+
+const modelType = (raw, ctx) => {
+  const { schema } = unwrapNullable(raw);
+
+  if (schema.$ref) return refName(schema);
+  if (schema.allOf?.length === 1) return modelType(schema.allOf[0], ctx);
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = modelType(schema.items || {}, ctx);
+      return item.includes(" ") ? `(${item})[]` : `${item}[]`;
+    }
+    default:
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `Record<string, ${modelType(schema.additionalProperties, ctx)}>`;
+      }
+      return schema.type === "object" ? "Record<string, unknown>" : "unknown";
+  }
+};
+
+/**
+ * Expression converting `value` between wire and model shape.
+ * Only nested object components need mapping; everything else is copied.
+ */
+const convert = (value, raw, ctx, direction, optional) => {
+  const { schema, nullable } = unwrapNullable(raw);
+  const mapper = (name) => (direction === "to" ? `to${name}` : `from${name}`);
+
+  if (schema.$ref && ctx.isObject(schema)) {
+    const call = `${mapper(refName(schema))}(${value})`;
+    return optional || nullable ? `${value} && ${call}` : call;
+  }
+  if (schema.type === "array" && schema.items?.$ref && ctx.isObject(schema.items)) {
+    return `${value}${optional || nullable ? "?." : "."}map(${mapper(refName(schema.items))})`;
+  }
+  return value;
+};
+
+const renderModel = (name, schema, ctx) => {
+  const required = new Set(schema.required || []);
+  const entries = Object.entries(schema.properties);
+
+  const fields = entries.map(([key, property]) => {
+    const { nullable } = unwrapNullable(property);
+    const type = modelType(property, ctx);
+    return required.has(key)
+      ? `  ${propKey(camelCase(key))}: ${type}${nullable ? " | null" : ""};`
+      : `  ${propKey(camelCase(key))}?: ${type};`;
+  });
+
+  const toFields = entries.map(([key, property]) => {
+    const value = convert(`dto.${key}`, property, ctx, "to", !required.has(key));
+    return `  ${propKey(camelCase(key))}: ${value},`;
+  });
+
+  const fromFields = entries.map(([key, property]) => {
+    const value = convert(`model.${camelCase(key)}`, property, ctx, "from", !required.has(key));
+    return `  ${propKey(key)}: ${value},`;
+  });
+
+  const description = schema.description ? `/** ${schema.description} */\n` : "";
+  return `${description}export interface ${name} {
+${fields.join("\n")}
+}
+
+export const to${name} = (dto: ${dtoName(name)}): ${name} => ({
+${toFields.join("\n")}
+});
+
+export const from${name} = (model: ${name}): ${dtoName(name)} => ({
+${fromFields.join("\n")}
+});`;
+};
+
+const renderModels = (ctx, names) => {
+  const used = [];
+  const blocks = names.flatMap((name) => {
+    const schema = ctx.components[name];
+    if (ctx.isPage(schema)) return [];
+    if (ctx.isObject(schema)) {
+      used.push(dtoName(name));
+      return [renderModel(name, schema, ctx)];
+    }
+    return [`export type ${name} = ${modelType(schema, ctx)};`];
+  });
+
+  return `${HEADER}import type {
+${used.map((name) => `  ${name},`).join("\n")}
+} from "./schemas";
+
+${blocks.join("\n\n")}
+`;
+};
+
+// ---------------------------------------------------------------------------
+// endpoints.ts
+// ---------------------------------------------------------------------------
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+const MAX_LINE_LENGTH = 120;
+
+/** Unwrap the `{ success, data, error }` envelope the backend puts around every payload */
+const payloadSchema = (operation, ctx) => {
+  const content = operation.responses?.["200"]?.content || operation.responses?.["201"]?.content || {};
+  const json = content["application/json"]?.schema;
+  if (!json) return { binary: Object.keys(content).length > 0 };
+
+  const envelope = ctx.resolve(json);
+  const data = envelope?.properties?.success ? envelope.properties.data : json;
+  const { schema } = unwrapNullable(data || {});
+  return { schema: Object.keys(schema).length ? schema : null };
+};
+
+const describeEndpoint = (method, path) =>
+  `${method.toUpperCase()} ${path.replace(/\{([^}]+)\}/g, (_, name) => `:${camelCase(name)}`)}`;
+
+const renderParamsInterface = (name, params, ctx) => {
+  const fields = params.map((param) => {
+    const type = modelType(param.schema || {}, ctx);
+    return `  ${propKey(param.name)}${param.required ? "" : "?"}: ${type};`;
+  });
+  return `export interface ${name} {\n${fields.join("\n")}\n}`;
+};
+
+const renderFormInterface = (name, schema, ctx) => {
+  const required = new Set(schema.required || []);
+  const fields = Object.entries(schema.properties || {}).map(([key, property]) => {
+    return `  ${propKey(key)}${required.has(key) ? "" : "?"}: ${modelType(property, ctx)};`;
+  });
+  return `export interface ${name} {\n${fields.join("\n")}\n}`;
+};
+
+const renderOperation = (path, method, operation, ctx, imports) => {
+  const name = lowerFirst(camelCase(operation.operationId));
+  const typeBase = upperFirst(name);
+  const parameters = operation.parameters || [];
+  const pathParams = parameters.filter((param) => param.in === "path");
+  const queryParams = parameters.filter((param) => param.in === "query");
+  const idempotent = parameters.some(
+    (param) => param.in === "header" && param.name.toLowerCase() === "idempotency-key"
+  );
+
+  const declarations = [];
+  const args = pathParams.map((param) => `${camelCase(param.name)}: string`);
+  const url = `\`${path.replace(/\{([^}]+)\}/g, (_, param) => `\${${camelCase(param)}}`)}\``.replace(
+    /^`([^$`]*)`$/,
+    '"$1"'
+  );
+
+  let params = null;
+  if (queryParams.length) {
+    const paramsType = `${typeBase}Params`;
+    declarations.push(renderParamsInterface(paramsType, queryParams, ctx));
+    const optional = queryParams.every((param) => !param.required);
+    args.push(optional ? `params: ${paramsType} = {}` : `params: ${paramsType}`);
+    params = "params";
+  }
+
+  const requestContent = operation.requestBody?.content || {};
+  const jsonBody = requestContent["application/json"]?.schema;
+  const formBody = requestContent["multipart/form-data"]?.schema;
+
+  if (jsonBody) {
+    const bodyType = jsonBody.$ref ? dtoName(refName(jsonBody)) : modelType(jsonBody, ctx);
+    if (jsonBody.$ref) imports.types.add(bodyType);
+    args.push(`body: ${bodyType}`);
+  }
+  if (formBody) {
+    const formType = `${typeBase}Form`;
+    declarations.push(renderFormInterface(formType, ctx.resolve(formBody), ctx));
+    args.push(`form: ${formType}`, "onProgress?: (progress: number) => void");
+  }
+
+  const { schema: payload, binary } = payloadSchema(operation, ctx);
+  if (binary) args.push("filename?: string");
+  args.push("options: RequestOptions = {}");
+
+  const requestOptions = idempotent ? "{ idempotencyKey: true, ...options }" : "options";
+  const target = params && method !== "get" ? `withQuery(${url}, ${params})` : url;
+  if (params && (method !== "get" || binary)) imports.withQuery = true;
+
+  let call;
+  if (binary) {
+    call = `apiClient.download(${params ? `withQuery(${url}, ${params})` : url}, filename, ${requestOptions})`;
+  } else if (formBody) {
+    imports.formData = true;
+    call = `apiClient.upload(${target}, toFormData(form), onProgress, ${requestOptions})`;
+  } else if (method === "get") {
+    call = `apiClient.get(${url}, ${params || "undefined"}, ${requestOptions})`;
+  } else if (method === "delete") {
+    call = `apiClient.delete(${target}, undefined, ${requestOptions})`;
+  } else {
+    call = `apiClient.${method}(${target}, ${jsonBody ? "body" : "undefined"}, ${requestOptions})`;
+  }
+
+  if (payload && !binary) {
+    const zod = zodFor(payload, ctx);
+    [...zod.matchAll(/\b(\w+Schema)\b/g)]
+      .filter(([, schema]) => schema !== "paginatedSchema")
+      .forEach(([, schema]) => imports.schemas.add(schema));
+    if (zod.includes("paginatedSchema(")) imports.paginated = true;
+    if (/\bz\./.test(zod)) imports.zod = true;
+    call = `validateResponse(\n    ${call},\n    ${zod},\n    ${JSON.stringify(describeEndpoint(method, path))}\n  )`;
+  }
+
+  const summary = operation.summary ? `/** ${operation.summary} */\n` : "";
+  const signature = `export const ${name} = (${args.join(", ")}) =>`;
+  const declaration =
+    signature.length > MAX_LINE_LENGTH
+      ? `export const ${name} = (\n${args.map((arg) => `  ${arg}`).join(",\n")}\n) =>`
+      : signature;
+  declarations.push(`${summary}${declaration}\n  ${call};`);
+  return declarations.join("\n\n");
+};
+
+const renderEndpoints = (spec, ctx) => {
+  const imports = { schemas: new Set(), types: new Set(), zod: false, paginated: false, withQuery: false, formData: false };
+  const blocks = [];
+
+  Object.entries(spec.paths || {}).forEach(([path, item]) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!operation) return;
+      if (!operation.operationId) {
+        throw new Error(`${method.toUpperCase()} ${path} has no operationId`);
+      }
+      blocks.push(renderOperation(path, method, operation, ctx, imports));
+    });
+  });
+
+  const helpers = [];
+  if (imports.withQuery) {
+    helpers.push(`type QueryValue = string | number | boolean | null | undefined;
+
+// Query string for requests that can't pass params through axios
+const withQuery = (url: string, params: object): string => {
+  const query = new URLSearchParams();
+  Object.entries(params as Record<string, QueryValue>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.append(key, String(value));
+  });
+  const search = query.toString();
+  return search ? \`\${url}?\${search}\` : url;
+};`);
+  }
+  if (imports.formData) {
+    helpers.push(`type FormValue = string | number | boolean | Blob | null | undefined;
+
+const toFormData = (form: object): FormData => {
+  const formData = new FormData();
+  Object.entries(form as Record<string, FormValue | FormValue[]>).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) => {
+      if (item === undefined || item === null) return;
+      formData.append(key, item instanceof Blob ? item : String(item));
+    });
+  });
+  return formData;
+};`);
+  }
+
+  const schemaImports = [...imports.schemas].sort();
+  const typeImports = [...imports.types].sort().map((type) => `type ${type}`);
+  const validationImports = imports.paginated ? "paginatedSchema, validateResponse" : "validateResponse";
+
+  return `${HEADER}${imports.zod ? 'import { z } from "zod";\n' : ""}import { apiClient, type RequestOptions } from "../api";
+import { ${validationImports} } from "../validation";
+import {
+${[...schemaImports, ...typeImports].map((name) => `  ${name},`).join("\n")}
+} from "./schemas";
+
+${helpers.length ? `${helpers.join("\n\n")}\n\n` : ""}${blocks.join("\n\n")}
+`;
+};
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+const isPlainObject = (value) => !!value && typeof value === "object" && !Array.isArray(value);
+
+/** JSON Merge Patch: objects merge key by key, null deletes, anything else replaces */
+const mergePatch = (target, patch) => {
+  if (!isPlainObject(patch)) return patch;
+  const merged = isPlainObject(target) ? { ...target } : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete merged[key];
+    else merged[key] = mergePatch(merged[key], value);
+  });
+  return merged;
+};
+
+const readJson = async (path) => JSON.parse(await readFile(path, "utf8"));
+
+const readOverlays = async () => {
+  let names;
+  try {
+    names = await readdir(overlayDir);
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+  const files = names.filter((name) => name.endsWith(".json")).sort();
+  return Promise.all(files.map((name) => readJson(resolve(overlayDir, name))));
+};
+
+const pullSpec = async () => {
+  const response = await fetch(specUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${specUrl}: ${response.status} ${response.statusText}`);
+  }
+  const spec = await response.json();
+  await mkdir(dirname(specPath), { recursive: true });
+  await writeFile(specPath, `${JSON.stringify(spec, null, 2)}\n`);
+  console.log(`Updated ${specPath} from ${specUrl}`);
+};
+
+const main = async () => {
+  if (process.argv.includes("--pull")) {
+    await pullSpec();
+  }
+
+  const overlays = await readOverlays();
+  const spec = overlays.reduce(mergePatch, await readJson(specPath));
+  const ctx = createContext(spec);
+  const names = sortComponents(ctx);
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(resolve(outDir, "schemas.ts"), renderSchemas(ctx, names));
+  await writeFile(resolve(outDir, "models.ts"), renderModels(ctx, names));
+  await writeFile(resolve(outDir, "endpoints.ts"), renderEndpoints(spec, ctx));
+  console.log(`Generated ${Object.keys(spec.paths || {}).length} paths and ${names.length} schemas into ${outDir}`);
+};
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -2,11 +2,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { ThemeProvider } from "next-themes";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { useAuthStore } from "@/stores/authStore";
+import { READER_THEMES, THEME_CLASSES } from "@/stores/preferenceStore";
+import { getReturnPath } from "@/utils/auth";
 import { useEffect } from "react";
 import Index from "./pages/Index";
 import Reader from "./pages/Reader";
+import LibrarySearch from "./pages/LibrarySearch";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 import Projects from "./pages/Projects";
@@ -26,19 +30,32 @@ const queryClient = new QueryClient();
 // Protected Route component
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const location = useLocation();
 
   // Check localStorage directly as fallback during hydration
   const hasToken = !!localStorage.getItem("auth_token");
 
   if (!isAuthenticated && !hasToken) {
-    return <Navigate to="/login" replace />;
+    // Remember the page so login can send the user back to it
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   return <>{children}</>;
 }
 
-const App = () => {
+// Login page, or back to where the user came from once signed in
+function LoginRoute() {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const location = useLocation();
+
+  if (isAuthenticated) {
+    return <Navigate to={getReturnPath(location.state)} replace />;
+  }
+
+  return <Login />;
+}
+
+const App = () => {
   const initAuth = useAuthStore((state) => state.initAuth);
 
   // Initialize auth on app mount
@@ -48,124 +65,139 @@ const App = () => {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route
-              path="/login"
-              element={isAuthenticated ? <Navigate to="/" replace /> : <Login />}
-            />
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <Index />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/reader/:bookId"
-              element={
-                <ProtectedRoute>
-                  <Reader />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/projects"
-              element={
-                <ProtectedRoute>
-                  <Projects />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/projects/:projectId"
-              element={
-                <ProtectedRoute>
-                  <ProjectDetail />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/rag"
-              element={
-                <ProtectedRoute>
-                  <RAGQA />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings"
-              element={
-                <ProtectedRoute>
-                  <Settings />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/projects/:projectId/lora"
-              element={
-                <ProtectedRoute>
-                  <LoRATraining />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/voice-styling"
-              element={
-                <ProtectedRoute>
-                  <VoiceStyling />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/voice-clone"
-              element={
-                <ProtectedRoute>
-                  <VoiceClone />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/audio-tools"
-              element={
-                <ProtectedRoute>
-                  <AudioTools />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/audio-preview"
-              element={
-                <ProtectedRoute>
-                  <AudioPreview />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/batch-operations"
-              element={
-                <ProtectedRoute>
-                  <BatchOperations />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/cosy-voice"
-              element={
-                <ProtectedRoute>
-                  <CosyVoice />
-                </ProtectedRoute>
-              }
-            />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      {/* Themes are chosen in the reader's preferences */}
+      <ThemeProvider
+        attribute="class"
+        defaultTheme="light"
+        themes={READER_THEMES}
+        value={THEME_CLASSES}
+        enableSystem={false}
+        disableTransitionOnChange
+      >
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/login" element={<LoginRoute />} />
+              <Route
+                path="/"
+                element={
+                  <ProtectedRoute>
+                    <Index />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reader/:bookId"
+                element={
+                  <ProtectedRoute>
+                    <Reader />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/search"
+                element={
+                  <ProtectedRoute>
+                    <LibrarySearch />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/projects"
+                element={
+                  <ProtectedRoute>
+                    <Projects />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/projects/:projectId"
+                element={
+                  <ProtectedRoute>
+                    <ProjectDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/rag"
+                element={
+                  <ProtectedRoute>
+                    <RAGQA />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/projects/:projectId/lora"
+                element={
+                  <ProtectedRoute>
+                    <LoRATraining />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/voice-styling"
+                element={
+                  <ProtectedRoute>
+                    <VoiceStyling />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/voice-clone"
+                element={
+                  <ProtectedRoute>
+                    <VoiceClone />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/audio-tools"
+                element={
+                  <ProtectedRoute>
+                    <AudioTools />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/audio-preview"
+                element={
+                  <ProtectedRoute>
+                    <AudioPreview />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/batch-operations"
+                element={
+                  <ProtectedRoute>
+                    <BatchOperations />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/cosy-voice"
+                element={
+                  <ProtectedRoute>
+                    <CosyVoice />
+                  </ProtectedRoute>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </ThemeProvider>
     </QueryClientProvider>
   );
 };
@@ -78,7 +78,7 @@ export function AudioGenerator() {
     if (!chunks || chunks.length === 0) return;
 
     const allCompleted = chunks.every((c) => c.status === "completed");
-    const hasAudioPath = currentProject?.audio_path;
+    const hasAudioPath = currentProject?.audioPath;
     const allPending = chunks.every((c) => c.status === "pending");
     const anyProcessing = chunks.some((c) => c.status === "processing");
 
@@ -346,7 +346,7 @@ export function AudioGenerator() {
         </CardHeader>
         <CardContent>
           {/* Warning message when all audio is ready but not merged */}
-          {stats.completed > 0 && stats.pending === 0 && stats.processing === 0 && !currentProject?.audio_path && (
+          {stats.completed > 0 && stats.pending === 0 && stats.processing === 0 && !currentProject?.audioPath && (
             <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
               <div className="flex items-start gap-3">
                 <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400 mt-0.5" />
@@ -393,13 +393,13 @@ export function AudioGenerator() {
               )}
             </Button>
             {/* Show prominent merge button when all audio is ready */}
-            {stats.completed > 0 && stats.pending === 0 && stats.processing === 0 && !currentProject?.audio_path && (
+            {stats.completed > 0 && stats.pending === 0 && stats.processing === 0 && !currentProject?.audioPath && (
               <Button onClick={handleMerge} variant="default" size="sm" className="bg-green-600 hover:bg-green-700">
                 <SkipForward className="mr-2 h-4 w-4" />
                 合并音频（必需）
               </Button>
             )}
-            {stats.completed > 0 && !(stats.pending === 0 && stats.processing === 0 && !currentProject?.audio_path) && (
+            {stats.completed > 0 && !(stats.pending === 0 && stats.processing === 0 && !currentProject?.audioPath) && (
               <Button onClick={handleMerge} variant="secondary" size="sm" disabled={isGenerating}>
                 <SkipForward className="mr-2 h-4 w-4" />
                 合并音频
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FolderInput, FolderPlus, Loader2, Mic, Trash2, X } from "lucide-react";
+import type { Book } from "@/stores/bookStore";
+import { useBookStore } from "@/stores/bookStore";
+import { useCollectionStore } from "@/stores/collectionStore";
+import { useProjectStore } from "@/stores/projectStore";
+import CollectionNameDialog from "@/components/CollectionNameDialog";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface BookBulkActionsProps {
+  /** The selected books */
+  books: Book[];
+  onSelectAll: () => void;
+  /** Leave selection mode */
+  onClose: () => void;
+}
+
+/**
+ * What can be done to several books at once: shelve them, turn them into
+ * audiobook projects, or delete them
+ */
+const BookBulkActions = ({ books, onSelectAll, onClose }: BookBulkActionsProps) => {
+  const navigate = useNavigate();
+  const collections = useCollectionStore((s) => s.collections);
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [naming, setNaming] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const count = books.length;
+  const ids = books.map((book) => book.id);
+
+  // Run one action over the selection, then leave selection mode if it worked
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onClose();
+    } catch (error) {
+      toast({ variant: "destructive", title: failure, description: (error as Error)?.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addToCollection = (collectionId: string, name: string) =>
+    run(async () => {
+      await useCollectionStore.getState().addBooks(collectionId, ids);
+      toast({ title: `已将 ${count} 本书加入「${name}」` });
+    }, "加入书单失败");
+
+  const createProjects = () =>
+    run(async () => {
+      const projects = await useProjectStore.getState().createProjects(books);
+      if (!projects.length) throw new Error(useProjectStore.getState().error ?? undefined);
+      toast({
+        title: `已创建 ${projects.length} 个有声书项目`,
+        description: projects.length < count ? `有 ${count - projects.length} 本书创建失败` : undefined,
+        action: (
+          <ToastAction altText="查看项目" onClick={() => navigate("/projects")}>
+            查看
+          </ToastAction>
+        ),
+      });
+    }, "创建有声书项目失败");
+
+  const deleteBooks = () =>
+    run(async () => {
+      await useBookStore.getState().deleteBooks(ids);
+      toast({ title: `已删除 ${count} 本书` });
+    }, "删除书籍失败");
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-card px-3 py-2 shadow-sm">
+      <span className="text-sm text-foreground">已选 {count} 本</span>
+      <Button variant="link" size="sm" className="h-auto px-1 text-xs" onClick={onSelectAll}>
+        全选
+      </Button>
+      <div className="ml-auto flex flex-wrap items-center gap-1.5">
+        {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5" disabled={!count || busy}>
+              <FolderInput className="h-4 w-4" />
+              加入书单
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {collections.map((collection) => (
+              <DropdownMenuItem key={collection.id} onSelect={() => addToCollection(collection.id, collection.name)}>
+                {collection.name}
+              </DropdownMenuItem>
+            ))}
+            {collections.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuItem onSelect={() => setNaming(true)}>
+              <FolderPlus className="mr-2 h-4 w-4" />
+              新建书单…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" className="gap-1.5" disabled={!count || busy} onClick={createProjects}>
+          <Mic className="h-4 w-4" />
+          生成有声书
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1.5 text-destructive hover:text-destructive"
+          disabled={!count || busy}
+          onClick={() => setConfirmDelete(true)}
+        >
+          <Trash2 className="h-4 w-4" />
+          删除
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="取消选择" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <CollectionNameDialog
+        open={naming}
+        onOpenChange={setNaming}
+        title="新建书单"
+        onSubmit={async (name) => {
+          const collection = await useCollectionStore.getState().createCollection(name);
+          await addToCollection(collection.id, collection.name);
+        }}
+      />
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除书籍</AlertDialogTitle>
+            <AlertDialogDescription>确定要删除选中的 {count} 本书吗？此操作无法撤销。</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteBooks}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BookBulkActions;
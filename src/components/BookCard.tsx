@@ -1,8 +1,14 @@
+import { useState } from "react";
 import type { Book } from "@/stores/bookStore";
 import { useNavigate } from "react-router-dom";
-import { FileText, Trash2 } from "lucide-react";
+import { FileText, Headphones, MoreHorizontal, Tag, Trash2 } from "lucide-react";
 import { useBookStore } from "@/stores/bookStore";
+import { useCollectionStore } from "@/stores/collectionStore";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import BookTagsDialog from "@/components/BookTagsDialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatTimeLeft, readingTimeLeft } from "@/lib/position";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -14,19 +20,38 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 interface BookCardProps {
   book: Book;
+  /** In selection mode a click picks the book instead of opening it */
+  selecting?: boolean;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-const BookCard = ({ book }: BookCardProps) => {
+const BookCard = ({ book, selecting = false, selected = false, onSelectedChange }: BookCardProps) => {
   const navigate = useNavigate();
   const deleteBook = useBookStore((s) => s.deleteBook);
+  const updateBook = useBookStore((s) => s.updateBook);
   const isLoading = useBookStore((s) => s.isLoading);
+  const collections = useCollectionStore((s) => s.collections);
+  const { toast } = useToast();
+  const [tagsOpen, setTagsOpen] = useState(false);
 
   const coverUrl = book.coverUrl;
   const author = book.author || "未知作者";
   const progress = Math.round(book.progress * 100);
+  // Only worth estimating once the reader has started
+  const minutesLeft = book.progress > 0 ? readingTimeLeft(book.totalChars, book.progress) : null;
 
   const handleDelete = async () => {
     try {
@@ -36,9 +61,25 @@ const BookCard = ({ book }: BookCardProps) => {
     }
   };
 
+  const toggleCollection = async (collectionId: string, shelved: boolean) => {
+    const ids = book.collectionIds ?? [];
+    try {
+      await updateBook(book.id, {
+        collection_ids: shelved ? [...ids, collectionId] : ids.filter((id) => id !== collectionId),
+      });
+    } catch (error) {
+      toast({ variant: "destructive", title: "修改书单失败", description: (error as Error)?.message });
+    }
+  };
+
   const handleCardClick = (e: React.MouseEvent) => {
-    // Don't navigate if the click was on the delete button
-    if ((e.target as HTMLElement).closest("[data-delete-button]")) {
+    const target = e.target as HTMLElement;
+    // Clicks in the card's menus and dialogs arrive here through their portals
+    if (!e.currentTarget.contains(target) || target.closest("[data-card-action]")) {
+      return;
+    }
+    if (selecting) {
+      onSelectedChange?.(!selected);
       return;
     }
     navigate(`/reader/${book.id}`);
@@ -49,7 +90,11 @@ const BookCard = ({ book }: BookCardProps) => {
       onClick={handleCardClick}
       className="group cursor-pointer animate-fade-in"
     >
-      <div className="relative aspect-[3/4] overflow-hidden rounded-lg shadow-sm transition-all duration-300 group-hover:shadow-md group-hover:-translate-y-1">
+      <div
+        className={`relative aspect-[3/4] overflow-hidden rounded-lg shadow-sm transition-all duration-300 group-hover:shadow-md group-hover:-translate-y-1 ${
+          selected ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""
+        }`}
+      >
         {coverUrl ? (
           <img
             src={coverUrl}
@@ -71,15 +116,63 @@ const BookCard = ({ book }: BookCardProps) => {
             style={{ width: `${progress}%` }}
           />
         </div>
-        {/* Delete button - shows on hover */}
-        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+        {selecting && (
+          <div className="absolute top-2 left-2">
+            <Checkbox
+              checked={selected}
+              className="h-5 w-5 border-2 bg-background/90 shadow"
+              aria-label={`选择《${book.title}》`}
+            />
+          </div>
+        )}
+        {book.audioReady && !selecting && (
+          <div className="absolute top-2 left-2 rounded-full bg-background/90 p-1 shadow" title="有声书已完成">
+            <Headphones className="h-3.5 w-3.5 text-primary" />
+          </div>
+        )}
+        {/* Book actions - show on hover */}
+        <div
+          className={`absolute top-2 right-2 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ${
+            selecting ? "hidden" : ""
+          }`}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="secondary" size="icon" className="h-8 w-8 shadow-lg" data-card-action>
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onSelect={() => setTagsOpen(true)}>
+                <Tag className="mr-2 h-4 w-4" />
+                编辑标签…
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">书单</DropdownMenuLabel>
+              {collections.length === 0 && (
+                <DropdownMenuItem disabled className="text-xs">
+                  还没有书单
+                </DropdownMenuItem>
+              )}
+              {collections.map((collection) => (
+                <DropdownMenuCheckboxItem
+                  key={collection.id}
+                  checked={!!book.collectionIds?.includes(collection.id)}
+                  onCheckedChange={(checked) => toggleCollection(collection.id, checked)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {collection.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
                 variant="destructive"
                 size="icon"
                 className="h-8 w-8 shadow-lg"
-                data-delete-button
+                data-card-action
                 disabled={isLoading}
               >
                 <Trash2 className="h-4 w-4" />
@@ -107,8 +200,14 @@ const BookCard = ({ book }: BookCardProps) => {
           {book.title}
         </h3>
         <p className="text-xs text-muted-foreground">{author}</p>
-        <p className="text-xs text-muted-foreground">{progress}%</p>
+        {!!book.tags?.length && (
+          <p className="truncate text-xs text-primary/80">{book.tags.map((tag) => `#${tag}`).join(" ")}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {progress}%{minutesLeft !== null && ` · ${formatTimeLeft(minutesLeft)}`}
+        </p>
       </div>
+      <BookTagsDialog book={book} open={tagsOpen} onOpenChange={setTagsOpen} />
     </div>
   );
 };
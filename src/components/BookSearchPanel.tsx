@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import { ChevronDown, ChevronUp, Loader2, Play, Regex, Search, WholeWord, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { hitContext, MAX_HITS } from "@/lib/search";
+import type { BookSearch } from "@/hooks/use-book-search";
+
+interface BookSearchPanelProps {
+  search: BookSearch;
+  onClose: () => void;
+  /** Focused when the panel opens, and again on Ctrl+F while it's open */
+  inputRef?: RefObject<HTMLInputElement>;
+}
+
+/**
+ * Find-in-book: the query and its options, and every hit with the text
+ * around it, listed under its chapter
+ */
+const BookSearchPanel = ({ search, onClose, inputRef }: BookSearchPanelProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const { query, options, sections, hits, current } = search;
+
+  // Consecutive hits in one section, with their place in the full list
+  const groups = useMemo(() => {
+    const result: Array<{ section: number; hits: number[] }> = [];
+    hits.forEach((hit, index) => {
+      const last = result[result.length - 1];
+      if (last?.section === hit.section) last.hits.push(index);
+      else result.push({ section: hit.section, hits: [index] });
+    });
+    return result;
+  }, [hits]);
+
+  // Keep the current hit in sight as next/previous move through the list
+  useEffect(() => {
+    if (current < 0) return;
+    listRef.current?.querySelector(`[data-hit-index="${current}"]`)?.scrollIntoView?.({ block: "nearest" });
+  }, [current]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      search.step(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  let status: string | null = null;
+  if (search.error) status = search.error;
+  else if (!sections) status = "正在载入全书…";
+  else if (query && !search.searching && !hits.length) status = "没有找到匹配的内容";
+
+  return (
+    <div className="flex h-full w-80 flex-col border-l bg-card animate-slide-in-right">
+      {/* Query */}
+      <div className="space-y-2 border-b px-4 py-3">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              ref={inputRef}
+              autoFocus
+              value={query}
+              onChange={(event) => search.setQuery(event.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="在书中查找"
+              className="h-8 pl-8 text-sm"
+            />
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Toggle
+            size="sm"
+            title="全词匹配"
+            pressed={options.wholeWord}
+            onPressedChange={(wholeWord) => search.setOptions({ ...options, wholeWord })}
+            className="h-7 px-2"
+          >
+            <WholeWord className="h-4 w-4" />
+          </Toggle>
+          <Toggle
+            size="sm"
+            title="正则表达式"
+            pressed={options.regex}
+            onPressedChange={(regex) => search.setOptions({ ...options, regex })}
+            className="h-7 px-2"
+          >
+            <Regex className="h-4 w-4" />
+          </Toggle>
+          <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+            {search.searching ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              hits.length > 0 && `${current >= 0 ? current + 1 : "-"} / ${hits.length}${search.truncated ? "+" : ""}`
+            )}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="上一处 (Shift+Enter)"
+            disabled={!hits.length}
+            onClick={() => search.step(-1)}
+            className="h-7 w-7"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="下一处 (Enter)"
+            disabled={!hits.length}
+            onClick={() => search.step(1)}
+            className="h-7 w-7"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Hits */}
+      <div ref={listRef} className="flex-1 overflow-y-auto scrollbar-thin p-2">
+        {status && <p className="py-8 text-center text-sm text-muted-foreground">{status}</p>}
+        {groups.map((group) => (
+          <div key={`${group.section}-${group.hits[0]}`} className="mb-2">
+            <div className="sticky top-0 flex items-center justify-between bg-card px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              <span className="truncate">{sections?.[group.section]?.title || "正文"}</span>
+              <span className="ml-2 shrink-0 tabular-nums">{group.hits.length}</span>
+            </div>
+            {group.hits.map((index) => {
+              const hit = hits[index];
+              const section = sections[hit.section];
+              const context = hitContext(section.texts[hit.block - section.start], hit.start, hit.end);
+              return (
+                <div
+                  key={index}
+                  data-hit-index={index}
+                  className={`group flex items-start gap-1 rounded-md transition-colors hover:bg-accent ${
+                    index === current ? "bg-accent" : ""
+                  }`}
+                >
+                  <button
+                    onClick={() => search.select(index)}
+                    className="min-w-0 flex-1 px-2 py-1.5 text-left font-reading text-sm leading-relaxed text-foreground/80"
+                  >
+                    {context.before}
+                    <mark className="rounded-sm bg-primary/20 text-foreground">{context.match}</mark>
+                    {context.after}
+                  </button>
+                  <button
+                    title="从这里朗读"
+                    onClick={() => search.select(index, true)}
+                    className="mt-1.5 mr-1 rounded-md p-1 text-primary opacity-0 transition-opacity hover:bg-primary/10 group-hover:opacity-100"
+                  >
+                    <Play className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {search.truncated && (
+          <p className="py-2 text-center text-xs text-muted-foreground">只列出前 {MAX_HITS} 处，请换个更具体的关键词</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookSearchPanel;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { Book } from "@/stores/bookStore";
+import { useBookStore } from "@/stores/bookStore";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { bookTags, parseTags } from "@/lib/shelves";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface BookTagsDialogProps {
+  book: Book;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Edit a book's tags as one line of text; tags already used on other books
+ * can be added with a click
+ */
+const BookTagsDialog = ({ book, open, onOpenChange }: BookTagsDialogProps) => {
+  const books = useBookStore((s) => s.books);
+  const updateBook = useBookStore((s) => s.updateBook);
+  const { toast } = useToast();
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setValue((book.tags ?? []).join(" "));
+  }, [open, book.tags]);
+
+  const typed = parseTags(value);
+  const suggestions = bookTags(books).filter((tag) => !typed.includes(tag));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateBook(book.id, { tags: typed });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: "destructive", title: "保存标签失败", description: (error as Error)?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>编辑标签</DialogTitle>
+          <DialogDescription>《{book.title}》的标签，用空格或逗号分隔</DialogDescription>
+        </DialogHeader>
+        <Input
+          autoFocus
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && !event.nativeEvent.isComposing) handleSave();
+          }}
+          placeholder="例如：小说 散文 待重读"
+        />
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {suggestions.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setValue((current) => `${current.trim()} ${tag}`.trim())}
+                className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookTagsDialog;
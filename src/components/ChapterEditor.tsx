@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2, Plus, RefreshCw, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { booksApi } from "@/services";
+import { toBookChapter, type BookChapter } from "@/services/generated/models";
+import { ChapterPatternError, detectChapters, type ChapterPattern, type HeadingKind } from "@/lib/chapters";
+
+interface ChapterEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookId: string;
+  /** The book's normalized text, which chapter offsets point into */
+  content: string;
+  chapters: BookChapter[];
+  onSaved: (chapters: BookChapter[]) => void;
+}
+
+interface ChapterRow {
+  key: string;
+  title: string;
+  offset: number;
+  level: number;
+  included: boolean;
+  number?: number;
+}
+
+const KIND_LABELS: Record<HeadingKind, string> = {
+  volume: "卷",
+  chapter: "章",
+  section: "节",
+};
+
+const MAX_LEVEL = 3;
+
+// Chapters saved without a number get it back from their title
+const headingNumber = (title: string) => detectChapters(title)[0]?.number;
+
+const toRows = (chapters: Array<{ title: string; offset: number; level?: number | null; number?: number }>) =>
+  chapters.map(
+    (chapter): ChapterRow => ({
+      key: `${chapter.offset}`,
+      title: chapter.title,
+      offset: chapter.offset,
+      level: chapter.level || 1,
+      included: true,
+      number: chapter.number ?? headingNumber(chapter.title),
+    })
+  );
+
+/**
+ * Preview the detected chapters of a plain-text book, re-run detection with
+ * the reader's own patterns, and fix titles and levels before saving
+ */
+const ChapterEditor = ({ open, onOpenChange, bookId, content, chapters, onSaved }: ChapterEditorProps) => {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ChapterRow[]>([]);
+  const [patterns, setPatterns] = useState<ChapterPattern[]>([]);
+  const [builtIn, setBuiltIn] = useState(true);
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from what the reader currently shows every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setRows(toRows(chapters));
+    setPatternError(null);
+  }, [open, chapters]);
+
+  // Rows whose number doesn't follow the previous heading of the same level
+  const gaps = useMemo(() => {
+    const flagged = new Set<string>();
+    const previous = new Map<number, number>();
+    rows
+      .filter((row) => row.included)
+      .forEach((row) => {
+        // A new parent restarts numbering below it
+        [...previous.keys()].filter((level) => level > row.level).forEach((level) => previous.delete(level));
+        if (row.number === undefined) return;
+        const last = previous.get(row.level);
+        if (last !== undefined && row.number !== last + 1) flagged.add(row.key);
+        previous.set(row.level, row.number);
+      });
+    return flagged;
+  }, [rows]);
+
+  const updateRow = (key: string, change: Partial<ChapterRow>) =>
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...change } : row)));
+
+  const updatePattern = (index: number, change: Partial<ChapterPattern>) =>
+    setPatterns((current) => current.map((pattern, i) => (i === index ? { ...pattern, ...change } : pattern)));
+
+  const handleDetect = () => {
+    try {
+      setRows(toRows(detectChapters(content, { patterns, builtIn })));
+      setPatternError(null);
+    } catch (error) {
+      if (!(error instanceof ChapterPatternError)) throw error;
+      setPatternError(error.message);
+    }
+  };
+
+  const handleSave = async () => {
+    const included = rows.filter((row) => row.included);
+    if (included.some((row) => !row.title.trim())) {
+      toast({ variant: "destructive", title: "保存失败", description: "章节标题不能为空" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await booksApi.updateChapters(
+        bookId,
+        included.map((row, index) => ({ index, title: row.title.trim(), offset: row.offset, level: row.level }))
+      );
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || "无法保存目录");
+      }
+      onSaved(response.data.map(toBookChapter));
+      toast({ title: "目录已更新", description: `共 ${response.data.length} 个章节` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "保存失败",
+        description: error instanceof Error ? error.message : "无法保存目录",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const includedCount = rows.filter((row) => row.included).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] max-w-2xl flex-col">
+        <DialogHeader>
+          <DialogTitle>校正目录</DialogTitle>
+          <DialogDescription>预览识别出的章节，可修改标题和层级，或用自定义规则重新识别</DialogDescription>
+        </DialogHeader>
+
+        {/* Detection rules */}
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="chapter-built-in" checked={builtIn} onCheckedChange={setBuiltIn} />
+              <Label htmlFor="chapter-built-in" className="text-sm">
+                使用内置规则（第一章、卷二、Chapter 3 等）
+              </Label>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              onClick={() => setPatterns((current) => [...current, { source: "", kind: "chapter" }])}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              添加规则
+            </Button>
+          </div>
+          {patterns.map((pattern, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={pattern.source}
+                onChange={(e) => updatePattern(index, { source: e.target.value })}
+                placeholder="正则表达式，如 ^【\d+】"
+                className="h-8 font-mono text-xs"
+              />
+              <Select value={pattern.kind} onValueChange={(kind: HeadingKind) => updatePattern(index, { kind })}>
+                <SelectTrigger className="h-8 w-20 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as HeadingKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                onClick={() => setPatterns((current) => current.filter((_, i) => i !== index))}
+                className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {patternError && <p className="text-xs text-destructive">{patternError}</p>}
+          <Button variant="outline" size="sm" className="w-full gap-1.5" onClick={handleDetect}>
+            <RefreshCw className="h-3.5 w-3.5" />
+            重新识别
+          </Button>
+        </div>
+
+        {/* Detected chapters */}
+        <div className="min-h-0 flex-1 space-y-1 overflow-y-auto scrollbar-thin pr-1">
+          {rows.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">没有识别到章节</p>
+          ) : (
+            rows.map((row) => (
+              <div
+                key={row.key}
+                className={`flex items-center gap-2 rounded-md px-2 py-1 ${row.included ? "" : "opacity-50"}`}
+                style={{ paddingLeft: `${(row.level - 1) * 1.25 + 0.5}rem` }}
+              >
+                <Checkbox
+                  checked={row.included}
+                  onCheckedChange={(checked) => updateRow(row.key, { included: checked === true })}
+                />
+                <Input
+                  value={row.title}
+                  onChange={(e) => updateRow(row.key, { title: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                {gaps.has(row.key) && (
+                  <span title="编号不连续，可能漏识别了章节" className="shrink-0 text-amber-500">
+                    <AlertTriangle className="h-4 w-4" />
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  disabled={row.level <= 1}
+                  onClick={() => updateRow(row.key, { level: row.level - 1 })}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  disabled={row.level >= MAX_LEVEL}
+                  onClick={() => updateRow(row.key, { level: row.level + 1 })}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs text-muted-foreground">
+            共 {includedCount} 个章节{gaps.size > 0 ? `，${gaps.size} 处编号不连续` : ""}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              取消
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+              保存
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChapterEditor;
@@ -0,0 +1,196 @@
+import { Fragment, type ReactNode } from "react";
+import type { EpubBlock, EpubInline } from "@/lib/epub";
+import type { TextDisplay } from "@/hooks/use-text-display";
+
+/** A highlight clipped to one block, in offsets of the block's text */
+export interface BlockHighlight {
+  id: string;
+  start: number;
+  end: number;
+  className: string;
+  note?: string;
+}
+
+interface EpubBlockViewProps {
+  block: EpubBlock;
+  highlights: BlockHighlight[];
+  onLink: (inline: EpubInline) => void;
+  /** How runs of text are shown, e.g. converted or with pinyin; the text as it is when null */
+  display?: TextDisplay | null;
+}
+
+const HEADING_CLASS: Record<number, string> = {
+  1: "mt-10 mb-6 text-[1.5em] font-bold",
+  2: "mt-10 mb-4 text-[1.25em] font-semibold",
+};
+
+// Reading text follows the reader's font size and line height
+const BODY_TEXT = "font-reading text-[1em] leading-[var(--reading-line-height)]";
+
+// The note marker is CSS content so it never becomes part of the selectable text
+const NOTE_MARKER = "after:ml-0.5 after:align-super after:text-[10px] after:content-['💡']";
+
+const withMarks = (inline: EpubInline, node: ReactNode) =>
+  inline.marks.reduceRight<ReactNode>((child, mark) => {
+    switch (mark) {
+      case "em":
+        return <em>{child}</em>;
+      case "strong":
+        return <strong className="font-semibold">{child}</strong>;
+      case "code":
+        return <code className="rounded bg-muted px-1 font-mono text-[0.9em]">{child}</code>;
+      case "sup":
+        return <sup>{child}</sup>;
+      case "sub":
+        return <sub>{child}</sub>;
+    }
+  }, node);
+
+const withLink = (inline: EpubInline, node: ReactNode, onLink: (inline: EpubInline) => void) => {
+  if (inline.href && !inline.href.startsWith("#")) {
+    return (
+      <a
+        href={inline.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary underline underline-offset-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {node}
+      </a>
+    );
+  }
+  if (!inline.href && !inline.target) return node;
+  return (
+    <a
+      href={inline.href || "#"}
+      className={inline.noteRef ? "text-primary no-underline" : "text-primary underline underline-offset-2"}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onLink(inline);
+      }}
+    >
+      {node}
+    </a>
+  );
+};
+
+/**
+ * Split one run at highlight boundaries; `start` is the run's offset in the block
+ */
+const renderText = (text: string, start: number, highlights: BlockHighlight[], display?: TextDisplay | null) => {
+  const end = start + text.length;
+  const cuts = [
+    start,
+    ...highlights.flatMap((h) => [h.start, h.end]).filter((cut) => cut > start && cut < end),
+    end,
+  ].sort((a, b) => a - b);
+
+  return cuts.slice(0, -1).map((from, index) => {
+    const to = cuts[index + 1];
+    if (from === to) return null;
+    const raw = text.slice(from - start, to - start);
+    const slice = display ? display(raw) : raw;
+    // Later highlights are drawn over earlier ones
+    const highlight = [...highlights].reverse().find((h) => h.start <= from && h.end >= to);
+    if (!highlight) return <Fragment key={from}>{slice}</Fragment>;
+    return (
+      <mark
+        key={`${highlight.id}:${from}`}
+        className={`${highlight.className} rounded-sm transition-colors ${
+          highlight.note && to === highlight.end ? NOTE_MARKER : ""
+        }`}
+        title={highlight.note || undefined}
+      >
+        {slice}
+      </mark>
+    );
+  });
+};
+
+/**
+ * A run of text with highlights, outside an EPUB block; `start` is its offset
+ * in the text the highlights refer to
+ */
+export const HighlightedRun = ({
+  text,
+  start,
+  highlights,
+  display,
+}: {
+  text: string;
+  start: number;
+  highlights: BlockHighlight[];
+  display?: TextDisplay | null;
+}) => <>{renderText(text, start, highlights, display)}</>;
+
+const renderInlines = (
+  block: EpubBlock,
+  highlights: BlockHighlight[],
+  onLink: (inline: EpubInline) => void,
+  display?: TextDisplay | null
+) => {
+  let position = 0;
+  return block.inlines.map((inline, index) => {
+    const start = position;
+    position += inline.text.length;
+    const content = inline.src ? (
+      <img src={inline.src} alt={inline.alt} className="inline-block h-[1em] w-auto align-[-0.125em]" />
+    ) : (
+      renderText(inline.text, start, highlights, display)
+    );
+    return <Fragment key={index}>{withLink(inline, withMarks(inline, content), onLink)}</Fragment>;
+  });
+};
+
+/**
+ * One block of an EPUB chapter, built from parsed data rather than the
+ * book's own markup
+ */
+const EpubBlockView = ({ block, highlights, onLink, display }: EpubBlockViewProps) => {
+  const inlines = renderInlines(block, highlights, onLink, display);
+
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${Math.min(block.level || 2, 6)}` as "h1";
+      return (
+        <Heading
+          className={`${HEADING_CLASS[block.level] || "mt-8 mb-3 text-[1.125em] font-medium"} font-reading text-foreground`}
+        >
+          {inlines}
+        </Heading>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote className={`border-l-2 border-muted-foreground/30 pl-4 ${BODY_TEXT} text-foreground/80`}>
+          {inlines}
+        </blockquote>
+      );
+    case "list-item":
+      return (
+        <p className={`relative pl-5 ${BODY_TEXT} text-foreground/90 before:absolute before:left-1 before:content-['•']`}>
+          {inlines}
+        </p>
+      );
+    case "preformatted":
+      return (
+        <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 font-mono text-sm text-foreground">{inlines}</pre>
+      );
+    case "footnote":
+      return <aside className="border-t pt-2 text-sm leading-relaxed text-muted-foreground">{inlines}</aside>;
+    case "image":
+      return (
+        <figure className="my-6">
+          <img src={block.src} alt={block.alt} loading="lazy" className="mx-auto max-h-[70vh] max-w-full" />
+        </figure>
+      );
+    case "rule":
+      return <hr className="my-6 border-border" />;
+    default:
+      return <p className={`${BODY_TEXT} text-foreground/90`}>{inlines}</p>;
+  }
+};
+
+export default EpubBlockView;
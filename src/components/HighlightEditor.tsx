@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { PencilLine, StickyNote, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import NoteMarkdown from "@/components/NoteMarkdown";
+import { useHighlightStore, type Highlight, type HighlightColor } from "@/stores/highlightStore";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface HighlightEditorProps {
+  highlight: Highlight;
+  className?: string;
+}
+
+const COLORS: { color: HighlightColor; bg: string; label: string }[] = [
+  { color: "yellow", bg: "bg-yellow-300", label: "黄色" },
+  { color: "blue", bg: "bg-blue-300", label: "蓝色" },
+  { color: "green", bg: "bg-green-300", label: "绿色" },
+  { color: "pink", bg: "bg-pink-300", label: "粉色" },
+];
+
+/**
+ * A highlight's color and Markdown note, edited in place. Changes show at
+ * once; if the server refuses one, the store puts the old value back and a
+ * toast says why.
+ */
+const HighlightEditor = ({ highlight, className }: HighlightEditorProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const recolorHighlight = useHighlightStore((s) => s.recolorHighlight);
+  const setNote = useHighlightStore((s) => s.setNote);
+  const deleteNote = useHighlightStore((s) => s.deleteNote);
+  const { toast } = useToast();
+
+  const report = (title: string) => (error: unknown) =>
+    toast({ variant: "destructive", title, description: (error as Error)?.message });
+
+  const save = () => {
+    if (draft === null) return;
+    const content = draft.trim();
+    setDraft(null);
+    if (content === (highlight.note?.content ?? "")) return;
+    if (content) setNote(highlight.id, content).catch(report("保存笔记失败"));
+    else if (highlight.note) deleteNote(highlight.id).catch(report("删除笔记失败"));
+  };
+
+  return (
+    <div className={cn("space-y-3", className)} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>颜色</span>
+        {COLORS.map(({ color, bg, label }) => (
+          <button
+            key={color}
+            title={label}
+            onClick={() => color !== highlight.color && recolorHighlight(highlight.id, color).catch(report("修改颜色失败"))}
+            className={`h-5 w-5 rounded-full ${bg} transition-all ${
+              highlight.color === color ? "ring-2 ring-primary ring-offset-1 scale-110" : "hover:scale-105"
+            }`}
+          />
+        ))}
+      </div>
+
+      {draft !== null ? (
+        <div className="space-y-2">
+          <Textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                save();
+              } else if (e.key === "Escape") {
+                e.stopPropagation();
+                setDraft(null);
+              }
+            }}
+            placeholder="写下你的想法…"
+            className="min-h-[96px] text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            支持 Markdown：**粗体**、*斜体*、`代码`、&gt; 引用、- 列表、[链接](https://…)
+          </p>
+          {draft.trim() && (
+            <div className="rounded-md border border-dashed p-3">
+              <p className="mb-1 text-xs text-muted-foreground">预览</p>
+              <NoteMarkdown content={draft} className="text-sm text-foreground" />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={save}>
+              保存 (Ctrl+Enter)
+            </Button>
+          </div>
+        </div>
+      ) : highlight.note ? (
+        <div className="rounded-lg border bg-primary/5 p-4">
+          <div className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+            <StickyNote className="h-4 w-4" />
+            <span className="flex-1">我的笔记</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2"
+              onClick={() => setDraft(highlight.note.content)}
+            >
+              <PencilLine className="h-3.5 w-3.5" />
+              编辑
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-destructive hover:text-destructive"
+              onClick={() => deleteNote(highlight.id).catch(report("删除笔记失败"))}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              删除笔记
+            </Button>
+          </div>
+          <NoteMarkdown content={highlight.note.content} className="text-sm leading-relaxed text-foreground" />
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => setDraft("")}>
+          <PencilLine className="h-3.5 w-3.5" />
+          添加笔记
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default HighlightEditor;
@@ -1,11 +1,13 @@
 import { useState } from "react";
-import { Highlighter, MessageSquare } from "lucide-react";
+import { Highlighter, MapPin, MessageSquare } from "lucide-react";
 import { type HighlightColor } from "@/stores/highlightStore";
 
 interface HighlightMenuProps {
   position: { x: number; y: number };
   onHighlight: (color: HighlightColor) => void;
   onNote: () => void;
+  /** Offered instead of the other actions while a highlight is being moved */
+  onPlace?: () => void;
 }
 
 const COLORS: { color: HighlightColor; bg: string; label: string }[] = [
@@ -15,9 +17,29 @@ const COLORS: { color: HighlightColor; bg: string; label: string }[] = [
   { color: "pink", bg: "bg-pink-300", label: "粉" },
 ];
 
-const HighlightMenu = ({ position, onHighlight, onNote }: HighlightMenuProps) => {
+const HighlightMenu = ({ position, onHighlight, onNote, onPlace }: HighlightMenuProps) => {
   const [showColors, setShowColors] = useState(false);
 
+  if (onPlace) {
+    return (
+      <div
+        className="fixed z-50 animate-fade-in"
+        style={{ left: position.x, top: position.y, transform: "translate(-50%, -120%)" }}
+      >
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onPlace();
+          }}
+          className="flex items-center gap-1.5 rounded-lg border bg-card px-3 py-1.5 text-xs text-foreground shadow-lg transition-colors hover:bg-accent"
+        >
+          <MapPin className="h-3.5 w-3.5" />
+          把划线移到这里
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div
       className="fixed z-50 flex flex-col items-center gap-1 animate-fade-in"
@@ -0,0 +1,196 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import { ArchiveRestore, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useBookStore } from "@/stores/bookStore";
+import { backupService, type RestorePlan, type RestoreResult } from "@/services";
+
+interface Step {
+  label: string;
+  done: number;
+  total: number;
+}
+
+/**
+ * Export the whole library to one archive, and restore an archive after
+ * reviewing what it would add
+ */
+const LibraryBackup = () => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const progress = (label: string) => (done: number, total: number) => setStep({ label, done, total });
+
+  const handleExport = async () => {
+    const label = "正在打包书库…";
+    setStep({ label, done: 0, total: 0 });
+    try {
+      const archive = await backupService.create(progress(label));
+      const url = URL.createObjectURL(archive);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `书库备份_${format(new Date(), "yyyyMMdd_HHmm")}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({ title: "备份已导出" });
+    } catch (error) {
+      toast({ variant: "destructive", title: "导出备份失败", description: (error as Error)?.message });
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setResult(null);
+    setStep({ label: "正在检查备份…", done: 0, total: 0 });
+    try {
+      setPlan(await backupService.plan(file));
+    } catch (error) {
+      toast({ variant: "destructive", title: "无法读取备份", description: (error as Error)?.message });
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    const label = "正在恢复…";
+    setStep({ label, done: 0, total: 0 });
+    try {
+      const restored = await backupService.restore(plan, progress(label));
+      setPlan(null);
+      setResult(restored);
+      useBookStore.getState().fetchBooks();
+      toast({
+        variant: restored.failures.length ? "destructive" : "default",
+        title: restored.failures.length ? `恢复完成，有 ${restored.failures.length} 项失败` : "恢复完成",
+      });
+    } catch (error) {
+      toast({ variant: "destructive", title: "恢复失败", description: (error as Error)?.message });
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const rows = plan && [
+    { label: "书籍", add: plan.books.length, skip: plan.skipped.books },
+    {
+      label: "阅读进度",
+      add: plan.books.filter(({ book }) => book.position).length + plan.positions.length,
+      skip: plan.existing.size - plan.positions.length,
+    },
+    { label: "划线与笔记", add: plan.highlights.length, skip: plan.skipped.highlights },
+    { label: "想法", add: plan.thoughts.length, skip: plan.skipped.thoughts },
+    { label: "书签", add: plan.bookmarks.length, skip: plan.skipped.bookmarks },
+    {
+      label: "脚本模板与数据集预设",
+      add: plan.settings.scriptTemplates.length + plan.settings.datasetPresets.length,
+      skip: plan.skipped.settings,
+    },
+  ];
+  const nothingToRestore = rows?.every(({ add }) => add === 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>备份与恢复</CardTitle>
+        <CardDescription>
+          把书籍原文件、划线和笔记、想法、书签、阅读进度，以及本机保存的脚本模板和数据集预设打包成一个文件；恢复时会跳过已有的内容
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleExport} disabled={!!step}>
+            <Download className="mr-2 h-4 w-4" />
+            导出备份
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={!!step}>
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            从备份恢复
+          </Button>
+          <input ref={fileInput} type="file" accept=".zip" className="hidden" onChange={handleFile} />
+        </div>
+
+        {step && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {step.label}
+              {step.total > 0 && (
+                <span className="tabular-nums">
+                  {step.done}/{step.total}
+                </span>
+              )}
+            </div>
+            {step.total > 0 && <Progress value={(step.done / step.total) * 100} />}
+          </div>
+        )}
+
+        {plan && !step && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div>
+              <p className="text-sm font-medium">
+                备份于 {format(new Date(plan.backup.createdAt), "yyyy年M月d日 HH:mm", { locale: zhCN })}
+              </p>
+              {plan.otherAccount && (
+                <p className="text-xs text-muted-foreground">这份备份来自另一个账号，内容会作为新条目导入当前账号</p>
+              )}
+            </div>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="py-1 text-left font-normal">内容</th>
+                  <th className="py-1 text-right font-normal">将导入</th>
+                  <th className="py-1 text-right font-normal">已存在，跳过</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ label, add, skip }) => (
+                  <tr key={label} className="border-t">
+                    <td className="py-1.5">{label}</td>
+                    <td className="py-1.5 text-right tabular-nums">{add}</td>
+                    <td className="py-1.5 text-right tabular-nums text-muted-foreground">{skip}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPlan(null)}>
+                取消
+              </Button>
+              <Button onClick={handleRestore} disabled={nothingToRestore}>
+                {nothingToRestore ? "没有需要恢复的内容" : "开始恢复"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result && !step && (
+          <div className="space-y-1 rounded-lg border p-4 text-sm">
+            <p>
+              已恢复 {result.books} 本书、{result.highlights} 条划线、{result.thoughts} 条想法、{result.bookmarks}{" "}
+              个书签、{result.settings} 个模板和预设，更新了 {result.positions} 本书的阅读进度
+            </p>
+            {result.failures.map((failure, index) => (
+              <p key={index} className="text-destructive">
+                {failure}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LibraryBackup;
@@ -0,0 +1,93 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface NoteMarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const HEADING_CLASS = ["text-base font-semibold", "text-sm font-semibold", "text-sm font-medium"];
+
+const renderInlines = (nodes: MarkdownInline[]): ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "break":
+        return <br key={index} />;
+      case "code":
+        return (
+          <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={index}>{renderInlines(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInlines(node.children)}</em>;
+      case "delete":
+        return <del key={index}>{renderInlines(node.children)}</del>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInlines(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): ReactNode =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={index}>{renderInlines(block.children)}</p>;
+      case "heading":
+        return (
+          <p key={index} className={HEADING_CLASS[Math.min(block.level, HEADING_CLASS.length) - 1]}>
+            {renderInlines(block.children)}
+          </p>
+        );
+      case "quote":
+        return (
+          <blockquote key={index} className="space-y-1 border-l-2 border-muted-foreground/30 pl-3 text-muted-foreground">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List key={index} className={`space-y-0.5 pl-5 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderBlocks(item)}</li>
+            ))}
+          </List>
+        );
+      }
+      case "code":
+        return (
+          <pre key={index} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">
+            {block.text}
+          </pre>
+        );
+      case "rule":
+        return <hr key={index} className="border-border" />;
+    }
+  });
+
+/**
+ * A highlight's note, written in Markdown
+ */
+const NoteMarkdown = ({ content, className }: NoteMarkdownProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={cn("space-y-1.5 break-words", className)}>{renderBlocks(blocks)}</div>;
+};
+
+export default NoteMarkdown;
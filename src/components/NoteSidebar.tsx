@@ -1,6 +1,21 @@
 import { useState, useMemo } from "react";
-import { List, StickyNote, X, Trash2, Clock, BookOpen } from "lucide-react";
+import {
+  List,
+  StickyNote,
+  X,
+  Trash2,
+  Clock,
+  BookOpen,
+  PencilLine,
+  Bookmark as BookmarkIcon,
+  BookmarkPlus,
+  Headphones,
+  MapPin,
+  Unlink,
+} from "lucide-react";
 import { useHighlightStore, type SavedHighlight } from "@/stores/highlightStore";
+import { useBookmarkStore, type Bookmark } from "@/stores/bookmarkStore";
+import { useReaderStore } from "@/stores/readerStore";
 import {
   Dialog,
   DialogContent,
@@ -8,12 +23,37 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import HighlightEditor from "@/components/HighlightEditor";
+import NoteMarkdown from "@/components/NoteMarkdown";
+import type { ChapterBlock } from "@/lib/chapters";
+import type { EpubTocEntry } from "@/lib/epub";
 
 interface NoteSidebarProps {
   isOpen: boolean;
   onClose: () => void;
   bookId: string;
-  bookContent?: string;
+  /** Chapters of a plain-text book, placed on its paragraph blocks */
+  chapters?: ChapterBlock[];
+  /** The book's own table of contents, for EPUBs */
+  toc?: EpubTocEntry[];
+  activeChapterIndex?: number;
+  onTocNavigate?: (entry: EpubTocEntry) => void;
+  /** Open the chapter preview to correct what was detected */
+  onEditChapters?: () => void;
+  /** Jump to a highlight that isn't in the rendered blocks, e.g. in another chapter */
+  onJumpToHighlight?: (highlight: SavedHighlight) => void;
+  /** Where a highlight sits in the original, such as its PDF page */
+  describeHighlight?: (highlight: SavedHighlight) => string | null;
+  /** Highlights whose text can't be found in the book any more */
+  unplacedHighlights?: SavedHighlight[];
+  /** Put a lost highlight back by selecting its text again */
+  onRepairHighlight?: (highlight: SavedHighlight) => void;
+  /** Bookmark the place being read */
+  onAddBookmark?: () => void;
+  /** Go back to a bookmark, in the text and in the audio */
+  onJumpToBookmark?: (bookmark: Bookmark) => void;
+  /** Where a bookmark sits, such as its chapter */
+  describeBookmark?: (bookmark: Bookmark) => string | null;
 }
 
 const HIGHLIGHT_DOT: Record<string, string> = {
@@ -23,83 +63,88 @@ const HIGHLIGHT_DOT: Record<string, string> = {
   pink: "bg-pink-400",
 };
 
-const HIGHLIGHT_COLOR_NAME: Record<string, string> = {
-  yellow: "黄色",
-  blue: "蓝色",
-  green: "绿色",
-  pink: "粉色",
-};
-
 interface NoteSidebarProps {
   isOpen: boolean;
   onClose: () => void;
   bookId: string;
 }
 
-type Tab = "toc" | "notes";
+type Tab = "toc" | "notes" | "bookmarks";
 
 interface Chapter {
   id: string;
   title: string;
   level: number;
   blockIndex: number;
+  entry?: EpubTocEntry;
 }
 
-const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps) => {
+const NoteSidebar = ({
+  isOpen,
+  onClose,
+  bookId,
+  chapters: chapterBlocks,
+  toc,
+  activeChapterIndex,
+  onTocNavigate,
+  onEditChapters,
+  onJumpToHighlight,
+  describeHighlight,
+  unplacedHighlights,
+  onRepairHighlight,
+  onAddBookmark,
+  onJumpToBookmark,
+  describeBookmark,
+}: NoteSidebarProps) => {
   const [activeTab, setActiveTab] = useState<Tab>("toc");
-  const [selectedHighlight, setSelectedHighlight] = useState<SavedHighlight | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const bookHighlights = useHighlightStore((s) => s.highlights).filter((h) => h.bookId === bookId);
+  // Looked up each render so edits made in the dialog show in it
+  const selectedHighlight = bookHighlights.find((h) => h.id === selectedId) ?? null;
   const deleteHighlight = useHighlightStore((s) => s.deleteHighlight);
+  const allBookmarks = useBookmarkStore((s) => s.bookmarks);
+  const renameBookmark = useBookmarkStore((s) => s.renameBookmark);
+  const deleteBookmark = useBookmarkStore((s) => s.deleteBookmark);
+  // Most recent first
+  const bookBookmarks = useMemo(
+    () => allBookmarks.filter((b) => b.bookId === bookId).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [allBookmarks, bookId]
+  );
+  const scrollToBlock = useReaderStore((s) => s.scrollToBlock);
+  const unplaced = useMemo(() => new Set((unplacedHighlights ?? []).map((h) => h.id)), [unplacedHighlights]);
 
-  // Extract chapters from book content
   const chapters = useMemo(() => {
-    if (!bookContent) return [];
-
-    const blocks = bookContent.split("\n\n").filter(Boolean);
-    const extractedChapters: Chapter[] = [];
-    let blockIndex = 0;
-
-    for (const block of blocks) {
-      const trimmedBlock = block.trim();
-      if (trimmedBlock.startsWith("# ")) {
-        extractedChapters.push({
-          id: `chapter-${blockIndex}`,
-          title: trimmedBlock.replace("# ", "").trim(),
-          level: 1,
-          blockIndex,
-        });
-      } else if (trimmedBlock.startsWith("## ")) {
-        extractedChapters.push({
-          id: `chapter-${blockIndex}`,
-          title: trimmedBlock.replace("## ", "").trim(),
-          level: 2,
-          blockIndex,
-        });
-      } else if (trimmedBlock.startsWith("### ")) {
-        extractedChapters.push({
-          id: `chapter-${blockIndex}`,
-          title: trimmedBlock.replace("### ", "").trim(),
-          level: 3,
-          blockIndex,
-        });
-      }
-      blockIndex++;
+    if (toc) {
+      return toc.map((entry, index): Chapter => ({
+        id: `toc-${index}`,
+        title: entry.title,
+        level: entry.level,
+        blockIndex: -1,
+        entry,
+      }));
     }
-
-    return extractedChapters;
-  }, [bookContent]);
+    return (chapterBlocks ?? []).map(
+      (chapter, index): Chapter => ({
+        id: `chapter-${index}`,
+        title: chapter.title,
+        level: chapter.level,
+        blockIndex: chapter.blockIndex,
+      })
+    );
+  }, [chapterBlocks, toc]);
 
   // Handle chapter click - scroll to block
-  const handleChapterClick = (blockIndex: number) => {
-    const element = document.querySelector(`[data-block-index="${blockIndex}"]`);
-    if (element) {
-      element.scrollIntoView({ behavior: "smooth", block: "start" });
+  const handleChapterClick = ({ blockIndex, entry }: Chapter) => {
+    if (entry) {
+      onTocNavigate?.(entry);
+      return;
     }
+    scrollToBlock(blockIndex);
   };
 
   // Handle highlight view
   const handleViewHighlight = (highlight: SavedHighlight) => {
-    setSelectedHighlight(highlight);
+    setSelectedId(highlight.id);
   };
 
   // Format date for display
@@ -148,6 +193,22 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
               </span>
             )}
           </button>
+          <button
+            onClick={() => setActiveTab("bookmarks")}
+            className={`flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm transition-colors ${
+              activeTab === "bookmarks"
+                ? "bg-accent text-accent-foreground font-medium"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <BookmarkIcon className="h-4 w-4" />
+            书签
+            {bookBookmarks.length > 0 && (
+              <span className="ml-1 rounded-full bg-primary/10 px-1.5 text-xs text-primary">
+                {bookBookmarks.length}
+              </span>
+            )}
+          </button>
         </div>
         <button
           onClick={onClose}
@@ -161,6 +222,15 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
       <div className="flex-1 overflow-y-auto scrollbar-thin p-4">
         {activeTab === "toc" ? (
           <div className="space-y-1">
+            {onEditChapters && (
+              <button
+                onClick={onEditChapters}
+                className="mb-2 flex w-full items-center justify-center gap-1.5 rounded-md border border-dashed px-3 py-1.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+              >
+                <PencilLine className="h-3.5 w-3.5" />
+                校正目录
+              </button>
+            )}
             {chapters.length === 0 ? (
               <div className="py-8 text-center">
                 <List className="mx-auto h-8 w-8 text-muted-foreground/40" />
@@ -172,8 +242,10 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
               chapters.map((chapter) => (
                 <button
                   key={chapter.id}
-                  onClick={() => handleChapterClick(chapter.blockIndex)}
+                  onClick={() => handleChapterClick(chapter)}
                   className={`w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent ${
+                    chapter.entry && chapter.entry.chapterIndex === activeChapterIndex ? "bg-accent/60 " : ""
+                  }${
                     chapter.level === 1
                       ? "font-medium text-foreground"
                       : `text-muted-foreground ${chapter.level === 2 ? "pl-6" : "pl-10"}`
@@ -184,8 +256,51 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
               ))
             )}
           </div>
+        ) : activeTab === "bookmarks" ? (
+          <div className="space-y-3">
+            {onAddBookmark && (
+              <button
+                onClick={onAddBookmark}
+                className="flex w-full items-center justify-center gap-1.5 rounded-md border border-dashed px-3 py-1.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+              >
+                <BookmarkPlus className="h-3.5 w-3.5" />
+                在当前位置添加书签 (Ctrl+D)
+              </button>
+            )}
+            {bookBookmarks.length === 0 ? (
+              <div className="py-8 text-center">
+                <BookmarkIcon className="mx-auto h-8 w-8 text-muted-foreground/40" />
+                <p className="mt-2 text-sm text-muted-foreground">
+                  还没有书签
+                </p>
+              </div>
+            ) : (
+              bookBookmarks.map((b) => (
+                <BookmarkCard
+                  key={b.id}
+                  bookmark={b}
+                  location={describeBookmark?.(b)}
+                  createdAt={formatDate(b.createdAt)}
+                  onJump={() => onJumpToBookmark?.(b)}
+                  onRename={(label) => renameBookmark(b.id, label).catch((err) => console.error("Failed to rename bookmark:", err))}
+                  onDelete={() => deleteBookmark(b.id).catch((err) => console.error("Failed to delete bookmark:", err))}
+                />
+              ))
+            )}
+          </div>
         ) : (
           <div className="space-y-3">
+            {unplaced.size > 0 && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-900/40 dark:bg-amber-900/20">
+                <p className="flex items-center gap-1.5 text-sm font-medium text-amber-900 dark:text-amber-300">
+                  <Unlink className="h-3.5 w-3.5" />
+                  {unplaced.size} 条划线在书中找不到了
+                </p>
+                <p className="mt-1 text-xs text-amber-700 dark:text-amber-300/80">
+                  原文可能改动过。点「重新定位」，再在正文中选中它现在对应的文字
+                </p>
+              </div>
+            )}
             {bookHighlights.length === 0 ? (
               <div className="py-8 text-center">
                 <StickyNote className="mx-auto h-8 w-8 text-muted-foreground/40" />
@@ -198,8 +313,10 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
                 <HighlightCard
                   key={h.id}
                   highlight={h}
+                  location={describeHighlight?.(h)}
                   onDelete={() => deleteHighlight(h.id)}
                   onView={() => handleViewHighlight(h)}
+                  onRepair={unplaced.has(h.id) && onRepairHighlight ? () => onRepairHighlight(h) : undefined}
                 />
               ))
             )}
@@ -208,7 +325,7 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
       </div>
 
       {/* Note Detail Dialog */}
-      <Dialog open={!!selectedHighlight} onOpenChange={() => setSelectedHighlight(null)}>
+      <Dialog open={!!selectedHighlight} onOpenChange={() => setSelectedId(null)}>
         <DialogContent className="max-w-2xl">
           {selectedHighlight && (
             <>
@@ -238,18 +355,8 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
                   </p>
                 </div>
 
-                {/* Note */}
-                {selectedHighlight.note && (
-                  <div className="rounded-lg border bg-primary/5 p-4">
-                    <div className="flex items-center gap-2 mb-2 text-sm font-medium text-muted-foreground">
-                      <StickyNote className="h-4 w-4" />
-                      <span>我的笔记</span>
-                    </div>
-                    <p className="text-base leading-relaxed text-foreground">
-                      {selectedHighlight.note.content}
-                    </p>
-                  </div>
-                )}
+                {/* Color and note */}
+                <HighlightEditor highlight={selectedHighlight} />
 
                 {/* Metadata */}
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -257,14 +364,12 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
                     <Clock className="h-4 w-4" />
                     <span>创建于 {formatDate(selectedHighlight.createdAt)}</span>
                   </div>
-                  <div className="flex items-center gap-1">
-                    <div
-                      className={`h-3 w-3 rounded-full ${
-                        HIGHLIGHT_DOT[selectedHighlight.color] ?? "bg-yellow-400"
-                      }`}
-                    />
-                    <span>{HIGHLIGHT_COLOR_NAME[selectedHighlight.color] || selectedHighlight.color}</span>
-                  </div>
+                  {describeHighlight?.(selectedHighlight) && (
+                    <div className="flex items-center gap-1">
+                      <BookOpen className="h-4 w-4" />
+                      <span>{describeHighlight(selectedHighlight)}</span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Actions */}
@@ -272,14 +377,13 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
                   <button
                     onClick={() => {
                       // Scroll to highlight
-                      if (selectedHighlight.chapter !== undefined && selectedHighlight.chapter !== null) {
+                      if (onJumpToHighlight) {
+                        onJumpToHighlight(selectedHighlight);
+                      } else if (selectedHighlight.chapter !== undefined && selectedHighlight.chapter !== null) {
                         const blockIndex = parseInt(selectedHighlight.chapter, 10);
-                        const element = document.querySelector(`[data-block-index="${blockIndex}"]`);
-                        if (element) {
-                          element.scrollIntoView({ behavior: "smooth", block: "center" });
-                        }
+                        if (!Number.isNaN(blockIndex)) scrollToBlock(blockIndex, { align: "center" });
                       }
-                      setSelectedHighlight(null);
+                      setSelectedId(null);
                     }}
                     className="px-4 py-2 rounded-md bg-primary text-primary-foreground text-sm hover:bg-primary/90 transition-colors"
                   >
@@ -288,11 +392,11 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
                   <button
                     onClick={() => {
                       deleteHighlight(selectedHighlight.id);
-                      setSelectedHighlight(null);
+                      setSelectedId(null);
                     }}
                     className="px-4 py-2 rounded-md border border-destructive text-destructive text-sm hover:bg-destructive/10 transition-colors"
                   >
-                    删除笔记
+                    删除划线
                   </button>
                 </div>
               </div>
@@ -306,12 +410,17 @@ const NoteSidebar = ({ isOpen, onClose, bookId, bookContent }: NoteSidebarProps)
 
 function HighlightCard({
   highlight,
+  location,
   onDelete,
   onView,
+  onRepair,
 }: {
   highlight: SavedHighlight;
+  location?: string | null;
   onDelete: () => void;
   onView: () => void;
+  /** Given for a highlight that can't be found in the book */
+  onRepair?: () => void;
 }) {
   return (
     <div
@@ -329,12 +438,26 @@ function HighlightCard({
             {highlight.text}
           </p>
           {highlight.note && (
-            <p className="mt-1.5 text-xs text-primary italic">
-              💡 {highlight.note.content}
-            </p>
+            <NoteMarkdown
+              content={highlight.note.content}
+              className="mt-1.5 line-clamp-4 text-xs text-primary"
+            />
+          )}
+          {onRepair && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRepair();
+              }}
+              className="mt-1.5 flex items-center gap-1 text-xs text-amber-700 hover:underline dark:text-amber-300"
+            >
+              <MapPin className="h-3 w-3" />
+              找不到原文 · 重新定位
+            </button>
           )}
           <div className="mt-1.5 flex items-center justify-between">
             <span className="text-xs text-muted-foreground">
+              {location ? `${location} · ` : ""}
               {highlight.createdAt}
             </span>
             <button
@@ -353,4 +476,108 @@ function HighlightCard({
   );
 }
 
+const formatAudioTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+};
+
+function BookmarkCard({
+  bookmark,
+  location,
+  createdAt,
+  onJump,
+  onRename,
+  onDelete,
+}: {
+  bookmark: Bookmark;
+  location?: string | null;
+  createdAt: string;
+  onJump: () => void;
+  onRename: (label: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [label, setLabel] = useState("");
+
+  const startEditing = () => {
+    setLabel(bookmark.label ?? "");
+    setEditing(true);
+  };
+
+  const finishEditing = () => {
+    setEditing(false);
+    if (label.trim() !== (bookmark.label ?? "")) onRename(label);
+  };
+
+  return (
+    <div
+      className="group rounded-lg border p-3 transition-all hover:shadow-md hover:bg-accent/50 cursor-pointer"
+      onClick={editing ? undefined : onJump}
+    >
+      <div className="flex items-start gap-2">
+        <BookmarkIcon className="mt-0.5 h-3.5 w-3.5 shrink-0 fill-primary/20 text-primary" />
+        <div className="flex-1 min-w-0">
+          {editing ? (
+            <input
+              autoFocus
+              value={label}
+              placeholder="书签名称"
+              onChange={(e) => setLabel(e.target.value)}
+              onBlur={finishEditing}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishEditing();
+                if (e.key === "Escape") setEditing(false);
+              }}
+              className="w-full rounded border bg-background px-2 py-0.5 text-sm outline-none focus:ring-1 focus:ring-ring"
+            />
+          ) : (
+            bookmark.label && <p className="text-sm font-medium text-foreground">{bookmark.label}</p>
+          )}
+          <p
+            className={`font-reading leading-relaxed line-clamp-2 ${
+              bookmark.label || editing ? "mt-1 text-xs text-muted-foreground" : "text-sm text-foreground"
+            }`}
+          >
+            {bookmark.excerpt || "（空白段落）"}
+          </p>
+          <div className="mt-1.5 flex items-center justify-between gap-2">
+            <span className="flex min-w-0 items-center gap-1 truncate text-xs text-muted-foreground">
+              {location ? `${location} · ` : ""}
+              {bookmark.audioTime !== undefined && bookmark.audioTime !== null && (
+                <>
+                  <Headphones className="h-3 w-3 shrink-0" />
+                  {formatAudioTime(bookmark.audioTime)} ·{" "}
+                </>
+              )}
+              {createdAt}
+            </span>
+            <div className="flex shrink-0 gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                title="重命名"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startEditing();
+                }}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <PencilLine className="h-3.5 w-3.5" />
+              </button>
+              <button
+                title="删除书签"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete();
+                }}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default NoteSidebar;
@@ -1,7 +1,16 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef, type RefObject } from "react";
 import { Play } from "lucide-react";
 import HighlightMenu from "./HighlightMenu";
 import NoteInput from "./NoteInput";
+import EpubBlockView, { HighlightedRun, type BlockHighlight } from "./EpubBlockView";
+import { paragraphIndexAt, paragraphOffsets, splitParagraphs, type ChapterBlock } from "@/lib/chapters";
+import { anchorQuote, describeRange, quoteAt, type TextRange } from "@/lib/anchoring";
+import { blockOffsets, type EpubChapter, type EpubInline } from "@/lib/epub";
+import type { SearchHit } from "@/lib/search";
+import { useBlockWindow } from "@/hooks/use-block-window";
+import { usePages } from "@/hooks/use-pages";
+import { useTextDisplay } from "@/hooks/use-text-display";
+import type { ReadingPosition } from "@/services/generated/models";
 import {
   useHighlightStore,
   type HighlightColor,
@@ -9,12 +18,53 @@ import {
 } from "@/stores/highlightStore";
 import { useThoughtStore } from "@/stores/thoughtStore";
 import { useAudioStore, generateTimeMap } from "@/stores/audioStore";
+import { useReaderStore } from "@/stores/readerStore";
+import { READING_FONTS, useReaderPreferences } from "@/stores/preferenceStore";
 
 interface ReaderContentProps {
   title: string;
   author: string;
   bookId: string;
   content: string;
+  /** Parsed EPUB chapter; rendered instead of `content` when given */
+  chapter?: EpubChapter;
+  /** Follow a link into another chapter */
+  onNavigate?: (chapterIndex: number, fragment?: string) => void;
+  /** Printed page numbers beside blocks, for PDFs */
+  pageLabels?: Record<number, string>;
+  /** The element the book scrolls in; long books only mount the blocks near its viewport */
+  scrollRef?: RefObject<HTMLElement>;
+  /** Lay the book out in pages that fit the viewport instead of scrolling it */
+  paged?: boolean;
+  /** Chapters of a plain-text book; pages are laid out one chapter at a time */
+  chapters?: ChapterBlock[];
+  /** Turning past the first or last page of an EPUB chapter */
+  onTurnChapter?: (direction: 1 | -1) => void;
+  /** The block at the top of the screen, or the first on the page, and the character it starts showing from */
+  onPositionChange?: (position: ReadingPosition) => void;
+  /** Find-in-book hits in the shown text */
+  search?: SearchMarks | null;
+  /** A highlight being moved: the next selection is offered as its new place */
+  repairing?: SavedHighlight | null;
+  /** The highlight being moved has been put on the selected text */
+  onRepaired?: () => void;
+  /** Highlights of the shown text that can't be found in it any more */
+  onOrphansChange?: (orphans: SavedHighlight[]) => void;
+}
+
+/** Search hits to mark, by block */
+export interface SearchMarks {
+  hits: Map<number, Array<{ start: number; end: number }>>;
+  /** The hit being looked at; it flashes whenever `flash` changes */
+  current: SearchHit | null;
+  flash: number;
+}
+
+/** Blocks laid out together in the paged layout */
+interface PagedSection {
+  start: number;
+  end: number;
+  title: string;
 }
 
 const HIGHLIGHT_BG: Record<HighlightColor, string> = {
@@ -24,58 +74,379 @@ const HIGHLIGHT_BG: Record<HighlightColor, string> = {
   pink: "bg-pink-200/60",
 };
 
-const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) => {
+const NO_HIGHLIGHTS: BlockHighlight[] = [];
+
+const SEARCH_HIT = "bg-primary/15";
+const SEARCH_CURRENT = "bg-primary/35 animate-search-flash";
+
+// Books with more blocks than this are rendered in a window around the viewport
+const VIRTUALIZE_AFTER = 200;
+
+const IMAGE_HEIGHT = 320;
+// Ruby text adds about half a line above each line
+const PINYIN_LINE = 0.5;
+
+// Paged text is laid out a chapter at a time; long stretches without headings are split
+const MAX_PAGED_BLOCKS = 300;
+// Clicks on the outer fifth of a page turn it
+const TURN_ZONE = 0.2;
+// Horizontal travel that makes a touch a swipe
+const SWIPE_DISTANCE = 50;
+
+const PAGE_KEYS: Record<string, 1 | -1> = {
+  ArrowRight: 1,
+  PageDown: 1,
+  ArrowLeft: -1,
+  PageUp: -1,
+};
+
+const ReaderContent = ({
+  title,
+  author,
+  bookId,
+  content,
+  chapter,
+  onNavigate,
+  pageLabels,
+  scrollRef,
+  paged = false,
+  chapters,
+  onTurnChapter,
+  onPositionChange,
+  search,
+  repairing,
+  onRepaired,
+  onOrphansChange,
+}: ReaderContentProps) => {
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
-  const [pendingSelection, setPendingSelection] = useState<{
-    text: string;
-    blockIndex: number;
-    startOffset: number;
-    endOffset: number;
-  } | null>(null);
-  const [noteInput, setNoteInput] = useState<{
-    position: { x: number; y: number };
-    text: string;
-    blockIndex: number;
-    startOffset: number;
-    endOffset: number;
-  } | null>(null);
+  // Selected text, placed in the text highlights are anchored in
+  const [pendingSelection, setPendingSelection] = useState<({ text: string } & TextRange) | null>(null);
+  const [noteInput, setNoteInput] = useState<({ position: { x: number; y: number }; text: string } & TextRange) | null>(
+    null
+  );
+
+  const [sectionIndex, setSectionIndex] = useState(0);
 
   const containerRef = useRef<HTMLDivElement>(null);
-  const blockRefs = useRef<Map<number, HTMLElement>>(new Map());
+  const listRef = useRef<HTMLDivElement>(null);
+  // A page to turn to once another section has been laid out
+  const pendingPage = useRef<{ index: number; fraction: number } | null>(null);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
 
   const addHighlight = useHighlightStore((s) => s.addHighlight);
+  const moveHighlight = useHighlightStore((s) => s.moveHighlight);
   const allHighlights = useHighlightStore((s) => s.highlights);
-  const bookHighlights = allHighlights.filter((h) => h.bookId === bookId);
-  const {
-    activeBlockIndex,
-    seekToBlock,
-    isPlaying,
-    setParagraphTimeMap,
-    setBlockTexts,
-    setActiveBlock,
-    setPlaying,
-  } = useAudioStore();
+  const bookHighlights = useMemo(() => allHighlights.filter((h) => h.bookId === bookId), [allHighlights, bookId]);
+  // Picked one by one so playback time updates don't re-render the book
+  const activeBlockIndex = useAudioStore((s) => s.activeBlockIndex);
+  const seekToBlock = useAudioStore((s) => s.seekToBlock);
+  const isPlaying = useAudioStore((s) => s.isPlaying);
+  const setParagraphTimeMap = useAudioStore((s) => s.setParagraphTimeMap);
+  const setBlockTexts = useAudioStore((s) => s.setBlockTexts);
+  const setActiveBlock = useAudioStore((s) => s.setActiveBlock);
+  const setPlaying = useAudioStore((s) => s.setPlaying);
   const createThought = useThoughtStore((s) => s.createThought);
+  const { preferences } = useReaderPreferences(bookId);
+  const display = useTextDisplay(preferences);
+  const scrollRequest = useReaderStore((s) => s.scrollRequest);
+  const clearScrollRequest = useReaderStore((s) => s.clearScrollRequest);
+
+  const blocks = useMemo(() => splitParagraphs(content), [content]);
+  const chapterOffsets = useMemo(() => (chapter ? blockOffsets(chapter.blocks) : []), [chapter]);
+  const blockCount = chapter ? chapter.blocks.length : blocks.length;
+  // Highlights count characters from the start of the book's text, or of an EPUB chapter
+  const paragraphStarts = useMemo(() => (chapter ? [] : paragraphOffsets(content)), [chapter, content]);
+  const blockStarts = chapter ? chapterOffsets : paragraphStarts;
+  const anchorText = useMemo(
+    () => (chapter ? chapter.blocks.map((block) => block.text).join("\n\n") : content),
+    [chapter, content]
+  );
 
-  const blocks = content.split("\n\n").filter(Boolean);
+  const blockText = useCallback(
+    (index: number) => (chapter ? chapter.blocks[index]?.text : blocks[index]) ?? "",
+    [chapter, blocks]
+  );
+
+  // Rough height from the text length; full-width characters take twice the room of ASCII
+  const { fontSize, lineHeight, paragraphSpacing, pinyin } = preferences;
+  const estimateHeight = useCallback(
+    (index: number) => {
+      const block = chapter?.blocks[index];
+      if (block?.type === "image") return IMAGE_HEIGHT;
+      const text = block ? block.text : blocks[index];
+      const width = listRef.current?.clientWidth || 608;
+      const narrow = text.length - text.replace(/[ -~]/g, "").length;
+      const lines = Math.max(1, Math.ceil((text.length - narrow / 2) / (width / fontSize)));
+      return lines * fontSize * (lineHeight + (pinyin ? PINYIN_LINE : 0)) + fontSize * paragraphSpacing;
+    },
+    [chapter, blocks, fontSize, lineHeight, paragraphSpacing, pinyin]
+  );
+
+  const blockWindow = useBlockWindow({
+    count: blockCount,
+    estimateHeight,
+    scrollRef,
+    listRef,
+    enabled: !paged && !!scrollRef && blockCount > VIRTUALIZE_AFTER,
+  });
+  const { scrollToIndex } = blockWindow;
+
+  // An EPUB chapter is paged whole; plain text from one heading to the next
+  const sections = useMemo(() => {
+    if (chapter) return [{ start: 0, end: blockCount, title: chapter.title }];
+    const headings = (chapters ?? []).filter((heading) => heading.blockIndex < blockCount);
+    const starts = [...new Set([0, ...headings.map((heading) => heading.blockIndex)])].sort((a, b) => a - b);
+    const result: PagedSection[] = [];
+    let heading = -1;
+    starts.forEach((start, position) => {
+      while (heading + 1 < headings.length && headings[heading + 1].blockIndex <= start) heading++;
+      const end = starts[position + 1] ?? blockCount;
+      for (let from = start; from < end; from += MAX_PAGED_BLOCKS) {
+        result.push({ start: from, end: Math.min(end, from + MAX_PAGED_BLOCKS), title: headings[heading]?.title ?? title });
+      }
+    });
+    return result;
+  }, [chapter, chapters, blockCount, title]);
+  const section: PagedSection | undefined = sections[Math.min(sectionIndex, sections.length - 1)];
+  // Read by the callbacks that turn pages, which outlive a render
+  const sectionRef = useRef(sectionIndex);
+  sectionRef.current = sectionIndex;
+
+  // Pinyin arrives after its dictionary loads, and reflows the pages again
+  const textLayout = useMemo(() => ({ preferences, display }), [preferences, display]);
+  const pages = usePages({
+    listRef,
+    enabled: paged,
+    contentKey: `${chapter?.href ?? bookId}:${section?.start}`,
+    layoutKey: textLayout,
+  });
+  const { page, pageCount, goTo, pageOf, isOnPage, firstVisible } = pages;
+
+  // Another book starts from its first section
+  useEffect(() => {
+    setSectionIndex(0);
+  }, [bookId]);
+
+  // Turn to the page showing `fraction` of a block's height, switching sections first if needed
+  const showBlock = useCallback(
+    (index: number, fraction: number) => {
+      const target = sections.findIndex((candidate) => index >= candidate.start && index < candidate.end);
+      if (target < 0) return;
+      if (target !== sectionRef.current) {
+        pendingPage.current = { index, fraction };
+        setSectionIndex(target);
+        return;
+      }
+      const found = pageOf(index, fraction);
+      if (found !== null) goTo(found);
+    },
+    [sections, pageOf, goTo]
+  );
+
+  // Runs after the pages hook has laid out the new section and reset it to its first page
+  useLayoutEffect(() => {
+    const pending = pendingPage.current;
+    if (!pending) return;
+    pendingPage.current = null;
+    const found = pageOf(pending.index, pending.fraction);
+    if (found !== null) goTo(found);
+  }, [sectionIndex, pageOf, goTo]);
+
+  const turnPage = useCallback(
+    (direction: 1 | -1) => {
+      const next = page + direction;
+      if (next >= 0 && next < pageCount) {
+        goTo(next);
+        return;
+      }
+      if (chapter) {
+        onTurnChapter?.(direction);
+        return;
+      }
+      const target = sections[sectionIndex + direction];
+      if (!target) return;
+      pendingPage.current =
+        direction > 0 ? { index: target.start, fraction: 0 } : { index: target.end - 1, fraction: 1 };
+      setSectionIndex(sectionIndex + direction);
+    },
+    [page, pageCount, goTo, chapter, onTurnChapter, sections, sectionIndex]
+  );
+
+  const toPosition = useCallback(
+    (index: number, fraction: number): ReadingPosition => ({
+      chapter: chapter?.href,
+      block: index,
+      offset: Math.floor(blockText(index).length * fraction),
+    }),
+    [chapter, blockText]
+  );
+
+  // Highlights found in the shown text by their selectors. Older ones have
+  // only offsets: block-relative for plain text, kept by paragraph index
+  const anchored = useMemo(() => {
+    const placed: Array<SavedHighlight & TextRange> = [];
+    const orphans: SavedHighlight[] = [];
+    bookHighlights.forEach((h) => {
+      if (chapter && h.chapter !== chapter.href) return;
+      const paragraph = chapter ? 0 : paragraphStarts[Number(h.chapter)] ?? 0;
+      const range = anchorQuote(
+        anchorText,
+        h.selector ?? quoteAt(h.text, paragraph + h.startOffset, paragraph + h.endOffset)
+      );
+      if (range) placed.push({ ...h, ...range });
+      else orphans.push(h);
+    });
+    return { placed, orphans };
+  }, [bookHighlights, chapter, paragraphStarts, anchorText]);
+
+  useEffect(() => {
+    onOrphansChange?.(anchored.orphans);
+  }, [anchored.orphans, onOrphansChange]);
+
+  // Highlights clipped to each block they cross, so a block looks up only its own
+  const blockHighlights = useMemo(() => {
+    const byBlock = new Map<number, BlockHighlight[]>();
+    anchored.placed.forEach((h) => {
+      for (let index = paragraphIndexAt(blockStarts, h.start); index < blockCount; index++) {
+        const start = blockStarts[index];
+        const end = start + blockText(index).length;
+        if (start >= h.end) break;
+        if (h.start >= end) continue;
+        byBlock.set(index, [
+          ...(byBlock.get(index) ?? []),
+          {
+            id: h.id,
+            start: Math.max(h.start, start) - start,
+            end: Math.min(h.end, end) - start,
+            className: HIGHLIGHT_BG[h.color],
+            note: h.end <= end ? h.note?.content : undefined,
+          },
+        ]);
+      }
+    });
+    return byBlock;
+  }, [anchored.placed, blockStarts, blockCount, blockText]);
+
+  // Search hits are drawn over highlights; remounting the current one replays its flash
+  const searchHighlights = useMemo(() => {
+    const byBlock = new Map<number, BlockHighlight[]>();
+    search?.hits.forEach((matches, index) => {
+      byBlock.set(
+        index,
+        matches.map((match, position) => {
+          const current = search.current?.block === index && search.current.start === match.start;
+          return {
+            id: current ? `search-current-${search.flash}` : `search-${position}`,
+            ...match,
+            className: current ? SEARCH_CURRENT : SEARCH_HIT,
+          };
+        })
+      );
+    });
+    return byBlock;
+  }, [search]);
 
   // Initialize paragraph time map 与段落原文（供底部播放器 Web Speech 朗读，不依赖 DOM）
   useEffect(() => {
-    const blocksFromContent = content.split("\n\n").filter(Boolean);
+    const blocksFromContent = chapter
+      ? chapter.blocks.map((block) => block.text)
+      : splitParagraphs(content);
     const map = generateTimeMap(blocksFromContent);
     setParagraphTimeMap(map);
     setBlockTexts(blocksFromContent);
-  }, [content, setParagraphTimeMap, setBlockTexts]);
+  }, [content, chapter, setParagraphTimeMap, setBlockTexts]);
 
-  // Auto-scroll to active block during playback
+  // Auto-scroll to active block during playback; pages turn only once it has left the page
   useEffect(() => {
-    if (activeBlockIndex !== null && isPlaying) {
-      const el = blockRefs.current.get(activeBlockIndex);
-      if (el) {
-        el.scrollIntoView({ behavior: "smooth", block: "center" });
-      }
+    if (activeBlockIndex === null || !isPlaying) return;
+    if (!paged) {
+      scrollToIndex(activeBlockIndex, { align: "center" });
+    } else if (!isOnPage(activeBlockIndex)) {
+      showBlock(activeBlockIndex, 0);
     }
-  }, [activeBlockIndex, isPlaying]);
+  }, [activeBlockIndex, isPlaying, paged, scrollToIndex, isOnPage, showBlock]);
+
+  // Scrolls asked for elsewhere, e.g. by the table of contents
+  useEffect(() => {
+    if (!scrollRequest) return;
+    const { blockIndex, align, behavior, offset } = scrollRequest;
+    if (paged) {
+      showBlock(blockIndex, align === "end" ? 1 : (offset ?? 0) / Math.max(1, blockText(blockIndex).length));
+    } else {
+      scrollToIndex(blockIndex, { align, behavior });
+    }
+    clearScrollRequest();
+  }, [scrollRequest, paged, showBlock, blockText, scrollToIndex, clearScrollRequest]);
+
+  // Report where the page starts whenever it turns
+  useEffect(() => {
+    if (!paged || !onPositionChange) return;
+    const first = firstVisible();
+    if (first) onPositionChange(toPosition(first.index, first.fraction));
+  }, [paged, page, pageCount, section, firstVisible, toPosition, onPositionChange]);
+
+  // Report the block at the top of the scroller, at most once a frame
+  useEffect(() => {
+    const scroller = scrollRef?.current;
+    if (paged || !scroller || !onPositionChange) return;
+    let frame = 0;
+    const report = () => {
+      const top = scroller.getBoundingClientRect().top;
+      const elements = Array.from(listRef.current?.querySelectorAll<HTMLElement>(":scope > [data-block-index]") ?? []);
+      const element = elements.find((candidate) => candidate.getBoundingClientRect().bottom > top);
+      if (!element) return;
+      const rect = element.getBoundingClientRect();
+      const fraction = rect.height > 0 ? Math.min(1, Math.max(0, (top - rect.top) / rect.height)) : 0;
+      onPositionChange(toPosition(Number(element.dataset.blockIndex), fraction));
+    };
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(report);
+    };
+    scroller.addEventListener("scroll", schedule, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener("scroll", schedule);
+    };
+  }, [paged, scrollRef, toPosition, onPositionChange]);
+
+  // Arrow and page keys turn pages; Space turns forward, Shift+Space back
+  useEffect(() => {
+    if (!paged) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+      if (target?.closest("input, textarea, select, [contenteditable='true'], [role='dialog']")) return;
+      const direction = event.key === " " ? (event.shiftKey ? -1 : 1) : PAGE_KEYS[event.key];
+      // Space on a focused button presses it
+      if (!direction || (event.key === " " && target?.closest("button"))) return;
+      event.preventDefault();
+      turnPage(direction);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [paged, turnPage]);
+
+  // Clicks near the left or right edge turn the page instead of playing the block
+  const handlePageClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (window.getSelection()?.toString().trim()) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width;
+    const direction = x < TURN_ZONE ? -1 : x > 1 - TURN_ZONE ? 1 : 0;
+    if (!direction) return;
+    event.stopPropagation();
+    turnPage(direction);
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent<HTMLDivElement>) => {
+    const start = touchStart.current;
+    const touch = event.changedTouches[0];
+    touchStart.current = null;
+    if (!start || !touch) return;
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) turnPage(dx < 0 ? 1 : -1);
+  };
 
   const handleTextSelect = useCallback(() => {
     const selection = window.getSelection();
@@ -116,17 +487,22 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
         x: rect.left + rect.width / 2,
         y: rect.top,
       });
-      setPendingSelection({
-        text: selection.toString().trim(),
-        blockIndex,
-        startOffset,
-        endOffset,
-      });
+      // The rendered text can differ from the book's (note markers, whitespace
+      // at the ends of the selection); the selected text puts the ends right
+      const text = selection.toString().trim();
+      const blockStart = blockStarts[blockIndex] ?? 0;
+      const from = blockStart + startOffset;
+      const found = anchorQuote(anchorText, quoteAt(text, from, from + text.length));
+      setPendingSelection(
+        found
+          ? { text: anchorText.slice(found.start, found.end), ...found }
+          : { text, start: from, end: blockStart + endOffset }
+      );
     } else {
       setMenuPosition(null);
       setPendingSelection(null);
     }
-  }, []);
+  }, [blockStarts, anchorText]);
 
   const handleClickOutside = useCallback(() => {
     setTimeout(() => {
@@ -138,15 +514,24 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
     }, 200);
   }, []);
 
+  // What a highlight of `start`-`end` is saved with: EPUB highlights are keyed by the
+  // chapter's path with chapter-relative offsets, plain text by the block they start
+  // in with block-relative offsets, and both by selectors to find them again
+  const anchorFields = ({ start, end }: TextRange) => {
+    const selector = describeRange(anchorText, start, end);
+    if (chapter) return { chapter: chapter.href, start_offset: start, end_offset: end, selector };
+    const block = paragraphIndexAt(paragraphStarts, start);
+    const blockStart = paragraphStarts[block] ?? 0;
+    return { chapter: String(block), start_offset: start - blockStart, end_offset: end - blockStart, selector };
+  };
+
   const handleHighlight = async (color: HighlightColor) => {
     if (!pendingSelection) return;
     try {
       await addHighlight(bookId, {
         text: pendingSelection.text,
-        start_offset: pendingSelection.startOffset,
-        end_offset: pendingSelection.endOffset,
         color,
-        chapter: pendingSelection.blockIndex.toString(),
+        ...anchorFields(pendingSelection),
       });
       window.getSelection()?.removeAllRanges();
       setMenuPosition(null);
@@ -158,27 +543,32 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
 
   const handleNote = () => {
     if (!pendingSelection || !menuPosition) return;
-    setNoteInput({
-      position: menuPosition,
-      text: pendingSelection.text,
-      blockIndex: pendingSelection.blockIndex,
-      startOffset: pendingSelection.startOffset,
-      endOffset: pendingSelection.endOffset,
-    });
+    setNoteInput({ position: menuPosition, ...pendingSelection });
     setMenuPosition(null);
   };
 
+  const handleRepair = async () => {
+    if (!pendingSelection || !repairing) return;
+    try {
+      await moveHighlight(repairing.id, { text: pendingSelection.text, ...anchorFields(pendingSelection) });
+      window.getSelection()?.removeAllRanges();
+      setMenuPosition(null);
+      setPendingSelection(null);
+      onRepaired?.();
+    } catch (error) {
+      console.error("Failed to move highlight:", error);
+    }
+  };
+
   const handleNoteSubmit = async (note: string, color: HighlightColor) => {
     if (!noteInput) return;
     try {
       // 创建带笔记的高亮
       await addHighlight(bookId, {
         text: noteInput.text,
-        start_offset: noteInput.startOffset,
-        end_offset: noteInput.endOffset,
         color,
         note,
-        chapter: noteInput.blockIndex.toString(),
+        ...anchorFields(noteInput),
       });
 
       // 同时创建想法（Thought）用于"我的想法"列表显示
@@ -237,83 +627,63 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
     }
   };
 
-  // Get highlights for a specific block (chapter 存的是 block 索引字符串 "0","1",...)
-  const getBlockHighlights = (blockIndex: number): SavedHighlight[] => {
-    const blockIndexStr = blockIndex.toString();
-    return bookHighlights.filter(
-      (h) => h.chapter === blockIndexStr || Number(h.chapter) === blockIndex
-    );
+  // The reader's script and pinyin settings; offsets still count the original characters
+  const show = (text: string) => (display ? display(text) : text);
+
+  // Part of a plain-text block, with search hits marked
+  const showRange = (text: string, from: number, to: number, blockIndex: number) => {
+    const marks = searchHighlights.get(blockIndex);
+    if (!marks) return show(text.slice(from, to));
+    return <HighlightedRun key={from} text={text.slice(from, to)} start={from} highlights={marks} display={display} />;
   };
 
-  // Render text with inline highlights（优先用 startOffset/endOffset 定位，避免文本空格差异导致不显示）
+  // Render text with inline highlights, placed by the anchoring above
   const renderHighlightedText = (text: string, blockIndex: number) => {
-    const highlights = getBlockHighlights(blockIndex);
-    if (highlights.length === 0) return text;
+    const highlights = blockHighlights.get(blockIndex);
+    if (!highlights) return showRange(text, 0, text.length, blockIndex);
 
     const result: React.ReactNode[] = [];
     let lastEnd = 0;
-
-    // 按起始位置排序；位置优先用 startOffset，不合法时回退到 indexOf
-    const sorted = highlights
-      .map((h) => {
-        const start = h.startOffset;
-        const end = h.endOffset;
-        const validRange =
-          typeof start === "number" &&
-          typeof end === "number" &&
-          start >= 0 &&
-          end <= text.length &&
-          start < end;
-        const pos = validRange ? start : text.indexOf(h.text, lastEnd);
-        return { ...h, start: validRange ? start : pos, end: validRange ? end : pos >= 0 ? pos + h.text.length : -1 };
-      })
-      .filter((h) => h.start >= 0 && h.end > h.start)
-      .sort((a, b) => a.start - b.start);
-
-    for (const h of sorted) {
-      if (h.start >= lastEnd) {
-        if (h.start > lastEnd) {
-          result.push(text.slice(lastEnd, h.start));
-        }
-        result.push(
-          <mark
-            key={h.id}
-            className={`${HIGHLIGHT_BG[h.color]} rounded-sm px-0.5 transition-colors`}
-            title={h.note?.content || undefined}
-          >
-            {h.text}
-            {h.note && (
-              <span className="ml-0.5 inline-block text-[10px] text-primary align-super">
-                💡
-              </span>
-            )}
-          </mark>
-        );
-        lastEnd = Math.max(lastEnd, h.end);
+    for (const h of [...highlights].sort((a, b) => a.start - b.start)) {
+      if (h.start < lastEnd) continue;
+      if (h.start > lastEnd) {
+        result.push(showRange(text, lastEnd, h.start, blockIndex));
       }
+      result.push(
+        <mark
+          key={h.id}
+          className={`${h.className} rounded-sm px-0.5 transition-colors`}
+          title={h.note || undefined}
+        >
+          {showRange(text, h.start, h.end, blockIndex)}
+          {h.note && (
+            <span className="ml-0.5 inline-block text-[10px] text-primary align-super">
+              💡
+            </span>
+          )}
+        </mark>
+      );
+      lastEnd = h.end;
     }
     if (lastEnd < text.length) {
-      result.push(text.slice(lastEnd));
+      result.push(showRange(text, lastEnd, text.length, blockIndex));
     }
-
-    return result.length > 0 ? result : text;
+    return result;
   };
 
   const renderBlock = (block: string, index: number) => {
     const isAudioActive = activeBlockIndex === index;
-
-    const setRef = (el: HTMLElement | null) => {
-      if (el) blockRefs.current.set(index, el);
-      else blockRefs.current.delete(index);
-    };
+    const pageLabel = pageLabels?.[index];
+    const pageProps = pageLabel ? { "data-page-label": pageLabel } : {};
+    const pageClass = pageLabel ? "reading-page-label" : "";
 
     if (block.startsWith("## ")) {
       return (
         <h2
           key={index}
-          ref={setRef}
           data-block-index={index}
-          className={`mt-10 mb-4 text-xl font-semibold font-reading text-foreground relative group cursor-pointer ${
+          {...pageProps}
+          className={`${pageClass} mt-10 mb-4 text-[1.25em] font-semibold font-reading text-foreground relative group cursor-pointer ${
             isAudioActive ? "text-primary" : ""
           }`}
           onClick={() => {
@@ -328,7 +698,7 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
           <span className="absolute -left-8 top-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <Play className="h-4 w-4 text-primary" />
           </span>
-          {block.replace("## ", "")}
+          {showRange(block, "## ".length, block.length, index)}
         </h2>
       );
     }
@@ -337,9 +707,9 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
       return (
         <h3
           key={index}
-          ref={setRef}
           data-block-index={index}
-          className={`mt-8 mb-3 text-lg font-medium font-reading text-foreground relative group cursor-pointer ${
+          {...pageProps}
+          className={`${pageClass} mt-8 mb-3 text-[1.125em] font-medium font-reading text-foreground relative group cursor-pointer ${
             isAudioActive ? "text-primary" : ""
           }`}
           onClick={() => {
@@ -352,7 +722,7 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
           <span className="absolute -left-8 top-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <Play className="h-4 w-4 text-primary" />
           </span>
-          {block.replace("### ", "")}
+          {showRange(block, "### ".length, block.length, index)}
         </h3>
       );
     }
@@ -361,9 +731,9 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
       return (
         <h1
           key={index}
-          ref={setRef}
           data-block-index={index}
-          className={`mt-10 mb-6 text-2xl font-bold font-reading text-foreground relative group cursor-pointer ${
+          {...pageProps}
+          className={`${pageClass} mt-10 mb-6 text-[1.5em] font-bold font-reading text-foreground relative group cursor-pointer ${
             isAudioActive ? "text-primary" : ""
           }`}
           onClick={() => {
@@ -376,7 +746,7 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
           <span className="absolute -left-8 top-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <Play className="h-4 w-4 text-primary" />
           </span>
-          {block.replace("# ", "")}
+          {showRange(block, "# ".length, block.length, index)}
         </h1>
       );
     }
@@ -384,9 +754,9 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
     return (
       <div
         key={index}
-        ref={setRef}
         data-block-index={index}
-        className={`group relative my-4 rounded-md transition-all duration-500 cursor-pointer ${
+        {...pageProps}
+        className={`${pageClass} group relative my-[var(--reading-paragraph-spacing)] rounded-md transition-all duration-500 cursor-pointer ${
           isAudioActive
             ? "bg-primary/8 border-l-3 border-primary pl-3 py-1"
             : ""
@@ -411,38 +781,140 @@ const ReaderContent = ({ title, author, bookId, content }: ReaderContentProps) =
             }`}
           />
         </span>
-        <p className="font-reading text-base leading-[1.9] text-foreground/90">
+        <p className="font-reading text-[1em] leading-[var(--reading-line-height)] text-foreground/90">
           {renderHighlightedText(block, index)}
         </p>
       </div>
     );
   };
 
+  const scrollToAnchor = (anchor: string) => {
+    const index = chapter?.blocks.findIndex((block) => block.anchors.includes(anchor)) ?? -1;
+    if (index >= 0) scrollToIndex(index, { align: "center" });
+  };
+
+  const handleLink = (inline: EpubInline) => {
+    if (inline.target) {
+      onNavigate?.(inline.target.chapterIndex, inline.target.fragment);
+    } else if (inline.href?.startsWith("#")) {
+      scrollToAnchor(decodeURIComponent(inline.href.slice(1)));
+    }
+  };
+
+  const renderEpubBlock = (index: number) => {
+    const block = chapter.blocks[index];
+    const isAudioActive = activeBlockIndex === index;
+    const readable = block.text.trim().length > 0;
+
+    return (
+      <div
+        key={`${chapter.href}-${index}`}
+        data-block-index={index}
+        data-block-offset={chapterOffsets[index]}
+        className={`group relative my-[var(--reading-paragraph-spacing)] rounded-md transition-all duration-500 ${readable ? "cursor-pointer" : ""} ${
+          isAudioActive ? "bg-primary/8 border-l-3 border-primary pl-3 py-1" : ""
+        }`}
+        onClick={() => {
+          if (!readable) return;
+          if (!seekToBlock(index)) {
+            setActiveBlock(index);
+            setPlaying(true);
+          }
+        }}
+      >
+        {readable && (
+          <span
+            className={`absolute -left-8 top-1 transition-opacity pointer-events-none ${
+              isAudioActive ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+            }`}
+          >
+            <Play className={`h-4 w-4 ${isAudioActive ? "text-primary fill-primary" : "text-primary"}`} />
+          </span>
+        )}
+        <EpubBlockView
+          block={block}
+          highlights={
+            searchHighlights.has(index)
+              ? [...(blockHighlights.get(index) ?? NO_HIGHLIGHTS), ...searchHighlights.get(index)]
+              : blockHighlights.get(index) ?? NO_HIGHLIGHTS
+          }
+          onLink={handleLink}
+          display={display}
+        />
+      </div>
+    );
+  };
+
+  // Typography reaches the blocks as custom properties set on the reading view
+  const typography = {
+    "--reading-font": READING_FONTS[preferences.font],
+    "--reading-line-height": lineHeight,
+    "--reading-paragraph-spacing": `${paragraphSpacing}em`,
+    fontSize,
+    paddingLeft: preferences.margin,
+    paddingRight: preferences.margin,
+  } as React.CSSProperties;
+
+  // Paged: the current section; scrolling: the blocks near the viewport
+  const [start, end] = paged ? [section?.start ?? 0, section?.end ?? 0] : [blockWindow.start, blockWindow.end];
+
   return (
     <div
       ref={containerRef}
-      className="mx-auto max-w-2xl px-8 py-10 pb-28"
+      className={paged ? "mx-auto flex h-full max-w-2xl flex-col pt-10 pb-28" : "mx-auto max-w-2xl py-10 pb-28"}
+      style={typography}
       onMouseUp={handleTextSelect}
       onClick={handleClickOutside}
     >
-      <div className="mb-8 border-b pb-6">
-        <h1 className="font-reading text-2xl font-bold text-foreground">
-          {title}
-        </h1>
-        {author && (
-          <p className="mt-1 text-sm text-muted-foreground">{author} · 著</p>
-        )}
-      </div>
+      {!paged && (
+        <div className="mb-8 border-b pb-6">
+          <h1 className="font-reading text-2xl font-bold text-foreground">
+            {title}
+          </h1>
+          {author && (
+            <p className="mt-1 text-sm text-muted-foreground">{author} · 著</p>
+          )}
+        </div>
+      )}
 
-      <div className="select-text">
-        {blocks.map((block, index) => renderBlock(block, index))}
+      <div
+        ref={listRef}
+        className={paged ? "relative min-h-0 flex-1 select-text overflow-hidden" : "select-text"}
+        style={pages.style}
+        onMouseDown={blockWindow.pin}
+        onClickCapture={paged ? handlePageClick : undefined}
+        onTouchStart={
+          paged
+            ? (event) => {
+                touchStart.current = { x: event.touches[0].clientX, y: event.touches[0].clientY };
+              }
+            : undefined
+        }
+        onTouchEnd={paged ? handleTouchEnd : undefined}
+      >
+        {blockWindow.paddingTop > 0 && <div aria-hidden style={{ height: blockWindow.paddingTop }} />}
+        {Array.from({ length: end - start }, (_, offset) => {
+          const index = start + offset;
+          return chapter ? renderEpubBlock(index) : renderBlock(blocks[index], index);
+        })}
+        {blockWindow.paddingBottom > 0 && <div aria-hidden style={{ height: blockWindow.paddingBottom }} />}
       </div>
 
+      {paged && (
+        <div className="mt-4 flex items-center justify-between gap-4 text-xs text-muted-foreground">
+          <span className="truncate">{section?.title}</span>
+          <span className="shrink-0 tabular-nums">
+            第 {page + 1} / {pageCount} 页
+          </span>
+        </div>
+      )}
+
       {menuPosition && (
         <HighlightMenu
           position={menuPosition}
           onHighlight={handleHighlight}
           onNote={handleNote}
+          onPlace={repairing ? handleRepair : undefined}
         />
       )}
 
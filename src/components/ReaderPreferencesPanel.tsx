@@ -0,0 +1,176 @@
+import { RotateCcw, Type } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  READER_THEMES,
+  READING_FONTS,
+  useReaderPreferences,
+  type ReaderPreferences,
+  type ReaderTheme,
+  type ReadingFont,
+  type ScriptConversion,
+} from "@/stores/preferenceStore";
+
+interface ReaderPreferencesPanelProps {
+  bookId?: string;
+}
+
+// Swatches show each theme's own colours, whatever theme is active
+const THEME_OPTIONS: Record<ReaderTheme, { label: string; swatch: string }> = {
+  light: { label: "默认", swatch: "border-stone-200 bg-[#fbf8f3] text-[#2b2621]" },
+  sepia: { label: "羊皮纸", swatch: "border-amber-300 bg-[#efe3cc] text-[#3d2f1f]" },
+  dark: { label: "夜间", swatch: "border-stone-700 bg-[#1a1714] text-[#ddd3c5]" },
+  contrast: { label: "高对比", swatch: "border-white bg-black text-yellow-300" },
+  eink: { label: "墨水屏", swatch: "border-black bg-white text-black" },
+};
+
+const FONT_OPTIONS: Record<ReadingFont, string> = {
+  serif: "宋体",
+  sans: "黑体",
+};
+
+const SCRIPT_OPTIONS: Record<ScriptConversion, string> = {
+  original: "原文",
+  simplified: "简体",
+  traditional: "繁體",
+};
+
+interface SliderSetting {
+  key: "fontSize" | "lineHeight" | "margin" | "paragraphSpacing";
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const SLIDERS: SliderSetting[] = [
+  { key: "fontSize", label: "字号", min: 14, max: 28, step: 1, format: (value) => `${value}px` },
+  { key: "lineHeight", label: "行距", min: 1.4, max: 2.6, step: 0.1, format: (value) => value.toFixed(1) },
+  { key: "margin", label: "页边距", min: 8, max: 96, step: 8, format: (value) => `${value}px` },
+  { key: "paragraphSpacing", label: "段距", min: 0, max: 2, step: 0.25, format: (value) => `${value}em` },
+];
+
+/**
+ * Theme, typeface and text settings for the reading view. Changes apply as
+ * they're made; with "仅用于本书" on they're kept for the open book only.
+ */
+const ReaderPreferencesPanel = ({ bookId }: ReaderPreferencesPanelProps) => {
+  const { preferences, perBook, update, setPerBook, reset } = useReaderPreferences(bookId);
+
+  const set = <K extends keyof ReaderPreferences>(key: K, value: ReaderPreferences[K]) => update({ [key]: value });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="阅读设置" className="h-8 w-8 text-muted-foreground">
+          <Type className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        {/* Themes */}
+        <div className="grid grid-cols-5 gap-2">
+          {READER_THEMES.map((theme) => (
+            <button
+              key={theme}
+              onClick={() => set("theme", theme)}
+              className="flex flex-col items-center gap-1 text-[11px] text-muted-foreground"
+            >
+              <span
+                className={`flex h-9 w-9 items-center justify-center rounded-full border font-reading text-sm ${
+                  THEME_OPTIONS[theme].swatch
+                } ${preferences.theme === theme ? "ring-2 ring-primary ring-offset-2 ring-offset-popover" : ""}`}
+              >
+                文
+              </span>
+              {THEME_OPTIONS[theme].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label className="text-xs text-muted-foreground">字体</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={preferences.font}
+            onValueChange={(font: ReadingFont) => font && set("font", font)}
+          >
+            {(Object.keys(FONT_OPTIONS) as ReadingFont[]).map((font) => (
+              <ToggleGroupItem
+                key={font}
+                value={font}
+                className="h-7 px-3 text-xs"
+                style={{ fontFamily: READING_FONTS[font] }}
+              >
+                {FONT_OPTIONS[font]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {SLIDERS.map((slider) => (
+          <div key={slider.key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">{slider.label}</Label>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {slider.format(preferences[slider.key])}
+              </span>
+            </div>
+            <Slider
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={[preferences[slider.key]]}
+              onValueChange={([value]) => set(slider.key, value)}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-3">
+          <Label className="text-xs text-muted-foreground">繁简</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={preferences.script}
+            onValueChange={(script: ScriptConversion) => script && set("script", script)}
+          >
+            {(Object.keys(SCRIPT_OPTIONS) as ScriptConversion[]).map((script) => (
+              <ToggleGroupItem key={script} value={script} className="h-7 px-2.5 text-xs">
+                {SCRIPT_OPTIONS[script]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="reader-pinyin" className="text-xs text-muted-foreground">
+            拼音注音
+          </Label>
+          <Switch id="reader-pinyin" checked={preferences.pinyin} onCheckedChange={(pinyin) => set("pinyin", pinyin)} />
+        </div>
+
+        <div className="flex items-center justify-between border-t pt-3">
+          <div className="flex items-center gap-2">
+            <Switch id="reader-per-book" checked={perBook} disabled={!bookId} onCheckedChange={setPerBook} />
+            <Label htmlFor="reader-per-book" className="text-xs">
+              仅用于本书
+            </Label>
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={reset}>
+            <RotateCcw className="h-3.5 w-3.5" />
+            恢复默认
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ReaderPreferencesPanel;
@@ -8,19 +8,49 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Terminal, Trash2, Download, Maximize2, Minimize2 } from "lucide-react";
+import { requestTracer, TRACE_SOURCE, type TraceLevel } from "@/services";
 
 export interface LogEntry {
   timestamp: string;
   level: "info" | "warning" | "error" | "success" | "debug";
   message: string;
   source?: string;
+  data?: Record<string, unknown>;
 }
 
+type LogFilter = "all" | "network" | "system";
+
+const FILTERS: { value: LogFilter; label: string }[] = [
+  { value: "all", label: "全部" },
+  { value: "network", label: "网络" },
+  { value: "system", label: "系统" },
+];
+
+const TRACE_LEVEL_LABELS: Record<TraceLevel, string> = {
+  off: "不记录请求",
+  errors: "仅失败请求",
+  basic: "全部请求",
+  verbose: "详细（含请求体）",
+};
+
 export function RealtimeLogs({ logs, onClear }: { logs: LogEntry[]; onClear?: () => void }) {
   const [expanded, setExpanded] = useState(false);
+  const [filter, setFilter] = useState<LogFilter>("all");
+  const [traceLevel, setTraceLevel] = useState<TraceLevel>(() => requestTracer.getLevel());
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const visibleLogs =
+    filter === "all"
+      ? logs
+      : logs.filter((log) => (log.source === TRACE_SOURCE) === (filter === "network"));
+
+  const handleTraceLevelChange = (level: TraceLevel) => {
+    requestTracer.setLevel(level);
+    setTraceLevel(level);
+  };
+
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
     if (scrollRef.current && expanded) {
@@ -63,9 +93,11 @@ export function RealtimeLogs({ logs, onClear }: { logs: LogEntry[]; onClear?: ()
   };
 
   const handleExport = () => {
-    const logText = logs
+    const logText = visibleLogs
       .map(
-        (log) => `[${log.timestamp}] [${log.level.toUpperCase()}]${log.source ? ` [${log.source}]` : ""} ${log.message}`
+        (log) =>
+          `[${log.timestamp}] [${log.level.toUpperCase()}]${log.source ? ` [${log.source}]` : ""} ${log.message}` +
+          (log.data ? ` ${JSON.stringify(log.data)}` : "")
       )
       .join("\n");
 
@@ -85,7 +117,7 @@ export function RealtimeLogs({ logs, onClear }: { logs: LogEntry[]; onClear?: ()
           <div className="flex items-center gap-2">
             <Terminal className="h-5 w-5" />
             <CardTitle>实时日志</CardTitle>
-            <Badge variant="outline">{logs.length} 条</Badge>
+            <Badge variant="outline">{visibleLogs.length} 条</Badge>
           </div>
           <div className="flex items-center gap-1">
             <Button
@@ -109,16 +141,44 @@ export function RealtimeLogs({ logs, onClear }: { logs: LogEntry[]; onClear?: ()
         <CardDescription>
           {expanded ? "实时显示系统日志" : "显示最近 50 条日志"}
         </CardDescription>
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <div className="flex items-center gap-1">
+            {FILTERS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={filter === value ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setFilter(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          {filter !== "system" && (
+            <Select value={traceLevel} onValueChange={(value) => handleTraceLevelChange(value as TraceLevel)}>
+              <SelectTrigger className="h-8 w-[150px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRACE_LEVEL_LABELS) as TraceLevel[]).map((level) => (
+                  <SelectItem key={level} value={level} className="text-xs">
+                    {TRACE_LEVEL_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         <ScrollArea className={expanded ? "h-[600px]" : "h-[300px]"}>
           <div ref={scrollRef} className="space-y-1 pr-4">
-            {logs.length === 0 ? (
+            {visibleLogs.length === 0 ? (
               <div className="flex items-center justify-center h-40 text-muted-foreground">
                 <p>暂无日志</p>
               </div>
             ) : (
-              logs
+              visibleLogs
                 .slice(expanded ? undefined : -50)
                 .reverse()
                 .map((log, index) => (
@@ -135,7 +195,16 @@ export function RealtimeLogs({ logs, onClear }: { logs: LogEntry[]; onClear?: ()
                         {log.source}
                       </Badge>
                     )}
-                    <span className={getLevelColor(log.level)}>{log.message}</span>
+                    {log.data ? (
+                      <details className="min-w-0">
+                        <summary className={`cursor-pointer ${getLevelColor(log.level)}`}>{log.message}</summary>
+                        <pre className="mt-1 whitespace-pre-wrap break-all text-muted-foreground">
+                          {JSON.stringify(log.data, null, 2)}
+                        </pre>
+                      </details>
+                    ) : (
+                      <span className={getLevelColor(log.level)}>{log.message}</span>
+                    )}
                   </div>
                 ))
             )}
@@ -0,0 +1,151 @@
+import { useMemo, useState } from "react";
+import { FolderPlus, MoreHorizontal } from "lucide-react";
+import type { Book } from "@/stores/bookStore";
+import { useCollectionStore } from "@/stores/collectionStore";
+import CollectionNameDialog from "@/components/CollectionNameDialog";
+import { useToast } from "@/hooks/use-toast";
+import { bookTags, onShelf, SMART_SHELVES, type Shelf } from "@/lib/shelves";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ShelfPickerProps {
+  books: Book[];
+  shelf: Shelf;
+  onShelfChange: (shelf: Shelf) => void;
+}
+
+const sameShelf = (a: Shelf, b: Shelf) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The bookshelf's groupings: everything, the smart shelves, the reader's
+ * collections and their tags, each with how many books it holds
+ */
+const ShelfPicker = ({ books, shelf, onShelfChange }: ShelfPickerProps) => {
+  const collections = useCollectionStore((s) => s.collections);
+  const { toast } = useToast();
+  const [naming, setNaming] = useState<{ collectionId?: string; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const tags = useMemo(() => bookTags(books), [books]);
+
+  const chip = (target: Shelf, label: string, key: string) => {
+    const now = Date.now();
+    const count = books.filter((book) => onShelf(book, target, now)).length;
+    const active = sameShelf(shelf, target);
+    return (
+      <button
+        key={key}
+        onClick={() => onShelfChange(target)}
+        className={`shrink-0 rounded-full border px-3 py-1 text-xs transition-colors ${
+          active
+            ? "border-primary bg-primary text-primary-foreground"
+            : "text-muted-foreground hover:bg-accent hover:text-foreground"
+        }`}
+      >
+        {label}
+        <span className={`ml-1.5 tabular-nums ${active ? "opacity-80" : "opacity-60"}`}>{count}</span>
+      </button>
+    );
+  };
+
+  const handleName = async (name: string) => {
+    const { createCollection, renameCollection } = useCollectionStore.getState();
+    if (naming?.collectionId) {
+      await renameCollection(naming.collectionId, name);
+    } else {
+      const collection = await createCollection(name);
+      onShelfChange({ kind: "collection", id: collection.id });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await useCollectionStore.getState().deleteCollection(deleting);
+      if (shelf.kind === "collection" && shelf.id === deleting) onShelfChange({ kind: "all" });
+    } catch (error) {
+      toast({ variant: "destructive", title: "删除书单失败", description: (error as Error)?.message });
+    }
+  };
+
+  const activeCollection = shelf.kind === "collection" ? collections.find((c) => c.id === shelf.id) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {chip({ kind: "all" }, "全部", "all")}
+        {SMART_SHELVES.map(({ id, label }) => chip({ kind: "smart", id }, label, id))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {collections.map((collection) =>
+          chip({ kind: "collection", id: collection.id }, collection.name, collection.id)
+        )}
+        {activeCollection && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground">
+                <MoreHorizontal className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem
+                onSelect={() => setNaming({ collectionId: activeCollection.id, name: activeCollection.name })}
+              >
+                重命名书单
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onSelect={() => setDeleting(activeCollection.id)}>
+                删除书单
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <button
+          onClick={() => setNaming({ name: "" })}
+          className="flex shrink-0 items-center gap-1 rounded-full border border-dashed px-3 py-1 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+        >
+          <FolderPlus className="h-3.5 w-3.5" />
+          新建书单
+        </button>
+        {tags.map((tag) => chip({ kind: "tag", tag }, `#${tag}`, `tag:${tag}`))}
+      </div>
+
+      <CollectionNameDialog
+        open={!!naming}
+        onOpenChange={(open) => !open && setNaming(null)}
+        title={naming?.collectionId ? "重命名书单" : "新建书单"}
+        initialName={naming?.name}
+        onSubmit={handleName}
+      />
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除书单</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定要删除书单「{collections.find((c) => c.id === deleting)?.name}」吗？其中的书籍不会被删除。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ShelfPicker;
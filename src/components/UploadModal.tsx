@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import {
   Upload,
   FileText,
@@ -6,6 +6,11 @@ import {
   CheckCircle2,
   Loader2,
   AlertCircle,
+  Pause,
+  Play,
+  RotateCcw,
+  Circle,
+  Copy,
 } from "lucide-react";
 import {
   Dialog,
@@ -17,44 +22,100 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useBookStore } from "@/stores/bookStore";
 import { useNavigate } from "react-router-dom";
-import type { Book } from "@/types";
+import { toBook } from "@/services/generated/models";
+import {
+  ingestBook,
+  isRequestCanceled,
+  uploadSessions,
+  UploadController,
+  UPLOAD_STEPS,
+  type BookDuplicate,
+  type DuplicateChoice,
+  type IngestionResult,
+  type StoredUploadSession,
+  type UploadProgress,
+  type UploadStep,
+} from "@/services";
 
 interface UploadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-type UploadStep = "uploading" | "complete" | "error";
-
 const ACCEPTED_TYPES = [".pdf", ".epub", ".txt"];
 const MAX_SIZE = 100 * 1024 * 1024; // 100MB
 
-const stepConfig: Record<
-  UploadStep,
-  { label: string; icon: React.ElementType }
-> = {
-  uploading: { label: "正在上传文件…", icon: Upload },
-  complete: { label: "上传完成！", icon: CheckCircle2 },
-  error: { label: "上传失败", icon: AlertCircle },
+const stepLabels: Record<UploadStep, string> = {
+  detecting: "识别文件格式与编码",
+  normalizing: "整理段落与换行",
+  detecting_chapters: "识别章节",
+  extracting_metadata: "提取书名与作者",
+  checking_duplicates: "检查书架上是否已有这本书",
+  uploading: "上传文件",
+  complete: "上传完成！",
+  error: "上传失败",
+};
+
+const describeResult = (result: IngestionResult) => {
+  if (result.outcome === "opened") return `《${result.book.title}》已在书架上`;
+  const parts = [
+    result.encoding?.toUpperCase(),
+    result.pages ? `${result.pages.length} 页` : null,
+    result.chapters.length ? `${result.chapters.length} 章` : null,
+    `《${result.metadata.title}》${result.metadata.author}`,
+  ];
+  if (result.edition) {
+    parts.push(`已迁移 ${result.edition.highlights} 条划线`);
+    if (result.edition.unplaced) parts.push(`${result.edition.unplaced} 条未能在新版本中定位`);
+  }
+  return parts.filter(Boolean).join(" · ");
 };
 
 const UploadModal = ({ open, onOpenChange }: UploadModalProps) => {
   const [dragOver, setDragOver] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [step, setStep] = useState<UploadStep | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [stepProgress, setStepProgress] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [details, setDetails] = useState<UploadProgress | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Books already on the shelf that the file looks like, while the user decides
+  const [duplicates, setDuplicates] = useState<BookDuplicate[] | null>(null);
+  const chooseRef = useRef<((choice: DuplicateChoice) => void) | null>(null);
+  // Unfinished uploads from earlier visits, resumed by picking the same file
+  const [resumable, setResumable] = useState<StoredUploadSession[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
-  const uploadBook = useBookStore((s) => s.uploadBook);
+  const controllerRef = useRef<UploadController | null>(null);
+  const addBook = useBookStore((s) => s.addBook);
+  const removeBook = useBookStore((s) => s.removeBook);
   const navigate = useNavigate();
 
+  useEffect(() => {
+    if (!open || step) return;
+    uploadSessions.list("book").then(setResumable).catch(() => setResumable([]));
+  }, [open, step]);
+
+  const clearProgress = () => {
+    setStep(null);
+    setStepProgress(0);
+    setPaused(false);
+    setDetails(null);
+    setSummary(null);
+    setDuplicates(null);
+    chooseRef.current = null;
+  };
+
   const reset = () => {
+    clearProgress();
     setSelectedFile(null);
-    setStep(null);
-    setUploadProgress(0);
     setError(null);
+    controllerRef.current = null;
   };
 
+  const findSession = (file: File) =>
+    resumable.find((session) => session.fileName.replace(/\.[^.]+$/, "") === file.name.replace(/\.[^.]+$/, ""));
+
   const validateFile = (file: File): string | null => {
     const ext = "." + file.name.split(".").pop()?.toLowerCase();
     if (!ACCEPTED_TYPES.includes(ext)) {
@@ -86,43 +147,72 @@ const UploadModal = ({ open, onOpenChange }: UploadModalProps) => {
   const handleUpload = async () => {
     if (!selectedFile) return;
     setError(null);
+    clearProgress();
 
-    try {
-      setStep("uploading");
-      setUploadProgress(0);
+    const controller = new UploadController();
+    controllerRef.current = controller;
+    // The book the upload is a new edition of, once the user says so
+    let replaced: string | null = null;
 
-      // Extract title from filename
-      const title = selectedFile.name.replace(/\.(pdf|epub|txt)$/i, "");
-
-      // Upload to backend with progress callback
-      const newBook = await uploadBook(
-        selectedFile,
-        {
-          title,
-          author: "未知作者",
+    try {
+      const result = await ingestBook(selectedFile, {
+        controller,
+        onProgress: (nextStep, progress, upload) => {
+          setStep(nextStep);
+          setStepProgress(progress);
+          if (upload) {
+            setDetails(upload);
+            setPaused(upload.state === "paused");
+          }
         },
-        (progress) => {
-          setUploadProgress(progress);
-        }
-      );
+        onDuplicate: (found) =>
+          new Promise<DuplicateChoice>((resolve) => {
+            setDuplicates(found);
+            chooseRef.current = (choice) => {
+              if (choice.action === "replace") replaced = choice.book.id;
+              setDuplicates(null);
+              chooseRef.current = null;
+              resolve(choice);
+            };
+          }),
+      });
+      if (replaced) removeBook(replaced);
+      if (result.outcome !== "opened") addBook(toBook(result.book));
 
       setStep("complete");
-      setUploadProgress(100);
+      setSummary(describeResult(result));
 
       // Auto-navigate after a short delay
       setTimeout(() => {
         onOpenChange(false);
         reset();
-        navigate(`/reader/${newBook.id}`);
+        navigate(`/reader/${result.book.id}`);
       }, 1000);
     } catch (err: any) {
+      // Cancelled by the user: back to the file picker
+      if (isRequestCanceled(err)) {
+        clearProgress();
+        return;
+      }
       setStep("error");
       setError(err.message || "上传处理失败，请重试");
     }
   };
 
+  const togglePause = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    if (controller.paused) {
+      controller.resume();
+      setPaused(false);
+    } else {
+      controller.pause();
+      setPaused(true);
+    }
+  };
+
   const isProcessing = step && step !== "complete" && step !== "error";
-  const currentStep = step ? stepConfig[step] : null;
+  const currentIndex = step === "complete" ? UPLOAD_STEPS.length : UPLOAD_STEPS.indexOf(step);
 
   const formatSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
@@ -147,43 +237,128 @@ const UploadModal = ({ open, onOpenChange }: UploadModalProps) => {
 
         {/* Processing state */}
         {step && step !== "error" ? (
-          <div className="flex flex-col items-center gap-4 py-6">
-            <div
-              className={`rounded-full p-3 ${
-                step === "complete"
-                  ? "bg-accent text-accent-foreground"
-                  : "bg-muted text-muted-foreground"
-              }`}
-            >
-              {step === "complete" ? (
-                <CheckCircle2 className="h-8 w-8 text-primary" />
-              ) : (
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              )}
-            </div>
-            <div className="text-center">
-              <p className="text-sm font-medium text-foreground">
-                {currentStep?.label}
+          <div className="flex flex-col gap-4 py-4">
+            {selectedFile && (
+              <p className="truncate text-center text-xs text-muted-foreground">
+                {selectedFile.name}
               </p>
-              {selectedFile && (
-                <p className="mt-1 text-xs text-muted-foreground">
-                  {selectedFile.name}
-                </p>
-              )}
-              {step === "uploading" && (
-                <p className="mt-1 text-xs text-muted-foreground">
-                  {uploadProgress}%
-                </p>
-              )}
-            </div>
+            )}
+            <ol className="space-y-2">
+              {UPLOAD_STEPS.map((pipelineStep, index) => (
+                <li key={pipelineStep} className="flex items-center gap-2 text-sm">
+                  {index < currentIndex ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-primary" />
+                  ) : index === currentIndex && paused ? (
+                    <Pause className="h-4 w-4 shrink-0 text-primary" />
+                  ) : index === currentIndex ? (
+                    <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+                  ) : (
+                    <Circle className="h-4 w-4 shrink-0 text-muted-foreground/40" />
+                  )}
+                  <span
+                    className={
+                      index <= currentIndex ? "text-foreground" : "text-muted-foreground"
+                    }
+                  >
+                    {pipelineStep === "uploading" && paused ? "上传已暂停" : stepLabels[pipelineStep]}
+                  </span>
+                  {index === currentIndex && (
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {pipelineStep === "uploading" && details
+                        ? `${formatSize(details.loaded)} / ${formatSize(details.total)} · 块 ${details.uploadedChunks}/${details.totalChunks}`
+                        : `${stepProgress}%`}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
             <Progress
-              value={step === "complete" ? 100 : uploadProgress}
-              className="h-1.5 w-full max-w-xs"
+              value={step === "complete" ? 100 : stepProgress}
+              className="h-1.5 w-full"
             />
             {step === "complete" && (
-              <p className="text-xs text-muted-foreground animate-fade-in">
-                即将进入阅读…
-              </p>
+              <div className="text-center animate-fade-in">
+                <p className="text-sm font-medium text-foreground">{stepLabels.complete}</p>
+                {summary && <p className="mt-1 text-xs text-muted-foreground">{summary}</p>}
+                <p className="mt-1 text-xs text-muted-foreground">即将进入阅读…</p>
+              </div>
+            )}
+            {duplicates && (
+              <div className="space-y-3 rounded-lg border bg-muted/50 p-3 animate-fade-in">
+                <p className="flex items-center gap-1 text-sm font-medium text-foreground">
+                  <Copy className="h-3.5 w-3.5" />
+                  书架上好像已经有这本书了
+                </p>
+                {duplicates.map(({ book, same_file, similarity }) => (
+                  <div key={book.id} className="flex items-center gap-2 text-xs">
+                    <span className="min-w-0 flex-1 truncate text-foreground">
+                      《{book.title}》{book.author}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {same_file ? "同一文件" : `内容相似 ${Math.round(similarity * 100)}%`}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 shrink-0"
+                      onClick={() => chooseRef.current?.({ action: "open", book })}
+                    >
+                      打开
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 shrink-0"
+                      onClick={() => chooseRef.current?.({ action: "replace", book })}
+                    >
+                      替换为新版本
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  替换会把划线、笔记、书签和阅读进度移到新版本上，并删除旧的那本
+                </p>
+              </div>
+            )}
+            {isProcessing && (
+              <div className="flex justify-center gap-2">
+                {duplicates && (
+                  <Button size="sm" onClick={() => chooseRef.current?.({ action: "keep" })}>
+                    两本都保留
+                  </Button>
+                )}
+                {step === "uploading" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={details?.state === "completing"}
+                    onClick={togglePause}
+                  >
+                    {paused ? (
+                      <>
+                        <Play className="mr-1 h-3.5 w-3.5" />
+                        继续
+                      </>
+                    ) : (
+                      <>
+                        <Pause className="mr-1 h-3.5 w-3.5" />
+                        暂停
+                      </>
+                    )}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={details?.state === "completing"}
+                  onClick={() => {
+                    controllerRef.current?.cancel();
+                    chooseRef.current?.({ action: "keep" });
+                  }}
+                >
+                  取消上传
+                </Button>
+              </div>
             )}
           </div>
         ) : (
@@ -233,6 +408,7 @@ const UploadModal = ({ open, onOpenChange }: UploadModalProps) => {
                   </p>
                   <p className="text-xs text-muted-foreground">
                     {formatSize(selectedFile.size)}
+                    {findSession(selectedFile) && " · 将继续上次未完成的上传"}
                   </p>
                 </div>
                 <button
@@ -247,6 +423,22 @@ const UploadModal = ({ open, onOpenChange }: UploadModalProps) => {
               </div>
             )}
 
+            {/* Unfinished uploads */}
+            {!selectedFile && resumable.length > 0 && (
+              <div className="rounded-lg border bg-muted/50 p-3 text-xs text-muted-foreground">
+                <p className="mb-1 flex items-center gap-1 font-medium text-foreground">
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  有未完成的上传，重新选择同一文件即可继续
+                </p>
+                {resumable.map((session) => (
+                  <p key={session.fingerprint} className="truncate">
+                    {session.fileName} ·{" "}
+                    {Math.round((session.receivedChunks.length / session.totalChunks) * 100)}%
+                  </p>
+                ))}
+              </div>
+            )}
+
             {/* Error */}
             {error && (
               <div className="flex items-center gap-2 rounded-lg bg-destructive/10 px-3 py-2 text-sm text-destructive animate-fade-in">
@@ -0,0 +1,215 @@
+import * as React from "react";
+
+interface BlockWindowOptions {
+  count: number;
+  /** Height guess for a block that hasn't been rendered yet; keep it stable */
+  estimateHeight: (index: number) => number;
+  /** The element that scrolls the blocks */
+  scrollRef?: React.RefObject<HTMLElement>;
+  /** Parent of the blocks, each a direct child with `data-block-index` */
+  listRef: React.RefObject<HTMLElement>;
+  /** Render every block when false, e.g. for short books */
+  enabled: boolean;
+  /** Extra height mounted above and below the viewport, in viewports */
+  overscan?: number;
+}
+
+export interface BlockWindow {
+  /** First mounted block, and one past the last */
+  start: number;
+  end: number;
+  /** Stand-ins for the unmounted blocks before and after the window */
+  paddingTop: number;
+  paddingBottom: number;
+  /** Keep the window from shrinking until the mouse is released, so a selection's blocks stay mounted */
+  pin: () => void;
+  scrollToIndex: (index: number, options?: { align?: ScrollLogicalPosition; behavior?: ScrollBehavior }) => void;
+}
+
+// Blocks mounted before the viewport has been measured
+const INITIAL_BLOCKS = 40;
+
+const prefixSums = (heights: Float64Array) => {
+  const offsets = new Float64Array(heights.length + 1);
+  heights.forEach((height, index) => {
+    offsets[index + 1] = offsets[index] + height;
+  });
+  return offsets;
+};
+
+// The block covering `y`, in list coordinates
+const indexAt = (offsets: Float64Array, y: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  let found = 0;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] <= y) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Mount only the blocks near the viewport of a long book. Heights are
+ * estimated until a block is rendered, then measured as the distance to the
+ * next mounted block so collapsed margins are counted once.
+ */
+export function useBlockWindow({
+  count,
+  estimateHeight,
+  scrollRef,
+  listRef,
+  enabled,
+  overscan = 1,
+}: BlockWindowOptions): BlockWindow {
+  // Mutated in place as blocks are measured; rebuilt when the blocks change
+  const layout = React.useMemo(() => {
+    const heights = enabled ? Float64Array.from({ length: count }, (_, index) => estimateHeight(index)) : null;
+    return { heights, offsets: heights ? prefixSums(heights) : null };
+  }, [count, estimateHeight, enabled]);
+  const [range, setRange] = React.useState({ start: 0, end: Math.min(count, INITIAL_BLOCKS) });
+  const [layoutVersion, setLayoutVersion] = React.useState(0);
+  const pinned = React.useRef(false);
+  const pendingScroll = React.useRef<{ index: number; align: ScrollLogicalPosition } | null>(null);
+
+  // Top of the list within the scrolled content
+  const listTop = React.useCallback(() => {
+    const scroller = scrollRef?.current;
+    const list = listRef.current;
+    if (!scroller || !list) return 0;
+    return list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+  }, [scrollRef, listRef]);
+
+  const update = React.useCallback(() => {
+    const scroller = scrollRef?.current;
+    if (!layout.offsets || !scroller) return;
+    const margin = scroller.clientHeight * overscan;
+    const top = scroller.scrollTop - listTop();
+    let start = indexAt(layout.offsets, top - margin);
+    let end = Math.min(count, indexAt(layout.offsets, top + scroller.clientHeight + margin) + 1);
+    setRange((current) => {
+      if (pinned.current) {
+        start = Math.min(start, current.start);
+        end = Math.max(end, current.end);
+      }
+      return current.start === start && current.end === end ? current : { start, end };
+    });
+  }, [scrollRef, layout, count, overscan, listTop]);
+
+  // Follow scrolling and resizing, at most once a frame
+  React.useEffect(() => {
+    const scroller = scrollRef?.current;
+    if (!layout.offsets || !scroller) return;
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    scroller.addEventListener("scroll", schedule, { passive: true });
+
+    // Text rewraps at a new width, so every measured height is stale
+    let width = scroller.clientWidth;
+    const observer =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(() => {
+            if (scroller.clientWidth !== width) {
+              width = scroller.clientWidth;
+              setLayoutVersion((version) => version + 1);
+            }
+            schedule();
+          });
+    observer?.observe(scroller);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener("scroll", schedule);
+      observer?.disconnect();
+    };
+  }, [scrollRef, layout, update]);
+
+  // Measure what was just rendered, then finish a scroll that had to wait for it
+  React.useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!layout.heights || !list) return;
+    const elements = Array.from(list.querySelectorAll<HTMLElement>(":scope > [data-block-index]"));
+    let changed = false;
+    elements.forEach((element, position) => {
+      const index = Number(element.dataset.blockIndex);
+      const next = elements[position + 1];
+      const height = next
+        ? next.offsetTop - element.offsetTop
+        : element.offsetHeight + parseFloat(getComputedStyle(element).marginBottom || "0");
+      if (index < count && height > 0 && Math.abs(height - layout.heights[index]) > 0.5) {
+        layout.heights[index] = height;
+        changed = true;
+      }
+    });
+    if (changed) {
+      layout.offsets = prefixSums(layout.heights);
+      setLayoutVersion((version) => version + 1);
+      update();
+      return;
+    }
+
+    const pending = pendingScroll.current;
+    const target = pending && list.querySelector<HTMLElement>(`:scope > [data-block-index="${pending.index}"]`);
+    if (target) {
+      pendingScroll.current = null;
+      target.scrollIntoView({ block: pending.align });
+    }
+  }, [listRef, layout, layoutVersion, range, count, update]);
+
+  const pin = React.useCallback(() => {
+    pinned.current = true;
+    window.addEventListener(
+      "mouseup",
+      () => {
+        pinned.current = false;
+        update();
+      },
+      { once: true }
+    );
+  }, [update]);
+
+  const scrollToIndex = React.useCallback<BlockWindow["scrollToIndex"]>(
+    (index, options = {}) => {
+      const align = options.align ?? "start";
+      const behavior = options.behavior ?? "smooth";
+      const list = listRef.current;
+      const mounted = list?.querySelector<HTMLElement>(`:scope > [data-block-index="${index}"]`);
+      if (mounted) {
+        mounted.scrollIntoView({ behavior, block: align });
+        return;
+      }
+      const scroller = scrollRef?.current;
+      if (!layout.offsets || !scroller || index < 0 || index >= count) return;
+      // Jump to the estimated position, then correct once the block is measured
+      pendingScroll.current = { index, align };
+      const centering = align === "center" ? (scroller.clientHeight - layout.heights[index]) / 2 : 0;
+      scroller.scrollTo({ top: listTop() + layout.offsets[index] - centering });
+      update();
+    },
+    [listRef, scrollRef, layout, count, listTop, update]
+  );
+
+  if (!layout.offsets) {
+    return { start: 0, end: count, paddingTop: 0, paddingBottom: 0, pin, scrollToIndex };
+  }
+  const start = Math.min(range.start, count);
+  const end = Math.min(range.end, count);
+  return {
+    start,
+    end,
+    paddingTop: layout.offsets[start],
+    paddingBottom: layout.offsets[count] - layout.offsets[end],
+    pin,
+    scrollToIndex,
+  };
+}
@@ -0,0 +1,93 @@
+import * as React from "react";
+import {
+  prepareSections,
+  searchBook,
+  SearchPatternError,
+  type SearchHit,
+  type SearchOptions,
+  type SearchResult,
+  type SearchSection,
+} from "@/lib/search";
+
+// The search runs once typing pauses
+const SEARCH_DELAY = 200;
+
+const NO_RESULT: SearchResult & { error: string | null } = { hits: [], truncated: false, error: null };
+
+/**
+ * Find-in-book state: the query, its hits, and which hit is being looked at.
+ * `sections` is null while the book's text is still loading. `onShow` is
+ * called whenever a hit is picked, to bring it into view or narrate it.
+ */
+export function useBookSearch(
+  sections: SearchSection[] | null,
+  onShow: (hit: SearchHit, narrate: boolean) => void
+) {
+  const [query, setQuery] = React.useState("");
+  const [settledQuery, setSettledQuery] = React.useState("");
+  const [options, setOptions] = React.useState<SearchOptions>({ wholeWord: false, regex: false });
+  // `flash` counts every time a hit is shown, so showing the same one again still flashes it
+  const [cursor, setCursor] = React.useState({ index: -1, flash: 0 });
+
+  const showRef = React.useRef(onShow);
+  showRef.current = onShow;
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSettledQuery(query), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const prepared = React.useMemo(() => (sections ? prepareSections(sections) : null), [sections]);
+
+  const result = React.useMemo(() => {
+    if (!prepared || !settledQuery) return NO_RESULT;
+    try {
+      return { ...searchBook(prepared, settledQuery, options), error: null };
+    } catch (error) {
+      if (error instanceof SearchPatternError) return { ...NO_RESULT, error: "正则表达式无效" };
+      throw error;
+    }
+  }, [prepared, settledQuery, options]);
+
+  // New hits start over from the first
+  React.useEffect(() => {
+    setCursor((current) => ({ index: -1, flash: current.flash }));
+  }, [result]);
+
+  const select = React.useCallback(
+    (index: number, narrate = false) => {
+      const hit = result.hits[index];
+      if (!hit) return;
+      setCursor((current) => ({ index, flash: current.flash + 1 }));
+      showRef.current(hit, narrate);
+    },
+    [result]
+  );
+
+  const step = React.useCallback(
+    (direction: 1 | -1) => {
+      const count = result.hits.length;
+      if (!count) return;
+      select(cursor.index < 0 ? (direction > 0 ? 0 : count - 1) : (cursor.index + direction + count) % count);
+    },
+    [result, cursor.index, select]
+  );
+
+  return {
+    query,
+    setQuery,
+    options,
+    setOptions,
+    sections,
+    ...result,
+    /** Still waiting for typing to pause */
+    searching: query !== settledQuery,
+    current: cursor.index,
+    currentHit: result.hits[cursor.index] ?? null,
+    flash: cursor.flash,
+    select,
+    step,
+  };
+}
+
+export type BookSearch = ReturnType<typeof useBookSearch>;
@@ -0,0 +1,69 @@
+import * as React from "react";
+import { isRequestCanceled, searchApi, type LibraryHit } from "@/services";
+import type { Book } from "@/services/generated/models";
+
+// The search runs once typing pauses
+const SEARCH_DELAY = 300;
+
+// Books listed per search; a query matching more is better narrowed than paged through
+const RESULT_LIMIT = 50;
+
+export interface LibrarySearchFilters {
+  author?: string;
+  collectionId?: string;
+  fileType?: Book["fileType"];
+}
+
+interface LibrarySearchState {
+  hits: LibraryHit[];
+  /** Matching books, including any past the ones listed */
+  total: number;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const NO_RESULT: LibrarySearchState = { hits: [], total: 0, isLoading: false, error: null };
+
+/**
+ * Full-text search across the library, rerun as the query or filters change.
+ * A newer search cancels the one still in flight.
+ */
+export function useLibrarySearch(query: string, filters: LibrarySearchFilters) {
+  const [state, setState] = React.useState(NO_RESULT);
+  const { author, collectionId, fileType } = filters;
+
+  React.useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setState(NO_RESULT);
+      return;
+    }
+    const controller = new AbortController();
+    setState((current) => ({ ...current, isLoading: true, error: null }));
+    const timer = setTimeout(async () => {
+      try {
+        const response = await searchApi.library(
+          { q, author, collection_id: collectionId, file_type: fileType, page_size: RESULT_LIMIT },
+          controller.signal
+        );
+        if (response.success && response.data) {
+          setState({
+            hits: response.data.items,
+            total: response.data.total,
+            isLoading: false,
+            error: null,
+          });
+        }
+      } catch (error) {
+        if (isRequestCanceled(error)) return;
+        setState({ ...NO_RESULT, error: (error as Error)?.message || "搜索失败" });
+      }
+    }, SEARCH_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, author, collectionId, fileType]);
+
+  return state;
+}
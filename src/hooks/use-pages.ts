@@ -0,0 +1,195 @@
+import * as React from "react";
+
+interface PagesOptions {
+  /** The paged element; its blocks are direct children with `data-block-index` */
+  listRef: React.RefObject<HTMLElement>;
+  enabled: boolean;
+  /** Changes whenever other content is paged, e.g. the next chapter; starts over at the first page */
+  contentKey: unknown;
+  /** Changes whenever the same content reflows, e.g. at another font size; the same text stays on screen */
+  layoutKey?: unknown;
+}
+
+export interface Pages {
+  /** Current page, from 0 */
+  page: number;
+  pageCount: number;
+  /** Lays the element's content out in columns the size of the element, one per page */
+  style: React.CSSProperties | undefined;
+  goTo: (page: number) => void;
+  /** The page showing a block at `fraction` of its height, or null when it isn't rendered */
+  pageOf: (index: number, fraction?: number) => number | null;
+  /** Whether any part of the block is on the current page */
+  isOnPage: (index: number) => boolean;
+  /** The first block on the current page, and how much of it earlier pages show */
+  firstVisible: () => { index: number; fraction: number } | null;
+}
+
+// Space between columns, so the edge of the next page never shows
+export const PAGE_GAP = 64;
+
+const PAGED_STYLE: React.CSSProperties = {
+  columnCount: 1,
+  columnGap: PAGE_GAP,
+  columnFill: "auto",
+};
+
+interface Fragment {
+  page: number;
+  height: number;
+}
+
+// The pieces a block is broken into across columns, and the page each is on
+const fragmentsOf = (element: HTMLElement, list: HTMLElement, stride: number): Fragment[] => {
+  const rects = Array.from(element.getClientRects());
+  if (rects.length === 0) return [{ page: Math.floor(element.offsetLeft / stride), height: 1 }];
+  const left = list.getBoundingClientRect().left - list.scrollLeft;
+  return rects.map((rect) => ({ page: Math.floor((rect.left - left + 1) / stride), height: rect.height }));
+};
+
+/**
+ * Page through an element by flowing its content into columns exactly as wide
+ * as the element and scrolling one column at a time. Blocks are located by
+ * their column fragments, so a paragraph split over two pages is on both.
+ */
+export function usePages({ listRef, enabled, contentKey, layoutKey }: PagesOptions): Pages {
+  const [page, setPage] = React.useState(0);
+  const [pageCount, setPageCount] = React.useState(1);
+  const [width, setWidth] = React.useState(0);
+  // Read by the stable callbacks below; always current after layout
+  const pageRef = React.useRef(0);
+  const countRef = React.useRef(1);
+  const shownKey = React.useRef(contentKey);
+  const shownLayout = React.useRef(layoutKey);
+  // First block on the page, kept across a resize that reflows the pages
+  const anchor = React.useRef<{ index: number; fraction: number } | null>(null);
+
+  const stride = React.useCallback(() => (listRef.current?.clientWidth ?? 0) + PAGE_GAP, [listRef]);
+
+  const goTo = React.useCallback((target: number) => {
+    const next = Math.max(0, Math.min(countRef.current - 1, target));
+    pageRef.current = next;
+    setPage(next);
+  }, []);
+
+  const blockElement = React.useCallback(
+    (index: number) => listRef.current?.querySelector<HTMLElement>(`:scope > [data-block-index="${index}"]`),
+    [listRef]
+  );
+
+  const pageOf = React.useCallback(
+    (index: number, fraction = 0) => {
+      const list = listRef.current;
+      const element = blockElement(index);
+      if (!list || !element) return null;
+      const fragments = fragmentsOf(element, list, stride());
+      const total = fragments.reduce((sum, fragment) => sum + fragment.height, 0);
+      let covered = 0;
+      for (const fragment of fragments) {
+        covered += fragment.height;
+        if (covered > total * fraction) return fragment.page;
+      }
+      return fragments[fragments.length - 1].page;
+    },
+    [listRef, blockElement, stride]
+  );
+
+  const isOnPage = React.useCallback(
+    (index: number) => {
+      const list = listRef.current;
+      const element = blockElement(index);
+      if (!list || !element) return false;
+      return fragmentsOf(element, list, stride()).some((fragment) => fragment.page === pageRef.current);
+    },
+    [listRef, blockElement, stride]
+  );
+
+  const firstVisible = React.useCallback(() => {
+    const list = listRef.current;
+    if (!list) return null;
+    const elements = list.querySelectorAll<HTMLElement>(":scope > [data-block-index]");
+    for (const element of Array.from(elements)) {
+      const fragments = fragmentsOf(element, list, stride());
+      if (!fragments.some((fragment) => fragment.page >= pageRef.current)) continue;
+      const total = fragments.reduce((sum, fragment) => sum + fragment.height, 0);
+      const before = fragments
+        .filter((fragment) => fragment.page < pageRef.current)
+        .reduce((sum, fragment) => sum + fragment.height, 0);
+      return { index: Number(element.dataset.blockIndex), fraction: total > 0 ? before / total : 0 };
+    }
+    return null;
+  }, [listRef, stride]);
+
+  const measure = React.useCallback(() => {
+    const list = listRef.current;
+    if (!enabled || !list) return;
+    countRef.current = Math.max(1, Math.round((list.scrollWidth + PAGE_GAP) / stride()));
+    setPageCount(countRef.current);
+    setWidth(list.clientWidth);
+  }, [listRef, enabled, stride]);
+
+  // Text rewraps at a new size, so find the page the same text moved to
+  const reflow = React.useCallback(() => {
+    measure();
+    const kept = anchor.current;
+    const target = kept && pageOf(kept.index, kept.fraction);
+    goTo(target ?? pageRef.current);
+  }, [measure, pageOf, goTo]);
+
+  // New content starts on its first page; its owner can turn elsewhere right after
+  React.useLayoutEffect(() => {
+    measure();
+    if (shownKey.current !== contentKey) {
+      shownKey.current = contentKey;
+      goTo(0);
+    }
+  }, [measure, goTo, contentKey]);
+
+  // Same content in another typeface or size
+  React.useLayoutEffect(() => {
+    if (shownLayout.current === layoutKey) return;
+    shownLayout.current = layoutKey;
+    reflow();
+  }, [reflow, layoutKey]);
+
+  // A new viewport size reflows too
+  React.useEffect(() => {
+    const list = listRef.current;
+    if (!enabled || !list) return;
+    let size = `${list.clientWidth}x${list.clientHeight}`;
+    const observer =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(() => {
+            const next = `${list.clientWidth}x${list.clientHeight}`;
+            if (next === size) return;
+            size = next;
+            reflow();
+          });
+    observer?.observe(list);
+    // Images that finish loading push the text onto more pages
+    list.addEventListener("load", measure, true);
+    return () => {
+      observer?.disconnect();
+      list.removeEventListener("load", measure, true);
+    };
+  }, [listRef, enabled, measure, reflow]);
+
+  // Show the current page
+  React.useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!enabled || !list) return;
+    list.scrollLeft = page * stride();
+    anchor.current = firstVisible();
+  }, [listRef, enabled, page, width, stride, firstVisible]);
+
+  return {
+    page: enabled ? Math.min(page, pageCount - 1) : 0,
+    pageCount: enabled ? pageCount : 1,
+    style: enabled ? PAGED_STYLE : undefined,
+    goTo,
+    pageOf,
+    isOnPage,
+    firstVisible,
+  };
+}
@@ -0,0 +1,24 @@
+import * as React from "react";
+
+/**
+ * Signals for requests started by a component. Asking for a key again aborts
+ * the previous request under that key, and everything is aborted on unmount.
+ */
+export function useRequestScope() {
+  const controllers = React.useRef(new Map<string, AbortController>());
+
+  React.useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach((controller) => controller.abort());
+      active.clear();
+    };
+  }, []);
+
+  return React.useCallback((key: string): AbortSignal => {
+    controllers.current.get(key)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(key, controller);
+    return controller.signal;
+  }, []);
+}
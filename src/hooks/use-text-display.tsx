@@ -0,0 +1,88 @@
+import * as React from "react";
+import {
+  annotate,
+  convertScript,
+  loadConverter,
+  loadPinyin,
+  type Converter,
+  type PinyinReader,
+  type ScriptConversion,
+} from "@/lib/cjk";
+
+interface TextDisplayOptions {
+  script: ScriptConversion;
+  pinyin: boolean;
+}
+
+/** Renders a run of book text the way the reader wants to see it */
+export type TextDisplay = (text: string) => React.ReactNode;
+
+// Blocks re-render on every narration step; converted runs are remembered
+const CACHE_SIZE = 2000;
+
+/**
+ * Text in the reader's chosen script, with pinyin above Chinese characters
+ * when asked for. Returns null while nothing needs changing or the
+ * dictionaries are still loading, so callers can show the text as it is.
+ *
+ * Readings are drawn from a data attribute rather than rendered as text, so
+ * selections and highlight offsets only ever see the book's own characters.
+ */
+export function useTextDisplay({ script, pinyin }: TextDisplayOptions): TextDisplay | null {
+  const [converter, setConverter] = React.useState<{ script: ScriptConversion; convert: Converter } | null>(null);
+  const [reader, setReader] = React.useState<PinyinReader | null>(null);
+
+  React.useEffect(() => {
+    if (script === "original" || converter?.script === script) return;
+    let stale = false;
+    loadConverter(script)
+      .then((convert) => {
+        if (!stale) setConverter({ script, convert });
+      })
+      .catch((error) => console.error("[Reader] 加载繁简转换失败:", error));
+    return () => {
+      stale = true;
+    };
+  }, [script, converter]);
+
+  React.useEffect(() => {
+    if (!pinyin || reader) return;
+    let stale = false;
+    loadPinyin()
+      .then((read) => {
+        if (!stale) setReader(() => read);
+      })
+      .catch((error) => console.error("[Reader] 加载拼音失败:", error));
+    return () => {
+      stale = true;
+    };
+  }, [pinyin, reader]);
+
+  return React.useMemo(() => {
+    const convert = script !== "original" && converter?.script === script ? converter.convert : null;
+    const read = pinyin ? reader : null;
+    if (!convert && !read) return null;
+
+    const cache = new Map<string, React.ReactNode>();
+    return (text: string) => {
+      const cached = cache.get(text);
+      if (cached !== undefined) return cached;
+      const shown = convert ? convertScript(convert, text) : text;
+      const node = read
+        ? annotate(shown, read(shown)).map((part, index) =>
+            typeof part === "string" ? (
+              <React.Fragment key={index}>{part}</React.Fragment>
+            ) : (
+              <ruby key={index} className="reading-ruby">
+                {part.base}
+                <rt data-pinyin={part.reading} />
+              </ruby>
+            )
+          )
+        : shown;
+      if (cache.size >= CACHE_SIZE) cache.clear();
+      cache.set(text, node);
+      return node;
+    };
+  }, [script, converter, pinyin, reader]);
+}
@@ -0,0 +1,34 @@
+/**
+ * Helpers for superseding in-flight requests
+ */
+
+export interface RequestScope {
+  /** Abort the request in flight and return a signal for the next one */
+  next: (signal?: AbortSignal) => AbortSignal;
+  /** Whether `signal` still belongs to the most recent request */
+  isLatest: (signal: AbortSignal) => boolean;
+}
+
+/**
+ * One request at a time: starting a new one cancels the previous.
+ * An outer `signal` (e.g. from a component unmounting) also cancels it.
+ */
+export function createRequestScope(): RequestScope {
+  let current: AbortController | null = null;
+
+  return {
+    next: (signal) => {
+      current?.abort();
+      const controller = new AbortController();
+      current = controller;
+
+      if (signal?.aborted) {
+        controller.abort();
+      } else {
+        signal?.addEventListener("abort", () => controller.abort(), { once: true });
+      }
+      return controller.signal;
+    },
+    isLatest: (signal) => current?.signal === signal,
+  };
+}
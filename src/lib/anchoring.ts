@@ -0,0 +1,250 @@
+/**
+ * Finding places in a book again after its text has changed: a new edition,
+ * or the same text split into paragraphs differently. A place is found by the
+ * text it covers; where that text occurs more than once, the occurrence whose
+ * surroundings match the old ones best wins, with ties going to the one nearest
+ * its old position. Text that has been edited is matched approximately.
+ *
+ * Highlights keep what they need for this in a selector, after the W3C Web
+ * Annotation model: the quoted text with a little on either side, and where it
+ * was.
+ */
+import type { HighlightSelector } from "@/services/generated/models";
+
+/**
+ * A stretch of text places are counted in: a plain-text paragraph, keyed by
+ * its index, or an EPUB chapter, keyed by its path
+ */
+export interface AnchorSection {
+  key: string;
+  text: string;
+}
+
+export interface TextPlace {
+  section: string;
+  start: number;
+  end: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextPoint {
+  section: string;
+  offset: number;
+}
+
+// Characters either side of a place compared between editions, and kept in selectors
+const CONTEXT = 32;
+// Share of a quote's characters that may have changed for it to still be found
+const MAX_ERROR_RATE = 0.2;
+// Characters around the old position searched approximately before the rest of the text
+const NEARBY = 2000;
+// Characters from each end of a quote whose exact occurrences mark where else to look
+const SEED = 6;
+// Occurrences of each seed looked at; common ones say little
+const MAX_SEEDS = 50;
+// Characters of text a single point (a bookmark, a reading position) is found by
+export const POINT_LENGTH = 24;
+
+const commonPrefix = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const commonSuffix = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+// How well the text around `start`-`end` agrees with a selector's prefix and suffix
+const contextScore = (text: string, { start, end }: TextRange, prefix: string, suffix: string) =>
+  commonSuffix(prefix, text.slice(Math.max(0, start - prefix.length), start)) +
+  commonPrefix(suffix, text.slice(end, end + suffix.length));
+
+/**
+ * Selectors for the text from `start` to `end`
+ */
+export const describeRange = (text: string, start: number, end: number): HighlightSelector => ({
+  quote: {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT), start),
+    suffix: text.slice(end, end + CONTEXT),
+  },
+  position: { start, end },
+});
+
+/**
+ * A selector for text known only by itself and where it was, such as a
+ * highlight saved before highlights had selectors
+ */
+export const quoteAt = (exact: string, start: number, end: number): HighlightSelector => ({
+  quote: { exact, prefix: "", suffix: "" },
+  position: { start, end },
+});
+
+/**
+ * Where `pattern` best matches `text` between `from` and `to`, with at most
+ * `maxErrors` characters inserted, deleted or changed (Sellers' algorithm,
+ * keeping where each match starts)
+ */
+const approximateMatch = (text: string, pattern: string, from: number, to: number, maxErrors: number) => {
+  const length = pattern.length;
+  let costs = Int32Array.from({ length: length + 1 }, (_, index) => index);
+  let starts = new Int32Array(length + 1).fill(from);
+  let nextCosts = new Int32Array(length + 1);
+  let nextStarts = new Int32Array(length + 1);
+  let best: { range: TextRange; errors: number } | null = null;
+  for (let position = from; position < to; position++) {
+    const char = text[position];
+    nextCosts[0] = 0;
+    nextStarts[0] = position + 1;
+    for (let index = 1; index <= length; index++) {
+      const substituted = costs[index - 1] + (pattern[index - 1] === char ? 0 : 1);
+      const skipped = nextCosts[index - 1] + 1;
+      const inserted = costs[index] + 1;
+      if (substituted <= skipped && substituted <= inserted) {
+        nextCosts[index] = substituted;
+        nextStarts[index] = starts[index - 1];
+      } else if (skipped <= inserted) {
+        nextCosts[index] = skipped;
+        nextStarts[index] = nextStarts[index - 1];
+      } else {
+        nextCosts[index] = inserted;
+        nextStarts[index] = starts[index];
+      }
+    }
+    [costs, nextCosts] = [nextCosts, costs];
+    [starts, nextStarts] = [nextStarts, starts];
+    if (costs[length] <= maxErrors && (!best || costs[length] < best.errors)) {
+      best = { range: { start: starts[length], end: position + 1 }, errors: costs[length] };
+    }
+  }
+  return best;
+};
+
+/**
+ * Where a selector's text is in `text` now: at its old position if it's still
+ * there, else at the occurrence that fits its context best, else at the
+ * closest approximate match. Null when nothing is close enough.
+ */
+export const anchorQuote = (text: string, { quote, position }: HighlightSelector): TextRange | null => {
+  const { exact, prefix, suffix } = quote;
+  if (!exact) return null;
+  if (text.slice(position.start, position.end) === exact) return { start: position.start, end: position.end };
+
+  const rank = (range: TextRange, errors: number) => ({
+    range,
+    errors,
+    score: contextScore(text, range, prefix, suffix),
+    distance: Math.abs(range.start - position.start),
+  });
+  type Ranked = ReturnType<typeof rank>;
+  const better = (a: Ranked, b: Ranked | null) =>
+    !b ||
+    a.errors < b.errors ||
+    (a.errors === b.errors && (a.score > b.score || (a.score === b.score && a.distance < b.distance)));
+
+  let best: Ranked | null = null;
+  for (let start = text.indexOf(exact); start >= 0; start = text.indexOf(exact, start + 1)) {
+    const candidate = rank({ start, end: start + exact.length }, 0);
+    if (better(candidate, best)) best = candidate;
+  }
+  if (best) return best.range;
+
+  // Edited text: look near the old position, then wherever either end of the quote still occurs
+  const maxErrors = Math.floor(exact.length * MAX_ERROR_RATE);
+  if (!maxErrors) return null;
+  const windows: TextRange[] = [{ start: position.start - NEARBY, end: position.end + NEARBY }];
+  if (exact.length >= SEED * 2) {
+    const seeds = [
+      { seed: exact.slice(0, SEED), at: 0 },
+      { seed: exact.slice(-SEED), at: exact.length - SEED },
+    ];
+    for (const { seed, at } of seeds) {
+      let found = 0;
+      for (let start = text.indexOf(seed); start >= 0 && found < MAX_SEEDS; start = text.indexOf(seed, start + 1)) {
+        windows.push({ start: start - at - maxErrors, end: start - at + exact.length + maxErrors });
+        found++;
+      }
+    }
+  }
+  for (const window of windows) {
+    const match = approximateMatch(
+      text,
+      exact,
+      Math.max(0, window.start),
+      Math.min(text.length, window.end),
+      maxErrors
+    );
+    if (!match) continue;
+    const candidate = rank(match.range, match.errors);
+    if (better(candidate, best)) best = candidate;
+  }
+  return best?.range ?? null;
+};
+
+/**
+ * Where a place in `from` is in `to`, or null when its text is gone
+ */
+export const relocate = (from: AnchorSection[], to: AnchorSection[], place: TextPlace): TextPlace | null => {
+  const source = from.find((section) => section.key === place.section);
+  if (!source || place.start < 0 || place.end > source.text.length || place.start >= place.end) return null;
+  const exact = source.text.slice(place.start, place.end);
+  const before = source.text.slice(Math.max(0, place.start - CONTEXT), place.start);
+  const after = source.text.slice(place.end, place.end + CONTEXT);
+  const sourceIndex = from.indexOf(source);
+  const relative = place.start / Math.max(1, source.text.length);
+
+  let best: { place: TextPlace; score: number; distance: number } | null = null;
+  for (const [sectionIndex, section] of to.entries()) {
+    for (let start = section.text.indexOf(exact); start >= 0; start = section.text.indexOf(exact, start + 1)) {
+      const end = start + exact.length;
+      const score =
+        commonSuffix(before, section.text.slice(Math.max(0, start - CONTEXT), start)) +
+        commonPrefix(after, section.text.slice(end, end + CONTEXT));
+      const distance =
+        Math.abs(sectionIndex - sourceIndex) + Math.abs(start / Math.max(1, section.text.length) - relative);
+      if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+        best = { place: { section: section.key, start, end }, score, distance };
+      }
+    }
+  }
+  if (best) return best.place;
+
+  // Edited text is looked for approximately in the section standing where the old one did
+  const target = to.find((section) => section.key === place.section) ?? to[sourceIndex];
+  if (!target) return null;
+  const found = anchorQuote(target.text, {
+    quote: { exact, prefix: before, suffix: after },
+    position: { start: place.start, end: place.end },
+  });
+  return found && { section: target.key, ...found };
+};
+
+/**
+ * Where a point in `from` is in `to`: found by the text that follows it, or
+ * where that has run out, the text before it
+ */
+export const relocatePoint = (
+  from: AnchorSection[],
+  to: AnchorSection[],
+  { section, offset }: TextPoint
+): TextPoint | null => {
+  const text = from.find((candidate) => candidate.key === section)?.text;
+  if (text === undefined) return null;
+  const at = Math.min(Math.max(0, offset), text.length);
+  if (at < text.length) {
+    const found = relocate(from, to, { section, start: at, end: Math.min(text.length, at + POINT_LENGTH) });
+    if (found) return { section: found.section, offset: found.start };
+  }
+  if (at > 0) {
+    const found = relocate(from, to, { section, start: Math.max(0, at - POINT_LENGTH), end: at });
+    if (found) return { section: found.section, offset: found.end };
+  }
+  return null;
+};
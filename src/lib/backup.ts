@@ -0,0 +1,302 @@
+/**
+ * Library backups
+ * One ZIP archive with every book and its original file, highlights and their
+ * notes, thoughts, bookmarks, reading positions, and the script templates and
+ * dataset presets kept in this browser. `manifest.json` at the root names the
+ * format version and lists what the archive holds:
+ *
+ *   manifest.json
+ *   books/<id>/book.json        the book, its text, chapters and PDF pages
+ *   books/<id>/<file name>      the originally uploaded file
+ *   highlights.json, thoughts.json, bookmarks.json
+ *   settings/<storage key>.json
+ *
+ * Restoring is planned first, as a dry run against the library it goes into:
+ * books and notes already there are skipped, and everything else is created
+ * anew, so the IDs in the archive never need to exist in the target account.
+ */
+import { z } from "zod";
+import { buildZip, ZipArchive, ZipError } from "./zip";
+import { isLater } from "./position";
+import { toReadingPosition } from "@/services/generated/models";
+import type { InferSchema } from "@/services/validation";
+import {
+  bookChapterSchema,
+  bookmarkSchema,
+  bookPageSchema,
+  bookSchema,
+  highlightSchema,
+  thoughtSchema,
+  type BookChapterDto,
+  type BookDto,
+  type BookmarkDto,
+  type BookPageDto,
+  type HighlightDto,
+  type ThoughtDto,
+} from "@/services/generated/schemas";
+
+export const BACKUP_FORMAT = "reading-library-backup";
+export const BACKUP_VERSION = 1;
+
+/** Browser storage carried in a backup: lists of items with an `id` */
+export const BACKUP_SETTINGS = ["scriptTemplates", "datasetPresets"] as const;
+export type BackupSetting = (typeof BACKUP_SETTINGS)[number];
+
+export interface StoredItem {
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface BackupBook {
+  book: BookDto;
+  content: string;
+  chapters: BookChapterDto[];
+  pages: BookPageDto[] | null;
+  fileName: string;
+  file: Uint8Array;
+}
+
+export interface LibraryBackup {
+  createdAt: string;
+  /** Account the backup was made from */
+  userId: string | null;
+  books: BackupBook[];
+  highlights: HighlightDto[];
+  thoughts: ThoughtDto[];
+  bookmarks: BookmarkDto[];
+  settings: Record<BackupSetting, StoredItem[]>;
+}
+
+/** What a library already holds, to restore a backup into */
+export type LibraryContents = Omit<LibraryBackup, "createdAt" | "books"> & { books: BookDto[] };
+
+export interface RestorePlan {
+  backup: LibraryBackup;
+  /** Whether the backup comes from another account */
+  otherAccount: boolean;
+  /** Backup book ID → the same book already in the library */
+  existing: Map<string, string>;
+  books: BackupBook[];
+  /** Books already in the library whose reading position in the backup is later */
+  positions: BackupBook[];
+  highlights: HighlightDto[];
+  thoughts: ThoughtDto[];
+  bookmarks: BookmarkDto[];
+  /** Items to add to each setting, with IDs changed where they'd clash */
+  settings: Record<BackupSetting, StoredItem[]>;
+  /** Items left out because the library already has them */
+  skipped: Record<"books" | "highlights" | "thoughts" | "bookmarks" | "settings", number>;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const MANIFEST = "manifest.json";
+
+const storedItemSchema = z.object({ id: z.string() }).passthrough();
+
+const manifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number(),
+  created_at: z.string(),
+  user_id: z.string().nullable(),
+  counts: z.record(z.number()),
+  books: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      file: z.string(),
+    })
+  ),
+});
+
+const backupBookSchema = z.object({
+  book: bookSchema,
+  content: z.string(),
+  chapters: z.array(bookChapterSchema),
+  pages: z.array(bookPageSchema).nullable(),
+});
+
+const bookFolder = (bookId: string) => `books/${encodeURIComponent(bookId)}`;
+const settingPath = (key: BackupSetting) => `settings/${key}.json`;
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+/**
+ * The backup as a ZIP archive
+ */
+export const packBackup = (backup: LibraryBackup): Uint8Array => {
+  const manifest: InferSchema<typeof manifestSchema> = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: backup.createdAt,
+    user_id: backup.userId,
+    counts: {
+      books: backup.books.length,
+      highlights: backup.highlights.length,
+      notes: backup.highlights.filter((highlight) => highlight.note).length,
+      thoughts: backup.thoughts.length,
+      bookmarks: backup.bookmarks.length,
+      ...Object.fromEntries(BACKUP_SETTINGS.map((key) => [key, backup.settings[key].length])),
+    },
+    books: backup.books.map(({ book, fileName }) => ({
+      id: book.id,
+      title: book.title,
+      file: `${bookFolder(book.id)}/${fileName}`,
+    })),
+  };
+
+  return buildZip([
+    [MANIFEST, json(manifest)],
+    ...backup.books.flatMap(({ book, content, chapters, pages, fileName, file }): Array<[string, string | Uint8Array]> => [
+      [`${bookFolder(book.id)}/book.json`, json({ book, content, chapters, pages })],
+      [`${bookFolder(book.id)}/${fileName}`, file],
+    ]),
+    ["highlights.json", json(backup.highlights)],
+    ["thoughts.json", json(backup.thoughts)],
+    ["bookmarks.json", json(backup.bookmarks)],
+    ...BACKUP_SETTINGS.map((key): [string, string] => [settingPath(key), json(backup.settings[key])]),
+  ]);
+};
+
+/**
+ * Read a backup archive, checking every part of it against its schema
+ */
+export const unpackBackup = async (bytes: Uint8Array): Promise<LibraryBackup> => {
+  let archive: ZipArchive;
+  try {
+    archive = new ZipArchive(bytes);
+  } catch (error) {
+    if (error instanceof ZipError) throw new BackupError("这不是备份文件");
+    throw error;
+  }
+  if (!archive.has(MANIFEST)) throw new BackupError("这不是备份文件");
+
+  const read = async <S extends z.ZodTypeAny>(path: string, schema: S): Promise<InferSchema<S>> => {
+    if (!archive.has(path)) throw new BackupError(`备份文件不完整，缺少 ${path}`);
+    try {
+      return schema.parse(JSON.parse(await archive.readText(path)));
+    } catch {
+      throw new BackupError(`备份文件已损坏：${path}`);
+    }
+  };
+
+  const header = await read(MANIFEST, z.object({ format: z.string(), version: z.number() }).passthrough());
+  if (header.format !== BACKUP_FORMAT) throw new BackupError("这不是备份文件");
+  if (header.version > BACKUP_VERSION) {
+    throw new BackupError(`备份文件来自更新的版本（v${header.version}），请先更新应用`);
+  }
+  const manifest = await read(MANIFEST, manifestSchema);
+
+  const books = await Promise.all(
+    manifest.books.map(async ({ id, file }) => {
+      const stored = await read(`${bookFolder(id)}/book.json`, backupBookSchema);
+      if (!archive.has(file)) throw new BackupError(`备份文件不完整，缺少 ${file}`);
+      return { ...stored, fileName: file.split("/").pop(), file: await archive.read(file) };
+    })
+  );
+  const settings = {} as Record<BackupSetting, StoredItem[]>;
+  for (const key of BACKUP_SETTINGS) {
+    // Settings added in later versions are missing from older backups
+    settings[key] = archive.has(settingPath(key))
+      ? ((await read(settingPath(key), z.array(storedItemSchema))) as StoredItem[])
+      : [];
+  }
+
+  return {
+    createdAt: manifest.created_at,
+    userId: manifest.user_id,
+    books,
+    highlights: await read("highlights.json", z.array(highlightSchema)),
+    thoughts: await read("thoughts.json", z.array(thoughtSchema)),
+    bookmarks: await read("bookmarks.json", z.array(bookmarkSchema)),
+    settings,
+  };
+};
+
+// The same book: the same text under the same title, whatever its ID
+const bookKey = (book: BookDto) => JSON.stringify([book.title, book.author ?? "", book.file_type, book.total_chars]);
+
+// A stored item's content, without the ID it happens to have
+const itemKey = ({ id: _id, ...item }: StoredItem) => JSON.stringify(item);
+
+const placeOf = (book: BookDto) =>
+  book.position ? { position: toReadingPosition(book.position), progress: book.progress } : null;
+
+/**
+ * Work out what restoring a backup into a library would do, without changing
+ * anything: which books and notes are new, which are already there, and which
+ * reading positions would move forward
+ */
+export const planRestore = (backup: LibraryBackup, library: LibraryContents): RestorePlan => {
+  const libraryBooks = new Map(library.books.map((book) => [bookKey(book), book]));
+  const existing = new Map<string, string>();
+  const books: BackupBook[] = [];
+  const positions: BackupBook[] = [];
+  backup.books.forEach((entry) => {
+    const match = libraryBooks.get(bookKey(entry.book));
+    if (!match) {
+      books.push(entry);
+      return;
+    }
+    existing.set(entry.book.id, match.id);
+    const saved = placeOf(entry.book);
+    const current = placeOf(match);
+    if (saved && (!current || isLater(saved, current))) positions.push(entry);
+  });
+
+  // Notes on books that are new can't be in the library yet
+  const unseen = <T extends { book_id: string }>(items: T[], present: T[], key: (item: T) => unknown[]) => {
+    const keys = new Set(present.map((item) => JSON.stringify(key(item))));
+    return items.filter((item) => {
+      const bookId = existing.get(item.book_id);
+      return !bookId || !keys.has(JSON.stringify(key({ ...item, book_id: bookId })));
+    });
+  };
+  const highlights = unseen(backup.highlights, library.highlights, (h) => [h.book_id, h.start_offset, h.end_offset, h.text]);
+  const thoughts = unseen(backup.thoughts, library.thoughts, (t) => [t.book_id, t.content]);
+  const bookmarks = unseen(backup.bookmarks, library.bookmarks, (b) => [b.book_id, b.chapter ?? null, b.block, b.offset]);
+
+  let skippedSettings = 0;
+  const settings = {} as Record<BackupSetting, StoredItem[]>;
+  BACKUP_SETTINGS.forEach((key) => {
+    const present = library.settings[key];
+    const contents = new Set(present.map(itemKey));
+    const ids = new Set(present.map((item) => item.id));
+    settings[key] = [];
+    backup.settings[key].forEach((item) => {
+      if (contents.has(itemKey(item))) {
+        skippedSettings++;
+        return;
+      }
+      contents.add(itemKey(item));
+      let id = item.id;
+      for (let n = 2; ids.has(id); n++) id = `${item.id}-${n}`;
+      ids.add(id);
+      settings[key].push({ ...item, id });
+    });
+  });
+
+  return {
+    backup,
+    otherAccount: !!backup.userId && library.userId !== null && backup.userId !== library.userId,
+    existing,
+    books,
+    positions,
+    highlights,
+    thoughts,
+    bookmarks,
+    settings,
+    skipped: {
+      books: existing.size,
+      highlights: backup.highlights.length - highlights.length,
+      thoughts: backup.thoughts.length - thoughts.length,
+      bookmarks: backup.bookmarks.length - bookmarks.length,
+      settings: skippedSettings,
+    },
+  };
+};
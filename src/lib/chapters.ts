@@ -0,0 +1,309 @@
+/**
+ * Chapter detection for plain-text books
+ *
+ * Finds headings such as 第一章, 第十二回, 卷二, 第三节 or Chapter 3 and
+ * arranges them into a volume / chapter / section hierarchy. Readers can add
+ * their own patterns for books that number chapters some other way.
+ */
+
+export type HeadingKind = "volume" | "chapter" | "section";
+
+export interface DetectedChapter {
+  index: number;
+  title: string;
+  /** Character offset of the heading in the normalized text */
+  offset: number;
+  /** 1 for the outermost kind of heading the book uses */
+  level: number;
+  kind: HeadingKind;
+  /** The heading's number, when it has one */
+  number?: number;
+}
+
+/** A reader-supplied heading pattern, matched against each trimmed line */
+export interface ChapterPattern {
+  source: string;
+  kind: HeadingKind;
+}
+
+export interface DetectChaptersOptions {
+  patterns?: ChapterPattern[];
+  /** Set to false to use only `patterns` */
+  builtIn?: boolean;
+}
+
+export class ChapterPatternError extends Error {
+  constructor(public readonly pattern: string, message: string) {
+    super(message);
+    this.name = "ChapterPatternError";
+  }
+}
+
+export const HEADING_KINDS: HeadingKind[] = ["volume", "chapter", "section"];
+
+const CJK_NUMBER = "[零〇一二三四五六七八九十百千万萬两壹贰叁肆伍陆柒捌玖拾佰仟\\d０-９]+";
+const ENGLISH_ONES = "one|two|three|four|five|six|seven|eight|nine";
+const ENGLISH_TEENS = "ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen";
+const ENGLISH_TENS = "twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety";
+const ENGLISH_NUMBER = `\\d+|[ivxlcdm]+|(?:${ENGLISH_TENS})(?:[- ](?:${ENGLISH_ONES}))?|${ENGLISH_TEENS}|${ENGLISH_ONES}`;
+
+// The first group, when present, holds the heading's number
+const BUILT_IN: Array<{ kind: HeadingKind; pattern: RegExp }> = [
+  { kind: "volume", pattern: new RegExp(`^第\\s*(${CJK_NUMBER})\\s*[卷部篇集]`) },
+  { kind: "volume", pattern: new RegExp(`^卷\\s*(${CJK_NUMBER})`) },
+  { kind: "volume", pattern: new RegExp(`^(?:part|book|volume|vol\\.)\\s*(${ENGLISH_NUMBER})\\b`, "i") },
+  { kind: "chapter", pattern: new RegExp(`^第\\s*(${CJK_NUMBER})\\s*[章回]`) },
+  { kind: "chapter", pattern: new RegExp(`^(?:chapter|ch\\.)\\s*(${ENGLISH_NUMBER})\\b`, "i") },
+  { kind: "chapter", pattern: /^(?:序章|序幕|序言|楔子|引子|前言|终章|尾声|后记|番外)/ },
+  { kind: "chapter", pattern: /^(?:prologue|epilogue|preface|afterword|interlude)\b/i },
+  { kind: "section", pattern: new RegExp(`^第\\s*(${CJK_NUMBER})\\s*节`) },
+  { kind: "section", pattern: new RegExp(`^section\\s*(${ENGLISH_NUMBER})\\b`, "i") },
+];
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+
+// Longer lines are prose that happens to start like a heading
+const MAX_HEADING_LENGTH = 40;
+
+// Headings don't end mid-sentence
+const PROSE_ENDING = /[。，；,;]$/;
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 壹: 1, 二: 2, 贰: 2, 两: 2, 三: 3, 叁: 3, 四: 4, 肆: 4,
+  五: 5, 伍: 5, 六: 6, 陆: 6, 七: 7, 柒: 7, 八: 8, 捌: 8, 九: 9, 玖: 9,
+};
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 拾: 10, 百: 100, 佰: 100, 千: 1000, 仟: 1000 };
+
+const ROMAN: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+const ENGLISH_WORDS = `zero|${ENGLISH_ONES}|${ENGLISH_TEENS}`.split("|");
+
+const toHalfWidthDigits = (text: string) =>
+  text.replace(/[０-９]/g, (digit) => String.fromCharCode(digit.charCodeAt(0) - 0xfee0));
+
+/**
+ * Value of a Chinese numeral such as 十二, 一百零五, 两千 or 二〇二三;
+ * Arabic digits (half or full width) are accepted too
+ */
+export const parseChineseNumeral = (text: string): number | null => {
+  const numeral = toHalfWidthDigits(text.trim());
+  if (!numeral) return null;
+  if (/^\d+$/.test(numeral)) return Number(numeral);
+  const chars = [...numeral];
+  // Read digit by digit when there are no units, as in 二〇二三
+  if (chars.every((char) => char in CHINESE_DIGITS)) {
+    return Number(chars.map((char) => CHINESE_DIGITS[char]).join(""));
+  }
+
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  for (const char of chars) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+    } else if (char in CHINESE_UNITS) {
+      // 十二 starts with a bare unit
+      section += (digit || 1) * CHINESE_UNITS[char];
+      digit = 0;
+    } else if (char === "万" || char === "萬") {
+      total += (section + digit || 1) * 10000;
+      section = 0;
+      digit = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + section + digit;
+};
+
+const parseRoman = (text: string): number | null => {
+  const values = [...text.toLowerCase()].map((char) => ROMAN[char]);
+  if (!values.length || values.some((value) => value === undefined)) return null;
+  return values.reduce((sum, value, index) => (value < (values[index + 1] ?? 0) ? sum - value : sum + value), 0);
+};
+
+const parseEnglishNumber = (text: string): number | null => {
+  const [tens, ones] = text.toLowerCase().split(/[- ]/);
+  const tensIndex = ENGLISH_TENS.split("|").indexOf(tens);
+  if (tensIndex >= 0) return (tensIndex + 2) * 10 + (ones ? ENGLISH_WORDS.indexOf(ones) : 0);
+  const index = ENGLISH_WORDS.indexOf(tens);
+  return index >= 0 ? index : null;
+};
+
+/**
+ * Value of a heading number in any of the forms the built-in patterns accept
+ */
+export const parseHeadingNumber = (text: string): number | null => {
+  const value = text.trim();
+  if (/^[\d０-９]+$/.test(value)) return Number(toHalfWidthDigits(value));
+  if (/^[ivxlcdm]+$/i.test(value)) return parseRoman(value);
+  if (/^[a-z\- ]+$/i.test(value)) return parseEnglishNumber(value);
+  return parseChineseNumeral(value);
+};
+
+interface Heading {
+  title: string;
+  kind: HeadingKind;
+  number?: number;
+}
+
+type CompiledPattern = { kind: HeadingKind; pattern: RegExp };
+
+/**
+ * Compile reader-supplied patterns, reporting the first invalid one
+ */
+export const compilePatterns = (patterns: ChapterPattern[]): CompiledPattern[] =>
+  patterns
+    .filter((pattern) => pattern.source.trim())
+    .map(({ source, kind }) => {
+      try {
+        return { kind, pattern: new RegExp(source.trim(), "i") };
+      } catch (err) {
+        throw new ChapterPatternError(source, `无效的正则表达式：${err instanceof Error ? err.message : source}`);
+      }
+    });
+
+const matchHeading = (line: string, patterns: CompiledPattern[]): Heading | null => {
+  for (const { kind, pattern } of patterns) {
+    const match = pattern.exec(line);
+    if (match) {
+      const number = match[1] === undefined ? null : parseHeadingNumber(match[1]);
+      return { title: line, kind, number: number ?? undefined };
+    }
+  }
+  return null;
+};
+
+/**
+ * The heading a line stands for, if any. Reader patterns are tried first and
+ * aren't subject to the length and punctuation checks of the built-in ones.
+ */
+const classifyLine = (line: string, custom: CompiledPattern[], builtIn: boolean): Heading | null => {
+  const heading = matchHeading(line, custom);
+  if (heading || !builtIn) return heading;
+
+  const markdown = MARKDOWN_HEADING.exec(line);
+  const text = markdown ? markdown[2].trim() : line;
+  if (text.length > MAX_HEADING_LENGTH || PROSE_ENDING.test(text)) return null;
+  const builtInHeading = matchHeading(text, BUILT_IN);
+  if (builtInHeading || !markdown) return builtInHeading;
+  // Markdown headings that don't name their kind go by depth
+  return { title: text, kind: markdown[1].length === 1 ? "chapter" : "section" };
+};
+
+export const isChapterHeading = (line: string) => classifyLine(line.trim(), [], true) !== null;
+
+/**
+ * Levels relative to the kinds of heading the book actually uses, so a book
+ * of chapters alone has them all at level 1
+ */
+const assignLevels = (headings: Array<Omit<DetectedChapter, "level">>): DetectedChapter[] => {
+  const present = HEADING_KINDS.filter((kind) => headings.some((heading) => heading.kind === kind));
+  return headings.map((heading) => ({ ...heading, level: present.indexOf(heading.kind) + 1 }));
+};
+
+/**
+ * Chapter headings of normalized text (paragraphs separated by blank lines).
+ * Throws ChapterPatternError for an invalid reader pattern.
+ */
+export const detectChapters = (text: string, options: DetectChaptersOptions = {}): DetectedChapter[] => {
+  const custom = compilePatterns(options.patterns ?? []);
+  const builtIn = options.builtIn ?? true;
+  const headings: Array<Omit<DetectedChapter, "level">> = [];
+  let offset = 0;
+  text.split("\n").forEach((line) => {
+    const trimmed = line.trim();
+    const heading = trimmed && classifyLine(trimmed, custom, builtIn);
+    if (heading) {
+      headings.push({ index: headings.length, offset: offset + line.indexOf(trimmed), ...heading });
+    }
+    offset += line.length + 1;
+  });
+  return assignLevels(headings);
+};
+
+/**
+ * Index of the chapter holding a character offset, or -1 before the first one
+ */
+export const chapterAt = (chapters: Array<{ offset: number }>, offset: number) => {
+  let found = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.offset <= offset) found = index;
+  });
+  return found;
+};
+
+/**
+ * Titles from the outermost enclosing heading down to the chapter itself,
+ * such as ["卷一", "第三章 归来"]
+ */
+export const chapterPath = (chapters: Array<{ title: string; level?: number | null }>, index: number): string[] => {
+  const path: string[] = [];
+  let level = Infinity;
+  for (let i = index; i >= 0 && level > 1; i--) {
+    const chapterLevel = chapters[i].level || 1;
+    if (chapterLevel < level) {
+      path.unshift(chapters[i].title);
+      level = chapterLevel;
+    }
+  }
+  return path;
+};
+
+/**
+ * The paragraph blocks the reader renders from normalized text
+ */
+export const splitParagraphs = (text: string) => text.split("\n\n").filter(Boolean);
+
+/**
+ * Where each paragraph of normalized text starts. Empty paragraphs are
+ * skipped, like the blocks the reader renders.
+ */
+export const paragraphOffsets = (text: string): number[] => {
+  const offsets: number[] = [];
+  text.split("\n\n").reduce((offset, paragraph) => {
+    if (paragraph) offsets.push(offset);
+    return offset + paragraph.length + 2;
+  }, 0);
+  return offsets;
+};
+
+/**
+ * The paragraph holding a character offset, given `paragraphOffsets`
+ */
+export const paragraphIndexAt = (offsets: number[], offset: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] <= offset) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
+
+/** A chapter placed on the paragraph blocks the reader renders */
+export interface ChapterBlock {
+  title: string;
+  level: number;
+  blockIndex: number;
+}
+
+/**
+ * Map chapter offsets onto the paragraph blocks of `text`
+ */
+export const chapterBlocks = (
+  chapters: Array<{ title: string; offset: number; level?: number | null }>,
+  text: string
+): ChapterBlock[] => {
+  const offsets = paragraphOffsets(text);
+  return chapters.map((chapter) => ({
+    title: chapter.title,
+    level: chapter.level || 1,
+    blockIndex: paragraphIndexAt(offsets, chapter.offset),
+  }));
+};
@@ -0,0 +1,79 @@
+/**
+ * Display forms of Chinese text: simplified/traditional conversion and pinyin.
+ * The converters carry large dictionaries, so they're loaded the first time a
+ * reader turns them on.
+ */
+
+export type ScriptConversion = "original" | "simplified" | "traditional";
+
+export type Converter = (text: string) => string;
+export type PinyinReader = (text: string) => string[];
+
+const converters = new Map<ScriptConversion, Promise<Converter>>();
+let pinyinReader: Promise<PinyinReader> | null = null;
+
+export const loadConverter = (target: Exclude<ScriptConversion, "original">): Promise<Converter> => {
+  let loading = converters.get(target);
+  if (!loading) {
+    loading =
+      target === "traditional"
+        ? import("opencc-js/cn2t").then((OpenCC) => OpenCC.Converter({ from: "cn", to: "t" }))
+        : import("opencc-js/t2cn").then((OpenCC) => OpenCC.Converter({ from: "t", to: "cn" }));
+    // A failed load can be retried
+    loading.catch(() => converters.delete(target));
+    converters.set(target, loading);
+  }
+  return loading;
+};
+
+/** One reading per character of the text, tone marks included */
+export const loadPinyin = (): Promise<PinyinReader> => {
+  if (!pinyinReader) {
+    pinyinReader = import("pinyin-pro").then(
+      ({ pinyin }) =>
+        (text: string) =>
+          pinyin(text, { type: "array", toneType: "symbol" })
+    );
+    pinyinReader.catch(() => {
+      pinyinReader = null;
+    });
+  }
+  return pinyinReader;
+};
+
+/**
+ * Convert text for display. Highlights and reading positions are character
+ * offsets into the original text, so a conversion that changes the length
+ * isn't shown.
+ */
+export const convertScript = (convert: Converter, text: string) => {
+  const converted = convert(text);
+  return converted.length === text.length ? converted : text;
+};
+
+const HAN = /\p{Script=Han}/u;
+
+/** A run of text, or a Chinese character with its reading */
+export type RubyPart = string | { base: string; reading: string };
+
+/**
+ * Pair each Chinese character with its reading; everything else stays in
+ * plain runs. `readings` has one entry per character, as `loadPinyin` returns.
+ */
+export const annotate = (text: string, readings: string[]): RubyPart[] => {
+  const characters = Array.from(text);
+  if (characters.length !== readings.length) return [text];
+  const parts: RubyPart[] = [];
+  let run = "";
+  characters.forEach((character, index) => {
+    if (HAN.test(character) && readings[index] !== character) {
+      if (run) parts.push(run);
+      run = "";
+      parts.push({ base: character, reading: readings[index] });
+    } else {
+      run += character;
+    }
+  });
+  if (run) parts.push(run);
+  return parts;
+};
@@ -0,0 +1,612 @@
+/**
+ * EPUB reading
+ *
+ * Parses the container, the OPF package (metadata, manifest, spine) and the
+ * navigation document or NCX in the browser. Chapters are converted from
+ * XHTML into plain block data that React renders itself, so nothing from the
+ * book is ever injected as HTML: scripts, styles, forms and event handlers
+ * simply have nowhere to go.
+ */
+import { ZipArchive } from "./zip";
+
+const CONTAINER_PATH = "META-INF/container.xml";
+const OPS_NS = "http://www.idpf.org/2007/ops";
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+
+export interface EpubSpineItem {
+  id: string;
+  /** Path inside the archive */
+  href: string;
+  mediaType: string;
+  linear: boolean;
+}
+
+export interface EpubTocEntry {
+  title: string;
+  level: number;
+  /** Spine position of the target document */
+  chapterIndex: number;
+  /** Element id within the chapter, if the entry points inside it */
+  fragment?: string;
+}
+
+export type EpubInlineMark = "em" | "strong" | "code" | "sup" | "sub";
+
+export interface EpubInline {
+  text: string;
+  marks: EpubInlineMark[];
+  /** External URL, or `#id` within the chapter */
+  href?: string;
+  /** Internal link into another chapter */
+  target?: { chapterIndex: number; fragment?: string };
+  /** Link to a footnote */
+  noteRef?: boolean;
+  /** Inline image, such as a glyph missing from fonts; its text is empty */
+  src?: string;
+  alt?: string;
+}
+
+export type EpubBlockType =
+  | "heading"
+  | "paragraph"
+  | "quote"
+  | "list-item"
+  | "preformatted"
+  | "footnote"
+  | "image"
+  | "rule";
+
+export interface EpubBlock {
+  type: EpubBlockType;
+  /** Heading level 1-6 */
+  level?: number;
+  /** Element ids that land on this block, for TOC fragments and footnotes */
+  anchors: string[];
+  inlines: EpubInline[];
+  /** The inlines' text joined; highlight offsets count characters of this */
+  text: string;
+  /** Image URL */
+  src?: string;
+  alt?: string;
+}
+
+export interface EpubChapter {
+  index: number;
+  /** Path inside the archive; stable across re-parses, so used as the highlight anchor */
+  href: string;
+  title: string;
+  blocks: EpubBlock[];
+}
+
+export class EpubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EpubError";
+  }
+}
+
+const parseXml = (source: string, type: DOMParserSupportedType = "application/xml") => {
+  const document = new DOMParser().parseFromString(source, type);
+  if (document.getElementsByTagName("parsererror").length) {
+    // Plenty of EPUBs ship XHTML that isn't well-formed; the HTML parser copes
+    return type === "application/xml" ? document : new DOMParser().parseFromString(source, "text/html");
+  }
+  return document;
+};
+
+const byLocalName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagName("*")).filter((element) => element.localName === name);
+
+const epubType = (element: Element) =>
+  element.getAttributeNS(OPS_NS, "type") || element.getAttribute("epub:type") || "";
+
+/**
+ * Resolve `relative` against the directory of `base`, both archive paths
+ */
+export const resolvePath = (base: string, relative: string) => {
+  const [path] = relative.split("#");
+  const segments = base.split("/").slice(0, -1);
+  decodeURIComponent(path)
+    .split("/")
+    .forEach((segment) => {
+      if (segment === "..") segments.pop();
+      else if (segment && segment !== ".") segments.push(segment);
+    });
+  return segments.join("/");
+};
+
+const fragmentOf = (href: string) => {
+  const hash = href.indexOf("#");
+  return hash >= 0 ? decodeURIComponent(href.slice(hash + 1)) || undefined : undefined;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Elements whose content is never shown
+const SKIPPED = new Set([
+  "head", "script", "style", "template", "iframe", "object", "embed", "form", "input", "button",
+  "select", "textarea", "audio", "video", "canvas", "rt", "rp", "noscript",
+]);
+const HEADINGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+const CONTAINERS = new Set([
+  "body", "div", "section", "article", "main", "header", "footer", "figure", "nav", "ul", "ol", "dl",
+  "table", "thead", "tbody", "tfoot", "hgroup", "details", "center",
+]);
+const MARKS: Record<string, EpubInlineMark> = {
+  em: "em", i: "em", cite: "em", dfn: "em", var: "em",
+  strong: "strong", b: "strong",
+  code: "code", kbd: "code", samp: "code", tt: "code",
+  sup: "sup", sub: "sub",
+};
+const NOTE_TYPES = /\b(footnote|endnote|rearnote|note)\b/;
+
+// <br> while inlines are collected; source newlines are only whitespace
+const LINE_BREAK = "\u2028";
+const CJK = /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+const nextCharacter = (inlines: EpubInline[], index: number, position: number) => {
+  for (let i = index; i < inlines.length; i++) {
+    if (inlines[i].src) return "";
+    const rest = inlines[i].text.slice(i === index ? position : 0).replace(/^[ \t\r\n\f]+/, "");
+    if (rest) return rest[0];
+  }
+  return "";
+};
+
+/**
+ * Collapse whitespace like a browser would, across inline boundaries, and
+ * drop empty runs. A line break in the source between two CJK characters
+ * disappears instead of becoming a space.
+ */
+const tidyInlines = (inlines: EpubInline[], preformatted: boolean): EpubInline[] => {
+  if (preformatted) {
+    return inlines
+      .filter((inline) => inline.text || inline.src)
+      .map((inline) => ({ ...inline, text: inline.text.split(LINE_BREAK).join("\n") }));
+  }
+  const tidy: EpubInline[] = [];
+  // Last character kept; empty at the start of the block
+  let previous = "";
+  inlines.forEach((inline, index) => {
+    if (inline.src) {
+      tidy.push(inline);
+      previous = "";
+      return;
+    }
+    let text = "";
+    for (let i = 0; i < inline.text.length; i++) {
+      const char = inline.text[i];
+      if (char === LINE_BREAK) {
+        text = text.replace(/ $/, "") + "\n";
+        previous = "\n";
+      } else if (/[ \t\r\n\f]/.test(char)) {
+        const run = inline.text.slice(i).match(/^[ \t\r\n\f]+/)[0];
+        i += run.length - 1;
+        if (!previous || previous === " " || previous === "\n") continue;
+        if (run.includes("\n") && CJK.test(previous) && CJK.test(nextCharacter(inlines, index, i + 1))) continue;
+        text += " ";
+        previous = " ";
+      } else {
+        text += char;
+        previous = char;
+      }
+    }
+    if (text) tidy.push({ ...inline, text });
+  });
+  const last = tidy[tidy.length - 1];
+  if (last && !last.src) {
+    last.text = last.text.replace(/ $/, "");
+    if (!last.text) tidy.pop();
+  }
+  return tidy;
+};
+
+/**
+ * Converts one chapter's XHTML into blocks
+ */
+class ChapterReader {
+  private blocks: EpubBlock[] = [];
+  private pendingAnchors: string[] = [];
+
+  constructor(
+    private resolveLink: (href: string) => Pick<EpubInline, "href" | "target">,
+    private resolveImage: (src: string) => string | null
+  ) {}
+
+  read(body: Element): EpubBlock[] {
+    this.walkBlocks(body, "paragraph");
+    return this.blocks;
+  }
+
+  private takeAnchors(element: Element) {
+    if (element.id) this.pendingAnchors.push(element.id);
+  }
+
+  private emit(block: Omit<EpubBlock, "anchors" | "text">, anchors: string[] = []) {
+    const inlines = block.inlines;
+    const text = inlines.map((inline) => inline.text).join("");
+    if (!inlines.length && block.type !== "image" && block.type !== "rule") {
+      // Keep anchors of empty elements for the next block
+      this.pendingAnchors.push(...anchors);
+      return;
+    }
+    this.blocks.push({ ...block, text, anchors: [...this.pendingAnchors, ...anchors] });
+    this.pendingAnchors = [];
+  }
+
+  private walkBlocks(element: Element, type: EpubBlockType) {
+    const inlineRun: Node[] = [];
+    const flushInline = () => {
+      if (!inlineRun.length) return;
+      const anchors: string[] = [];
+      const inlines = tidyInlines(inlineRun.flatMap((node) => this.readInline(node, [], anchors)), false);
+      inlineRun.length = 0;
+      this.emit({ type, inlines }, anchors);
+    };
+
+    Array.from(element.childNodes).forEach((node) => {
+      if (!(node instanceof Element)) {
+        if (node.nodeType === 3) inlineRun.push(node);
+        return;
+      }
+      if (this.isBlock(node)) {
+        flushInline();
+        this.readBlock(node, type);
+      } else {
+        inlineRun.push(node);
+      }
+    });
+    flushInline();
+  }
+
+  private isBlock(element: Element) {
+    const name = element.localName;
+    return (
+      HEADINGS.has(name) ||
+      CONTAINERS.has(name) ||
+      ["p", "blockquote", "li", "pre", "hr", "aside", "figcaption", "tr", "dt", "dd", "caption", "address"].includes(
+        name
+      ) ||
+      (name === "img" && element.parentElement?.localName !== "p")
+    );
+  }
+
+  private readBlock(element: Element, type: EpubBlockType) {
+    const name = element.localName;
+    if (SKIPPED.has(name)) return;
+    if (element.getAttribute("hidden") !== null || element.getAttribute("aria-hidden") === "true") return;
+
+    const noteType = NOTE_TYPES.test(epubType(element)) && name !== "a";
+    if (name === "aside" || noteType) {
+      // Footnotes keep their own id so note references can scroll to them
+      this.takeAnchors(element);
+      this.walkBlocks(element, noteType ? "footnote" : type);
+      return;
+    }
+    if (HEADINGS.has(name)) {
+      this.emitInline(element, "heading", Number(name[1]));
+      return;
+    }
+    if (name === "p" || name === "figcaption" || name === "dt" || name === "dd" || name === "caption" || name === "address") {
+      const image = element.children.length === 1 && element.children[0].localName === "img" && !element.textContent.trim();
+      if (image) {
+        this.takeAnchors(element);
+        this.readBlock(element.children[0], type);
+        return;
+      }
+      this.emitInline(element, type === "paragraph" ? "paragraph" : type);
+      return;
+    }
+    if (name === "blockquote") {
+      this.takeAnchors(element);
+      this.walkBlocks(element, type === "footnote" ? "footnote" : "quote");
+      return;
+    }
+    if (name === "li") {
+      this.takeAnchors(element);
+      this.walkBlocks(element, type === "footnote" ? "footnote" : "list-item");
+      return;
+    }
+    if (name === "pre") {
+      const anchors: string[] = [];
+      this.takeAnchors(element);
+      const inlines = tidyInlines(this.readChildren(element, [], anchors), true);
+      this.emit({ type: "preformatted", inlines }, anchors);
+      return;
+    }
+    if (name === "hr") {
+      this.emit({ type: "rule", inlines: [] }, element.id ? [element.id] : []);
+      return;
+    }
+    if (name === "img") {
+      const src = this.resolveImage(element.getAttribute("src") || "");
+      if (src) {
+        this.emit({ type: "image", inlines: [], src, alt: element.getAttribute("alt") || "" }, element.id ? [element.id] : []);
+      }
+      return;
+    }
+    if (name === "tr") {
+      // Tables flatten to one line per row, cells separated by tabs
+      const anchors: string[] = [];
+      const cells = Array.from(element.children).map((cell) => tidyInlines(this.readChildren(cell, [], anchors), false));
+      const inlines = cells.flatMap((cell, index) => (index ? [{ text: "\t", marks: [] }, ...cell] : cell));
+      this.emit({ type, inlines }, anchors);
+      return;
+    }
+
+    // Containers
+    this.takeAnchors(element);
+    this.walkBlocks(element, type);
+  }
+
+  private emitInline(element: Element, type: EpubBlockType, level?: number) {
+    const anchors = element.id ? [element.id] : [];
+    const inlines = tidyInlines(this.readChildren(element, [], anchors), false);
+    this.emit({ type, level, inlines }, anchors);
+  }
+
+  private readChildren(element: Element, marks: EpubInlineMark[], anchors: string[], link?: Partial<EpubInline>) {
+    return Array.from(element.childNodes).flatMap((child) => this.readInline(child, marks, anchors, link));
+  }
+
+  private readInline(
+    node: Node,
+    marks: EpubInlineMark[],
+    anchors: string[],
+    link: Partial<EpubInline> = {}
+  ): EpubInline[] {
+    if (node.nodeType === 3) {
+      return [{ text: node.textContent || "", marks, ...link }];
+    }
+    if (!(node instanceof Element)) return [];
+    const name = node.localName;
+    if (SKIPPED.has(name)) return [];
+    if (node.id) anchors.push(node.id);
+
+    if (name === "br") return [{ text: LINE_BREAK, marks }];
+    if (name === "img") {
+      const src = this.resolveImage(node.getAttribute("src") || "");
+      return src ? [{ text: "", marks, src, alt: node.getAttribute("alt") || "" }] : [];
+    }
+    if (name === "a" && node.getAttribute("href")) {
+      const noteRef = /\bnoteref\b/.test(epubType(node)) || undefined;
+      return this.readChildren(node, marks, anchors, { ...this.resolveLink(node.getAttribute("href")), noteRef });
+    }
+    const mark = MARKS[name];
+    return this.readChildren(node, mark && !marks.includes(mark) ? [...marks, mark] : marks, anchors, link);
+  }
+}
+
+export class EpubDocument {
+  readonly title: string;
+  readonly author: string;
+  readonly language: string;
+  readonly spine: EpubSpineItem[];
+  readonly toc: EpubTocEntry[];
+
+  private archive: ZipArchive;
+  private manifest: Map<string, { href: string; mediaType: string }>;
+  private chapters = new Map<number, Promise<EpubChapter>>();
+  private objectUrls = new Map<string, Promise<string>>();
+
+  private constructor(
+    archive: ZipArchive,
+    metadata: { title: string; author: string; language: string },
+    manifest: Map<string, { href: string; mediaType: string }>,
+    spine: EpubSpineItem[],
+    toc: EpubTocEntry[]
+  ) {
+    this.archive = archive;
+    this.title = metadata.title;
+    this.author = metadata.author;
+    this.language = metadata.language;
+    this.manifest = manifest;
+    this.spine = spine;
+    this.toc = toc;
+  }
+
+  /**
+   * Open an EPUB from its bytes
+   */
+  static async open(bytes: Uint8Array): Promise<EpubDocument> {
+    const archive = new ZipArchive(bytes);
+    if (!archive.has(CONTAINER_PATH)) throw new EpubError("缺少 META-INF/container.xml，不是有效的 EPUB 文件");
+
+    const container = parseXml(await archive.readText(CONTAINER_PATH));
+    const packagePath = byLocalName(container, "rootfile")[0]?.getAttribute("full-path");
+    if (!packagePath || !archive.has(packagePath)) throw new EpubError("找不到 EPUB 的 OPF 文件");
+    const opf = parseXml(await archive.readText(packagePath));
+
+    const dc = (name: string) =>
+      (opf.getElementsByTagNameNS(DC_NS, name)[0] || byLocalName(opf, name)[0])?.textContent?.trim() || "";
+    const metadata = { title: dc("title"), author: dc("creator"), language: dc("language") };
+
+    const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+    byLocalName(opf, "item").forEach((item) => {
+      manifest.set(item.getAttribute("id"), {
+        href: resolvePath(packagePath, item.getAttribute("href") || ""),
+        mediaType: item.getAttribute("media-type") || "",
+        properties: item.getAttribute("properties") || "",
+      });
+    });
+
+    const spineElement = byLocalName(opf, "spine")[0];
+    const spine: EpubSpineItem[] = byLocalName(opf, "itemref")
+      .map((ref) => {
+        const id = ref.getAttribute("idref");
+        const item = manifest.get(id);
+        return item && { id, href: item.href, mediaType: item.mediaType, linear: ref.getAttribute("linear") !== "no" };
+      })
+      .filter((item): item is EpubSpineItem => !!item && archive.has(item.href));
+    if (!spine.length) throw new EpubError("EPUB 中没有可阅读的章节");
+
+    const chapterIndex = (path: string) => spine.findIndex((item) => item.href === path);
+    const nav = [...manifest.values()].find((item) => item.properties.split(/\s+/).includes("nav"));
+    const ncx = manifest.get(spineElement?.getAttribute("toc")) ||
+      [...manifest.values()].find((item) => item.mediaType === "application/x-dtbncx+xml");
+
+    let toc: EpubTocEntry[] = [];
+    if (nav && archive.has(nav.href)) {
+      toc = readNavToc(parseXml(await archive.readText(nav.href), "application/xhtml+xml"), nav.href, chapterIndex);
+    }
+    if (!toc.length && ncx && archive.has(ncx.href)) {
+      toc = readNcxToc(parseXml(await archive.readText(ncx.href)), ncx.href, chapterIndex);
+    }
+
+    return new EpubDocument(archive, metadata, manifest, spine, toc);
+  }
+
+  /** Spine position of an archive path, or -1 */
+  chapterIndexOf(href: string) {
+    return this.spine.findIndex((item) => item.href === href);
+  }
+
+  /** Title of a chapter from the TOC */
+  chapterTitle(index: number) {
+    return this.toc.find((entry) => entry.chapterIndex === index)?.title;
+  }
+
+  loadChapter(index: number): Promise<EpubChapter> {
+    if (!this.chapters.has(index)) {
+      this.chapters.set(index, this.readChapter(index));
+    }
+    return this.chapters.get(index);
+  }
+
+  /** Release the object URLs of the book's images */
+  dispose() {
+    this.objectUrls.forEach((url) =>
+      url.then((value) => value.startsWith("blob:") && URL.revokeObjectURL(value)).catch(() => undefined)
+    );
+    this.objectUrls.clear();
+    this.chapters.clear();
+  }
+
+  private async readChapter(index: number): Promise<EpubChapter> {
+    const item = this.spine[index];
+    if (!item) throw new EpubError(`Chapter ${index} does not exist`);
+
+    const type = item.mediaType === "text/html" ? "text/html" : "application/xhtml+xml";
+    const document = parseXml(await this.archive.readText(item.href), type);
+    const body = byLocalName(document, "body")[0] || document.documentElement;
+
+    const images: Array<{ path: string; placeholder: string }> = [];
+    const reader = new ChapterReader(
+      (href) => {
+        if (/^(https?:|mailto:)/i.test(href)) return { href };
+        if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return {};
+        if (href.startsWith("#")) return { href };
+        const chapterIndex = this.chapterIndexOf(resolvePath(item.href, href));
+        return chapterIndex >= 0 ? { target: { chapterIndex, fragment: fragmentOf(href) } } : {};
+      },
+      (src) => {
+        const path = resolvePath(item.href, src);
+        if (!this.archive.has(path)) return null;
+        const placeholder = `epub-image:${path}`;
+        images.push({ path, placeholder });
+        return placeholder;
+      }
+    );
+    const blocks = reader.read(body);
+
+    await Promise.all(
+      images.map(async ({ path, placeholder }) => {
+        const url = await this.resourceUrl(path);
+        blocks.forEach((block) => {
+          if (block.src === placeholder) block.src = url;
+          block.inlines.forEach((inline) => {
+            if (inline.src === placeholder) inline.src = url;
+          });
+        });
+      })
+    );
+
+    const heading = blocks.find((block) => block.type === "heading")?.text;
+    return {
+      index,
+      href: item.href,
+      title: this.chapterTitle(index) || heading || `第 ${index + 1} 节`,
+      blocks,
+    };
+  }
+
+  private resourceUrl(path: string): Promise<string> {
+    if (!this.objectUrls.has(path)) {
+      const mediaType = [...this.manifest.values()].find((item) => item.href === path)?.mediaType || "";
+      this.objectUrls.set(
+        path,
+        this.archive.read(path).then((bytes) =>
+          typeof URL.createObjectURL === "function"
+            ? URL.createObjectURL(new Blob([bytes], { type: mediaType }))
+            : `data:${mediaType};base64,${toBase64(bytes)}`
+        )
+      );
+    }
+    return this.objectUrls.get(path);
+  }
+}
+
+const readNavToc = (document: Document, navPath: string, chapterIndex: (path: string) => number): EpubTocEntry[] => {
+  const navs = byLocalName(document, "nav");
+  const tocNav = navs.find((nav) => /\btoc\b/.test(epubType(nav))) || navs[0];
+  const list = tocNav && Array.from(tocNav.children).find((child) => child.localName === "ol");
+  const entries: EpubTocEntry[] = [];
+
+  const walk = (ol: Element, level: number) => {
+    Array.from(ol.children)
+      .filter((li) => li.localName === "li")
+      .forEach((li) => {
+        const label = Array.from(li.children).find((child) => child.localName === "a" || child.localName === "span");
+        const href = label?.localName === "a" ? label.getAttribute("href") : null;
+        const title = label?.textContent?.replace(/\s+/g, " ").trim();
+        const index = href ? chapterIndex(resolvePath(navPath, href)) : -1;
+        if (title && index >= 0) {
+          entries.push({ title, level, chapterIndex: index, fragment: fragmentOf(href) });
+        }
+        const nested = Array.from(li.children).find((child) => child.localName === "ol");
+        if (nested) walk(nested, level + 1);
+      });
+  };
+  if (list) walk(list, 1);
+  return entries;
+};
+
+const readNcxToc = (document: Document, ncxPath: string, chapterIndex: (path: string) => number): EpubTocEntry[] => {
+  const navMap = byLocalName(document, "navMap")[0];
+  const entries: EpubTocEntry[] = [];
+
+  const walk = (parent: Element, level: number) => {
+    Array.from(parent.children)
+      .filter((child) => child.localName === "navPoint")
+      .forEach((point) => {
+        const label = byLocalName(point, "text")[0]?.textContent?.replace(/\s+/g, " ").trim();
+        const src = byLocalName(point, "content")[0]?.getAttribute("src");
+        const index = src ? chapterIndex(resolvePath(ncxPath, src)) : -1;
+        if (label && index >= 0) {
+          entries.push({ title: label, level, chapterIndex: index, fragment: fragmentOf(src) });
+        }
+        walk(point, level + 1);
+      });
+  };
+  if (navMap) walk(navMap, 1);
+  return entries;
+};
+
+/**
+ * Where each block starts in the chapter's text. Blocks are joined with a
+ * blank line, the same way plain-text books separate paragraphs.
+ */
+export const blockOffsets = (blocks: Pick<EpubBlock, "text">[]): number[] => {
+  const offsets: number[] = [];
+  blocks.reduce((offset, block) => {
+    offsets.push(offset);
+    return offset + block.text.length + 2;
+  }, 0);
+  return offsets;
+};
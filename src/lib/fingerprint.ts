@@ -0,0 +1,79 @@
+/**
+ * Book fingerprints, for noticing a book is already in the library.
+ * The same file has the same SHA-256; the same text in another file (a
+ * re-export, a different edition with a few corrections) has a similar
+ * MinHash signature: the smallest hashes of the text's overlapping character
+ * runs under a set of hash functions, of which two texts share about as many
+ * as they share runs.
+ */
+import { foldText } from "./search";
+
+// Hash functions in a signature; more is more precise and slower
+export const SIGNATURE_SIZE = 64;
+// Characters per run; long enough that unrelated Chinese texts rarely share one
+const SHINGLE = 5;
+// Share of the signature two copies of one book have in common at least
+export const DUPLICATE_SIMILARITY = 0.8;
+
+// Fixed odd multipliers, one per hash function, so signatures compare across devices
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => (Math.imul(index + 1, 0x9e3779b1) | 1) >>> 0);
+
+/**
+ * Hex SHA-256 of a file's bytes, or null where WebCrypto is unavailable
+ * (plain-HTTP origins other than localhost)
+ */
+export const fileHash = async (bytes: Uint8Array): Promise<string | null> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Letters and digits only, width and case folded: line breaks, spacing and
+ * punctuation differ between exports of the same book
+ */
+export const matchableText = (text: string) => (foldText(text).match(/[\p{L}\p{N}]+/gu) ?? []).join("");
+
+// FNV-1a over the UTF-16 code units of a run
+const hashRun = (text: string, start: number) => {
+  let hash = 0x811c9dc5;
+  for (let index = start; index < start + SHINGLE; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// One of the signature's hash functions, applied to a run's hash
+const rehash = (hash: number, seed: number) => {
+  let mixed = Math.imul(hash ^ (hash >>> 16), seed);
+  mixed = Math.imul(mixed ^ (mixed >>> 13), 0x85ebca6b);
+  return (mixed ^ (mixed >>> 16)) >>> 0;
+};
+
+/**
+ * MinHash signature of a text; empty when it has too little text to compare
+ */
+export const textSignature = (text: string): number[] => {
+  const matchable = matchableText(text);
+  if (matchable.length < SHINGLE) return [];
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  const seen = new Set<number>();
+  for (let start = 0; start + SHINGLE <= matchable.length; start++) {
+    const hash = hashRun(matchable, start);
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    for (let index = 0; index < SIGNATURE_SIZE; index++) {
+      const value = rehash(hash, SEEDS[index]);
+      if (value < signature[index]) signature[index] = value;
+    }
+  }
+  return signature;
+};
+
+/**
+ * Estimated share of text two books have in common, 0-1
+ */
+export const signatureSimilarity = (a: number[], b: number[]) => {
+  if (!a.length || a.length !== b.length) return 0;
+  return a.filter((value, index) => value === b[index]).length / a.length;
+};
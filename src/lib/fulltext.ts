@@ -0,0 +1,166 @@
+/**
+ * Full-text search across a library. Chinese and Japanese have no spaces to
+ * split words at, so their text is indexed as single characters and
+ * overlapping pairs (n-grams); other scripts are indexed as words. Books are
+ * ranked with BM25, and books where the query occurs exactly as typed come first.
+ */
+import { buildMatcher, findMatches, foldText } from "@/lib/search";
+
+/** An indexed book: its paragraphs, folded for matching, and how often each term occurs */
+export interface IndexedBook {
+  blocks: string[];
+  folded: string[];
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface LibraryIndex {
+  books: Map<string, IndexedBook>;
+  /** Number of books each term occurs in */
+  documentFrequency: Map<string, number>;
+  totalLength: number;
+}
+
+/** A matching range in one paragraph */
+export interface Passage {
+  block: number;
+  start: number;
+  end: number;
+  /** Which exact occurrence of the query this is, or null when only its terms matched */
+  occurrence: number | null;
+}
+
+export interface LibraryMatch {
+  bookId: string;
+  score: number;
+  /** Exact occurrences of the query */
+  matchCount: number;
+  passages: Passage[];
+}
+
+// Passages listed per book
+export const MAX_PASSAGES = 3;
+
+// BM25 term-frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const UNSPACED = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+const RUNS = new RegExp(`[${UNSPACED}]+|(?:(?![${UNSPACED}])[\\p{L}\\p{N}_])+`, "gu");
+const UNSPACED_RUN = new RegExp(`^[${UNSPACED}]`, "u");
+
+/**
+ * Terms in a text. Indexing keeps every single character of an unspaced run as
+ * well as its pairs, so one-character queries still match; a query only uses
+ * the pairs, unless a run is one character long.
+ */
+export const tokenize = (text: string, forQuery = false): string[] => {
+  const terms: string[] = [];
+  for (const [run] of foldText(text).matchAll(RUNS)) {
+    if (!UNSPACED_RUN.test(run)) {
+      terms.push(run);
+      continue;
+    }
+    const characters = Array.from(run);
+    if (!forQuery || characters.length === 1) terms.push(...characters);
+    for (let index = 0; index + 1 < characters.length; index++) {
+      terms.push(characters[index] + characters[index + 1]);
+    }
+  }
+  return terms;
+};
+
+export const createLibraryIndex = (): LibraryIndex => ({
+  books: new Map(),
+  documentFrequency: new Map(),
+  totalLength: 0,
+});
+
+export const unindexBook = (index: LibraryIndex, bookId: string) => {
+  const book = index.books.get(bookId);
+  if (!book) return;
+  book.terms.forEach((_, term) => {
+    const count = (index.documentFrequency.get(term) ?? 1) - 1;
+    if (count > 0) index.documentFrequency.set(term, count);
+    else index.documentFrequency.delete(term);
+  });
+  index.totalLength -= book.length;
+  index.books.delete(bookId);
+};
+
+/**
+ * Add a book by its paragraphs, replacing what was indexed for it before
+ */
+export const indexBook = (index: LibraryIndex, bookId: string, blocks: string[]) => {
+  unindexBook(index, bookId);
+  const terms = new Map<string, number>();
+  let length = 0;
+  blocks.forEach((block) => {
+    tokenize(block).forEach((term) => {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+      length++;
+    });
+  });
+  terms.forEach((_, term) => index.documentFrequency.set(term, (index.documentFrequency.get(term) ?? 0) + 1));
+  index.books.set(bookId, { blocks, folded: blocks.map(foldText), terms, length });
+  index.totalLength += length;
+};
+
+const bm25 = (index: LibraryIndex, book: IndexedBook, terms: string[]) => {
+  const count = index.books.size;
+  const averageLength = index.totalLength / Math.max(1, count) || 1;
+  return terms.reduce((score, term) => {
+    const frequency = book.terms.get(term) ?? 0;
+    const documents = index.documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+    return score + (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * book.length) / averageLength));
+  }, 0);
+};
+
+/**
+ * Where a book matches: exact occurrences first, otherwise the paragraphs
+ * holding the most of the query's terms
+ */
+const findPassages = (book: IndexedBook, query: string, terms: string[]) => {
+  const matcher = buildMatcher(query, { wholeWord: false, regex: false });
+  const exact: Passage[] = [];
+  book.folded.forEach((folded, block) => {
+    findMatches(folded, matcher).forEach(({ start, end }) => exact.push({ block, start, end, occurrence: exact.length }));
+  });
+  if (exact.length) return { matchCount: exact.length, passages: exact.slice(0, MAX_PASSAGES) };
+
+  const partial = book.folded
+    .map((folded, block) => {
+      const present = terms.filter((term) => folded.includes(term));
+      return { block, present };
+    })
+    .filter(({ present }) => present.length > 0)
+    .sort((a, b) => b.present.length - a.present.length || a.block - b.block)
+    .slice(0, MAX_PASSAGES)
+    .map(({ block, present }) => {
+      const start = Math.min(...present.map((term) => book.folded[block].indexOf(term)));
+      const term = present.find((candidate) => book.folded[block].indexOf(candidate) === start);
+      return { block, start, end: start + term.length, occurrence: null };
+    });
+  return { matchCount: 0, passages: partial };
+};
+
+/**
+ * Books holding every term of the query, best first. `bookIds` limits the
+ * search to some books, e.g. after filtering by author.
+ */
+export const searchLibrary = (index: LibraryIndex, query: string, bookIds?: Iterable<string>): LibraryMatch[] => {
+  const terms = [...new Set(tokenize(query, true))];
+  if (!terms.length) return [];
+  const candidates = bookIds ? [...bookIds] : [...index.books.keys()];
+  const matches: LibraryMatch[] = [];
+  candidates.forEach((bookId) => {
+    const book = index.books.get(bookId);
+    if (!book || !terms.every((term) => book.terms.has(term))) return;
+    const { matchCount, passages } = findPassages(book, query, terms);
+    // Exact occurrences of what was typed outrank books that merely share its terms
+    const score = bm25(index, book, terms) * (matchCount > 0 ? 2 : 1);
+    matches.push({ bookId, score, matchCount, passages });
+  });
+  return matches.sort((a, b) => b.score - a.score);
+};
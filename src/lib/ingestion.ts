@@ -0,0 +1,203 @@
+/**
+ * Text ingestion helpers
+ * File type and encoding sniffing, text normalization and metadata extraction
+ * for books imported from the user's disk
+ */
+import { isChapterHeading } from "./chapters";
+
+export type BookFileType = "txt" | "pdf" | "epub";
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "gbk" | "big5";
+
+export interface BookMetadata {
+  title: string;
+  author: string;
+}
+
+export const UNKNOWN_AUTHOR = "未知作者";
+
+// Bytes looked at when sniffing the type and encoding
+const SAMPLE_SIZE = 64 * 1024;
+
+// Frequent characters in simplified and traditional text. Big5 bytes decoded
+// as GBK (and vice versa) turn into rare characters, so the decoding that
+// yields more of these wins.
+const COMMON_SIMPLIFIED = "的一是不了在人有我他这个们中来上大为和国地到以说时要就出会也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心她本前开但因只从想实日军者意无力它与长把机十民第公此已工使情明性知全三又关点正业外将两高间由问很最重并物手应战向头文体政美相见被利什二等产或新己制身果加西斯月话合回特代内信表化老给世位次度门任常先海通教儿原东声提立及比员解水名真论处走义各入几口认条平系气题活尔更别打女变四神总何电数安少报才结反受目太量再感建务做接必场件计管期市直德资命山金指克许统区保至队形社便空决治展马科司五基眼书非则听白却界达光放强即像难且权思王象完设式色路记南品住告类求据程北边死张该交规万取拉格望觉术领共确传师观清今切院让识候带导争运笔";
+const COMMON_TRADITIONAL = "的一是不了在人有我他這個們中來上大為和國地到以說時要就出會也你對生能而子那得於著下自之年過發後作裡用道行所然家種事成方多經麼去法學如都同現當沒動面起看定天分還進好小部其些主樣理心她本前開但因只從想實日軍者意無力它與長把機十民第公此已工使情明性知全三又關點正業外將兩高間由問很最重並物手應戰向頭文體政美相見被利什二等產或新己制身果加西斯月話合回特代內信表化老給世位次度門任常先海通教兒原東聲提立及比員解水名真論處走義各入幾口認條平系氣題活爾更別打女變四神總何電數安少報才結反受目太量再感建務做接必場件計管期市直德資命山金指克許統區保至隊形社便空決治展馬科司五基眼書非則聽白卻界達光放強即像難且權思王象完設式色路記南品住告類求據程北邊死張該交規萬取拉格望覺術領共確傳師觀清今切院讓識候帶導爭運筆";
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+const asciiAt = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Book format from the file's leading bytes, falling back to its extension.
+ * Returns null for anything that isn't a PDF, an EPUB or text.
+ */
+export const detectFileType = (bytes: Uint8Array, fileName: string): BookFileType | null => {
+  if (asciiAt(bytes, 0, 5) === "%PDF-") return "pdf";
+  // EPUBs are ZIP archives whose first entry is an uncompressed `mimetype` file
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    const head = asciiAt(bytes, 0, 100);
+    return head.includes("application/epub+zip") || /\.epub$/i.test(fileName) ? "epub" : null;
+  }
+  if (detectBom(bytes)) return "txt";
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const controls = sample.reduce((count, byte) => count + (byte < 0x09 || (byte > 0x0d && byte < 0x20) ? 1 : 0), 0);
+  // Text files may carry a stray control character, binaries are full of them
+  return controls <= sample.length * 0.01 ? "txt" : null;
+};
+
+const detectBom = (bytes: Uint8Array): TextEncoding | null => {
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) return "utf-8";
+  if (startsWith(bytes, [0xff, 0xfe])) return "utf-16le";
+  if (startsWith(bytes, [0xfe, 0xff])) return "utf-16be";
+  return null;
+};
+
+const isUtf8 = (bytes: Uint8Array) => {
+  try {
+    // Streaming so a character cut off at the end of the sample isn't an error
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const decodingScore = (bytes: Uint8Array, encoding: TextEncoding, common: string) => {
+  const text = new TextDecoder(encoding).decode(bytes);
+  let score = 0;
+  for (const char of text) {
+    if (char === "\uFFFD") score -= 10;
+    else if (common.includes(char)) score += 1;
+  }
+  return score;
+};
+
+/**
+ * Character encoding of a text file: a BOM if present, otherwise UTF-8 when
+ * the bytes are valid UTF-8, otherwise whichever of GBK and Big5 decodes to
+ * more common Chinese characters
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  const bom = detectBom(bytes);
+  if (bom) return bom;
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  if (isUtf8(sample)) return "utf-8";
+
+  const gbk = decodingScore(sample, "gbk", COMMON_SIMPLIFIED);
+  const big5 = decodingScore(sample, "big5", COMMON_TRADITIONAL);
+  return big5 > gbk ? "big5" : "gbk";
+};
+
+/**
+ * Decode a text file, dropping its BOM
+ */
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding = detectEncoding(bytes)): string =>
+  new TextDecoder(encoding).decode(bytes);
+
+// Leading indentation: ASCII spaces, tabs and the full-width space of Chinese typesetting
+const INDENT = /^[ \t\u3000]+/;
+const LATIN_END = /[A-Za-z0-9,;:]$/;
+const LATIN_START = /^[A-Za-z0-9]/;
+
+const joinWrapped = (previous: string, next: string) =>
+  LATIN_END.test(previous) && LATIN_START.test(next) ? `${previous} ${next}` : previous + next;
+
+/**
+ * Unify line endings and paragraphs: one paragraph per block, blocks separated
+ * by a blank line, indentation and trailing whitespace removed.
+ *
+ * Files that separate paragraphs with blank lines get their hard-wrapped lines
+ * joined back together; files without blank lines get one paragraph per line.
+ * Chapter headings always stand alone.
+ */
+export const normalizeText = (text: string): string => {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    // Control characters other than tab and newline
+    .replace(/[^\P{Cc}\t\n]/gu, "")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""));
+
+  const nonBlank = lines.filter(Boolean).length;
+  const blank = lines.length - nonBlank;
+  const blankSeparated = nonBlank > 0 && blank >= nonBlank * 0.3;
+
+  const paragraphs: string[] = [];
+  let current: string | null = null;
+  const flush = () => {
+    if (current) paragraphs.push(current);
+    current = null;
+  };
+
+  lines.forEach((line) => {
+    if (!line) {
+      flush();
+      return;
+    }
+    const indented = INDENT.test(line);
+    const content = line.replace(INDENT, "").replace(/[ \t]+/g, " ");
+    if (isChapterHeading(content)) {
+      flush();
+      paragraphs.push(content);
+      return;
+    }
+    if (!blankSeparated || indented || current === null) {
+      flush();
+      current = content;
+      return;
+    }
+    current = joinWrapped(current, content);
+  });
+  flush();
+
+  return paragraphs.join("\n\n");
+};
+
+const cleanName = (value: string) => value.replace(/^[《【[(（\s]+|[》】\])）\s]+$/g, "").trim();
+
+/**
+ * Title and author from the text's front matter ("书名：", "作者：", a
+ * 《title》 line) or, failing that, from file names such as `书名 - 作者.txt`
+ */
+export const extractMetadata = (fileName: string, text = ""): BookMetadata => {
+  const baseName = fileName.replace(/\.[^.]+$/, "").trim();
+  let title: string | null = null;
+  let author: string | null = null;
+
+  // Front matter ends at the first chapter heading
+  const head = text.split("\n").slice(0, 40);
+  for (const rawLine of head) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (isChapterHeading(line)) break;
+    const titleField = line.match(/^(?:书名|書名|标题|標題|title)\s*[:：]\s*(.+)$/i);
+    const authorField = line.match(/^(?:(?:作者|著者|author)\s*[:：]|by\s)\s*(.+)$/i);
+    if (titleField && !title) title = cleanName(titleField[1]);
+    else if (authorField && !author && authorField[1].length <= 30) author = cleanName(authorField[1]);
+    else if (!title && /^《[^》]+》$/.test(line)) title = cleanName(line);
+  }
+
+  // 《书名》作者, 书名 - 作者, 书名_作者, [作者]书名
+  const bracketed = baseName.match(/^《([^》]+)》\s*(?:作者[:：]?)?\s*(.*)$/);
+  const dashed = baseName.match(/^(.+?)\s*(?:\s[-–—]\s|_)\s*(.+)$/);
+  const tagged = baseName.match(/^[[【]([^\]】]+)[\]】]\s*(.+)$/);
+  const [fromName, byName] = bracketed
+    ? [bracketed[1], cleanName(bracketed[2])]
+    : tagged
+      ? [tagged[2], tagged[1]]
+      : dashed
+        ? [dashed[1], dashed[2]]
+        : [baseName, ""];
+
+  return {
+    title: title || fromName.trim() || "未命名",
+    author: author || byName.trim() || UNKNOWN_AUTHOR,
+  };
+};
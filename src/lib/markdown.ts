@@ -0,0 +1,132 @@
+/**
+ * Markdown for highlight notes: headings, emphasis, strikethrough, code,
+ * links, quotes, lists and rules. Notes are parsed into a tree and rendered as
+ * elements, never as HTML, so nothing a note says can become markup. Single
+ * line breaks are kept, as people write notes line by line.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "emphasis" | "delete"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; items: MarkdownBlock[][] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^([-*+]|\d+[.)])\s+(.*)$/;
+// Continuation lines of a list item are indented under it
+const INDENTED = /^(\t| {2,4})/;
+
+// Links may only lead out of the app, not run script
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+const INLINE_RULES: Array<{ pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }> = [
+  { pattern: /`([^`\n]+)`/, build: (match) => ({ type: "code", text: match[1] }) },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/,
+    build: (match) =>
+      SAFE_HREF.test(match[2])
+        ? { type: "link", href: match[2], children: parseInline(match[1]) }
+        : { type: "text", text: match[1] },
+  },
+  {
+    pattern: /\*\*(.+?)\*\*|__(.+?)__/,
+    build: (match) => ({ type: "strong", children: parseInline(match[1] ?? match[2]) }),
+  },
+  { pattern: /~~(.+?)~~/, build: (match) => ({ type: "delete", children: parseInline(match[1]) }) },
+  {
+    pattern: /\*([^*\s](?:.*?[^*\s])?)\*|_([^_\s](?:.*?[^_\s])?)_/,
+    build: (match) => ({ type: "emphasis", children: parseInline(match[1] ?? match[2]) }),
+  },
+];
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) nodes.push({ type: "break" });
+    if (line) nodes.push({ type: "text", text: line });
+  });
+};
+
+/**
+ * Inline Markdown: whichever construct starts first wins, and its contents are
+ * parsed in turn
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    let first: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | null = null;
+    for (const { pattern, build } of INLINE_RULES) {
+      const match = pattern.exec(rest);
+      if (match && (!first || match.index < first.match.index)) first = { match, build };
+    }
+    if (!first) break;
+    pushText(nodes, rest.slice(0, first.match.index));
+    nodes.push(first.build(first.match));
+    rest = rest.slice(first.match.index + first.match[0].length);
+  }
+  pushText(nodes, rest);
+  return nodes;
+};
+
+// Whether a line starts a block other than a paragraph
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+const parseLines = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      for (index++; index < lines.length && !FENCE.test(lines[index]); index++) code.push(lines[index]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      index++;
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line);
+      blocks.push({ type: "heading", level: hashes.length, children: parseInline(text) });
+      index++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      index++;
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; index < lines.length && QUOTE.test(lines[index]); index++) quoted.push(lines[index].replace(QUOTE, ""));
+      blocks.push({ type: "quote", children: parseLines(quoted) });
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /^\d/.test(line);
+      const items: string[][] = [];
+      for (; index < lines.length; index++) {
+        const item = LIST_ITEM.exec(lines[index]);
+        if (item && /^\d/.test(item[1]) === ordered) items.push([item[2]]);
+        else if (INDENTED.test(lines[index]) && lines[index].trim()) {
+          items[items.length - 1].push(lines[index].replace(INDENTED, ""));
+        } else break;
+      }
+      blocks.push({ type: "list", ordered, items: items.map(parseLines) });
+    } else {
+      const paragraph: string[] = [];
+      for (; index < lines.length && lines[index].trim() && !startsBlock(lines[index]); index++) {
+        paragraph.push(lines[index].trim());
+      }
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+    }
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseLines(text.replace(/\r\n?/g, "\n").split("\n"));
@@ -0,0 +1,267 @@
+/**
+ * PDF text layer
+ *
+ * Extracts the text of each page with pdf.js, removes running headers,
+ * footers and page numbers, joins hyphenated and hard-wrapped lines into
+ * paragraphs, and remembers where each page starts in the resulting text so
+ * offsets can be turned back into page numbers.
+ */
+import { isChapterHeading, paragraphOffsets } from "./chapters";
+
+export interface PdfLine {
+  text: string;
+  /** Left edge and top, in points from the page's top-left corner */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageLayer {
+  pageNumber: number;
+  /** Printed page label, such as "iv" or "12" */
+  label: string;
+  lines: PdfLine[];
+}
+
+export interface PdfPageSpan {
+  pageNumber: number;
+  label: string;
+  /** Character offset of the page's first text in the cleaned text */
+  offset: number;
+}
+
+export interface PdfText {
+  text: string;
+  pages: PdfPageSpan[];
+}
+
+export interface PdfLocation {
+  pageNumber: number;
+  label: string;
+  /** Characters from the start of the page */
+  position: number;
+}
+
+export interface PdfDocumentText {
+  pages: PdfPageLayer[];
+  title: string;
+  author: string;
+}
+
+const CJK = /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef\u3000-\u303f]/;
+const SENTENCE_END = /[。！？…」』”’）.!?:："')]$/;
+const PAGE_NUMBER =
+  /^[\s\-–—·.[\]()]*((第\s*)?[\d零〇一二三四五六七八九十百千]+(\s*页)?|[ivxlcdm]+|(page\s*)?\d+(\s*(of|\/)\s*\d+)?)[\s\-–—·.[\]()]*$/i;
+
+// Lines this close to the top or bottom of a page may be running headers or footers
+const EDGE_LINES = 2;
+
+/**
+ * Read the text layer of every page. pdf.js is loaded on first use so it
+ * stays out of the main bundle.
+ */
+export const extractTextLayer = async (
+  bytes: Uint8Array,
+  onProgress?: (progress: number) => void
+): Promise<PdfDocumentText> => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  // pdf.js takes ownership of the buffer it's given
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  try {
+    const [labels, metadata] = await Promise.all([pdf.getPageLabels(), pdf.getMetadata().catch(() => null)]);
+    const info = (metadata?.info ?? {}) as Record<string, unknown>;
+    const pages: PdfPageLayer[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { height } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.flatMap((item) =>
+        "str" in item && item.str
+          ? [
+              {
+                text: item.str,
+                x: item.transform[4] as number,
+                y: height - (item.transform[5] as number) - (item.height || Math.abs(item.transform[3])),
+                width: item.width,
+                height: item.height || Math.abs(item.transform[3]),
+              },
+            ]
+          : []
+      );
+      pages.push({ pageNumber, label: labels?.[pageNumber - 1] || String(pageNumber), lines: groupLines(items) });
+      page.cleanup();
+      onProgress?.(Math.round((pageNumber / pdf.numPages) * 100));
+    }
+
+    return {
+      pages,
+      title: typeof info.Title === "string" ? info.Title.trim() : "",
+      author: typeof info.Author === "string" ? info.Author.trim() : "",
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Merge text runs that share a baseline into lines, in reading order
+ */
+export const groupLines = (items: PdfLine[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  items.forEach((item) => {
+    const line = lines[lines.length - 1];
+    const sameLine = line && Math.abs(line.y - item.y) < Math.max(line.height, item.height) * 0.5 && item.x >= line.x;
+    if (!sameLine) {
+      lines.push({ ...item });
+      return;
+    }
+    const gap = item.x - (line.x + line.width);
+    const needsSpace =
+      gap > item.height * 0.25 &&
+      !/\s$/.test(line.text) &&
+      !/^\s/.test(item.text) &&
+      !CJK.test(line.text.slice(-1)) &&
+      !CJK.test(item.text[0]);
+    line.text += (needsSpace ? " " : "") + item.text;
+    line.width = item.x + item.width - line.x;
+    line.height = Math.max(line.height, item.height);
+  });
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text);
+};
+
+// Page numbers inside a running header vary from page to page
+const signature = (text: string) => text.replace(/\d+/g, "#").replace(/\s+/g, "").toLowerCase();
+
+/**
+ * Drop page numbers and lines repeated at the top or bottom of several pages
+ */
+export const stripRunningHeaders = (pages: PdfPageLayer[]): PdfPageLayer[] => {
+  const counts = new Map<string, number>();
+  pages.forEach(({ lines }) => {
+    const edges = new Set([
+      ...lines.slice(0, EDGE_LINES).map((line) => `top:${signature(line.text)}`),
+      ...lines.slice(-EDGE_LINES).map((line) => `bottom:${signature(line.text)}`),
+    ]);
+    edges.forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  const minimum = Math.max(2, Math.min(3, pages.length));
+  const isRunning = (line: PdfLine, edge: "top" | "bottom") =>
+    PAGE_NUMBER.test(line.text) || (counts.get(`${edge}:${signature(line.text)}`) || 0) >= minimum;
+
+  return pages.map((page) => {
+    let start = 0;
+    let end = page.lines.length;
+    while (start < Math.min(EDGE_LINES, end) && isRunning(page.lines[start], "top")) start++;
+    while (end > Math.max(start, page.lines.length - EDGE_LINES) && isRunning(page.lines[end - 1], "bottom")) end--;
+    return { ...page, lines: page.lines.slice(start, end) };
+  });
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Join lines into paragraphs separated by blank lines, like normalized
+ * plain text. Hyphenated words are rejoined and a paragraph that runs over a
+ * page break stays whole.
+ */
+export const reflowPages = (pages: PdfPageLayer[]): PdfText => {
+  let text = "";
+  let previous: PdfLine | null = null;
+  const spans: PdfPageSpan[] = [];
+
+  pages.forEach(({ pageNumber, label, lines }) => {
+    const left = Math.min(...lines.map((line) => line.x));
+    const right = Math.max(...lines.map((line) => line.x + line.width));
+    const spacing = median(lines.slice(1).map((line, index) => line.y - lines[index].y).filter((gap) => gap > 0));
+    let pageOffset: number | null = null;
+
+    lines.forEach((line, index) => {
+      const samePage = index > 0;
+      const endsParagraph =
+        !previous ||
+        isChapterHeading(line.text) ||
+        isChapterHeading(previous.text) ||
+        line.x - left > line.height * 0.9 ||
+        /^(\u3000|\s{2})/.test(line.text) ||
+        (samePage && spacing > 0 && line.y - previous.y > spacing * 1.6) ||
+        (SENTENCE_END.test(previous.text) && previous.x + previous.width < right - previous.height * 2);
+
+      if (endsParagraph) {
+        if (text) text += "\n\n";
+      } else if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+        text = text.slice(0, -1);
+      } else if (!CJK.test(text.slice(-1)) && !CJK.test(line.text[0])) {
+        text += " ";
+      }
+      if (pageOffset === null) pageOffset = text.length;
+      text += line.text.trim();
+      previous = line;
+    });
+
+    spans.push({ pageNumber, label, offset: pageOffset ?? text.length });
+  });
+
+  return { text, pages: spans };
+};
+
+/**
+ * Extract, clean and reflow a PDF in one go
+ */
+export const readPdfText = async (bytes: Uint8Array, onProgress?: (progress: number) => void) => {
+  const document = await extractTextLayer(bytes, onProgress);
+  return { ...reflowPages(stripRunningHeaders(document.pages)), title: document.title, author: document.author };
+};
+
+/**
+ * The page holding a character offset of the cleaned text
+ */
+export const locateOffset = (pages: PdfPageSpan[], offset: number): PdfLocation | null => {
+  let low = 0;
+  let high = pages.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (pages[middle].offset <= offset) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (found < 0) return null;
+  const page = pages[found];
+  return { pageNumber: page.pageNumber, label: page.label, position: offset - page.offset };
+};
+
+/**
+ * Page labels to show beside paragraphs, keyed by paragraph index. A
+ * paragraph spanning several page starts shows the range.
+ */
+export const pageLabelsByParagraph = (pages: PdfPageSpan[], text: string): Record<number, string> => {
+  const offsets = paragraphOffsets(text);
+  const starts: Record<number, PdfPageSpan[]> = {};
+  let paragraph = 0;
+  pages.forEach((page) => {
+    while (paragraph + 1 < offsets.length && offsets[paragraph + 1] <= page.offset) paragraph++;
+    (starts[paragraph] = starts[paragraph] || []).push(page);
+  });
+  return Object.fromEntries(
+    Object.entries(starts).map(([index, spans]) => [
+      index,
+      spans.length > 1 ? `${spans[0].label}–${spans[spans.length - 1].label}` : spans[0].label,
+    ])
+  );
+};
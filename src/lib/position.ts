@@ -0,0 +1,65 @@
+/**
+ * Reading positions across devices. Every device reports where the reader is;
+ * the backend keeps the most recent report, and each device remembers its own
+ * last place so opening a book never silently jumps away from it.
+ */
+import type { ReadingPosition } from "@/services/generated/models";
+
+/** A place in a book and the share of the book before it */
+export interface PlaceRead {
+  position: ReadingPosition;
+  progress: number;
+}
+
+// Characters per minute of silent reading, for estimating the time left
+export const READING_SPEED = 400;
+
+const reportedAt = (place: PlaceRead) => (place.position.updatedAt ? Date.parse(place.position.updatedAt) : NaN);
+
+/**
+ * Whether `a` supersedes `b`: the later report, or the one further into the
+ * book when either was saved before reports were timed
+ */
+export const isLater = (a: PlaceRead, b: PlaceRead) => {
+  const at = reportedAt(a);
+  const bt = reportedAt(b);
+  if (!Number.isNaN(at) && !Number.isNaN(bt) && at !== bt) return at > bt;
+  return a.progress > b.progress;
+};
+
+/** Same block of the same chapter; a few characters apart isn't worth asking about */
+export const samePlace = (a: ReadingPosition, b: ReadingPosition) =>
+  (a.chapter ?? null) === (b.chapter ?? null) && a.block === b.block;
+
+/**
+ * Where to open a book, from this device's last place and the backend's.
+ * A newer place from another device isn't opened directly but returned as
+ * `elsewhere`, for the reader to jump to if they want.
+ */
+export const resolvePlaces = (
+  local: PlaceRead | null,
+  remote: PlaceRead | null,
+  device: string
+): { open: PlaceRead | null; elsewhere: PlaceRead | null } => {
+  if (!local || !remote) return { open: local ?? remote, elsewhere: null };
+  if (samePlace(local.position, remote.position) || !isLater(remote, local)) return { open: local, elsewhere: null };
+  // This device's own report, e.g. from before its local storage was cleared
+  if (remote.position.device === device) return { open: remote, elsewhere: null };
+  return { open: local, elsewhere: remote };
+};
+
+/**
+ * Minutes left to read, or null when the book's length isn't known
+ */
+export const readingTimeLeft = (totalChars: number | null | undefined, progress: number) => {
+  if (!totalChars) return null;
+  return Math.ceil((totalChars * Math.max(0, 1 - progress)) / READING_SPEED);
+};
+
+export const formatTimeLeft = (minutes: number) => {
+  if (minutes < 1) return "即将读完";
+  if (minutes < 60) return `还剩 ${minutes} 分钟`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `还剩 ${hours} 小时 ${rest} 分钟` : `还剩 ${hours} 小时`;
+};
@@ -0,0 +1,246 @@
+/**
+ * Find-in-book. Matching ignores case and character width, so "ＡＢＣ" finds
+ * "abc" and a full-width "，" finds ","; hits are offsets into the blocks'
+ * own text, the same offsets highlights and reading positions use.
+ */
+import type { ChapterBlock } from "@/lib/chapters";
+
+export interface SearchOptions {
+  /** Only hits that aren't part of a longer word */
+  wholeWord: boolean;
+  /** Treat the query as a regular expression */
+  regex: boolean;
+}
+
+/** A run of blocks searched and listed together, e.g. a chapter */
+export interface SearchSection {
+  title: string;
+  /** Spine position, for EPUB chapters */
+  chapterIndex?: number;
+  /** Index of the first block in the reading view */
+  start: number;
+  texts: string[];
+}
+
+/** Sections with their text folded for matching, see `prepareSections` */
+export interface PreparedSection extends SearchSection {
+  folded: string[];
+}
+
+export interface SearchHit {
+  /** Index into the searched sections */
+  section: number;
+  /** Block index in the reading view */
+  block: number;
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  /** More hits were found than are listed */
+  truncated: boolean;
+}
+
+export class SearchPatternError extends Error {
+  constructor(public readonly pattern: string, message: string) {
+    super(message);
+    this.name = "SearchPatternError";
+  }
+}
+
+// Long books can match almost anything; past this many hits only the first are listed
+export const MAX_HITS = 1000;
+
+// CJK punctuation outside the full-width forms block, and the matching ASCII
+const PUNCTUATION: Record<string, string> = {
+  "　": " ",
+  "。": ".",
+  "｡": ".",
+  "、": ",",
+  "､": ",",
+  "“": '"',
+  "”": '"',
+  "「": '"',
+  "」": '"',
+  "『": '"',
+  "』": '"',
+  "｢": '"',
+  "｣": '"',
+  "‘": "'",
+  "’": "'",
+  "【": "[",
+  "】": "]",
+  "〔": "[",
+  "〕": "]",
+  "《": "<",
+  "》": ">",
+  "〈": "<",
+  "〉": ">",
+};
+
+const WIDE = new RegExp(`[\\uff01-\\uff5e${Object.keys(PUNCTUATION).join("")}]`, "g");
+const SYNTAX = /[\\^$.*+?()[\]{}|/-]/;
+
+const narrow = (character: string) => {
+  const code = character.charCodeAt(0);
+  return code >= 0xff01 && code <= 0xff5e ? String.fromCharCode(code - 0xfee0) : PUNCTUATION[character];
+};
+
+/**
+ * Text as it's matched: half-width and lower case. Every character maps to
+ * one character, so offsets into the folded text are offsets into the original.
+ */
+export const foldText = (text: string) => {
+  const narrowed = text.replace(WIDE, narrow);
+  const lower = narrowed.toLowerCase();
+  if (lower.length === narrowed.length) return lower;
+  // A few letters lower-case to two characters; they're left as they are
+  return narrowed.replace(/[\s\S]/g, (character) => {
+    const folded = character.toLowerCase();
+    return folded.length === 1 ? folded : character;
+  });
+};
+
+const escapeRegExp = (text: string) => text.replace(new RegExp(SYNTAX.source, "g"), "\\$&");
+
+/**
+ * A global pattern for a query, matched against folded text
+ */
+export const buildMatcher = (query: string, options: SearchOptions): RegExp => {
+  if (!options.regex) return new RegExp(escapeRegExp(foldText(query)), "g");
+  // Full-width characters typed into a pattern stay literal once narrowed
+  const pattern = query.replace(WIDE, (character) => {
+    const narrowed = narrow(character);
+    return SYNTAX.test(narrowed) ? `\\${narrowed}` : narrowed;
+  });
+  try {
+    return new RegExp(pattern, "gi");
+  } catch (error) {
+    throw new SearchPatternError(query, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const WORD = /[\p{L}\p{N}_]/u;
+// Chinese and Japanese aren't written with spaces, so their characters always end a word
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+const joined = (before: string | undefined, after: string | undefined) =>
+  !!before && !!after && WORD.test(before) && WORD.test(after) && !UNSPACED.test(before) && !UNSPACED.test(after);
+
+/**
+ * Where a pattern from `buildMatcher` matches one folded text
+ */
+export const findMatches = (folded: string, matcher: RegExp, wholeWord = false) => {
+  const matches: Array<{ start: number; end: number }> = [];
+  matcher.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = matcher.exec(folded))) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (end === start) {
+      matcher.lastIndex++;
+      continue;
+    }
+    if (wholeWord && (joined(folded[start - 1], folded[start]) || joined(folded[end - 1], folded[end]))) continue;
+    matches.push({ start, end });
+  }
+  return matches;
+};
+
+/**
+ * Fold every block once, so each search only runs the pattern
+ */
+export const prepareSections = (sections: SearchSection[]): PreparedSection[] =>
+  sections.map((section) => ({ ...section, folded: section.texts.map(foldText) }));
+
+/**
+ * Every hit of a query, in reading order. Throws `SearchPatternError` for an
+ * invalid regular expression.
+ */
+export const searchBook = (
+  sections: PreparedSection[],
+  query: string,
+  options: SearchOptions,
+  limit = MAX_HITS
+): SearchResult => {
+  const hits: SearchHit[] = [];
+  if (!query) return { hits, truncated: false };
+  const matcher = buildMatcher(query, options);
+  for (let section = 0; section < sections.length; section++) {
+    const { folded, start } = sections[section];
+    for (let index = 0; index < folded.length; index++) {
+      for (const match of findMatches(folded[index], matcher, options.wholeWord)) {
+        if (hits.length === limit) return { hits, truncated: true };
+        hits.push({ section, block: start + index, ...match });
+      }
+    }
+  }
+  return { hits, truncated: false };
+};
+
+/**
+ * A plain-text book split at its chapters; text before the first chapter is
+ * listed under the book's title
+ */
+export const textSections = (blocks: string[], chapters: ChapterBlock[] = [], title = ""): SearchSection[] => {
+  const starts = chapters
+    .filter((chapter) => chapter.blockIndex < blocks.length)
+    .sort((a, b) => a.blockIndex - b.blockIndex);
+  if (!starts.length || starts[0].blockIndex > 0) starts.unshift({ title, level: 1, blockIndex: 0 });
+  return starts
+    .map((chapter, index) => {
+      const end = starts[index + 1]?.blockIndex ?? blocks.length;
+      return { title: chapter.title, start: chapter.blockIndex, texts: blocks.slice(chapter.blockIndex, end) };
+    })
+    .filter((section) => section.texts.length > 0);
+};
+
+// Characters of context shown on each side of a hit
+const CONTEXT = 24;
+
+/**
+ * The text around a hit, for listing it
+ */
+export const hitContext = (text: string, start: number, end: number, radius = CONTEXT) => {
+  const from = Math.max(0, start - radius);
+  const to = Math.min(text.length, end + radius);
+  const flatten = (part: string) => part.replace(/\s+/g, " ");
+  return {
+    before: (from > 0 ? "…" : "") + flatten(text.slice(from, start)).trimStart(),
+    match: text.slice(start, end),
+    after: flatten(text.slice(end, to)).trimEnd() + (to < text.length ? "…" : ""),
+  };
+};
+
+/** A passage a link into the reader asks it to find and show, see `findLink` */
+export interface FindTarget {
+  query: string;
+  /** Paragraph of the book's plain text, and the match's offset in it */
+  block: number;
+  offset: number;
+  /** Which occurrence of the query it is, for books whose reading view splits paragraphs differently */
+  occurrence: number | null;
+}
+
+/**
+ * Reader URL that opens a book at a passage, with find-in-book showing the query
+ */
+export const findLink = (bookId: string, target: FindTarget) => {
+  const params = new URLSearchParams({ q: target.query, block: String(target.block), offset: String(target.offset) });
+  if (target.occurrence !== null) params.set("n", String(target.occurrence));
+  return `/reader/${bookId}?${params}`;
+};
+
+export const parseFindTarget = (params: URLSearchParams): FindTarget | null => {
+  const query = params.get("q");
+  const block = Number(params.get("block"));
+  if (!query || !Number.isInteger(block)) return null;
+  const occurrence = params.has("n") ? Number(params.get("n")) : NaN;
+  return {
+    query,
+    block,
+    offset: Number(params.get("offset")) || 0,
+    occurrence: Number.isInteger(occurrence) ? occurrence : null,
+  };
+};
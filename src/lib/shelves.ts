@@ -0,0 +1,76 @@
+/**
+ * Bookshelf grouping. Collections and tags are the reader's own; smart
+ * shelves are worked out from each book's reading and audiobook state.
+ */
+import type { Book } from "@/services/generated/models";
+
+export type SmartShelf = "reading" | "audio" | "unread" | "recent";
+
+export const SMART_SHELVES: Array<{ id: SmartShelf; label: string }> = [
+  { id: "reading", label: "在读" },
+  { id: "audio", label: "有声书已完成" },
+  { id: "unread", label: "未开始" },
+  { id: "recent", label: "最近添加" },
+];
+
+/** What the bookshelf is showing */
+export type Shelf =
+  | { kind: "all" }
+  | { kind: "smart"; id: SmartShelf }
+  | { kind: "collection"; id: string }
+  | { kind: "tag"; tag: string };
+
+export type BookSort = "last_opened_at" | "created_at" | "title" | "author" | "progress";
+
+export const BOOK_SORTS: Array<{ id: BookSort; label: string }> = [
+  { id: "last_opened_at", label: "最近阅读" },
+  { id: "created_at", label: "添加时间" },
+  { id: "title", label: "书名" },
+  { id: "author", label: "作者" },
+  { id: "progress", label: "阅读进度" },
+];
+
+// Books added within this many days are on the "recently added" shelf
+export const RECENT_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const onSmartShelf = (book: Book, shelf: SmartShelf, now = Date.now()) => {
+  switch (shelf) {
+    case "reading":
+      return book.progress > 0 && book.progress < 1;
+    case "audio":
+      return !!book.audioReady;
+    case "unread":
+      return book.progress <= 0;
+    case "recent":
+      return now - Date.parse(book.createdAt) <= RECENT_DAYS * DAY;
+  }
+};
+
+export const onShelf = (book: Book, shelf: Shelf, now = Date.now()) => {
+  switch (shelf.kind) {
+    case "all":
+      return true;
+    case "smart":
+      return onSmartShelf(book, shelf.id, now);
+    case "collection":
+      return !!book.collectionIds?.includes(shelf.id);
+    case "tag":
+      return !!book.tags?.includes(shelf.tag);
+  }
+};
+
+/** Every tag in use, in the reader's alphabet */
+export const bookTags = (books: Book[]) =>
+  [...new Set(books.flatMap((book) => book.tags ?? []))].sort((a, b) => a.localeCompare(b, "zh-CN"));
+
+/** Tags typed into one field, split at commas or spaces */
+export const parseTags = (input: string) => [
+  ...new Set(
+    input
+      .split(/[,，、\s]+/)
+      .map((tag) => tag.replace(/^#/, "").trim())
+      .filter(Boolean)
+  ),
+];
@@ -0,0 +1,201 @@
+/**
+ * Minimal ZIP reader and writer
+ * Enough of the format for EPUB containers and library backups: stored and
+ * deflated entries are read, inflated with the browser's DecompressionStream;
+ * archives are written with stored entries only
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  /** Offset of the entry's local file header */
+  headerOffset: number;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+const utf8 = new TextDecoder("utf-8");
+const encoder = new TextEncoder();
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream("deflate-raw"));
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+  const output = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+};
+
+export class ZipArchive {
+  readonly entries: Map<string, ZipEntry>;
+  private bytes: Uint8Array;
+  private view: DataView;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.entries = this.readCentralDirectory();
+  }
+
+  has(path: string) {
+    return this.entries.has(path);
+  }
+
+  async read(path: string): Promise<Uint8Array> {
+    const entry = this.entries.get(path);
+    if (!entry) throw new ZipError(`${path} is missing from the archive`);
+
+    // The local header repeats the name and may carry its own extra field
+    if (this.view.getUint32(entry.headerOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`Corrupt local header for ${path}`);
+    }
+    const nameLength = this.view.getUint16(entry.headerOffset + 26, true);
+    const extraLength = this.view.getUint16(entry.headerOffset + 28, true);
+    const start = entry.headerOffset + 30 + nameLength + extraLength;
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATED) return inflate(data);
+    throw new ZipError(`Unsupported compression method ${entry.method} for ${path}`);
+  }
+
+  async readText(path: string): Promise<string> {
+    return utf8.decode(await this.read(path));
+  }
+
+  private readCentralDirectory(): Map<string, ZipEntry> {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+    const minimum = Math.max(0, this.bytes.length - 22 - 0xffff);
+    let end = -1;
+    for (let offset = this.bytes.length - 22; offset >= minimum; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end < 0) throw new ZipError("Not a ZIP archive");
+
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new ZipError("Corrupt central directory");
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const path = utf8.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+      entries.set(path, {
+        path,
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        size: this.view.getUint32(offset + 24, true),
+        headerOffset: this.view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * A ZIP archive of stored entries, in the given order
+ */
+export const buildZip = (files: Array<[path: string, content: string | Uint8Array]>): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(([path, content]) => {
+    const name = new Uint8Array(encoder.encode(path));
+    const data = typeof content === "string" ? new Uint8Array(encoder.encode(content)) : content;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const header = new DataView(local.buffer);
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true); // UTF-8 names
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const entry = new DataView(central.buffer);
+    entry.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const directorySize = centrals.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const record = new DataView(end.buffer);
+  record.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  record.setUint16(8, files.length, true);
+  record.setUint16(10, files.length, true);
+  record.setUint32(12, directorySize, true);
+  record.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    zip.set(part, position);
+    return position + part.length;
+  }, 0);
+  return zip;
+};
@@ -2,4 +2,14 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// The mock backend is only bundled when it's switched on
+const prepare = async () => {
+  if (import.meta.env.VITE_MOCK_API === "true") {
+    const { installMockBackend } = await import("./mocks");
+    installMockBackend();
+  }
+};
+
+prepare().then(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
@@ -0,0 +1,112 @@
+/**
+ * Deterministic fake audio
+ * Short WAV tones derived from the text, so the same input always yields the same clip
+ */
+
+const SAMPLE_RATE = 8000;
+// Roughly the pace of Mandarin narration
+const SECONDS_PER_CHAR = 0.22;
+const MIN_DURATION = 0.5;
+const MAX_DURATION = 30;
+
+export interface FakeAudio {
+  /** data: URL playable by <audio> and fetch() */
+  url: string;
+  /** Seconds, rounded to 0.1 */
+  duration: number;
+  sampleRate: number;
+}
+
+/**
+ * FNV-1a hash of a string, used to pick the tone of a clip
+ */
+export const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Length of the clip the mock TTS produces for `text`
+ */
+export const speechDuration = (text: string): number => {
+  const seconds = Math.min(MAX_DURATION, Math.max(MIN_DURATION, text.trim().length * SECONDS_PER_CHAR));
+  return Math.round(seconds * 10) / 10;
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * 8-bit mono PCM WAV file with a quiet sine tone
+ */
+export const createWav = (duration: number, frequency: number): Uint8Array => {
+  const samples = Math.round(duration * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + samples, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true); // byte rate
+  view.setUint16(32, 1, true); // block align
+  view.setUint16(34, 8, true); // bits per sample
+  writeString(view, 36, "data");
+  view.setUint32(40, samples, true);
+
+  for (let i = 0; i < samples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    view.setUint8(44 + i, 128 + Math.round(sample * 24));
+  }
+  return new Uint8Array(buffer);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  // Stay well below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toneFor = (text: string) => 220 + (hashText(text) % 440);
+
+/**
+ * Clip of a given length whose tone depends on `seed`
+ */
+export const fakeAudio = (seed: string, duration: number): FakeAudio => {
+  const wav = createWav(duration, toneFor(seed));
+  return { url: `data:audio/wav;base64,${toBase64(wav)}`, duration, sampleRate: SAMPLE_RATE };
+};
+
+/**
+ * What the mock TTS "says" for `text`
+ */
+export const fakeSpeech = (text: string): FakeAudio => fakeAudio(text, speechDuration(text));
+
+/**
+ * Same clip as fakeSpeech, as a Blob for binary responses
+ */
+export const fakeSpeechBlob = (text: string): Blob =>
+  new Blob([createWav(speechDuration(text), toneFor(text))], { type: "audio/wav" });
+
+/**
+ * Decode a clip's data: URL back into a file for downloads
+ */
+export const audioBlob = (url: string): Blob => {
+  const binary = atob(url.slice(url.indexOf(",") + 1));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new Blob([bytes], { type: "audio/wav" });
+};
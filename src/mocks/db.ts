@@ -0,0 +1,426 @@
+/**
+ * In-memory state of the mock backend
+ */
+import type {
+  BookChapterDto,
+  BookDto,
+  BookmarkDto,
+  BookPageDto,
+  ChunkDto,
+  CollectionDto,
+  HighlightDto,
+  ProjectDto,
+  ScriptEntryDto,
+  ThoughtDto,
+} from "@/services/generated/schemas";
+import type { VoiceConfig } from "@/services/voices";
+import type { DatasetSample, TrainingProgress } from "@/services/lora";
+import type { UploadPurpose } from "@/services/uploads";
+import type { SoundEffect, SoundEffectPack, SoundEffectTemplate } from "@/services/soundEffects";
+import { chapterAt, chapterPath, detectChapters } from "@/lib/chapters";
+import { textSignature } from "@/lib/fingerprint";
+import { describeRange } from "@/lib/anchoring";
+import { fakeAudio, fakeSpeech, type FakeAudio } from "./audio";
+import { buildEpub, chaptersFromText } from "./epub";
+import {
+  DEMO_USER,
+  SEED_BOOKS,
+  SEED_HIGHLIGHTS,
+  SEED_RAG_DOCUMENTS,
+  SEED_THOUGHTS,
+  SEED_TIME,
+  SYSTEM_CONFIG,
+  SOUND_EFFECT_PACKS,
+  SOUND_EFFECT_TEMPLATES,
+} from "./fixtures";
+
+export interface MockUser {
+  id: string;
+  email: string;
+  username: string;
+  password: string;
+  created_at: string;
+}
+
+/**
+ * `file` is the uploaded original, kept for formats the reader parses itself;
+ * `pages` maps a PDF's pages onto `content`; `chapters` are set once the
+ * client sends its own; `text_signature` is the MinHash of the text, for
+ * finding duplicates
+ */
+export type MockBook = BookDto & {
+  content: string;
+  file?: Blob;
+  pages?: BookPageDto[];
+  chapters?: BookChapterDto[];
+  text_signature?: number[];
+};
+
+export interface MockScript {
+  id: string;
+  project_id: string;
+  status: "not_started" | "generating" | "approved" | "failed";
+  content: ScriptEntryDto[];
+  error_message: string | null;
+  created_at: string;
+}
+
+export interface MockRagDocument {
+  doc_id: string;
+  metadata: Record<string, unknown>;
+  chunks: string[];
+}
+
+export interface MockUpload {
+  upload_id: string;
+  purpose: UploadPurpose;
+  filename: string;
+  size: number;
+  mime_type: string;
+  chunk_size: number;
+  total_chunks: number;
+  chunks: Map<number, Blob>;
+  created_at: string;
+}
+
+export interface MockTrainingJob {
+  progress: TrainingProgress;
+  voice_name: string;
+}
+
+// Characters kept per RAG chunk
+export const RAG_CHUNK_SIZE = 120;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const now = () => new Date().toISOString();
+
+/** Everything in the mock backend belongs to the demo account */
+export const DEMO_USER_ID = DEMO_USER.id;
+
+/**
+ * Chapters of a book as the backend reports them: the reader's corrections
+ * when there are any, otherwise detected from the text
+ */
+export const bookChapters = (book: MockBook): BookChapterDto[] =>
+  book.chapters ??
+  detectChapters(book.content).map(({ index, title, offset, level }) => ({ index, title, offset, level }));
+
+const speakerOf = (paragraph: string): string => {
+  if (!paragraph.includes("“")) return "旁白";
+  const afterQuote = paragraph.match(/”([一-龥]{2})/);
+  if (afterQuote) return afterQuote[1];
+  const beforeQuote = paragraph.match(/([一-龥]{2})(?:问|说|喊|道)[:：]?“/);
+  return beforeQuote ? beforeQuote[1] : "角色";
+};
+
+const emotionOf = (paragraph: string): string =>
+  /[？?]/.test(paragraph) ? "疑问" : /[！!]/.test(paragraph) ? "激动" : "平静";
+
+/**
+ * What the mock LLM turns a book into: one entry per paragraph, speakers
+ * guessed from the quote marks, each entry's chapter path as its section
+ */
+export const draftScript = (
+  content: string,
+  detectEmotions = true,
+  chapters: Array<{ title: string; offset: number; level?: number | null }> = detectChapters(content)
+): ScriptEntryDto[] => {
+  const entries: ScriptEntryDto[] = [];
+  const paragraphs: Array<{ text: string; offset: number }> = [];
+  const addParagraph = (raw: string, start: number) =>
+    paragraphs.push({ text: raw.trim(), offset: start + raw.length - raw.trimStart().length });
+  let start = 0;
+  for (const separator of content.matchAll(/\n\s*\n/g)) {
+    addParagraph(content.slice(start, separator.index), start);
+    start = separator.index + separator[0].length;
+  }
+  addParagraph(content.slice(start), start);
+
+  paragraphs
+    .filter((paragraph) => paragraph.text)
+    .forEach(({ text, offset }) => {
+      const chapter = chapterAt(chapters, offset);
+      // A heading on a line of its own isn't read out as narration
+      if (chapter >= 0 && chapters[chapter].offset === offset && !text.includes("\n")) return;
+      const speaker = speakerOf(text);
+      entries.push({
+        index: entries.length,
+        speaker,
+        text,
+        instruct: speaker === "旁白" ? "平稳的叙述语气" : undefined,
+        emotion: detectEmotions ? emotionOf(text) : undefined,
+        section: chapter >= 0 ? chapterPath(chapters, chapter).join(" / ") : undefined,
+      });
+    });
+  return entries;
+};
+
+export const splitIntoRagChunks = (text: string): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += RAG_CHUNK_SIZE) {
+    chunks.push(text.slice(i, i + RAG_CHUNK_SIZE));
+  }
+  return chunks.length ? chunks : [""];
+};
+
+export class MockDb {
+  users: MockUser[] = [];
+  books: MockBook[] = [];
+  projects: ProjectDto[] = [];
+  scripts: Map<string, MockScript> = new Map();
+  chunks: ChunkDto[] = [];
+  voiceConfigs: Map<string, VoiceConfig[]> = new Map();
+  highlights: HighlightDto[] = [];
+  bookmarks: BookmarkDto[] = [];
+  collections: CollectionDto[] = [];
+  thoughts: ThoughtDto[] = [];
+  ragDocuments: MockRagDocument[] = [];
+  soundEffectPacks: SoundEffectPack[] = [];
+  soundEffectTemplates: SoundEffectTemplate[] = [];
+  customEffects: Map<string, SoundEffect> = new Map();
+  config = clone(SYSTEM_CONFIG);
+  trainingJobs: Map<string, MockTrainingJob> = new Map();
+  datasetSamples: Map<string, DatasetSample[]> = new Map();
+  uploads: Map<string, MockUpload> = new Map();
+  requestCounts: Map<string, number> = new Map();
+
+  private counters: Map<string, number> = new Map();
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Count a request against the user's rate limit and quota
+   */
+  recordRequest(userId: string) {
+    this.requestCounts.set(userId, (this.requestCounts.get(userId) ?? 0) + 1);
+  }
+
+  /**
+   * Sequential, reset-stable IDs such as `book-3`
+   */
+  nextId(kind: string): string {
+    const next = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, next);
+    return `${kind}-${next}`;
+  }
+
+  /**
+   * Back to the seeded fixtures
+   */
+  reset() {
+    this.counters = new Map([
+      ["user", 1],
+      ["book", SEED_BOOKS.length],
+      ["highlight", SEED_HIGHLIGHTS.length],
+      ["thought", SEED_THOUGHTS.length],
+    ]);
+    this.users = [{ ...DEMO_USER, created_at: SEED_TIME }];
+    this.books = SEED_BOOKS.map(({ content, ...book }) => ({
+      ...book,
+      user_id: DEMO_USER_ID,
+      cover_url: null,
+      total_pages: null,
+      total_chars: content.length,
+      file_hash: null,
+      tags: [],
+      collection_ids: [],
+      last_opened_at: null,
+      created_at: SEED_TIME,
+      updated_at: SEED_TIME,
+      content,
+      text_signature: textSignature(content),
+      file:
+        book.file_type === "epub"
+          ? new Blob([buildEpub(book.title, book.author, chaptersFromText(content))], { type: "application/epub+zip" })
+          : undefined,
+    }));
+    this.projects = [];
+    this.scripts = new Map();
+    this.chunks = [];
+    this.voiceConfigs = new Map();
+    this.highlights = SEED_HIGHLIGHTS.map((seed) => {
+      const content = this.books.find((book) => book.id === seed.book_id).content;
+      const start = content.indexOf(seed.text);
+      return {
+        id: seed.id,
+        user_id: DEMO_USER_ID,
+        book_id: seed.book_id,
+        chunk_id: null,
+        text: seed.text,
+        color: seed.color,
+        start_offset: start,
+        end_offset: start + seed.text.length,
+        chapter: seed.chapter,
+        selector: describeRange(content, start, start + seed.text.length),
+        note: seed.note
+          ? { id: `note-${seed.id}`, highlight_id: seed.id, content: seed.note, created_at: SEED_TIME, updated_at: SEED_TIME }
+          : null,
+        created_at: SEED_TIME,
+      };
+    });
+    this.bookmarks = [];
+    this.collections = [];
+    this.thoughts = SEED_THOUGHTS.map((seed) => ({
+      ...seed,
+      user_id: DEMO_USER_ID,
+      created_at: SEED_TIME,
+      updated_at: SEED_TIME,
+    }));
+    this.ragDocuments = SEED_RAG_DOCUMENTS.map(({ doc_id, text, metadata }) => ({
+      doc_id,
+      metadata,
+      chunks: splitIntoRagChunks(text),
+    }));
+    this.soundEffectPacks = clone(SOUND_EFFECT_PACKS);
+    this.soundEffectTemplates = clone(SOUND_EFFECT_TEMPLATES);
+    this.customEffects = new Map();
+    this.config = clone(SYSTEM_CONFIG);
+    this.trainingJobs = new Map();
+    this.datasetSamples = new Map();
+    this.uploads = new Map();
+    this.requestCounts = new Map();
+
+    this.seedFinishedProject();
+  }
+
+  // The first book ships with a finished audiobook so the reader can play right away
+  private seedFinishedProject() {
+    const book = this.books[0];
+    const project = this.createProject({ book_id: book.id, name: `${book.title} 有声书` }, SEED_TIME);
+    const script = this.scripts.get(project.id);
+    script.content = draftScript(book.content);
+    script.status = "approved";
+    this.createChunks(project.id, SEED_TIME);
+    this.chunks
+      .filter((chunk) => chunk.project_id === project.id)
+      .forEach((chunk) => this.completeChunk(chunk, SEED_TIME));
+    this.mergeProjectAudio(project.id, SEED_TIME);
+  }
+
+  findBook(bookId: string) {
+    return this.books.find((book) => book.id === bookId);
+  }
+
+  findProject(projectId: string) {
+    return this.projects.find((project) => project.id === projectId);
+  }
+
+  projectChunks(projectId: string) {
+    return this.chunks
+      .filter((chunk) => chunk.project_id === projectId)
+      .sort((a, b) => a.order_index - b.order_index);
+  }
+
+  createProject(
+    data: { book_id: string; name: string; description?: string; config?: ProjectDto["config"] },
+    createdAt = now()
+  ): ProjectDto {
+    const book = this.findBook(data.book_id);
+    const project: ProjectDto = {
+      id: this.nextId("project"),
+      book_id: data.book_id,
+      book_title: book?.title,
+      name: data.name,
+      description: data.description,
+      status: "draft",
+      config: data.config ?? { tts_mode: "mock", language: "zh-CN", parallel_workers: 2 },
+      audio_path: null,
+      duration: null,
+      created_at: createdAt,
+      updated_at: createdAt,
+      progress: { total_chunks: 0, completed_chunks: 0, percentage: 0 },
+    };
+    this.projects.unshift(project);
+    this.scripts.set(project.id, {
+      id: this.nextId("script"),
+      project_id: project.id,
+      status: "not_started",
+      content: [],
+      error_message: null,
+      created_at: createdAt,
+    });
+    return project;
+  }
+
+  /**
+   * Replace the project's chunks with one per script entry
+   */
+  createChunks(projectId: string, createdAt = now()): ChunkDto[] {
+    const script = this.scripts.get(projectId);
+    this.chunks = this.chunks.filter((chunk) => chunk.project_id !== projectId);
+    const chunks = script.content.map(
+      (entry, index): ChunkDto => ({
+        id: this.nextId("chunk"),
+        project_id: projectId,
+        script_id: script.id,
+        speaker: entry.speaker,
+        text: entry.text,
+        instruct: entry.instruct,
+        emotion: entry.emotion,
+        section: entry.section,
+        status: "pending",
+        audio_path: null,
+        duration: null,
+        start_time: null,
+        end_time: null,
+        order_index: index,
+        created_at: createdAt,
+        updated_at: createdAt,
+      })
+    );
+    this.chunks.push(...chunks);
+    const project = this.findProject(projectId);
+    project.audio_path = null;
+    project.duration = null;
+    this.updateProgress(projectId);
+    return chunks;
+  }
+
+  completeChunk(chunk: ChunkDto, updatedAt = now()): FakeAudio {
+    const audio = fakeSpeech(chunk.text);
+    chunk.status = "completed";
+    chunk.audio_path = audio.url;
+    chunk.duration = audio.duration;
+    chunk.updated_at = updatedAt;
+    this.updateProgress(chunk.project_id);
+    return audio;
+  }
+
+  updateProgress(projectId: string) {
+    const project = this.findProject(projectId);
+    const chunks = this.projectChunks(projectId);
+    const completed = chunks.filter((chunk) => chunk.status === "completed").length;
+    project.progress = {
+      total_chunks: chunks.length,
+      completed_chunks: completed,
+      percentage: chunks.length ? Math.round((completed / chunks.length) * 100) : 0,
+    };
+  }
+
+  /**
+   * Lay the completed chunks end to end into one audiobook track
+   */
+  mergeProjectAudio(projectId: string, updatedAt = now()): FakeAudio | null {
+    const project = this.findProject(projectId);
+    const chunks = this.projectChunks(projectId).filter((chunk) => chunk.status === "completed");
+    if (!chunks.length) return null;
+
+    let time = 0;
+    chunks.forEach((chunk) => {
+      chunk.start_time = time;
+      time = Math.round((time + chunk.duration) * 10) / 10;
+      chunk.end_time = time;
+    });
+    const audio = fakeAudio(projectId, time);
+    project.audio_path = audio.url;
+    project.duration = audio.duration;
+    project.status = "completed";
+    project.updated_at = updatedAt;
+    return audio;
+  }
+}
+
+export const db = new MockDb();
@@ -0,0 +1,90 @@
+/**
+ * Builds small EPUB files for the mock backend, so EPUB books can be read
+ * in the browser without a real file. Entries are stored uncompressed.
+ */
+import { isChapterHeading } from "@/lib/chapters";
+import { buildZip } from "@/lib/zip";
+
+export interface MockEpubChapter {
+  title: string;
+  paragraphs: string[];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * An EPUB 3 book with one spine document and one nav entry per chapter
+ */
+export const buildEpub = (title: string, author: string, chapters: MockEpubChapter[]): Uint8Array => {
+  const documents = chapters.map((chapter, index) => [
+    `OEBPS/chapter-${index + 1}.xhtml`,
+    [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">',
+      `<head><title>${escapeXml(chapter.title)}</title></head>`,
+      `<body><section id="chapter-${index + 1}">`,
+      chapter.title ? `<h1>${escapeXml(chapter.title)}</h1>` : "",
+      ...chapter.paragraphs.map((paragraph) => `<p>${escapeXml(paragraph)}</p>`),
+      "</section></body></html>",
+    ].join("\n"),
+  ]) as Array<[string, string]>;
+
+  const opf = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">',
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:identifier id="id">mock-${escapeXml(title)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    `<dc:creator>${escapeXml(author)}</dc:creator>`,
+    "<dc:language>zh</dc:language>",
+    "</metadata>",
+    "<manifest>",
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    ...chapters.map(
+      (_, index) =>
+        `<item id="chapter-${index + 1}" href="chapter-${index + 1}.xhtml" media-type="application/xhtml+xml"/>`
+    ),
+    "</manifest>",
+    "<spine>",
+    ...chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+    "</spine>",
+    "</package>",
+  ].join("\n");
+
+  const nav = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">',
+    "<head><title>目录</title></head>",
+    '<body><nav epub:type="toc"><ol>',
+    ...chapters.map(
+      (chapter, index) => `<li><a href="chapter-${index + 1}.xhtml">${escapeXml(chapter.title)}</a></li>`
+    ),
+    "</ol></nav></body></html>",
+  ].join("\n");
+
+  return buildZip([
+    ["mimetype", "application/epub+zip"],
+    [
+      "META-INF/container.xml",
+      '<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">' +
+        '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+    ],
+    ["OEBPS/content.opf", opf],
+    ["OEBPS/nav.xhtml", nav],
+    ...documents,
+  ]);
+};
+
+/**
+ * Split seeded plain text at its chapter headings
+ */
+export const chaptersFromText = (text: string): MockEpubChapter[] =>
+  text.split("\n\n").reduce<MockEpubChapter[]>((chapters, paragraph) => {
+    if (isChapterHeading(paragraph) || !chapters.length) {
+      chapters.push({ title: isChapterHeading(paragraph) ? paragraph : "", paragraphs: [] });
+      if (isChapterHeading(paragraph)) return chapters;
+    }
+    chapters[chapters.length - 1].paragraphs.push(paragraph);
+    return chapters;
+  }, []);
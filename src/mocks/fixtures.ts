@@ -0,0 +1,244 @@
+/**
+ * Seed data for the mock backend
+ */
+
+export const SEED_TIME = "2024-01-01T08:00:00.000Z";
+
+export const DEMO_USER = {
+  id: "user-1",
+  email: "demo@readrhyme.dev",
+  username: "demo",
+  password: "demo1234",
+};
+
+export interface SeedBook {
+  id: string;
+  title: string;
+  author: string;
+  file_type: "txt" | "pdf" | "epub";
+  progress: number;
+  content: string;
+}
+
+export const SEED_BOOKS: SeedBook[] = [
+  {
+    id: "book-1",
+    title: "春夜",
+    author: "林舟",
+    file_type: "txt",
+    progress: 0.35,
+    content: [
+      "第一章 归来",
+      "三月的雨下了整整一夜。林晚推开老宅的木门，院子里的海棠已经开了。",
+      "“你终于回来了。”祖母坐在廊下，手里还握着那只旧茶壶。",
+      "“路上耽搁了几天。”林晚放下行李，轻声说。",
+      "第二章 旧信",
+      "阁楼的箱子里压着一叠发黄的信。信封上的字迹她认得，是父亲年轻时写的。",
+      "“这些信，你父亲一直没寄出去。”祖母说，“他说等你长大了再给你看。”",
+      "窗外的雨停了，屋檐还在滴水。林晚拆开第一封信，读到天亮。",
+    ].join("\n\n"),
+  },
+  {
+    id: "book-2",
+    title: "山海小记",
+    author: "周行",
+    file_type: "epub",
+    progress: 0,
+    content: [
+      "第一章 出发",
+      "清晨的渡口雾气很重，船家把缆绳解开，喊了一声“开船喽”。",
+      "我们沿着江往下走，两岸的山一层叠着一层，像是没有尽头。",
+      "第二章 山村",
+      "傍晚在一个小村落脚。村口的老人问：“从城里来的？”我点点头。",
+    ].join("\n\n"),
+  },
+];
+
+export const SEED_HIGHLIGHTS = [
+  {
+    id: "highlight-1",
+    book_id: "book-1",
+    text: "院子里的海棠已经开了",
+    color: "yellow" as const,
+    chapter: "第一章 归来",
+    note: "开篇用海棠点出季节。",
+  },
+  {
+    id: "highlight-2",
+    book_id: "book-1",
+    text: "林晚拆开第一封信，读到天亮",
+    color: "blue" as const,
+    chapter: "第二章 旧信",
+    note: null,
+  },
+];
+
+export const SEED_THOUGHTS = [
+  { id: "thought-1", book_id: "book-1", content: "祖孙之间的对话很克制，情感都藏在动作里。" },
+  { id: "thought-2", book_id: "book-2", content: "想去江边走一走。" },
+];
+
+export const SEED_VOICES = {
+  custom: [
+    { id: "zh-female-1", name: "晓晓", gender: "female" as const, language: "zh-CN" },
+    { id: "zh-male-1", name: "云希", gender: "male" as const, language: "zh-CN" },
+    { id: "en-female-1", name: "Aria", gender: "female" as const, language: "en-US" },
+  ],
+  lora: [{ id: "lora-narrator", name: "旁白（LoRA）", gender: "male" as const, language: "zh-CN" }],
+};
+
+export const VOICE_REFERENCE = {
+  reference: "描述音色时可组合质感、情绪和表达方式。",
+  texture_timbre: { 质感: ["温暖", "清亮", "低沉", "沙哑"] },
+  emotion: { 情绪: ["平静", "喜悦", "悲伤", "紧张"] },
+  delivery: { 语速: "适中", 停顿: "自然" },
+  examples: [{ description: "温暖低沉的男声，语速偏慢", style: "narration" }],
+};
+
+export const SEED_RAG_DOCUMENTS = [
+  {
+    doc_id: "doc-spring-night",
+    text: "《春夜》讲述林晚回到老宅，在阁楼发现父亲未寄出的信件的故事。祖母守着老宅多年，海棠每年三月开花。",
+    metadata: { title: "春夜 简介" },
+  },
+];
+
+export const COSY_MODEL = "CosyVoice3-0.5B-2512";
+
+export const COSY_MODELS = [
+  {
+    id: "cosyvoice3",
+    model_id: COSY_MODEL,
+    features: ["zero_shot", "cross_lingual", "instruct"],
+    languages: ["zh", "en", "ja", "ko", "yue"],
+    latency_ms: 150,
+  },
+];
+
+export const COSY_SPEAKERS = [
+  { id: "zh-cn-female-1", name: "中文女声", gender: "female" as const, language: "zh", description: "温柔清晰" },
+  { id: "zh-cn-male-1", name: "中文男声", gender: "male" as const, language: "zh", description: "沉稳有力" },
+  { id: "en-us-female-1", name: "English Female", gender: "female" as const, language: "en", description: "Bright" },
+];
+
+export const COSY_LANGUAGES = [
+  { code: "zh", name: "Chinese", native: "中文" },
+  { code: "en", name: "English", native: "English" },
+  { code: "yue", name: "Cantonese", native: "粤语" },
+];
+
+export const COSY_INSTRUCTIONS = {
+  emotion: ["开心", "悲伤", "愤怒", "平静"],
+  speaking_style: ["朗读", "对话", "新闻播报"],
+  tone: ["温柔", "严肃", "活泼"],
+};
+
+export const QWEN_VOICES = [
+  { id: "zh-CN-XiaoxiaoNeural", name: "晓晓", language: "zh-CN" },
+  { id: "zh-CN-YunxiNeural", name: "云希", language: "zh-CN" },
+  { id: "en-US-AriaNeural", name: "Aria", language: "en-US" },
+];
+
+export const QWEN_LANGUAGES = [
+  { language_code: "zh-CN", language_name: "中文（普通话）", sample_rate: 24000, model_type: "mock" },
+  { language_code: "en-US", language_name: "English (US)", sample_rate: 24000, model_type: "mock" },
+];
+
+export const EMOTION_PRESETS = [
+  {
+    id: "gentle",
+    name: "温柔",
+    description: "轻声细语，语速偏慢",
+    emotion: { happiness: 0.4, neutral: 0.6, energy: 0.8, tempo: 0.9 },
+    example_instruct: "用温柔的语气说",
+  },
+  {
+    id: "excited",
+    name: "兴奋",
+    description: "语调上扬，节奏明快",
+    emotion: { happiness: 0.9, surprise: 0.4, energy: 1.3, tempo: 1.15 },
+    example_instruct: "用兴奋的语气说",
+  },
+];
+
+export const SCENARIO_PRESETS = [
+  {
+    id: "calm-narration",
+    name: "平静叙述",
+    category: "narration" as const,
+    description: "旁白的默认语气",
+    emotion: { neutral: 0.8, energy: 0.9, tempo: 1 },
+    exampleText: "夜色很深，院子里只剩下虫鸣。",
+    usage: ["旁白", "景物描写"],
+  },
+  {
+    id: "heated-argument",
+    name: "激烈争吵",
+    category: "dialogue" as const,
+    description: "情绪激动的对白",
+    emotion: { anger: 0.8, energy: 1.4, tempo: 1.2 },
+    exampleText: "“你根本不懂！”",
+    usage: ["争吵", "对峙"],
+  },
+];
+
+export const PROSODY_TEMPLATES = [
+  { id: "calm-narration", name: "平静叙述", description: "语速稍慢，停顿自然", config: { speed: 0.9, pitch: 0 } },
+  { id: "tense-dialogue", name: "紧张对话", description: "语速加快，音调略高", config: { speed: 1.15, pitch: 2 } },
+];
+
+export const SOUND_EFFECT_PACKS = [
+  {
+    id: "nature",
+    name: "自然",
+    description: "雨声、风声和鸟鸣",
+    category: "ambient",
+    effects: [
+      { id: "rain", name: "夜雨", file_path: "sound_effects/rain.wav", duration: 12, category: "ambient", tags: ["雨"] },
+      { id: "wind", name: "风声", file_path: "sound_effects/wind.wav", duration: 8, category: "ambient", tags: ["风"] },
+    ],
+  },
+  {
+    id: "home",
+    name: "居家",
+    description: "开门、脚步和倒茶",
+    category: "foley",
+    effects: [
+      { id: "door", name: "木门", file_path: "sound_effects/door.wav", duration: 2, category: "foley", tags: ["门"] },
+      { id: "tea", name: "倒茶", file_path: "sound_effects/tea.wav", duration: 3, category: "foley", tags: ["茶"] },
+    ],
+  },
+];
+
+export const SOUND_EFFECT_TEMPLATES = [
+  {
+    id: "rainy-night",
+    name: "雨夜",
+    description: "持续的雨声，开头淡入",
+    category: "ambient",
+    effects: [{ file_path: "sound_effects/rain.wav", start_time: 0, volume: 0.3, fade_in: 2, fade_out: 2 }],
+  },
+];
+
+export const SYSTEM_CONFIG = {
+  tts: { mode: "mock", url: "http://localhost:8000/mock-tts", timeout: 300, parallel_workers: 2, language: "zh-CN" },
+  llm: { base_url: "http://localhost:8000/mock-llm", api_key: "mock-key", model_name: "mock-llm" },
+  prompts: { script_generation: "将以下文本改写为有声书脚本。", script_review: "检查脚本的说话人与情感标注。" },
+};
+
+export const LORA_REQUIREMENTS = {
+  min_samples: 10,
+  recommended_samples: 50,
+  min_duration_per_sample: 3,
+  recommended_duration_per_sample: 10,
+  total_min_duration: 60,
+  recommended_total_duration: 600,
+  supported_formats: ["wav", "mp3", "flac"],
+  sample_rate: 24000,
+  hardware: { min_memory_gb: 8, recommended_memory_gb: 16, gpu_required: false, gpu_memory_gb: 0 },
+};
+
+export const QUOTA_TIERS = {
+  free: { daily: 100, monthly: 2000 },
+  pro: { daily: 1000, monthly: 20000 },
+};
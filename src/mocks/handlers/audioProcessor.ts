@@ -0,0 +1,195 @@
+/**
+ * Mock routes for the audio processor and sound effects
+ */
+import type {
+  ApplyProsodyRequest,
+  AudioMixRequest,
+  GenerateDialogueRequest,
+  RVCConvertRequest,
+  SegmentTextRequest,
+  StreamingTTSRequest,
+} from "@/services/audioProcessor";
+import type { SoundEffect, SoundEffectCreate, SoundEffectTemplate } from "@/services/soundEffects";
+import { fakeAudio, fakeSpeech } from "../audio";
+import { db } from "../db";
+import { PROSODY_TEMPLATES } from "../fixtures";
+import { notFound, ok, type MockServer } from "../server";
+
+// Clips the mock doesn't know about are assumed to be this long
+const UNKNOWN_CLIP_DURATION = 10;
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+const durationOf = (audioPath: string) =>
+  db.projects.find((project) => project.audio_path === audioPath)?.duration ??
+  db.chunks.find((chunk) => chunk.audio_path === audioPath)?.duration ??
+  UNKNOWN_CLIP_DURATION;
+
+// Processing results are fresh clips derived from the input, so reruns match
+const processed = (seed: string, duration: number) => {
+  const audio = fakeAudio(seed, duration);
+  return { output_path: `processed/${db.nextId("output")}.wav`, output_url: audio.url, duration: audio.duration };
+};
+
+/**
+ * Sentence-level segments, with quoted speech marked as dialogue
+ */
+const segment = (text: string, maxChars: number, detectDialogue: boolean) => {
+  const sentences = text.match(/[^。！？!?\n]+[。！？!?”]*/g) ?? [];
+  const segments: string[] = [];
+  sentences
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .forEach((sentence) => {
+      const last = segments.length - 1;
+      if (last >= 0 && segments[last].length + sentence.length <= maxChars) {
+        segments[last] += sentence;
+      } else {
+        segments.push(sentence);
+      }
+    });
+  return segments.map((segmentText, position) => ({
+    text: segmentText,
+    speaker: null,
+    type: detectDialogue && /[“"]/.test(segmentText) ? ("dialogue" as const) : ("narration" as const),
+    position,
+    char_count: segmentText.length,
+  }));
+};
+
+const registerProcessorRoutes = (server: MockServer) => {
+  server.post<AudioMixRequest>("/audio-processor/mix-audio", ({ body }) => {
+    const duration = durationOf(body.speech_audio_path);
+    return ok({
+      ...processed(`mix:${body.speech_audio_path}:${body.background_music_path ?? ""}`, duration),
+      background_music: !!body.background_music_path,
+      sound_effects_count: body.sound_effects?.length ?? 0,
+      ducking_enabled: body.ducking ?? false,
+      success: true,
+    });
+  });
+
+  server.post<GenerateDialogueRequest>("/audio-processor/generate-dialogue", ({ body }) => {
+    const script = body.dialogue_script ?? [];
+    const pauses = body.add_pauses === false ? 0 : Math.max(0, script.length - 1) * (body.pause_between_speakers ?? 0.5);
+    const duration = round(script.reduce((sum, line) => sum + fakeSpeech(line.text).duration, 0) + pauses);
+    return ok({
+      ...processed(script.map((line) => line.text).join("|"), Math.max(duration, 0.5)),
+      segments_count: script.length,
+      speakers: [...new Set(script.map((line) => line.speaker))],
+      success: true,
+    });
+  });
+
+  server.post<SegmentTextRequest>("/audio-processor/segment-text", ({ body }) =>
+    ok(segment(body.text || "", body.max_chars ?? 200, body.detect_dialogue ?? true))
+  );
+
+  server.post<StreamingTTSRequest>("/audio-processor/streaming-tts", ({ body }) => {
+    const segments = segment(body.text || "", body.chunk_size ?? 100, false);
+    return ok({
+      text: body.text,
+      speaker: body.speaker ?? "default",
+      chunks: segments.map((item, index) => ({ index, size: item.char_count })),
+      total_chunks: segments.length,
+    });
+  });
+
+  server.post<RVCConvertRequest>("/audio-processor/rvc-convert", ({ body }) =>
+    ok({
+      ...processed(`rvc:${body.source_audio_path}:${body.target_voice_model}`, durationOf(body.source_audio_path)),
+      target_voice_model: body.target_voice_model,
+      preserve_prosody: body.preserve_prosody ?? true,
+      preserve_timing: body.preserve_timing ?? true,
+      pitch_shift: body.pitch_shift ?? 0,
+      conversion_method: "mock",
+      success: true,
+    })
+  );
+
+  server.post<ApplyProsodyRequest>("/audio-processor/apply-prosody", ({ body }) => {
+    const original = durationOf(body.audio_path);
+    const speed = Number(body.prosody_config?.speed) || 1;
+    return ok({
+      ...processed(`prosody:${body.audio_path}:${JSON.stringify(body.prosody_config)}`, round(original / speed)),
+      original_duration: original,
+      applied_modifications: Object.keys(body.prosody_config ?? {}),
+      success: true,
+    });
+  });
+
+  server.get("/audio-processor/prosody/templates", () => ok(PROSODY_TEMPLATES));
+};
+
+const registerSoundEffectRoutes = (server: MockServer) => {
+  const allEffects = (): SoundEffect[] => [
+    ...db.soundEffectPacks.flatMap((pack) => pack.effects),
+    ...db.customEffects.values(),
+  ];
+
+  server.get("/audio-processor/sound-effects/packs", () => ok({ packs: db.soundEffectPacks }));
+
+  server.get("/audio-processor/sound-effects/packs/:packId", ({ params }) => {
+    const pack = db.soundEffectPacks.find((candidate) => candidate.id === params.packId);
+    return pack ? ok(pack) : notFound("Sound effect pack");
+  });
+
+  server.get("/audio-processor/sound-effects/search", ({ query }) => {
+    const term = (query.get("q") || "").toLowerCase();
+    return ok(
+      allEffects().filter((effect) =>
+        [effect.name, effect.category, ...effect.tags].some((field) => field.toLowerCase().includes(term))
+      )
+    );
+  });
+
+  server.get("/audio-processor/sound-effects/categories", () =>
+    ok([...new Set(allEffects().map((effect) => effect.category))])
+  );
+
+  server.post<SoundEffectCreate>("/audio-processor/sound-effects/custom", ({ body }) => {
+    const id = db.nextId("effect");
+    db.customEffects.set(id, {
+      id,
+      name: body.name,
+      file_path: body.file_path,
+      duration: durationOf(body.file_path),
+      category: body.category,
+      tags: body.tags ?? [],
+    });
+    return ok({ effect_id: id }, 201);
+  });
+
+  server.delete("/audio-processor/sound-effects/custom/:effectId", ({ params }) => {
+    if (!db.customEffects.delete(params.effectId)) return notFound("Sound effect");
+    return ok({ message: "音效已删除" });
+  });
+
+  server.get("/audio-processor/sound-effects/templates", () => ok(db.soundEffectTemplates));
+
+  server.get("/audio-processor/sound-effects/templates/:templateId", ({ params }) => {
+    const template = db.soundEffectTemplates.find((candidate) => candidate.id === params.templateId);
+    return template ? ok(template) : notFound("Sound effect template");
+  });
+
+  server.post<Omit<SoundEffectTemplate, "id">>("/audio-processor/sound-effects/templates", ({ body }) => {
+    const id = db.nextId("template");
+    db.soundEffectTemplates.push({ ...body, id });
+    return ok({ template_id: id }, 201);
+  });
+
+  server.post<{ template_id: string; audio_path: string }>(
+    "/audio-processor/sound-effects/apply-template",
+    ({ body }) => {
+      if (!db.soundEffectTemplates.some((template) => template.id === body.template_id)) {
+        return notFound("Sound effect template");
+      }
+      return ok({ output_path: processed(`${body.template_id}:${body.audio_path}`, durationOf(body.audio_path)).output_path });
+    }
+  );
+};
+
+export const registerAudioProcessorRoutes = (server: MockServer) => {
+  registerProcessorRoutes(server);
+  registerSoundEffectRoutes(server);
+};
@@ -0,0 +1,67 @@
+/**
+ * Mock auth routes
+ */
+import type { LoginRequest, RegisterRequest } from "@/services/auth";
+import { db, now, type MockUser } from "../db";
+import { fail, ok, type MockServer } from "../server";
+
+const ACCESS_TOKEN_TTL = 60 * 60;
+const REFRESH_PREFIX = "mock-refresh.";
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+
+// Unsigned JWT, enough for the client to read `exp` and schedule a refresh
+const issueAccessToken = (user: MockUser) =>
+  [
+    base64Url({ alg: "none", typ: "JWT" }),
+    base64Url({ sub: user.id, email: user.email, exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL }),
+    "mock",
+  ].join(".");
+
+const publicUser = ({ password: _password, ...user }: MockUser) => ({
+  ...user,
+  is_active: true,
+  updated_at: user.created_at,
+});
+
+const authResponse = (user: MockUser) => ({
+  access_token: issueAccessToken(user),
+  refresh_token: `${REFRESH_PREFIX}${user.id}`,
+  user: publicUser(user),
+});
+
+export const registerAuthRoutes = (server: MockServer) => {
+  server.post<LoginRequest>("/auth/login", ({ body }) => {
+    const user = db.users.find((candidate) => candidate.email === body.email);
+    if (!user || user.password !== body.password) {
+      return fail(401, "INVALID_CREDENTIALS", "邮箱或密码错误");
+    }
+    return ok(authResponse(user));
+  });
+
+  server.post<RegisterRequest>("/auth/register", ({ body }) => {
+    if (db.users.some((user) => user.email === body.email)) {
+      return fail(400, "EMAIL_TAKEN", "该邮箱已注册");
+    }
+    const user: MockUser = {
+      id: db.nextId("user"),
+      email: body.email,
+      username: body.username,
+      password: body.password,
+      created_at: now(),
+    };
+    db.users.push(user);
+    return ok(authResponse(user), 201);
+  });
+
+  server.post<{ refresh_token?: string }>("/auth/refresh", ({ body }) => {
+    const userId = (body.refresh_token || "").replace(REFRESH_PREFIX, "");
+    const user = db.users.find((candidate) => candidate.id === userId);
+    if (!user) {
+      return fail(401, "INVALID_REFRESH_TOKEN", "Refresh token is invalid");
+    }
+    const { access_token, refresh_token } = authResponse(user);
+    return ok({ access_token, refresh_token });
+  });
+};
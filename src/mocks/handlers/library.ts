@@ -0,0 +1,530 @@
+/**
+ * Mock routes for books, highlights, bookmarks, collections and thoughts
+ */
+import type {
+  BookChapterDto,
+  BookmarkCreateDto,
+  BookmarkDto,
+  BookmarkUpdateDto,
+  BookChaptersUpdateDto,
+  BookDuplicateDto,
+  BookDuplicateQueryDto,
+  BookPageDto,
+  BookUpdateDto,
+  CollectionBooksDto,
+  CollectionCreateDto,
+  CollectionDto,
+  CollectionUpdateDto,
+  HighlightCreateDto,
+  HighlightDto,
+  HighlightUpdateDto,
+  NoteUpdateDto,
+  ThoughtCreateDto,
+  ThoughtUpdateDto,
+} from "@/services/generated/schemas";
+import { DUPLICATE_SIMILARITY, signatureSimilarity } from "@/lib/fingerprint";
+import { bookChapters, db, DEMO_USER_ID, now, type MockBook } from "../db";
+import { fail, notFound, ok, paginate, raw, readBlobText, type MockServer } from "../server";
+
+const BOOK_SORT_KEYS = ["title", "author", "created_at", "updated_at", "progress", "last_opened_at"] as const;
+
+const FILE_TYPES = ["txt", "pdf", "epub"] as const;
+
+// The wire shape never carries the text itself
+const toBookDto = ({
+  content: _content,
+  file: _file,
+  pages: _pages,
+  chapters: _chapters,
+  text_signature: _signature,
+  ...book
+}: MockBook) => ({
+  ...book,
+  audio_ready: db.projects.some((project) => project.book_id === book.id && project.status === "completed"),
+});
+
+// Tags as the reader typed them, without blanks or repeats
+const cleanTags = (tags: string[]) => [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+
+/**
+ * Page starts within the text from `start` to `end`; the page already under
+ * way at `start` begins at 0
+ */
+const slicePages = (pages: BookPageDto[], start: number, end: number) => {
+  const first = pages.reduce((found, page, index) => (page.offset <= start ? index : found), 0);
+  return pages
+    .slice(first)
+    .filter((page) => page.offset < end)
+    .map((page) => ({ ...page, offset: Math.max(0, page.offset - start) }));
+};
+
+const withBook = (highlight: HighlightDto): HighlightDto => {
+  const book = db.findBook(highlight.book_id);
+  return { ...highlight, book: book ? { title: book.title, author: book.author, cover_url: book.cover_url } : null };
+};
+
+const withBookInfo = <T extends { book_id: string }>(thought: T) => {
+  const book = db.findBook(thought.book_id);
+  return { ...thought, book_title: book?.title, book_author: book?.author, book_cover_url: book?.cover_url };
+};
+
+const notesAsMarkdown = (book: MockBook, highlights: HighlightDto[]) =>
+  [
+    `# ${book.title}`,
+    ...highlights.map((highlight) =>
+      [`> ${highlight.text}`, highlight.note ? `\n${highlight.note.content}` : ""].join("")
+    ),
+  ].join("\n\n");
+
+const notesAsCsv = (highlights: HighlightDto[]) =>
+  [
+    "text,color,chapter,note",
+    ...highlights.map((highlight) =>
+      [highlight.text, highlight.color, highlight.chapter ?? "", highlight.note?.content ?? ""]
+        .map((field) => `"${field.replace(/"/g, '""')}"`)
+        .join(",")
+    ),
+  ].join("\n");
+
+const registerBookRoutes = (server: MockServer) => {
+  server.get("/books", ({ query }) => {
+    const search = query.get("search")?.toLowerCase();
+    const sort = BOOK_SORT_KEYS.find((key) => key === query.get("sort")) ?? "created_at";
+    const direction = query.get("order") === "asc" ? 1 : -1;
+
+    const books = db.books
+      .filter((book) => !search || [book.title, book.author, ...(book.tags ?? [])].join(" ").toLowerCase().includes(search))
+      .sort((a, b) => (a[sort] ?? "") > (b[sort] ?? "") ? direction : (a[sort] ?? "") < (b[sort] ?? "") ? -direction : 0)
+      .map(toBookDto);
+    return ok(paginate(books, query));
+  });
+
+  server.post("/books/upload", async ({ form }) => {
+    const file = form?.get("file");
+    if (!(file instanceof Blob)) {
+      return fail(400, "FILE_REQUIRED", "请选择要上传的文件");
+    }
+    const name = file instanceof File ? file.name : "untitled.txt";
+    const extension = name.split(".").pop()?.toLowerCase();
+    const fileType = FILE_TYPES.find((type) => type === extension);
+    if (!fileType) {
+      return fail(400, "UNSUPPORTED_FILE_TYPE", "仅支持 TXT、PDF 和 EPUB 文件");
+    }
+
+    // Only plain text can be read without a parser; a PDF's text layer comes
+    // cleaned from the client, and anything else gets a stand-in body
+    const title = String(form.get("title") || name.replace(/\.[^.]+$/, ""));
+    const text = form.get("text");
+    const pages = form.get("pages");
+    const chapters = form.get("chapters");
+    const signature = form.get("text_signature");
+    const content =
+      typeof text === "string" && text
+        ? text
+        : fileType === "txt"
+          ? await readBlobText(file)
+          : `${title}\n\n（模拟后端不解析 ${fileType.toUpperCase()} 文件，此处为占位正文。）`;
+    const timestamp = now();
+    const book: MockBook = {
+      id: db.nextId("book"),
+      user_id: DEMO_USER_ID,
+      title,
+      author: form.get("author") ? String(form.get("author")) : null,
+      cover_url: null,
+      file_type: fileType,
+      total_pages: null,
+      total_chars: content.length,
+      file_hash: form.get("file_hash") ? String(form.get("file_hash")) : null,
+      progress: 0,
+      tags: [],
+      collection_ids: [],
+      last_opened_at: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      content,
+      file: fileType === "txt" ? undefined : file,
+      pages: typeof pages === "string" && pages ? (JSON.parse(pages) as BookPageDto[]) : undefined,
+      chapters: typeof chapters === "string" && chapters ? (JSON.parse(chapters) as BookChapterDto[]) : undefined,
+      text_signature: typeof signature === "string" && signature ? (JSON.parse(signature) as number[]) : undefined,
+    };
+    db.books.unshift(book);
+    return ok(toBookDto(book), 201);
+  });
+
+  // The same file first, then the most similar text
+  server.post<BookDuplicateQueryDto>("/books/duplicates", ({ body }) => {
+    const duplicates: BookDuplicateDto[] = db.books
+      .map((book) => ({
+        book: toBookDto(book),
+        same_file: !!body.file_hash && book.file_hash === body.file_hash,
+        similarity: Math.round(signatureSimilarity(body.text_signature ?? [], book.text_signature ?? []) * 100) / 100,
+      }))
+      .filter(({ same_file, similarity }) => same_file || similarity >= DUPLICATE_SIMILARITY)
+      .sort((a, b) => Number(b.same_file) - Number(a.same_file) || b.similarity - a.similarity);
+    return ok(duplicates);
+  });
+
+  server.get("/books/:bookId", ({ params }) => {
+    const book = db.findBook(params.bookId);
+    return book ? ok(toBookDto(book)) : notFound("Book");
+  });
+
+  server.get("/books/:bookId/file", ({ params }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+    return raw(book.file ?? new Blob([book.content], { type: "text/plain;charset=utf-8" }));
+  });
+
+  server.get("/books/:bookId/content", ({ params, query }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+
+    const chapters = bookChapters(book);
+    let content = book.content;
+    let pages = book.pages ?? null;
+    if (query.has("chapter")) {
+      const index = Number(query.get("chapter"));
+      const chapter = chapters[index];
+      if (!chapter) return notFound("Chapter");
+      const end = chapters[index + 1]?.offset ?? book.content.length;
+      content = book.content.slice(chapter.offset, end).trim();
+      pages = pages && slicePages(pages, chapter.offset, end);
+    }
+    // Page offsets only hold for the plain text
+    if (query.get("format") === "markdown" || query.get("format") === "html") {
+      pages = null;
+    }
+    if (query.get("format") === "markdown") {
+      const titles = new Set(chapters.map((chapter) => chapter.title));
+      content = content
+        .split("\n")
+        .map((line) => (titles.has(line.trim()) ? `## ${line.trim()}` : line))
+        .join("\n");
+    } else if (query.get("format") === "html") {
+      content = content
+        .split(/\n\s*\n/)
+        .map((paragraph) => `<p>${paragraph.trim()}</p>`)
+        .join("\n");
+    }
+
+    return ok({
+      content,
+      chapters,
+      metadata: { title: book.title, author: book.author, total_chars: book.content.length },
+      pages,
+    });
+  });
+
+  server.put<BookChaptersUpdateDto>("/books/:bookId/chapters", ({ params, body }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+    const chapters = [...(body.chapters ?? [])].sort((a, b) => a.offset - b.offset);
+    if (chapters.some((chapter) => !chapter.title?.trim())) {
+      return fail(400, "INVALID_CHAPTERS", "章节标题不能为空");
+    }
+    if (chapters.some((chapter) => chapter.offset < 0 || chapter.offset > book.content.length)) {
+      return fail(400, "INVALID_CHAPTERS", "章节位置超出正文范围");
+    }
+    book.chapters = chapters.map((chapter, index) => ({
+      index,
+      title: chapter.title.trim(),
+      offset: chapter.offset,
+      level: chapter.level ?? 1,
+    }));
+    book.updated_at = now();
+    return ok(book.chapters);
+  });
+
+  server.patch<BookUpdateDto>("/books/:bookId", ({ params, body }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+    // A device that was offline may report a place the reader has since moved on from
+    const saved = book.position?.updated_at;
+    const reported = body.position?.updated_at;
+    const stale = !!saved && !!reported && Date.parse(reported) < Date.parse(saved);
+    (["title", "author", "cover_url", "progress", "position"] as const).forEach((key) => {
+      if (stale && (key === "progress" || key === "position")) return;
+      if (body[key] !== undefined && body[key] !== null) {
+        Object.assign(book, { [key]: body[key] });
+      }
+    });
+    if (body.position && !stale) book.last_opened_at = now();
+    if (body.tags) book.tags = cleanTags(body.tags);
+    if (body.collection_ids) {
+      book.collection_ids = body.collection_ids.filter((id) => db.collections.some((collection) => collection.id === id));
+    }
+    book.updated_at = now();
+    return ok(toBookDto(book));
+  });
+
+  server.delete("/books/:bookId", ({ params }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+    db.books = db.books.filter((candidate) => candidate !== book);
+    db.highlights = db.highlights.filter((highlight) => highlight.book_id !== book.id);
+    db.bookmarks = db.bookmarks.filter((bookmark) => bookmark.book_id !== book.id);
+    db.thoughts = db.thoughts.filter((thought) => thought.book_id !== book.id);
+    return ok({ deleted: true });
+  });
+};
+
+const registerHighlightRoutes = (server: MockServer) => {
+  const findHighlight = (highlightId: string) => db.highlights.find((highlight) => highlight.id === highlightId);
+
+  server.get("/highlights", () => ok(db.highlights.map(withBook)));
+
+  server.get("/highlights/:bookId", ({ params, query }) => {
+    const color = query.get("color");
+    const chapter = query.get("chapter");
+    return ok(
+      db.highlights.filter(
+        (highlight) =>
+          highlight.book_id === params.bookId &&
+          (!color || highlight.color === color) &&
+          (!chapter || highlight.chapter === chapter)
+      )
+    );
+  });
+
+  server.post<HighlightCreateDto>("/highlights/:bookId", ({ params, body }) => {
+    if (!db.findBook(params.bookId)) return notFound("Book");
+    const id = db.nextId("highlight");
+    const timestamp = now();
+    const highlight: HighlightDto = {
+      id,
+      user_id: DEMO_USER_ID,
+      book_id: params.bookId,
+      chunk_id: body.chunk_id ?? null,
+      text: body.text,
+      color: body.color,
+      start_offset: body.start_offset,
+      end_offset: body.end_offset,
+      chapter: body.chapter ?? null,
+      selector: body.selector ?? null,
+      note: body.note
+        ? { id: `note-${id}`, highlight_id: id, content: body.note, created_at: timestamp, updated_at: timestamp }
+        : null,
+      created_at: timestamp,
+    };
+    db.highlights.push(highlight);
+    return ok(highlight, 201);
+  });
+
+  server.patch<HighlightUpdateDto>("/highlights/highlights/:highlightId", ({ params, body }) => {
+    const highlight = findHighlight(params.highlightId);
+    if (!highlight) return notFound("Highlight");
+    if (body.color) highlight.color = body.color;
+    if (body.text !== undefined) highlight.text = body.text;
+    if (body.start_offset !== undefined) highlight.start_offset = body.start_offset;
+    if (body.end_offset !== undefined) highlight.end_offset = body.end_offset;
+    if (body.chapter !== undefined) highlight.chapter = body.chapter;
+    if (body.selector) highlight.selector = body.selector;
+    return ok(highlight);
+  });
+
+  server.delete("/highlights/highlights/:highlightId", ({ params }) => {
+    const highlight = findHighlight(params.highlightId);
+    if (!highlight) return notFound("Highlight");
+    db.highlights = db.highlights.filter((candidate) => candidate !== highlight);
+    return ok({ deleted: true });
+  });
+
+  server.put<NoteUpdateDto>("/highlights/highlights/:highlightId/note", ({ params, body }) => {
+    const highlight = findHighlight(params.highlightId);
+    if (!highlight) return notFound("Highlight");
+    const timestamp = now();
+    highlight.note = {
+      id: highlight.note?.id ?? `note-${highlight.id}`,
+      highlight_id: highlight.id,
+      content: body.content,
+      created_at: highlight.note?.created_at ?? timestamp,
+      updated_at: timestamp,
+    };
+    return ok(highlight.note);
+  });
+
+  server.delete("/highlights/highlights/:highlightId/note", ({ params }) => {
+    const highlight = findHighlight(params.highlightId);
+    if (!highlight?.note) return notFound("Note");
+    highlight.note = null;
+    return ok({ deleted: true });
+  });
+
+  server.get("/highlights/:bookId/notes/export", ({ params, query }) => {
+    const book = db.findBook(params.bookId);
+    if (!book) return notFound("Book");
+    const highlights = db.highlights.filter((highlight) => highlight.book_id === book.id);
+    const format = query.get("format") || "markdown";
+    if (format === "json") {
+      return raw(new Blob([JSON.stringify(highlights, null, 2)], { type: "application/json" }));
+    }
+    if (format === "csv") {
+      return raw(new Blob([notesAsCsv(highlights)], { type: "text/csv" }));
+    }
+    return raw(new Blob([notesAsMarkdown(book, highlights)], { type: "text/markdown" }));
+  });
+};
+
+const registerBookmarkRoutes = (server: MockServer) => {
+  const findBookmark = (bookmarkId: string) => db.bookmarks.find((bookmark) => bookmark.id === bookmarkId);
+
+  server.get("/bookmarks/:bookId", ({ params }) =>
+    ok(db.bookmarks.filter((bookmark) => bookmark.book_id === params.bookId))
+  );
+
+  server.post<BookmarkCreateDto>("/bookmarks/:bookId", ({ params, body }) => {
+    if (!db.findBook(params.bookId)) return notFound("Book");
+    if (!Number.isInteger(body.block) || !Number.isInteger(body.offset)) {
+      return fail(400, "INVALID_BOOKMARK", "书签位置无效");
+    }
+    const bookmark: BookmarkDto = {
+      id: db.nextId("bookmark"),
+      user_id: DEMO_USER_ID,
+      book_id: params.bookId,
+      chapter: body.chapter ?? null,
+      block: body.block,
+      offset: body.offset,
+      label: body.label || null,
+      excerpt: body.excerpt ?? "",
+      audio_time: body.audio_time ?? null,
+      created_at: now(),
+    };
+    db.bookmarks.push(bookmark);
+    return ok(bookmark, 201);
+  });
+
+  server.patch<BookmarkUpdateDto>("/bookmarks/bookmarks/:bookmarkId", ({ params, body }) => {
+    const bookmark = findBookmark(params.bookmarkId);
+    if (!bookmark) return notFound("Bookmark");
+    if (body.label !== undefined) bookmark.label = body.label || null;
+    return ok(bookmark);
+  });
+
+  server.delete("/bookmarks/bookmarks/:bookmarkId", ({ params }) => {
+    const bookmark = findBookmark(params.bookmarkId);
+    if (!bookmark) return notFound("Bookmark");
+    db.bookmarks = db.bookmarks.filter((candidate) => candidate !== bookmark);
+    return ok({ deleted: true });
+  });
+};
+
+const registerCollectionRoutes = (server: MockServer) => {
+  const findCollection = (collectionId: string) => db.collections.find((collection) => collection.id === collectionId);
+
+  // Names are trimmed, and no two collections share one
+  const checkName = (name: string | undefined, except?: CollectionDto) => {
+    const trimmed = name?.trim();
+    if (!trimmed) return fail(400, "INVALID_COLLECTION", "书单名称不能为空");
+    if (db.collections.some((collection) => collection !== except && collection.name === trimmed)) {
+      return fail(409, "COLLECTION_EXISTS", "已有同名书单");
+    }
+    return null;
+  };
+
+  server.get("/collections", () => ok(db.collections));
+
+  server.post<CollectionCreateDto>("/collections", ({ body }) => {
+    const invalid = checkName(body.name);
+    if (invalid) return invalid;
+    const collection: CollectionDto = {
+      id: db.nextId("collection"),
+      user_id: DEMO_USER_ID,
+      name: body.name.trim(),
+      created_at: now(),
+    };
+    db.collections.push(collection);
+    return ok(collection, 201);
+  });
+
+  server.patch<CollectionUpdateDto>("/collections/:collectionId", ({ params, body }) => {
+    const collection = findCollection(params.collectionId);
+    if (!collection) return notFound("Collection");
+    const invalid = checkName(body.name, collection);
+    if (invalid) return invalid;
+    collection.name = body.name.trim();
+    return ok(collection);
+  });
+
+  server.delete("/collections/:collectionId", ({ params }) => {
+    const collection = findCollection(params.collectionId);
+    if (!collection) return notFound("Collection");
+    db.collections = db.collections.filter((candidate) => candidate !== collection);
+    db.books.forEach((book) => {
+      book.collection_ids = book.collection_ids?.filter((id) => id !== collection.id) ?? [];
+    });
+    return ok({ deleted: true });
+  });
+
+  server.post<CollectionBooksDto>("/collections/:collectionId/books", ({ params, body }) => {
+    const collection = findCollection(params.collectionId);
+    if (!collection) return notFound("Collection");
+    const books = body.book_ids.map((bookId) => db.findBook(bookId));
+    if (books.some((book) => !book)) return notFound("Book");
+    books.forEach((book) => {
+      const ids = book.collection_ids ?? [];
+      if (!ids.includes(collection.id)) book.collection_ids = [...ids, collection.id];
+    });
+    return ok(books.map(toBookDto));
+  });
+};
+
+const registerThoughtRoutes = (server: MockServer) => {
+  const findThought = (thoughtId: string) => db.thoughts.find((thought) => thought.id === thoughtId);
+  const newestFirst = <T extends { created_at: string }>(a: T, b: T) => b.created_at.localeCompare(a.created_at);
+
+  server.get("/thoughts", ({ query }) => {
+    const bookId = query.get("book_id");
+    const thoughts = db.thoughts
+      .filter((thought) => !bookId || thought.book_id === bookId)
+      .sort(newestFirst)
+      .map(withBookInfo);
+    return ok(paginate(thoughts, query).items);
+  });
+
+  server.get("/thoughts/book/:bookId/all", ({ params }) =>
+    ok(db.thoughts.filter((thought) => thought.book_id === params.bookId).sort(newestFirst).map(withBookInfo))
+  );
+
+  server.get("/thoughts/:thoughtId", ({ params }) => {
+    const thought = findThought(params.thoughtId);
+    return thought ? ok(withBookInfo(thought)) : notFound("Thought");
+  });
+
+  server.post<ThoughtCreateDto>("/thoughts", ({ body }) => {
+    if (!db.findBook(body.book_id)) return notFound("Book");
+    const timestamp = now();
+    const thought = {
+      id: db.nextId("thought"),
+      user_id: DEMO_USER_ID,
+      book_id: body.book_id,
+      content: body.content,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    db.thoughts.push(thought);
+    return ok(withBookInfo(thought), 201);
+  });
+
+  server.patch<ThoughtUpdateDto>("/thoughts/:thoughtId", ({ params, body }) => {
+    const thought = findThought(params.thoughtId);
+    if (!thought) return notFound("Thought");
+    thought.content = body.content;
+    thought.updated_at = now();
+    return ok(withBookInfo(thought));
+  });
+
+  server.delete("/thoughts/:thoughtId", ({ params }) => {
+    const thought = findThought(params.thoughtId);
+    if (!thought) return notFound("Thought");
+    db.thoughts = db.thoughts.filter((candidate) => candidate !== thought);
+    return ok({ deleted: true });
+  });
+};
+
+export const registerLibraryRoutes = (server: MockServer) => {
+  registerBookRoutes(server);
+  registerHighlightRoutes(server);
+  registerBookmarkRoutes(server);
+  registerCollectionRoutes(server);
+  registerThoughtRoutes(server);
+};
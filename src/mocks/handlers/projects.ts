@@ -0,0 +1,397 @@
+/**
+ * Mock routes for projects, scripts, chunks, merged audio and project voices
+ */
+import type {
+  BatchGenerateRequestDto,
+  ChunkDto,
+  ChunkUpdateDto,
+  ProjectCreateDto,
+  ProjectUpdateDto,
+  ScriptGenerateRequestDto,
+  ScriptReviewRequestDto,
+  ScriptUpdateDto,
+} from "@/services/generated/schemas";
+import type { VoiceConfig } from "@/services/voices";
+import { audioBlob, hashText } from "../audio";
+import { bookChapters, db, draftScript, now } from "../db";
+import { SEED_VOICES } from "../fixtures";
+import { fail, notFound, ok, paginate, raw, type MockServer } from "../server";
+
+const toScriptStatus = (projectId: string) => {
+  const script = db.scripts.get(projectId);
+  return {
+    id: script.id,
+    project_id: projectId,
+    status: script.status,
+    entries_count: script.content.length,
+    speakers: [...new Set(script.content.map((entry) => entry.speaker))],
+    error_message: script.error_message,
+    created_at: script.created_at,
+  };
+};
+
+const chunkProgress = (projectId: string) => {
+  const chunks = db.projectChunks(projectId);
+  const count = (status: ChunkDto["status"]) => chunks.filter((chunk) => chunk.status === status).length;
+  const completed = count("completed");
+  const pending = count("pending");
+  const processing = count("processing");
+  return {
+    total: chunks.length,
+    completed,
+    processing,
+    pending,
+    percentage: chunks.length ? Math.round((completed / chunks.length) * 1000) / 10 : 0,
+    estimated_time_remaining: pending + processing ? (pending + processing) * 2 : null,
+  };
+};
+
+const projectAudio = (projectId: string) => {
+  const project = db.findProject(projectId);
+  return {
+    audio_url: project.audio_path,
+    duration: project.duration,
+    file_size: null,
+    format: "wav",
+    bitrate: null,
+  };
+};
+
+const voiceFor = (speaker: string): VoiceConfig => {
+  const voices = SEED_VOICES.custom.filter((voice) => voice.language === "zh-CN");
+  const voice = voices[hashText(speaker) % voices.length];
+  return { speaker, voice_type: "custom", voice_name: voice.id, language: voice.language };
+};
+
+const speakersOf = (projectId: string) => [
+  ...new Set(db.scripts.get(projectId).content.map((entry) => entry.speaker)),
+];
+
+/**
+ * Fake TTS job: one chunk per step, reporting over the progress socket like
+ * the real worker, and merging the audiobook once every chunk is done
+ */
+const runGeneration = (server: MockServer, projectId: string, chunkIds: string[]) => {
+  const project = db.findProject(projectId);
+  const queue = db.projectChunks(projectId).filter((chunk) => chunkIds.includes(chunk.id));
+  queue.forEach((chunk) => (chunk.status = "processing"));
+  project.status = "processing";
+
+  let index = 0;
+  const step = () => {
+    const chunk = queue[index++];
+    // A chunk may have been deleted along with its project meanwhile
+    if (!chunk || !db.findProject(projectId)) return;
+    const audio = db.completeChunk(chunk);
+    server.emit(projectId, "chunk_completed", { chunk_id: chunk.id, duration: audio.duration });
+    server.emit(projectId, "progress", {
+      current: index,
+      total: queue.length,
+      percentage: Math.round((index / queue.length) * 100),
+      status: "processing",
+      chunk_id: chunk.id,
+    });
+
+    if (index < queue.length) {
+      server.later(step);
+      return;
+    }
+    const everyChunkDone = db.projectChunks(projectId).every((candidate) => candidate.status === "completed");
+    const merged = everyChunkDone ? db.mergeProjectAudio(projectId) : null;
+    if (!merged) project.status = "draft";
+    server.emit(projectId, "generation_complete", {
+      total_chunks: queue.length,
+      succeeded: queue.length,
+      failed: 0,
+      total_duration: merged?.duration,
+      success_rate: 100,
+    });
+  };
+
+  if (queue.length) server.later(step);
+  return { task_id: db.nextId("task") };
+};
+
+const registerProjectRoutes = (server: MockServer) => {
+  server.get("/projects", ({ query }) => {
+    const bookId = query.get("book_id");
+    const status = query.get("status") || query.get("status_filter");
+    const projects = db.projects.filter(
+      (project) => (!bookId || project.book_id === bookId) && (!status || project.status === status)
+    );
+    return ok(paginate(projects, query));
+  });
+
+  server.post<ProjectCreateDto>("/projects", ({ body }) => {
+    if (!db.findBook(body.book_id)) return notFound("Book");
+    return ok(db.createProject(body), 201);
+  });
+
+  server.get("/projects/:projectId", ({ params }) => {
+    const project = db.findProject(params.projectId);
+    return project ? ok(project) : notFound("Project");
+  });
+
+  server.patch<ProjectUpdateDto>("/projects/:projectId", ({ params, body }) => {
+    const project = db.findProject(params.projectId);
+    if (!project) return notFound("Project");
+    if (body.name) project.name = body.name;
+    if (body.description !== undefined) project.description = body.description;
+    if (body.config) {
+      const updates = Object.fromEntries(Object.entries(body.config).filter(([, value]) => value != null));
+      project.config = { ...project.config, ...updates };
+    }
+    project.updated_at = now();
+    return ok(project);
+  });
+
+  server.delete("/projects/:projectId", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    db.projects = db.projects.filter((project) => project.id !== params.projectId);
+    db.chunks = db.chunks.filter((chunk) => chunk.project_id !== params.projectId);
+    db.scripts.delete(params.projectId);
+    db.voiceConfigs.delete(params.projectId);
+    return ok({ deleted: true });
+  });
+
+  server.get("/projects/:projectId/audio/download", ({ params }) => {
+    const project = db.findProject(params.projectId);
+    if (!project?.audio_path) return notFound("Audio");
+    return raw(audioBlob(project.audio_path));
+  });
+};
+
+const registerScriptRoutes = (server: MockServer) => {
+  const withScript = (projectId: string) => (db.findProject(projectId) ? db.scripts.get(projectId) : undefined);
+
+  server.post<ScriptGenerateRequestDto>("/projects/:projectId/scripts/generate", ({ params, body }) => {
+    const script = withScript(params.projectId);
+    if (!script) return notFound("Project");
+    const book = db.findBook(db.findProject(params.projectId).book_id);
+    if (!book) return fail(400, "BOOK_MISSING", "项目关联的书籍不存在");
+
+    script.status = "generating";
+    script.error_message = null;
+    server.emit(params.projectId, "progress", { status: "generating", percentage: 0 }, "正在生成脚本");
+    server.later(() => {
+      const text = body.source_text || book.content;
+      // Sections follow the book's chapters, including the reader's corrections
+      const chapters =
+        body.options?.detect_sections === false ? [] : text === book.content ? bookChapters(book) : undefined;
+      script.content = draftScript(text, body.options?.detect_emotions ?? true, chapters);
+      script.status = "approved";
+      server.emit(params.projectId, "progress", { status: "approved", percentage: 100 }, "脚本已生成");
+    });
+    return ok({ script_id: script.id, status: script.status });
+  });
+
+  server.get("/projects/:projectId/scripts/status", ({ params }) =>
+    withScript(params.projectId) ? ok(toScriptStatus(params.projectId)) : notFound("Script")
+  );
+
+  server.get("/projects/:projectId/scripts", ({ params }) => {
+    const script = withScript(params.projectId);
+    return script ? ok({ content: script.content }) : notFound("Script");
+  });
+
+  server.patch<ScriptUpdateDto>("/projects/:projectId/scripts", ({ params, body }) => {
+    const script = withScript(params.projectId);
+    if (!script) return notFound("Script");
+    script.content = body.content.map((entry, index) => ({ ...entry, index }));
+    return ok(toScriptStatus(params.projectId));
+  });
+
+  server.post<ScriptReviewRequestDto>("/projects/:projectId/scripts/review", ({ params, body }) => {
+    const script = withScript(params.projectId);
+    if (!script) return notFound("Script");
+    // The only thing the mock reviewer catches is stray whitespace around speaker names
+    const untidy = script.content.filter((entry) => entry.speaker !== entry.speaker.trim());
+    if (body.auto_fix) {
+      untidy.forEach((entry) => (entry.speaker = entry.speaker.trim()));
+    }
+    return ok({
+      fixed_count: body.auto_fix ? untidy.length : 0,
+      issues: untidy.map((entry) => `第 ${entry.index + 1} 条的说话人名称包含多余空格`),
+    });
+  });
+
+  server.post("/projects/:projectId/scripts/approve", ({ params }) => {
+    const script = withScript(params.projectId);
+    if (!script) return notFound("Script");
+    script.status = "approved";
+    return ok(toScriptStatus(params.projectId));
+  });
+
+  server.post("/projects/:projectId/scripts/chunks", ({ params }) => {
+    const script = withScript(params.projectId);
+    if (!script) return notFound("Script");
+    if (!script.content.length) return fail(400, "SCRIPT_EMPTY", "脚本为空，无法创建音频块");
+    const chunks = db.createChunks(params.projectId);
+    return ok({ chunks_created: chunks.length });
+  });
+};
+
+const registerChunkRoutes = (server: MockServer) => {
+  const findChunk = (projectId: string, chunkId: string) =>
+    db.chunks.find((chunk) => chunk.project_id === projectId && chunk.id === chunkId);
+
+  server.get("/projects/:projectId/chunks", ({ params, query }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const speaker = query.get("speaker");
+    const status = query.get("status");
+    const chunks = db
+      .projectChunks(params.projectId)
+      .filter((chunk) => (!speaker || chunk.speaker === speaker) && (!status || chunk.status === status));
+    return ok(paginate(chunks, query));
+  });
+
+  server.get("/projects/:projectId/chunks/progress", ({ params }) =>
+    db.findProject(params.projectId) ? ok(chunkProgress(params.projectId)) : notFound("Project")
+  );
+
+  server.patch<ChunkUpdateDto>("/projects/:projectId/chunks/:chunkId", ({ params, body }) => {
+    const chunk = findChunk(params.projectId, params.chunkId);
+    if (!chunk) return notFound("Chunk");
+    (["text", "instruct", "speaker"] as const).forEach((key) => {
+      if (body[key] != null) chunk[key] = body[key];
+    });
+    // Edited text has to be voiced again
+    if (body.text != null) {
+      chunk.status = "pending";
+      chunk.audio_path = null;
+      chunk.duration = null;
+    }
+    chunk.updated_at = now();
+    db.updateProgress(params.projectId);
+    return ok(chunk);
+  });
+
+  const generateOne = ({ params }: { params: Record<string, string> }) => {
+    const chunk = findChunk(params.projectId, params.chunkId);
+    if (!chunk) return notFound("Chunk");
+    db.completeChunk(chunk);
+    return ok({ chunk_id: chunk.id, status: chunk.status, audio_url: chunk.audio_path, duration: chunk.duration });
+  };
+
+  server.post("/projects/:projectId/chunks/:chunkId/generate", generateOne);
+  server.post("/projects/:projectId/chunks/:chunkId/retry", generateOne);
+
+  server.post<BatchGenerateRequestDto>("/projects/:projectId/chunks/generate-batch", ({ params, body }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    return ok(runGeneration(server, params.projectId, body.chunk_ids ?? []));
+  });
+
+  server.post("/projects/:projectId/chunks/generate-fast", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const pending = db
+      .projectChunks(params.projectId)
+      .filter((chunk) => chunk.status !== "completed")
+      .map((chunk) => chunk.id);
+    return ok(runGeneration(server, params.projectId, pending));
+  });
+};
+
+const registerAudioRoutes = (server: MockServer) => {
+  server.post("/projects/:projectId/audio/merge", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const audio = db.mergeProjectAudio(params.projectId);
+    if (!audio) return fail(400, "NO_COMPLETED_CHUNKS", "没有已完成的音频块可供合并");
+    return ok(projectAudio(params.projectId));
+  });
+
+  // The reader polls this while audio is being made, so "not yet" is a normal answer
+  server.get("/projects/:projectId/audio", ({ params }) => {
+    const project = db.findProject(params.projectId);
+    if (!project) return notFound("Project");
+    if (!project.audio_path) {
+      return { status: 200, body: { success: false, error: { code: "AUDIO_NOT_READY", message: "音频尚未生成" } } };
+    }
+    return ok(projectAudio(params.projectId));
+  });
+
+  server.post("/projects/:projectId/audio/export", ({ params, query }) => {
+    const project = db.findProject(params.projectId);
+    if (!project) return notFound("Project");
+    if (!project.audio_path) return fail(400, "AUDIO_NOT_READY", "请先合并音频");
+    const format = query.get("export_format") || "combined";
+    const name = query.get("project_name") || project.name;
+    return ok({
+      format,
+      audio_url: project.audio_path,
+      download_url: project.audio_path,
+      filename: `${name}_${format}.wav`,
+      chunks_count: db.projectChunks(project.id).length,
+      duration: project.duration,
+      message: "导出完成",
+    });
+  });
+};
+
+const registerProjectVoiceRoutes = (server: MockServer) => {
+  server.get("/projects/:projectId/voices", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    return ok({ voices: db.voiceConfigs.get(params.projectId) ?? [] });
+  });
+
+  server.post("/projects/:projectId/voices/parse", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    return ok({
+      speakers: speakersOf(params.projectId),
+      total_entries: db.scripts.get(params.projectId).content.length,
+    });
+  });
+
+  server.post<{ voices: VoiceConfig[] }>("/projects/:projectId/voices/config", ({ params, body }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    db.voiceConfigs.set(params.projectId, body.voices ?? []);
+    return ok({ updated: true, count: body.voices?.length ?? 0 });
+  });
+
+  server.get("/projects/:projectId/voice-consistency/check", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const entries = db.scripts.get(params.projectId).content;
+    const configured = new Set((db.voiceConfigs.get(params.projectId) ?? []).map((voice) => voice.speaker));
+    const summary: Record<string, number> = {};
+    entries.forEach((entry) => (summary[entry.speaker] = (summary[entry.speaker] ?? 0) + 1));
+    const issues = Object.entries(summary)
+      .filter(([speaker]) => !configured.has(speaker))
+      .map(([speaker, count]) => ({
+        speaker,
+        issue_type: "missing_voice",
+        description: `${speaker} 尚未配置音色`,
+        affected_entries: count,
+      }));
+    return ok({ is_consistent: !issues.length, issues, speakers_summary: summary });
+  });
+
+  server.post("/projects/:projectId/voice-consistency/auto-fix", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const voices = db.voiceConfigs.get(params.projectId) ?? [];
+    const missing = speakersOf(params.projectId).filter((speaker) => !voices.some((voice) => voice.speaker === speaker));
+    db.voiceConfigs.set(params.projectId, [...voices, ...missing.map(voiceFor)]);
+    return ok({
+      fixed_count: missing.length,
+      issues_fixed: missing.map((speaker) => `已为 ${speaker} 分配默认音色`),
+      remaining_issues: [],
+    });
+  });
+
+  server.get("/projects/:projectId/voice-consistency/suggest/:speaker", ({ params }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const config = voiceFor(params.speaker);
+    return ok({
+      speaker: params.speaker,
+      suggested_voice: config.voice_name,
+      suggested_config: config,
+      reason: "根据角色名称分配的默认中文音色",
+    });
+  });
+};
+
+export const registerProductionRoutes = (server: MockServer) => {
+  registerProjectRoutes(server);
+  registerScriptRoutes(server);
+  registerChunkRoutes(server);
+  registerAudioRoutes(server);
+  registerProjectVoiceRoutes(server);
+};
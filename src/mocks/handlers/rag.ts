@@ -0,0 +1,112 @@
+/**
+ * Mock routes for the RAG document Q&A
+ */
+import type { DocumentIngestRequest, QueryRequest } from "@/services/rag";
+import { db, RAG_CHUNK_SIZE, splitIntoRagChunks } from "../db";
+import { fail, notFound, ok, readBlobText, type MockServer } from "../server";
+
+const DEFAULT_TOP_K = 3;
+
+// Character bigrams stand in for embeddings; they work for Chinese without a tokenizer
+const bigrams = (text: string) => {
+  const compact = text.toLowerCase().replace(/\s+/g, "");
+  const grams = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.add(compact.slice(i, i + 2));
+  }
+  return grams;
+};
+
+const similarity = (question: Set<string>, chunk: string) => {
+  if (!question.size) return 0;
+  const grams = bigrams(chunk);
+  let shared = 0;
+  question.forEach((gram) => grams.has(gram) && shared++);
+  return Math.round((shared / question.size) * 1000) / 1000;
+};
+
+const ingest = (docId: string, text: string, metadata: Record<string, unknown> = {}) => {
+  const document = { doc_id: docId, metadata, chunks: splitIntoRagChunks(text) };
+  db.ragDocuments = [...db.ragDocuments.filter((candidate) => candidate.doc_id !== docId), document];
+  return {
+    doc_id: docId,
+    chunk_count: document.chunks.length,
+    status: "success",
+    message: `已导入 ${document.chunks.length} 个文本块`,
+  };
+};
+
+export const registerRagRoutes = (server: MockServer) => {
+  server.post<DocumentIngestRequest>("/rag/ingest", ({ body }) => {
+    if (!body.text?.trim()) return fail(400, "TEXT_REQUIRED", "文档内容不能为空");
+    return ok(ingest(body.doc_id || db.nextId("doc"), body.text, body.metadata));
+  });
+
+  server.post("/rag/ingest-file", async ({ form }) => {
+    const file = form?.get("file");
+    if (!(file instanceof Blob)) return fail(400, "FILE_REQUIRED", "请选择要导入的文件");
+    const name = file instanceof File ? file.name : "document.txt";
+    return ok(ingest(name.replace(/\.[^.]+$/, ""), await readBlobText(file), { filename: name }));
+  });
+
+  server.post<QueryRequest>("/rag/query", ({ body }) => {
+    const question = bigrams(body.question || "");
+    const citations = db.ragDocuments
+      .flatMap((document) =>
+        document.chunks.map((content, index) => ({
+          chunk_id: `${document.doc_id}-${index}`,
+          content,
+          doc_id: document.doc_id,
+          score: similarity(question, content),
+          metadata: document.metadata,
+        }))
+      )
+      .filter((citation) => citation.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, body.top_k ?? DEFAULT_TOP_K);
+    const context = citations.map((citation) => citation.content).join("\n\n");
+
+    return ok({
+      question: body.question,
+      context,
+      citations,
+      web_results: [],
+      answer:
+        body.generate_answer === false
+          ? null
+          : citations.length
+            ? `根据资料：${citations[0].content}`
+            : "资料中没有找到相关内容。",
+      num_chunks: citations.length,
+      num_web_results: 0,
+    });
+  });
+
+  server.delete<{ doc_id: string }>("/rag/document", ({ body }) => {
+    if (!db.ragDocuments.some((document) => document.doc_id === body.doc_id)) return notFound("Document");
+    db.ragDocuments = db.ragDocuments.filter((document) => document.doc_id !== body.doc_id);
+    return ok({ status: "success", message: `已删除文档 ${body.doc_id}` });
+  });
+
+  server.get("/rag/stats", () =>
+    ok({
+      total_chunks: db.ragDocuments.reduce((sum, document) => sum + document.chunks.length, 0),
+      total_documents: db.ragDocuments.length,
+      embedding_model: "mock-bigram",
+      chunk_size: RAG_CHUNK_SIZE,
+      chunk_overlap: 0,
+      top_k: DEFAULT_TOP_K,
+      web_search_enabled: false,
+    })
+  );
+
+  server.get("/rag/documents", () =>
+    ok(
+      db.ragDocuments.map((document) => ({
+        doc_id: document.doc_id,
+        chunk_count: document.chunks.length,
+        metadata: document.metadata,
+      }))
+    )
+  );
+};
@@ -0,0 +1,167 @@
+/**
+ * Mock routes for configuration, system status, rate limits and LoRA training
+ */
+import type { SystemConfigUpdate } from "@/services/config";
+import type { TrainingRequest } from "@/services/lora";
+import { db, now } from "../db";
+import { LORA_REQUIREMENTS, QUOTA_TIERS, SYSTEM_CONFIG } from "../fixtures";
+import { fail, notFound, ok, raw, type MockServer } from "../server";
+
+const RATE_LIMIT = { requests_per_minute: 60, requests_per_hour: 1000, burst_size: 10 };
+
+const rateLimitStatus = (userId: string) => {
+  const used = db.requestCounts.get(userId) ?? 0;
+  const { daily, monthly } = QUOTA_TIERS.free;
+  return {
+    user_id: userId,
+    rate_limit: {
+      minute_remaining: Math.max(0, RATE_LIMIT.requests_per_minute - used),
+      hour_remaining: Math.max(0, RATE_LIMIT.requests_per_hour - used),
+      minute_limit: RATE_LIMIT.requests_per_minute,
+      hour_limit: RATE_LIMIT.requests_per_hour,
+    },
+    quota: {
+      tier: "free",
+      daily_used: used,
+      daily_limit: daily,
+      daily_remaining: Math.max(0, daily - used),
+      monthly_used: used,
+      monthly_limit: monthly,
+      monthly_remaining: Math.max(0, monthly - used),
+    },
+  };
+};
+
+const registerConfigRoutes = (server: MockServer) => {
+  server.get("/config", () => ok(db.config));
+
+  server.patch<SystemConfigUpdate>("/config", ({ body }) => {
+    (Object.keys(db.config) as (keyof typeof db.config)[]).forEach((section) => {
+      if (body[section]) Object.assign(db.config[section], body[section]);
+    });
+    return ok(db.config);
+  });
+
+  server.get("/config/prompts/default", () => ok(SYSTEM_CONFIG.prompts));
+
+  server.get("/config/system/status", () =>
+    ok({
+      status: "healthy",
+      version: "mock",
+      timestamp: now(),
+      services: { tts: "mock", llm: "mock", database: "in-memory" },
+      resources: {
+        cpu_usage: 12.5,
+        memory_usage: 40,
+        memory_total_gb: 16,
+        memory_used_gb: 6.4,
+        disk_usage: 35,
+        disk_total_gb: 512,
+        disk_used_gb: 179.2,
+      },
+    })
+  );
+};
+
+const registerRateLimitRoutes = (server: MockServer) => {
+  server.get("/rate-limit/status", ({ query }) => ok(rateLimitStatus(query.get("user_id") || "anonymous")));
+
+  server.get("/rate-limit/stats", () =>
+    ok({ total_tracked_users: db.requestCounts.size, rate_limit_config: RATE_LIMIT, quota_tiers: QUOTA_TIERS })
+  );
+
+  server.post("/rate-limit/reset/:userId", ({ params }) => {
+    db.requestCounts.delete(params.userId);
+    return ok({ message: "已重置用户限额", user_id: params.userId });
+  });
+
+  server.get("/quota/tiers", () =>
+    ok({ tiers: QUOTA_TIERS, current_tier_counts: { free: db.users.length, pro: 0 } })
+  );
+};
+
+const registerLoraRoutes = (server: MockServer) => {
+  server.get("/lora/requirements", () => ok(LORA_REQUIREMENTS));
+
+  // Every poll moves a running job on by one epoch, so a short run finishes in a few polls
+  server.get("/lora/projects/:projectId/progress", ({ params }) => {
+    const job = db.trainingJobs.get(params.projectId);
+    if (!job) return ok({ status: "idle" });
+
+    const { progress } = job;
+    if (progress.status === "preparing" || progress.status === "training") {
+      const epoch = progress.current_epoch + 1;
+      progress.status = epoch >= progress.total_epochs ? "completed" : "training";
+      progress.current_epoch = epoch;
+      progress.loss = Math.round((1 / (epoch + 1)) * 1000) / 1000;
+      progress.elapsed_time = epoch * 30;
+      progress.estimated_time_remaining = (progress.total_epochs - epoch) * 30;
+      if (progress.status === "completed") {
+        progress.checkpoint_path = `lora/${params.projectId}/${job.voice_name}.safetensors`;
+      }
+    }
+    return ok(progress);
+  });
+
+  // Target of completed `lora_dataset` uploads
+  server.post("/lora/projects/:projectId/dataset", ({ params, form }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const file = form?.get("file");
+    if (!(file instanceof Blob)) return fail(400, "FILE_REQUIRED", "请上传训练音频");
+    const sample = {
+      sample_id: db.nextId("sample"),
+      filename: file instanceof File ? file.name : "sample.wav",
+      split: form.get("split") === "validation" ? ("validation" as const) : ("training" as const),
+      duration: null,
+    };
+    db.datasetSamples.set(params.projectId, [...(db.datasetSamples.get(params.projectId) ?? []), sample]);
+    return ok(sample, 201);
+  });
+
+  server.post<TrainingRequest>("/lora/projects/:projectId/train", ({ params, body }) => {
+    if (!db.findProject(params.projectId)) return notFound("Project");
+    const completed = db.projectChunks(params.projectId).filter((chunk) => chunk.status === "completed");
+    const uploaded = (db.datasetSamples.get(params.projectId) ?? []).filter((sample) => sample.split === "training");
+    if (completed.length + uploaded.length < 1) {
+      return fail(400, "NOT_ENOUGH_SAMPLES", "项目中没有可用于训练的已生成音频或上传样本");
+    }
+    const running = db.trainingJobs.get(params.projectId)?.progress.status;
+    if (running === "preparing" || running === "training") {
+      return fail(409, "TRAINING_IN_PROGRESS", "该项目已有训练任务在运行");
+    }
+    db.trainingJobs.set(params.projectId, {
+      voice_name: body.voice_name,
+      progress: {
+        status: "preparing",
+        current_epoch: 0,
+        total_epochs: body.num_epochs,
+        loss: null,
+        learning_rate: body.learning_rate,
+        elapsed_time: 0,
+        estimated_time_remaining: body.num_epochs * 30,
+        checkpoint_path: null,
+        error: null,
+      },
+    });
+    return ok({ message: `开始训练 ${body.voice_name}` });
+  });
+
+  server.post("/lora/projects/:projectId/cancel", ({ params }) => {
+    const job = db.trainingJobs.get(params.projectId);
+    if (!job) return notFound("Training job");
+    job.progress.status = "cancelled";
+    return ok({ message: "训练已取消" });
+  });
+
+  server.get("/lora/projects/:projectId/checkpoint/download", ({ params }) => {
+    const job = db.trainingJobs.get(params.projectId);
+    if (job?.progress.status !== "completed") return notFound("Checkpoint");
+    return raw(new Blob([`mock LoRA checkpoint: ${job.voice_name}`], { type: "application/octet-stream" }));
+  });
+};
+
+export const registerSystemRoutes = (server: MockServer) => {
+  registerConfigRoutes(server);
+  registerRateLimitRoutes(server);
+  registerLoraRoutes(server);
+};
@@ -0,0 +1,109 @@
+/**
+ * Mock routes for resumable chunked uploads
+ *
+ * Completed uploads are handed to the route that takes the same file in one
+ * request, so a chunked book upload ends up exactly like `/books/upload`.
+ */
+import { chunkChecksum, type UploadPurpose, type UploadSessionCreate } from "@/services/uploads";
+import { db, now, type MockUpload } from "../db";
+import { fail, notFound, ok, type MockServer } from "../server";
+
+const MIN_CHUNK_SIZE = 1;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// Where each purpose sends the assembled file, and under which form field
+const TARGETS: Record<UploadPurpose, { path: (fields: FormData) => string; field: string }> = {
+  book: { path: () => "/books/upload", field: "file" },
+  rag_document: { path: () => "/rag/ingest-file", field: "file" },
+  voice_clone: { path: () => "/voices/clone/upload", field: "audio" },
+  lora_dataset: { path: (fields) => `/lora/projects/${fields.get("project_id")}/dataset`, field: "file" },
+};
+
+const toSessionDto = (upload: MockUpload) => ({
+  upload_id: upload.upload_id,
+  chunk_size: upload.chunk_size,
+  total_chunks: upload.total_chunks,
+  received_chunks: [...upload.chunks.keys()].sort((a, b) => a - b),
+  expires_at: null,
+});
+
+const expectedChunkSize = (upload: MockUpload, index: number) =>
+  Math.min(upload.chunk_size, upload.size - index * upload.chunk_size);
+
+export const registerUploadRoutes = (server: MockServer) => {
+  server.post<UploadSessionCreate>("/uploads", ({ body }) => {
+    if (!(body.purpose in TARGETS)) {
+      return fail(400, "UNSUPPORTED_PURPOSE", `Unknown upload purpose: ${body.purpose}`);
+    }
+    const chunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, body.chunk_size || MAX_CHUNK_SIZE));
+    const upload: MockUpload = {
+      upload_id: db.nextId("upload"),
+      purpose: body.purpose,
+      filename: body.filename,
+      size: body.size,
+      mime_type: body.mime_type,
+      chunk_size: chunkSize,
+      total_chunks: Math.max(1, Math.ceil(body.size / chunkSize)),
+      chunks: new Map(),
+      created_at: now(),
+    };
+    db.uploads.set(upload.upload_id, upload);
+    return ok(toSessionDto(upload), 201);
+  });
+
+  server.get("/uploads/:uploadId", ({ params }) => {
+    const upload = db.uploads.get(params.uploadId);
+    return upload ? ok(toSessionDto(upload)) : notFound("Upload");
+  });
+
+  server.post("/uploads/:uploadId/chunks/:index", async ({ params, form }) => {
+    const upload = db.uploads.get(params.uploadId);
+    if (!upload) return notFound("Upload");
+    const index = Number(params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= upload.total_chunks) {
+      return fail(400, "INVALID_CHUNK_INDEX", `Chunk ${params.index} is out of range`);
+    }
+    const chunk = form?.get("chunk");
+    if (!(chunk instanceof Blob)) return fail(400, "CHUNK_REQUIRED", "Missing chunk data");
+    if (chunk.size !== expectedChunkSize(upload, index)) {
+      return fail(422, "CHUNK_SIZE_MISMATCH", `Chunk ${index} should be ${expectedChunkSize(upload, index)} bytes`);
+    }
+    const checksum = form.get("checksum");
+    if (checksum && checksum !== (await chunkChecksum(chunk))) {
+      return fail(422, "CHECKSUM_MISMATCH", `Checksum of chunk ${index} does not match`);
+    }
+    upload.chunks.set(index, chunk);
+    return ok({ index, received_chunks: upload.chunks.size });
+  });
+
+  server.post("/uploads/:uploadId/complete", async ({ params, form, query, headers }) => {
+    const upload = db.uploads.get(params.uploadId);
+    if (!upload) return notFound("Upload");
+    if (upload.chunks.size < upload.total_chunks) {
+      return fail(409, "UPLOAD_INCOMPLETE", `${upload.total_chunks - upload.chunks.size} chunks are still missing`);
+    }
+
+    const parts = [...upload.chunks.entries()].sort(([a], [b]) => a - b).map(([, chunk]) => chunk);
+    const fields = form ?? new FormData();
+    const target = TARGETS[upload.purpose];
+    fields.set(target.field, new File(parts, upload.filename, { type: upload.mime_type }));
+
+    const response = await server.handle({
+      method: "post",
+      path: target.path(fields),
+      query,
+      body: {},
+      form: fields,
+      headers,
+    });
+    if (response.status < 400) {
+      db.uploads.delete(upload.upload_id);
+    }
+    return response;
+  });
+
+  server.delete("/uploads/:uploadId", ({ params }) => {
+    if (!db.uploads.delete(params.uploadId)) return notFound("Upload");
+    return ok({ deleted: true });
+  });
+};
@@ -0,0 +1,188 @@
+/**
+ * Mock routes for voice styling, emotion presets and voice analysis
+ */
+import type {
+  EmotionRecognizeRequest,
+  EnhanceRequest,
+  QualityAssessRequest,
+  SpeakerAnalyzeRequest,
+  SSMLGenerateRequest,
+  SSMLElement,
+  VADDetectRequest,
+} from "@/services/voiceAdvanced";
+import type { EmotionParameters, VoiceStylingRequest } from "@/services/voiceStyling";
+import { fakeSpeech, hashText } from "../audio";
+import { db } from "../db";
+import { EMOTION_PRESETS, SCENARIO_PRESETS } from "../fixtures";
+import { fail, notFound, ok, type MockServer } from "../server";
+
+const EMOTIONS = ["neutral", "happy", "sad", "angry", "fearful", "disgusted", "surprised"] as const;
+
+// Analysis of a clip the mock never heard: stable numbers derived from its path
+const clipDuration = (audioPath: string) => 2 + (hashText(audioPath) % 80) / 10;
+const clipScore = (audioPath: string, salt: string) => 0.6 + (hashText(salt + audioPath) % 35) / 100;
+const fileOf = (audioPath: string) => audioPath.split("/").pop() || audioPath;
+
+const ssmlOf = (elements: SSMLElement[]): string =>
+  elements
+    .map(({ type, content, attributes, children }) => {
+      const attrs = Object.entries(attributes ?? {})
+        .map(([name, value]) => ` ${name}="${value}"`)
+        .join("");
+      if (type === "text") return content ?? "";
+      if (type === "break" || type === "mark") return `<${type}${attrs}/>`;
+      return `<${type}${attrs}>${children ? ssmlOf(children) : content ?? ""}</${type}>`;
+    })
+    .join("");
+
+const registerStylingRoutes = (server: MockServer) => {
+  server.get("/voice-styling/presets", () => ok(EMOTION_PRESETS));
+
+  server.get("/voice-styling/presets/:presetId", ({ params }) => {
+    const preset = EMOTION_PRESETS.find((p) => p.id === params.presetId);
+    return preset ? ok(preset) : notFound("Preset");
+  });
+
+  // Answers both the simple form (emotion by name) and the full one (emotion parameters)
+  server.post<Partial<VoiceStylingRequest> & { emotion?: EmotionParameters | string }>(
+    "/voice-styling/generate-styled",
+    ({ body }) => {
+      if (!body.text) return fail(400, "TEXT_REQUIRED", "请输入要合成的文本");
+      const audio = fakeSpeech(body.text);
+      const emotion = typeof body.emotion === "object" ? body.emotion : null;
+      return ok({
+        audio_url: audio.url,
+        duration: audio.duration,
+        instruction: typeof body.emotion === "string" ? `用${body.emotion}的语气说` : null,
+        emotion_applied: emotion,
+        message: "Styled speech generated",
+      });
+    }
+  );
+
+  server.post("/voice-styling/batch-clone", ({ form }) => {
+    const samples = form?.getAll("voice_samples") ?? [];
+    if (!samples.length) return fail(400, "FILE_REQUIRED", "请至少上传一个声音样本");
+    const voiceId = db.nextId("styled-voice");
+    const voiceName = String(form.get("voice_name") || "自定义音色");
+    return ok({
+      voice_id: voiceId,
+      voice_name: voiceName,
+      sample_count: samples.length,
+      sample_paths: samples.map((_, index) => `voices/${voiceId}/sample-${index}.wav`),
+      language: String(form.get("language") || "zh-CN"),
+      status: "ready",
+      message: `已使用 ${samples.length} 个样本克隆音色 ${voiceName}`,
+    });
+  });
+};
+
+const registerEmotionPresetRoutes = (server: MockServer) => {
+  server.get("/emotion-presets", () => ok(SCENARIO_PRESETS));
+
+  server.get("/emotion-presets/category/:category", ({ params }) =>
+    ok(SCENARIO_PRESETS.filter((preset) => preset.category === params.category))
+  );
+
+  server.get("/emotion-presets/:presetId", ({ params }) => {
+    const preset = SCENARIO_PRESETS.find((p) => p.id === params.presetId);
+    return preset ? ok(preset) : notFound("Preset");
+  });
+};
+
+const registerVoiceAdvancedRoutes = (server: MockServer) => {
+  server.post<SSMLGenerateRequest>("/voice-advanced/ssml/generate", ({ body }) => {
+    const audio = fakeSpeech(body.text || "");
+    const inner = body.elements?.length ? ssmlOf(body.elements) : body.text || "";
+    return ok({ ssml: `<speak>${inner}</speak>`, audio_url: audio.url, duration: audio.duration });
+  });
+
+  server.post<VADDetectRequest>("/voice-advanced/vad/detect", ({ body }) => {
+    const total = clipDuration(body.audio_path);
+    // Speech, a pause, then speech again
+    const pause = Math.round(total * 0.4 * 10) / 10;
+    const segments = [
+      { start: 0, end: pause, type: "speech" as const, confidence: 0.95 },
+      { start: pause, end: pause + 0.5, type: "silence" as const, confidence: 0.9 },
+      { start: pause + 0.5, end: total, type: "speech" as const, confidence: 0.93 },
+    ];
+    const speech = Math.round((total - 0.5) * 10) / 10;
+    return ok({
+      segments,
+      speech_duration: speech,
+      silence_duration: 0.5,
+      total_duration: total,
+      speech_ratio: Math.round((speech / total) * 100) / 100,
+      segment_count: segments.length,
+    });
+  });
+
+  server.post<SpeakerAnalyzeRequest>("/voice-advanced/speaker/analyze", ({ body }) => {
+    const female = hashText(body.audio_path) % 2 === 0;
+    const mean = female ? 220 : 120;
+    return ok({
+      filename: fileOf(body.audio_path),
+      duration: clipDuration(body.audio_path),
+      features: {
+        gender: { detected: female ? "female" : "male", confidence: clipScore(body.audio_path, "gender") },
+        age_range: { detected: "25-35", confidence: 0.7 },
+        pitch: { min: mean - 60, max: mean + 80, mean, std: 25 },
+        tempo: { words_per_minute: 240, syllables_per_second: 4 },
+        voice_type: { detected: female ? "soprano" : "baritone", confidence: 0.75 },
+      },
+      embedding: body.include_embeddings
+        ? Array.from({ length: 8 }, (_, i) => clipScore(body.audio_path, `e${i}`))
+        : null,
+      quality_score: clipScore(body.audio_path, "quality"),
+      recommendations: [],
+    });
+  });
+
+  server.post<EmotionRecognizeRequest>("/voice-advanced/emotion/recognize", ({ body }) => {
+    const primary = EMOTIONS[hashText(body.audio_path) % EMOTIONS.length];
+    const confidence = clipScore(body.audio_path, "emotion");
+    const rest = Math.round(((1 - confidence) / (EMOTIONS.length - 1)) * 1000) / 1000;
+    const scores = Object.fromEntries(EMOTIONS.map((emotion) => [emotion, emotion === primary ? confidence : rest]));
+    const duration = clipDuration(body.audio_path);
+    return ok({
+      filename: fileOf(body.audio_path),
+      duration,
+      overall_emotion: { primary, confidence, all_scores: scores, arousal_valence: null },
+      segments: body.segment_analysis ? [{ start: 0, end: duration, emotion: primary, confidence }] : null,
+      emotional_intensity: confidence,
+    });
+  });
+
+  server.post<EnhanceRequest>("/voice-advanced/enhance", ({ body }) => {
+    const outputPath = body.output_path || body.audio_path.replace(/(\.\w+)?$/, "_enhanced$1");
+    return ok({
+      output_path: outputPath,
+      output_url: fakeSpeech(outputPath).url,
+      duration: clipDuration(body.audio_path),
+      enhancements_applied: {
+        denoise: !!body.denoise,
+        dereverb: !!body.dereverb,
+        volume_normalize: !!body.normalize_volume,
+        breath_reduction: !!body.reduce_breath,
+        target_lufs: body.target_lufs ?? null,
+      },
+    });
+  });
+
+  server.post<QualityAssessRequest>("/voice-advanced/assess-quality", ({ body }) =>
+    ok({
+      mos_score: Math.round(clipScore(body.audio_path, "mos") * 5 * 10) / 10,
+      speaker_similarity: clipScore(body.audio_path, "speaker"),
+      emotion_accuracy: clipScore(body.audio_path, "emotion"),
+      snr_db: 20 + (hashText(body.audio_path) % 150) / 10,
+      dynamic_range_db: 12,
+      recommendations: [],
+    })
+  );
+};
+
+export const registerVoiceStylingRoutes = (server: MockServer) => {
+  registerStylingRoutes(server);
+  registerEmotionPresetRoutes(server);
+  registerVoiceAdvancedRoutes(server);
+};
@@ -0,0 +1,179 @@
+/**
+ * Mock routes for voices, CosyVoice and Qwen3-TTS
+ */
+import type { SpeechGenerationRequest } from "@/services/qwenTts";
+import { fakeSpeech, fakeSpeechBlob, speechDuration } from "../audio";
+import { db } from "../db";
+import {
+  COSY_INSTRUCTIONS,
+  COSY_LANGUAGES,
+  COSY_MODEL,
+  COSY_MODELS,
+  COSY_SPEAKERS,
+  QWEN_LANGUAGES,
+  QWEN_VOICES,
+  SEED_VOICES,
+  VOICE_REFERENCE,
+} from "../fixtures";
+import { fail, ok, raw, type MockServer } from "../server";
+
+const QWEN_SAMPLE_RATE = 24000;
+
+const fileName = (value: FormDataEntryValue | null) => (value instanceof File ? value.name : "reference.wav");
+
+const registerVoiceRoutes = (server: MockServer) => {
+  server.get("/voices", () => ok(SEED_VOICES));
+
+  server.get("/voices/reference", () => ok(VOICE_REFERENCE));
+
+  server.post<{ text: string }>("/voices/preview", ({ body }) => {
+    const audio = fakeSpeech(body.text || "");
+    return ok({ audio_url: audio.url, duration: audio.duration });
+  });
+
+  server.post("/voices/clone/upload", ({ form }) => {
+    const audio = form?.get("audio");
+    if (!(audio instanceof Blob)) return fail(400, "FILE_REQUIRED", "请上传参考音频");
+    return ok({
+      audio_path: `voices/clone/${db.nextId("clone")}-${fileName(audio)}`,
+      duration: speechDuration(String(form.get("text") || "")),
+    });
+  });
+
+  server.post<{ description: string }>("/voices/design", ({ body }) =>
+    ok({ preview_url: fakeSpeech(body.description || "").url, voice_id: db.nextId("designed-voice") })
+  );
+};
+
+const registerCosyVoiceRoutes = (server: MockServer) => {
+  const speechFields = (form: FormData) => {
+    const text = String(form.get("text") || "");
+    const audio = fakeSpeech(text);
+    return {
+      audio_path: `cosy_voice/${db.nextId("cosy")}.wav`,
+      audio_url: audio.url,
+      duration: audio.duration,
+      text,
+      model: String(form.get("model") || COSY_MODEL),
+      language: String(form.get("language") || "auto"),
+      instruction: form.get("instruction") ? String(form.get("instruction")) : null,
+    };
+  };
+
+  server.get("/cosy-voice/models", () => ok(COSY_MODELS));
+
+  server.get("/cosy-voice/info", () =>
+    ok({
+      service: "CosyVoice (mock)",
+      version: "3.0",
+      supported_models: COSY_MODELS.map((model) => model.model_id),
+      default_model: COSY_MODEL,
+      features: COSY_MODELS[0].features,
+      supported_languages: COSY_LANGUAGES.map(({ code, name }) => ({ code, name })),
+      download_links: {
+        huggingface: "https://huggingface.co/FunAudioLLM",
+        modelscope: "https://modelscope.cn/organization/iic",
+      },
+    })
+  );
+
+  server.get("/cosy-voice/speakers", () => ok(COSY_SPEAKERS));
+  server.get("/cosy-voice/languages", () => ok(COSY_LANGUAGES));
+  server.get("/cosy-voice/instructions", () => ok(COSY_INSTRUCTIONS));
+
+  server.post("/cosy-voice/generate", ({ form }) => {
+    if (!form?.get("text")) return fail(400, "TEXT_REQUIRED", "请输入要合成的文本");
+    return ok({
+      ...speechFields(form),
+      speaker: String(form.get("speaker") || COSY_SPEAKERS[0].id),
+      speed: Number(form.get("speed") || 1),
+      voice_cloned: form.get("reference_audio") instanceof Blob,
+    });
+  });
+
+  server.post("/cosy-voice/clone", ({ form }) => {
+    if (!form?.get("text")) return fail(400, "TEXT_REQUIRED", "请输入要合成的文本");
+    if (!(form.get("reference_audio") instanceof Blob)) return fail(400, "FILE_REQUIRED", "请上传参考音频");
+    return ok({ ...speechFields(form), reference_audio: fileName(form.get("reference_audio")) });
+  });
+
+  server.post("/cosy-voice/batch", ({ form }) => {
+    const texts = (form?.getAll("texts") ?? []).map(String);
+    const results = texts.map((text, index) => {
+      const audio = fakeSpeech(text);
+      return {
+        index,
+        text,
+        audio_path: `cosy_voice/batch-${index}.wav`,
+        audio_url: audio.url,
+        duration: audio.duration,
+        error: null,
+      };
+    });
+    return ok({
+      batch_id: db.nextId("batch"),
+      total_items: texts.length,
+      succeeded: texts.length,
+      failed: 0,
+      total_duration: Math.round(results.reduce((sum, result) => sum + result.duration, 0) * 10) / 10,
+      results,
+    });
+  });
+};
+
+const registerQwenTtsRoutes = (server: MockServer) => {
+  // Answered without the envelope, like the real endpoint
+  server.post<SpeechGenerationRequest>("/qwen-tts/generate", ({ body }) => {
+    const audio = fakeSpeech(body.text || "");
+    return raw({
+      audio_url: audio.url,
+      sample_rate: audio.sampleRate,
+      duration: audio.duration,
+      format: "wav",
+      model: "qwen3-tts-mock",
+      device: "cpu",
+      message: "Speech generated",
+    });
+  });
+
+  server.post("/qwen-tts/generate-with-voice", ({ form }) => {
+    const text = String(form?.get("text") || "");
+    return raw(fakeSpeechBlob(text), {
+      "Content-Type": "audio/wav",
+      "X-Sample-Rate": String(QWEN_SAMPLE_RATE),
+      "X-Duration": String(speechDuration(text)),
+    });
+  });
+
+  server.post("/qwen-tts/clone-voice", ({ form }) => {
+    const samples = form?.getAll("voice_samples") ?? [];
+    if (!samples.length) return fail(400, "FILE_REQUIRED", "请至少上传一个声音样本");
+    const voiceName = String(form.get("voice_name") || "自定义音色");
+    return ok({
+      voice_id: db.nextId("qwen-voice"),
+      voice_name: voiceName,
+      sample_count: samples.length,
+      status: "ready",
+      message: `已使用 ${samples.length} 个样本克隆音色 ${voiceName}`,
+    });
+  });
+
+  server.get("/qwen-tts/voices", () => ok(QWEN_VOICES));
+  server.get("/qwen-tts/languages", () => ok(QWEN_LANGUAGES));
+
+  server.get("/qwen-tts/info", () =>
+    ok({
+      model: "qwen3-tts-mock",
+      device: "cpu",
+      sample_rate: QWEN_SAMPLE_RATE,
+      available_models: ["qwen3-tts-mock"],
+      mps_info: { device: "cpu", available: false, system_memory_gb: null, available_memory_gb: null },
+    })
+  );
+};
+
+export const registerVoiceServiceRoutes = (server: MockServer) => {
+  registerVoiceRoutes(server);
+  registerCosyVoiceRoutes(server);
+  registerQwenTtsRoutes(server);
+};
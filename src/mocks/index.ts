@@ -0,0 +1,64 @@
+/**
+ * Local mock backend
+ *
+ * Answers every API call in-process from seeded fixtures, with fake TTS
+ * audio, so the app runs without the Python backend, network or GPU.
+ * Enabled with `VITE_MOCK_API=true`.
+ */
+import { apiClient } from "@/services/api";
+import { setSocketFactory } from "@/services/websocket";
+import { db, DEMO_USER_ID } from "./db";
+import { registerAudioProcessorRoutes } from "./handlers/audioProcessor";
+import { registerAuthRoutes } from "./handlers/auth";
+import { registerLibraryRoutes } from "./handlers/library";
+import { registerProductionRoutes } from "./handlers/projects";
+import { registerRagRoutes } from "./handlers/rag";
+import { registerSystemRoutes } from "./handlers/system";
+import { registerUploadRoutes } from "./handlers/uploads";
+import { registerVoiceStylingRoutes } from "./handlers/voiceStyling";
+import { registerVoiceServiceRoutes } from "./handlers/voices";
+import { MockSocket, mockServer } from "./server";
+
+export { db } from "./db";
+export { DEMO_USER } from "./fixtures";
+export { mockServer } from "./server";
+
+export interface MockBackendOptions {
+  /** Latency of each request and of each step of background jobs, in ms */
+  delay?: number;
+}
+
+let installed = false;
+
+export const isMockBackendEnabled = () => import.meta.env.VITE_MOCK_API === "true";
+
+/**
+ * Route ApiClient, direct fetch() calls and progress sockets to the mock backend
+ */
+export const installMockBackend = ({ delay = 300 }: MockBackendOptions = {}) => {
+  mockServer.delay = delay;
+  if (installed) return;
+  installed = true;
+
+  registerAuthRoutes(mockServer);
+  registerLibraryRoutes(mockServer);
+  registerProductionRoutes(mockServer);
+  registerVoiceServiceRoutes(mockServer);
+  registerVoiceStylingRoutes(mockServer);
+  registerAudioProcessorRoutes(mockServer);
+  registerRagRoutes(mockServer);
+  registerSystemRoutes(mockServer);
+  registerUploadRoutes(mockServer);
+  mockServer.onRequest = () => db.recordRequest(DEMO_USER_ID);
+
+  apiClient.useAdapter(mockServer.adapter);
+  window.fetch = mockServer.createFetch(window.fetch.bind(window), import.meta.env.VITE_API_BASE_URL);
+  setSocketFactory((url) => new MockSocket(url, mockServer) as unknown as WebSocket);
+};
+
+/**
+ * Discard everything created since startup and restore the seeded data
+ */
+export const resetMockBackend = () => {
+  db.reset();
+};
@@ -0,0 +1,325 @@
+/**
+ * Mock backend server
+ * Routes requests from the axios adapter and fetch() to in-memory handlers
+ */
+import {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import type { ProgressMessage } from "@/services/websocket";
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+export interface MockRequest<B = Record<string, unknown>> {
+  method: Method;
+  path: string;
+  /** Path parameters, e.g. `bookId` for `/books/:bookId` */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** Parsed JSON body */
+  body: B;
+  /** Multipart body of uploads */
+  form: FormData | null;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  /** Response body: an ApiResponse envelope, a bare payload or a Blob */
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler<B = Record<string, unknown>> = (request: MockRequest<B>) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+  method: Method;
+  segments: string[];
+  handler: MockHandler;
+}
+
+/**
+ * Successful ApiResponse envelope
+ */
+export const ok = (data: unknown, status = 200): MockResponse => ({ status, body: { success: true, data } });
+
+/**
+ * Failed ApiResponse envelope, mirroring the backend's error shape
+ */
+export const fail = (status: number, code: string, message: string): MockResponse => ({
+  status,
+  body: { success: false, error: { code, message }, detail: message },
+});
+
+/**
+ * Payload sent without the envelope (bare JSON or a file)
+ */
+export const raw = (body: unknown, headers?: Record<string, string>): MockResponse => ({ status: 200, body, headers });
+
+export const notFound = (what: string) => fail(404, "NOT_FOUND", `${what} not found`);
+
+/**
+ * Paginated list payload; reads `page` and `page_size` from the query
+ */
+export const paginate = <T>(items: T[], query: URLSearchParams) => {
+  const page = Math.max(1, Number(query.get("page")) || 1);
+  const pageSize = Math.max(1, Number(query.get("page_size")) || 20);
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    total: items.length,
+    page,
+    page_size: pageSize,
+    total_pages: Math.max(1, Math.ceil(items.length / pageSize)),
+  };
+};
+
+/**
+ * Text of an uploaded file (FileReader works in both the browser and jsdom)
+ */
+export const readBlobText = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+// Strip the origin and API prefix so axios and fetch URLs route the same way
+const toRoutePath = (url: string): string => {
+  const pathname = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0];
+  return pathname.replace(/^\/api(?=\/|$)/, "") || "/";
+};
+
+const parseBody = (data: unknown): { body: Record<string, unknown>; form: FormData | null } => {
+  if (data instanceof FormData) return { body: {}, form: data };
+  if (typeof data === "string") {
+    try {
+      return { body: JSON.parse(data), form: null };
+    } catch {
+      return { body: {}, form: null };
+    }
+  }
+  return { body: (data as Record<string, unknown>) ?? {}, form: null };
+};
+
+const waitFor = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CanceledError());
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+type SocketListener = (message: ProgressMessage) => void;
+
+/**
+ * Stand-in for the project progress WebSocket, fed by the mock job runner
+ */
+export class MockSocket {
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  private unsubscribe: () => void;
+
+  constructor(url: string, server: MockServer) {
+    const projectId = url.match(/projects\/([^/]+)\/progress/)?.[1] ?? "";
+    this.unsubscribe = server.subscribe(projectId, (message) => this.onmessage?.({ data: JSON.stringify(message) }));
+
+    setTimeout(() => {
+      if (this.readyState !== 0) return;
+      this.readyState = MockSocket.OPEN;
+      this.onopen?.();
+      server.emit(projectId, "connected", {}, "Connected to mock backend");
+    }, 0);
+  }
+
+  send() {
+    // Heartbeat pings need no answer
+  }
+
+  close() {
+    if (this.readyState === MockSocket.CLOSED) return;
+    this.readyState = MockSocket.CLOSED;
+    this.unsubscribe();
+    this.onclose?.({ code: 1000 });
+  }
+}
+
+export class MockServer {
+  private routes: Route[] = [];
+  private listeners: Map<string, Set<SocketListener>> = new Map();
+  /** Simulated network latency and job step time, in ms */
+  delay = 0;
+  /** Called for every request before it is routed */
+  onRequest: ((request: Omit<MockRequest, "params">) => void) | null = null;
+
+  on<B = Record<string, unknown>>(method: Method, pattern: string, handler: MockHandler<B>) {
+    this.routes.push({ method, segments: splitPath(pattern), handler: handler as MockHandler });
+  }
+
+  get<B = Record<string, unknown>>(pattern: string, handler: MockHandler<B>) {
+    this.on("get", pattern, handler);
+  }
+
+  post<B = Record<string, unknown>>(pattern: string, handler: MockHandler<B>) {
+    this.on("post", pattern, handler);
+  }
+
+  put<B = Record<string, unknown>>(pattern: string, handler: MockHandler<B>) {
+    this.on("put", pattern, handler);
+  }
+
+  patch<B = Record<string, unknown>>(pattern: string, handler: MockHandler<B>) {
+    this.on("patch", pattern, handler);
+  }
+
+  delete<B = Record<string, unknown>>(pattern: string, handler: MockHandler<B>) {
+    this.on("delete", pattern, handler);
+  }
+
+  private match(method: Method, path: string): { route: Route; params: Record<string, string> } | null {
+    const segments = splitPath(path);
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) continue;
+      const params: Record<string, string> = {};
+      const matched = route.segments.every((segment, i) => {
+        if (segment.startsWith(":")) {
+          params[segment.slice(1)] = decodeURIComponent(segments[i]);
+          return true;
+        }
+        return segment === segments[i];
+      });
+      if (matched) return { route, params };
+    }
+    return null;
+  }
+
+  /**
+   * Run a request through the matching handler; unknown routes get a 404
+   */
+  async handle(request: Omit<MockRequest, "params">): Promise<MockResponse> {
+    this.onRequest?.(request);
+    const found = this.match(request.method, request.path);
+    if (!found) {
+      return fail(404, "NOT_FOUND", `Mock backend has no route for ${request.method.toUpperCase()} ${request.path}`);
+    }
+    try {
+      return await found.route.handler({ ...request, params: found.params });
+    } catch (error) {
+      return fail(500, "INTERNAL_ERROR", error instanceof Error ? error.message : "Mock handler failed");
+    }
+  }
+
+  /**
+   * Axios adapter answering every ApiClient request from the handlers
+   */
+  adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const url = config.url || "/";
+    const query = new URLSearchParams(url.split("?")[1] || "");
+    Object.entries(config.params || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) query.append(key, String(value));
+    });
+    const { body, form } = parseBody(config.data);
+
+    await waitFor(this.delay, config.signal as AbortSignal);
+    if (form && config.onUploadProgress) {
+      const total = [...form.values()].reduce((size, value) => size + (value instanceof Blob ? value.size : 0), 0) || 1;
+      config.onUploadProgress({ loaded: total, total, progress: 1, bytes: total, upload: true, lengthComputable: true });
+    }
+
+    const response = await this.handle({
+      method: (config.method || "get").toLowerCase() as Method,
+      path: toRoutePath(url),
+      query,
+      body,
+      form,
+      headers: AxiosHeaders.from(config.headers).toJSON() as Record<string, string>,
+    });
+    if ((config.signal as AbortSignal)?.aborted) throw new CanceledError(undefined, undefined, config);
+
+    const axiosResponse: AxiosResponse = {
+      data: response.body,
+      status: response.status,
+      statusText: String(response.status),
+      headers: new AxiosHeaders(response.headers),
+      config,
+      request: null,
+    };
+    if (response.status >= 400) {
+      const code = response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+      throw new AxiosError(`Request failed with status code ${response.status}`, code, config, null, axiosResponse);
+    }
+    return axiosResponse;
+  };
+
+  /**
+   * fetch() replacement for the few calls that bypass ApiClient.
+   * Only URLs under `/api` or `baseUrl` are answered; the rest go to the real fetch.
+   */
+  createFetch(realFetch: typeof fetch, baseUrl?: string): typeof fetch {
+    return async (input, init: RequestInit = {}) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      const underBase = !!baseUrl && url.startsWith(baseUrl);
+      if (!underBase && !/^([a-z]+:\/\/[^/]+)?\/api(\/|$)/i.test(url)) {
+        return realFetch(input, init);
+      }
+
+      await waitFor(this.delay, init.signal);
+      const response = await this.handle({
+        method: (init.method || "get").toLowerCase() as Method,
+        path: underBase ? toRoutePath(url.slice(baseUrl.length)) : toRoutePath(url),
+        query: new URLSearchParams(url.split("?")[1] || ""),
+        ...parseBody(init.body),
+        headers: Object.fromEntries(new Headers(init.headers).entries()),
+      });
+
+      const body =
+        response.body instanceof Blob || typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body);
+      return new Response(body, { status: response.status, headers: response.headers });
+    };
+  }
+
+  subscribe(projectId: string, listener: SocketListener) {
+    if (!this.listeners.has(projectId)) {
+      this.listeners.set(projectId, new Set());
+    }
+    this.listeners.get(projectId).add(listener);
+    return () => {
+      this.listeners.get(projectId)?.delete(listener);
+    };
+  }
+
+  /**
+   * Push a progress message to the project's open sockets
+   */
+  emit(projectId: string, type: ProgressMessage["type"], data: ProgressMessage["data"] = {}, message?: string) {
+    const payload: ProgressMessage = { type, project_id: projectId, timestamp: new Date().toISOString(), message, data };
+    this.listeners.get(projectId)?.forEach((listener) => listener(payload));
+  }
+
+  /**
+   * Run `step` after the simulated job delay
+   */
+  later(step: () => void) {
+    setTimeout(step, this.delay);
+  }
+}
+
+export const mockServer = new MockServer();
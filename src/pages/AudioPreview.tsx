@@ -21,7 +21,7 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import AudioWaveform from "@/components/AudioWaveform";
-import { apiClient } from "@/services";
+import { audioProcessorApi, voiceAdvancedApi, voiceStylingApi, type QualityAssessment } from "@/services";
 import {
   Play,
   Pause,
@@ -57,15 +57,6 @@ interface AudioSegment {
   emotion: string;
 }
 
-interface QualityMetrics {
-  mos_score: number;
-  speaker_similarity: number;
-  emotion_accuracy: number;
-  snr_db: number;
-  dynamic_range_db: number;
-  recommendations: string[];
-}
-
 export default function AudioPreview() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -94,7 +85,7 @@ export default function AudioPreview() {
   const [musicVolume, setMusicVolume] = useState(20);
 
   // Quality metrics
-  const [qualityMetrics, setQualityMetrics] = useState<QualityMetrics | null>(null);
+  const [qualityMetrics, setQualityMetrics] = useState<QualityAssessment | null>(null);
 
   // History for undo/redo
   const [history, setHistory] = useState<AudioSegment[][]>([]);
@@ -113,7 +104,7 @@ export default function AudioPreview() {
   const handleGenerate = async () => {
     setGenerating(true);
     try {
-      const response = await apiClient.post("/api/voice-styling/generate-styled", {
+      const response = await voiceStylingApi.generateStyledAudio({
         text,
         voice_name: voice,
         emotion: { [emotion]: 0.8, energy: volume / 100, tempo: speed / 100 },
@@ -154,18 +145,17 @@ export default function AudioPreview() {
 
     setLoading(true);
     try {
-      const response = await apiClient.post("/api/voice-advanced/enhance", {
+      const response = await voiceAdvancedApi.enhanceAudio({
         audio_path: currentSegment.audio_url.replace("/static/", ""),
-        enhance_volume: true,
-        enhance_denoise: true,
-        add_compression: true,
+        denoise: true,
+        normalize_volume: true,
         target_lufs: -16,
       });
 
       if (response.success && response.data) {
         const enhancedSegment: AudioSegment = {
           ...currentSegment,
-          audio_url: response.data.enhanced_audio_url,
+          audio_url: response.data.output_url,
         };
 
         const updatedSegments = [...segments];
@@ -194,7 +184,7 @@ export default function AudioPreview() {
 
     setLoading(true);
     try {
-      const response = await apiClient.post("/api/voice-advanced/assess-quality", {
+      const response = await voiceAdvancedApi.assessQuality({
         audio_path: currentSegment.audio_url.replace("/static/", ""),
         detailed: true,
       });
@@ -268,7 +258,7 @@ export default function AudioPreview() {
     setLoading(true);
     try {
       // Combine all segments
-      const response = await apiClient.post("/api/audio-processor/mix-audio", {
+      const response = await audioProcessorApi.mixAudio({
         speech_audio_path: currentSegment?.audio_url.replace("/static/", ""),
         background_music_path: backgroundMusic || undefined,
         music_volume: musicVolume / 100,
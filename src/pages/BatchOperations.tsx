@@ -22,7 +22,7 @@ import {
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiClient } from "@/services";
+import { voiceStylingApi } from "@/services";
 import { audioApi } from "@/services/audio";
 import {
   Play,
@@ -234,7 +234,7 @@ export default function BatchOperations() {
         ));
 
         try {
-          const response = await apiClient.post("/api/voice-styling/generate-styled", {
+          const response = await voiceStylingApi.generateStyledAudio({
             text: item.text,
             voice_name: item.voice,
             emotion: { [item.emotion]: 0.8 },
@@ -1,13 +1,21 @@
-import { useState, useEffect, useRef } from "react";
-import { BookOpen, Upload, LogOut, User, RefreshCw, Lightbulb, Highlighter, Mic, Settings, Brain, Copy, Wrench, Headphones, Layers, Sparkles } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import { BookOpen, Upload, LogOut, User, RefreshCw, Lightbulb, Highlighter, Mic, Settings, Brain, Copy, Wrench, Headphones, Layers, Sparkles, Search, Loader2, ArrowUpNarrowWide, ArrowDownWideNarrow, CheckSquare, TextSearch } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import BookCard from "@/components/BookCard";
+import BookBulkActions from "@/components/BookBulkActions";
+import ShelfPicker from "@/components/ShelfPicker";
 import UploadModal from "@/components/UploadModal";
+import HighlightEditor from "@/components/HighlightEditor";
+import NoteMarkdown from "@/components/NoteMarkdown";
 import { useBookStore } from "@/stores/bookStore";
+import { useCollectionStore } from "@/stores/collectionStore";
 import { useThoughtStore } from "@/stores/thoughtStore";
 import { useHighlightStore } from "@/stores/highlightStore";
 import { useAuthStore } from "@/stores/authStore";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BOOK_SORTS, onShelf, type BookSort, type Shelf } from "@/lib/shelves";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import {
   DropdownMenu,
@@ -18,23 +26,71 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
+// The bookshelf searches once typing pauses
+const SEARCH_DELAY = 300;
+
 // Sub-components for each tab
 const MyBooks = () => {
   const books = useBookStore((s) => s.books);
   const fetchBooks = useBookStore((s) => s.fetchBooks);
   const isLoading = useBookStore((s) => s.isLoading);
+  const shelfQuery = useBookStore((s) => s.shelfQuery);
+  const setShelfQuery = useBookStore((s) => s.setShelfQuery);
+  const fetchCollections = useCollectionStore((s) => s.fetchCollections);
   const navigate = useNavigate();
-  const hasMounted = useRef(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [shelf, setShelf] = useState<Shelf>({ kind: "all" });
+  const [search, setSearch] = useState(shelfQuery.search);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
 
   useEffect(() => {
-    if (!hasMounted.current) {
-      hasMounted.current = true;
-      fetchBooks().finally(() => setIsInitialLoad(false));
-    }
-  }, [fetchBooks]);
+    const timer = setTimeout(() => setShelfQuery({ search }), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [search, setShelfQuery]);
 
-  if (isLoading || isInitialLoad) {
+  // Sorting and searching happen on the backend
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchBooks({}, controller.signal).finally(() => {
+      if (!controller.signal.aborted) setIsInitialLoad(false);
+    });
+    return () => controller.abort();
+  }, [fetchBooks, shelfQuery]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchCollections(controller.signal);
+    return () => controller.abort();
+  }, [fetchCollections]);
+
+  const visible = useMemo(() => {
+    const now = Date.now();
+    return books.filter((book) => onShelf(book, shelf, now));
+  }, [books, shelf]);
+
+  const selectedBooks = visible.filter((book) => selected.has(book.id));
+
+  const setBookSelected = (bookId: string, isSelected: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (isSelected) next.add(bookId);
+      else next.delete(bookId);
+      return next;
+    });
+  };
+
+  const closeSelection = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const handleSortChange = (sort: BookSort) => {
+    // Names read best A to Z; dates and progress newest or furthest first
+    setShelfQuery({ sort, order: sort === "title" || sort === "author" ? "asc" : "desc" });
+  };
+
+  if (isInitialLoad) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="text-center">
@@ -45,7 +101,7 @@ const MyBooks = () => {
     );
   }
 
-  if (books.length === 0) {
+  if (books.length === 0 && !shelfQuery.search) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
         <BookOpen className="h-16 w-16 text-muted-foreground/30" />
@@ -55,10 +111,96 @@ const MyBooks = () => {
   }
 
   return (
-    <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-      {books.map((book) => (
-        <BookCard key={book.id} book={book} />
-      ))}
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full sm:w-64">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="搜索书名、作者或标签"
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        {shelfQuery.search.trim() && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto px-1 text-xs"
+            onClick={() => navigate(`/search?${new URLSearchParams({ q: shelfQuery.search.trim() })}`)}
+          >
+            在正文中搜索「{shelfQuery.search.trim()}」
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-1.5">
+          <Select value={shelfQuery.sort} onValueChange={(value) => handleSortChange(value as BookSort)}>
+            <SelectTrigger className="h-8 w-32 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BOOK_SORTS.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title={shelfQuery.order === "asc" ? "升序" : "降序"}
+            onClick={() => setShelfQuery({ order: shelfQuery.order === "asc" ? "desc" : "asc" })}
+          >
+            {shelfQuery.order === "asc" ? (
+              <ArrowUpNarrowWide className="h-4 w-4" />
+            ) : (
+              <ArrowDownWideNarrow className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant={selecting ? "secondary" : "ghost"}
+            size="sm"
+            className="gap-1.5"
+            onClick={() => (selecting ? closeSelection() : setSelecting(true))}
+          >
+            <CheckSquare className="h-4 w-4" />
+            选择
+          </Button>
+        </div>
+      </div>
+
+      <ShelfPicker books={books} shelf={shelf} onShelfChange={setShelf} />
+
+      {selecting && (
+        <BookBulkActions
+          books={selectedBooks}
+          onSelectAll={() => setSelected(new Set(visible.map((book) => book.id)))}
+          onClose={closeSelection}
+        />
+      )}
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <BookOpen className="h-16 w-16 text-muted-foreground/30" />
+          <p className="mt-4 text-muted-foreground">
+            {shelfQuery.search ? "没有找到匹配的书籍" : "这个书架上还没有书"}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+          {visible.map((book) => (
+            <BookCard
+              key={book.id}
+              book={book}
+              selecting={selecting}
+              selected={selected.has(book.id)}
+              onSelectedChange={(isSelected) => setBookSelected(book.id, isSelected)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -69,14 +211,14 @@ const MyThoughts = () => {
   const isLoading = useThoughtStore((s) => s.isLoading);
   const deleteThought = useThoughtStore((s) => s.deleteThought);
   const navigate = useNavigate();
-  const hasMounted = useRef(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
 
   useEffect(() => {
-    if (!hasMounted.current) {
-      hasMounted.current = true;
-      fetchThoughts().finally(() => setIsInitialLoad(false));
-    }
+    const controller = new AbortController();
+    fetchThoughts({}, controller.signal).finally(() => {
+      if (!controller.signal.aborted) setIsInitialLoad(false);
+    });
+    return () => controller.abort();
   }, [fetchThoughts]);
 
   const handleDelete = async (id: string) => {
@@ -151,14 +293,15 @@ const MyHighlights = () => {
   const isLoading = useHighlightStore((s) => s.isLoading);
   const deleteHighlight = useHighlightStore((s) => s.deleteHighlight);
   const navigate = useNavigate();
-  const hasMounted = useRef(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!hasMounted.current) {
-      hasMounted.current = true;
-      fetchAllHighlights().finally(() => setIsInitialLoad(false));
-    }
+    const controller = new AbortController();
+    fetchAllHighlights(controller.signal).finally(() => {
+      if (!controller.signal.aborted) setIsInitialLoad(false);
+    });
+    return () => controller.abort();
   }, [fetchAllHighlights]);
 
   const handleDelete = async (id: string) => {
@@ -209,7 +352,7 @@ const MyHighlights = () => {
           className="group relative rounded-lg border bg-card p-4 shadow-sm transition-all hover:shadow-md"
         >
           <div className="mb-2 flex items-center gap-2 text-sm text-muted-foreground">
-            <span className="font-medium">{highlight.bookTitle || "未知书籍"}</span>
+            <span className="font-medium">{highlight.book?.title || "未知书籍"}</span>
             <span>·</span>
             <span>{new Date(highlight.createdAt).toLocaleDateString()}</span>
             <span className={`ml-2 rounded px-2 py-0.5 text-xs font-medium ${getColorClass(highlight.color)}`}>
@@ -219,13 +362,21 @@ const MyHighlights = () => {
           <p className={`rounded-md p-3 ${getColorClass(highlight.color)} text-foreground`}>
             {highlight.text}
           </p>
-          {highlight.note && (
-            <div className="mt-2 rounded-md bg-muted p-3">
-              <p className="text-sm text-muted-foreground mb-1">笔记：</p>
-              <p className="text-sm text-foreground">{highlight.note.content}</p>
-            </div>
+          {editingId === highlight.id ? (
+            <HighlightEditor highlight={highlight} className="mt-3" />
+          ) : (
+            highlight.note && (
+              <div className="mt-2 rounded-md bg-muted p-3">
+                <p className="text-sm text-muted-foreground mb-1">笔记：</p>
+                <NoteMarkdown content={highlight.note.content} className="text-sm text-foreground" />
+              </div>
+            )
           )}
-          <div className="mt-3 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <div
+            className={`mt-3 flex items-center gap-2 transition-opacity ${
+              editingId === highlight.id ? "" : "opacity-0 group-hover:opacity-100"
+            }`}
+          >
             <Button
               variant="ghost"
               size="sm"
@@ -233,6 +384,13 @@ const MyHighlights = () => {
             >
               查看书籍
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditingId(editingId === highlight.id ? null : highlight.id)}
+            >
+              {editingId === highlight.id ? "完成" : "编辑"}
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -261,7 +419,7 @@ const Index = () => {
 
   const handleRefresh = async () => {
     if (activeTab === "books") {
-      await useBookStore.getState().fetchBooks();
+      await Promise.all([useBookStore.getState().fetchBooks(), useCollectionStore.getState().fetchCollections()]);
     } else if (activeTab === "thoughts") {
       await useThoughtStore.getState().fetchThoughts();
     } else if (activeTab === "highlights") {
@@ -280,6 +438,10 @@ const Index = () => {
             </span>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" className="gap-1.5 text-sm" onClick={() => navigate("/search")}>
+              <TextSearch className="h-4 w-4" />
+              <span className="hidden sm:inline">全文搜索</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
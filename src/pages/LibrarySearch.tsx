@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, FileText, Loader2, Search, TextSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBookStore, type Book } from "@/stores/bookStore";
+import { useCollectionStore } from "@/stores/collectionStore";
+import { useLibrarySearch } from "@/hooks/use-library-search";
+import { findLink } from "@/lib/search";
+
+// Select value for "no filter"
+const ANY = "any";
+
+const FILE_TYPES: Array<{ id: Book["fileType"]; label: string }> = [
+  { id: "txt", label: "TXT" },
+  { id: "pdf", label: "PDF" },
+  { id: "epub", label: "EPUB" },
+];
+
+/**
+ * Search the text of every book. The query and filters live in the URL, so
+ * coming back from a book shows the same results.
+ */
+const LibrarySearch = () => {
+  const navigate = useNavigate();
+  const [params, setParams] = useSearchParams();
+  const [query, setQuery] = useState(params.get("q") ?? "");
+  const books = useBookStore((s) => s.books);
+  const collections = useCollectionStore((s) => s.collections);
+
+  const filters = {
+    author: params.get("author") ?? undefined,
+    collectionId: params.get("collection") ?? undefined,
+    fileType: FILE_TYPES.find(({ id }) => id === params.get("type"))?.id,
+  };
+  const { hits, total, isLoading, error } = useLibrarySearch(query, filters);
+
+  // Authors and collections to filter by come from the bookshelf
+  useEffect(() => {
+    const controller = new AbortController();
+    if (!useBookStore.getState().books.length) useBookStore.getState().fetchBooks({}, controller.signal);
+    useCollectionStore.getState().fetchCollections(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const authors = useMemo(
+    () =>
+      [...new Set(books.map((book) => book.author).filter(Boolean))].sort((a, b) => a.localeCompare(b, "zh-CN")),
+    [books]
+  );
+
+  const setParam = (key: string, value: string | undefined) => {
+    setParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        if (value) next.set(key, value);
+        else next.delete(key);
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setParam("q", value.trim() || undefined);
+  };
+
+  const filterSelect = (
+    key: string,
+    placeholder: string,
+    options: Array<{ value: string; label: string }>
+  ) => (
+    <Select value={params.get(key) ?? ANY} onValueChange={(value) => setParam(key, value === ANY ? undefined : value)}>
+      <SelectTrigger className="h-8 w-36 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map(({ value, label }) => (
+          <SelectItem key={value} value={value}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  let status: string | null = null;
+  if (error) status = error;
+  else if (!query.trim()) status = "输入词句，在所有书籍的正文中查找";
+  else if (!isLoading && !hits.length) status = "没有书籍包含这段内容";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="mx-auto flex max-w-3xl items-center gap-3 px-6 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              autoFocus
+              value={query}
+              onChange={(event) => handleQueryChange(event.target.value)}
+              placeholder="在全部书籍中搜索，例如：江南"
+              className="pl-9"
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-4 px-6 py-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {filterSelect(
+            "author",
+            "全部作者",
+            authors.map((author) => ({ value: author, label: author }))
+          )}
+          {filterSelect(
+            "collection",
+            "全部书单",
+            collections.map((collection) => ({ value: collection.id, label: collection.name }))
+          )}
+          {filterSelect(
+            "type",
+            "全部格式",
+            FILE_TYPES.map(({ id, label }) => ({ value: id, label }))
+          )}
+          <span className="ml-auto flex items-center gap-1.5 text-xs text-muted-foreground">
+            {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {!isLoading && hits.length > 0 && `${total} 本书`}
+          </span>
+        </div>
+
+        {status && (
+          <div className="flex flex-col items-center justify-center py-16">
+            <TextSearch className="h-12 w-12 text-muted-foreground/30" />
+            <p className="mt-4 text-sm text-muted-foreground">{status}</p>
+          </div>
+        )}
+
+        {hits.map(({ book, matchCount, passages }) => (
+          <section key={book.id} className="rounded-lg border bg-card p-4 shadow-sm">
+            <button
+              onClick={() => navigate(`/reader/${book.id}`)}
+              className="flex w-full items-start gap-3 text-left"
+            >
+              <FileText className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+              <div className="min-w-0 flex-1">
+                <h2 className="font-reading font-medium text-foreground">{book.title}</h2>
+                <p className="text-xs text-muted-foreground">{book.author || "未知作者"}</p>
+              </div>
+              <Badge variant="secondary" className="shrink-0 uppercase">
+                {book.fileType}
+              </Badge>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {matchCount > 0 ? `出现 ${matchCount} 次` : "包含相关字词"}
+              </span>
+            </button>
+            <div className="mt-3 space-y-1">
+              {passages.map((passage) => (
+                <button
+                  key={`${passage.block}:${passage.offset}`}
+                  onClick={() =>
+                    navigate(
+                      findLink(book.id, {
+                        query: query.trim(),
+                        block: passage.block,
+                        offset: passage.offset,
+                        occurrence: passage.occurrence ?? null,
+                      })
+                    )
+                  }
+                  className="block w-full rounded-md px-3 py-2 text-left font-reading text-sm leading-relaxed text-foreground/80 transition-colors hover:bg-accent"
+                >
+                  {passage.before}
+                  <mark className="rounded-sm bg-primary/20 text-foreground">{passage.match}</mark>
+                  {passage.after}
+                </button>
+              ))}
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default LibrarySearch;
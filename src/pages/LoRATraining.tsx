@@ -3,7 +3,7 @@
  * Train custom voice models using LoRA fine-tuning
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,7 +31,14 @@ import {
 import { ArrowLeft, Play, Pause, RotateCcw, Download, Upload, CheckCircle2, XCircle, AlertCircle, X, Music } from "lucide-react";
 import { DatasetBuilder } from "@/components/DatasetBuilder";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { authFetch, authFetchUpload } from "@/utils/auth";
+import {
+  isRequestCanceled,
+  loraApi,
+  UploadController,
+  type TrainingRequirements,
+  type TrainingStatus,
+  type UploadProgress,
+} from "@/services";
 
 interface AudioFile {
   id: string;
@@ -57,7 +64,7 @@ interface TrainingConfigWithFiles extends TrainingConfig {
 }
 
 interface TrainingProgress {
-  status: "idle" | "preparing" | "training" | "completed" | "failed" | "cancelled";
+  status: TrainingStatus;
   current_epoch: number;
   total_epochs: number;
   loss: number;
@@ -68,24 +75,6 @@ interface TrainingProgress {
   error?: string;
 }
 
-// 注意：这里的字段与后端 /api/lora/requirements 返回的结构对齐
-interface TrainingRequirements {
-  min_samples: number;
-  recommended_samples: number;
-  min_duration_per_sample: number;
-  recommended_duration_per_sample: number;
-  total_min_duration: number;
-  recommended_total_duration: number;
-  supported_formats: string[];
-  sample_rate: number;
-  hardware?: {
-    min_memory_gb: number;
-    recommended_memory_gb: number;
-    gpu_required: boolean;
-    gpu_memory_gb: number;
-  };
-}
-
 export default function LoRATraining() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
@@ -96,6 +85,8 @@ export default function LoRATraining() {
   const [configDialog, setConfigDialog] = useState(false);
   const [training, setTraining] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadController = useRef<UploadController | null>(null);
   const [config, setConfig] = useState<TrainingConfigWithFiles>({
     audio_files: [],
     validation_files: [],
@@ -116,10 +107,9 @@ export default function LoRATraining() {
 
   const fetchRequirements = async () => {
     try {
-      const response = await authFetch(`/api/lora/requirements`);
-      const data = await response.json();
-      if (data.success) {
-        setRequirements(data.data);
+      const response = await loraApi.getRequirements();
+      if (response.success && response.data) {
+        setRequirements(response.data);
       }
     } catch (error) {
       console.error("Failed to fetch requirements:", error);
@@ -129,12 +119,11 @@ export default function LoRATraining() {
   const fetchProgress = async () => {
     if (!projectId) return;
     try {
-      const response = await authFetch(`/api/lora/projects/${projectId}/progress`);
-      const data = await response.json();
-      if (data.success && data.data) {
-        const raw = data.data;
+      const response = await loraApi.getProgress(projectId);
+      if (response.success && response.data) {
+        const raw = response.data;
         const mapped: TrainingProgress = {
-          status: (raw.status || "idle") as TrainingProgress["status"],
+          status: raw.status || "idle",
           current_epoch: raw.current_epoch ?? 0,
           total_epochs: raw.total_epochs ?? 0,
           loss: raw.loss ?? 0,
@@ -172,24 +161,35 @@ export default function LoRATraining() {
 
     setTraining(true);
     setUploading(true);
+    setUploadProgress(null);
+    const controller = new UploadController();
+    uploadController.current = controller;
 
     try {
-      // 当前后端基于项目已生成的音频进行训练，这里仅传递训练超参数和语音名称
-      const response = await authFetch(`/api/lora/projects/${projectId}/train`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          voice_name: config.voice_name,
-          num_epochs: config.epochs,
-          batch_size: config.batch_size,
-          learning_rate: config.learning_rate,
-        }),
+      // 先分块上传数据集音频（可暂停、断点续传），再以项目音频加上传的样本开始训练
+      const upload = await loraApi.uploadDataset(
+        projectId,
+        [
+          ...config.audioFileList.map(({ file }) => ({ file, split: "training" as const })),
+          ...config.validationFileList.map(({ file }) => ({ file, split: "validation" as const })),
+        ],
+        setUploadProgress,
+        undefined,
+        controller
+      );
+      if (!upload.success) {
+        throw new Error(upload.error?.message || "上传训练数据失败");
+      }
+      setUploading(false);
+
+      const response = await loraApi.startTraining(projectId, {
+        voice_name: config.voice_name,
+        num_epochs: config.epochs,
+        batch_size: config.batch_size,
+        learning_rate: config.learning_rate,
       });
 
-      const data = await response.json();
-      if (data.success) {
+      if (response.success) {
         toast({
           title: "训练任务已创建",
           description: "正在准备训练环境...",
@@ -207,9 +207,13 @@ export default function LoRATraining() {
 
         fetchProgress();
       } else {
-        throw new Error(data.error?.message || "创建训练任务失败");
+        throw new Error(response.error?.message || "创建训练任务失败");
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) {
+        toast({ title: "已取消上传" });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "创建失败",
@@ -218,6 +222,18 @@ export default function LoRATraining() {
     } finally {
       setTraining(false);
       setUploading(false);
+      setUploadProgress(null);
+      uploadController.current = null;
+    }
+  };
+
+  const toggleUploadPause = () => {
+    const controller = uploadController.current;
+    if (!controller) return;
+    if (controller.paused) {
+      controller.resume();
+    } else {
+      controller.pause();
     }
   };
 
@@ -225,12 +241,8 @@ export default function LoRATraining() {
     if (!confirm("确定要取消训练吗？已训练的进度将保存。")) return;
 
     try {
-      const response = await authFetch(`/api/lora/projects/${projectId}/cancel`, {
-        method: "POST",
-      });
-
-      const data = await response.json();
-      if (data.success) {
+      const response = await loraApi.cancelTraining(projectId);
+      if (response.success) {
         toast({
           title: "训练已取消",
           description: "训练进度已保存",
@@ -250,14 +262,7 @@ export default function LoRATraining() {
     if (!progress?.checkpoint_path) return;
 
     try {
-      const response = await authFetch(`/api/lora/projects/${projectId}/checkpoint/download`);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `lora_model_${Date.now()}.zip`;
-      a.click();
-      window.URL.revokeObjectURL(url);
+      await loraApi.downloadCheckpoint(projectId, `lora_model_${Date.now()}.zip`);
 
       toast({
         title: "下载成功",
@@ -792,10 +797,43 @@ export default function LoRATraining() {
               </div>
             </div>
           </div>
+          {uploading && uploadProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {uploadProgress.state === "paused" ? "上传已暂停" : "正在上传训练数据"} ·{" "}
+                  {(uploadProgress.loaded / 1024 / 1024).toFixed(1)} / {(uploadProgress.total / 1024 / 1024).toFixed(1)} MB
+                </span>
+                <span className="font-medium">{uploadProgress.percent}%</span>
+              </div>
+              <Progress value={uploadProgress.percent} />
+            </div>
+          )}
           <DialogFooter>
-            <Button variant="outline" onClick={() => setConfigDialog(false)}>
-              取消
-            </Button>
+            {uploading ? (
+              <>
+                <Button variant="outline" onClick={toggleUploadPause}>
+                  {uploadProgress?.state === "paused" ? (
+                    <>
+                      <Play className="mr-2 h-4 w-4" />
+                      继续上传
+                    </>
+                  ) : (
+                    <>
+                      <Pause className="mr-2 h-4 w-4" />
+                      暂停上传
+                    </>
+                  )}
+                </Button>
+                <Button variant="outline" onClick={() => uploadController.current?.cancel()}>
+                  取消上传
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setConfigDialog(false)}>
+                取消
+              </Button>
+            )}
             <Button onClick={handleStartTraining} disabled={training || config.audioFileList.length === 0}>
               {training || uploading ? (
                 <>
@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuthStore } from "@/stores/authStore";
+import { getReturnPath } from "@/utils/auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,7 +10,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function Login() {
   const navigate = useNavigate();
-  const { login, register, isLoading, error, clearError } = useAuthStore();
+  const location = useLocation();
+  const { login, register, isLoading, error, clearError, sessionExpired } = useAuthStore();
 
   const [loginData, setLoginData] = useState({
     email: "",
@@ -28,7 +30,7 @@ export default function Login() {
     clearError();
     try {
       await login(loginData.email, loginData.password);
-      navigate("/");
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (err) {
       // Error is handled by the store
     }
@@ -50,7 +52,7 @@ export default function Login() {
 
     try {
       await register(registerData.email, registerData.username, registerData.password);
-      navigate("/");
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (err) {
       // Error is handled by the store
     }
@@ -94,6 +96,11 @@ export default function Login() {
                     required
                   />
                 </div>
+                {sessionExpired && !error && (
+                  <div className="text-sm text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20 p-3 rounded">
+                    登录已过期，请重新登录后继续
+                  </div>
+                )}
                 {error && (
                   <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-3 rounded">
                     {error}
@@ -176,17 +176,17 @@ export default function ProjectDetail() {
                 <Settings className="mr-2 h-4 w-4" />
                 LoRA训练
               </Button>
-              {currentProject.audio_path && (
+              {currentProject.audioPath && (
                 <Button variant="outline" asChild>
-                  <a href={currentProject.audio_path} download>
+                  <a href={currentProject.audioPath} download>
                     <Download className="mr-2 h-4 w-4" />
                     导出音频
                   </a>
                 </Button>
               )}
-              {currentProject.status === "completed" && currentProject.audio_path && (
+              {currentProject.status === "completed" && currentProject.audioPath && (
                 <Button asChild>
-                  <a href={currentProject.audio_path}>
+                  <a href={currentProject.audioPath}>
                     <Play className="mr-2 h-4 w-4" />
                     播放
                   </a>
@@ -308,7 +308,7 @@ export default function ProjectDetail() {
                   <div>
                     <label className="text-sm font-medium">TTS模式</label>
                     <p className="text-sm text-muted-foreground">
-                      {currentProject.config.tts_mode}
+                      {currentProject.config.ttsMode}
                     </p>
                   </div>
                   <div>
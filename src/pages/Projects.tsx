@@ -30,6 +30,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useBookStore } from "@/stores/bookStore";
 import { useProjectStore, Project } from "@/stores/projectStore";
+import { toProject } from "@/services/generated/models";
 import { projectsApi } from "@/services/projects";
 import { Plus, Play, Pause, Settings, Trash2, FolderOpen, Home } from "lucide-react";
 import { format } from "date-fns";
@@ -70,7 +71,7 @@ export default function Projects() {
     try {
       const response = await projectsApi.list();
       if (response.success && response.data) {
-        setProjects(response.data.items);
+        setProjects(response.data.items.map(toProject));
       }
     } catch (error: any) {
       toast({
@@ -3,13 +3,14 @@
  * Document-based question answering with AI
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
@@ -28,8 +29,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { ragApi } from "@/services";
-import { authFetchUpload } from "@/utils/auth";
+import { ragApi, isRequestCanceled, UploadController, type UploadProgress } from "@/services";
+import { useRequestScope } from "@/hooks/use-request-scope";
 import {
   Send,
   Upload,
@@ -46,6 +47,8 @@ import {
   Link,
   X,
   FileJson,
+  Pause,
+  Play,
 } from "lucide-react";
 
 interface DocumentChunk {
@@ -99,6 +102,7 @@ interface RAGStats {
 
 export default function RAGQA() {
   const { toast } = useToast();
+  const nextSignal = useRequestScope();
   const [activeTab, setActiveTab] = useState("query");
   const [documents, setDocuments] = useState<RAGDocument[]>([]);
   const [stats, setStats] = useState<RAGStats | null>(null);
@@ -126,37 +130,41 @@ export default function RAGQA() {
 
   // File upload state
   const [uploading, setUploading] = useState(false);
-  const fileInputRef = useState<HTMLInputElement | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadController = useRef<UploadController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   // Search/filter state
   const [searchQuery, setSearchQuery] = useState("");
 
-  useEffect(() => {
-    fetchDocuments();
-    fetchStats();
-  }, []);
-
-  const fetchDocuments = async () => {
+  const fetchDocuments = useCallback(async () => {
     try {
-      const response = await ragApi.listDocuments();
+      const response = await ragApi.listDocuments(nextSignal("documents"));
       if (response.success && response.data) {
         setDocuments(response.data);
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) return;
       console.error("Failed to fetch documents:", error);
     }
-  };
+  }, [nextSignal]);
 
-  const fetchStats = async () => {
+  const fetchStats = useCallback(async () => {
     try {
-      const response = await ragApi.getStats();
+      const response = await ragApi.getStats(nextSignal("stats"));
       if (response.success && response.data) {
         setStats(response.data);
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) return;
       console.error("Failed to fetch stats:", error);
     }
-  };
+  }, [nextSignal]);
+
+  useEffect(() => {
+    fetchDocuments();
+    fetchStats();
+  }, [fetchDocuments, fetchStats]);
 
   const handleQuery = async () => {
     if (!question.trim()) {
@@ -169,12 +177,16 @@ export default function RAGQA() {
     }
 
     setQueryLoading(true);
+    const signal = nextSignal("query");
     try {
-      const response = await ragApi.query({
-        question,
-        use_web_search: useWebSearch,
-        generate_answer: generateAnswer,
-      });
+      const response = await ragApi.query(
+        {
+          question,
+          use_web_search: useWebSearch,
+          generate_answer: generateAnswer,
+        },
+        signal
+      );
 
       if (response.success && response.data) {
         setQueryHistory((prev) => [response.data!, ...prev]);
@@ -185,13 +197,14 @@ export default function RAGQA() {
         });
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) return;
       toast({
         variant: "destructive",
         title: "查询失败",
         description: error.message || "无法处理查询",
       });
     } finally {
-      setQueryLoading(false);
+      if (!signal.aborted) setQueryLoading(false);
     }
   };
 
@@ -239,25 +252,28 @@ export default function RAGQA() {
     if (!file) return;
 
     setUploading(true);
+    setUploadProgress(null);
+    const controller = new UploadController();
+    uploadController.current = controller;
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const response = await authFetchUpload("/api/rag/ingest-file", formData);
+      // 分块上传（可暂停、断点续传），完成后由后端切片入库
+      const response = await ragApi.ingestFile(file, undefined, setUploadProgress, controller);
 
-      const data = await response.json();
-
-      if (data.success) {
+      if (response.success && response.data) {
         toast({
           title: "上传成功",
-          description: `已创建 ${data.data.chunk_count} 个片段`,
+          description: `已创建 ${response.data.chunk_count} 个片段`,
         });
         fetchDocuments();
         fetchStats();
       } else {
-        throw new Error(data.error?.message || "上传失败");
+        throw new Error(response.error?.message || "上传失败");
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) {
+        toast({ title: "已取消上传" });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "上传失败",
@@ -265,17 +281,29 @@ export default function RAGQA() {
       });
     } finally {
       setUploading(false);
-      if (fileInputRef[0]) {
-        fileInputRef[0].value = "";
+      setUploadProgress(null);
+      uploadController.current = null;
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
       }
     }
   };
 
+  const toggleUploadPause = () => {
+    const controller = uploadController.current;
+    if (!controller) return;
+    if (controller.paused) {
+      controller.resume();
+    } else {
+      controller.pause();
+    }
+  };
+
   const handleDeleteDocument = async (docId: string) => {
     if (!confirm(`确定要删除文档 ${docId} 吗？`)) return;
 
     try {
-      await ragApi.deleteDocument({ doc_id: docId });
+      await ragApi.deleteDocument(docId);
       toast({
         title: "删除成功",
         description: `文档 ${docId} 已删除`,
@@ -295,15 +323,19 @@ export default function RAGQA() {
     setPreviewDoc(doc);
     setPreviewDialog(true);
     setLoadingChunks(true);
+    const signal = nextSignal("preview");
 
     try {
       // Query the document to get its chunks
-      const response = await ragApi.query({
-        question: "总结这个文档的内容",
-        use_web_search: false,
-        generate_answer: false,
-        top_k: 100, // Get more chunks for preview
-      });
+      const response = await ragApi.query(
+        {
+          question: "总结这个文档的内容",
+          use_web_search: false,
+          generate_answer: false,
+          top_k: 100, // Get more chunks for preview
+        },
+        signal
+      );
 
       if (response.success && response.data) {
         // Filter citations for this document
@@ -318,13 +350,14 @@ export default function RAGQA() {
         setPreviewChunks(docChunks);
       }
     } catch (error: any) {
+      if (isRequestCanceled(error)) return;
       toast({
         variant: "destructive",
         title: "加载失败",
         description: error.message,
       });
     } finally {
-      setLoadingChunks(false);
+      if (!signal.aborted) setLoadingChunks(false);
     }
   };
 
@@ -724,7 +757,7 @@ export default function RAGQA() {
                       className="hidden"
                       onChange={handleFileUpload}
                       disabled={uploading}
-                      ref={(el) => (fileInputRef[0] = el)}
+                      ref={fileInputRef}
                     />
                   </label>
                 </Button>
@@ -756,6 +789,39 @@ export default function RAGQA() {
               />
             </div>
 
+            {uploading && uploadProgress && (
+              <Card>
+                <CardContent className="space-y-2 pt-6">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {uploadProgress.state === "paused" ? "上传已暂停" : "正在上传文档"} ·{" "}
+                      {(uploadProgress.loaded / 1024 / 1024).toFixed(1)} / {(uploadProgress.total / 1024 / 1024).toFixed(1)} MB
+                    </span>
+                    <span className="font-medium">{uploadProgress.percent}%</span>
+                  </div>
+                  <Progress value={uploadProgress.percent} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={toggleUploadPause}>
+                      {uploadProgress.state === "paused" ? (
+                        <>
+                          <Play className="mr-2 h-4 w-4" />
+                          继续上传
+                        </>
+                      ) : (
+                        <>
+                          <Pause className="mr-2 h-4 w-4" />
+                          暂停上传
+                        </>
+                      )}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => uploadController.current?.cancel()}>
+                      取消上传
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Documents List */}
             {documents.length === 0 ? (
               <Card>
@@ -1,60 +1,317 @@
-import { useState, useEffect } from "react";
-import { ArrowLeft, StickyNote, AlertCircle } from "lucide-react";
-import { useNavigate, useParams } from "react-router-dom";
-import ReaderContent from "@/components/ReaderContent";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  ArrowLeft,
+  StickyNote,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  BookOpen,
+  ScrollText,
+  Search,
+  BookmarkPlus,
+  MapPin,
+} from "lucide-react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useTheme } from "next-themes";
+import { formatDistanceToNow } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import ReaderContent, { type SearchMarks } from "@/components/ReaderContent";
 import NoteSidebar from "@/components/NoteSidebar";
 import AudioPlayer from "@/components/AudioPlayer";
+import ChapterEditor from "@/components/ChapterEditor";
+import ReaderPreferencesPanel from "@/components/ReaderPreferencesPanel";
+import BookSearchPanel from "@/components/BookSearchPanel";
 import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useBookStore } from "@/stores/bookStore";
 import { useAudioStore, generateTimeMap } from "@/stores/audioStore";
-import { useHighlightStore } from "@/stores/highlightStore";
+import { useHighlightStore, type SavedHighlight } from "@/stores/highlightStore";
+import { useBookmarkStore, type Bookmark } from "@/stores/bookmarkStore";
+import { useReaderStore } from "@/stores/readerStore";
+import { resolvePreferences, usePreferenceStore, useReaderPreferences } from "@/stores/preferenceStore";
+import { blockOffsets, EpubDocument, type EpubChapter } from "@/lib/epub";
+import { chapterBlocks, detectChapters, paragraphOffsets, splitParagraphs } from "@/lib/chapters";
+import { locateOffset, pageLabelsByParagraph, type PdfPageSpan } from "@/lib/pdf";
+import { parseFindTarget, textSections, type FindTarget, type SearchHit, type SearchSection } from "@/lib/search";
+import { resolvePlaces, type PlaceRead } from "@/lib/position";
+import { useBookSearch } from "@/hooks/use-book-search";
+import { useToast } from "@/hooks/use-toast";
+import {
+  toBookChapter,
+  toBookPage,
+  type BookChapter,
+  type ReadingPosition,
+} from "@/services/generated/models";
+
+/** Where to scroll once a chapter is rendered */
+interface ChapterTarget {
+  fragment?: string;
+  offset?: number;
+  /** A saved reading position in the chapter */
+  position?: ReadingPosition;
+  /** The last page, when turning back from the next chapter */
+  atEnd?: boolean;
+  /** Start narrating from the target block */
+  narrate?: boolean;
+}
+
+// Characters of the bookmarked paragraph kept to list the bookmark by
+const BOOKMARK_EXCERPT = 80;
 
 const Reader = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [bookContent, setBookContent] = useState<string | null>(null);
+  const [epub, setEpub] = useState<EpubDocument | null>(null);
+  const [chapterIndex, setChapterIndex] = useState(0);
+  const [chapter, setChapter] = useState<EpubChapter | null>(null);
+  // Page starts in the cleaned text of a PDF
+  const [pdfPages, setPdfPages] = useState<PdfPageSpan[] | null>(null);
+  // Chapters of a plain-text book, as stored or corrected by the reader
+  const [bookChapters, setBookChapters] = useState<BookChapter[]>([]);
+  const [chapterEditorOpen, setChapterEditorOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // Every chapter of an EPUB, loaded once find-in-book is first opened
+  const [epubSections, setEpubSections] = useState<SearchSection[] | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const pendingTarget = useRef<ChapterTarget | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Latest reported position, and the place the book opened at
+  const lastPosition = useRef<ReadingPosition | null>(null);
+  const openedAt = useRef<PlaceRead | null>(null);
+  // A newer place from another device, offered once the book has opened
+  const [elsewhere, setElsewhere] = useState<PlaceRead | null>(null);
+  // Highlights the shown text no longer has, and the one the reader is putting back
+  const [orphans, setOrphans] = useState<SavedHighlight[]>([]);
+  const [repairing, setRepairing] = useState<SavedHighlight | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
   const { bookId } = useParams<{ bookId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A passage to show once the book has loaded, from a library search result
+  const findTarget = useRef<FindTarget | null>(null);
 
   const currentBook = useBookStore((s) => s.currentBook);
   const fetchBook = useBookStore((s) => s.fetchBook);
   const fetchBookHighlights = useHighlightStore((s) => s.fetchBookHighlights);
-  const { setAudioUrl, setDuration, reset, setBlockTexts, setParagraphTimeMap } = useAudioStore();
+  const allHighlights = useHighlightStore((s) => s.highlights);
+  const fetchBookBookmarks = useBookmarkStore((s) => s.fetchBookBookmarks);
+  const { toast } = useToast();
+  const paged = useReaderStore((s) => s.layout) === "paged";
+  const { userId, preferences } = useReaderPreferences(bookId);
+  const { setTheme } = useTheme();
+  const { setAudioUrl, setDuration, reset, setBlockTexts, setParagraphTimeMap, setActiveBlock, setPlaying } =
+    useAudioStore();
 
   useEffect(() => {
-    if (bookId) {
-      // 切换书籍时重置音频状态，避免上一本书的播放进度/音频残留
-      reset();
-      loadBook(bookId);
-    }
+    if (!bookId) return;
+    // 切换书籍时重置音频状态，避免上一本书的播放进度/音频残留
+    reset();
+    setRepairing(null);
+    // 切换书籍或离开阅读页时，取消上一本书仍在进行的请求和轮询
+    const controller = new AbortController();
+    loadBook(bookId, controller.signal);
+    return () => controller.abort();
   }, [bookId, reset]);
 
-  const loadBook = async (id: string) => {
+  // A book's own theme lasts while it's open; the rest of the app keeps the user's
+  useEffect(() => {
+    setTheme(preferences.theme);
+  }, [preferences.theme, setTheme]);
+
+  useEffect(
+    () => () => setTheme(resolvePreferences(usePreferenceStore.getState(), userId).theme),
+    [userId, setTheme]
+  );
+
+  // Image object URLs belong to the open book
+  useEffect(() => () => epub?.dispose(), [epub]);
+
+  // Load the current EPUB chapter; audio restarts from the new chapter's blocks
+  useEffect(() => {
+    if (!epub) return;
+    let stale = false;
+    epub
+      .loadChapter(chapterIndex)
+      .then((loaded) => {
+        if (stale) return;
+        setPlaying(false);
+        setActiveBlock(null);
+        setChapter(loaded);
+      })
+      .catch((err) => {
+        console.error("[Reader] 加载章节失败:", err);
+        if (!stale) setError("章节加载失败，EPUB 文件可能已损坏");
+      });
+    return () => {
+      stale = true;
+    };
+  }, [epub, chapterIndex, setPlaying, setActiveBlock]);
+
+  const scrollToTarget = (target: ChapterTarget | null, loaded: EpubChapter) => {
+    const offsets = blockOffsets(loaded.blocks);
+    let index = -1;
+    let offset: number | undefined;
+    let align: ScrollLogicalPosition = "start";
+    if (target?.fragment) {
+      index = loaded.blocks.findIndex((block) => block.anchors.includes(target.fragment));
+    } else if (target?.offset !== undefined) {
+      index = offsets.findIndex((start, i) => target.offset < start + loaded.blocks[i].text.length + 2);
+      offset = index >= 0 ? target.offset - offsets[index] : undefined;
+      align = "center";
+    } else if (target?.position) {
+      index = Math.min(target.position.block, loaded.blocks.length - 1);
+      offset = target.position.offset;
+    } else if (target?.atEnd) {
+      index = loaded.blocks.length - 1;
+      align = "end";
+    }
+    if (index >= 0) {
+      useReaderStore.getState().scrollToBlock(index, {
+        align,
+        behavior: target?.position ? "auto" : undefined,
+        offset,
+      });
+      if (target?.narrate) useAudioStore.getState().seekToBlock(index);
+    } else {
+      scrollRef.current?.scrollTo({ top: 0 });
+    }
+  };
+
+  // Scroll once the new chapter's blocks are in the DOM
+  useEffect(() => {
+    if (!chapter) return;
+    const frame = requestAnimationFrame(() => {
+      scrollToTarget(pendingTarget.current, chapter);
+      pendingTarget.current = null;
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [chapter]);
+
+  const openChapter = (index: number, target: ChapterTarget = {}) => {
+    if (!epub || index < 0 || index >= epub.spine.length) return;
+    if (index === chapter?.index) {
+      scrollToTarget(target, chapter);
+      return;
+    }
+    pendingTarget.current = target;
+    setChapterIndex(index);
+  };
+
+  const jumpToHighlight = (highlight: SavedHighlight) => {
+    const index = epub?.chapterIndexOf(highlight.chapter) ?? -1;
+    if (index >= 0) openChapter(index, { offset: highlight.startOffset });
+  };
+
+  // Besides what the shown text reports, EPUB highlights of chapters the book no longer has
+  const unplacedHighlights = useMemo(() => {
+    if (!epub) return orphans;
+    const lost = allHighlights.filter((h) => h.bookId === bookId && epub.chapterIndexOf(h.chapter) < 0);
+    return [...orphans, ...lost];
+  }, [epub, orphans, allHighlights, bookId]);
+
+  // Go to about where a lost highlight was and let the reader select its text again
+  const repairHighlight = (highlight: SavedHighlight) => {
+    setRepairing(highlight);
+    if (epub) jumpToHighlight(highlight);
+    else if (Number.isInteger(Number(highlight.chapter))) {
+      useReaderStore.getState().scrollToBlock(Number(highlight.chapter), { align: "center" });
+    }
+  };
+
+  /**
+   * Open the original EPUB in the browser. Returns false when it can't be
+   * parsed, so the plain-text rendering from the backend is used instead.
+   */
+  const loadEpub = async (id: string, signal: AbortSignal) => {
+    try {
+      const { booksApi } = await import("@/services");
+      const file = await booksApi.getFile(id, signal);
+      const book = await EpubDocument.open(new Uint8Array(await file.arrayBuffer()));
+      if (signal.aborted) return true;
+      // Open the chapter the reader left off in
+      const position = openedAt.current?.position;
+      const saved = position?.chapter ? book.chapterIndexOf(position.chapter) : -1;
+      pendingTarget.current = saved >= 0 ? { position } : null;
+      setEpub(book);
+      setChapterIndex(Math.max(0, saved));
+      return true;
+    } catch (err) {
+      if (signal.aborted) return true;
+      console.error("[Reader] EPUB 解析失败，改用纯文本:", err);
+      return false;
+    }
+  };
+
+  const loadBook = async (id: string, signal: AbortSignal) => {
     setIsLoading(true);
     setError(null);
+    setEpub(null);
+    setChapter(null);
+    setBookContent(null);
+    setPdfPages(null);
+    setBookChapters([]);
+    setEpubSections(null);
+    setElsewhere(null);
+    findTarget.current = parseFindTarget(searchParams);
     try {
-      await fetchBook(id);
+      await fetchBook(id, signal);
+
+      // Open where this device left off; a newer place from another device is offered instead
+      const { currentBook: book, places, deviceId, syncProgress } = useBookStore.getState();
+      const local = places[id] ?? null;
+      const remote = book?.position ? { position: book.position, progress: book.progress } : null;
+      const { open, elsewhere } = resolvePlaces(local, remote, deviceId);
+      openedAt.current = open;
+      // Following a search result is reason enough to be where it leads
+      setElsewhere(findTarget.current ? null : elsewhere);
+      if (local && !local.synced) syncProgress(id);
 
       // Fetch book highlights
-      fetchBookHighlights(id).catch(err => {
+      fetchBookHighlights(id, signal).catch(err => {
         console.error("Failed to load highlights:", err);
       });
+      fetchBookBookmarks(id, signal).catch((err) => {
+        console.error("Failed to load bookmarks:", err);
+      });
 
-      // Fetch book content
+      // EPUB is read from the original file; everything else from the backend's text
+      const isEpub =
+        useBookStore.getState().currentBook?.fileType === "epub" && (await loadEpub(id, signal));
       const { booksApi } = await import("@/services");
-      const response = await booksApi.getContent(id, "plain");
+      const response = isEpub ? null : await booksApi.getContent(id, "plain", undefined, signal);
+      if (signal.aborted) return;
 
-      if (response.success && response.data) {
+      // A PDF's cleaned text is also what the script is written from
+      let sourceText: string | undefined;
+      if (response?.success && response.data) {
         const content = response.data.content;
         setBookContent(content);
+        // Picked up by the reading view once it renders
+        const position = openedAt.current?.position;
+        if (position && !position.chapter) {
+          useReaderStore.getState().scrollToBlock(position.block, { behavior: "auto", offset: position.offset });
+        }
+        // Books stored before chapters were detected get them from the text
+        const chapters = response.data.chapters.map(toBookChapter);
+        setBookChapters(chapters.length ? chapters : detectChapters(content));
+        if (response.data.pages?.length) {
+          setPdfPages(response.data.pages.map(toBookPage));
+          sourceText = content;
+        }
 
-        // Parse content into blocks for Web Speech API
-        // Split by double newlines or newlines followed by non-whitespace
-        const blocks = content
-          .split(/\n\s*\n|\n(?=[^\s])/)
-          .map(b => b.trim())
-          .filter(b => b.length > 0);
+        // Parse content into blocks for Web Speech API, the same blocks the
+        // reader renders so block indices agree
+        const blocks = splitParagraphs(content);
 
         if (blocks.length > 0) {
           console.log('[Reader] Setting', blocks.length, 'blocks for Web Speech API');
@@ -78,7 +335,7 @@ const Reader = () => {
           status_filter: "completed",
           page: 1,
           page_size: 5,
-        } as any);
+        } as any, signal);
 
         let project: any | null = null;
 
@@ -96,7 +353,7 @@ const Reader = () => {
               book_id: id,
               page: 1,
               page_size: 1,
-            } as any);
+            } as any, signal);
             if (anyProjectsRes.success && anyProjectsRes.data && anyProjectsRes.data.items.length > 0) {
               project = anyProjectsRes.data.items[0] as any;
               console.log("[Reader] 使用已存在的有声书项目:", project.id);
@@ -111,7 +368,7 @@ const Reader = () => {
                 book_id: id,
                 name: "自动生成有声书",
                 description: "由阅读页自动创建的有声书项目",
-              });
+              }, signal);
               if (createRes.success && createRes.data) {
                 project = createRes.data as any;
                 console.log("[Reader] 已为当前书籍自动创建有声书项目:", project.id);
@@ -122,13 +379,18 @@ const Reader = () => {
           }
         }
 
+        if (signal.aborted) return;
+
         if (project) {
           // 3）优先从 /audio 接口获取最新的 audio_url 和 duration
           try {
-            const audioRes = await audioApi.getAudio(project.id);
+            const audioRes = await audioApi.getAudio(project.id, signal);
             if (audioRes.success && audioRes.data?.audio_url) {
               setAudioUrl(audioRes.data.audio_url);
               setDuration(audioRes.data.duration || project.duration || 0);
+              // The same track as when the place was saved, so its time still fits
+              const audioTime = openedAt.current?.position.audioTime;
+              if (typeof audioTime === "number") useAudioStore.getState().setCurrentTime(audioTime);
               return;
             }
 
@@ -143,10 +405,10 @@ const Reader = () => {
 
               // 3.1 检查脚本状态，如果尚未开始则触发脚本生成
               try {
-                const statusRes = await scriptsApi.getStatus(project.id);
+                const statusRes = await scriptsApi.getStatus(project.id, signal);
                 if (statusRes.success && statusRes.data) {
                   if (statusRes.data.status === "not_started") {
-                    await scriptsApi.generate(project.id, {});
+                    await scriptsApi.generate(project.id, { source_text: sourceText }, signal);
                   }
                 }
               } catch (e) {
@@ -156,8 +418,8 @@ const Reader = () => {
               // 3.2 轮询脚本状态直到 approved 或超时
               try {
                 const maxScriptPolls = 20;
-                for (let i = 0; i < maxScriptPolls; i++) {
-                  const statusRes = await scriptsApi.getStatus(project.id);
+                for (let i = 0; i < maxScriptPolls && !signal.aborted; i++) {
+                  const statusRes = await scriptsApi.getStatus(project.id, signal);
                   if (!statusRes.success || !statusRes.data) break;
 
                   if (statusRes.data.status === "approved") {
@@ -176,9 +438,11 @@ const Reader = () => {
                 console.error("[Reader] 轮询脚本状态失败:", e);
               }
 
+              if (signal.aborted) return;
+
               // 3.3 基于脚本创建 chunks（如果已存在则后端会覆盖旧的 chunk）
               try {
-                await scriptsApi.createChunks(project.id);
+                await scriptsApi.createChunks(project.id, signal);
                 console.log("[Reader] 已根据脚本创建/刷新音频块");
               } catch (e) {
                 console.error("[Reader] 根据脚本创建音频块失败:", e);
@@ -186,7 +450,7 @@ const Reader = () => {
 
               // 3.4 触发快速音频生成（后台批量生成所有 pending chunk）
               try {
-                await audioApi.generateFast(project.id);
+                await audioApi.generateFast(project.id, signal);
                 console.log("[Reader] 已触发批量音频生成");
               } catch (e) {
                 console.error("[Reader] 触发音频生成失败:", e);
@@ -197,7 +461,8 @@ const Reader = () => {
                 const maxAudioPolls = 30;
                 for (let i = 0; i < maxAudioPolls; i++) {
                   await new Promise((resolve) => setTimeout(resolve, 3000));
-                  const retryRes = await audioApi.getAudio(project.id);
+                  if (signal.aborted) return;
+                  const retryRes = await audioApi.getAudio(project.id, signal);
                   if (retryRes.success && retryRes.data?.audio_url) {
                     console.log("[Reader] 自动生成有声书音频成功:", retryRes.data.audio_url);
                     setAudioUrl(retryRes.data.audio_url);
@@ -214,6 +479,7 @@ const Reader = () => {
             // 走到这里说明没有可用音频或自动生成失败，使用 Web Speech 作为兜底
             setAudioUrl(null);
           } catch (audioErr: any) {
+            if (signal.aborted) return;
             // 处理不同类型的错误
             const errorCode = audioErr?.data?.error?.code || audioErr?.code || "UNKNOWN";
             const errorMessage = audioErr?.data?.error?.message || audioErr?.message || "Unknown error";
@@ -226,11 +492,13 @@ const Reader = () => {
           setAudioUrl(null);
         }
       } catch (projErr) {
+        if (signal.aborted) return;
         console.error("加载/创建有声书项目音频信息失败:", projErr);
         // 项目加载失败时，仍然使用 Web Speech 作为兜底
         setAudioUrl(null);
       }
     } catch (error: any) {
+      if (signal.aborted) return;
       console.error("Failed to load book:", error);
       // Check if it's a 404 error (book not found or deleted)
       if (error?.status === 404 || error?.response?.status === 404 || error?.message?.includes("not found") || error?.message?.includes("不存在")) {
@@ -239,8 +507,232 @@ const Reader = () => {
         setError("加载书籍失败，请稍后重试");
       }
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const paragraphStarts = useMemo(() => (bookContent ? paragraphOffsets(bookContent) : []), [bookContent]);
+  const chapterStarts = useMemo(() => (chapter ? blockOffsets(chapter.blocks) : []), [chapter]);
+  const pageLabels = useMemo(
+    () => (pdfPages && bookContent ? pageLabelsByParagraph(pdfPages, bookContent) : undefined),
+    [pdfPages, bookContent]
+  );
+
+  const tocChapters = useMemo(
+    () => (bookContent ? chapterBlocks(bookChapters, bookContent) : undefined),
+    [bookChapters, bookContent]
+  );
+
+  const textSearchSections = useMemo(
+    () => (bookContent ? textSections(splitParagraphs(bookContent), tocChapters, currentBook?.title) : null),
+    [bookContent, tocChapters, currentBook?.title]
+  );
+
+  // Searching an EPUB needs the text of every chapter, not just the open one
+  useEffect(() => {
+    if (!searchOpen || !epub || epubSections) return;
+    let stale = false;
+    Promise.all(epub.spine.map((_, index) => epub.loadChapter(index)))
+      .then((chapters) => {
+        if (stale) return;
+        setEpubSections(
+          chapters.map((loaded) => ({
+            title: loaded.title,
+            chapterIndex: loaded.index,
+            start: 0,
+            texts: loaded.blocks.map((block) => block.text),
+          }))
+        );
+      })
+      .catch((err) => console.error("[Reader] 载入全书用于搜索失败:", err));
+    return () => {
+      stale = true;
+    };
+  }, [searchOpen, epub, epubSections]);
+
+  // Folding a long book for matching takes a moment, so it waits until search is opened
+  const searchSections = !searchOpen ? null : epub ? epubSections : textSearchSections;
+  const search = useBookSearch(searchSections, (hit, narrate) => {
+    const section = search.sections?.[hit.section];
+    if (!section) return;
+    if (epub) {
+      const offsets = blockOffsets(section.texts.map((text) => ({ text })));
+      openChapter(section.chapterIndex, { offset: offsets[hit.block] + hit.start, narrate });
+      return;
+    }
+    useReaderStore.getState().scrollToBlock(hit.block, { align: "center", offset: hit.start });
+    if (narrate) useAudioStore.getState().seekToBlock(hit.block);
+  });
+
+  // Open find-in-book on the passage a library search linked to. Plain text is
+  // split into the same paragraphs the search used; an EPUB's chapters aren't,
+  // so there the match is found by which occurrence of the query it was.
+  useEffect(() => {
+    const target = findTarget.current;
+    if (!target || isLoading) return;
+    if (!searchOpen) {
+      setSearchOpen(true);
+      search.setQuery(target.query);
+      return;
+    }
+    if (search.query !== target.query || search.searching || !search.sections) return;
+    findTarget.current = null;
+    setSearchParams({}, { replace: true });
+    const exact = epub ? -1 : search.hits.findIndex((hit) => hit.block === target.block && hit.start === target.offset);
+    const index = exact >= 0 ? exact : target.occurrence ?? -1;
+    if (index >= 0 && index < search.hits.length) search.select(index);
+    else if (!epub) useReaderStore.getState().scrollToBlock(target.block, { align: "center", offset: target.offset });
+  }, [isLoading, searchOpen, search, epub, setSearchParams]);
+
+  // Hits in the text on screen: the open EPUB chapter, or the whole plain-text book
+  const searchMarks = useMemo<SearchMarks | null>(() => {
+    if (!searchOpen || !search.hits.length) return null;
+    const inView = (hit: SearchHit) => !epub || search.sections?.[hit.section]?.chapterIndex === chapter?.index;
+    const hits = new Map<number, Array<{ start: number; end: number }>>();
+    search.hits.filter(inView).forEach((hit) => {
+      hits.set(hit.block, [...(hits.get(hit.block) ?? []), { start: hit.start, end: hit.end }]);
+    });
+    const current = search.currentHit && inView(search.currentHit) ? search.currentHit : null;
+    return { hits, current, flash: search.flash };
+  }, [searchOpen, search.hits, search.sections, search.currentHit, search.flash, epub, chapter]);
+
+  // Bookmark the place being read, and where the audio track is if the book has one
+  const addBookmark = useCallback(async () => {
+    if (!bookId) return;
+    // The last reported place, unless another chapter has opened since
+    const reported = lastPosition.current;
+    const position =
+      reported && (reported.chapter ?? undefined) === chapter?.href
+        ? reported
+        : { chapter: chapter?.href, block: 0, offset: 0 };
+    const text = chapter
+      ? chapter.blocks[position.block]?.text
+      : bookContent && splitParagraphs(bookContent)[position.block];
+    const { audioUrl, currentTime } = useAudioStore.getState();
+    try {
+      const bookmark = await useBookmarkStore.getState().addBookmark(bookId, {
+        chapter: position.chapter ?? undefined,
+        block: position.block,
+        offset: position.offset,
+        excerpt: (text ?? "").slice(position.offset).trim().slice(0, BOOKMARK_EXCERPT),
+        audio_time: audioUrl ? currentTime : undefined,
+      });
+      if (bookmark) toast({ title: "已添加书签", description: bookmark.excerpt || undefined });
+    } catch (err) {
+      toast({ variant: "destructive", title: "添加书签失败", description: (err as Error)?.message });
+    }
+  }, [bookId, chapter, bookContent, toast]);
+
+  // Go to a saved place, and to where the audio track was there
+  const jumpToPosition = (position: ReadingPosition) => {
+    if (epub) {
+      const index = position.chapter ? epub.chapterIndexOf(position.chapter) : -1;
+      if (index >= 0) openChapter(index, { position });
+    } else {
+      useReaderStore.getState().scrollToBlock(position.block, { offset: position.offset });
     }
+    // Only a project's audio track has times that mean the same thing later
+    const audio = useAudioStore.getState();
+    if (audio.audioUrl && typeof position.audioTime === "number") audio.setCurrentTime(position.audioTime);
+  };
+
+  const jumpToBookmark = (bookmark: Bookmark) => {
+    const { chapter, block, offset, audioTime } = bookmark;
+    jumpToPosition({ chapter, block, offset, audioTime });
+  };
+
+  // Ctrl+F searches the whole book; the browser's own find only sees the blocks on screen.
+  // Ctrl+D bookmarks the place being read. Both are left alone while typing a note or a query.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey) return;
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = event.key.toLowerCase();
+      if (key === "f") {
+        event.preventDefault();
+        setSearchOpen(true);
+        searchInputRef.current?.select();
+      } else if (key === "d") {
+        event.preventDefault();
+        addBookmark();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [addBookmark]);
+
+  // Share of the book before a position; EPUB chapters count equally
+  const progressAt = useCallback(
+    (position: ReadingPosition) => {
+      if (epub && chapter) {
+        const last = chapter.blocks.length - 1;
+        const length = last >= 0 ? chapterStarts[last] + chapter.blocks[last].text.length : 0;
+        const within = length > 0 ? ((chapterStarts[position.block] ?? 0) + position.offset) / length : 0;
+        return Math.min(1, (chapter.index + within) / epub.spine.length);
+      }
+      if (!bookContent) return 0;
+      return Math.min(1, ((paragraphStarts[position.block] ?? 0) + position.offset) / bookContent.length);
+    },
+    [epub, chapter, chapterStarts, bookContent, paragraphStarts]
+  );
+
+  const handlePositionChange = useCallback(
+    (position: ReadingPosition) => {
+      lastPosition.current = position;
+      if (!bookId) return;
+      const { audioUrl, currentTime } = useAudioStore.getState();
+      useBookStore
+        .getState()
+        .updateBookProgress(bookId, progressAt(position), { ...position, audioTime: audioUrl ? currentTime : undefined });
+    },
+    [bookId, progressAt]
+  );
+
+  // Sync right away when leaving the book, or when the tab is put away on a phone
+  useEffect(() => {
+    lastPosition.current = null;
+    if (!bookId) return;
+    const sync = () => useBookStore.getState().syncProgress(bookId);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") sync();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      sync();
+    };
+  }, [bookId]);
+
+  // Switch layouts without losing the place
+  const toggleLayout = () => {
+    const { layout, setLayout, scrollToBlock } = useReaderStore.getState();
+    setLayout(layout === "paged" ? "scroll" : "paged");
+    const position = lastPosition.current;
+    if (position) scrollToBlock(position.block, { behavior: "auto", offset: position.offset });
+  };
+
+  // Plain-text highlights are block-relative; find the PDF page they start on
+  const describePdfHighlight = (highlight: SavedHighlight) => {
+    const start = paragraphStarts[Number(highlight.chapter)];
+    const location = start !== undefined && locateOffset(pdfPages, start + highlight.startOffset);
+    return location ? `第 ${location.label} 页` : null;
+  };
+
+  const describePosition = (position: ReadingPosition) => {
+    if (epub) return (position.chapter && epub.chapterTitle(epub.chapterIndexOf(position.chapter))) || null;
+    const start = paragraphStarts[position.block];
+    const location = pdfPages && start !== undefined && locateOffset(pdfPages, start + position.offset);
+    if (location) return `第 ${location.label} 页`;
+    const heading = tocChapters?.filter((entry) => entry.blockIndex <= position.block).pop();
+    return heading?.title ?? null;
+  };
+
+  const describeElsewhere = (place: PlaceRead) => {
+    const { updatedAt } = place.position;
+    const when = updatedAt ? formatDistanceToNow(new Date(updatedAt), { addSuffix: true, locale: zhCN }) : "";
+    const where = describePosition(place.position);
+    return `${when}在另一台设备上读到了 ${Math.round(place.progress * 100)}%${where ? `（${where}）` : ""}。`;
   };
 
   const title = currentBook?.title || "未知书籍";
@@ -297,37 +789,161 @@ const Reader = () => {
           {title}
         </span>
 
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => setSidebarOpen(!sidebarOpen)}
-          className={`h-8 w-8 ${sidebarOpen ? "text-primary" : "text-muted-foreground"}`}
-        >
-          <StickyNote className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setSearchOpen(!searchOpen)}
+            title="书内搜索 (Ctrl+F)"
+            className={`h-8 w-8 ${searchOpen ? "text-primary" : "text-muted-foreground"}`}
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={addBookmark}
+            title="添加书签 (Ctrl+D)"
+            className="h-8 w-8 text-muted-foreground"
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+          <ReaderPreferencesPanel bookId={bookId} />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleLayout}
+            title={paged ? "滚动阅读" : "分页阅读"}
+            className="h-8 w-8 text-muted-foreground"
+          >
+            {paged ? <ScrollText className="h-4 w-4" /> : <BookOpen className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setSidebarOpen(!sidebarOpen)}
+            className={`h-8 w-8 ${sidebarOpen ? "text-primary" : "text-muted-foreground"}`}
+          >
+            <StickyNote className="h-4 w-4" />
+          </Button>
+        </div>
       </header>
 
       <div className="flex flex-1 overflow-hidden">
         <div
-          className="flex-1 overflow-y-auto scrollbar-thin"
+          ref={scrollRef}
+          className={paged ? "flex-1 overflow-hidden" : "flex-1 overflow-y-auto scrollbar-thin"}
           style={{ backgroundColor: "hsl(var(--reading-surface))" }}
         >
+          {repairing && (
+            <div className="sticky top-0 z-10 flex items-center gap-2 border-b bg-card/95 px-4 py-2 text-xs backdrop-blur">
+              <MapPin className="h-3.5 w-3.5 shrink-0 text-primary" />
+              <span className="min-w-0 flex-1 truncate text-foreground">
+                选中这条划线现在对应的文字：「{repairing.text}」
+              </span>
+              <Button variant="ghost" size="sm" className="h-7 shrink-0" onClick={() => setRepairing(null)}>
+                取消
+              </Button>
+            </div>
+          )}
           <ReaderContent
             title={title}
             author={author}
             bookId={resolvedId}
             content={bookContent || "暂无内容"}
+            chapter={chapter || undefined}
+            onNavigate={(index, fragment) => openChapter(index, { fragment })}
+            pageLabels={pageLabels}
+            scrollRef={scrollRef}
+            paged={paged}
+            chapters={tocChapters}
+            onTurnChapter={(direction) =>
+              chapter && openChapter(chapter.index + direction, direction < 0 ? { atEnd: true } : {})
+            }
+            onPositionChange={handlePositionChange}
+            search={searchMarks}
+            repairing={repairing}
+            onRepaired={() => {
+              setRepairing(null);
+              toast({ title: "划线已移到选中的文字" });
+            }}
+            onOrphansChange={setOrphans}
           />
+          {epub && chapter && !paged && (
+            <nav className="mx-auto flex max-w-2xl items-center justify-between px-8 pb-28 text-sm text-muted-foreground">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={chapter.index === 0}
+                onClick={() => openChapter(chapter.index - 1)}
+                className="gap-1"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                上一章
+              </Button>
+              <span>
+                {chapter.title} · {chapter.index + 1}/{epub.spine.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={chapter.index === epub.spine.length - 1}
+                onClick={() => openChapter(chapter.index + 1)}
+                className="gap-1"
+              >
+                下一章
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </nav>
+          )}
         </div>
+        {searchOpen && (
+          <BookSearchPanel search={search} onClose={() => setSearchOpen(false)} inputRef={searchInputRef} />
+        )}
         <NoteSidebar
           isOpen={sidebarOpen}
           onClose={() => setSidebarOpen(false)}
           bookId={resolvedId}
-          bookContent={bookContent || undefined}
+          chapters={tocChapters}
+          toc={epub?.toc}
+          activeChapterIndex={chapter?.index}
+          onTocNavigate={(entry) => openChapter(entry.chapterIndex, { fragment: entry.fragment })}
+          onEditChapters={bookContent ? () => setChapterEditorOpen(true) : undefined}
+          onJumpToHighlight={epub ? jumpToHighlight : undefined}
+          describeHighlight={pdfPages ? describePdfHighlight : undefined}
+          unplacedHighlights={unplacedHighlights}
+          onRepairHighlight={repairHighlight}
+          onAddBookmark={addBookmark}
+          onJumpToBookmark={jumpToBookmark}
+          describeBookmark={describePosition}
         />
       </div>
 
       <AudioPlayer />
+
+      {bookContent && (
+        <ChapterEditor
+          open={chapterEditorOpen}
+          onOpenChange={setChapterEditorOpen}
+          bookId={resolvedId}
+          content={bookContent}
+          chapters={bookChapters}
+          onSaved={setBookChapters}
+        />
+      )}
+
+      <AlertDialog open={!!elsewhere} onOpenChange={(open) => !open && setElsewhere(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>跳到在另一台设备上读到的位置？</AlertDialogTitle>
+            <AlertDialogDescription>{elsewhere && describeElsewhere(elsewhere)}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>留在这里</AlertDialogCancel>
+            <AlertDialogAction onClick={() => elsewhere && jumpToPosition(elsewhere.position)}>跳转</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -20,47 +20,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import LibraryBackup from "@/components/LibraryBackup";
 import { ArrowLeft, Save, RefreshCw, CheckCircle2, XCircle, Activity } from "lucide-react";
-import { authFetch } from "@/utils/auth";
-
-interface SystemStatus {
-  status: string;
-  version: string;
-  timestamp: string;
-  services: {
-    tts: string;
-    llm: string;
-    database: string;
-  };
-  resources: {
-    cpu_usage: number;
-    memory_usage: number;
-    memory_total_gb: number;
-    memory_used_gb: number;
-    disk_usage: number;
-    disk_total_gb: number;
-    disk_used_gb: number;
-  };
-}
-
-interface SystemConfig {
-  tts: {
-    mode: string;
-    url: string;
-    timeout: number;
-    parallel_workers: number;
-    language: string;
-  };
-  llm: {
-    base_url: string;
-    api_key: string;
-    model_name: string;
-  };
-  prompts: {
-    script_generation: string;
-    script_review: string;
-  };
-}
+import { configApi, systemApi, type DefaultPrompts, type SystemConfig, type SystemStatus } from "@/services";
 
 export default function Settings() {
   const navigate = useNavigate();
@@ -71,7 +33,7 @@ export default function Settings() {
 
   const [config, setConfig] = useState<SystemConfig | null>(null);
   const [status, setStatus] = useState<SystemStatus | null>(null);
-  const [defaultPrompts, setDefaultPrompts] = useState<any>(null);
+  const [defaultPrompts, setDefaultPrompts] = useState<DefaultPrompts | null>(null);
 
   useEffect(() => {
     fetchConfig();
@@ -82,10 +44,9 @@ export default function Settings() {
   const fetchConfig = async () => {
     setLoading(true);
     try {
-      const response = await authFetch("/api/config");
-      const data = await response.json();
-      if (data.success) {
-        setConfig(data.data);
+      const response = await configApi.get();
+      if (response.success && response.data) {
+        setConfig(response.data);
       }
     } catch (error) {
       console.error("Failed to fetch config:", error);
@@ -96,10 +57,9 @@ export default function Settings() {
 
   const fetchStatus = async () => {
     try {
-      const response = await authFetch("/api/config/system/status");
-      const data = await response.json();
-      if (data.success) {
-        setStatus(data.data);
+      const response = await systemApi.getStatus();
+      if (response.success && response.data) {
+        setStatus(response.data);
       }
     } catch (error) {
       console.error("Failed to fetch status:", error);
@@ -108,10 +68,9 @@ export default function Settings() {
 
   const fetchDefaultPrompts = async () => {
     try {
-      const response = await authFetch("/api/config/prompts/default");
-      const data = await response.json();
-      if (data.success) {
-        setDefaultPrompts(data.data);
+      const response = await configApi.getDefaultPrompts();
+      if (response.success && response.data) {
+        setDefaultPrompts(response.data);
       }
     } catch (error) {
       console.error("Failed to fetch default prompts:", error);
@@ -123,20 +82,14 @@ export default function Settings() {
 
     setSaving(true);
     try {
-      const response = await authFetch("/api/config", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(config),
-      });
-
-      const data = await response.json();
-      if (data.success) {
+      const response = await configApi.update(config);
+      if (response.success) {
         toast({
           title: "保存成功",
           description: "配置已更新",
         });
       } else {
-        throw new Error(data.error?.message || "保存失败");
+        throw new Error(response.error?.message || "保存失败");
       }
     } catch (error: any) {
       toast({
@@ -215,11 +168,12 @@ export default function Settings() {
 
       <div className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-4 lg:w-[500px]">
+          <TabsList className="grid w-full grid-cols-5 lg:w-[600px]">
             <TabsTrigger value="general">通用</TabsTrigger>
             <TabsTrigger value="tts">TTS</TabsTrigger>
             <TabsTrigger value="llm">LLM</TabsTrigger>
             <TabsTrigger value="status">状态</TabsTrigger>
+            <TabsTrigger value="data">数据</TabsTrigger>
           </TabsList>
 
           {/* General Settings */}
@@ -541,6 +495,11 @@ export default function Settings() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Backup and restore */}
+          <TabsContent value="data" className="space-y-4">
+            <LibraryBackup />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
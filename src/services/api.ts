@@ -1,11 +1,28 @@
 /**
  * API Client for backend communication
  */
-import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from "axios";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from "./retry";
+import { session } from "./session";
+import { createRequestId, requestTracer, TracedConfig } from "./tracing";
 
 export interface ApiConfig {
   baseURL: string;
   timeout?: number;
+  /** Client-wide defaults, overridable per call */
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface RequestOptions {
+  /** Override the retry policy for this call, or `false` for a single attempt */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Sent as the Idempotency-Key header so the backend can drop replays.
+   * `true` generates a key, reused by every retry of this call.
+   */
+  idempotencyKey?: string | boolean;
+  /** Cancels the request, including any pending retry */
+  signal?: AbortSignal;
 }
 
 export interface ApiResponse<T = any> {
@@ -26,11 +43,27 @@ export interface PaginatedResponse<T> {
   total_pages: number;
 }
 
+// Login/register/refresh never wait on or trigger a token refresh
+const isAuthEndpoint = (url?: string) => !!url && /^\/?auth\//.test(url);
+
+type AuthRetryConfig = TracedConfig & { _authRetried?: boolean };
+
+/**
+ * Whether a request failed because its signal was aborted
+ */
+export const isRequestCanceled = (error: unknown): boolean => {
+  const { code, name } = (error ?? {}) as { code?: string; name?: string };
+  return code === "ERR_CANCELED" || name === "AbortError" || name === "CanceledError";
+};
+
 export class ApiClient {
   private client: AxiosInstance;
   private token: string | null = null;
+  private retryPolicy: RetryPolicy;
 
   constructor(config: ApiConfig) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+
     this.client = axios.create({
       baseURL: config.baseURL,
       timeout: config.timeout || 60000,
@@ -43,11 +76,11 @@ export class ApiClient {
   }
 
   private setupInterceptors() {
-    // Request interceptor - always read token from localStorage
+    // Request interceptor - always read the latest token from the session
     this.client.interceptors.request.use(
-      (config: InternalAxiosRequestConfig) => {
-        // Read token directly from localStorage to ensure we always have the latest value
-        const token = localStorage.getItem("auth_token");
+      async (config: InternalAxiosRequestConfig) => {
+        // Tokens close to expiry are refreshed first; requests issued meanwhile wait for it
+        const token = isAuthEndpoint(config.url) ? session.getAccessToken() : await session.getValidToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -58,16 +91,8 @@ export class ApiClient {
           delete config.headers['Content-Type'];
         }
 
-        // Debug: log request details
-        console.log('[API Request]', config.method?.toUpperCase(), config.url);
-        console.log('[API] Headers:', config.headers);
-        console.log('[API] Data type:', config.data?.constructor.name);
-        if (config.data instanceof FormData) {
-          console.log('[API] FormData entries:', Array.from(config.data.entries()).map(e => {
-            if (e[1] instanceof File) return [e[0], `File(${e[1].name})`];
-            return e;
-          }));
-        }
+        // Correlation ID and timing for the network log
+        requestTracer.begin(config);
 
         return config;
       },
@@ -76,20 +101,29 @@ export class ApiClient {
 
     // Response interceptor
     this.client.interceptors.response.use(
-      (response) => response.data,
-      (error: AxiosError<any>) => {
-        if (error.response?.status === 401) {
-          // Clear token from localStorage on 401
-          localStorage.removeItem("auth_token");
-          localStorage.removeItem("auth_user");
-          // You could redirect to login here
-          console.error("Unauthorized - please login again");
+      (response) => {
+        requestTracer.succeed(response);
+        return response.data;
+      },
+      async (error: AxiosError<any>) => {
+        const config = error.config as AuthRetryConfig | undefined;
+        requestTracer.fail(config, error);
+        if (error.response?.status === 401 && config && !config._authRetried && !isAuthEndpoint(config.url)) {
+          // Concurrent 401s share one refresh, then replay with the new token.
+          // A failed refresh expires the session and the app sends the user to /login.
+          config._authRetried = true;
+          const token = await session.refresh();
+          if (token) {
+            config.headers.Authorization = `Bearer ${token}`;
+            return this.client.request(config);
+          }
         }
         // Create a more informative error object
         const enhancedError: any = new Error(
           error.response?.data?.detail || error.response?.data?.message || error.message
         );
         enhancedError.response = error.response;
+        enhancedError.code = error.code;
         enhancedError.status = error.response?.status;
         enhancedError.data = error.response?.data;
         return Promise.reject(enhancedError);
@@ -105,62 +139,113 @@ export class ApiClient {
     this.token = null;
   }
 
-  async get<T = any>(url: string, config?: any): Promise<ApiResponse<T>> {
-    return this.client.get(url, config);
+  /**
+   * Answer requests with `adapter` instead of the network (the mock backend)
+   */
+  useAdapter(adapter: AxiosAdapter) {
+    this.client.defaults.adapter = adapter;
+  }
+
+  /**
+   * Run a request under the effective retry policy.
+   * Idempotent methods are always safe to repeat; other mutations only once
+   * they carry an idempotency key.
+   */
+  private send<T>(request: () => Promise<T>, options: RequestOptions, idempotent: boolean): Promise<T> {
+    if (options.retry === false) {
+      return request();
+    }
+    const policy = { ...this.retryPolicy, ...options.retry };
+    return withRetry(request, policy, idempotent || !!options.idempotencyKey, options.signal);
+  }
+
+  /**
+   * Axios config carrying the per-call options on top of `base`
+   */
+  private requestConfig(options: RequestOptions, base: AxiosRequestConfig = {}): AxiosRequestConfig {
+    const config: AxiosRequestConfig = { ...base };
+    if (options.signal) {
+      config.signal = options.signal;
+    }
+    if (options.idempotencyKey) {
+      const key = options.idempotencyKey === true ? createRequestId() : options.idempotencyKey;
+      config.headers = { ...config.headers, "Idempotency-Key": key };
+    }
+    return config;
+  }
+
+  /**
+   * Extra axios config for a mutation, empty when there's nothing to add
+   */
+  private mutationConfig(options: RequestOptions, data?: unknown): [] | [AxiosRequestConfig] {
+    const config = this.requestConfig(options, data !== undefined ? { data } : {});
+    return Object.keys(config).length ? [config] : [];
+  }
+
+  async get<T = any>(url: string, params?: any, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const config = this.requestConfig(options, params ? { params } : {});
+    return this.send(() => this.client.get(url, config), options, true);
   }
 
-  async post<T = any>(url: string, data?: any): Promise<ApiResponse<T>> {
-    return this.client.post(url, data);
+  async post<T = any>(url: string, data?: any, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const config = this.mutationConfig(options);
+    return this.send(() => this.client.post(url, data, ...config), options, false);
   }
 
-  async put<T = any>(url: string, data?: any): Promise<ApiResponse<T>> {
-    return this.client.put(url, data);
+  async put<T = any>(url: string, data?: any, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const config = this.mutationConfig(options);
+    return this.send(() => this.client.put(url, data, ...config), options, true);
   }
 
-  async patch<T = any>(url: string, data?: any): Promise<ApiResponse<T>> {
-    return this.client.patch(url, data);
+  async patch<T = any>(url: string, data?: any, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const config = this.mutationConfig(options);
+    return this.send(() => this.client.patch(url, data, ...config), options, false);
   }
 
-  async delete<T = any>(url: string): Promise<ApiResponse<T>> {
-    return this.client.delete(url);
+  async delete<T = any>(url: string, data?: unknown, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const config = this.mutationConfig(options, data);
+    return this.send(() => this.client.delete(url, ...config), options, true);
   }
 
   async upload<T = any>(
     url: string,
     formData: FormData,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    // Debug: log FormData contents
-    console.log("Upload FormData contents:");
-    for (let [key, value] of formData.entries()) {
-      if (value instanceof File) {
-        console.log(`  ${key}: File(${value.name}, ${value.size} bytes, ${value.type})`);
-      } else {
-        console.log(`  ${key}: ${value}`);
-      }
-    }
-
-    return this.client.post(url, formData, {
-      // Don't set headers at all - let the interceptor handle Authorization
-      // This prevents overriding the Authorization header from the interceptor
-      timeout: 300000, // 5 minutes for file uploads
-      onUploadProgress: (progressEvent) => {
-        if (progressEvent.total && onProgress) {
-          const percentCompleted = Math.round(
-            (progressEvent.loaded * 100) / progressEvent.total
-          );
-          onProgress(percentCompleted);
-        }
-      },
-    });
+    const config = this.requestConfig(options);
+    return this.send(
+      () =>
+        this.client.post(url, formData, {
+          // Don't set headers at all - let the interceptor handle Authorization
+          // This prevents overriding the Authorization header from the interceptor
+          ...config,
+          timeout: 300000, // 5 minutes for file uploads
+          onUploadProgress: (progressEvent) => {
+            if (progressEvent.total && onProgress) {
+              const percentCompleted = Math.round(
+                (progressEvent.loaded * 100) / progressEvent.total
+              );
+              onProgress(percentCompleted);
+            }
+          },
+        }),
+      // Uploads are large, so they only retry when asked to
+      { retry: false, ...options },
+      false
+    );
   }
 
-  async download(url: string, filename?: string): Promise<void> {
-    const response = await this.client.get(url, {
-      responseType: "blob",
-    });
+  /**
+   * GET a binary body; the interceptor hands back the Blob itself
+   */
+  async getBlob(url: string, params?: Record<string, unknown>, options: RequestOptions = {}): Promise<Blob> {
+    const config = this.requestConfig(options, { responseType: "blob", ...(params ? { params } : {}) });
+    return this.send(() => this.client.get(url, config), options, true) as unknown as Promise<Blob>;
+  }
 
-    const blob = new Blob([response.data]);
+  async download(url: string, filename?: string, options: RequestOptions = {}): Promise<void> {
+    const blob = await this.getBlob(url, undefined, options);
     const link = document.createElement("a");
     link.href = URL.createObjectURL(blob);
     link.download = filename || "download";
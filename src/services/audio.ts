@@ -2,47 +2,35 @@
  * Audio API Service
  */
 import { apiClient, ApiResponse, PaginatedResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type {
+  AudioExportDto,
+  ChunkDto,
+  ChunkProgressDto,
+  ChunkUpdateDto,
+  MergeAudioRequestDto,
+  ProjectAudioDto,
+  TaskDto,
+} from "./generated/schemas";
 
-export interface Chunk {
-  id: string;
-  project_id: string;
-  script_id: string;
-  speaker: string;
-  text: string;
-  instruct?: string;
-  emotion?: string;
-  section?: string;
-  status: "pending" | "processing" | "completed" | "failed";
-  audio_path?: string;
-  duration?: number;
-  order_index: number;
-  created_at: string;
-  updated_at: string;
-}
+export { chunkSchema } from "./generated/schemas";
 
-export interface ChunkUpdate {
-  text?: string;
-  instruct?: string;
-  speaker?: string;
-}
+export type Chunk = ChunkDto;
+export type ChunkUpdate = ChunkUpdateDto;
 
 export const audioApi = {
   // Get audio chunks
   getChunks: async (
     projectId: string,
-    params: {
-      speaker?: string;
-      status?: string;
-      page?: number;
-      page_size?: number;
-    } = {}
+    params: endpoints.ListChunksParams = {},
+    signal?: AbortSignal
   ): Promise<ApiResponse<PaginatedResponse<Chunk>>> => {
-    return apiClient.get(`/projects/${projectId}/chunks`, params);
+    return endpoints.listChunks(projectId, params, { signal });
   },
 
   // Generate single chunk
-  generateChunk: async (projectId: string, chunkId: string): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/chunks/${chunkId}/generate`);
+  generateChunk: async (projectId: string, chunkId: string, signal?: AbortSignal): Promise<ApiResponse<any>> => {
+    return endpoints.generateChunk(projectId, chunkId, { signal });
   },
 
   // Batch generate
@@ -50,98 +38,59 @@ export const audioApi = {
     projectId: string,
     chunkIds: string[],
     mode: "parallel" | "sequential" = "parallel",
-    workers: number = 2
-  ): Promise<ApiResponse<{ task_id: string }>> => {
-    return apiClient.post(`/projects/${projectId}/chunks/generate-batch`, {
-      chunk_ids: chunkIds,
-      mode,
-      workers,
-    });
+    workers: number = 2,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TaskDto>> => {
+    return endpoints.generateChunkBatch(projectId, { chunk_ids: chunkIds, mode, workers }, { signal });
   },
 
   // Fast batch generate
-  generateFast: async (projectId: string): Promise<ApiResponse<{ task_id: string }>> => {
-    return apiClient.post(`/projects/${projectId}/chunks/generate-fast`);
+  generateFast: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<TaskDto>> => {
+    return endpoints.generateChunksFast(projectId, { signal });
   },
 
   // Update chunk
-  updateChunk: async (projectId: string, chunkId: string, data: ChunkUpdate): Promise<ApiResponse<Chunk>> => {
-    return apiClient.patch(`/projects/${projectId}/chunks/${chunkId}`, data);
+  updateChunk: async (
+    projectId: string,
+    chunkId: string,
+    data: ChunkUpdate,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<Chunk>> => {
+    return endpoints.updateChunk(projectId, chunkId, data, { signal });
   },
 
   // Regenerate chunk
-  regenerateChunk: async (projectId: string, chunkId: string): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/chunks/${chunkId}/retry`);
+  regenerateChunk: async (projectId: string, chunkId: string, signal?: AbortSignal): Promise<ApiResponse<any>> => {
+    return endpoints.retryChunk(projectId, chunkId, { signal });
   },
 
   // Get chunks progress
-  getProgress: async (projectId: string): Promise<
-    ApiResponse<{
-      total: number;
-      completed: number;
-      processing: number;
-      pending: number;
-      percentage: number;
-      estimated_time_remaining: number | null;
-    }>
-  > => {
-    return apiClient.get(`/projects/${projectId}/chunks/progress`);
+  getProgress: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<ChunkProgressDto>> => {
+    return endpoints.getChunkProgress(projectId, { signal });
   },
 
   // Merge audio
   mergeAudio: async (
     projectId: string,
-    options: {
-      pause_between_speakers?: number;
-      pause_same_speaker?: number;
-      output_format?: "mp3" | "wav";
-      bitrate?: string;
-    } = {}
+    options: MergeAudioRequestDto = {},
+    signal?: AbortSignal
   ): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/audio/merge`, options);
+    return endpoints.mergeAudio(projectId, options, { signal });
   },
 
   // Get merged audio
-  getAudio: async (projectId: string): Promise<
-    ApiResponse<{
-      audio_url: string;
-      duration: number;
-      file_size: number | null;
-      format: string;
-      bitrate: string | null;
-    }>
-  > => {
-    return apiClient.get(`/projects/${projectId}/audio`);
+  getAudio: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<ProjectAudioDto>> => {
+    return endpoints.getProjectAudio(projectId, { signal });
   },
 
   // Export audio in various formats
   exportAudio: async (
     projectId: string,
-    exportFormat: "combined" | "audacity" | "voicelines",
-    options: {
-      project_name?: string;
-      add_fades?: boolean;
-      normalize?: boolean;
-    } = {}
-  ): Promise<
-    ApiResponse<{
-      format: string;
-      audio_url?: string;
-      download_url?: string;
-      filename?: string;
-      chunks_count?: number;
-      duration?: number;
-      message: string;
-    }>
-  > => {
-    const params = new URLSearchParams({
-      export_format: exportFormat,
-      ...(options.project_name && { project_name: options.project_name }),
-      ...(options.add_fades !== undefined && { add_fades: String(options.add_fades) }),
-      ...(options.normalize !== undefined && { normalize: String(options.normalize) }),
-    });
-
-    return apiClient.post(`/projects/${projectId}/audio/export?${params.toString()}`);
+    exportFormat: endpoints.ExportAudioParams["export_format"],
+    options: Omit<endpoints.ExportAudioParams, "export_format"> = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AudioExportDto>> => {
+    return endpoints.exportAudio(projectId, { export_format: exportFormat, ...options }, { signal });
   },
 
   // Download exported file
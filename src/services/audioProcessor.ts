@@ -3,7 +3,9 @@
  * Audio mixing, multi-speaker dialogue, intelligent text segmentation,
  * streaming TTS, RVC voice conversion, and advanced audio processing
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
 
 // =============================================================================
 // Audio Mixing (音频混合)
@@ -26,15 +28,17 @@ export interface AudioMixRequest {
   output_path?: string;
 }
 
-export interface AudioMixResponse {
-  output_path: string;
-  output_url: string;
-  duration: number;
-  background_music: boolean;
-  sound_effects_count: number;
-  ducking_enabled: boolean;
-  success: boolean;
-}
+export const audioMixResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  duration: z.number(),
+  background_music: z.boolean(),
+  sound_effects_count: z.number(),
+  ducking_enabled: z.boolean(),
+  success: z.boolean(),
+});
+
+export type AudioMixResponse = InferSchema<typeof audioMixResponseSchema>;
 
 // =============================================================================
 // Multi-Speaker Dialogue (多说话人对话)
@@ -66,14 +70,16 @@ export interface GenerateDialogueRequest {
   pause_same_speaker?: number;
 }
 
-export interface GenerateDialogueResponse {
-  output_path: string;
-  output_url: string;
-  duration: number;
-  segments_count: number;
-  speakers: string[];
-  success: boolean;
-}
+export const generateDialogueResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  duration: z.number(),
+  segments_count: z.number(),
+  speakers: z.array(z.string()),
+  success: z.boolean(),
+});
+
+export type GenerateDialogueResponse = InferSchema<typeof generateDialogueResponseSchema>;
 
 // =============================================================================
 // Intelligent Text Segmentation (智能文本断句)
@@ -87,21 +93,25 @@ export interface SegmentTextRequest {
   add_pause_markers?: boolean;
 }
 
-export interface TextSegment {
-  text: string;
-  speaker?: string;
-  type: "dialogue" | "narration";
-  position: number;
-  char_count: number;
-  text_with_pauses?: string;
-}
+export const textSegmentSchema = z.object({
+  text: z.string(),
+  speaker: z.string().nullish(),
+  type: z.enum(["dialogue", "narration"]),
+  position: z.number(),
+  char_count: z.number(),
+  text_with_pauses: z.string().nullish(),
+});
 
-export interface SegmentTextResponse {
-  segments: TextSegment[];
-  total_segments: number;
-  total_chars: number;
-  dialogue_detected: boolean;
-}
+export type TextSegment = InferSchema<typeof textSegmentSchema>;
+
+export const segmentTextResponseSchema = z.object({
+  segments: z.array(textSegmentSchema),
+  total_segments: z.number(),
+  total_chars: z.number(),
+  dialogue_detected: z.boolean(),
+});
+
+export type SegmentTextResponse = InferSchema<typeof segmentTextResponseSchema>;
 
 // =============================================================================
 // Streaming TTS (流式TTS)
@@ -128,15 +138,19 @@ export interface StreamingTTSChunk {
   };
 }
 
-export interface StreamingTTSResponse {
-  text: string;
-  speaker: string;
-  chunks: Array<{
-    index: number;
-    size: number;
-  }>;
-  total_chunks: number;
-}
+export const streamingTTSResponseSchema = z.object({
+  text: z.string(),
+  speaker: z.string(),
+  chunks: z.array(
+    z.object({
+      index: z.number(),
+      size: z.number(),
+    })
+  ),
+  total_chunks: z.number(),
+});
+
+export type StreamingTTSResponse = InferSchema<typeof streamingTTSResponseSchema>;
 
 // =============================================================================
 // RVC Voice Conversion (RVC语音转换)
@@ -151,28 +165,32 @@ export interface RVCConvertRequest {
   output_path?: string;
 }
 
-export interface RVCConvertResponse {
-  output_path: string;
-  output_url: string;
-  target_voice_model: string;
-  duration: number;
-  preserve_prosody: boolean;
-  preserve_timing: boolean;
-  pitch_shift: number;
-  conversion_method: string;
-  success: boolean;
-}
+export const rvcConvertResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  target_voice_model: z.string(),
+  duration: z.number(),
+  preserve_prosody: z.boolean(),
+  preserve_timing: z.boolean(),
+  pitch_shift: z.number(),
+  conversion_method: z.string(),
+  success: z.boolean(),
+});
+
+export type RVCConvertResponse = InferSchema<typeof rvcConvertResponseSchema>;
 
 // =============================================================================
 // Prosody Control (韵律控制)
 // =============================================================================
 
-export interface ProsodyTemplate {
-  id: string;
-  name: string;
-  description: string;
-  config: Record<string, any>;
-}
+export const prosodyTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  config: z.record(z.any()),
+});
+
+export type ProsodyTemplate = InferSchema<typeof prosodyTemplateSchema>;
 
 export interface ApplyProsodyRequest {
   audio_path: string;
@@ -180,14 +198,16 @@ export interface ApplyProsodyRequest {
   output_path?: string;
 }
 
-export interface ApplyProsodyResponse {
-  output_path: string;
-  output_url: string;
-  duration: number;
-  original_duration: number;
-  applied_modifications: string[];
-  success: boolean;
-}
+export const applyProsodyResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  duration: z.number(),
+  original_duration: z.number(),
+  applied_modifications: z.array(z.string()),
+  success: z.boolean(),
+});
+
+export type ApplyProsodyResponse = InferSchema<typeof applyProsodyResponseSchema>;
 
 // =============================================================================
 // Audio Analysis Tools (音频分析工具)
@@ -199,35 +219,39 @@ export interface AudioQualityCheckRequest {
   assessment_type?: "clone" | "tts" | "general";
 }
 
-export interface AudioQualityCheckResponse {
-  filename: string;
-  overall_score: number;
-  duration: number;
-  loudness: number;
-  dynamic_range: number;
-  noise_floor: number;
-  format_compatible: boolean;
-  has_clipping: boolean;
-  issues: string[];
-  recommendations: string[];
-}
+export const audioQualityCheckResponseSchema = z.object({
+  filename: z.string(),
+  overall_score: z.number(),
+  duration: z.number(),
+  loudness: z.number(),
+  dynamic_range: z.number(),
+  noise_floor: z.number(),
+  format_compatible: z.boolean(),
+  has_clipping: z.boolean(),
+  issues: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+export type AudioQualityCheckResponse = InferSchema<typeof audioQualityCheckResponseSchema>;
 
 export interface AudioQualityBatchRequest {
   files: File[];
   assessment_type?: "clone" | "tts" | "general";
 }
 
-export interface AudioQualityBatchResponse {
-  total_count: number;
-  pass_count: number;
-  fail_count: number;
-  overall: {
-    min_score: number;
-    max_score: number;
-    avg_score: number;
-  };
-  individual: AudioQualityCheckResponse[];
-}
+export const audioQualityBatchResponseSchema = z.object({
+  total_count: z.number(),
+  pass_count: z.number(),
+  fail_count: z.number(),
+  overall: z.object({
+    min_score: z.number(),
+    max_score: z.number(),
+    avg_score: z.number(),
+  }),
+  individual: z.array(audioQualityCheckResponseSchema),
+});
+
+export type AudioQualityBatchResponse = InferSchema<typeof audioQualityBatchResponseSchema>;
 
 // =============================================================================
 // API Client
@@ -235,56 +259,107 @@ export interface AudioQualityBatchResponse {
 
 export const audioProcessorApi = {
   // Audio Mixing
-  mixAudio: async (request: AudioMixRequest): Promise<ApiResponse<AudioMixResponse>> => {
-    return apiClient.post("/audio-processor/mix-audio", request);
+  mixAudio: async (request: AudioMixRequest, signal?: AbortSignal): Promise<ApiResponse<AudioMixResponse>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/mix-audio", request, { signal }),
+      audioMixResponseSchema,
+      "POST /audio-processor/mix-audio"
+    );
   },
 
   // Multi-Speaker Dialogue
-  generateDialogue: async (request: GenerateDialogueRequest): Promise<ApiResponse<GenerateDialogueResponse>> => {
-    return apiClient.post("/audio-processor/generate-dialogue", request);
+  generateDialogue: async (
+    request: GenerateDialogueRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<GenerateDialogueResponse>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/generate-dialogue", request, { signal }),
+      generateDialogueResponseSchema,
+      "POST /audio-processor/generate-dialogue"
+    );
   },
 
   // Text Segmentation
-  segmentText: async (request: SegmentTextRequest): Promise<ApiResponse<TextSegment[]>> => {
-    return apiClient.post("/audio-processor/segment-text", request);
+  segmentText: async (request: SegmentTextRequest, signal?: AbortSignal): Promise<ApiResponse<TextSegment[]>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/segment-text", request, { signal }),
+      z.array(textSegmentSchema),
+      "POST /audio-processor/segment-text"
+    );
   },
 
   // Streaming TTS
-  streamingTTS: async (request: StreamingTTSRequest): Promise<ApiResponse<StreamingTTSResponse>> => {
-    return apiClient.post("/audio-processor/streaming-tts", request);
+  streamingTTS: async (
+    request: StreamingTTSRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<StreamingTTSResponse>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/streaming-tts", request, { signal }),
+      streamingTTSResponseSchema,
+      "POST /audio-processor/streaming-tts"
+    );
   },
 
   // RVC Conversion
-  rvcConvert: async (request: RVCConvertRequest): Promise<ApiResponse<RVCConvertResponse>> => {
-    return apiClient.post("/audio-processor/rvc-convert", request);
+  rvcConvert: async (request: RVCConvertRequest, signal?: AbortSignal): Promise<ApiResponse<RVCConvertResponse>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/rvc-convert", request, { signal }),
+      rvcConvertResponseSchema,
+      "POST /audio-processor/rvc-convert"
+    );
   },
 
   // Prosody Control
-  applyProsody: async (request: ApplyProsodyRequest): Promise<ApiResponse<ApplyProsodyResponse>> => {
-    return apiClient.post("/audio-processor/apply-prosody", request);
+  applyProsody: async (
+    request: ApplyProsodyRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ApplyProsodyResponse>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/apply-prosody", request, { signal }),
+      applyProsodyResponseSchema,
+      "POST /audio-processor/apply-prosody"
+    );
   },
 
-  getProsodyTemplates: async (): Promise<ApiResponse<ProsodyTemplate[]>> => {
-    return apiClient.get("/audio-processor/prosody/templates");
+  getProsodyTemplates: async (signal?: AbortSignal): Promise<ApiResponse<ProsodyTemplate[]>> => {
+    return validateResponse(
+      apiClient.get("/audio-processor/prosody/templates", undefined, { signal }),
+      z.array(prosodyTemplateSchema),
+      "GET /audio-processor/prosody/templates"
+    );
   },
 
   // Audio Quality Check (these are in the audio-tools module, not audio-processor)
-  checkQuality: async (request: AudioQualityCheckRequest): Promise<ApiResponse<AudioQualityCheckResponse>> => {
+  checkQuality: async (
+    request: AudioQualityCheckRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AudioQualityCheckResponse>> => {
     if (request.file) {
       const formData = new FormData();
       formData.append("file", request.file);
       if (request.assessment_type) {
         formData.append("assessment_type", request.assessment_type);
       }
-      return apiClient.upload("/audio-quality/check", formData);
+      return validateResponse(
+        apiClient.upload("/audio-quality/check", formData, undefined, { signal }),
+        audioQualityCheckResponseSchema,
+        "POST /audio-quality/check"
+      );
     }
-    return apiClient.post("/audio-quality/check", {
-      audio_path: request.audio_path,
-      assessment_type: request.assessment_type,
-    });
+    return validateResponse(
+      apiClient.post("/audio-quality/check", {
+        audio_path: request.audio_path,
+        assessment_type: request.assessment_type,
+      }, { signal }),
+      audioQualityCheckResponseSchema,
+      "POST /audio-quality/check"
+    );
   },
 
-  checkQualityBatch: async (request: AudioQualityBatchRequest): Promise<ApiResponse<AudioQualityBatchResponse>> => {
+  checkQualityBatch: async (
+    request: AudioQualityBatchRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AudioQualityBatchResponse>> => {
     const formData = new FormData();
     request.files.forEach((file) => {
       formData.append("files", file);
@@ -292,14 +367,26 @@ export const audioProcessorApi = {
     if (request.assessment_type) {
       formData.append("assessment_type", request.assessment_type);
     }
-    return apiClient.upload("/audio-quality/check-batch", formData);
+    return validateResponse(
+      apiClient.upload("/audio-quality/check-batch", formData, undefined, { signal }),
+      audioQualityBatchResponseSchema,
+      "POST /audio-quality/check-batch"
+    );
   },
 
-  getAudioQualityGuidelines: async (): Promise<ApiResponse<Record<string, string>>> => {
-    return apiClient.get("/audio-quality/guidelines");
+  getAudioQualityGuidelines: async (signal?: AbortSignal): Promise<ApiResponse<Record<string, string>>> => {
+    return validateResponse(
+      apiClient.get("/audio-quality/guidelines", undefined, { signal }),
+      z.record(z.string()),
+      "GET /audio-quality/guidelines"
+    );
   },
 
-  getAudioQualityConsent: async (): Promise<ApiResponse<Record<string, any>>> => {
-    return apiClient.get("/audio-quality/consent");
+  getAudioQualityConsent: async (signal?: AbortSignal): Promise<ApiResponse<Record<string, any>>> => {
+    return validateResponse(
+      apiClient.get("/audio-quality/consent", undefined, { signal }),
+      z.record(z.any()),
+      "GET /audio-quality/consent"
+    );
   },
 };
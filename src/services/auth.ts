@@ -1,16 +1,21 @@
 /**
  * Authentication API service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { session } from "./session";
+import { type InferSchema, validateResponse } from "./validation";
 
-export interface User {
-  id: string;
-  email: string;
-  username: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  username: z.string(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type User = InferSchema<typeof userSchema>;
 
 export interface LoginRequest {
   email: string;
@@ -23,23 +28,46 @@ export interface RegisterRequest {
   password: string;
 }
 
-export interface AuthResponse {
-  access_token: string;
-  user: User;
-}
+export const authResponseSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().nullish(),
+  user: userSchema,
+});
+
+export type AuthResponse = InferSchema<typeof authResponseSchema>;
+
+export const tokenRefreshSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().nullish(),
+});
+
+export type TokenRefreshResponse = InferSchema<typeof tokenRefreshSchema>;
 
 class AuthService {
+  constructor() {
+    session.setRefreshHandler(async (refreshToken) => {
+      const response = await this.refreshToken(refreshToken);
+      if (!response.success || !response.data) {
+        throw Object.assign(new Error(response.error?.message || "Token refresh failed"), { status: 401 });
+      }
+      return {
+        accessToken: response.data.access_token,
+        refreshToken: response.data.refresh_token,
+      };
+    });
+  }
+
   /**
    * Login user
    */
-  async login(credentials: LoginRequest): Promise<ApiResponse<AuthResponse>> {
-    const response = await apiClient.post<AuthResponse>("/auth/login", credentials);
+  async login(credentials: LoginRequest, signal?: AbortSignal): Promise<ApiResponse<AuthResponse>> {
+    const response = await validateResponse(
+      apiClient.post("/auth/login", credentials, { signal }),
+      authResponseSchema,
+      "POST /auth/login"
+    );
     if (response.success && response.data?.access_token) {
-      apiClient.setToken(response.data.access_token);
-      // Store token in localStorage
-      localStorage.setItem("auth_token", response.data.access_token);
-      // Store user info
-      localStorage.setItem("auth_user", JSON.stringify(response.data.user));
+      this.startSession(response.data);
     }
     return response;
   }
@@ -47,32 +75,42 @@ class AuthService {
   /**
    * Register new user
    */
-  async register(userData: RegisterRequest): Promise<ApiResponse<AuthResponse>> {
-    const response = await apiClient.post<AuthResponse>("/auth/register", userData);
+  async register(userData: RegisterRequest, signal?: AbortSignal): Promise<ApiResponse<AuthResponse>> {
+    const response = await validateResponse(
+      apiClient.post("/auth/register", userData, { signal }),
+      authResponseSchema,
+      "POST /auth/register"
+    );
     if (response.success && response.data?.access_token) {
-      apiClient.setToken(response.data.access_token);
-      // Store token in localStorage
-      localStorage.setItem("auth_token", response.data.access_token);
-      // Store user info
-      localStorage.setItem("auth_user", JSON.stringify(response.data.user));
+      this.startSession(response.data);
     }
     return response;
   }
 
+  /**
+   * Exchange a refresh token for a new access token
+   */
+  async refreshToken(refreshToken: string, signal?: AbortSignal): Promise<ApiResponse<TokenRefreshResponse>> {
+    return validateResponse(
+      apiClient.post("/auth/refresh", { refresh_token: refreshToken }, { signal }),
+      tokenRefreshSchema,
+      "POST /auth/refresh"
+    );
+  }
+
   /**
    * Logout user
    */
   logout(): void {
     apiClient.clearToken();
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("auth_user");
+    session.clear();
   }
 
   /**
    * Get stored token
    */
   getToken(): string | null {
-    return localStorage.getItem("auth_token");
+    return session.getAccessToken();
   }
 
   /**
@@ -101,13 +139,19 @@ class AuthService {
    * Initialize auth from stored token
    */
   initAuth(): boolean {
-    const token = this.getToken();
-    if (token) {
-      apiClient.setToken(token);
+    if (session.resume()) {
+      apiClient.setToken(this.getToken());
       return true;
     }
     return false;
   }
+
+  private startSession(data: AuthResponse) {
+    apiClient.setToken(data.access_token);
+    session.start({ accessToken: data.access_token, refreshToken: data.refresh_token });
+    // Store user info
+    localStorage.setItem("auth_user", JSON.stringify(data.user));
+  }
 }
 
 export const authService = new AuthService();
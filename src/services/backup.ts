@@ -0,0 +1,274 @@
+/**
+ * Library Backup Service
+ * Gathers a backup archive from the backend and this browser's storage, and
+ * restores one into the current account
+ */
+import { authService } from "./auth";
+import { booksApi, type Book } from "./books";
+import { bookmarksApi } from "./bookmarks";
+import { highlightsApi } from "./highlights";
+import { thoughtsApi } from "./thoughts";
+import { readArrayBuffer } from "./uploads";
+import { toBookChapter, toBookPage } from "./generated/models";
+import {
+  BACKUP_SETTINGS,
+  packBackup,
+  planRestore,
+  unpackBackup,
+  type BackupBook,
+  type BackupSetting,
+  type LibraryBackup,
+  type LibraryContents,
+  type RestorePlan,
+  type StoredItem,
+} from "@/lib/backup";
+
+export { BackupError, type LibraryBackup, type RestorePlan } from "@/lib/backup";
+
+// Books listed per request while gathering the library
+const PAGE_SIZE = 100;
+
+export type BackupProgress = (done: number, total: number) => void;
+
+export interface RestoreResult {
+  books: number;
+  positions: number;
+  highlights: number;
+  thoughts: number;
+  bookmarks: number;
+  settings: number;
+  /** What couldn't be restored, one line each */
+  failures: string[];
+}
+
+const listAllBooks = async (signal?: AbortSignal) => {
+  const books: Book[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await booksApi.list({ page, page_size: PAGE_SIZE }, signal);
+    books.push(...data.items);
+    if (page >= data.total_pages) return books;
+  }
+};
+
+const readSetting = (key: BackupSetting): StoredItem[] => {
+  try {
+    const items = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(items) ? items.filter((item) => typeof item?.id === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Highlights, thoughts and bookmarks of the given books, and the stored settings
+ */
+const readLibrary = async (
+  books: Book[],
+  onBook?: () => void,
+  signal?: AbortSignal
+): Promise<LibraryContents> => {
+  const library: LibraryContents = {
+    userId: authService.getUser()?.id ?? books[0]?.user_id ?? null,
+    books,
+    highlights: [],
+    thoughts: [],
+    bookmarks: [],
+    settings: Object.fromEntries(BACKUP_SETTINGS.map((key) => [key, readSetting(key)])) as LibraryContents["settings"],
+  };
+  for (const book of books) {
+    const [highlights, thoughts, bookmarks] = await Promise.all([
+      highlightsApi.getBookHighlights(book.id, {}, signal),
+      thoughtsApi.getBookThoughts(book.id, signal),
+      bookmarksApi.getBookBookmarks(book.id, signal),
+    ]);
+    library.highlights.push(...highlights.data);
+    library.thoughts.push(...thoughts.data);
+    library.bookmarks.push(...bookmarks.data);
+    onBook?.();
+  }
+  return library;
+};
+
+const FILE_EXTENSIONS: Record<Book["file_type"], string> = { txt: "txt", pdf: "pdf", epub: "epub" };
+
+const readBook = async (book: Book, signal?: AbortSignal): Promise<BackupBook> => {
+  const [content, file] = await Promise.all([
+    booksApi.getContent(book.id, "plain", undefined, signal),
+    booksApi.getFile(book.id, signal),
+  ]);
+  return {
+    book,
+    content: content.data.content,
+    chapters: content.data.chapters,
+    pages: content.data.pages ?? null,
+    fileName: `original.${FILE_EXTENSIONS[book.file_type]}`,
+    file: new Uint8Array(await readArrayBuffer(file)),
+  };
+};
+
+/**
+ * Upload a book from the backup, with its corrected chapters. The backend
+ * doesn't read PDFs itself, so a PDF's text layer goes along as well.
+ */
+const uploadBook = async ({ book, content, chapters, pages, fileName, file }: BackupBook, signal?: AbortSignal) => {
+  const name = `${book.title}.${fileName.split(".").pop()}`;
+  const pdf = book.file_type === "pdf";
+  const uploaded = await booksApi.upload(
+    new File([file], name),
+    {
+      title: book.title,
+      author: book.author ?? undefined,
+      text: pdf ? content : undefined,
+      pages: pdf ? pages?.map(toBookPage) : undefined,
+      chapters: chapters.map(toBookChapter),
+    },
+    undefined,
+    signal
+  );
+  return uploaded.data;
+};
+
+export const backupService = {
+  /**
+   * Archive the whole library as a ZIP file
+   */
+  create: async (onProgress?: BackupProgress, signal?: AbortSignal): Promise<Blob> => {
+    const books = await listAllBooks(signal);
+    const total = books.length * 2;
+    let done = 0;
+    const step = () => onProgress?.(++done, total);
+
+    const library = await readLibrary(books, step, signal);
+    const backup: LibraryBackup = { ...library, createdAt: new Date().toISOString(), books: [] };
+    for (const book of books) {
+      backup.books.push(await readBook(book, signal));
+      step();
+    }
+    return new Blob([packBackup(backup)], { type: "application/zip" });
+  },
+
+  /**
+   * Read a backup file and plan restoring it into the library. Nothing is
+   * changed until the plan is passed to `restore`.
+   */
+  plan: async (file: Blob, signal?: AbortSignal): Promise<RestorePlan> => {
+    const backup = await unpackBackup(new Uint8Array(await readArrayBuffer(file)));
+    const books = await listAllBooks(signal);
+    return planRestore(backup, await readLibrary(books, undefined, signal));
+  },
+
+  /**
+   * Carry out a restore plan. Everything is created afresh, so books get new
+   * IDs in this account and their notes are attached to those. A book that
+   * fails to upload is reported and its notes left out; the rest carries on.
+   */
+  restore: async (plan: RestorePlan, onProgress?: BackupProgress, signal?: AbortSignal): Promise<RestoreResult> => {
+    const result: RestoreResult = {
+      books: 0,
+      positions: 0,
+      highlights: 0,
+      thoughts: 0,
+      bookmarks: 0,
+      settings: 0,
+      failures: [],
+    };
+    const bookIds = new Map(plan.existing);
+    const titles = new Map(plan.backup.books.map(({ book }) => [book.id, book.title]));
+    const total =
+      plan.books.length + plan.positions.length + plan.highlights.length + plan.thoughts.length + plan.bookmarks.length;
+    let done = 0;
+
+    // Run one step of the restore, noting a failure instead of stopping
+    const attempt = async (describe: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+        return true;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        result.failures.push(`${describe}：${(error as Error)?.message || "未知错误"}`);
+        return false;
+      } finally {
+        onProgress?.(++done, total);
+      }
+    };
+
+    for (const entry of plan.books) {
+      const { book } = entry;
+      const restored = await attempt(`《${book.title}》`, async () => {
+        const uploaded = await uploadBook(entry, signal);
+        bookIds.set(book.id, uploaded.id);
+        await booksApi.update(
+          uploaded.id,
+          { progress: book.progress, position: book.position, tags: book.tags?.length ? book.tags : undefined },
+          signal
+        );
+      });
+      if (restored) result.books++;
+    }
+    for (const { book } of plan.positions) {
+      const restored = await attempt(`《${book.title}》的阅读进度`, () =>
+        booksApi.update(bookIds.get(book.id), { progress: book.progress, position: book.position }, signal)
+      );
+      if (restored) result.positions++;
+    }
+
+    // Notes on a book that couldn't be restored have nowhere to go
+    const restoreAll = async <T extends { book_id: string }>(
+      items: T[],
+      label: string,
+      create: (bookId: string, item: T) => Promise<unknown>
+    ) => {
+      let count = 0;
+      for (const item of items) {
+        const bookId = bookIds.get(item.book_id);
+        if (!bookId) {
+          onProgress?.(++done, total);
+          continue;
+        }
+        if (await attempt(`《${titles.get(item.book_id)}》的${label}`, () => create(bookId, item))) count++;
+      }
+      return count;
+    };
+
+    result.highlights = await restoreAll(plan.highlights, "划线", (bookId, highlight) =>
+      highlightsApi.create(
+        bookId,
+        {
+          text: highlight.text,
+          color: highlight.color,
+          start_offset: highlight.start_offset,
+          end_offset: highlight.end_offset,
+          chapter: highlight.chapter,
+          selector: highlight.selector ?? undefined,
+          note: highlight.note?.content,
+        },
+        signal
+      )
+    );
+    result.thoughts = await restoreAll(plan.thoughts, "想法", (bookId, thought) =>
+      thoughtsApi.create({ book_id: bookId, content: thought.content }, signal)
+    );
+    result.bookmarks = await restoreAll(plan.bookmarks, "书签", (bookId, bookmark) =>
+      bookmarksApi.create(
+        bookId,
+        {
+          chapter: bookmark.chapter,
+          block: bookmark.block,
+          offset: bookmark.offset,
+          label: bookmark.label,
+          excerpt: bookmark.excerpt,
+          audio_time: bookmark.audio_time,
+        },
+        signal
+      )
+    );
+
+    BACKUP_SETTINGS.forEach((key) => {
+      const added = plan.settings[key];
+      if (!added.length) return;
+      localStorage.setItem(key, JSON.stringify([...readSetting(key), ...added]));
+      result.settings += added.length;
+    });
+    return result;
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Bookmarks API Service
+ */
+import { ApiResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type { BookmarkCreateDto, BookmarkDto, BookmarkUpdateDto } from "./generated/schemas";
+
+export { bookmarkSchema } from "./generated/schemas";
+
+export type Bookmark = BookmarkDto;
+export type BookmarkCreate = BookmarkCreateDto;
+export type BookmarkUpdate = BookmarkUpdateDto;
+
+export const bookmarksApi = {
+  // Get bookmarks for a book
+  getBookBookmarks: async (bookId: string, signal?: AbortSignal): Promise<ApiResponse<Bookmark[]>> => {
+    return endpoints.listBookBookmarks(bookId, { signal });
+  },
+
+  // Create bookmark
+  create: async (bookId: string, data: BookmarkCreate, signal?: AbortSignal): Promise<ApiResponse<Bookmark>> => {
+    return endpoints.createBookmark(bookId, data, { signal });
+  },
+
+  // Update bookmark
+  update: async (bookmarkId: string, data: BookmarkUpdate, signal?: AbortSignal): Promise<ApiResponse<Bookmark>> => {
+    return endpoints.updateBookmark(bookmarkId, data, { signal });
+  },
+
+  // Delete bookmark
+  delete: async (bookmarkId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteBookmark(bookmarkId, { signal });
+  },
+};
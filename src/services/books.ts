@@ -2,105 +2,120 @@
  * Books API Service
  */
 import { apiClient, ApiResponse, PaginatedResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import { fromBookChapter, fromBookPage, type BookChapter, type BookPage } from "./generated/models";
+import {
+  bookSchema,
+  type BookChapterDto,
+  type BookDuplicateDto,
+  type BookDuplicateQueryDto,
+  type BookContentDto,
+  type BookDto,
+  type BookUpdateDto,
+} from "./generated/schemas";
+import { uploadResumable, type UploadController, type UploadProgress } from "./uploads";
 
-export interface Book {
-  id: string;
-  user_id: string;
-  title: string;
-  author?: string;
-  cover_url?: string;
-  file_type: "txt" | "pdf" | "epub";
-  total_pages?: number;
-  total_chars?: number;
-  progress: number;
-  created_at: string;
-  updated_at: string;
-}
+export { bookSchema, bookContentSchema } from "./generated/schemas";
+
+export type Book = BookDto;
+export type BookUpdate = BookUpdateDto;
+export type BookListParams = endpoints.ListBooksParams;
+export type BookContentResponse = BookContentDto;
+export type BookDuplicate = BookDuplicateDto;
+export type BookDuplicateQuery = BookDuplicateQueryDto;
 
 export interface BookCreate {
   title?: string;
   author?: string;
   cover?: File;
-}
-
-export interface BookUpdate {
-  title?: string;
-  author?: string;
-  cover_url?: string;
-  progress?: number;
-}
-
-export interface BookListParams {
-  page?: number;
-  page_size?: number;
-  search?: string;
-  sort?: string;
-  order?: "asc" | "desc";
-}
-
-export interface BookContentResponse {
-  content: string;
-  chapters: Array<{
-    index: number;
-    title: string;
-    offset: number;
-  }>;
-  metadata: {
-    title: string;
-    author: string;
-    total_chars: number;
-  };
+  /** Cleaned text layer of a PDF, stored as the book's content */
+  text?: string;
+  /** Where each PDF page starts in `text` */
+  pages?: BookPage[];
+  /** Chapters found while ingesting, used instead of the backend's own detection */
+  chapters?: BookChapter[];
+  /** SHA-256 of the file and MinHash of its text, for spotting it again later */
+  fileHash?: string;
+  textSignature?: number[];
 }
 
 export const booksApi = {
   // Get books list
-  list: async (params: BookListParams = {}): Promise<ApiResponse<PaginatedResponse<Book>>> => {
-    return apiClient.get("/books", params);
+  list: async (params: BookListParams = {}, signal?: AbortSignal): Promise<ApiResponse<PaginatedResponse<Book>>> => {
+    return endpoints.listBooks(params, { signal });
+  },
+
+  // Books already in the library that look like one about to be uploaded
+  findDuplicates: async (
+    query: BookDuplicateQuery,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<BookDuplicate[]>> => {
+    return endpoints.findBookDuplicates(query, { signal });
   },
 
   // Get book details
-  get: async (bookId: string): Promise<ApiResponse<Book>> => {
-    return apiClient.get(`/books/${bookId}`);
+  get: async (bookId: string, signal?: AbortSignal): Promise<ApiResponse<Book>> => {
+    return endpoints.getBook(bookId, { signal });
   },
 
-  // Upload book
+  // Upload book in resumable chunks
   upload: async (
     file: File,
     metadata?: Partial<BookCreate>,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number, details?: UploadProgress) => void,
+    signal?: AbortSignal,
+    controller?: UploadController
   ): Promise<ApiResponse<Book>> => {
-    const formData = new FormData();
-    formData.append("file", file);
-
-    if (metadata?.title) {
-      formData.append("title", metadata.title);
-    }
-    if (metadata?.author) {
-      formData.append("author", metadata.author);
-    }
-    if (metadata?.cover) {
-      formData.append("cover", metadata.cover);
-    }
-
-    return apiClient.upload("/books/upload", formData, onProgress);
+    return uploadResumable(file, {
+      purpose: "book",
+      fields: {
+        title: metadata?.title,
+        author: metadata?.author,
+        cover: metadata?.cover,
+        text: metadata?.text,
+        pages: metadata?.pages && JSON.stringify(metadata.pages.map(fromBookPage)),
+        chapters: metadata?.chapters && JSON.stringify(metadata.chapters.map(fromBookChapter)),
+        file_hash: metadata?.fileHash,
+        text_signature: metadata?.textSignature?.length ? JSON.stringify(metadata.textSignature) : undefined,
+      },
+      schema: bookSchema,
+      onProgress: onProgress && ((progress) => onProgress(progress.percent, progress)),
+      signal,
+      controller,
+    });
   },
 
   // Get book content
   getContent: async (
     bookId: string,
     format: "plain" | "markdown" | "html" = "plain",
-    chapter?: number
+    chapter?: number,
+    signal?: AbortSignal
   ): Promise<ApiResponse<BookContentResponse>> => {
-    return apiClient.get(`/books/${bookId}/content`, { format, chapter });
+    return endpoints.getBookContent(bookId, { format, chapter }, { signal });
+  },
+
+  // Get the originally uploaded file, for formats read in the browser
+  getFile: async (bookId: string, signal?: AbortSignal): Promise<Blob> => {
+    return apiClient.getBlob(`/books/${bookId}/file`, undefined, { signal });
+  },
+
+  // Replace the book's chapters with a corrected list
+  updateChapters: async (
+    bookId: string,
+    chapters: BookChapter[],
+    signal?: AbortSignal
+  ): Promise<ApiResponse<BookChapterDto[]>> => {
+    return endpoints.updateBookChapters(bookId, { chapters: chapters.map(fromBookChapter) }, { signal });
   },
 
   // Update book
-  update: async (bookId: string, data: BookUpdate): Promise<ApiResponse<Book>> => {
-    return apiClient.patch(`/books/${bookId}`, data);
+  update: async (bookId: string, data: BookUpdate, signal?: AbortSignal): Promise<ApiResponse<Book>> => {
+    return endpoints.updateBook(bookId, data, { signal });
   },
 
   // Delete book
-  delete: async (bookId: string): Promise<ApiResponse<{ deleted: boolean }>> => {
-    return apiClient.delete(`/books/${bookId}`);
+  delete: async (bookId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteBook(bookId, { signal });
   },
 };
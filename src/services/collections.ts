@@ -0,0 +1,39 @@
+/**
+ * Collections API Service
+ */
+import { ApiResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type { BookDto, CollectionCreateDto, CollectionDto, CollectionUpdateDto } from "./generated/schemas";
+
+export { collectionSchema } from "./generated/schemas";
+
+export type Collection = CollectionDto;
+export type CollectionCreate = CollectionCreateDto;
+export type CollectionUpdate = CollectionUpdateDto;
+
+export const collectionsApi = {
+  // List collections
+  list: async (signal?: AbortSignal): Promise<ApiResponse<Collection[]>> => {
+    return endpoints.listCollections({ signal });
+  },
+
+  // Create collection
+  create: async (data: CollectionCreate, signal?: AbortSignal): Promise<ApiResponse<Collection>> => {
+    return endpoints.createCollection(data, { signal });
+  },
+
+  // Rename collection
+  update: async (collectionId: string, data: CollectionUpdate, signal?: AbortSignal): Promise<ApiResponse<Collection>> => {
+    return endpoints.updateCollection(collectionId, data, { signal });
+  },
+
+  // Delete collection; its books stay in the library
+  delete: async (collectionId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteCollection(collectionId, { signal });
+  },
+
+  // Add books to a collection, returning the updated books
+  addBooks: async (collectionId: string, bookIds: string[], signal?: AbortSignal): Promise<ApiResponse<BookDto[]>> => {
+    return endpoints.addCollectionBooks(collectionId, { book_ids: bookIds }, { signal });
+  },
+};
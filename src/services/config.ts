@@ -0,0 +1,63 @@
+/**
+ * System Configuration API Service
+ */
+import { z } from "zod";
+import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
+
+export const systemConfigSchema = z.object({
+  tts: z.object({
+    mode: z.string(),
+    url: z.string(),
+    timeout: z.number(),
+    parallel_workers: z.number(),
+    language: z.string(),
+  }),
+  llm: z.object({
+    base_url: z.string(),
+    api_key: z.string(),
+    model_name: z.string(),
+  }),
+  prompts: z.object({
+    script_generation: z.string(),
+    script_review: z.string(),
+  }),
+});
+
+export type SystemConfig = InferSchema<typeof systemConfigSchema>;
+
+export type SystemConfigUpdate = {
+  [K in keyof SystemConfig]?: Partial<SystemConfig[K]>;
+};
+
+export const defaultPromptsSchema = z.object({
+  script_generation: z.string().nullish(),
+  script_review: z.string().nullish(),
+});
+
+export type DefaultPrompts = InferSchema<typeof defaultPromptsSchema>;
+
+export const configApi = {
+  // Get current system configuration
+  get: async (signal?: AbortSignal): Promise<ApiResponse<SystemConfig>> => {
+    return validateResponse(apiClient.get("/config", undefined, { signal }), systemConfigSchema, "GET /config");
+  },
+
+  // Update system configuration
+  update: async (data: SystemConfigUpdate, signal?: AbortSignal): Promise<ApiResponse<Partial<SystemConfig>>> => {
+    return validateResponse(
+      apiClient.patch("/config", data, { signal }),
+      systemConfigSchema.partial(),
+      "PATCH /config"
+    );
+  },
+
+  // Get the built-in prompt templates
+  getDefaultPrompts: async (signal?: AbortSignal): Promise<ApiResponse<DefaultPrompts>> => {
+    return validateResponse(
+      apiClient.get("/config/prompts/default", undefined, { signal }),
+      defaultPromptsSchema,
+      "GET /config/prompts/default"
+    );
+  },
+};
@@ -2,52 +2,64 @@
  * CosyVoice API Service
  * CosyVoice 0.5B TTS and voice cloning service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface CosyVoiceModel {
-  id: string;
-  model_id: string;
-  features: string[];
-  languages: string[];
-  latency_ms?: number;
-}
+export const cosyVoiceModelSchema = z.object({
+  id: z.string(),
+  model_id: z.string(),
+  features: z.array(z.string()),
+  languages: z.array(z.string()),
+  latency_ms: z.number().nullish(),
+});
 
-export interface CosyVoiceSpeaker {
-  id: string;
-  name: string;
-  gender: "male" | "female";
-  language: string;
-  description: string;
-}
+export type CosyVoiceModel = InferSchema<typeof cosyVoiceModelSchema>;
 
-export interface CosyVoiceLanguage {
-  code: string;
-  name: string;
-  native: string;
-}
+export const cosyVoiceSpeakerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  gender: z.enum(["male", "female"]),
+  language: z.string(),
+  description: z.string(),
+});
 
-export interface CosyVoiceInfo {
-  service: string;
-  version: string;
-  supported_models: string[];
-  default_model: string;
-  features: string[];
-  supported_languages: Array<{ code: string; name: string }>;
-  download_links: {
-    huggingface: string;
-    modelscope: string;
-  };
-}
+export type CosyVoiceSpeaker = InferSchema<typeof cosyVoiceSpeakerSchema>;
 
-export interface CosyVoiceStyleInstructions {
-  emotion: string[];
-  speaking_style: string[];
-  tone: string[];
-}
+export const cosyVoiceLanguageSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  native: z.string(),
+});
+
+export type CosyVoiceLanguage = InferSchema<typeof cosyVoiceLanguageSchema>;
+
+export const cosyVoiceInfoSchema = z.object({
+  service: z.string(),
+  version: z.string(),
+  supported_models: z.array(z.string()),
+  default_model: z.string(),
+  features: z.array(z.string()),
+  supported_languages: z.array(z.object({ code: z.string(), name: z.string() })),
+  download_links: z.object({
+    huggingface: z.string(),
+    modelscope: z.string(),
+  }),
+});
+
+export type CosyVoiceInfo = InferSchema<typeof cosyVoiceInfoSchema>;
+
+export const cosyVoiceStyleInstructionsSchema = z.object({
+  emotion: z.array(z.string()),
+  speaking_style: z.array(z.string()),
+  tone: z.array(z.string()),
+});
+
+export type CosyVoiceStyleInstructions = InferSchema<typeof cosyVoiceStyleInstructionsSchema>;
 
 export interface GenerateSpeechRequest {
   text: string;
@@ -60,18 +72,20 @@ export interface GenerateSpeechRequest {
   reference_audio?: File;
 }
 
-export interface GenerateSpeechResponse {
-  audio_path: string;
-  audio_url: string;
-  duration: number;
-  text: string;
-  speaker: string;
-  model: string;
-  language: string;
-  speed: number;
-  instruction?: string;
-  voice_cloned: boolean;
-}
+export const generateSpeechResponseSchema = z.object({
+  audio_path: z.string(),
+  audio_url: z.string(),
+  duration: z.number(),
+  text: z.string(),
+  speaker: z.string(),
+  model: z.string(),
+  language: z.string(),
+  speed: z.number(),
+  instruction: z.string().nullish(),
+  voice_cloned: z.boolean(),
+});
+
+export type GenerateSpeechResponse = InferSchema<typeof generateSpeechResponseSchema>;
 
 export interface CloneVoiceRequest {
   text: string;
@@ -82,16 +96,18 @@ export interface CloneVoiceRequest {
   speed?: number;
 }
 
-export interface CloneVoiceResponse {
-  audio_path: string;
-  audio_url: string;
-  duration: number;
-  text: string;
-  reference_audio: string;
-  model: string;
-  language: string;
-  instruction?: string;
-}
+export const cloneVoiceResponseSchema = z.object({
+  audio_path: z.string(),
+  audio_url: z.string(),
+  duration: z.number(),
+  text: z.string(),
+  reference_audio: z.string(),
+  model: z.string(),
+  language: z.string(),
+  instruction: z.string().nullish(),
+});
+
+export type CloneVoiceResponse = InferSchema<typeof cloneVoiceResponseSchema>;
 
 export interface BatchGenerateRequest {
   texts: string[];
@@ -100,21 +116,25 @@ export interface BatchGenerateRequest {
   speed?: number;
 }
 
-export interface BatchGenerateResponse {
-  batch_id: string;
-  total_items: number;
-  succeeded: number;
-  failed: number;
-  total_duration: number;
-  results: Array<{
-    index: number;
-    text: string;
-    audio_path?: string;
-    audio_url?: string;
-    duration?: number;
-    error?: string;
-  }>;
-}
+export const batchGenerateResponseSchema = z.object({
+  batch_id: z.string(),
+  total_items: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  total_duration: z.number(),
+  results: z.array(
+    z.object({
+      index: z.number(),
+      text: z.string(),
+      audio_path: z.string().nullish(),
+      audio_url: z.string().nullish(),
+      duration: z.number().nullish(),
+      error: z.string().nullish(),
+    })
+  ),
+});
+
+export type BatchGenerateResponse = InferSchema<typeof batchGenerateResponseSchema>;
 
 // =============================================================================
 // API Client
@@ -122,29 +142,55 @@ export interface BatchGenerateResponse {
 
 export const cosyVoiceApi = {
   // Model Information
-  getModels: async (): Promise<ApiResponse<CosyVoiceModel[]>> => {
-    return apiClient.get("/cosy-voice/models");
+  getModels: async (signal?: AbortSignal): Promise<ApiResponse<CosyVoiceModel[]>> => {
+    return validateResponse(
+      apiClient.get("/cosy-voice/models", undefined, { signal }),
+      z.array(cosyVoiceModelSchema),
+      "GET /cosy-voice/models"
+    );
   },
 
-  getInfo: async (): Promise<ApiResponse<CosyVoiceInfo>> => {
-    return apiClient.get("/cosy-voice/info");
+  getInfo: async (signal?: AbortSignal): Promise<ApiResponse<CosyVoiceInfo>> => {
+    return validateResponse(
+      apiClient.get("/cosy-voice/info", undefined, { signal }),
+      cosyVoiceInfoSchema,
+      "GET /cosy-voice/info"
+    );
   },
 
   // Speakers and Languages
-  getSpeakers: async (model?: string): Promise<ApiResponse<CosyVoiceSpeaker[]>> => {
-    return apiClient.get(`/cosy-voice/speakers?model=${model || "CosyVoice3-0.5B-2512"}`);
+  getSpeakers: async (model?: string, signal?: AbortSignal): Promise<ApiResponse<CosyVoiceSpeaker[]>> => {
+    return validateResponse(
+      apiClient.get(`/cosy-voice/speakers?model=${model || "CosyVoice3-0.5B-2512"}`, undefined, { signal }),
+      z.array(cosyVoiceSpeakerSchema),
+      "GET /cosy-voice/speakers"
+    );
   },
 
-  getLanguages: async (model?: string): Promise<ApiResponse<CosyVoiceLanguage[]>> => {
-    return apiClient.get(`/cosy-voice/languages?model=${model || "CosyVoice3-0.5B-2512"}`);
+  getLanguages: async (model?: string, signal?: AbortSignal): Promise<ApiResponse<CosyVoiceLanguage[]>> => {
+    return validateResponse(
+      apiClient.get(`/cosy-voice/languages?model=${model || "CosyVoice3-0.5B-2512"}`, undefined, { signal }),
+      z.array(cosyVoiceLanguageSchema),
+      "GET /cosy-voice/languages"
+    );
   },
 
-  getStyleInstructions: async (model?: string): Promise<ApiResponse<CosyVoiceStyleInstructions>> => {
-    return apiClient.get(`/cosy-voice/instructions?model=${model || "CosyVoice3-0.5B-2512"}`);
+  getStyleInstructions: async (
+    model?: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CosyVoiceStyleInstructions>> => {
+    return validateResponse(
+      apiClient.get(`/cosy-voice/instructions?model=${model || "CosyVoice3-0.5B-2512"}`, undefined, { signal }),
+      cosyVoiceStyleInstructionsSchema,
+      "GET /cosy-voice/instructions"
+    );
   },
 
   // Text-to-Speech
-  generateSpeech: async (request: GenerateSpeechRequest): Promise<ApiResponse<GenerateSpeechResponse>> => {
+  generateSpeech: async (
+    request: GenerateSpeechRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<GenerateSpeechResponse>> => {
     const formData = new FormData();
     formData.append("text", request.text);
     formData.append("speaker", request.speaker || "zh-cn-female-1");
@@ -161,11 +207,15 @@ export const cosyVoiceApi = {
       formData.append("reference_audio", request.reference_audio);
     }
 
-    return apiClient.upload("/cosy-voice/generate", formData);
+    return validateResponse(
+      apiClient.upload("/cosy-voice/generate", formData, undefined, { signal }),
+      generateSpeechResponseSchema,
+      "POST /cosy-voice/generate"
+    );
   },
 
   // Voice Cloning
-  cloneVoice: async (request: CloneVoiceRequest): Promise<ApiResponse<CloneVoiceResponse>> => {
+  cloneVoice: async (request: CloneVoiceRequest, signal?: AbortSignal): Promise<ApiResponse<CloneVoiceResponse>> => {
     const formData = new FormData();
     formData.append("text", request.text);
     formData.append("reference_audio", request.reference_audio);
@@ -177,11 +227,18 @@ export const cosyVoiceApi = {
       formData.append("instruction", request.instruction);
     }
 
-    return apiClient.upload("/cosy-voice/clone", formData);
+    return validateResponse(
+      apiClient.upload("/cosy-voice/clone", formData, undefined, { signal }),
+      cloneVoiceResponseSchema,
+      "POST /cosy-voice/clone"
+    );
   },
 
   // Batch Processing
-  generateBatch: async (request: BatchGenerateRequest): Promise<ApiResponse<BatchGenerateResponse>> => {
+  generateBatch: async (
+    request: BatchGenerateRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<BatchGenerateResponse>> => {
     const formData = new FormData();
     request.texts.forEach((text, index) => {
       formData.append(`texts`, text);
@@ -190,7 +247,11 @@ export const cosyVoiceApi = {
     formData.append("model", request.model || "CosyVoice3-0.5B-2512");
     formData.append("speed", String(request.speed ?? 1.0));
 
-    return apiClient.upload("/cosy-voice/batch", formData);
+    return validateResponse(
+      apiClient.upload("/cosy-voice/batch", formData, undefined, { signal }),
+      batchGenerateResponseSchema,
+      "POST /cosy-voice/batch"
+    );
   },
 
   // Get audio URL (helper)
@@ -0,0 +1,188 @@
+/**
+ * Book Editions Service
+ * Replaces a book with a new upload of it: highlights, notes, bookmarks,
+ * thoughts, reading progress, tags and collections move to the new text, and
+ * the old copy is deleted
+ */
+import { EpubDocument, blockOffsets } from "@/lib/epub";
+import { paragraphIndexAt, paragraphOffsets } from "@/lib/chapters";
+import {
+  anchorQuote,
+  describeRange,
+  quoteAt,
+  relocate,
+  relocatePoint,
+  type AnchorSection,
+  type TextPlace,
+  type TextPoint,
+} from "@/lib/anchoring";
+import { booksApi, type Book } from "./books";
+import { bookmarksApi } from "./bookmarks";
+import { highlightsApi, type Highlight } from "./highlights";
+import { thoughtsApi } from "./thoughts";
+import { readArrayBuffer } from "./uploads";
+import type { ReadingPositionDto } from "./generated/schemas";
+
+export interface EditionReport {
+  highlights: number;
+  /** Highlights whose text isn't in the new edition; kept where they were */
+  unplaced: number;
+  bookmarks: number;
+  thoughts: number;
+}
+
+/**
+ * A book's text as highlights count it: plain text whole, EPUBs by chapter,
+ * with where each paragraph or block starts
+ */
+interface EditionText {
+  sections: AnchorSection[];
+  /** Where the blocks start in each section; plain text's one section is keyed "" */
+  blockStarts: Map<string, number[]>;
+}
+
+const readText = async (book: Book, signal?: AbortSignal): Promise<EditionText> => {
+  if (book.file_type !== "epub") {
+    const { data } = await booksApi.getContent(book.id, "plain", undefined, signal);
+    return {
+      sections: [{ key: "", text: data.content }],
+      blockStarts: new Map([["", paragraphOffsets(data.content)]]),
+    };
+  }
+  const file = await booksApi.getFile(book.id, signal);
+  const epub = await EpubDocument.open(new Uint8Array(await readArrayBuffer(file)));
+  try {
+    const chapters = await Promise.all(epub.spine.map((_, index) => epub.loadChapter(index)));
+    return {
+      sections: chapters.map((chapter) => ({
+        key: chapter.href,
+        text: chapter.blocks.map((block) => block.text).join("\n\n"),
+      })),
+      blockStarts: new Map(chapters.map((chapter) => [chapter.href, blockOffsets(chapter.blocks)])),
+    };
+  } finally {
+    epub.dispose();
+  }
+};
+
+// A reading position or bookmark as a point in a section, and back
+const toPoint = (
+  text: EditionText,
+  { chapter, block, offset }: { chapter?: string; block: number; offset: number }
+): TextPoint => ({ section: chapter ?? "", offset: (text.blockStarts.get(chapter ?? "")?.[block] ?? 0) + offset });
+
+const fromPoint = (text: EditionText, { section, offset }: TextPoint) => {
+  const starts = text.blockStarts.get(section) ?? [0];
+  const block = paragraphIndexAt(starts, offset);
+  return { chapter: section || null, block, offset: offset - starts[block] };
+};
+
+// Where a highlight is in a book's text: found by its selector, or for
+// highlights saved before selectors, its text near its offsets
+const placeOf = (text: EditionText, highlight: Highlight): TextPlace | null => {
+  const epub = !text.blockStarts.has("");
+  const section = epub ? highlight.chapter ?? "" : "";
+  const source = text.sections.find((candidate) => candidate.key === section);
+  if (!source) return null;
+  const base = epub ? 0 : text.blockStarts.get("")[Number(highlight.chapter)] ?? 0;
+  const found = anchorQuote(
+    source.text,
+    highlight.selector ?? quoteAt(highlight.text, base + highlight.start_offset, base + highlight.end_offset)
+  );
+  return found && { section, ...found };
+};
+
+// What a highlight at `place` is saved with; plain-text highlights are kept by
+// the paragraph they start in, with paragraph-relative offsets
+const anchorFields = (text: EditionText, { section, start, end }: TextPlace) => {
+  const sectionText = text.sections.find((candidate) => candidate.key === section).text;
+  const quoted = { text: sectionText.slice(start, end), selector: describeRange(sectionText, start, end) };
+  if (section) return { ...quoted, chapter: section, start_offset: start, end_offset: end };
+  const starts = text.blockStarts.get("");
+  const paragraph = paragraphIndexAt(starts, start);
+  return {
+    ...quoted,
+    chapter: String(paragraph),
+    start_offset: start - starts[paragraph],
+    end_offset: end - starts[paragraph],
+  };
+};
+
+export const editionsService = {
+  /**
+   * Move everything attached to `previous` over to `edition`, then delete
+   * `previous`. Places are found again by their text (see lib/anchoring).
+   */
+  replace: async (previous: Book, edition: Book, signal?: AbortSignal): Promise<EditionReport> => {
+    const [from, to] = await Promise.all([readText(previous, signal), readText(edition, signal)]);
+    const [highlights, bookmarks, thoughts] = await Promise.all([
+      highlightsApi.getBookHighlights(previous.id, {}, signal),
+      bookmarksApi.getBookBookmarks(previous.id, signal),
+      thoughtsApi.getBookThoughts(previous.id, signal),
+    ]);
+    const report: EditionReport = { highlights: 0, unplaced: 0, bookmarks: 0, thoughts: 0 };
+
+    for (const highlight of highlights.data) {
+      // Highlights that can't be found in the old text either are looked for by their text alone
+      const old = placeOf(from, highlight);
+      const place = old
+        ? relocate(from.sections, to.sections, old)
+        : relocate([{ key: "?", text: highlight.text }], to.sections, {
+            section: "?",
+            start: 0,
+            end: highlight.text.length,
+          });
+      const anchor = place
+        ? anchorFields(to, place)
+        : {
+            text: highlight.text,
+            chapter: highlight.chapter,
+            start_offset: highlight.start_offset,
+            end_offset: highlight.end_offset,
+            selector: highlight.selector ?? undefined,
+          };
+      await highlightsApi.create(
+        edition.id,
+        { ...anchor, color: highlight.color, note: highlight.note?.content },
+        signal
+      );
+      if (place) report.highlights++;
+      else report.unplaced++;
+    }
+
+    // Bookmarks whose text is gone stay at their old place, which is roughly right
+    for (const bookmark of bookmarks.data) {
+      const point = relocatePoint(from.sections, to.sections, toPoint(from, bookmark));
+      const { chapter, block, offset } = point ? fromPoint(to, point) : bookmark;
+      await bookmarksApi.create(
+        edition.id,
+        { chapter, block, offset, label: bookmark.label, excerpt: bookmark.excerpt, audio_time: bookmark.audio_time },
+        signal
+      );
+      report.bookmarks++;
+    }
+
+    for (const thought of thoughts.data) {
+      await thoughtsApi.create({ book_id: edition.id, content: thought.content }, signal);
+      report.thoughts++;
+    }
+
+    let position: ReadingPositionDto | undefined;
+    if (previous.position) {
+      const point = relocatePoint(from.sections, to.sections, toPoint(from, previous.position));
+      if (point) position = { ...fromPoint(to, point), updated_at: new Date().toISOString() };
+    }
+    await booksApi.update(
+      edition.id,
+      {
+        progress: previous.progress,
+        position,
+        tags: previous.tags?.length ? previous.tags : undefined,
+        collection_ids: previous.collection_ids?.length ? previous.collection_ids : undefined,
+      },
+      signal
+    );
+    await booksApi.delete(previous.id, signal);
+    return report;
+  },
+};
@@ -3,58 +3,68 @@
  * Provides scenario-based emotion presets for audiobook narration
  */
 
+import { z } from 'zod';
 import { apiClient } from './api';
+import { type InferSchema, validateResponse } from './validation';
+import { emotionParametersSchema, type EmotionParameters } from './voiceStyling';
 
-export interface EmotionParameters {
-  happiness?: number;
-  sadness?: number;
-  anger?: number;
-  fear?: number;
-  surprise?: number;
-  neutral?: number;
-  energy?: number;
-  tempo?: number;
-  pitch?: number;
-  volume?: number;
-}
+export type { EmotionParameters };
 
-export interface ScenarioPreset {
-  id: string;
-  name: string;
-  category: 'narration' | 'dialogue' | 'action' | 'atmosphere';
-  description: string;
-  emotion: EmotionParameters;
-  exampleText: string;
-  usage: string[];
-}
+export const scenarioPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: z.enum(['narration', 'dialogue', 'action', 'atmosphere']),
+  description: z.string(),
+  emotion: emotionParametersSchema,
+  exampleText: z.string(),
+  usage: z.array(z.string()),
+});
+
+export type ScenarioPreset = InferSchema<typeof scenarioPresetSchema>;
 
 class EmotionPresetsService {
   /**
    * Get all emotion presets
    */
-  async getAllPresets() {
-    return apiClient.get<ScenarioPreset[]>('/emotion-presets');
+  async getAllPresets(signal?: AbortSignal) {
+    return validateResponse(
+      apiClient.get('/emotion-presets', undefined, { signal }),
+      z.array(scenarioPresetSchema),
+      'GET /emotion-presets'
+    );
   }
 
   /**
    * Get presets by category
    */
-  async getPresetsByCategory(category: ScenarioPreset['category']) {
-    return apiClient.get<ScenarioPreset[]>(`/emotion-presets/category/${category}`);
+  async getPresetsByCategory(category: ScenarioPreset['category'], signal?: AbortSignal) {
+    return validateResponse(
+      apiClient.get(`/emotion-presets/category/${category}`, undefined, { signal }),
+      z.array(scenarioPresetSchema),
+      'GET /emotion-presets/category/:category'
+    );
   }
 
   /**
    * Get a specific preset by ID
    */
-  async getPresetById(id: string) {
-    return apiClient.get<ScenarioPreset>(`/emotion-presets/${id}`);
+  async getPresetById(id: string, signal?: AbortSignal) {
+    return validateResponse(
+      apiClient.get(`/emotion-presets/${id}`, undefined, { signal }),
+      scenarioPresetSchema,
+      'GET /emotion-presets/:id'
+    );
   }
 
   /**
    * Get recommended preset based on text analysis
    */
-  async getRecommendedPreset(text: string) {
-    return apiClient.get<ScenarioPreset>('/emotion-presets/recommend', { params: { text } });
+  async getRecommendedPreset(text: string, signal?: AbortSignal) {
+    return validateResponse(
+      apiClient.get('/emotion-presets/recommend', { text }, { signal }),
+      scenarioPresetSchema,
+      'GET /emotion-presets/recommend'
+    );
   }
 
   /**
@@ -0,0 +1,553 @@
+/**
+ * Generated by scripts/generate-api.mjs from openapi/openapi.json and openapi/overlays/.
+ * Do not edit by hand: run `npm run api:generate` instead.
+ */
+import { z } from "zod";
+import { apiClient, type RequestOptions } from "../api";
+import { paginatedSchema, validateResponse } from "../validation";
+import {
+  audioExportSchema,
+  bookChapterSchema,
+  bookContentSchema,
+  bookDuplicateSchema,
+  bookSchema,
+  bookmarkSchema,
+  chunkProgressSchema,
+  chunkSchema,
+  collectionSchema,
+  deletedResponseSchema,
+  highlightSchema,
+  noteSchema,
+  projectAudioSchema,
+  projectSchema,
+  scriptContentSchema,
+  scriptJobSchema,
+  scriptStatusSchema,
+  taskSchema,
+  thoughtSchema,
+  type BatchGenerateRequestDto,
+  type BookChaptersUpdateDto,
+  type BookDuplicateQueryDto,
+  type BookUpdateDto,
+  type BookmarkCreateDto,
+  type BookmarkUpdateDto,
+  type ChunkUpdateDto,
+  type CollectionBooksDto,
+  type CollectionCreateDto,
+  type CollectionUpdateDto,
+  type HighlightCreateDto,
+  type HighlightUpdateDto,
+  type MergeAudioRequestDto,
+  type NoteUpdateDto,
+  type ProjectCreateDto,
+  type ProjectUpdateDto,
+  type ScriptGenerateRequestDto,
+  type ScriptReviewRequestDto,
+  type ScriptUpdateDto,
+  type ThoughtCreateDto,
+  type ThoughtUpdateDto,
+} from "./schemas";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+// Query string for requests that can't pass params through axios
+const withQuery = (url: string, params: object): string => {
+  const query = new URLSearchParams();
+  Object.entries(params as Record<string, QueryValue>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.append(key, String(value));
+  });
+  const search = query.toString();
+  return search ? `${url}?${search}` : url;
+};
+
+type FormValue = string | number | boolean | Blob | null | undefined;
+
+const toFormData = (form: object): FormData => {
+  const formData = new FormData();
+  Object.entries(form as Record<string, FormValue | FormValue[]>).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) => {
+      if (item === undefined || item === null) return;
+      formData.append(key, item instanceof Blob ? item : String(item));
+    });
+  });
+  return formData;
+};
+
+export interface ListBooksParams {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  sort?: string;
+  order?: "asc" | "desc";
+}
+
+/** Get books list */
+export const listBooks = (params: ListBooksParams = {}, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get("/books", params, options),
+    paginatedSchema(bookSchema),
+    "GET /books"
+  );
+
+export interface UploadBookForm {
+  file: Blob;
+  title?: string;
+  author?: string;
+  cover?: Blob;
+  chapters?: string;
+  file_hash?: string;
+  text_signature?: string;
+  text?: string;
+  pages?: string;
+}
+
+/** Upload book */
+export const uploadBook = (
+  form: UploadBookForm,
+  onProgress?: (progress: number) => void,
+  options: RequestOptions = {}
+) =>
+  validateResponse(
+    apiClient.upload("/books/upload", toFormData(form), onProgress, options),
+    bookSchema,
+    "POST /books/upload"
+  );
+
+/** Get book details */
+export const getBook = (bookId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/books/${bookId}`, undefined, options),
+    bookSchema,
+    "GET /books/:bookId"
+  );
+
+/** Update book */
+export const updateBook = (bookId: string, body: BookUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/books/${bookId}`, body, options),
+    bookSchema,
+    "PATCH /books/:bookId"
+  );
+
+/** Delete book */
+export const deleteBook = (bookId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/books/${bookId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /books/:bookId"
+  );
+
+export interface GetBookContentParams {
+  format?: "plain" | "markdown" | "html";
+  chapter?: number;
+}
+
+/** Get book content */
+export const getBookContent = (bookId: string, params: GetBookContentParams = {}, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/books/${bookId}/content`, params, options),
+    bookContentSchema,
+    "GET /books/:bookId/content"
+  );
+
+export interface ListProjectsParams {
+  book_id?: string;
+  status?: string;
+  page?: number;
+  page_size?: number;
+}
+
+/** List projects */
+export const listProjects = (params: ListProjectsParams = {}, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get("/projects", params, options),
+    paginatedSchema(projectSchema),
+    "GET /projects"
+  );
+
+/** Create project */
+export const createProject = (body: ProjectCreateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post("/projects", body, { idempotencyKey: true, ...options }),
+    projectSchema,
+    "POST /projects"
+  );
+
+/** Get project details */
+export const getProject = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}`, undefined, options),
+    projectSchema,
+    "GET /projects/:projectId"
+  );
+
+/** Update project */
+export const updateProject = (projectId: string, body: ProjectUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/projects/${projectId}`, body, options),
+    projectSchema,
+    "PATCH /projects/:projectId"
+  );
+
+/** Delete project */
+export const deleteProject = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/projects/${projectId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /projects/:projectId"
+  );
+
+export interface DownloadProjectAudioParams {
+  format?: "mp3" | "wav" | "zip";
+}
+
+/** Download project audio */
+export const downloadProjectAudio = (
+  projectId: string,
+  params: DownloadProjectAudioParams = {},
+  filename?: string,
+  options: RequestOptions = {}
+) =>
+  apiClient.download(withQuery(`/projects/${projectId}/audio/download`, params), filename, options);
+
+/** Generate script */
+export const generateScript = (projectId: string, body: ScriptGenerateRequestDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/projects/${projectId}/scripts/generate`, body, { idempotencyKey: true, ...options }),
+    scriptJobSchema,
+    "POST /projects/:projectId/scripts/generate"
+  );
+
+/** Get script status */
+export const getScriptStatus = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}/scripts/status`, undefined, options),
+    scriptStatusSchema,
+    "GET /projects/:projectId/scripts/status"
+  );
+
+/** Get script content */
+export const getScript = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}/scripts`, undefined, options),
+    scriptContentSchema,
+    "GET /projects/:projectId/scripts"
+  );
+
+/** Update script */
+export const updateScript = (projectId: string, body: ScriptUpdateDto, options: RequestOptions = {}) =>
+  apiClient.patch(`/projects/${projectId}/scripts`, body, options);
+
+/** Review script */
+export const reviewScript = (projectId: string, body: ScriptReviewRequestDto, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/scripts/review`, body, options);
+
+/** Approve script */
+export const approveScript = (projectId: string, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/scripts/approve`, undefined, options);
+
+/** Create chunks from script */
+export const createChunks = (projectId: string, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/scripts/chunks`, undefined, { idempotencyKey: true, ...options });
+
+export interface ListChunksParams {
+  speaker?: string;
+  status?: string;
+  page?: number;
+  page_size?: number;
+}
+
+/** Get audio chunks */
+export const listChunks = (projectId: string, params: ListChunksParams = {}, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}/chunks`, params, options),
+    paginatedSchema(chunkSchema),
+    "GET /projects/:projectId/chunks"
+  );
+
+/** Update chunk */
+export const updateChunk = (projectId: string, chunkId: string, body: ChunkUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/projects/${projectId}/chunks/${chunkId}`, body, options),
+    chunkSchema,
+    "PATCH /projects/:projectId/chunks/:chunkId"
+  );
+
+/** Generate single chunk */
+export const generateChunk = (projectId: string, chunkId: string, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/chunks/${chunkId}/generate`, undefined, { idempotencyKey: true, ...options });
+
+/** Regenerate chunk */
+export const retryChunk = (projectId: string, chunkId: string, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/chunks/${chunkId}/retry`, undefined, { idempotencyKey: true, ...options });
+
+/** Batch generate */
+export const generateChunkBatch = (projectId: string, body: BatchGenerateRequestDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/projects/${projectId}/chunks/generate-batch`, body, { idempotencyKey: true, ...options }),
+    taskSchema,
+    "POST /projects/:projectId/chunks/generate-batch"
+  );
+
+/** Fast batch generate */
+export const generateChunksFast = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/projects/${projectId}/chunks/generate-fast`, undefined, { idempotencyKey: true, ...options }),
+    taskSchema,
+    "POST /projects/:projectId/chunks/generate-fast"
+  );
+
+/** Get chunks progress */
+export const getChunkProgress = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}/chunks/progress`, undefined, options),
+    chunkProgressSchema,
+    "GET /projects/:projectId/chunks/progress"
+  );
+
+/** Merge audio */
+export const mergeAudio = (projectId: string, body: MergeAudioRequestDto, options: RequestOptions = {}) =>
+  apiClient.post(`/projects/${projectId}/audio/merge`, body, { idempotencyKey: true, ...options });
+
+/** Get merged audio */
+export const getProjectAudio = (projectId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/projects/${projectId}/audio`, undefined, options),
+    projectAudioSchema,
+    "GET /projects/:projectId/audio"
+  );
+
+export interface ExportAudioParams {
+  export_format: "combined" | "audacity" | "voicelines";
+  project_name?: string;
+  add_fades?: boolean;
+  normalize?: boolean;
+}
+
+/** Export audio in various formats */
+export const exportAudio = (projectId: string, params: ExportAudioParams, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(withQuery(`/projects/${projectId}/audio/export`, params), undefined, options),
+    audioExportSchema,
+    "POST /projects/:projectId/audio/export"
+  );
+
+/** Get all highlights across all books */
+export const listAllHighlights = (options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get("/highlights", undefined, options),
+    z.array(highlightSchema),
+    "GET /highlights"
+  );
+
+export interface ListBookHighlightsParams {
+  color?: string;
+  chapter?: string;
+}
+
+/** Get highlights for a book */
+export const listBookHighlights = (
+  bookId: string,
+  params: ListBookHighlightsParams = {},
+  options: RequestOptions = {}
+) =>
+  validateResponse(
+    apiClient.get(`/highlights/${bookId}`, params, options),
+    z.array(highlightSchema),
+    "GET /highlights/:bookId"
+  );
+
+/** Create highlight */
+export const createHighlight = (bookId: string, body: HighlightCreateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/highlights/${bookId}`, body, options),
+    highlightSchema,
+    "POST /highlights/:bookId"
+  );
+
+/** Update highlight */
+export const updateHighlight = (highlightId: string, body: HighlightUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/highlights/highlights/${highlightId}`, body, options),
+    highlightSchema,
+    "PATCH /highlights/highlights/:highlightId"
+  );
+
+/** Delete highlight */
+export const deleteHighlight = (highlightId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/highlights/highlights/${highlightId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /highlights/highlights/:highlightId"
+  );
+
+/** Set note for highlight */
+export const setHighlightNote = (highlightId: string, body: NoteUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.put(`/highlights/highlights/${highlightId}/note`, body, options),
+    noteSchema,
+    "PUT /highlights/highlights/:highlightId/note"
+  );
+
+/** Delete note */
+export const deleteHighlightNote = (highlightId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/highlights/highlights/${highlightId}/note`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /highlights/highlights/:highlightId/note"
+  );
+
+export interface ExportNotesParams {
+  format?: "json" | "markdown" | "csv";
+}
+
+/** Export notes */
+export const exportNotes = (
+  bookId: string,
+  params: ExportNotesParams = {},
+  filename?: string,
+  options: RequestOptions = {}
+) =>
+  apiClient.download(withQuery(`/highlights/${bookId}/notes/export`, params), filename, options);
+
+export interface ListThoughtsParams {
+  book_id?: string;
+  page?: number;
+  page_size?: number;
+}
+
+/** Get thoughts list */
+export const listThoughts = (params: ListThoughtsParams = {}, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get("/thoughts", params, options),
+    z.array(thoughtSchema),
+    "GET /thoughts"
+  );
+
+/** Create thought */
+export const createThought = (body: ThoughtCreateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post("/thoughts", body, options),
+    thoughtSchema,
+    "POST /thoughts"
+  );
+
+/** Get a specific thought */
+export const getThought = (thoughtId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/thoughts/${thoughtId}`, undefined, options),
+    thoughtSchema,
+    "GET /thoughts/:thoughtId"
+  );
+
+/** Update thought */
+export const updateThought = (thoughtId: string, body: ThoughtUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/thoughts/${thoughtId}`, body, options),
+    thoughtSchema,
+    "PATCH /thoughts/:thoughtId"
+  );
+
+/** Delete thought */
+export const deleteThought = (thoughtId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/thoughts/${thoughtId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /thoughts/:thoughtId"
+  );
+
+/** Get all thoughts for a book */
+export const listBookThoughts = (bookId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/thoughts/book/${bookId}/all`, undefined, options),
+    z.array(thoughtSchema),
+    "GET /thoughts/book/:bookId/all"
+  );
+
+/** Get bookmarks for a book */
+export const listBookBookmarks = (bookId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get(`/bookmarks/${bookId}`, undefined, options),
+    z.array(bookmarkSchema),
+    "GET /bookmarks/:bookId"
+  );
+
+/** Create bookmark */
+export const createBookmark = (bookId: string, body: BookmarkCreateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/bookmarks/${bookId}`, body, options),
+    bookmarkSchema,
+    "POST /bookmarks/:bookId"
+  );
+
+/** Update bookmark */
+export const updateBookmark = (bookmarkId: string, body: BookmarkUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/bookmarks/bookmarks/${bookmarkId}`, body, options),
+    bookmarkSchema,
+    "PATCH /bookmarks/bookmarks/:bookmarkId"
+  );
+
+/** Delete bookmark */
+export const deleteBookmark = (bookmarkId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/bookmarks/bookmarks/${bookmarkId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /bookmarks/bookmarks/:bookmarkId"
+  );
+
+/** Replace book chapters */
+export const updateBookChapters = (bookId: string, body: BookChaptersUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.put(`/books/${bookId}/chapters`, body, options),
+    z.array(bookChapterSchema),
+    "PUT /books/:bookId/chapters"
+  );
+
+/** List collections */
+export const listCollections = (options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.get("/collections", undefined, options),
+    z.array(collectionSchema),
+    "GET /collections"
+  );
+
+/** Create collection */
+export const createCollection = (body: CollectionCreateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post("/collections", body, options),
+    collectionSchema,
+    "POST /collections"
+  );
+
+/** Rename collection */
+export const updateCollection = (collectionId: string, body: CollectionUpdateDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.patch(`/collections/${collectionId}`, body, options),
+    collectionSchema,
+    "PATCH /collections/:collectionId"
+  );
+
+/** Delete collection; its books stay in the library */
+export const deleteCollection = (collectionId: string, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.delete(`/collections/${collectionId}`, undefined, options),
+    deletedResponseSchema,
+    "DELETE /collections/:collectionId"
+  );
+
+/** Add books to a collection */
+export const addCollectionBooks = (collectionId: string, body: CollectionBooksDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post(`/collections/${collectionId}/books`, body, options),
+    z.array(bookSchema),
+    "POST /collections/:collectionId/books"
+  );
+
+/** Find books matching an upload's fingerprints */
+export const findBookDuplicates = (body: BookDuplicateQueryDto, options: RequestOptions = {}) =>
+  validateResponse(
+    apiClient.post("/books/duplicates", body, options),
+    z.array(bookDuplicateSchema),
+    "POST /books/duplicates"
+  );
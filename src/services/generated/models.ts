@@ -0,0 +1,1275 @@
+/**
+ * Generated by scripts/generate-api.mjs from openapi/openapi.json and openapi/overlays/.
+ * Do not edit by hand: run `npm run api:generate` instead.
+ */
+import type {
+  ApiErrorDto,
+  AudioExportDto,
+  BatchGenerateRequestDto,
+  ReadingPositionDto,
+  BookDto,
+  BookChapterDto,
+  BookChaptersUpdateDto,
+  BookContentMetadataDto,
+  BookPageDto,
+  BookContentDto,
+  BookDuplicateDto,
+  BookDuplicateQueryDto,
+  BookUpdateDto,
+  BookmarkDto,
+  BookmarkCreateDto,
+  BookmarkUpdateDto,
+  ChunkDto,
+  ChunkProgressDto,
+  ChunkUpdateDto,
+  CollectionDto,
+  CollectionBooksDto,
+  CollectionCreateDto,
+  CollectionUpdateDto,
+  DeletedResponseDto,
+  NoteDto,
+  HighlightBookDto,
+  TextQuoteSelectorDto,
+  TextPositionSelectorDto,
+  HighlightSelectorDto,
+  HighlightDto,
+  HighlightCreateDto,
+  HighlightUpdateDto,
+  MergeAudioRequestDto,
+  NoteUpdateDto,
+  ProjectConfigDto,
+  ProjectProgressDto,
+  ProjectDto,
+  ProjectAudioDto,
+  ProjectConfigUpdateDto,
+  ProjectCreateDto,
+  ProjectUpdateDto,
+  ScriptEntryDto,
+  ScriptContentDto,
+  ScriptGenerateSettingsDto,
+  ScriptGenerateRequestDto,
+  ScriptJobDto,
+  ScriptReviewRulesDto,
+  ScriptReviewRequestDto,
+  ScriptStatusDto,
+  ScriptUpdateDto,
+  TaskDto,
+  ThoughtDto,
+  ThoughtCreateDto,
+  ThoughtUpdateDto,
+} from "./schemas";
+
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export const toApiError = (dto: ApiErrorDto): ApiError => ({
+  code: dto.code,
+  message: dto.message,
+  details: dto.details,
+});
+
+export const fromApiError = (model: ApiError): ApiErrorDto => ({
+  code: model.code,
+  message: model.message,
+  details: model.details,
+});
+
+export interface AudioExport {
+  format: string;
+  audioUrl?: string;
+  downloadUrl?: string;
+  filename?: string;
+  chunksCount?: number;
+  duration?: number;
+  message: string;
+}
+
+export const toAudioExport = (dto: AudioExportDto): AudioExport => ({
+  format: dto.format,
+  audioUrl: dto.audio_url,
+  downloadUrl: dto.download_url,
+  filename: dto.filename,
+  chunksCount: dto.chunks_count,
+  duration: dto.duration,
+  message: dto.message,
+});
+
+export const fromAudioExport = (model: AudioExport): AudioExportDto => ({
+  format: model.format,
+  audio_url: model.audioUrl,
+  download_url: model.downloadUrl,
+  filename: model.filename,
+  chunks_count: model.chunksCount,
+  duration: model.duration,
+  message: model.message,
+});
+
+export interface BatchGenerateRequest {
+  chunkIds: string[];
+  mode?: "parallel" | "sequential";
+  workers?: number;
+}
+
+export const toBatchGenerateRequest = (dto: BatchGenerateRequestDto): BatchGenerateRequest => ({
+  chunkIds: dto.chunk_ids,
+  mode: dto.mode,
+  workers: dto.workers,
+});
+
+export const fromBatchGenerateRequest = (model: BatchGenerateRequest): BatchGenerateRequestDto => ({
+  chunk_ids: model.chunkIds,
+  mode: model.mode,
+  workers: model.workers,
+});
+
+/** Exact place in a book: the block on screen and the character within it, and when and where the reader was there */
+export interface ReadingPosition {
+  chapter?: string;
+  block: number;
+  offset: number;
+  audioTime?: number;
+  device?: string;
+  updatedAt?: string;
+}
+
+export const toReadingPosition = (dto: ReadingPositionDto): ReadingPosition => ({
+  chapter: dto.chapter,
+  block: dto.block,
+  offset: dto.offset,
+  audioTime: dto.audio_time,
+  device: dto.device,
+  updatedAt: dto.updated_at,
+});
+
+export const fromReadingPosition = (model: ReadingPosition): ReadingPositionDto => ({
+  chapter: model.chapter,
+  block: model.block,
+  offset: model.offset,
+  audio_time: model.audioTime,
+  device: model.device,
+  updated_at: model.updatedAt,
+});
+
+export interface Book {
+  id: string;
+  userId: string;
+  title: string;
+  author?: string;
+  coverUrl?: string;
+  fileType: "txt" | "pdf" | "epub";
+  totalPages?: number;
+  totalChars?: number;
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+  projects?: unknown[];
+  tags?: string[];
+  collectionIds?: string[];
+  lastOpenedAt?: string;
+  audioReady?: boolean;
+  fileHash?: string;
+  position?: ReadingPosition;
+}
+
+export const toBook = (dto: BookDto): Book => ({
+  id: dto.id,
+  userId: dto.user_id,
+  title: dto.title,
+  author: dto.author,
+  coverUrl: dto.cover_url,
+  fileType: dto.file_type,
+  totalPages: dto.total_pages,
+  totalChars: dto.total_chars,
+  progress: dto.progress,
+  createdAt: dto.created_at,
+  updatedAt: dto.updated_at,
+  projects: dto.projects,
+  tags: dto.tags,
+  collectionIds: dto.collection_ids,
+  lastOpenedAt: dto.last_opened_at,
+  audioReady: dto.audio_ready,
+  fileHash: dto.file_hash,
+  position: dto.position && toReadingPosition(dto.position),
+});
+
+export const fromBook = (model: Book): BookDto => ({
+  id: model.id,
+  user_id: model.userId,
+  title: model.title,
+  author: model.author,
+  cover_url: model.coverUrl,
+  file_type: model.fileType,
+  total_pages: model.totalPages,
+  total_chars: model.totalChars,
+  progress: model.progress,
+  created_at: model.createdAt,
+  updated_at: model.updatedAt,
+  projects: model.projects,
+  tags: model.tags,
+  collection_ids: model.collectionIds,
+  last_opened_at: model.lastOpenedAt,
+  audio_ready: model.audioReady,
+  file_hash: model.fileHash,
+  position: model.position && fromReadingPosition(model.position),
+});
+
+export interface BookChapter {
+  index: number;
+  title: string;
+  offset: number;
+  level?: number;
+}
+
+export const toBookChapter = (dto: BookChapterDto): BookChapter => ({
+  index: dto.index,
+  title: dto.title,
+  offset: dto.offset,
+  level: dto.level,
+});
+
+export const fromBookChapter = (model: BookChapter): BookChapterDto => ({
+  index: model.index,
+  title: model.title,
+  offset: model.offset,
+  level: model.level,
+});
+
+export interface BookChaptersUpdate {
+  chapters: BookChapter[];
+}
+
+export const toBookChaptersUpdate = (dto: BookChaptersUpdateDto): BookChaptersUpdate => ({
+  chapters: dto.chapters.map(toBookChapter),
+});
+
+export const fromBookChaptersUpdate = (model: BookChaptersUpdate): BookChaptersUpdateDto => ({
+  chapters: model.chapters.map(fromBookChapter),
+});
+
+export interface BookContentMetadata {
+  title: string;
+  author?: string;
+  totalChars: number;
+}
+
+export const toBookContentMetadata = (dto: BookContentMetadataDto): BookContentMetadata => ({
+  title: dto.title,
+  author: dto.author,
+  totalChars: dto.total_chars,
+});
+
+export const fromBookContentMetadata = (model: BookContentMetadata): BookContentMetadataDto => ({
+  title: model.title,
+  author: model.author,
+  total_chars: model.totalChars,
+});
+
+export interface BookPage {
+  pageNumber: number;
+  label: string;
+  offset: number;
+}
+
+export const toBookPage = (dto: BookPageDto): BookPage => ({
+  pageNumber: dto.page_number,
+  label: dto.label,
+  offset: dto.offset,
+});
+
+export const fromBookPage = (model: BookPage): BookPageDto => ({
+  page_number: model.pageNumber,
+  label: model.label,
+  offset: model.offset,
+});
+
+export interface BookContent {
+  content: string;
+  chapters: BookChapter[];
+  metadata: BookContentMetadata;
+  pages?: BookPage[];
+}
+
+export const toBookContent = (dto: BookContentDto): BookContent => ({
+  content: dto.content,
+  chapters: dto.chapters.map(toBookChapter),
+  metadata: toBookContentMetadata(dto.metadata),
+  pages: dto.pages?.map(toBookPage),
+});
+
+export const fromBookContent = (model: BookContent): BookContentDto => ({
+  content: model.content,
+  chapters: model.chapters.map(fromBookChapter),
+  metadata: fromBookContentMetadata(model.metadata),
+  pages: model.pages?.map(fromBookPage),
+});
+
+/** A book already in the library that looks like the one being uploaded */
+export interface BookDuplicate {
+  book: Book;
+  sameFile: boolean;
+  similarity: number;
+}
+
+export const toBookDuplicate = (dto: BookDuplicateDto): BookDuplicate => ({
+  book: toBook(dto.book),
+  sameFile: dto.same_file,
+  similarity: dto.similarity,
+});
+
+export const fromBookDuplicate = (model: BookDuplicate): BookDuplicateDto => ({
+  book: fromBook(model.book),
+  same_file: model.sameFile,
+  similarity: model.similarity,
+});
+
+/** Fingerprints of a book about to be uploaded */
+export interface BookDuplicateQuery {
+  fileHash?: string;
+  textSignature?: number[];
+}
+
+export const toBookDuplicateQuery = (dto: BookDuplicateQueryDto): BookDuplicateQuery => ({
+  fileHash: dto.file_hash,
+  textSignature: dto.text_signature,
+});
+
+export const fromBookDuplicateQuery = (model: BookDuplicateQuery): BookDuplicateQueryDto => ({
+  file_hash: model.fileHash,
+  text_signature: model.textSignature,
+});
+
+export interface BookUpdate {
+  title?: string;
+  author?: string;
+  coverUrl?: string;
+  progress?: number;
+  tags?: string[];
+  collectionIds?: string[];
+  position?: ReadingPosition;
+}
+
+export const toBookUpdate = (dto: BookUpdateDto): BookUpdate => ({
+  title: dto.title,
+  author: dto.author,
+  coverUrl: dto.cover_url,
+  progress: dto.progress,
+  tags: dto.tags,
+  collectionIds: dto.collection_ids,
+  position: dto.position && toReadingPosition(dto.position),
+});
+
+export const fromBookUpdate = (model: BookUpdate): BookUpdateDto => ({
+  title: model.title,
+  author: model.author,
+  cover_url: model.coverUrl,
+  progress: model.progress,
+  tags: model.tags,
+  collection_ids: model.collectionIds,
+  position: model.position && fromReadingPosition(model.position),
+});
+
+/** A saved place in a book, with the narration time there when the book has audio */
+export interface Bookmark {
+  id: string;
+  userId: string;
+  bookId: string;
+  chapter?: string;
+  block: number;
+  offset: number;
+  label?: string;
+  excerpt: string;
+  audioTime?: number;
+  createdAt: string;
+}
+
+export const toBookmark = (dto: BookmarkDto): Bookmark => ({
+  id: dto.id,
+  userId: dto.user_id,
+  bookId: dto.book_id,
+  chapter: dto.chapter,
+  block: dto.block,
+  offset: dto.offset,
+  label: dto.label,
+  excerpt: dto.excerpt,
+  audioTime: dto.audio_time,
+  createdAt: dto.created_at,
+});
+
+export const fromBookmark = (model: Bookmark): BookmarkDto => ({
+  id: model.id,
+  user_id: model.userId,
+  book_id: model.bookId,
+  chapter: model.chapter,
+  block: model.block,
+  offset: model.offset,
+  label: model.label,
+  excerpt: model.excerpt,
+  audio_time: model.audioTime,
+  created_at: model.createdAt,
+});
+
+export interface BookmarkCreate {
+  chapter?: string;
+  block: number;
+  offset: number;
+  label?: string;
+  excerpt?: string;
+  audioTime?: number;
+}
+
+export const toBookmarkCreate = (dto: BookmarkCreateDto): BookmarkCreate => ({
+  chapter: dto.chapter,
+  block: dto.block,
+  offset: dto.offset,
+  label: dto.label,
+  excerpt: dto.excerpt,
+  audioTime: dto.audio_time,
+});
+
+export const fromBookmarkCreate = (model: BookmarkCreate): BookmarkCreateDto => ({
+  chapter: model.chapter,
+  block: model.block,
+  offset: model.offset,
+  label: model.label,
+  excerpt: model.excerpt,
+  audio_time: model.audioTime,
+});
+
+export interface BookmarkUpdate {
+  label?: string;
+}
+
+export const toBookmarkUpdate = (dto: BookmarkUpdateDto): BookmarkUpdate => ({
+  label: dto.label,
+});
+
+export const fromBookmarkUpdate = (model: BookmarkUpdate): BookmarkUpdateDto => ({
+  label: model.label,
+});
+
+export type ChunkStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface Chunk {
+  id: string;
+  projectId: string;
+  scriptId: string;
+  speaker: string;
+  text: string;
+  instruct?: string;
+  emotion?: string;
+  section?: string;
+  status: ChunkStatus;
+  audioPath?: string;
+  duration?: number;
+  startTime?: number;
+  endTime?: number;
+  orderIndex: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const toChunk = (dto: ChunkDto): Chunk => ({
+  id: dto.id,
+  projectId: dto.project_id,
+  scriptId: dto.script_id,
+  speaker: dto.speaker,
+  text: dto.text,
+  instruct: dto.instruct,
+  emotion: dto.emotion,
+  section: dto.section,
+  status: dto.status,
+  audioPath: dto.audio_path,
+  duration: dto.duration,
+  startTime: dto.start_time,
+  endTime: dto.end_time,
+  orderIndex: dto.order_index,
+  createdAt: dto.created_at,
+  updatedAt: dto.updated_at,
+});
+
+export const fromChunk = (model: Chunk): ChunkDto => ({
+  id: model.id,
+  project_id: model.projectId,
+  script_id: model.scriptId,
+  speaker: model.speaker,
+  text: model.text,
+  instruct: model.instruct,
+  emotion: model.emotion,
+  section: model.section,
+  status: model.status,
+  audio_path: model.audioPath,
+  duration: model.duration,
+  start_time: model.startTime,
+  end_time: model.endTime,
+  order_index: model.orderIndex,
+  created_at: model.createdAt,
+  updated_at: model.updatedAt,
+});
+
+export interface ChunkProgress {
+  total: number;
+  completed: number;
+  processing: number;
+  pending: number;
+  percentage: number;
+  estimatedTimeRemaining: number | null;
+}
+
+export const toChunkProgress = (dto: ChunkProgressDto): ChunkProgress => ({
+  total: dto.total,
+  completed: dto.completed,
+  processing: dto.processing,
+  pending: dto.pending,
+  percentage: dto.percentage,
+  estimatedTimeRemaining: dto.estimated_time_remaining,
+});
+
+export const fromChunkProgress = (model: ChunkProgress): ChunkProgressDto => ({
+  total: model.total,
+  completed: model.completed,
+  processing: model.processing,
+  pending: model.pending,
+  percentage: model.percentage,
+  estimated_time_remaining: model.estimatedTimeRemaining,
+});
+
+export interface ChunkUpdate {
+  text?: string;
+  instruct?: string;
+  speaker?: string;
+}
+
+export const toChunkUpdate = (dto: ChunkUpdateDto): ChunkUpdate => ({
+  text: dto.text,
+  instruct: dto.instruct,
+  speaker: dto.speaker,
+});
+
+export const fromChunkUpdate = (model: ChunkUpdate): ChunkUpdateDto => ({
+  text: model.text,
+  instruct: model.instruct,
+  speaker: model.speaker,
+});
+
+/** A shelf of books the reader put together */
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: string;
+}
+
+export const toCollection = (dto: CollectionDto): Collection => ({
+  id: dto.id,
+  userId: dto.user_id,
+  name: dto.name,
+  createdAt: dto.created_at,
+});
+
+export const fromCollection = (model: Collection): CollectionDto => ({
+  id: model.id,
+  user_id: model.userId,
+  name: model.name,
+  created_at: model.createdAt,
+});
+
+export interface CollectionBooks {
+  bookIds: string[];
+}
+
+export const toCollectionBooks = (dto: CollectionBooksDto): CollectionBooks => ({
+  bookIds: dto.book_ids,
+});
+
+export const fromCollectionBooks = (model: CollectionBooks): CollectionBooksDto => ({
+  book_ids: model.bookIds,
+});
+
+export interface CollectionCreate {
+  name: string;
+}
+
+export const toCollectionCreate = (dto: CollectionCreateDto): CollectionCreate => ({
+  name: dto.name,
+});
+
+export const fromCollectionCreate = (model: CollectionCreate): CollectionCreateDto => ({
+  name: model.name,
+});
+
+export interface CollectionUpdate {
+  name: string;
+}
+
+export const toCollectionUpdate = (dto: CollectionUpdateDto): CollectionUpdate => ({
+  name: dto.name,
+});
+
+export const fromCollectionUpdate = (model: CollectionUpdate): CollectionUpdateDto => ({
+  name: model.name,
+});
+
+export interface DeletedResponse {
+  deleted: boolean;
+}
+
+export const toDeletedResponse = (dto: DeletedResponseDto): DeletedResponse => ({
+  deleted: dto.deleted,
+});
+
+export const fromDeletedResponse = (model: DeletedResponse): DeletedResponseDto => ({
+  deleted: model.deleted,
+});
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+export interface Note {
+  id: string;
+  highlightId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const toNote = (dto: NoteDto): Note => ({
+  id: dto.id,
+  highlightId: dto.highlight_id,
+  content: dto.content,
+  createdAt: dto.created_at,
+  updatedAt: dto.updated_at,
+});
+
+export const fromNote = (model: Note): NoteDto => ({
+  id: model.id,
+  highlight_id: model.highlightId,
+  content: model.content,
+  created_at: model.createdAt,
+  updated_at: model.updatedAt,
+});
+
+export interface HighlightBook {
+  title?: string;
+  author?: string;
+  coverUrl?: string;
+}
+
+export const toHighlightBook = (dto: HighlightBookDto): HighlightBook => ({
+  title: dto.title,
+  author: dto.author,
+  coverUrl: dto.cover_url,
+});
+
+export const fromHighlightBook = (model: HighlightBook): HighlightBookDto => ({
+  title: model.title,
+  author: model.author,
+  cover_url: model.coverUrl,
+});
+
+/** The highlighted text with the text around it, found again by matching (W3C Web Annotation TextQuoteSelector) */
+export interface TextQuoteSelector {
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+export const toTextQuoteSelector = (dto: TextQuoteSelectorDto): TextQuoteSelector => ({
+  exact: dto.exact,
+  prefix: dto.prefix,
+  suffix: dto.suffix,
+});
+
+export const fromTextQuoteSelector = (model: TextQuoteSelector): TextQuoteSelectorDto => ({
+  exact: model.exact,
+  prefix: model.prefix,
+  suffix: model.suffix,
+});
+
+/** Where the highlight was, in characters (W3C Web Annotation TextPositionSelector) */
+export interface TextPositionSelector {
+  start: number;
+  end: number;
+}
+
+export const toTextPositionSelector = (dto: TextPositionSelectorDto): TextPositionSelector => ({
+  start: dto.start,
+  end: dto.end,
+});
+
+export const fromTextPositionSelector = (model: TextPositionSelector): TextPositionSelectorDto => ({
+  start: model.start,
+  end: model.end,
+});
+
+/** How to find a highlight again when the offsets no longer fit the text. Positions count from the start of the book's text, or for EPUBs of the highlight's chapter */
+export interface HighlightSelector {
+  quote: TextQuoteSelector;
+  position: TextPositionSelector;
+}
+
+export const toHighlightSelector = (dto: HighlightSelectorDto): HighlightSelector => ({
+  quote: toTextQuoteSelector(dto.quote),
+  position: toTextPositionSelector(dto.position),
+});
+
+export const fromHighlightSelector = (model: HighlightSelector): HighlightSelectorDto => ({
+  quote: fromTextQuoteSelector(model.quote),
+  position: fromTextPositionSelector(model.position),
+});
+
+export interface Highlight {
+  id: string;
+  userId: string;
+  bookId: string;
+  chunkId?: string;
+  text: string;
+  color: HighlightColor;
+  startOffset: number;
+  endOffset: number;
+  chapter?: string;
+  note?: Note;
+  createdAt: string;
+  book?: HighlightBook;
+  selector?: HighlightSelector;
+}
+
+export const toHighlight = (dto: HighlightDto): Highlight => ({
+  id: dto.id,
+  userId: dto.user_id,
+  bookId: dto.book_id,
+  chunkId: dto.chunk_id,
+  text: dto.text,
+  color: dto.color,
+  startOffset: dto.start_offset,
+  endOffset: dto.end_offset,
+  chapter: dto.chapter,
+  note: dto.note && toNote(dto.note),
+  createdAt: dto.created_at,
+  book: dto.book && toHighlightBook(dto.book),
+  selector: dto.selector && toHighlightSelector(dto.selector),
+});
+
+export const fromHighlight = (model: Highlight): HighlightDto => ({
+  id: model.id,
+  user_id: model.userId,
+  book_id: model.bookId,
+  chunk_id: model.chunkId,
+  text: model.text,
+  color: model.color,
+  start_offset: model.startOffset,
+  end_offset: model.endOffset,
+  chapter: model.chapter,
+  note: model.note && fromNote(model.note),
+  created_at: model.createdAt,
+  book: model.book && fromHighlightBook(model.book),
+  selector: model.selector && fromHighlightSelector(model.selector),
+});
+
+export interface HighlightCreate {
+  text: string;
+  color: HighlightColor;
+  startOffset: number;
+  endOffset: number;
+  chapter?: string;
+  chunkId?: string;
+  note?: string;
+  selector?: HighlightSelector;
+}
+
+export const toHighlightCreate = (dto: HighlightCreateDto): HighlightCreate => ({
+  text: dto.text,
+  color: dto.color,
+  startOffset: dto.start_offset,
+  endOffset: dto.end_offset,
+  chapter: dto.chapter,
+  chunkId: dto.chunk_id,
+  note: dto.note,
+  selector: dto.selector && toHighlightSelector(dto.selector),
+});
+
+export const fromHighlightCreate = (model: HighlightCreate): HighlightCreateDto => ({
+  text: model.text,
+  color: model.color,
+  start_offset: model.startOffset,
+  end_offset: model.endOffset,
+  chapter: model.chapter,
+  chunk_id: model.chunkId,
+  note: model.note,
+  selector: model.selector && fromHighlightSelector(model.selector),
+});
+
+/** Change a highlight's color, or move it: the new text, offsets, chapter and selector replace the old ones */
+export interface HighlightUpdate {
+  color?: HighlightColor;
+  text?: string;
+  startOffset?: number;
+  endOffset?: number;
+  chapter?: string;
+  selector?: HighlightSelector;
+}
+
+export const toHighlightUpdate = (dto: HighlightUpdateDto): HighlightUpdate => ({
+  color: dto.color,
+  text: dto.text,
+  startOffset: dto.start_offset,
+  endOffset: dto.end_offset,
+  chapter: dto.chapter,
+  selector: dto.selector && toHighlightSelector(dto.selector),
+});
+
+export const fromHighlightUpdate = (model: HighlightUpdate): HighlightUpdateDto => ({
+  color: model.color,
+  text: model.text,
+  start_offset: model.startOffset,
+  end_offset: model.endOffset,
+  chapter: model.chapter,
+  selector: model.selector && fromHighlightSelector(model.selector),
+});
+
+export interface MergeAudioRequest {
+  pauseBetweenSpeakers?: number;
+  pauseSameSpeaker?: number;
+  outputFormat?: "mp3" | "wav";
+  bitrate?: string;
+}
+
+export const toMergeAudioRequest = (dto: MergeAudioRequestDto): MergeAudioRequest => ({
+  pauseBetweenSpeakers: dto.pause_between_speakers,
+  pauseSameSpeaker: dto.pause_same_speaker,
+  outputFormat: dto.output_format,
+  bitrate: dto.bitrate,
+});
+
+export const fromMergeAudioRequest = (model: MergeAudioRequest): MergeAudioRequestDto => ({
+  pause_between_speakers: model.pauseBetweenSpeakers,
+  pause_same_speaker: model.pauseSameSpeaker,
+  output_format: model.outputFormat,
+  bitrate: model.bitrate,
+});
+
+export interface NoteUpdate {
+  content: string;
+}
+
+export const toNoteUpdate = (dto: NoteUpdateDto): NoteUpdate => ({
+  content: dto.content,
+});
+
+export const fromNoteUpdate = (model: NoteUpdate): NoteUpdateDto => ({
+  content: model.content,
+});
+
+export type ProjectStatus = "draft" | "processing" | "completed" | "failed";
+
+export interface ProjectConfig {
+  ttsMode: string;
+  ttsUrl?: string;
+  language: string;
+  parallelWorkers?: number;
+}
+
+export const toProjectConfig = (dto: ProjectConfigDto): ProjectConfig => ({
+  ttsMode: dto.tts_mode,
+  ttsUrl: dto.tts_url,
+  language: dto.language,
+  parallelWorkers: dto.parallel_workers,
+});
+
+export const fromProjectConfig = (model: ProjectConfig): ProjectConfigDto => ({
+  tts_mode: model.ttsMode,
+  tts_url: model.ttsUrl,
+  language: model.language,
+  parallel_workers: model.parallelWorkers,
+});
+
+export interface ProjectProgress {
+  totalChunks: number;
+  completedChunks: number;
+  percentage: number;
+}
+
+export const toProjectProgress = (dto: ProjectProgressDto): ProjectProgress => ({
+  totalChunks: dto.total_chunks,
+  completedChunks: dto.completed_chunks,
+  percentage: dto.percentage,
+});
+
+export const fromProjectProgress = (model: ProjectProgress): ProjectProgressDto => ({
+  total_chunks: model.totalChunks,
+  completed_chunks: model.completedChunks,
+  percentage: model.percentage,
+});
+
+export interface Project {
+  id: string;
+  bookId: string;
+  bookTitle?: string;
+  name: string;
+  description?: string;
+  status: ProjectStatus;
+  config: ProjectConfig;
+  audioPath?: string;
+  duration?: number;
+  createdAt: string;
+  updatedAt: string;
+  progress?: ProjectProgress;
+}
+
+export const toProject = (dto: ProjectDto): Project => ({
+  id: dto.id,
+  bookId: dto.book_id,
+  bookTitle: dto.book_title,
+  name: dto.name,
+  description: dto.description,
+  status: dto.status,
+  config: toProjectConfig(dto.config),
+  audioPath: dto.audio_path,
+  duration: dto.duration,
+  createdAt: dto.created_at,
+  updatedAt: dto.updated_at,
+  progress: dto.progress && toProjectProgress(dto.progress),
+});
+
+export const fromProject = (model: Project): ProjectDto => ({
+  id: model.id,
+  book_id: model.bookId,
+  book_title: model.bookTitle,
+  name: model.name,
+  description: model.description,
+  status: model.status,
+  config: fromProjectConfig(model.config),
+  audio_path: model.audioPath,
+  duration: model.duration,
+  created_at: model.createdAt,
+  updated_at: model.updatedAt,
+  progress: model.progress && fromProjectProgress(model.progress),
+});
+
+export interface ProjectAudio {
+  audioUrl: string;
+  duration: number;
+  fileSize: number | null;
+  format: string;
+  bitrate: string | null;
+}
+
+export const toProjectAudio = (dto: ProjectAudioDto): ProjectAudio => ({
+  audioUrl: dto.audio_url,
+  duration: dto.duration,
+  fileSize: dto.file_size,
+  format: dto.format,
+  bitrate: dto.bitrate,
+});
+
+export const fromProjectAudio = (model: ProjectAudio): ProjectAudioDto => ({
+  audio_url: model.audioUrl,
+  duration: model.duration,
+  file_size: model.fileSize,
+  format: model.format,
+  bitrate: model.bitrate,
+});
+
+export interface ProjectConfigUpdate {
+  ttsMode?: string;
+  ttsUrl?: string;
+  language?: string;
+  parallelWorkers?: number;
+}
+
+export const toProjectConfigUpdate = (dto: ProjectConfigUpdateDto): ProjectConfigUpdate => ({
+  ttsMode: dto.tts_mode,
+  ttsUrl: dto.tts_url,
+  language: dto.language,
+  parallelWorkers: dto.parallel_workers,
+});
+
+export const fromProjectConfigUpdate = (model: ProjectConfigUpdate): ProjectConfigUpdateDto => ({
+  tts_mode: model.ttsMode,
+  tts_url: model.ttsUrl,
+  language: model.language,
+  parallel_workers: model.parallelWorkers,
+});
+
+export interface ProjectCreate {
+  bookId: string;
+  name: string;
+  description?: string;
+  config?: ProjectConfig;
+}
+
+export const toProjectCreate = (dto: ProjectCreateDto): ProjectCreate => ({
+  bookId: dto.book_id,
+  name: dto.name,
+  description: dto.description,
+  config: dto.config && toProjectConfig(dto.config),
+});
+
+export const fromProjectCreate = (model: ProjectCreate): ProjectCreateDto => ({
+  book_id: model.bookId,
+  name: model.name,
+  description: model.description,
+  config: model.config && fromProjectConfig(model.config),
+});
+
+export interface ProjectUpdate {
+  name?: string;
+  description?: string;
+  config?: ProjectConfigUpdate;
+}
+
+export const toProjectUpdate = (dto: ProjectUpdateDto): ProjectUpdate => ({
+  name: dto.name,
+  description: dto.description,
+  config: dto.config && toProjectConfigUpdate(dto.config),
+});
+
+export const fromProjectUpdate = (model: ProjectUpdate): ProjectUpdateDto => ({
+  name: model.name,
+  description: model.description,
+  config: model.config && fromProjectConfigUpdate(model.config),
+});
+
+export interface ScriptEntry {
+  index: number;
+  speaker: string;
+  text: string;
+  instruct?: string;
+  emotion?: string;
+  section?: string;
+}
+
+export const toScriptEntry = (dto: ScriptEntryDto): ScriptEntry => ({
+  index: dto.index,
+  speaker: dto.speaker,
+  text: dto.text,
+  instruct: dto.instruct,
+  emotion: dto.emotion,
+  section: dto.section,
+});
+
+export const fromScriptEntry = (model: ScriptEntry): ScriptEntryDto => ({
+  index: model.index,
+  speaker: model.speaker,
+  text: model.text,
+  instruct: model.instruct,
+  emotion: model.emotion,
+  section: model.section,
+});
+
+export interface ScriptContent {
+  content: ScriptEntry[];
+}
+
+export const toScriptContent = (dto: ScriptContentDto): ScriptContent => ({
+  content: dto.content.map(toScriptEntry),
+});
+
+export const fromScriptContent = (model: ScriptContent): ScriptContentDto => ({
+  content: model.content.map(fromScriptEntry),
+});
+
+export interface ScriptGenerateSettings {
+  maxChunkSize?: number;
+  detectEmotions?: boolean;
+  detectSections?: boolean;
+}
+
+export const toScriptGenerateSettings = (dto: ScriptGenerateSettingsDto): ScriptGenerateSettings => ({
+  maxChunkSize: dto.max_chunk_size,
+  detectEmotions: dto.detect_emotions,
+  detectSections: dto.detect_sections,
+});
+
+export const fromScriptGenerateSettings = (model: ScriptGenerateSettings): ScriptGenerateSettingsDto => ({
+  max_chunk_size: model.maxChunkSize,
+  detect_emotions: model.detectEmotions,
+  detect_sections: model.detectSections,
+});
+
+export interface ScriptGenerateRequest {
+  systemPrompt?: string;
+  userPrompt?: string;
+  options?: ScriptGenerateSettings;
+  sourceText?: string;
+}
+
+export const toScriptGenerateRequest = (dto: ScriptGenerateRequestDto): ScriptGenerateRequest => ({
+  systemPrompt: dto.system_prompt,
+  userPrompt: dto.user_prompt,
+  options: dto.options && toScriptGenerateSettings(dto.options),
+  sourceText: dto.source_text,
+});
+
+export const fromScriptGenerateRequest = (model: ScriptGenerateRequest): ScriptGenerateRequestDto => ({
+  system_prompt: model.systemPrompt,
+  user_prompt: model.userPrompt,
+  options: model.options && fromScriptGenerateSettings(model.options),
+  source_text: model.sourceText,
+});
+
+export interface ScriptJob {
+  scriptId: string;
+  status: string;
+}
+
+export const toScriptJob = (dto: ScriptJobDto): ScriptJob => ({
+  scriptId: dto.script_id,
+  status: dto.status,
+});
+
+export const fromScriptJob = (model: ScriptJob): ScriptJobDto => ({
+  script_id: model.scriptId,
+  status: model.status,
+});
+
+export interface ScriptReviewRules {
+  speakerConsistency?: boolean;
+  textContinuity?: boolean;
+  emotionAccuracy?: boolean;
+}
+
+export const toScriptReviewRules = (dto: ScriptReviewRulesDto): ScriptReviewRules => ({
+  speakerConsistency: dto.speaker_consistency,
+  textContinuity: dto.text_continuity,
+  emotionAccuracy: dto.emotion_accuracy,
+});
+
+export const fromScriptReviewRules = (model: ScriptReviewRules): ScriptReviewRulesDto => ({
+  speaker_consistency: model.speakerConsistency,
+  text_continuity: model.textContinuity,
+  emotion_accuracy: model.emotionAccuracy,
+});
+
+export interface ScriptReviewRequest {
+  autoFix?: boolean;
+  checkRules?: ScriptReviewRules;
+}
+
+export const toScriptReviewRequest = (dto: ScriptReviewRequestDto): ScriptReviewRequest => ({
+  autoFix: dto.auto_fix,
+  checkRules: dto.check_rules && toScriptReviewRules(dto.check_rules),
+});
+
+export const fromScriptReviewRequest = (model: ScriptReviewRequest): ScriptReviewRequestDto => ({
+  auto_fix: model.autoFix,
+  check_rules: model.checkRules && fromScriptReviewRules(model.checkRules),
+});
+
+export interface ScriptStatus {
+  id: string;
+  projectId: string;
+  status: string;
+  entriesCount: number;
+  speakers: string[];
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+export const toScriptStatus = (dto: ScriptStatusDto): ScriptStatus => ({
+  id: dto.id,
+  projectId: dto.project_id,
+  status: dto.status,
+  entriesCount: dto.entries_count,
+  speakers: dto.speakers,
+  errorMessage: dto.error_message,
+  createdAt: dto.created_at,
+});
+
+export const fromScriptStatus = (model: ScriptStatus): ScriptStatusDto => ({
+  id: model.id,
+  project_id: model.projectId,
+  status: model.status,
+  entries_count: model.entriesCount,
+  speakers: model.speakers,
+  error_message: model.errorMessage,
+  created_at: model.createdAt,
+});
+
+export interface ScriptUpdate {
+  content: ScriptEntry[];
+}
+
+export const toScriptUpdate = (dto: ScriptUpdateDto): ScriptUpdate => ({
+  content: dto.content.map(toScriptEntry),
+});
+
+export const fromScriptUpdate = (model: ScriptUpdate): ScriptUpdateDto => ({
+  content: model.content.map(fromScriptEntry),
+});
+
+export interface Task {
+  taskId: string;
+}
+
+export const toTask = (dto: TaskDto): Task => ({
+  taskId: dto.task_id,
+});
+
+export const fromTask = (model: Task): TaskDto => ({
+  task_id: model.taskId,
+});
+
+export interface Thought {
+  id: string;
+  userId: string;
+  bookId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  bookTitle?: string;
+  bookAuthor?: string;
+  bookCoverUrl?: string;
+}
+
+export const toThought = (dto: ThoughtDto): Thought => ({
+  id: dto.id,
+  userId: dto.user_id,
+  bookId: dto.book_id,
+  content: dto.content,
+  createdAt: dto.created_at,
+  updatedAt: dto.updated_at,
+  bookTitle: dto.book_title,
+  bookAuthor: dto.book_author,
+  bookCoverUrl: dto.book_cover_url,
+});
+
+export const fromThought = (model: Thought): ThoughtDto => ({
+  id: model.id,
+  user_id: model.userId,
+  book_id: model.bookId,
+  content: model.content,
+  created_at: model.createdAt,
+  updated_at: model.updatedAt,
+  book_title: model.bookTitle,
+  book_author: model.bookAuthor,
+  book_cover_url: model.bookCoverUrl,
+});
+
+export interface ThoughtCreate {
+  bookId: string;
+  content: string;
+}
+
+export const toThoughtCreate = (dto: ThoughtCreateDto): ThoughtCreate => ({
+  bookId: dto.book_id,
+  content: dto.content,
+});
+
+export const fromThoughtCreate = (model: ThoughtCreate): ThoughtCreateDto => ({
+  book_id: model.bookId,
+  content: model.content,
+});
+
+export interface ThoughtUpdate {
+  content: string;
+}
+
+export const toThoughtUpdate = (dto: ThoughtUpdateDto): ThoughtUpdate => ({
+  content: dto.content,
+});
+
+export const fromThoughtUpdate = (model: ThoughtUpdate): ThoughtUpdateDto => ({
+  content: model.content,
+});
@@ -0,0 +1,535 @@
+/**
+ * Generated by scripts/generate-api.mjs from openapi/openapi.json and openapi/overlays/.
+ * Do not edit by hand: run `npm run api:generate` instead.
+ */
+import { z } from "zod";
+import { type InferSchema } from "../validation";
+
+export const apiErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().nullish(),
+});
+
+export type ApiErrorDto = InferSchema<typeof apiErrorSchema>;
+
+export const audioExportSchema = z.object({
+  format: z.string(),
+  audio_url: z.string().nullish(),
+  download_url: z.string().nullish(),
+  filename: z.string().nullish(),
+  chunks_count: z.number().nullish(),
+  duration: z.number().nullish(),
+  message: z.string(),
+});
+
+export type AudioExportDto = InferSchema<typeof audioExportSchema>;
+
+export const batchGenerateRequestSchema = z.object({
+  chunk_ids: z.array(z.string()),
+  mode: z.enum(["parallel", "sequential"]).nullish(),
+  workers: z.number().nullish(),
+});
+
+export type BatchGenerateRequestDto = InferSchema<typeof batchGenerateRequestSchema>;
+
+/** Exact place in a book: the block on screen and the character within it, and when and where the reader was there */
+export const readingPositionSchema = z.object({
+  chapter: z.string().nullish(),
+  block: z.number(),
+  offset: z.number(),
+  audio_time: z.number().nullish(),
+  device: z.string().nullish(),
+  updated_at: z.string().nullish(),
+});
+
+export type ReadingPositionDto = InferSchema<typeof readingPositionSchema>;
+
+export const bookSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  title: z.string(),
+  author: z.string().nullish(),
+  cover_url: z.string().nullish(),
+  file_type: z.enum(["txt", "pdf", "epub"]),
+  total_pages: z.number().nullish(),
+  total_chars: z.number().nullish(),
+  progress: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  projects: z.array(z.unknown()).nullish(),
+  tags: z.array(z.string()).nullish(),
+  collection_ids: z.array(z.string()).nullish(),
+  last_opened_at: z.string().nullish(),
+  audio_ready: z.boolean().nullish(),
+  file_hash: z.string().nullish(),
+  position: readingPositionSchema.nullish(),
+});
+
+export type BookDto = InferSchema<typeof bookSchema>;
+
+export const bookChapterSchema = z.object({
+  index: z.number(),
+  title: z.string(),
+  offset: z.number(),
+  level: z.number().nullish(),
+});
+
+export type BookChapterDto = InferSchema<typeof bookChapterSchema>;
+
+export const bookChaptersUpdateSchema = z.object({
+  chapters: z.array(bookChapterSchema),
+});
+
+export type BookChaptersUpdateDto = InferSchema<typeof bookChaptersUpdateSchema>;
+
+export const bookContentMetadataSchema = z.object({
+  title: z.string(),
+  author: z.string().nullish(),
+  total_chars: z.number(),
+});
+
+export type BookContentMetadataDto = InferSchema<typeof bookContentMetadataSchema>;
+
+export const bookPageSchema = z.object({
+  page_number: z.number(),
+  label: z.string(),
+  offset: z.number(),
+});
+
+export type BookPageDto = InferSchema<typeof bookPageSchema>;
+
+export const bookContentSchema = z.object({
+  content: z.string(),
+  chapters: z.array(bookChapterSchema),
+  metadata: bookContentMetadataSchema,
+  pages: z.array(bookPageSchema).nullish(),
+});
+
+export type BookContentDto = InferSchema<typeof bookContentSchema>;
+
+/** A book already in the library that looks like the one being uploaded */
+export const bookDuplicateSchema = z.object({
+  book: bookSchema,
+  same_file: z.boolean(),
+  similarity: z.number(),
+});
+
+export type BookDuplicateDto = InferSchema<typeof bookDuplicateSchema>;
+
+/** Fingerprints of a book about to be uploaded */
+export const bookDuplicateQuerySchema = z.object({
+  file_hash: z.string().nullish(),
+  text_signature: z.array(z.number()).nullish(),
+});
+
+export type BookDuplicateQueryDto = InferSchema<typeof bookDuplicateQuerySchema>;
+
+export const bookUpdateSchema = z.object({
+  title: z.string().nullish(),
+  author: z.string().nullish(),
+  cover_url: z.string().nullish(),
+  progress: z.number().nullish(),
+  tags: z.array(z.string()).nullish(),
+  collection_ids: z.array(z.string()).nullish(),
+  position: readingPositionSchema.nullish(),
+});
+
+export type BookUpdateDto = InferSchema<typeof bookUpdateSchema>;
+
+/** A saved place in a book, with the narration time there when the book has audio */
+export const bookmarkSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  book_id: z.string(),
+  chapter: z.string().nullish(),
+  block: z.number(),
+  offset: z.number(),
+  label: z.string().nullish(),
+  excerpt: z.string(),
+  audio_time: z.number().nullish(),
+  created_at: z.string(),
+});
+
+export type BookmarkDto = InferSchema<typeof bookmarkSchema>;
+
+export const bookmarkCreateSchema = z.object({
+  chapter: z.string().nullish(),
+  block: z.number(),
+  offset: z.number(),
+  label: z.string().nullish(),
+  excerpt: z.string().nullish(),
+  audio_time: z.number().nullish(),
+});
+
+export type BookmarkCreateDto = InferSchema<typeof bookmarkCreateSchema>;
+
+export const bookmarkUpdateSchema = z.object({
+  label: z.string().nullish(),
+});
+
+export type BookmarkUpdateDto = InferSchema<typeof bookmarkUpdateSchema>;
+
+export const chunkStatusSchema = z.enum(["pending", "processing", "completed", "failed"]);
+
+export type ChunkStatusDto = InferSchema<typeof chunkStatusSchema>;
+
+export const chunkSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  script_id: z.string(),
+  speaker: z.string(),
+  text: z.string(),
+  instruct: z.string().nullish(),
+  emotion: z.string().nullish(),
+  section: z.string().nullish(),
+  status: chunkStatusSchema,
+  audio_path: z.string().nullish(),
+  duration: z.number().nullish(),
+  start_time: z.number().nullish(),
+  end_time: z.number().nullish(),
+  order_index: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type ChunkDto = InferSchema<typeof chunkSchema>;
+
+export const chunkProgressSchema = z.object({
+  total: z.number(),
+  completed: z.number(),
+  processing: z.number(),
+  pending: z.number(),
+  percentage: z.number(),
+  estimated_time_remaining: z.number().nullable(),
+});
+
+export type ChunkProgressDto = InferSchema<typeof chunkProgressSchema>;
+
+export const chunkUpdateSchema = z.object({
+  text: z.string().nullish(),
+  instruct: z.string().nullish(),
+  speaker: z.string().nullish(),
+});
+
+export type ChunkUpdateDto = InferSchema<typeof chunkUpdateSchema>;
+
+/** A shelf of books the reader put together */
+export const collectionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  name: z.string(),
+  created_at: z.string(),
+});
+
+export type CollectionDto = InferSchema<typeof collectionSchema>;
+
+export const collectionBooksSchema = z.object({
+  book_ids: z.array(z.string()),
+});
+
+export type CollectionBooksDto = InferSchema<typeof collectionBooksSchema>;
+
+export const collectionCreateSchema = z.object({
+  name: z.string(),
+});
+
+export type CollectionCreateDto = InferSchema<typeof collectionCreateSchema>;
+
+export const collectionUpdateSchema = z.object({
+  name: z.string(),
+});
+
+export type CollectionUpdateDto = InferSchema<typeof collectionUpdateSchema>;
+
+export const deletedResponseSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type DeletedResponseDto = InferSchema<typeof deletedResponseSchema>;
+
+export const highlightColorSchema = z.enum(["yellow", "green", "blue", "pink"]);
+
+export type HighlightColorDto = InferSchema<typeof highlightColorSchema>;
+
+export const noteSchema = z.object({
+  id: z.string(),
+  highlight_id: z.string(),
+  content: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type NoteDto = InferSchema<typeof noteSchema>;
+
+export const highlightBookSchema = z.object({
+  title: z.string().nullish(),
+  author: z.string().nullish(),
+  cover_url: z.string().nullish(),
+});
+
+export type HighlightBookDto = InferSchema<typeof highlightBookSchema>;
+
+/** The highlighted text with the text around it, found again by matching (W3C Web Annotation TextQuoteSelector) */
+export const textQuoteSelectorSchema = z.object({
+  exact: z.string(),
+  prefix: z.string(),
+  suffix: z.string(),
+});
+
+export type TextQuoteSelectorDto = InferSchema<typeof textQuoteSelectorSchema>;
+
+/** Where the highlight was, in characters (W3C Web Annotation TextPositionSelector) */
+export const textPositionSelectorSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+});
+
+export type TextPositionSelectorDto = InferSchema<typeof textPositionSelectorSchema>;
+
+/** How to find a highlight again when the offsets no longer fit the text. Positions count from the start of the book's text, or for EPUBs of the highlight's chapter */
+export const highlightSelectorSchema = z.object({
+  quote: textQuoteSelectorSchema,
+  position: textPositionSelectorSchema,
+});
+
+export type HighlightSelectorDto = InferSchema<typeof highlightSelectorSchema>;
+
+export const highlightSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  book_id: z.string(),
+  chunk_id: z.string().nullish(),
+  text: z.string(),
+  color: highlightColorSchema,
+  start_offset: z.number(),
+  end_offset: z.number(),
+  chapter: z.string().nullish(),
+  note: noteSchema.nullish(),
+  created_at: z.string(),
+  book: highlightBookSchema.nullish(),
+  selector: highlightSelectorSchema.nullish(),
+});
+
+export type HighlightDto = InferSchema<typeof highlightSchema>;
+
+export const highlightCreateSchema = z.object({
+  text: z.string(),
+  color: highlightColorSchema,
+  start_offset: z.number(),
+  end_offset: z.number(),
+  chapter: z.string().nullish(),
+  chunk_id: z.string().nullish(),
+  note: z.string().nullish(),
+  selector: highlightSelectorSchema.nullish(),
+});
+
+export type HighlightCreateDto = InferSchema<typeof highlightCreateSchema>;
+
+/** Change a highlight's color, or move it: the new text, offsets, chapter and selector replace the old ones */
+export const highlightUpdateSchema = z.object({
+  color: highlightColorSchema.nullish(),
+  text: z.string().nullish(),
+  start_offset: z.number().nullish(),
+  end_offset: z.number().nullish(),
+  chapter: z.string().nullish(),
+  selector: highlightSelectorSchema.nullish(),
+});
+
+export type HighlightUpdateDto = InferSchema<typeof highlightUpdateSchema>;
+
+export const mergeAudioRequestSchema = z.object({
+  pause_between_speakers: z.number().nullish(),
+  pause_same_speaker: z.number().nullish(),
+  output_format: z.enum(["mp3", "wav"]).nullish(),
+  bitrate: z.string().nullish(),
+});
+
+export type MergeAudioRequestDto = InferSchema<typeof mergeAudioRequestSchema>;
+
+export const noteUpdateSchema = z.object({
+  content: z.string(),
+});
+
+export type NoteUpdateDto = InferSchema<typeof noteUpdateSchema>;
+
+export const projectStatusSchema = z.enum(["draft", "processing", "completed", "failed"]);
+
+export type ProjectStatusDto = InferSchema<typeof projectStatusSchema>;
+
+export const projectConfigSchema = z.object({
+  tts_mode: z.string(),
+  tts_url: z.string().nullish(),
+  language: z.string(),
+  parallel_workers: z.number().nullish(),
+});
+
+export type ProjectConfigDto = InferSchema<typeof projectConfigSchema>;
+
+export const projectProgressSchema = z.object({
+  total_chunks: z.number(),
+  completed_chunks: z.number(),
+  percentage: z.number(),
+});
+
+export type ProjectProgressDto = InferSchema<typeof projectProgressSchema>;
+
+export const projectSchema = z.object({
+  id: z.string(),
+  book_id: z.string(),
+  book_title: z.string().nullish(),
+  name: z.string(),
+  description: z.string().nullish(),
+  status: projectStatusSchema,
+  config: projectConfigSchema,
+  audio_path: z.string().nullish(),
+  duration: z.number().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  progress: projectProgressSchema.nullish(),
+});
+
+export type ProjectDto = InferSchema<typeof projectSchema>;
+
+export const projectAudioSchema = z.object({
+  audio_url: z.string(),
+  duration: z.number(),
+  file_size: z.number().nullable(),
+  format: z.string(),
+  bitrate: z.string().nullable(),
+});
+
+export type ProjectAudioDto = InferSchema<typeof projectAudioSchema>;
+
+export const projectConfigUpdateSchema = z.object({
+  tts_mode: z.string().nullish(),
+  tts_url: z.string().nullish(),
+  language: z.string().nullish(),
+  parallel_workers: z.number().nullish(),
+});
+
+export type ProjectConfigUpdateDto = InferSchema<typeof projectConfigUpdateSchema>;
+
+export const projectCreateSchema = z.object({
+  book_id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  config: projectConfigSchema.nullish(),
+});
+
+export type ProjectCreateDto = InferSchema<typeof projectCreateSchema>;
+
+export const projectUpdateSchema = z.object({
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  config: projectConfigUpdateSchema.nullish(),
+});
+
+export type ProjectUpdateDto = InferSchema<typeof projectUpdateSchema>;
+
+export const scriptEntrySchema = z.object({
+  index: z.number(),
+  speaker: z.string(),
+  text: z.string(),
+  instruct: z.string().nullish(),
+  emotion: z.string().nullish(),
+  section: z.string().nullish(),
+});
+
+export type ScriptEntryDto = InferSchema<typeof scriptEntrySchema>;
+
+export const scriptContentSchema = z.object({
+  content: z.array(scriptEntrySchema),
+});
+
+export type ScriptContentDto = InferSchema<typeof scriptContentSchema>;
+
+export const scriptGenerateSettingsSchema = z.object({
+  max_chunk_size: z.number().nullish(),
+  detect_emotions: z.boolean().nullish(),
+  detect_sections: z.boolean().nullish(),
+});
+
+export type ScriptGenerateSettingsDto = InferSchema<typeof scriptGenerateSettingsSchema>;
+
+export const scriptGenerateRequestSchema = z.object({
+  system_prompt: z.string().nullish(),
+  user_prompt: z.string().nullish(),
+  options: scriptGenerateSettingsSchema.nullish(),
+  source_text: z.string().nullish(),
+});
+
+export type ScriptGenerateRequestDto = InferSchema<typeof scriptGenerateRequestSchema>;
+
+export const scriptJobSchema = z.object({
+  script_id: z.string(),
+  status: z.string(),
+});
+
+export type ScriptJobDto = InferSchema<typeof scriptJobSchema>;
+
+export const scriptReviewRulesSchema = z.object({
+  speaker_consistency: z.boolean().nullish(),
+  text_continuity: z.boolean().nullish(),
+  emotion_accuracy: z.boolean().nullish(),
+});
+
+export type ScriptReviewRulesDto = InferSchema<typeof scriptReviewRulesSchema>;
+
+export const scriptReviewRequestSchema = z.object({
+  auto_fix: z.boolean().nullish(),
+  check_rules: scriptReviewRulesSchema.nullish(),
+});
+
+export type ScriptReviewRequestDto = InferSchema<typeof scriptReviewRequestSchema>;
+
+export const scriptStatusSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  status: z.string(),
+  entries_count: z.number(),
+  speakers: z.array(z.string()),
+  error_message: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type ScriptStatusDto = InferSchema<typeof scriptStatusSchema>;
+
+export const scriptUpdateSchema = z.object({
+  content: z.array(scriptEntrySchema),
+});
+
+export type ScriptUpdateDto = InferSchema<typeof scriptUpdateSchema>;
+
+export const taskSchema = z.object({
+  task_id: z.string(),
+});
+
+export type TaskDto = InferSchema<typeof taskSchema>;
+
+export const thoughtSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  book_id: z.string(),
+  content: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  book_title: z.string().nullish(),
+  book_author: z.string().nullish(),
+  book_cover_url: z.string().nullish(),
+});
+
+export type ThoughtDto = InferSchema<typeof thoughtSchema>;
+
+export const thoughtCreateSchema = z.object({
+  book_id: z.string(),
+  content: z.string(),
+});
+
+export type ThoughtCreateDto = InferSchema<typeof thoughtCreateSchema>;
+
+export const thoughtUpdateSchema = z.object({
+  content: z.string(),
+});
+
+export type ThoughtUpdateDto = InferSchema<typeof thoughtUpdateSchema>;
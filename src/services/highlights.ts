@@ -1,87 +1,67 @@
 /**
  * Highlights and Notes API Service
  */
-import { apiClient, ApiResponse } from "./api";
+import { ApiResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type { HighlightCreateDto, HighlightDto, HighlightUpdateDto, NoteDto } from "./generated/schemas";
 
-export interface Highlight {
-  id: string;
-  user_id: string;
-  book_id: string;
-  chunk_id?: string;
-  text: string;
-  color: "yellow" | "green" | "blue" | "pink";
-  start_offset: number;
-  end_offset: number;
-  chapter?: string;
-  note?: Note;
-  created_at: string;
-}
+export { highlightSchema, noteSchema } from "./generated/schemas";
 
-export interface HighlightCreate {
-  text: string;
-  color: "yellow" | "green" | "blue" | "pink";
-  start_offset: number;
-  end_offset: number;
-  chapter?: string;
-  chunk_id?: string;
-  note?: string;
-}
-
-export interface Note {
-  id: string;
-  highlight_id: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
+export type Note = NoteDto;
+export type Highlight = HighlightDto;
+export type HighlightCreate = HighlightCreateDto;
+export type HighlightUpdate = HighlightUpdateDto;
 
 export const highlightsApi = {
   // Get all highlights across all books
-  getAll: async (): Promise<ApiResponse<Highlight[]>> => {
-    return apiClient.get("/highlights");
+  getAll: async (signal?: AbortSignal): Promise<ApiResponse<Highlight[]>> => {
+    return endpoints.listAllHighlights({ signal });
   },
 
   // Get highlights for a book
   getBookHighlights: async (
     bookId: string,
-    params: {
-      color?: string;
-      chapter?: string;
-    } = {}
+    params: endpoints.ListBookHighlightsParams = {},
+    signal?: AbortSignal
   ): Promise<ApiResponse<Highlight[]>> => {
-    return apiClient.get(`/highlights/${bookId}`, params);
+    return endpoints.listBookHighlights(bookId, params, { signal });
   },
 
   // Create highlight
-  create: async (bookId: string, data: HighlightCreate): Promise<ApiResponse<Highlight>> => {
-    return apiClient.post(`/highlights/${bookId}`, data);
+  create: async (bookId: string, data: HighlightCreate, signal?: AbortSignal): Promise<ApiResponse<Highlight>> => {
+    return endpoints.createHighlight(bookId, data, { signal });
   },
 
-  // Update highlight
+  // Update highlight: recolor it, or move it onto other text
   update: async (
     highlightId: string,
-    data: { color?: "yellow" | "green" | "blue" | "pink" }
+    data: HighlightUpdate,
+    signal?: AbortSignal
   ): Promise<ApiResponse<Highlight>> => {
-    return apiClient.patch(`/highlights/highlights/${highlightId}`, data);
+    return endpoints.updateHighlight(highlightId, data, { signal });
   },
 
   // Delete highlight
-  delete: async (highlightId: string): Promise<ApiResponse<{ deleted: boolean }>> => {
-    return apiClient.delete(`/highlights/highlights/${highlightId}`);
+  delete: async (highlightId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteHighlight(highlightId, { signal });
   },
 
   // Set note for highlight
-  setNote: async (highlightId: string, content: string): Promise<ApiResponse<Note>> => {
-    return apiClient.put(`/highlights/highlights/${highlightId}/note`, { content });
+  setNote: async (highlightId: string, content: string, signal?: AbortSignal): Promise<ApiResponse<Note>> => {
+    return endpoints.setHighlightNote(highlightId, { content }, { signal });
   },
 
   // Delete note
-  deleteNote: async (highlightId: string): Promise<ApiResponse<{ deleted: boolean }>> => {
-    return apiClient.delete(`/highlights/highlights/${highlightId}/note`);
+  deleteNote: async (highlightId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteHighlightNote(highlightId, { signal });
   },
 
   // Export notes
-  exportNotes: async (bookId: string, format: "json" | "markdown" | "csv" = "markdown"): Promise<void> => {
-    return apiClient.download(`/highlights/${bookId}/notes/export?format=${format}`);
+  exportNotes: async (
+    bookId: string,
+    format: "json" | "markdown" | "csv" = "markdown",
+    signal?: AbortSignal
+  ): Promise<void> => {
+    return endpoints.exportNotes(bookId, { format }, undefined, { signal });
   },
 };
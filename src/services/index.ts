@@ -1,19 +1,49 @@
 /**
  * Services - API exports
  */
-export { apiClient, ApiClient, type ApiResponse, type PaginatedResponse } from "./api";
-export { booksApi, type Book, type BookCreate, type BookUpdate, type BookListParams, type BookContentResponse } from "./books";
+export { apiClient, ApiClient, isRequestCanceled, type ApiResponse, type PaginatedResponse, type RequestOptions } from "./api";
+export { ApiValidationError, validateResponse } from "./validation";
+export {
+  booksApi,
+  type Book,
+  type BookCreate,
+  type BookUpdate,
+  type BookListParams,
+  type BookContentResponse,
+  type BookDuplicate,
+} from "./books";
+export { editionsService, type EditionReport } from "./editions";
 export { projectsApi, type Project, type ProjectCreate, type ProjectUpdate, type ProjectConfig, type ProjectProgress } from "./projects";
 export { scriptsApi, type ScriptEntry, type ScriptGenerateOptions, type ScriptReviewOptions } from "./scripts";
 export { audioApi, type Chunk, type ChunkUpdate } from "./audio";
 export { voicesApi, type Voice, type VoiceConfig } from "./voices";
-export { highlightsApi, type Highlight, type HighlightCreate, type Note } from "./highlights";
+export { highlightsApi, type Highlight, type HighlightCreate, type HighlightUpdate, type Note } from "./highlights";
+export { bookmarksApi, type Bookmark, type BookmarkCreate, type BookmarkUpdate } from "./bookmarks";
+export { collectionsApi, type Collection, type CollectionCreate, type CollectionUpdate } from "./collections";
+export { searchApi, type LibraryHit, type LibraryPassage, type LibrarySearchParams } from "./search";
+export { backupService, BackupError, type BackupProgress, type LibraryBackup, type RestorePlan, type RestoreResult } from "./backup";
 export { thoughtsApi, type Thought, type ThoughtCreate, type ThoughtUpdate, type ThoughtListParams } from "./thoughts";
 export { authService, type User, type LoginRequest, type RegisterRequest, type AuthResponse } from "./auth";
+export { session, getTokenExpiry, type SessionTokens } from "./session";
+export { requestTracer, TRACE_SOURCE, type TraceLevel } from "./tracing";
 export { voiceStylingApi, type EmotionParameters, type EmotionPreset, type VoiceStyle, type VoiceStylingRequest } from "./voiceStyling";
 export { ragApi, type DocumentIngestRequest, type DocumentIngestResponse, type QueryRequest, type QueryResponse, type Citation, type WebResult, type RAGStats, type RAGDocument } from "./rag";
 export { qwenTtsApi, type SpeechGenerationRequest, type SpeechGenerationResponse, type VoiceInfo, type LanguageInfo, type TTSInfo } from "./qwenTts";
-export { websocketService, ProjectWebSocket, type ProgressMessage, type ProgressCallback } from "./websocket";
+export { configApi, type SystemConfig, type SystemConfigUpdate, type DefaultPrompts } from "./config";
+export { systemApi, type SystemStatus } from "./system";
+export { loraApi, type TrainingRequirements, type TrainingProgress, type TrainingStatus, type TrainingRequest, type TrainingJob, type DatasetFile, type DatasetSample } from "./lora";
+export { uploadsApi, uploadResumable, UploadController, type UploadPurpose, type UploadProgress, type UploadState } from "./uploads";
+export { uploadSessions, type StoredUploadSession } from "./uploadSessions";
+export {
+  ingestBook,
+  IngestionError,
+  UPLOAD_STEPS,
+  type UploadStep,
+  type IngestionOptions,
+  type IngestionResult,
+  type DuplicateChoice,
+} from "./uploadApi";
+export { websocketService, ProjectWebSocket, type ProgressMessage, type ProgressCallback, type TokenProvider } from "./websocket";
 export { emotionPresetsService as emotionPresetsApi, emotionPresetsService, type ScenarioPreset } from "./emotionPresets";
 
 // New advanced audio services
@@ -81,6 +111,8 @@ export type {
   QualityScoreRequest,
   QualityScoreResponse,
   QualityMetrics,
+  QualityAssessRequest,
+  QualityAssessment,
 } from "./voiceAdvanced";
 
 export type {
@@ -0,0 +1,164 @@
+/**
+ * LoRA Training API Service
+ */
+import { z } from "zod";
+import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
+import {
+  combineProgress,
+  uploadResumable,
+  type UploadController,
+  type UploadProgress,
+} from "./uploads";
+
+// 字段与后端 /api/lora/requirements 返回的结构对齐
+export const trainingRequirementsSchema = z.object({
+  min_samples: z.number(),
+  recommended_samples: z.number(),
+  min_duration_per_sample: z.number(),
+  recommended_duration_per_sample: z.number(),
+  total_min_duration: z.number(),
+  recommended_total_duration: z.number(),
+  supported_formats: z.array(z.string()),
+  sample_rate: z.number(),
+  hardware: z
+    .object({
+      min_memory_gb: z.number(),
+      recommended_memory_gb: z.number(),
+      gpu_required: z.boolean(),
+      gpu_memory_gb: z.number(),
+    })
+    .nullish(),
+});
+
+export type TrainingRequirements = InferSchema<typeof trainingRequirementsSchema>;
+
+export const trainingStatusSchema = z.enum(["idle", "preparing", "training", "completed", "failed", "cancelled"]);
+
+export type TrainingStatus = z.infer<typeof trainingStatusSchema>;
+
+// The backend reports partial progress while a job is still being prepared
+export const trainingProgressSchema = z.object({
+  status: trainingStatusSchema.nullish(),
+  current_epoch: z.number().nullish(),
+  total_epochs: z.number().nullish(),
+  loss: z.number().nullish(),
+  learning_rate: z.number().nullish(),
+  elapsed_time: z.number().nullish(),
+  estimated_time_remaining: z.number().nullish(),
+  checkpoint_path: z.string().nullish(),
+  error: z.string().nullish(),
+});
+
+export type TrainingProgress = InferSchema<typeof trainingProgressSchema>;
+
+const trainingJobSchema = z.object({
+  message: z.string().nullish(),
+});
+
+export type TrainingJob = InferSchema<typeof trainingJobSchema>;
+
+export const datasetSampleSchema = z.object({
+  sample_id: z.string(),
+  filename: z.string(),
+  split: z.enum(["training", "validation"]),
+  duration: z.number().nullish(),
+});
+
+export type DatasetSample = InferSchema<typeof datasetSampleSchema>;
+
+export interface DatasetFile {
+  file: File;
+  split: DatasetSample["split"];
+}
+
+export interface TrainingRequest {
+  voice_name: string;
+  num_epochs: number;
+  batch_size: number;
+  learning_rate: number;
+}
+
+export const loraApi = {
+  // Get dataset and hardware requirements for training
+  getRequirements: async (signal?: AbortSignal): Promise<ApiResponse<TrainingRequirements>> => {
+    return validateResponse(
+      apiClient.get("/lora/requirements", undefined, { signal }),
+      trainingRequirementsSchema,
+      "GET /lora/requirements"
+    );
+  },
+
+  // Get training progress for a project
+  getProgress: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<TrainingProgress>> => {
+    return validateResponse(
+      apiClient.get(`/lora/projects/${projectId}/progress`, undefined, { signal }),
+      trainingProgressSchema,
+      "GET /lora/projects/:id/progress"
+    );
+  },
+
+  // Upload dataset audio one file at a time, reporting progress over all of them
+  uploadDataset: async (
+    projectId: string,
+    files: DatasetFile[],
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    controller?: UploadController
+  ): Promise<ApiResponse<DatasetSample[]>> => {
+    const parts: UploadProgress[] = files.map(({ file }) => ({
+      state: "uploading",
+      loaded: 0,
+      total: file.size,
+      percent: 0,
+      uploadedChunks: 0,
+      totalChunks: 0,
+    }));
+    const samples: DatasetSample[] = [];
+    for (const [index, { file, split }] of files.entries()) {
+      const response = await uploadResumable(file, {
+        purpose: "lora_dataset",
+        fields: { project_id: projectId, split },
+        schema: datasetSampleSchema,
+        onProgress: (progress) => {
+          parts[index] = progress;
+          onProgress?.(combineProgress(parts));
+        },
+        signal,
+        controller,
+      });
+      if (!response.success) {
+        return { success: false, error: response.error };
+      }
+      samples.push(response.data);
+    }
+    return { success: true, data: samples };
+  },
+
+  // Start training on the project's generated audio and uploaded dataset
+  startTraining: async (
+    projectId: string,
+    request: TrainingRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TrainingJob>> => {
+    return validateResponse(
+      apiClient.post(`/lora/projects/${projectId}/train`, request, { signal, idempotencyKey: true }),
+      trainingJobSchema,
+      "POST /lora/projects/:id/train"
+    );
+  },
+
+  // Cancel a running training job
+  cancelTraining: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<TrainingJob>> => {
+    return validateResponse(
+      apiClient.post(`/lora/projects/${projectId}/cancel`, undefined, { signal }),
+      trainingJobSchema,
+      "POST /lora/projects/:id/cancel"
+    );
+  },
+
+  // Download the trained checkpoint
+  downloadCheckpoint: async (projectId: string, filename?: string, signal?: AbortSignal): Promise<void> => {
+    return apiClient.download(`/lora/projects/${projectId}/checkpoint/download`, filename, { signal });
+  },
+};
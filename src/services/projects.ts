@@ -1,88 +1,65 @@
 /**
  * Projects API Service
  */
-import { apiClient, ApiResponse, PaginatedResponse } from "./api";
+import { ApiResponse, PaginatedResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type {
+  ChunkProgressDto,
+  ProjectConfigDto,
+  ProjectCreateDto,
+  ProjectDto,
+  ProjectProgressDto,
+  ProjectUpdateDto,
+} from "./generated/schemas";
 
-export interface ProjectConfig {
-  tts_mode: string;
-  tts_url?: string;
-  language: string;
-  parallel_workers?: number;
-}
+export { projectSchema, projectConfigSchema, projectProgressSchema } from "./generated/schemas";
 
-export interface Project {
-  id: string;
-  book_id: string;
-  book_title?: string;
-  name: string;
-  description?: string;
-  status: "draft" | "processing" | "completed" | "failed";
-  config: ProjectConfig;
-  audio_path?: string;
-  duration?: number;
-  created_at: string;
-  updated_at: string;
-  progress?: {
-    total_chunks: number;
-    completed_chunks: number;
-    percentage: number;
-  };
-}
-
-export interface ProjectCreate {
-  book_id: string;
-  name: string;
-  description?: string;
-  config?: ProjectConfig;
-}
-
-export interface ProjectUpdate {
-  name?: string;
-  description?: string;
-  config?: Partial<ProjectConfig>;
-}
-
-export interface ProjectProgress {
-  total_chunks: number;
-  completed_chunks: number;
-  percentage: number;
-}
+export type ProjectConfig = ProjectConfigDto;
+export type ProjectProgress = ProjectProgressDto;
+export type Project = ProjectDto;
+export type ProjectCreate = ProjectCreateDto;
+export type ProjectUpdate = ProjectUpdateDto;
 
 export const projectsApi = {
   // List projects
   list: async (
-    params: { book_id?: string; status?: string; page?: number; page_size?: number } = {}
+    params: endpoints.ListProjectsParams = {},
+    signal?: AbortSignal
   ): Promise<ApiResponse<PaginatedResponse<Project>>> => {
-    return apiClient.get("/projects", params);
+    return endpoints.listProjects(params, { signal });
   },
 
   // Get project details
-  get: async (projectId: string): Promise<ApiResponse<Project>> => {
-    return apiClient.get(`/projects/${projectId}`);
+  get: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<Project>> => {
+    return endpoints.getProject(projectId, { signal });
   },
 
   // Create project
-  create: async (data: ProjectCreate): Promise<ApiResponse<Project>> => {
-    return apiClient.post("/projects", data);
+  create: async (data: ProjectCreate, signal?: AbortSignal): Promise<ApiResponse<Project>> => {
+    return endpoints.createProject(data, { signal });
   },
 
   // Update project
-  update: async (projectId: string, data: ProjectUpdate): Promise<ApiResponse<Project>> => {
-    return apiClient.patch(`/projects/${projectId}`, data);
+  update: async (projectId: string, data: ProjectUpdate, signal?: AbortSignal): Promise<ApiResponse<Project>> => {
+    return endpoints.updateProject(projectId, data, { signal });
   },
 
   // Delete project
-  delete: async (projectId: string): Promise<ApiResponse<{ deleted: boolean }>> => {
-    return apiClient.delete(`/projects/${projectId}`);
+  delete: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteProject(projectId, { signal });
   },
 
   // Get generation progress
-  getProgress: async (projectId: string): Promise<ApiResponse<ProjectProgress>> => {
-    return apiClient.get(`/projects/${projectId}/chunks/progress`);
+  getProgress: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<ChunkProgressDto>> => {
+    return endpoints.getChunkProgress(projectId, { signal });
   },
 
   // Download audio
-  downloadAudio: async (projectId: string, format: "mp3" | "wav" | "zip" = "mp3"): Promise<void> => {
-    return apiClient.download(`/projects/${projectId}/audio/download?format=${format}`);
+  downloadAudio: async (
+    projectId: string,
+    format: "mp3" | "wav" | "zip" = "mp3",
+    signal?: AbortSignal
+  ): Promise<void> => {
+    return endpoints.downloadProjectAudio(projectId, { format }, undefined, { signal });
   },
 };
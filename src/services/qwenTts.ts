@@ -3,7 +3,9 @@
  * Production-ready TTS for Apple Silicon with MPS acceleration
  */
 
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validatePayload, validateResponse } from "./validation";
 
 export interface SpeechGenerationRequest {
   text: string;
@@ -12,59 +14,74 @@ export interface SpeechGenerationRequest {
   voice_id?: string;
 }
 
-export interface SpeechGenerationResponse {
-  audio_url: string;
-  sample_rate: number;
-  duration: number;
-  format: string;
-  model: string;
-  device: string;
-  message: string;
-}
-
-export interface VoiceInfo {
-  id: string;
-  name: string;
-  language: string;
-}
-
-export interface LanguageInfo {
-  language_code: string;
-  language_name: string;
-  sample_rate: number;
-  model_type: string;
-}
-
-export interface VoiceCloneResult {
-  voice_id: string;
-  voice_name: string;
-  sample_count: number;
-  status: string;
-  message: string;
-}
-
-export interface TTSInfo {
-  model: string;
-  device: string;
-  sample_rate: number;
-  available_models: string[];
-  mps_info: {
-    device: string;
-    available: boolean;
-    system_memory_gb?: number;
-    available_memory_gb?: number;
-  };
-}
+export const speechGenerationResponseSchema = z.object({
+  audio_url: z.string(),
+  sample_rate: z.number(),
+  duration: z.number(),
+  format: z.string(),
+  model: z.string(),
+  device: z.string(),
+  message: z.string(),
+});
+
+export type SpeechGenerationResponse = InferSchema<typeof speechGenerationResponseSchema>;
+
+export const voiceInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  language: z.string(),
+});
+
+export type VoiceInfo = InferSchema<typeof voiceInfoSchema>;
+
+export const languageInfoSchema = z.object({
+  language_code: z.string(),
+  language_name: z.string(),
+  sample_rate: z.number(),
+  model_type: z.string(),
+});
+
+export type LanguageInfo = InferSchema<typeof languageInfoSchema>;
+
+export const voiceCloneResultSchema = z.object({
+  voice_id: z.string(),
+  voice_name: z.string(),
+  sample_count: z.number(),
+  status: z.string(),
+  message: z.string(),
+});
+
+export type VoiceCloneResult = InferSchema<typeof voiceCloneResultSchema>;
+
+export const ttsInfoSchema = z.object({
+  model: z.string(),
+  device: z.string(),
+  sample_rate: z.number(),
+  available_models: z.array(z.string()),
+  mps_info: z.object({
+    device: z.string(),
+    available: z.boolean(),
+    system_memory_gb: z.number().nullish(),
+    available_memory_gb: z.number().nullish(),
+  }),
+});
+
+export type TTSInfo = InferSchema<typeof ttsInfoSchema>;
 
 export const qwenTtsApi = {
   /**
    * Generate speech from text using Edge TTS
    */
   generateSpeech: async (
-    request: SpeechGenerationRequest
+    request: SpeechGenerationRequest,
+    signal?: AbortSignal
   ): Promise<SpeechGenerationResponse> => {
     // apiClient的响应拦截器直接返回response.data
-    return apiClient.post("/qwen-tts/generate", request) as Promise<SpeechGenerationResponse>;
+    return validatePayload(
+      apiClient.post("/qwen-tts/generate", request, { signal }),
+      speechGenerationResponseSchema,
+      "POST /qwen-tts/generate"
+    );
   },
 
   /**
@@ -75,7 +92,8 @@ export const qwenTtsApi = {
     text: string,
     voiceSample?: File,
     emotion?: Record<string, number>,
-    speed: number = 1.0
+    speed: number = 1.0,
+    signal?: AbortSignal
   ): Promise<Blob> => {
     const formData = new FormData();
     formData.append("text", text);
@@ -90,6 +108,7 @@ export const qwenTtsApi = {
     const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/qwen-tts/generate-with-voice`, {
       method: "POST",
       body: formData,
+      signal,
       headers: {
         // Don't set Content-Type for FormData, browser will set it with boundary
       },
@@ -117,7 +136,8 @@ export const qwenTtsApi = {
   cloneVoice: async (
     voiceName: string,
     voiceSamples: File[],
-    description?: string
+    description?: string,
+    signal?: AbortSignal
   ): Promise<ApiResponse<VoiceCloneResult>> => {
     const formData = new FormData();
     formData.append("voice_name", voiceName);
@@ -128,27 +148,43 @@ export const qwenTtsApi = {
       formData.append("voice_samples", sample);
     });
 
-    return apiClient.upload("/qwen-tts/clone-voice", formData);
+    return validateResponse(
+      apiClient.upload("/qwen-tts/clone-voice", formData, undefined, { signal }),
+      voiceCloneResultSchema,
+      "POST /qwen-tts/clone-voice"
+    );
   },
 
   /**
    * Get list of available built-in voices
    */
-  getVoices: async (): Promise<ApiResponse<VoiceInfo[]>> => {
-    return apiClient.get("/qwen-tts/voices");
+  getVoices: async (signal?: AbortSignal): Promise<ApiResponse<VoiceInfo[]>> => {
+    return validateResponse(
+      apiClient.get("/qwen-tts/voices", undefined, { signal }),
+      z.array(voiceInfoSchema),
+      "GET /qwen-tts/voices"
+    );
   },
 
   /**
    * Get supported languages for TTS
    */
-  getLanguages: async (): Promise<ApiResponse<LanguageInfo[]>> => {
-    return apiClient.get("/qwen-tts/languages");
+  getLanguages: async (signal?: AbortSignal): Promise<ApiResponse<LanguageInfo[]>> => {
+    return validateResponse(
+      apiClient.get("/qwen-tts/languages", undefined, { signal }),
+      z.array(languageInfoSchema),
+      "GET /qwen-tts/languages"
+    );
   },
 
   /**
    * Get TTS service information
    */
-  getInfo: async (): Promise<ApiResponse<TTSInfo>> => {
-    return apiClient.get("/qwen-tts/info");
+  getInfo: async (signal?: AbortSignal): Promise<ApiResponse<TTSInfo>> => {
+    return validateResponse(
+      apiClient.get("/qwen-tts/info", undefined, { signal }),
+      ttsInfoSchema,
+      "GET /qwen-tts/info"
+    );
   },
 };
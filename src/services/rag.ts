@@ -3,7 +3,10 @@
  * Production-level document Q&A with citations and web search
  */
 
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
+import { uploadResumable, type UploadController, type UploadProgress } from "./uploads";
 
 export interface DocumentIngestRequest {
   text: string;
@@ -11,12 +14,14 @@ export interface DocumentIngestRequest {
   metadata?: Record<string, any>;
 }
 
-export interface DocumentIngestResponse {
-  doc_id: string;
-  chunk_count: number;
-  status: string;
-  message: string;
-}
+export const documentIngestResponseSchema = z.object({
+  doc_id: z.string(),
+  chunk_count: z.number(),
+  status: z.string(),
+  message: z.string(),
+});
+
+export type DocumentIngestResponse = InferSchema<typeof documentIngestResponseSchema>;
 
 export interface QueryRequest {
   question: string;
@@ -25,92 +30,126 @@ export interface QueryRequest {
   generate_answer?: boolean;
 }
 
-export interface Citation {
-  chunk_id: string;
-  content: string;
-  doc_id: string;
-  score: number;
-  metadata?: Record<string, any>;
-}
-
-export interface WebResult {
-  title: string;
-  url: string;
-  snippet: string;
-  score: number;
-}
-
-export interface QueryResponse {
-  question: string;
-  context: string;
-  citations: Citation[];
-  web_results: WebResult[];
-  answer?: string;
-  num_chunks: number;
-  num_web_results: number;
-}
-
-export interface RAGStats {
-  total_chunks: number;
-  total_documents: number;
-  embedding_model: string;
-  chunk_size: number;
-  chunk_overlap: number;
-  top_k: number;
-  web_search_enabled: boolean;
-}
-
-export interface RAGDocument {
-  doc_id: string;
-  chunk_count: number;
-  metadata?: Record<string, any>;
-}
+export const citationSchema = z.object({
+  chunk_id: z.string(),
+  content: z.string(),
+  doc_id: z.string(),
+  score: z.number(),
+  metadata: z.record(z.any()).nullish(),
+});
+
+export type Citation = InferSchema<typeof citationSchema>;
+
+export const webResultSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  snippet: z.string(),
+  score: z.number(),
+});
+
+export type WebResult = InferSchema<typeof webResultSchema>;
+
+export const queryResponseSchema = z.object({
+  question: z.string(),
+  context: z.string(),
+  citations: z.array(citationSchema),
+  web_results: z.array(webResultSchema),
+  answer: z.string().nullish(),
+  num_chunks: z.number(),
+  num_web_results: z.number(),
+});
+
+export type QueryResponse = InferSchema<typeof queryResponseSchema>;
+
+export const ragStatsSchema = z.object({
+  total_chunks: z.number(),
+  total_documents: z.number(),
+  embedding_model: z.string(),
+  chunk_size: z.number(),
+  chunk_overlap: z.number(),
+  top_k: z.number(),
+  web_search_enabled: z.boolean(),
+});
+
+export type RAGStats = InferSchema<typeof ragStatsSchema>;
+
+export const ragDocumentSchema = z.object({
+  doc_id: z.string(),
+  chunk_count: z.number(),
+  metadata: z.record(z.any()).nullish(),
+});
+
+export type RAGDocument = InferSchema<typeof ragDocumentSchema>;
 
 export const ragApi = {
   /**
    * Ingest a document into the RAG system
    */
   ingestDocument: async (
-    request: DocumentIngestRequest
+    request: DocumentIngestRequest,
+    signal?: AbortSignal
   ): Promise<ApiResponse<DocumentIngestResponse>> => {
-    return apiClient.post("/rag/ingest", request);
+    return validateResponse(
+      apiClient.post("/rag/ingest", request, { signal }),
+      documentIngestResponseSchema,
+      "POST /rag/ingest"
+    );
   },
 
   /**
-   * Ingest a file (TXT, MD) into the RAG system
+   * Ingest a file (TXT, MD) into the RAG system, uploaded in resumable chunks
    */
-  ingestFile: async (file: File): Promise<ApiResponse<DocumentIngestResponse>> => {
-    const formData = new FormData();
-    formData.append("file", file);
-
-    return apiClient.upload("/rag/ingest-file", formData);
+  ingestFile: async (
+    file: File,
+    signal?: AbortSignal,
+    onProgress?: (progress: UploadProgress) => void,
+    controller?: UploadController
+  ): Promise<ApiResponse<DocumentIngestResponse>> => {
+    return uploadResumable(file, {
+      purpose: "rag_document",
+      schema: documentIngestResponseSchema,
+      onProgress,
+      signal,
+      controller,
+    });
   },
 
   /**
    * Query the RAG system with a question
    */
-  query: async (request: QueryRequest): Promise<ApiResponse<QueryResponse>> => {
-    return apiClient.post("/rag/query", request);
+  query: async (request: QueryRequest, signal?: AbortSignal): Promise<ApiResponse<QueryResponse>> => {
+    return validateResponse(apiClient.post("/rag/query", request, { signal }), queryResponseSchema, "POST /rag/query");
   },
 
   /**
    * Delete a document from the RAG system
    */
-  deleteDocument: async (docId: string): Promise<ApiResponse<{ status: string; message: string }>> => {
-    return apiClient.delete("/rag/document", { data: { doc_id: docId } });
+  deleteDocument: async (
+    docId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ status: string; message: string }>> => {
+    return validateResponse(
+      apiClient.delete("/rag/document", { doc_id: docId }, { signal }),
+      z.object({ status: z.string(), message: z.string() }),
+      "DELETE /rag/document"
+    );
   },
 
   /**
    * Get RAG system statistics
    */
-  getStats: async (): Promise<ApiResponse<RAGStats>> => {
-    return apiClient.get("/rag/stats");
+  getStats: async (signal?: AbortSignal): Promise<ApiResponse<RAGStats>> => {
+    return validateResponse(apiClient.get("/rag/stats", undefined, { signal }), ragStatsSchema, "GET /rag/stats");
   },
 
   /**
    * List all documents in the RAG system
    */
-  listDocuments: async (): Promise<ApiResponse<RAGDocument[]>> => {
-    return apiClient.get("/rag/documents");
+  listDocuments: async (signal?: AbortSignal): Promise<ApiResponse<RAGDocument[]>> => {
+    return validateResponse(
+      apiClient.get("/rag/documents", undefined, { signal }),
+      z.array(ragDocumentSchema),
+      "GET /rag/documents"
+    );
   },
 };
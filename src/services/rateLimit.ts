@@ -1,72 +1,88 @@
 /**
  * Rate Limit and Quota API Service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
 
-export interface RateLimitStatus {
-  user_id: string;
-  rate_limit: {
-    minute_remaining: number;
-    hour_remaining: number;
-    minute_limit: number;
-    hour_limit: number;
-  };
-  quota: {
-    tier: string;
-    daily_used: number;
-    daily_limit: number;
-    daily_remaining: number;
-    monthly_used: number;
-    monthly_limit: number;
-    monthly_remaining: number;
-  };
-}
+export const rateLimitStatusSchema = z.object({
+  user_id: z.string(),
+  rate_limit: z.object({
+    minute_remaining: z.number(),
+    hour_remaining: z.number(),
+    minute_limit: z.number(),
+    hour_limit: z.number(),
+  }),
+  quota: z.object({
+    tier: z.string(),
+    daily_used: z.number(),
+    daily_limit: z.number(),
+    daily_remaining: z.number(),
+    monthly_used: z.number(),
+    monthly_limit: z.number(),
+    monthly_remaining: z.number(),
+  }),
+});
 
-export interface RateLimitStats {
-  total_tracked_users: number;
-  rate_limit_config: {
-    requests_per_minute: number;
-    requests_per_hour: number;
-    burst_size: number;
-  };
-  quota_tiers: {
-    [key: string]: {
-      daily: number;
-      monthly: number;
-    };
-  };
-}
+export type RateLimitStatus = InferSchema<typeof rateLimitStatusSchema>;
 
-export interface QuotaTiers {
-  tiers: {
-    [key: string]: {
-      daily: number;
-      monthly: number;
-    };
-  };
-  current_tier_counts: {
-    [key: string]: number;
-  };
-}
+const quotaTierSchema = z.object({
+  daily: z.number(),
+  monthly: z.number(),
+});
+
+export const rateLimitStatsSchema = z.object({
+  total_tracked_users: z.number(),
+  rate_limit_config: z.object({
+    requests_per_minute: z.number(),
+    requests_per_hour: z.number(),
+    burst_size: z.number(),
+  }),
+  quota_tiers: z.record(quotaTierSchema),
+});
+
+export type RateLimitStats = InferSchema<typeof rateLimitStatsSchema>;
+
+export const quotaTiersSchema = z.object({
+  tiers: z.record(quotaTierSchema),
+  current_tier_counts: z.record(z.number()),
+});
+
+export type QuotaTiers = InferSchema<typeof quotaTiersSchema>;
 
 export const rateLimitApi = {
   // Get current rate limit status for user
-  getStatus: async (userId: string): Promise<ApiResponse<RateLimitStatus>> => {
-    return apiClient.get(`/rate-limit/status?user_id=${userId}`);
+  getStatus: async (userId: string, signal?: AbortSignal): Promise<ApiResponse<RateLimitStatus>> => {
+    return validateResponse(
+      apiClient.get(`/rate-limit/status?user_id=${userId}`, undefined, { signal }),
+      rateLimitStatusSchema,
+      "GET /rate-limit/status"
+    );
   },
 
   // Get global rate limit statistics (admin)
-  getStats: async (): Promise<ApiResponse<RateLimitStats>> => {
-    return apiClient.get("/rate-limit/stats");
+  getStats: async (signal?: AbortSignal): Promise<ApiResponse<RateLimitStats>> => {
+    return validateResponse(
+      apiClient.get("/rate-limit/stats", undefined, { signal }),
+      rateLimitStatsSchema,
+      "GET /rate-limit/stats"
+    );
   },
 
   // Reset user rate limit (admin)
-  resetUser: async (userId: string): Promise<ApiResponse<{ message: string; user_id: string }>> => {
-    return apiClient.post(`/rate-limit/reset/${userId}`, {});
+  resetUser: async (
+    userId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ message: string; user_id: string }>> => {
+    return validateResponse(
+      apiClient.post(`/rate-limit/reset/${userId}`, {}, { signal }),
+      z.object({ message: z.string(), user_id: z.string() }),
+      "POST /rate-limit/reset/:userId"
+    );
   },
 
   // Get available quota tiers
-  getQuotaTiers: async (): Promise<ApiResponse<QuotaTiers>> => {
-    return apiClient.get("/quota/tiers");
+  getQuotaTiers: async (signal?: AbortSignal): Promise<ApiResponse<QuotaTiers>> => {
+    return validateResponse(apiClient.get("/quota/tiers", undefined, { signal }), quotaTiersSchema, "GET /quota/tiers");
   },
 };
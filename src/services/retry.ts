@@ -0,0 +1,140 @@
+/**
+ * Retry policies for ApiClient
+ * Exponential backoff with jitter, honouring Retry-After from the rate limiter
+ */
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one */
+  retries: number;
+  /** Delay before the first retry, doubled on every further attempt (ms) */
+  baseDelay: number;
+  /** Upper bound for the computed backoff (ms) */
+  maxDelay: number;
+  /** Share of the delay (0-1) that is randomized */
+  jitter: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this (ms) */
+  maxRetryAfter: number;
+  /** HTTP statuses worth another attempt; network errors always are */
+  retryOn: number[];
+}
+
+/**
+ * The parts of an ApiClient rejection that decide whether to retry
+ */
+interface RequestError {
+  code?: string;
+  status?: number;
+  response?: {
+    status?: number;
+    headers?: Record<string, unknown>;
+  };
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: 0.5,
+  maxRetryAfter: 60000,
+  retryOn: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (String(value).trim() !== "" && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+};
+
+/**
+ * Delay before retry number `attempt` (0-based)
+ */
+export const getRetryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter: number | null = null,
+  random: () => number = Math.random
+): number => {
+  if (retryAfter !== null) return retryAfter;
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(backoff * (1 - policy.jitter) + backoff * policy.jitter * random());
+};
+
+/**
+ * Whether a failed attempt may be repeated.
+ *
+ * `safe` marks requests that can run twice without side effects: idempotent
+ * methods, or mutations carrying an idempotency key. Anything else is only
+ * retried on 429, where the rate limiter turned it away before doing any work.
+ */
+export const isRetryable = (error: RequestError, policy: RetryPolicy, safe: boolean): boolean => {
+  if (error?.code === "ERR_CANCELED") return false;
+
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  if (status !== undefined && !policy.retryOn.includes(status)) return false;
+
+  return safe || status === 429;
+};
+
+const getRetryAfterHeader = (error: RequestError): unknown => {
+  const headers = error?.response?.headers;
+  if (!headers) return undefined;
+  return headers["retry-after"] ?? headers["Retry-After"];
+};
+
+const canceled = () => Object.assign(new Error("canceled"), { name: "CanceledError", code: "ERR_CANCELED" });
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(canceled());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(canceled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Run `request`, repeating it according to `policy` while failures are retryable
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  policy: RetryPolicy,
+  safe: boolean,
+  signal?: AbortSignal,
+  wait: (ms: number, signal?: AbortSignal) => Promise<void> = sleep
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.retries || !isRetryable(error as RequestError, policy, safe)) {
+        throw error;
+      }
+
+      const retryAfter = parseRetryAfter(getRetryAfterHeader(error as RequestError));
+      if (retryAfter !== null && retryAfter > policy.maxRetryAfter) {
+        throw error;
+      }
+
+      await wait(getRetryDelay(attempt, policy, retryAfter), signal);
+    }
+  }
+}
@@ -1,82 +1,65 @@
 /**
  * Scripts API Service
  */
-import { apiClient, ApiResponse } from "./api";
+import { ApiResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type {
+  ScriptContentDto,
+  ScriptEntryDto,
+  ScriptGenerateRequestDto,
+  ScriptJobDto,
+  ScriptReviewRequestDto,
+  ScriptStatusDto,
+} from "./generated/schemas";
 
-export interface ScriptEntry {
-  index: number;
-  speaker: string;
-  text: string;
-  instruct?: string;
-  emotion?: string;
-  section?: string;
-}
+export { scriptEntrySchema, scriptStatusSchema } from "./generated/schemas";
 
-export interface ScriptGenerateOptions {
-  system_prompt?: string;
-  user_prompt?: string;
-  options?: {
-    max_chunk_size?: number;
-    detect_emotions?: boolean;
-    detect_sections?: boolean;
-  };
-}
-
-export interface ScriptReviewOptions {
-  auto_fix?: boolean;
-  check_rules?: {
-    speaker_consistency?: boolean;
-    text_continuity?: boolean;
-    emotion_accuracy?: boolean;
-  };
-}
+export type ScriptEntry = ScriptEntryDto;
+export type ScriptStatus = ScriptStatusDto;
+export type ScriptGenerateOptions = ScriptGenerateRequestDto;
+export type ScriptReviewOptions = ScriptReviewRequestDto;
 
 export const scriptsApi = {
   // Generate script
   generate: async (
     projectId: string,
-    options: ScriptGenerateOptions = {}
-  ): Promise<ApiResponse<{ script_id: string; status: string }>> => {
-    return apiClient.post(`/projects/${projectId}/scripts/generate`, options);
+    options: ScriptGenerateOptions = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ScriptJobDto>> => {
+    return endpoints.generateScript(projectId, options, { signal });
   },
 
   // Get script status
-  getStatus: async (projectId: string): Promise<
-    ApiResponse<{
-      id: string;
-      project_id: string;
-      status: string;
-      entries_count: number;
-      speakers: string[];
-      error_message: string | null;
-      created_at: string;
-    }>
-  > => {
-    return apiClient.get(`/projects/${projectId}/scripts/status`);
+  getStatus: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<ScriptStatus>> => {
+    return endpoints.getScriptStatus(projectId, { signal });
   },
 
   // Get script content
-  get: async (projectId: string): Promise<ApiResponse<{ content: ScriptEntry[] }>> => {
-    return apiClient.get(`/projects/${projectId}/scripts`);
+  get: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<ScriptContentDto>> => {
+    return endpoints.getScript(projectId, { signal });
   },
 
   // Update script
-  update: async (projectId: string, content: ScriptEntry[]): Promise<ApiResponse<any>> => {
-    return apiClient.patch(`/projects/${projectId}/scripts`, { content });
+  update: async (projectId: string, content: ScriptEntry[], signal?: AbortSignal): Promise<ApiResponse<any>> => {
+    return endpoints.updateScript(projectId, { content }, { signal });
   },
 
   // Review script
-  review: async (projectId: string, options: ScriptReviewOptions = {}): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/scripts/review`, options);
+  review: async (
+    projectId: string,
+    options: ScriptReviewOptions = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<any>> => {
+    return endpoints.reviewScript(projectId, options, { signal });
   },
 
   // Approve script
-  approve: async (projectId: string): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/scripts/approve`);
+  approve: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<any>> => {
+    return endpoints.approveScript(projectId, { signal });
   },
 
   // Create chunks from script
-  createChunks: async (projectId: string): Promise<ApiResponse<any>> => {
-    return apiClient.post(`/projects/${projectId}/scripts/chunks`);
+  createChunks: async (projectId: string, signal?: AbortSignal): Promise<ApiResponse<any>> => {
+    return endpoints.createChunks(projectId, { signal });
   },
 };
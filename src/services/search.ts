@@ -0,0 +1,144 @@
+/**
+ * Library Search Service
+ * Full-text search runs in the browser: each book's plain text is fetched once
+ * and indexed (see lib/fulltext), and every search first catches the index up
+ * with books uploaded or deleted since the last one.
+ */
+import { splitParagraphs } from "@/lib/chapters";
+import { createLibraryIndex, indexBook, searchLibrary, unindexBook } from "@/lib/fulltext";
+import { hitContext } from "@/lib/search";
+import { ApiResponse, PaginatedResponse } from "./api";
+import { booksApi, type Book as BookDto } from "./books";
+import { toBook, type Book } from "./generated/models";
+
+// Books listed per request while reading the whole library
+const LIST_PAGE_SIZE = 200;
+
+export interface LibraryPassage {
+  /** Paragraph of the book's plain text, and the match's place in it */
+  block: number;
+  offset: number;
+  length: number;
+  /** Which exact occurrence of the query this is, or null when only its terms matched */
+  occurrence: number | null;
+  before: string;
+  match: string;
+  after: string;
+}
+
+/** A book matching a full-text search, with the passages that matched */
+export interface LibraryHit {
+  book: Book;
+  score: number;
+  matchCount: number;
+  passages: LibraryPassage[];
+}
+
+export interface LibrarySearchParams {
+  q: string;
+  author?: string;
+  collection_id?: string;
+  file_type?: BookDto["file_type"];
+  page?: number;
+  page_size?: number;
+}
+
+const index = createLibraryIndex();
+// Text requests by book, shared by overlapping searches. A book's text never
+// changes: a new edition is uploaded as a new book.
+const indexing = new Map<string, Promise<void>>();
+
+const abortError = () => new DOMException("Search aborted", "AbortError");
+
+const indexBookText = (bookId: string) => {
+  const known = indexing.get(bookId);
+  if (known) return known;
+  const pending: Promise<void> = booksApi.getContent(bookId, "plain").then(
+    ({ data }) => {
+      // Deleted while its text was on the way
+      if (indexing.get(bookId) === pending) indexBook(index, bookId, splitParagraphs(data.content));
+    },
+    (error) => {
+      // Tried again by the next search
+      if (indexing.get(bookId) === pending) indexing.delete(bookId);
+      throw error;
+    }
+  );
+  indexing.set(bookId, pending);
+  return pending;
+};
+
+const listLibrary = async (signal?: AbortSignal): Promise<BookDto[]> => {
+  const books: BookDto[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await booksApi.list({ page, page_size: LIST_PAGE_SIZE }, signal);
+    books.push(...data.items);
+    if (page >= data.total_pages) return books;
+  }
+};
+
+/**
+ * Index the books not indexed yet and drop the ones that are gone. A book
+ * whose text can't be fetched is left out of this search.
+ */
+const syncIndex = async (books: BookDto[], signal?: AbortSignal) => {
+  const ids = new Set(books.map((book) => book.id));
+  [...indexing.keys()].forEach((bookId) => {
+    if (ids.has(bookId)) return;
+    indexing.delete(bookId);
+    unindexBook(index, bookId);
+  });
+  await Promise.allSettled(books.map((book) => indexBookText(book.id)));
+  if (signal?.aborted) throw abortError();
+};
+
+export const searchApi = {
+  // Search the full text of every book
+  library: async (
+    params: LibrarySearchParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<PaginatedResponse<LibraryHit>>> => {
+    const { q, author, collection_id, file_type, page = 1, page_size = 20 } = params;
+    const library = await listLibrary(signal);
+    await syncIndex(library, signal);
+
+    const books = new Map(
+      library
+        .filter(
+          (book) =>
+            (!author || book.author === author) &&
+            (!collection_id || book.collection_ids?.includes(collection_id)) &&
+            (!file_type || book.file_type === file_type)
+        )
+        .map((book) => [book.id, book])
+    );
+    const matches = q.trim() ? searchLibrary(index, q.trim(), books.keys()) : [];
+    const hits = matches.slice((page - 1) * page_size, page * page_size).map(
+      ({ bookId, score, matchCount, passages }): LibraryHit => {
+        const { blocks } = index.books.get(bookId);
+        return {
+          book: toBook(books.get(bookId)),
+          score,
+          matchCount,
+          passages: passages.map(({ block, start, end, occurrence }) => ({
+            block,
+            offset: start,
+            length: end - start,
+            occurrence,
+            ...hitContext(blocks[block], start, end),
+          })),
+        };
+      }
+    );
+    return {
+      success: true,
+      data: {
+        items: hits,
+        total: matches.length,
+        page,
+        page_size,
+        total_pages: Math.ceil(matches.length / page_size),
+      },
+    };
+  },
+};
@@ -0,0 +1,195 @@
+/**
+ * Session management
+ * Token storage, JWT expiry tracking and single-flight token refresh
+ */
+
+const ACCESS_TOKEN_KEY = "auth_token";
+const REFRESH_TOKEN_KEY = "auth_refresh_token";
+const USER_KEY = "auth_user";
+
+// Refresh this long before `exp` so requests don't go out with a dying token
+const REFRESH_MARGIN = 60 * 1000;
+// setTimeout fires immediately for delays above 2^31-1 ms
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string | null;
+}
+
+export type RefreshHandler = (refreshToken: string) => Promise<SessionTokens>;
+
+/**
+ * Read the `exp` claim of a JWT, in milliseconds
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Refresh failures that mean the refresh token itself is no longer accepted
+const isRejected = (error: unknown): boolean => {
+  const { status, response } = (error ?? {}) as { status?: number; response?: { status?: number } };
+  return [400, 401, 403].includes(status ?? response?.status);
+};
+
+class SessionManager {
+  private refreshHandler: RefreshHandler | null = null;
+  private refreshing: Promise<string | null> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private expiredListeners: Set<() => void> = new Set();
+
+  getAccessToken(): string | null {
+    return localStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  /**
+   * Register how a refresh token is exchanged for new tokens
+   */
+  setRefreshHandler(handler: RefreshHandler) {
+    this.refreshHandler = handler;
+  }
+
+  /**
+   * Store a new token pair and arm the expiry timer
+   */
+  start(tokens: SessionTokens) {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    }
+    this.scheduleExpiry();
+  }
+
+  /**
+   * Pick up a session restored from storage
+   */
+  resume(): boolean {
+    if (!this.getAccessToken()) return false;
+    this.scheduleExpiry();
+    return true;
+  }
+
+  /**
+   * Forget the session without notifying anyone (explicit logout)
+   */
+  clear() {
+    this.cancelExpiry();
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  }
+
+  /**
+   * Drop a session that can't be renewed and tell listeners to sign the user out
+   */
+  expire() {
+    this.clear();
+    this.expiredListeners.forEach((listener) => listener());
+  }
+
+  onExpired(listener: () => void) {
+    this.expiredListeners.add(listener);
+    return () => this.expiredListeners.delete(listener);
+  }
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share a single request. Resolves to null when no
+   * token could be obtained; if the refresh token was rejected the session
+   * is expired as well.
+   */
+  refresh(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * The current access token, refreshed first if it is about to expire
+   */
+  async getValidToken(): Promise<string | null> {
+    if (this.refreshing) return this.refreshing;
+
+    const token = this.getAccessToken();
+    if (!token) return null;
+
+    const expiry = getTokenExpiry(token);
+    if (expiry === null) return token;
+
+    if (this.getRefreshToken() && expiry - REFRESH_MARGIN <= Date.now()) {
+      return this.refresh();
+    }
+    if (expiry <= Date.now()) {
+      this.expire();
+      return null;
+    }
+    return token;
+  }
+
+  private async runRefresh(): Promise<string | null> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken || !this.refreshHandler) {
+      this.expire();
+      return null;
+    }
+
+    try {
+      const tokens = await this.refreshHandler(refreshToken);
+      this.start(tokens);
+      return tokens.accessToken;
+    } catch (error) {
+      if (isRejected(error)) {
+        this.expire();
+      }
+      return null;
+    }
+  }
+
+  private scheduleExpiry() {
+    this.cancelExpiry();
+
+    const token = this.getAccessToken();
+    const expiry = token ? getTokenExpiry(token) : null;
+    if (expiry === null) return;
+
+    const canRefresh = !!this.getRefreshToken();
+    const delay = Math.max(0, (canRefresh ? expiry - REFRESH_MARGIN : expiry) - Date.now());
+
+    if (delay > MAX_TIMER_DELAY) {
+      this.expiryTimer = setTimeout(() => this.scheduleExpiry(), MAX_TIMER_DELAY);
+      return;
+    }
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      if (canRefresh) {
+        this.refresh();
+      } else {
+        this.expire();
+      }
+    }, delay);
+  }
+
+  private cancelExpiry() {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+}
+
+export const session = new SessionManager();
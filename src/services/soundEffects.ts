@@ -1,38 +1,48 @@
 /**
  * Sound Effects API Service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
 
-export interface SoundEffectPack {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  effects: SoundEffect[];
-}
+export const soundEffectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  file_path: z.string(),
+  duration: z.number(),
+  category: z.string(),
+  tags: z.array(z.string()),
+});
 
-export interface SoundEffect {
-  id: string;
-  name: string;
-  file_path: string;
-  duration: number;
-  category: string;
-  tags: string[];
-}
+export type SoundEffect = InferSchema<typeof soundEffectSchema>;
 
-export interface SoundEffectTemplate {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  effects: Array<{
-    file_path: string;
-    start_time: number;
-    volume: number;
-    fade_in?: number;
-    fade_out?: number;
-  }>;
-}
+export const soundEffectPackSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  effects: z.array(soundEffectSchema),
+});
+
+export type SoundEffectPack = InferSchema<typeof soundEffectPackSchema>;
+
+export const soundEffectTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  effects: z.array(
+    z.object({
+      file_path: z.string(),
+      start_time: z.number(),
+      volume: z.number(),
+      fade_in: z.number().nullish(),
+      fade_out: z.number().nullish(),
+    })
+  ),
+});
+
+export type SoundEffectTemplate = InferSchema<typeof soundEffectTemplateSchema>;
 
 export interface SoundEffectCreate {
   name: string;
@@ -44,33 +54,56 @@ export interface SoundEffectCreate {
 
 export const soundEffectsApi = {
   // Get sound effect packs
-  getPacks: async (): Promise<ApiResponse<{ packs: SoundEffectPack[] }>> => {
-    return apiClient.get("/audio-processor/sound-effects/packs");
+  getPacks: async (signal?: AbortSignal): Promise<ApiResponse<{ packs: SoundEffectPack[] }>> => {
+    return validateResponse(
+      apiClient.get("/audio-processor/sound-effects/packs", undefined, { signal }),
+      z.object({ packs: z.array(soundEffectPackSchema) }),
+      "GET /audio-processor/sound-effects/packs"
+    );
   },
 
   // Get specific pack
-  getPack: async (packId: string): Promise<ApiResponse<SoundEffectPack>> => {
-    return apiClient.get(`/audio-processor/sound-effects/packs/${packId}`);
+  getPack: async (packId: string, signal?: AbortSignal): Promise<ApiResponse<SoundEffectPack>> => {
+    return validateResponse(
+      apiClient.get(`/audio-processor/sound-effects/packs/${packId}`, undefined, { signal }),
+      soundEffectPackSchema,
+      "GET /audio-processor/sound-effects/packs/:id"
+    );
   },
 
   // Search sound effects
-  search: async (query: string): Promise<ApiResponse<SoundEffect[]>> => {
-    return apiClient.get(`/audio-processor/sound-effects/search?q=${encodeURIComponent(query)}`);
+  search: async (query: string, signal?: AbortSignal): Promise<ApiResponse<SoundEffect[]>> => {
+    return validateResponse(
+      apiClient.get(`/audio-processor/sound-effects/search?q=${encodeURIComponent(query)}`, undefined, { signal }),
+      z.array(soundEffectSchema),
+      "GET /audio-processor/sound-effects/search"
+    );
   },
 
   // Get categories
-  getCategories: async (): Promise<ApiResponse<string[]>> => {
-    return apiClient.get("/audio-processor/sound-effects/categories");
+  getCategories: async (signal?: AbortSignal): Promise<ApiResponse<string[]>> => {
+    return validateResponse(
+      apiClient.get("/audio-processor/sound-effects/categories", undefined, { signal }),
+      z.array(z.string()),
+      "GET /audio-processor/sound-effects/categories"
+    );
   },
 
   // Create custom sound effect
-  createCustom: async (effect: SoundEffectCreate): Promise<ApiResponse<{ effect_id: string }>> => {
-    return apiClient.post("/audio-processor/sound-effects/custom", effect);
+  createCustom: async (
+    effect: SoundEffectCreate,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ effect_id: string }>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/sound-effects/custom", effect, { signal }),
+      z.object({ effect_id: z.string() }),
+      "POST /audio-processor/sound-effects/custom"
+    );
   },
 
   // Delete custom sound effect
-  deleteCustom: async (effectId: string): Promise<ApiResponse<{ message: string }>> => {
-    return apiClient.delete(`/audio-processor/sound-effects/custom/${effectId}`);
+  deleteCustom: async (effectId: string, signal?: AbortSignal): Promise<ApiResponse<{ message: string }>> => {
+    return apiClient.delete(`/audio-processor/sound-effects/custom/${effectId}`, undefined, { signal });
   },
 
   // Create sound effect template
@@ -79,28 +112,41 @@ export const soundEffectsApi = {
     description: string;
     category: string;
     effects: SoundEffectTemplate["effects"];
-  }): Promise<ApiResponse<{ template_id: string }>> => {
-    return apiClient.post("/audio-processor/sound-effects/templates", template);
+  }, signal?: AbortSignal): Promise<ApiResponse<{ template_id: string }>> => {
+    return validateResponse(
+      apiClient.post("/audio-processor/sound-effects/templates", template, { signal }),
+      z.object({ template_id: z.string() }),
+      "POST /audio-processor/sound-effects/templates"
+    );
   },
 
   // Get templates
-  getTemplates: async (): Promise<ApiResponse<SoundEffectTemplate[]>> => {
-    return apiClient.get("/audio-processor/sound-effects/templates");
+  getTemplates: async (signal?: AbortSignal): Promise<ApiResponse<SoundEffectTemplate[]>> => {
+    return validateResponse(
+      apiClient.get("/audio-processor/sound-effects/templates", undefined, { signal }),
+      z.array(soundEffectTemplateSchema),
+      "GET /audio-processor/sound-effects/templates"
+    );
   },
 
   // Get specific template
-  getTemplate: async (templateId: string): Promise<ApiResponse<SoundEffectTemplate>> => {
-    return apiClient.get(`/audio-processor/sound-effects/templates/${templateId}`);
+  getTemplate: async (templateId: string, signal?: AbortSignal): Promise<ApiResponse<SoundEffectTemplate>> => {
+    return validateResponse(
+      apiClient.get(`/audio-processor/sound-effects/templates/${templateId}`, undefined, { signal }),
+      soundEffectTemplateSchema,
+      "GET /audio-processor/sound-effects/templates/:id"
+    );
   },
 
   // Apply template
   applyTemplate: async (
     templateId: string,
-    audioPath: string
+    audioPath: string,
+    signal?: AbortSignal
   ): Promise<ApiResponse<{ output_path: string }>> => {
     return apiClient.post("/audio-processor/sound-effects/apply-template", {
       template_id: templateId,
       audio_path: audioPath,
-    });
+    }, { signal });
   },
 };
@@ -0,0 +1,39 @@
+/**
+ * System Status API Service
+ */
+import { z } from "zod";
+import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
+
+export const systemStatusSchema = z.object({
+  status: z.string(),
+  version: z.string(),
+  timestamp: z.string(),
+  services: z.object({
+    tts: z.string(),
+    llm: z.string(),
+    database: z.string(),
+  }),
+  resources: z.object({
+    cpu_usage: z.number(),
+    memory_usage: z.number(),
+    memory_total_gb: z.number(),
+    memory_used_gb: z.number(),
+    disk_usage: z.number(),
+    disk_total_gb: z.number(),
+    disk_used_gb: z.number(),
+  }),
+});
+
+export type SystemStatus = InferSchema<typeof systemStatusSchema>;
+
+export const systemApi = {
+  // Get service health and resource usage
+  getStatus: async (signal?: AbortSignal): Promise<ApiResponse<SystemStatus>> => {
+    return validateResponse(
+      apiClient.get("/config/system/status", undefined, { signal }),
+      systemStatusSchema,
+      "GET /config/system/status"
+    );
+  },
+};
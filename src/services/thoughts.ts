@@ -1,63 +1,45 @@
 /**
  * Thoughts API Service
  */
-import { apiClient, ApiResponse } from "./api";
-
-export interface Thought {
-  id: string;
-  user_id: string;
-  book_id: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  book_title?: string;
-  book_author?: string;
-  book_cover_url?: string;
-}
-
-export interface ThoughtCreate {
-  book_id: string;
-  content: string;
-}
-
-export interface ThoughtUpdate {
-  content: string;
-}
-
-export interface ThoughtListParams {
-  book_id?: string;
-  page?: number;
-  page_size?: number;
-}
+import { ApiResponse } from "./api";
+import * as endpoints from "./generated/endpoints";
+import type { ThoughtCreateDto, ThoughtDto, ThoughtUpdateDto } from "./generated/schemas";
+
+export { thoughtSchema } from "./generated/schemas";
+
+export type Thought = ThoughtDto;
+export type ThoughtCreate = ThoughtCreateDto;
+export type ThoughtUpdate = ThoughtUpdateDto;
+export type ThoughtListParams = endpoints.ListThoughtsParams;
 
 export const thoughtsApi = {
   // Get thoughts list
-  list: async (params: ThoughtListParams = {}): Promise<ApiResponse<Thought[]>> => {
-    return apiClient.get("/thoughts", params);
+  list: async (params: ThoughtListParams = {}, signal?: AbortSignal): Promise<ApiResponse<Thought[]>> => {
+    return endpoints.listThoughts(params, { signal });
   },
 
   // Get a specific thought
-  get: async (thoughtId: string): Promise<ApiResponse<Thought>> => {
-    return apiClient.get(`/thoughts/${thoughtId}`);
+  get: async (thoughtId: string, signal?: AbortSignal): Promise<ApiResponse<Thought>> => {
+    return endpoints.getThought(thoughtId, { signal });
   },
 
   // Get all thoughts for a book
-  getBookThoughts: async (bookId: string): Promise<ApiResponse<Thought[]>> => {
-    return apiClient.get(`/thoughts/book/${bookId}/all`);
+  getBookThoughts: async (bookId: string, signal?: AbortSignal): Promise<ApiResponse<Thought[]>> => {
+    return endpoints.listBookThoughts(bookId, { signal });
   },
 
   // Create thought
-  create: async (data: ThoughtCreate): Promise<ApiResponse<Thought>> => {
-    return apiClient.post("/thoughts", data);
+  create: async (data: ThoughtCreate, signal?: AbortSignal): Promise<ApiResponse<Thought>> => {
+    return endpoints.createThought(data, { signal });
   },
 
   // Update thought
-  update: async (thoughtId: string, data: ThoughtUpdate): Promise<ApiResponse<Thought>> => {
-    return apiClient.patch(`/thoughts/${thoughtId}`, data);
+  update: async (thoughtId: string, data: ThoughtUpdate, signal?: AbortSignal): Promise<ApiResponse<Thought>> => {
+    return endpoints.updateThought(thoughtId, data, { signal });
   },
 
   // Delete thought
-  delete: async (thoughtId: string): Promise<ApiResponse<{ deleted: boolean }>> => {
-    return apiClient.delete(`/thoughts/${thoughtId}`);
+  delete: async (thoughtId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return endpoints.deleteThought(thoughtId, { signal });
   },
 };
@@ -0,0 +1,212 @@
+/**
+ * Request tracing
+ * Structured, redacted request/response logs for ApiClient, fed into useLogsStore
+ */
+import type { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { useLogsStore, type LogEntry } from "@/stores/logsStore";
+
+/**
+ * How much of each request ends up in the logs:
+ * - off: nothing
+ * - errors: failed requests only
+ * - basic: every request with method, URL, status and timing
+ * - verbose: basic plus redacted headers, params and bodies
+ */
+export type TraceLevel = "off" | "errors" | "basic" | "verbose";
+
+export const TRACE_SOURCE = "network";
+export const CORRELATION_HEADER = "X-Request-ID";
+
+const TRACE_LEVEL_KEY = "api_trace_level";
+const TRACE_LEVELS: TraceLevel[] = ["off", "errors", "basic", "verbose"];
+
+const REDACTED = "[REDACTED]";
+// Header and field names whose values must never reach the logs
+const SENSITIVE_KEY = /authorization|cookie|token|password|passwd|secret|api[-_]?key|credential/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 5;
+
+export type TracedConfig = InternalAxiosRequestConfig & {
+  _trace?: { id: string; startedAt: number };
+};
+
+/**
+ * Failure shape as seen by the response error interceptor
+ */
+interface TracedError {
+  code?: string;
+  message?: string;
+  response?: { status?: number; data?: unknown };
+}
+
+/**
+ * Random ID for correlating a request across client logs and the backend
+ */
+export const createRequestId = (): string => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+};
+
+const describeBinary = (value: Blob): string =>
+  value instanceof File
+    ? `[File ${value.name}, ${value.size} bytes${value.type ? `, ${value.type}` : ""}]`
+    : `[Blob ${value.size} bytes]`;
+
+/**
+ * Copy of a request/response payload that is safe to log: sensitive fields
+ * are masked, file contents replaced by a description and long values cut.
+ */
+export const redactPayload = (value: unknown, depth = 0): unknown => {
+  if (value === null || value === undefined) return value;
+
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (typeof value !== "object") return value;
+
+  if (value instanceof Blob) return describeBinary(value);
+  if (value instanceof ArrayBuffer) return `[Binary ${value.byteLength} bytes]`;
+  if (ArrayBuffer.isView(value)) return `[Binary ${value.byteLength} bytes]`;
+  if (depth >= MAX_DEPTH) return "[…]";
+
+  if (value instanceof FormData) {
+    const entries: Record<string, unknown> = {};
+    value.forEach((entry, key) => {
+      entries[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactPayload(entry, depth + 1);
+    });
+    return entries;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redactPayload(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`… ${value.length - MAX_ARRAY_ITEMS} more`);
+    }
+    return items;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redactPayload(entry, depth + 1),
+    ])
+  );
+};
+
+/**
+ * Plain header map with credentials masked
+ */
+export const redactHeaders = (headers: unknown): Record<string, unknown> => {
+  if (!headers || typeof headers !== "object") return {};
+  const source = (headers as { toJSON?: () => object }).toJSON?.() ?? headers;
+  return Object.fromEntries(
+    Object.entries(source).map(([key, value]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : value])
+  );
+};
+
+const readStoredLevel = (): TraceLevel | null => {
+  try {
+    const stored = localStorage.getItem(TRACE_LEVEL_KEY) as TraceLevel | null;
+    return TRACE_LEVELS.includes(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const defaultLevel = (): TraceLevel => {
+  const configured = import.meta.env.VITE_API_TRACE_LEVEL as TraceLevel | undefined;
+  if (TRACE_LEVELS.includes(configured)) return configured;
+  return import.meta.env.DEV ? "basic" : "errors";
+};
+
+class RequestTracer {
+  private level: TraceLevel = readStoredLevel() ?? defaultLevel();
+
+  getLevel(): TraceLevel {
+    return this.level;
+  }
+
+  /**
+   * Change the verbosity; remembered across reloads
+   */
+  setLevel(level: TraceLevel) {
+    this.level = level;
+    try {
+      localStorage.setItem(TRACE_LEVEL_KEY, level);
+    } catch {
+      // Storage unavailable, keep the level for this session only
+    }
+  }
+
+  /**
+   * Tag an outgoing request with a correlation ID and start its timer.
+   * A replayed request (e.g. after a token refresh) keeps its ID.
+   */
+  begin(config: TracedConfig) {
+    const id = (config.headers[CORRELATION_HEADER] as string) || createRequestId();
+    config.headers[CORRELATION_HEADER] = id;
+    config._trace = { id, startedAt: Date.now() };
+  }
+
+  succeed(response: AxiosResponse) {
+    if (this.level !== "basic" && this.level !== "verbose") return;
+    const config = response.config as TracedConfig;
+    this.write("info", config, response.status, this.level === "verbose" ? { response: response.data } : {});
+  }
+
+  fail(config: TracedConfig | undefined, error: TracedError) {
+    if (this.level === "off" || !config) return;
+
+    if (error.code === "ERR_CANCELED") {
+      if (this.level === "verbose") this.write("debug", config, "canceled");
+      return;
+    }
+
+    const status = error.response?.status;
+    const level: LogEntry["level"] = status && status < 500 ? "warning" : "error";
+    this.write(level, config, status ?? error.code ?? "network error", {
+      error: error.message,
+      ...(this.level === "verbose" ? { response: error.response?.data } : {}),
+    });
+  }
+
+  private write(
+    level: LogEntry["level"],
+    config: TracedConfig,
+    outcome: number | string,
+    extra: Record<string, unknown> = {}
+  ) {
+    const method = (config.method || "get").toUpperCase();
+    const duration = config._trace ? Date.now() - config._trace.startedAt : undefined;
+    const data: Record<string, unknown> = {
+      correlationId: config._trace?.id,
+      method,
+      url: config.url,
+      status: outcome,
+      durationMs: duration,
+      ...extra,
+    };
+
+    if (this.level === "verbose") {
+      data.headers = redactHeaders(config.headers);
+      data.params = redactPayload(config.params);
+      data.body = redactPayload(config.data);
+    }
+    if ("response" in data) {
+      data.response = redactPayload(data.response);
+    }
+
+    const timing = duration !== undefined ? ` (${duration}ms)` : "";
+    // addLogs doesn't echo entries to the console
+    useLogsStore.getState().addLogs([
+      { level, message: `${method} ${config.url} → ${outcome}${timing}`, source: TRACE_SOURCE, data },
+    ]);
+  }
+}
+
+export const requestTracer = new RequestTracer();
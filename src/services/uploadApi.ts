@@ -1,109 +1,280 @@
-import { type UploadedBook } from "@/stores/bookStore";
-
-export interface UploadApiResponse {
-  sections: string[];
-  audio_url: string;
-  metadata: {
-    title: string;
-    author: string;
-  };
+/**
+ * Book ingestion pipeline
+ * Reads a file from disk, sniffs its type and encoding, normalizes the text,
+ * finds chapters and metadata, then uploads it through booksApi.upload.
+ * A PDF's text layer is extracted and cleaned here and sent along with the
+ * file; EPUB files are uploaded as they are, with title and author from their
+ * package metadata. Before uploading, the file's fingerprints are checked
+ * against the library, so a book already there can be opened or replaced.
+ */
+import { detectChapters, type DetectedChapter } from "@/lib/chapters";
+import { EpubDocument } from "@/lib/epub";
+import { fileHash, textSignature } from "@/lib/fingerprint";
+import { readPdfText, type PdfPageSpan } from "@/lib/pdf";
+import {
+  decodeText,
+  detectEncoding,
+  detectFileType,
+  extractMetadata,
+  normalizeText,
+  type BookFileType,
+  type BookMetadata,
+  type TextEncoding,
+} from "@/lib/ingestion";
+import { isRequestCanceled, type ApiResponse } from "./api";
+import { booksApi, type Book, type BookDuplicate } from "./books";
+import { editionsService, type EditionReport } from "./editions";
+import type { UploadController, UploadProgress } from "./uploads";
+
+export type UploadStep =
+  | "detecting"
+  | "normalizing"
+  | "detecting_chapters"
+  | "extracting_metadata"
+  | "checking_duplicates"
+  | "uploading"
+  | "complete"
+  | "error";
+
+/** The steps in the order they run */
+export const UPLOAD_STEPS: UploadStep[] = [
+  "detecting",
+  "normalizing",
+  "detecting_chapters",
+  "extracting_metadata",
+  "checking_duplicates",
+  "uploading",
+];
+
+/**
+ * Progress (0-100) of the current step; the upload step also reports bytes
+ * and chunks
+ */
+type ProgressCallback = (step: UploadStep, progress: number, upload?: UploadProgress) => void;
+
+export interface IngestionOptions {
+  onProgress?: ProgressCallback;
+  /** Overrides for the extracted title and author */
+  metadata?: Partial<BookMetadata>;
+  /** Pauses or cancels the upload; cancelling also stops the earlier steps */
+  controller?: UploadController;
+  signal?: AbortSignal;
+  /**
+   * Asked what to do when the library already has this book; without it
+   * the book is uploaded regardless
+   */
+  onDuplicate?: (duplicates: BookDuplicate[]) => Promise<DuplicateChoice>;
+}
+
+/**
+ * Open the copy already in the library instead, upload this one as a new
+ * edition of it, or keep both
+ */
+export type DuplicateChoice = { action: "open"; book: Book } | { action: "replace"; book: Book } | { action: "keep" };
+
+export interface IngestionResult {
+  book: Book;
+  fileType: BookFileType;
+  /** Null for PDF and EPUB, which aren't plain text */
+  encoding: TextEncoding | null;
+  chapters: DetectedChapter[];
+  metadata: BookMetadata;
+  /** Where each page starts in the cleaned text, for PDFs with a text layer */
+  pages: PdfPageSpan[] | null;
+  /** Uploaded, or a copy already in the library opened or replaced instead */
+  outcome: "uploaded" | "opened" | "replaced";
+  /** What moved over from the replaced copy */
+  edition: EditionReport | null;
+}
+
+export class IngestionError extends Error {
+  readonly step: UploadStep;
+
+  constructor(step: UploadStep, message: string) {
+    super(message);
+    this.name = "IngestionError";
+    this.step = step;
+  }
 }
 
-// Simulate file reading and parsing
-const readFileContent = (file: File): Promise<string> => {
-  return new Promise((resolve) => {
+const readBytes = (file: File, onProgress: (progress: number) => void) =>
+  new Promise<Uint8Array>((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = () => {
-      resolve(reader.result as string);
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
     };
-    reader.readAsText(file);
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(new IngestionError("detecting", "读取文件失败"));
+    reader.readAsArrayBuffer(file);
   });
-};
 
-// Split content into sections (paragraphs)
-const splitIntoSections = (text: string): string[] => {
-  return text
-    .split(/\n\n+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-};
+// Let the progress UI paint between the synchronous steps
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
 
-// Extract a rough title from content
-const extractMetadata = (
-  fileName: string,
-  content: string
-): { title: string; author: string } => {
-  const nameWithoutExt = fileName.replace(/\.(pdf|epub|txt)$/i, "");
-  const firstLine = content.split("\n")[0]?.replace(/^#+\s*/, "").trim();
-  return {
-    title: firstLine && firstLine.length < 50 ? firstLine : nameWithoutExt,
-    author: "未知作者",
+/**
+ * Import a book file: each step reports its own progress before the next starts.
+ *
+ * Rejects with an IngestionError naming the failed step, or an AbortError when
+ * cancelled.
+ */
+export const ingestBook = async (file: File, options: IngestionOptions = {}): Promise<IngestionResult> => {
+  const { onProgress, controller, signal } = options;
+  const checkCancelled = () => {
+    if (controller?.cancelled || signal?.aborted) {
+      throw new DOMException("Upload cancelled", "AbortError");
+    }
   };
-};
 
-type ProgressCallback = (step: UploadStep) => void;
+  // Step 1: file type and encoding
+  onProgress?.("detecting", 0);
+  const bytes = await readBytes(file, (progress) => onProgress?.("detecting", Math.min(progress, 99)));
+  const fileType = detectFileType(bytes, file.name);
+  if (!fileType) {
+    throw new IngestionError("detecting", "无法识别的文件格式，请上传 PDF、EPUB 或 TXT 文件");
+  }
+  const encoding = fileType === "txt" ? detectEncoding(bytes) : null;
+  onProgress?.("detecting", 100);
+  checkCancelled();
+  await nextFrame();
 
-export type UploadStep =
-  | "uploading"
-  | "parsing"
-  | "generating_audio"
-  | "complete"
-  | "error";
+  // Step 2: line endings and paragraphs; for PDF, the cleaned text layer
+  onProgress?.("normalizing", 0);
+  let text = encoding ? normalizeText(decodeText(bytes, encoding)) : "";
+  if (encoding && !text) {
+    throw new IngestionError("normalizing", "文件中没有可读的文字");
+  }
+  let pdf: Awaited<ReturnType<typeof readPdfText>> | null = null;
+  if (fileType === "pdf") {
+    try {
+      pdf = await readPdfText(bytes, (progress) => onProgress?.("normalizing", Math.min(progress, 99)));
+    } catch (error) {
+      throw new IngestionError("normalizing", `无法读取 PDF：${(error as Error)?.message || "文件已损坏"}`);
+    }
+    // Scanned PDFs have no text layer; the backend's OCR handles those
+    text = pdf.text;
+  }
+  onProgress?.("normalizing", 100);
+  checkCancelled();
+  await nextFrame();
 
-export const simulateUpload = async (
-  file: File,
-  onProgress: ProgressCallback
-): Promise<UploadApiResponse> => {
-  // Step 1: Uploading
-  onProgress("uploading");
-  await delay(800);
-
-  // Step 2: Parsing content
-  onProgress("parsing");
-  let content: string;
-  try {
-    content = await readFileContent(file);
-  } catch {
-    content = generateFallbackContent(file.name);
+  // Step 3: chapters
+  onProgress?.("detecting_chapters", 0);
+  const chapters = text ? detectChapters(text) : [];
+  onProgress?.("detecting_chapters", 100);
+  await nextFrame();
+
+  // Step 4: title and author
+  onProgress?.("extracting_metadata", 0);
+  const extracted = extractMetadata(file.name, text);
+  if (pdf) {
+    extracted.title = pdf.title || extracted.title;
+    extracted.author = pdf.author || extracted.author;
   }
-  await delay(1200);
+  // An EPUB's text is only needed for its fingerprint; the backend reads the book itself
+  let epubText = "";
+  if (fileType === "epub") {
+    let epub: EpubDocument | null = null;
+    try {
+      epub = await EpubDocument.open(bytes);
+      extracted.title = epub.title || extracted.title;
+      extracted.author = epub.author || extracted.author;
+      const chapters = await Promise.all(epub.spine.map((_, index) => epub.loadChapter(index)));
+      epubText = chapters.flatMap((chapter) => chapter.blocks.map((block) => block.text)).join("\n\n");
+    } catch {
+      // A broken package still uploads; the backend reports what it can't read
+    } finally {
+      epub?.dispose();
+    }
+  }
+  const metadata: BookMetadata = {
+    title: options.metadata?.title || extracted.title,
+    author: options.metadata?.author || extracted.author,
+  };
+  onProgress?.("extracting_metadata", 100);
+  checkCancelled();
+  await nextFrame();
 
-  const sections = splitIntoSections(content);
-  const metadata = extractMetadata(file.name, content);
+  // Step 5: is the book already in the library?
+  onProgress?.("checking_duplicates", 0);
+  const fingerprint = { fileHash: await fileHash(bytes), textSignature: textSignature(text || epubText) };
+  let choice: DuplicateChoice = { action: "keep" };
+  if (options.onDuplicate) {
+    let duplicates: BookDuplicate[] = [];
+    try {
+      const response = await booksApi.findDuplicates(
+        { file_hash: fingerprint.fileHash, text_signature: fingerprint.textSignature },
+        signal
+      );
+      duplicates = response.data ?? [];
+    } catch (error) {
+      if (isRequestCanceled(error)) throw error;
+      // Not knowing about a duplicate shouldn't stop the upload
+    }
+    if (duplicates.length) choice = await options.onDuplicate(duplicates);
+  }
+  onProgress?.("checking_duplicates", 100);
+  checkCancelled();
+  if (choice.action === "open") {
+    onProgress?.("complete", 100);
+    return { book: choice.book, fileType, encoding, chapters, metadata, pages: null, outcome: "opened", edition: null };
+  }
 
-  // Step 3: Generating audio
-  onProgress("generating_audio");
-  await delay(2000);
+  // Step 6: upload. Text goes up normalized and as UTF-8 so the backend
+  // doesn't need to guess the encoding again; keeping lastModified lets an
+  // interrupted upload of the same file resume.
+  onProgress?.("uploading", 0);
+  const upload = encoding
+    ? new File([text], file.name.replace(/\.[^.]+$/, "") + ".txt", {
+        type: "text/plain;charset=utf-8",
+        lastModified: file.lastModified,
+      })
+    : file;
+  const pages = pdf?.text ? pdf.pages : null;
+  let response: ApiResponse<Book>;
+  try {
+    response = await booksApi.upload(
+      upload,
+      {
+        ...metadata,
+        ...(pages && { text, pages }),
+        chapters: chapters.length ? chapters : undefined,
+        fileHash: fingerprint.fileHash ?? undefined,
+        textSignature: fingerprint.textSignature,
+      },
+      (progress, details) => onProgress?.("uploading", progress, details),
+      signal,
+      controller
+    );
+  } catch (error) {
+    if (isRequestCanceled(error)) throw error;
+    throw new IngestionError("uploading", (error as Error)?.message || "上传失败");
+  }
+  if (!response.success || !response.data) {
+    throw new IngestionError("uploading", response.error?.message || "上传失败");
+  }
 
-  // Step 4: Complete
-  onProgress("complete");
+  let edition: EditionReport | null = null;
+  if (choice.action === "replace") {
+    try {
+      edition = await editionsService.replace(choice.book, response.data, signal);
+    } catch (error) {
+      if (isRequestCanceled(error)) throw error;
+      throw new IngestionError(
+        "uploading",
+        `新版本已上传，但未能从旧版本迁移划线和进度：${(error as Error)?.message || "未知错误"}`
+      );
+    }
+  }
 
+  onProgress?.("complete", 100);
   return {
-    sections: sections.length > 0 ? sections : generateFallbackSections(),
-    audio_url: `https://mock-audio.example.com/${file.name}.mp3`,
+    book: response.data,
+    fileType,
+    encoding,
+    chapters,
     metadata,
+    pages,
+    outcome: edition ? "replaced" : "uploaded",
+    edition,
   };
 };
-
-const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-const generateFallbackContent = (fileName: string): string => {
-  return `# ${fileName.replace(/\.\w+$/, "")}
-
-这是一份由系统自动生成的示例内容。原始文件格式暂不支持直接解析，请上传 TXT 格式的纯文本文件以获得最佳体验。
-
-## 第一章 引言
-
-每一本书都是一次旅程。阅读让我们穿越时空，与不同时代的思想者对话。在这个数字时代，AI 技术正在重新定义我们与文字互动的方式。
-
-## 第二章 探索
-
-知识的积累是渐进的。每一个段落、每一个概念都是通往更深理解的阶梯。让我们一起在文字的海洋中探索未知的领域。`;
-};
-
-const generateFallbackSections = (): string[] => [
-  "## 第一章 引言",
-  "这是一份示例内容。请上传 TXT 格式文件以获得最佳体验。",
-  "## 第二章 探索",
-  "知识的积累是渐进的，让我们一起探索。",
-];
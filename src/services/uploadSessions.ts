@@ -0,0 +1,84 @@
+/**
+ * Upload session storage
+ * Remembers unfinished chunked uploads in IndexedDB so they can resume after a reload
+ */
+
+const DB_NAME = "read-rhyme-uploads";
+const STORE_NAME = "sessions";
+const DB_VERSION = 1;
+
+export interface StoredUploadSession {
+  /** Identifies the file: purpose, name, size and modification time */
+  fingerprint: string;
+  uploadId: string;
+  purpose: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  /** Chunks the server has acknowledged */
+  receivedChunks: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "fingerprint" });
+    };
+    database = requestResult(request);
+  }
+  return database;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return requestResult(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+// Private browsing and test environments may lack IndexedDB; sessions then only last until reload
+const memory = new Map<string, StoredUploadSession>();
+const hasIndexedDb = () => typeof indexedDB !== "undefined";
+
+export const uploadSessions = {
+  get: async (fingerprint: string): Promise<StoredUploadSession | undefined> => {
+    if (!hasIndexedDb()) return memory.get(fingerprint);
+    return withStore("readonly", (store) => store.get(fingerprint));
+  },
+
+  put: async (session: StoredUploadSession): Promise<void> => {
+    if (!hasIndexedDb()) {
+      memory.set(session.fingerprint, session);
+      return;
+    }
+    await withStore("readwrite", (store) => store.put(session));
+  },
+
+  delete: async (fingerprint: string): Promise<void> => {
+    if (!hasIndexedDb()) {
+      memory.delete(fingerprint);
+      return;
+    }
+    await withStore("readwrite", (store) => store.delete(fingerprint));
+  },
+
+  /**
+   * Unfinished uploads, optionally only those for one purpose
+   */
+  list: async (purpose?: string): Promise<StoredUploadSession[]> => {
+    const sessions: StoredUploadSession[] = hasIndexedDb()
+      ? await withStore("readonly", (store) => store.getAll())
+      : [...memory.values()];
+    return sessions.filter((session) => !purpose || session.purpose === purpose);
+  },
+};
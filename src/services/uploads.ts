@@ -0,0 +1,425 @@
+/**
+ * Resumable Uploads
+ * Files are sent in fixed-size, checksummed chunks to an upload session on the
+ * backend. Sessions are remembered locally, so re-selecting the same file after
+ * a reload or a failure only sends the chunks the server is still missing.
+ */
+import { z } from "zod";
+import { apiClient, ApiResponse, isRequestCanceled } from "./api";
+import { uploadSessions, type StoredUploadSession } from "./uploadSessions";
+import { type InferSchema, validateResponse } from "./validation";
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+// A chunk whose checksum the server rejects is re-read and sent again this many times
+const MAX_CHECKSUM_RETRIES = 2;
+
+export type UploadPurpose = "book" | "rag_document" | "voice_clone" | "lora_dataset";
+
+export const uploadSessionSchema = z.object({
+  upload_id: z.string(),
+  chunk_size: z.number(),
+  total_chunks: z.number(),
+  received_chunks: z.array(z.number()),
+  expires_at: z.string().nullish(),
+});
+
+export type UploadSession = InferSchema<typeof uploadSessionSchema>;
+
+const chunkReceiptSchema = z.object({
+  index: z.number(),
+  received_chunks: z.number(),
+});
+
+export interface UploadSessionCreate {
+  purpose: UploadPurpose;
+  filename: string;
+  size: number;
+  mime_type: string;
+  chunk_size: number;
+  total_chunks: number;
+}
+
+/** Extra form values sent when the upload completes, e.g. a book's title or cover */
+export type UploadFields = Record<string, string | number | boolean | Blob | null | undefined>;
+
+export type UploadState = "uploading" | "paused" | "completing" | "completed" | "cancelled";
+
+export interface UploadProgress {
+  state: UploadState;
+  /** Bytes the server has acknowledged */
+  loaded: number;
+  total: number;
+  /** 0-100 */
+  percent: number;
+  uploadedChunks: number;
+  totalChunks: number;
+}
+
+export const uploadsApi = {
+  // Open an upload session
+  createSession: async (data: UploadSessionCreate, signal?: AbortSignal): Promise<ApiResponse<UploadSession>> => {
+    return validateResponse(
+      apiClient.post("/uploads", data, { signal, idempotencyKey: true }),
+      uploadSessionSchema,
+      "POST /uploads"
+    );
+  },
+
+  // Get the chunks a session has received so far
+  getSession: async (uploadId: string, signal?: AbortSignal): Promise<ApiResponse<UploadSession>> => {
+    return validateResponse(
+      apiClient.get(`/uploads/${uploadId}`, undefined, { signal }),
+      uploadSessionSchema,
+      "GET /uploads/:id"
+    );
+  },
+
+  // Send one chunk with its SHA-256 checksum; re-sending a received chunk is harmless
+  uploadChunk: async (
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    checksum: string | null,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof chunkReceiptSchema>>> => {
+    const formData = new FormData();
+    formData.append("chunk", chunk);
+    if (checksum) {
+      formData.append("checksum", checksum);
+    }
+    return validateResponse(
+      apiClient.upload(`/uploads/${uploadId}/chunks/${index}`, formData, onProgress, {
+        signal,
+        retry: {},
+        idempotencyKey: `${uploadId}:${index}`,
+      }),
+      chunkReceiptSchema,
+      "POST /uploads/:id/chunks/:index"
+    );
+  },
+
+  // Assemble the file and hand it to its purpose (book import, RAG ingest, ...)
+  complete: async <S extends z.ZodTypeAny>(
+    uploadId: string,
+    fields: UploadFields,
+    schema: S,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<S>>> => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      formData.append(key, value instanceof Blob ? value : String(value));
+    });
+    return validateResponse(
+      apiClient.post(`/uploads/${uploadId}/complete`, formData, {
+        signal,
+        idempotencyKey: `${uploadId}:complete`,
+      }),
+      schema,
+      "POST /uploads/:id/complete"
+    );
+  },
+
+  // Discard a session and the chunks received so far
+  cancel: async (uploadId: string, signal?: AbortSignal): Promise<ApiResponse<{ deleted: boolean }>> => {
+    return apiClient.delete(`/uploads/${uploadId}`, undefined, { signal });
+  },
+};
+
+export const readArrayBuffer = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+/**
+ * Hex SHA-256 of a chunk, or null where WebCrypto is unavailable (plain-HTTP
+ * origins other than localhost); the server then skips verification
+ */
+export const chunkChecksum = async (chunk: Blob): Promise<string | null> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(await readArrayBuffer(chunk)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const uploadFingerprint = (purpose: UploadPurpose, file: File) =>
+  [purpose, file.name, file.size, file.lastModified].join(":");
+
+const abortError = (message: string) => new DOMException(message, "AbortError");
+
+const isChecksumMismatch = (error: unknown) =>
+  (error as { data?: { error?: { code?: string } } })?.data?.error?.code === "CHECKSUM_MISMATCH";
+
+/**
+ * Pause, resume and cancel for a running upload, in the spirit of AbortController
+ */
+export class UploadController {
+  private state: "running" | "paused" | "cancelled" = "running";
+  private listeners: Set<() => void> = new Set();
+
+  get paused() {
+    return this.state === "paused";
+  }
+
+  get cancelled() {
+    return this.state === "cancelled";
+  }
+
+  /** Stop after aborting the chunk in flight; the session is kept */
+  pause() {
+    if (this.state !== "running") return;
+    this.state = "paused";
+    this.notify();
+  }
+
+  resume() {
+    if (this.state !== "paused") return;
+    this.state = "running";
+    this.notify();
+  }
+
+  /** Stop for good and discard the server-side session */
+  cancel() {
+    if (this.state === "cancelled") return;
+    this.state = "cancelled";
+    this.notify();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export interface ResumableUploadOptions<S extends z.ZodTypeAny> {
+  purpose: UploadPurpose;
+  /** Sent on completion */
+  fields?: UploadFields;
+  /** Schema of the completion payload */
+  schema: S;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Aborting stops the upload but keeps the session for a later resume */
+  signal?: AbortSignal;
+  controller?: UploadController;
+  chunkSize?: number;
+}
+
+/**
+ * Open or resume the session for `file`. A stored session the server no
+ * longer knows (expired, already completed) is replaced by a new one.
+ */
+const openSession = async (
+  file: File,
+  purpose: UploadPurpose,
+  chunkSize: number,
+  signal: AbortSignal
+): Promise<{ stored: StoredUploadSession; received: Set<number> }> => {
+  const fingerprint = uploadFingerprint(purpose, file);
+  const stored = await uploadSessions.get(fingerprint);
+  if (stored) {
+    try {
+      const response = await uploadsApi.getSession(stored.uploadId, signal);
+      if (response.success && response.data) {
+        return { stored, received: new Set(response.data.received_chunks) };
+      }
+    } catch (error) {
+      if (isRequestCanceled(error)) throw error;
+    }
+    await uploadSessions.delete(fingerprint);
+  }
+
+  const response = await uploadsApi.createSession(
+    {
+      purpose,
+      filename: file.name,
+      size: file.size,
+      mime_type: file.type || "application/octet-stream",
+      chunk_size: chunkSize,
+      total_chunks: Math.max(1, Math.ceil(file.size / chunkSize)),
+    },
+    signal
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message || "创建上传会话失败");
+  }
+  const now = new Date().toISOString();
+  const session: StoredUploadSession = {
+    fingerprint,
+    uploadId: response.data.upload_id,
+    purpose,
+    fileName: file.name,
+    fileSize: file.size,
+    // The server may settle on a different chunk size than requested
+    chunkSize: response.data.chunk_size,
+    totalChunks: response.data.total_chunks,
+    receivedChunks: response.data.received_chunks,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await uploadSessions.put(session);
+  return { stored: session, received: new Set(session.receivedChunks) };
+};
+
+/**
+ * Upload `file` in chunks and complete it, resuming an earlier session for
+ * the same file when there is one.
+ *
+ * Rejects with an AbortError when cancelled or when `signal` aborts.
+ */
+export async function uploadResumable<S extends z.ZodTypeAny>(
+  file: File,
+  options: ResumableUploadOptions<S>
+): Promise<ApiResponse<InferSchema<S>>> {
+  const { purpose, fields = {}, schema, onProgress, signal, controller = new UploadController() } = options;
+
+  // Aborted by pause, cancel or `signal` to stop the chunk in flight
+  let inFlight = new AbortController();
+  const stopInFlight = () => inFlight.abort();
+  signal?.addEventListener("abort", stopInFlight);
+  const unsubscribe = controller.subscribe(() => {
+    if (controller.paused || controller.cancelled) stopInFlight();
+  });
+  // Settles on resume or cancel, or when `signal` aborts during the pause
+  const waitWhilePaused = () =>
+    new Promise<void>((resolve) => {
+      if (!controller.paused || signal?.aborted) return resolve();
+      const done = () => {
+        unsubscribePause();
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const unsubscribePause = controller.subscribe(() => {
+        if (!controller.paused) done();
+      });
+      signal?.addEventListener("abort", done);
+    });
+  const checkStopped = () => {
+    if (signal?.aborted) throw abortError("Upload aborted");
+    if (controller.cancelled) throw abortError("Upload cancelled");
+  };
+
+  let stored: StoredUploadSession | null = null;
+  try {
+    const opened = await openSession(file, purpose, options.chunkSize ?? DEFAULT_CHUNK_SIZE, signal);
+    stored = opened.stored;
+    const { received } = opened;
+    const { chunkSize, totalChunks } = stored;
+    const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+
+    const report = (state: UploadState, partial = 0) => {
+      const loaded = Math.min(file.size, [...received].reduce((sum, index) => sum + chunkBytes(index), 0) + partial);
+      onProgress?.({
+        state,
+        loaded,
+        total: file.size,
+        percent: file.size ? Math.round((loaded / file.size) * 100) : state === "completed" ? 100 : 0,
+        uploadedChunks: received.size,
+        totalChunks,
+      });
+    };
+    report("uploading");
+
+    // Send one chunk, waiting out pauses and re-sending a chunk a pause interrupted
+    const sendChunk = async (index: number) => {
+      const chunk = file.slice(index * chunkSize, index * chunkSize + chunkBytes(index));
+      let checksumRetries = 0;
+      for (;;) {
+        checkStopped();
+        if (controller.paused) {
+          report("paused");
+          await waitWhilePaused();
+          checkStopped();
+          continue;
+        }
+        inFlight = new AbortController();
+        try {
+          await uploadsApi.uploadChunk(
+            stored.uploadId,
+            index,
+            chunk,
+            await chunkChecksum(chunk),
+            (percent) => report("uploading", Math.round((chunkBytes(index) * percent) / 100)),
+            inFlight.signal
+          );
+          return;
+        } catch (error) {
+          if (isChecksumMismatch(error) && checksumRetries++ < MAX_CHECKSUM_RETRIES) continue;
+          if (isRequestCanceled(error) && controller.paused) continue;
+          throw error;
+        }
+      }
+    };
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+      await sendChunk(index);
+
+      received.add(index);
+      stored = { ...stored, receivedChunks: [...received], updatedAt: new Date().toISOString() };
+      await uploadSessions.put(stored);
+      report("uploading");
+    }
+
+    checkStopped();
+    report("completing");
+    const response = await uploadsApi.complete(stored.uploadId, fields, schema, signal);
+    await uploadSessions.delete(stored.fingerprint);
+    report("completed");
+    return response;
+  } catch (error) {
+    if (controller.cancelled && stored) {
+      await uploadSessions.delete(stored.fingerprint);
+      await uploadsApi.cancel(stored.uploadId).catch(() => undefined);
+      onProgress?.({
+        state: "cancelled",
+        loaded: 0,
+        total: file.size,
+        percent: 0,
+        uploadedChunks: 0,
+        totalChunks: stored.totalChunks,
+      });
+    }
+    if (controller.cancelled || signal?.aborted) {
+      throw abortError(controller.cancelled ? "Upload cancelled" : "Upload aborted");
+    }
+    throw error;
+  } finally {
+    unsubscribe();
+    signal?.removeEventListener("abort", stopInFlight);
+  }
+}
+
+/**
+ * Progress of several uploads combined by bytes, e.g. a training dataset
+ */
+export const combineProgress = (parts: UploadProgress[]): UploadProgress => {
+  const loaded = parts.reduce((sum, part) => sum + part.loaded, 0);
+  const total = parts.reduce((sum, part) => sum + part.total, 0);
+  const states = parts.map((part) => part.state);
+  const state: UploadState = states.includes("cancelled")
+    ? "cancelled"
+    : states.includes("paused")
+      ? "paused"
+      : states.every((value) => value === "completed")
+        ? "completed"
+        : states.every((value) => value === "completing" || value === "completed")
+          ? "completing"
+          : "uploading";
+  return {
+    state,
+    loaded,
+    total,
+    percent: total ? Math.round((loaded / total) * 100) : state === "completed" ? 100 : 0,
+    uploadedChunks: parts.reduce((sum, part) => sum + part.uploadedChunks, 0),
+    totalChunks: parts.reduce((sum, part) => sum + part.totalChunks, 0),
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * Response validation
+ * Checks backend payloads against zod schemas at the service boundary
+ */
+import { z } from "zod";
+import { useLogsStore } from "@/stores/logsStore";
+import type { ApiResponse } from "./api";
+
+type OptionalKeys<S extends z.ZodRawShape> = {
+  [K in keyof S]: S[K] extends z.ZodOptional<z.ZodTypeAny> ? K : never;
+}[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Static type of a schema's output.
+ *
+ * `z.infer` relies on strictNullChecks to tell required keys from optional
+ * ones and this project compiles without it, so object keys are derived from
+ * the schema shape instead: only `.optional()`/`.nullish()` fields become `?`.
+ */
+export type InferSchema<T> =
+  T extends z.ZodObject<infer S>
+    ? Flatten<
+        { [K in Exclude<keyof S, OptionalKeys<S>>]: InferSchema<S[K]> } & {
+          [K in OptionalKeys<S>]?: InferSchema<S[K]>;
+        }
+      >
+    : T extends z.ZodArray<infer I>
+      ? InferSchema<I>[]
+      : T extends z.ZodOptional<infer I>
+        ? InferSchema<I>
+        : T extends z.ZodNullable<infer I>
+          ? InferSchema<I>
+          : T extends z.ZodRecord<infer K, infer V>
+            ? Record<z.infer<K>, InferSchema<V>>
+            : T extends z.ZodTypeAny
+              ? z.infer<T>
+              : never;
+
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`Invalid response from ${endpoint}: ${summary}`);
+    this.name = "ApiValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+const apiErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.any().optional(),
+});
+
+const envelopeSchema = z.object({
+  success: z.boolean(),
+  data: z.unknown().optional(),
+  error: apiErrorSchema.nullish(),
+});
+
+/**
+ * Schema for the backend's paginated list payload
+ */
+export const paginatedSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    items: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    page_size: z.number(),
+    total_pages: z.number(),
+  });
+
+/**
+ * Schema for the `{ deleted }` payload returned by delete endpoints
+ */
+export const deletedSchema = z.object({ deleted: z.boolean() });
+
+const fail = (endpoint: string, issues: z.ZodIssue[]): never => {
+  const error = new ApiValidationError(endpoint, issues);
+  useLogsStore.getState().error(error.message, "API");
+  throw error;
+};
+
+/**
+ * Await an ApiClient call and validate its payload.
+ *
+ * Only successful responses carrying data are checked against `schema`.
+ * The payload is returned untouched, so fields the schema doesn't declare
+ * still reach callers.
+ */
+export async function validateResponse<S extends z.ZodTypeAny>(
+  request: Promise<ApiResponse<unknown>>,
+  schema: S,
+  endpoint: string
+): Promise<ApiResponse<InferSchema<S>>> {
+  const response = await request;
+
+  const envelope = envelopeSchema.safeParse(response);
+  if (!envelope.success) {
+    fail(endpoint, envelope.error.issues);
+  }
+
+  if (response.success && response.data !== undefined && response.data !== null) {
+    const payload = schema.safeParse(response.data);
+    if (!payload.success) {
+      fail(endpoint, payload.error.issues);
+    }
+  }
+
+  return response as ApiResponse<InferSchema<S>>;
+}
+
+/**
+ * Validate a payload that doesn't come wrapped in an ApiResponse envelope
+ */
+export async function validatePayload<S extends z.ZodTypeAny>(
+  request: Promise<unknown>,
+  schema: S,
+  endpoint: string
+): Promise<InferSchema<S>> {
+  const payload = await request;
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    fail(endpoint, result.error.issues);
+  }
+  return payload as InferSchema<S>;
+}
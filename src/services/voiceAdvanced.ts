@@ -2,7 +2,9 @@
  * Voice Advanced API Service
  * Advanced voice analysis features: VAD, speaker analysis, emotion recognition, SSML, prosody control
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
 
 // =============================================================================
 // SSML (Speech Synthesis Markup Language)
@@ -30,45 +32,61 @@ export interface SSMLElement {
   children?: SSMLElement[];
 }
 
+const ssmlElementSchema: z.ZodType<SSMLElement> = z.lazy(
+  (): z.ZodTypeAny =>
+    z.object({
+      type: z.enum(["text", "break", "prosody", "mark"]),
+      content: z.string().nullish(),
+      attributes: z.record(z.any()).nullish(),
+      children: z.array(ssmlElementSchema).nullish(),
+    })
+);
+
 export interface SSMLGenerateRequest {
   text: string;
   elements: SSMLElement[];
   voice_id?: string;
 }
 
-export interface SSMLResponse {
-  ssml: string;
-  audio_url?: string;
-  duration?: number;
-}
+export const ssmlResponseSchema = z.object({
+  ssml: z.string(),
+  audio_url: z.string().nullish(),
+  duration: z.number().nullish(),
+});
+
+export type SSMLResponse = InferSchema<typeof ssmlResponseSchema>;
 
 export interface SSMLParseRequest {
   ssml: string;
 }
 
-export interface SSMLParseResponse {
-  elements: SSMLElement[];
-  metadata: {
-    total_duration: number;
-    element_count: number;
-  };
-}
+export const ssmlParseResponseSchema = z.object({
+  elements: z.array(ssmlElementSchema),
+  metadata: z.object({
+    total_duration: z.number(),
+    element_count: z.number(),
+  }),
+});
+
+export type SSMLParseResponse = InferSchema<typeof ssmlParseResponseSchema>;
 
 // =============================================================================
 // Prosody Control (韵律控制)
 // =============================================================================
 
-export interface ProsodyPreset {
-  id: string;
-  name: string;
-  description: string;
-  config: {
-    rate: string;
-    pitch: string;
-    volume: string;
-  };
-  examples: string[];
-}
+export const prosodyPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  config: z.object({
+    rate: z.string(),
+    pitch: z.string(),
+    volume: z.string(),
+  }),
+  examples: z.array(z.string()),
+});
+
+export type ProsodyPreset = InferSchema<typeof prosodyPresetSchema>;
 
 export interface SentenceAdjustment {
   start_time: number;
@@ -104,14 +122,16 @@ export interface ProsodyApplyRequest {
   output_path?: string;
 }
 
-export interface ProsodyApplyResponse {
-  output_path: string;
-  output_url: string;
-  duration: number;
-  original_duration: number;
-  applied_modifications: string[];
-  success: boolean;
-}
+export const prosodyApplyResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  duration: z.number(),
+  original_duration: z.number(),
+  applied_modifications: z.array(z.string()),
+  success: z.boolean(),
+});
+
+export type ProsodyApplyResponse = InferSchema<typeof prosodyApplyResponseSchema>;
 
 // =============================================================================
 // Voice Quality Assessment
@@ -123,49 +143,73 @@ export interface QualityScoreRequest {
   assessment_type: "clone" | "tts" | "general";
 }
 
-export interface QualityMetrics {
-  overall_score: number;
-  clarity: number;
-  naturalness: number;
-  consistency: number;
-  signal_to_noise_ratio: number;
-  dynamic_range: number;
-  frequency_balance: number;
-  artifacts_detected: string[];
+export const qualityMetricsSchema = z.object({
+  overall_score: z.number(),
+  clarity: z.number(),
+  naturalness: z.number(),
+  consistency: z.number(),
+  signal_to_noise_ratio: z.number(),
+  dynamic_range: z.number(),
+  frequency_balance: z.number(),
+  artifacts_detected: z.array(z.string()),
+});
+
+export type QualityMetrics = InferSchema<typeof qualityMetricsSchema>;
+
+export const qualityScoreResponseSchema = z.object({
+  filename: z.string(),
+  quality_score: z.number(),
+  metrics: qualityMetricsSchema,
+  duration: z.number(),
+  format_compatible: z.boolean(),
+  issues: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  pass_threshold: z.boolean(),
+});
+
+export type QualityScoreResponse = InferSchema<typeof qualityScoreResponseSchema>;
+
+export interface QualityAssessRequest {
+  audio_path: string;
+  detailed?: boolean;
 }
 
-export interface QualityScoreResponse {
-  filename: string;
-  quality_score: number;
-  metrics: QualityMetrics;
-  duration: number;
-  format_compatible: boolean;
-  issues: string[];
-  recommendations: string[];
-  pass_threshold: boolean;
-}
+export const qualityAssessmentSchema = z.object({
+  mos_score: z.number(),
+  speaker_similarity: z.number(),
+  emotion_accuracy: z.number(),
+  snr_db: z.number(),
+  dynamic_range_db: z.number(),
+  recommendations: z.array(z.string()),
+});
+
+export type QualityAssessment = InferSchema<typeof qualityAssessmentSchema>;
 
 // =============================================================================
 // Voice Profile (语音档案)
 // =============================================================================
 
-export interface VoiceProfile {
-  id: string;
-  name: string;
-  description?: string;
-  gender?: "male" | "female" | "neutral";
-  age_range?: string;
-  accent?: string;
-  emotional_range: string[];
-  characteristics: {
-    pitch: { min: number; max: number; avg: number };
-    tempo: { min: number; max: number; avg: number };
-    energy: { min: number; max: number; avg: number };
-  };
-  sample_count: number;
-  created_at: string;
-  updated_at: string;
-}
+const rangeStatsSchema = z.object({ min: z.number(), max: z.number(), avg: z.number() });
+
+export const voiceProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  gender: z.enum(["male", "female", "neutral"]).nullish(),
+  age_range: z.string().nullish(),
+  accent: z.string().nullish(),
+  emotional_range: z.array(z.string()),
+  characteristics: z.object({
+    pitch: rangeStatsSchema,
+    tempo: rangeStatsSchema,
+    energy: rangeStatsSchema,
+  }),
+  sample_count: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type VoiceProfile = InferSchema<typeof voiceProfileSchema>;
 
 export interface VoiceProfileCreate {
   name: string;
@@ -188,21 +232,25 @@ export interface VADDetectRequest {
   window_size?: number;
 }
 
-export interface VADSegment {
-  start: number;
-  end: number;
-  type: "speech" | "silence";
-  confidence: number;
-}
+export const vadSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  type: z.enum(["speech", "silence"]),
+  confidence: z.number(),
+});
 
-export interface VADDetectResponse {
-  segments: VADSegment[];
-  speech_duration: number;
-  silence_duration: number;
-  total_duration: number;
-  speech_ratio: number;
-  segment_count: number;
-}
+export type VADSegment = InferSchema<typeof vadSegmentSchema>;
+
+export const vadDetectResponseSchema = z.object({
+  segments: z.array(vadSegmentSchema),
+  speech_duration: z.number(),
+  silence_duration: z.number(),
+  total_duration: z.number(),
+  speech_ratio: z.number(),
+  segment_count: z.number(),
+});
+
+export type VADDetectResponse = InferSchema<typeof vadDetectResponseSchema>;
 
 // =============================================================================
 // Speaker Analysis (说话人分析)
@@ -214,39 +262,43 @@ export interface SpeakerAnalyzeRequest {
   include_features?: boolean;
 }
 
-export interface SpeakerFeatures {
-  gender: {
-    detected: "male" | "female" | "unknown";
-    confidence: number;
-  };
-  age_range: {
-    detected: string;
-    confidence: number;
-  };
-  pitch: {
-    min: number;
-    max: number;
-    mean: number;
-    std: number;
-  };
-  tempo: {
-    words_per_minute: number;
-    syllables_per_second: number;
-  };
-  voice_type: {
-    detected: string;
-    confidence: number;
-  };
-}
-
-export interface SpeakerAnalyzeResponse {
-  filename: string;
-  duration: number;
-  features: SpeakerFeatures;
-  embedding?: number[];
-  quality_score: number;
-  recommendations: string[];
-}
+export const speakerFeaturesSchema = z.object({
+  gender: z.object({
+    detected: z.enum(["male", "female", "unknown"]),
+    confidence: z.number(),
+  }),
+  age_range: z.object({
+    detected: z.string(),
+    confidence: z.number(),
+  }),
+  pitch: z.object({
+    min: z.number(),
+    max: z.number(),
+    mean: z.number(),
+    std: z.number(),
+  }),
+  tempo: z.object({
+    words_per_minute: z.number(),
+    syllables_per_second: z.number(),
+  }),
+  voice_type: z.object({
+    detected: z.string(),
+    confidence: z.number(),
+  }),
+});
+
+export type SpeakerFeatures = InferSchema<typeof speakerFeaturesSchema>;
+
+export const speakerAnalyzeResponseSchema = z.object({
+  filename: z.string(),
+  duration: z.number(),
+  features: speakerFeaturesSchema,
+  embedding: z.array(z.number()).nullish(),
+  quality_score: z.number(),
+  recommendations: z.array(z.string()),
+});
+
+export type SpeakerAnalyzeResponse = InferSchema<typeof speakerAnalyzeResponseSchema>;
 
 // =============================================================================
 // Emotion Recognition (情感识别)
@@ -258,41 +310,49 @@ export interface EmotionRecognizeRequest {
   segment_analysis?: boolean;
 }
 
-export interface EmotionScores {
-  neutral: number;
-  happy: number;
-  sad: number;
-  angry: number;
-  fearful: number;
-  disgusted: number;
-  surprised: number;
-}
-
-export interface ArousalValence {
-  arousal: number;
-  valence: number;
-}
-
-export interface EmotionSegment {
-  start: number;
-  end: number;
-  emotion: string;
-  confidence: number;
-  arousal_valence?: ArousalValence;
-}
-
-export interface EmotionRecognizeResponse {
-  filename: number;
-  duration: number;
-  overall_emotion: {
-    primary: string;
-    confidence: number;
-    all_scores: EmotionScores;
-    arousal_valence?: ArousalValence;
-  };
-  segments?: EmotionSegment[];
-  emotional_intensity: number;
-}
+export const emotionScoresSchema = z.object({
+  neutral: z.number(),
+  happy: z.number(),
+  sad: z.number(),
+  angry: z.number(),
+  fearful: z.number(),
+  disgusted: z.number(),
+  surprised: z.number(),
+});
+
+export type EmotionScores = InferSchema<typeof emotionScoresSchema>;
+
+export const arousalValenceSchema = z.object({
+  arousal: z.number(),
+  valence: z.number(),
+});
+
+export type ArousalValence = InferSchema<typeof arousalValenceSchema>;
+
+export const emotionSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  emotion: z.string(),
+  confidence: z.number(),
+  arousal_valence: arousalValenceSchema.nullish(),
+});
+
+export type EmotionSegment = InferSchema<typeof emotionSegmentSchema>;
+
+export const emotionRecognizeResponseSchema = z.object({
+  filename: z.union([z.string(), z.number()]),
+  duration: z.number(),
+  overall_emotion: z.object({
+    primary: z.string(),
+    confidence: z.number(),
+    all_scores: emotionScoresSchema,
+    arousal_valence: arousalValenceSchema.nullish(),
+  }),
+  segments: z.array(emotionSegmentSchema).nullish(),
+  emotional_intensity: z.number(),
+});
+
+export type EmotionRecognizeResponse = InferSchema<typeof emotionRecognizeResponseSchema>;
 
 // =============================================================================
 // Comprehensive Analysis (综合分析)
@@ -306,21 +366,23 @@ export interface ComprehensiveAnalyzeRequest {
   include_quality?: boolean;
 }
 
-export interface ComprehensiveAnalysisResponse {
-  filename: string;
-  duration: number;
-  vad?: VADDetectResponse;
-  speaker?: SpeakerAnalyzeResponse;
-  emotion?: EmotionRecognizeResponse;
-  quality?: QualityScoreResponse;
-  summary: {
-    overall_quality: number;
-    speech_content_ratio: number;
-    speaker_characteristics: string;
-    dominant_emotion: string;
-    recommendations: string[];
-  };
-}
+export const comprehensiveAnalysisResponseSchema = z.object({
+  filename: z.string(),
+  duration: z.number(),
+  vad: vadDetectResponseSchema.nullish(),
+  speaker: speakerAnalyzeResponseSchema.nullish(),
+  emotion: emotionRecognizeResponseSchema.nullish(),
+  quality: qualityScoreResponseSchema.nullish(),
+  summary: z.object({
+    overall_quality: z.number(),
+    speech_content_ratio: z.number(),
+    speaker_characteristics: z.string(),
+    dominant_emotion: z.string(),
+    recommendations: z.array(z.string()),
+  }),
+});
+
+export type ComprehensiveAnalysisResponse = InferSchema<typeof comprehensiveAnalysisResponseSchema>;
 
 // =============================================================================
 // Speech Enhancement (语音增强)
@@ -336,18 +398,20 @@ export interface EnhanceRequest {
   output_path?: string;
 }
 
-export interface EnhanceResponse {
-  output_path: string;
-  output_url: string;
-  duration: number;
-  enhancements_applied: {
-    denoise: boolean;
-    dereverb: boolean;
-    volume_normalize: boolean;
-    breath_reduction: boolean;
-    target_lufs?: number;
-  };
-}
+export const enhanceResponseSchema = z.object({
+  output_path: z.string(),
+  output_url: z.string(),
+  duration: z.number(),
+  enhancements_applied: z.object({
+    denoise: z.boolean(),
+    dereverb: z.boolean(),
+    volume_normalize: z.boolean(),
+    breath_reduction: z.boolean(),
+    target_lufs: z.number().nullish(),
+  }),
+});
+
+export type EnhanceResponse = InferSchema<typeof enhanceResponseSchema>;
 
 // =============================================================================
 // Voice Translation (语音翻译)
@@ -361,13 +425,15 @@ export interface TranslateRequest {
   preserve_speaker_characteristics?: boolean;
 }
 
-export interface TranslateResponse {
-  translated_text: string;
-  audio_url?: string;
-  source_language: string;
-  target_language: string;
-  duration?: number;
-}
+export const translateResponseSchema = z.object({
+  translated_text: z.string(),
+  audio_url: z.string().nullish(),
+  source_language: z.string(),
+  target_language: z.string(),
+  duration: z.number().nullish(),
+});
+
+export type TranslateResponse = InferSchema<typeof translateResponseSchema>;
 
 // =============================================================================
 // API Client
@@ -375,76 +441,169 @@ export interface TranslateResponse {
 
 export const voiceAdvancedApi = {
   // SSML
-  generateSSML: async (request: SSMLGenerateRequest): Promise<ApiResponse<SSMLResponse>> => {
-    return apiClient.post("/voice-advanced/ssml/generate", request);
+  generateSSML: async (request: SSMLGenerateRequest, signal?: AbortSignal): Promise<ApiResponse<SSMLResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/ssml/generate", request, { signal }),
+      ssmlResponseSchema,
+      "POST /voice-advanced/ssml/generate"
+    );
   },
 
-  parseSSML: async (request: SSMLParseRequest): Promise<ApiResponse<SSMLParseResponse>> => {
-    return apiClient.post("/voice-advanced/ssml/parse", request);
+  parseSSML: async (request: SSMLParseRequest, signal?: AbortSignal): Promise<ApiResponse<SSMLParseResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/ssml/parse", request, { signal }),
+      ssmlParseResponseSchema,
+      "POST /voice-advanced/ssml/parse"
+    );
   },
 
   // Prosody
-  getProsodyPresets: async (): Promise<ApiResponse<Record<string, ProsodyPreset>>> => {
-    return apiClient.get("/voice-advanced/prosody/presets");
+  getProsodyPresets: async (signal?: AbortSignal): Promise<ApiResponse<Record<string, ProsodyPreset>>> => {
+    return validateResponse(
+      apiClient.get("/voice-advanced/prosody/presets", undefined, { signal }),
+      z.record(prosodyPresetSchema),
+      "GET /voice-advanced/prosody/presets"
+    );
   },
 
-  applyProsody: async (request: ProsodyApplyRequest): Promise<ApiResponse<ProsodyApplyResponse>> => {
-    return apiClient.post("/voice-advanced/prosody/apply", request);
+  applyProsody: async (
+    request: ProsodyApplyRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ProsodyApplyResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/prosody/apply", request, { signal }),
+      prosodyApplyResponseSchema,
+      "POST /voice-advanced/prosody/apply"
+    );
   },
 
   // Quality
-  scoreQuality: async (request: QualityScoreRequest): Promise<ApiResponse<QualityScoreResponse>> => {
-    return apiClient.post("/voice-advanced/quality/score", request);
+  scoreQuality: async (
+    request: QualityScoreRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<QualityScoreResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/quality/score", request, { signal }),
+      qualityScoreResponseSchema,
+      "POST /voice-advanced/quality/score"
+    );
+  },
+
+  scoreQualityBatch: async (
+    requests: QualityScoreRequest[],
+    signal?: AbortSignal
+  ): Promise<ApiResponse<QualityScoreResponse[]>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/quality/batch-score", { requests }, { signal }),
+      z.array(qualityScoreResponseSchema),
+      "POST /voice-advanced/quality/batch-score"
+    );
   },
 
-  scoreQualityBatch: async (requests: QualityScoreRequest[]): Promise<ApiResponse<QualityScoreResponse[]>> => {
-    return apiClient.post("/voice-advanced/quality/batch-score", { requests });
+  assessQuality: async (
+    request: QualityAssessRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<QualityAssessment>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/assess-quality", request, { signal }),
+      qualityAssessmentSchema,
+      "POST /voice-advanced/assess-quality"
+    );
   },
 
   // Voice Profiles
-  getVoiceProfiles: async (): Promise<ApiResponse<VoiceProfile[]>> => {
-    return apiClient.get("/voice-advanced/voice-profiles");
+  getVoiceProfiles: async (signal?: AbortSignal): Promise<ApiResponse<VoiceProfile[]>> => {
+    return validateResponse(
+      apiClient.get("/voice-advanced/voice-profiles", undefined, { signal }),
+      z.array(voiceProfileSchema),
+      "GET /voice-advanced/voice-profiles"
+    );
   },
 
-  getVoiceProfile: async (profileId: string): Promise<ApiResponse<VoiceProfile>> => {
-    return apiClient.get(`/voice-advanced/voice-profiles/${profileId}`);
+  getVoiceProfile: async (profileId: string, signal?: AbortSignal): Promise<ApiResponse<VoiceProfile>> => {
+    return validateResponse(
+      apiClient.get(`/voice-advanced/voice-profiles/${profileId}`, undefined, { signal }),
+      voiceProfileSchema,
+      "GET /voice-advanced/voice-profiles/:id"
+    );
   },
 
-  createVoiceProfile: async (request: VoiceProfileCreate): Promise<ApiResponse<VoiceProfile>> => {
-    return apiClient.post("/voice-advanced/voice-profiles", request);
+  createVoiceProfile: async (request: VoiceProfileCreate, signal?: AbortSignal): Promise<ApiResponse<VoiceProfile>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/voice-profiles", request, { signal }),
+      voiceProfileSchema,
+      "POST /voice-advanced/voice-profiles"
+    );
   },
 
-  deleteVoiceProfile: async (profileId: string): Promise<ApiResponse<{ message: string }>> => {
-    return apiClient.delete(`/voice-advanced/voice-profiles/${profileId}`);
+  deleteVoiceProfile: async (profileId: string, signal?: AbortSignal): Promise<ApiResponse<{ message: string }>> => {
+    return validateResponse(
+      apiClient.delete(`/voice-advanced/voice-profiles/${profileId}`, undefined, { signal }),
+      z.object({ message: z.string() }),
+      "DELETE /voice-advanced/voice-profiles/:id"
+    );
   },
 
   // VAD
-  detectVAD: async (request: VADDetectRequest): Promise<ApiResponse<VADDetectResponse>> => {
-    return apiClient.post("/voice-advanced/vad/detect", request);
+  detectVAD: async (request: VADDetectRequest, signal?: AbortSignal): Promise<ApiResponse<VADDetectResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/vad/detect", request, { signal }),
+      vadDetectResponseSchema,
+      "POST /voice-advanced/vad/detect"
+    );
   },
 
   // Speaker Analysis
-  analyzeSpeaker: async (request: SpeakerAnalyzeRequest): Promise<ApiResponse<SpeakerAnalyzeResponse>> => {
-    return apiClient.post("/voice-advanced/speaker/analyze", request);
+  analyzeSpeaker: async (
+    request: SpeakerAnalyzeRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<SpeakerAnalyzeResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/speaker/analyze", request, { signal }),
+      speakerAnalyzeResponseSchema,
+      "POST /voice-advanced/speaker/analyze"
+    );
   },
 
   // Emotion Recognition
-  recognizeEmotion: async (request: EmotionRecognizeRequest): Promise<ApiResponse<EmotionRecognizeResponse>> => {
-    return apiClient.post("/voice-advanced/emotion/recognize", request);
+  recognizeEmotion: async (
+    request: EmotionRecognizeRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<EmotionRecognizeResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/emotion/recognize", request, { signal }),
+      emotionRecognizeResponseSchema,
+      "POST /voice-advanced/emotion/recognize"
+    );
   },
 
   // Comprehensive Analysis
-  analyzeComprehensive: async (request: ComprehensiveAnalyzeRequest): Promise<ApiResponse<ComprehensiveAnalysisResponse>> => {
-    return apiClient.post("/voice-advanced/analyze/comprehensive", request);
+  analyzeComprehensive: async (
+    request: ComprehensiveAnalyzeRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ComprehensiveAnalysisResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/analyze/comprehensive", request, { signal }),
+      comprehensiveAnalysisResponseSchema,
+      "POST /voice-advanced/analyze/comprehensive"
+    );
   },
 
   // Enhancement
-  enhanceAudio: async (request: EnhanceRequest): Promise<ApiResponse<EnhanceResponse>> => {
-    return apiClient.post("/voice-advanced/enhance", request);
+  enhanceAudio: async (request: EnhanceRequest, signal?: AbortSignal): Promise<ApiResponse<EnhanceResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/enhance", request, { signal }),
+      enhanceResponseSchema,
+      "POST /voice-advanced/enhance"
+    );
   },
 
   // Translation
-  translate: async (request: TranslateRequest): Promise<ApiResponse<TranslateResponse>> => {
-    return apiClient.post("/voice-advanced/translate", request);
+  translate: async (request: TranslateRequest, signal?: AbortSignal): Promise<ApiResponse<TranslateResponse>> => {
+    return validateResponse(
+      apiClient.post("/voice-advanced/translate", request, { signal }),
+      translateResponseSchema,
+      "POST /voice-advanced/translate"
+    );
   },
 };
@@ -1,20 +1,24 @@
 /**
  * Voice Styling API Service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
-
-export interface EmotionParameters {
-  happiness?: number;
-  sadness?: number;
-  anger?: number;
-  fear?: number;
-  surprise?: number;
-  neutral?: number;
-  energy?: number;
-  tempo?: number;
-  pitch?: number;
-  volume?: number;
-}
+import { type InferSchema, validateResponse } from "./validation";
+
+export const emotionParametersSchema = z.object({
+  happiness: z.number().nullish(),
+  sadness: z.number().nullish(),
+  anger: z.number().nullish(),
+  fear: z.number().nullish(),
+  surprise: z.number().nullish(),
+  neutral: z.number().nullish(),
+  energy: z.number().nullish(),
+  tempo: z.number().nullish(),
+  pitch: z.number().nullish(),
+  volume: z.number().nullish(),
+});
+
+export type EmotionParameters = InferSchema<typeof emotionParametersSchema>;
 
 export interface VoiceStyle {
   name: string;
@@ -27,16 +31,19 @@ export interface VoiceStyle {
   accent?: string;
 }
 
-export interface EmotionPreset {
-  id: string;
-  name: string;
-  description?: string;
-  emotion: EmotionParameters;
-  example_instruct?: string;
-}
+export const emotionPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  emotion: emotionParametersSchema,
+  example_instruct: z.string().nullish(),
+});
+
+export type EmotionPreset = InferSchema<typeof emotionPresetSchema>;
 
 export interface VoiceStylingRequest {
   text: string;
+  voice_name?: string;
   emotion: EmotionParameters;
   style?: VoiceStyle;
   preset_id?: string;
@@ -64,29 +71,81 @@ export interface SpeechEnhancementRequest {
   target_lufs?: number;
 }
 
-export interface TTSLanguageConfig {
-  language_code: string;
-  language_name: string;
-  supported_voices: string[];
-  emotion_support: boolean;
-  sample_rate: number;
-  model_type: string;
-}
+export const ttsLanguageConfigSchema = z.object({
+  language_code: z.string(),
+  language_name: z.string(),
+  supported_voices: z.array(z.string()),
+  emotion_support: z.boolean(),
+  sample_rate: z.number(),
+  model_type: z.string(),
+});
+
+export type TTSLanguageConfig = InferSchema<typeof ttsLanguageConfigSchema>;
+
+const styledAudioSchema = z.object({
+  audio_url: z.string(),
+  duration: z.number(),
+  instruction: z.string().nullish(),
+  emotion_applied: emotionParametersSchema.nullish(),
+  message: z.string().nullish(),
+});
+
+const voiceConversionSchema = z.object({
+  converted_audio_url: z.string(),
+  target_voice_id: z.string(),
+  preserve_timing: z.boolean(),
+  preserve_prosody: z.boolean(),
+  message: z.string(),
+});
+
+const batchVoiceCloneSchema = z.object({
+  voice_id: z.string(),
+  voice_name: z.string(),
+  sample_count: z.number(),
+  sample_paths: z.array(z.string()),
+  language: z.string(),
+  status: z.string(),
+  message: z.string(),
+});
+
+const speechEnhancementSchema = z.object({
+  enhanced_audio_url: z.string(),
+  original_path: z.string(),
+  enhancements_applied: z.object({
+    denoise: z.boolean(),
+    volume_normalize: z.boolean(),
+    compression: z.boolean(),
+    target_lufs: z.number().nullish(),
+  }),
+  message: z.string(),
+});
 
 export const voiceStylingApi = {
   // 获取所有情感预设
-  getEmotionPresets: async (): Promise<ApiResponse<EmotionPreset[]>> => {
-    return apiClient.get("/voice-styling/presets");
+  getEmotionPresets: async (signal?: AbortSignal): Promise<ApiResponse<EmotionPreset[]>> => {
+    return validateResponse(
+      apiClient.get("/voice-styling/presets", undefined, { signal }),
+      z.array(emotionPresetSchema),
+      "GET /voice-styling/presets"
+    );
   },
 
   // 获取特定情感预设
-  getEmotionPreset: async (presetId: string): Promise<ApiResponse<EmotionPreset>> => {
-    return apiClient.get(`/voice-styling/presets/${presetId}`);
+  getEmotionPreset: async (presetId: string, signal?: AbortSignal): Promise<ApiResponse<EmotionPreset>> => {
+    return validateResponse(
+      apiClient.get(`/voice-styling/presets/${presetId}`, undefined, { signal }),
+      emotionPresetSchema,
+      "GET /voice-styling/presets/:id"
+    );
   },
 
   // 获取支持的语言列表
-  getSupportedLanguages: async (): Promise<ApiResponse<TTSLanguageConfig[]>> => {
-    return apiClient.get("/voice-styling/languages");
+  getSupportedLanguages: async (signal?: AbortSignal): Promise<ApiResponse<TTSLanguageConfig[]>> => {
+    return validateResponse(
+      apiClient.get("/voice-styling/languages", undefined, { signal }),
+      z.array(ttsLanguageConfigSchema),
+      "GET /voice-styling/languages"
+    );
   },
 
   // 生成带情感的语音
@@ -97,34 +156,36 @@ export const voiceStylingApi = {
     intensity: number;
     speed: number;
     pitch: number;
-  }): Promise<ApiResponse<{ audio_url: string; duration: number }>> => {
-    return apiClient.post("/voice-styling/generate-styled", request);
+  }, signal?: AbortSignal): Promise<ApiResponse<{ audio_url: string; duration: number }>> => {
+    return validateResponse(
+      apiClient.post("/voice-styling/generate-styled", request, { signal }),
+      styledAudioSchema,
+      "POST /voice-styling/generate-styled"
+    );
   },
 
   // 生成带情感的语音（完整版）
-  generateStyledAudio: async (request: VoiceStylingRequest): Promise<
-    ApiResponse<{
-      audio_url: string;
-      duration: number;
-      instruction: string;
-      emotion_applied: EmotionParameters;
-      message: string;
-    }>
-  > => {
-    return apiClient.post("/voice-styling/generate-styled", request);
+  generateStyledAudio: async (
+    request: VoiceStylingRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof styledAudioSchema>>> => {
+    return validateResponse(
+      apiClient.post("/voice-styling/generate-styled", request, { signal }),
+      styledAudioSchema,
+      "POST /voice-styling/generate-styled"
+    );
   },
 
   // 语音转换
-  convertVoice: async (request: VoiceConversionRequest): Promise<
-    ApiResponse<{
-      converted_audio_url: string;
-      target_voice_id: string;
-      preserve_timing: boolean;
-      preserve_prosody: boolean;
-      message: string;
-    }>
-  > => {
-    return apiClient.post("/voice-styling/convert-voice", request);
+  convertVoice: async (
+    request: VoiceConversionRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof voiceConversionSchema>>> => {
+    return validateResponse(
+      apiClient.post("/voice-styling/convert-voice", request, { signal }),
+      voiceConversionSchema,
+      "POST /voice-styling/convert-voice"
+    );
   },
 
   // 批量语音克隆
@@ -133,17 +194,7 @@ export const voiceStylingApi = {
     voice_name: string;
     description?: string;
     language?: string;
-  }): Promise<
-    ApiResponse<{
-      voice_id: string;
-      voice_name: string;
-      sample_count: number;
-      sample_paths: string[];
-      language: string;
-      status: string;
-      message: string;
-    }>
-  > => {
+  }, signal?: AbortSignal): Promise<ApiResponse<InferSchema<typeof batchVoiceCloneSchema>>> => {
     const formData = new FormData();
     request.voice_samples.forEach((file) => {
       formData.append("voice_samples", file);
@@ -156,23 +207,22 @@ export const voiceStylingApi = {
       formData.append("language", request.language);
     }
 
-    return apiClient.upload("/voice-styling/batch-clone", formData);
+    return validateResponse(
+      apiClient.upload("/voice-styling/batch-clone", formData, undefined, { signal }),
+      batchVoiceCloneSchema,
+      "POST /voice-styling/batch-clone"
+    );
   },
 
   // 语音增强
-  enhanceSpeech: async (request: SpeechEnhancementRequest): Promise<
-    ApiResponse<{
-      enhanced_audio_url: string;
-      original_path: string;
-      enhancements_applied: {
-        denoise: boolean;
-        volume_normalize: boolean;
-        compression: boolean;
-        target_lufs?: number;
-      };
-      message: string;
-    }>
-  > => {
-    return apiClient.post("/voice-styling/enhance-speech", request);
+  enhanceSpeech: async (
+    request: SpeechEnhancementRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof speechEnhancementSchema>>> => {
+    return validateResponse(
+      apiClient.post("/voice-styling/enhance-speech", request, { signal }),
+      speechEnhancementSchema,
+      "POST /voice-styling/enhance-speech"
+    );
   },
 };
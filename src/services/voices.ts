@@ -1,70 +1,123 @@
 /**
  * Voices API Service
  */
+import { z } from "zod";
 import { apiClient, ApiResponse } from "./api";
+import { type InferSchema, validateResponse } from "./validation";
+import { uploadResumable, type UploadController, type UploadProgress } from "./uploads";
 
-export interface Voice {
-  id: string;
-  name: string;
-  gender?: "male" | "female";
-  language?: string;
-}
-
-export interface VoiceConfig {
-  speaker: string;
-  voice_type: "custom" | "clone" | "lora" | "design";
-  voice_name?: string;
-  style?: string;
-  ref_audio_path?: string;
-  lora_model_path?: string;
-  language?: string;
-}
+export const voiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  gender: z.enum(["male", "female"]).nullish(),
+  language: z.string().nullish(),
+});
+
+export type Voice = InferSchema<typeof voiceSchema>;
+
+export const voiceConfigSchema = z.object({
+  speaker: z.string(),
+  voice_type: z.enum(["custom", "clone", "lora", "design"]),
+  voice_name: z.string().nullish(),
+  style: z.string().nullish(),
+  ref_audio_path: z.string().nullish(),
+  lora_model_path: z.string().nullish(),
+  language: z.string().nullish(),
+});
+
+export type VoiceConfig = InferSchema<typeof voiceConfigSchema>;
+
+const voiceReferenceSchema = z.object({
+  reference: z.string().nullish(),
+  texture_timbre: z.record(z.array(z.string())).nullish(),
+  emotion: z.record(z.array(z.string())).nullish(),
+  delivery: z.record(z.string()).nullish(),
+  examples: z.array(z.record(z.string())).nullish(),
+});
+
+const voiceListSchema = z.object({
+  custom: z.array(voiceSchema),
+  lora: z.array(voiceSchema),
+});
+
+const consistencyIssueSchema = z.object({
+  speaker: z.string(),
+  issue_type: z.string(),
+  description: z.string(),
+  affected_entries: z.number(),
+});
+
+const consistencyCheckSchema = z.object({
+  is_consistent: z.boolean(),
+  issues: z.array(consistencyIssueSchema),
+  speakers_summary: z.record(z.number()),
+});
+
+const consistencyFixSchema = z.object({
+  fixed_count: z.number(),
+  issues_fixed: z.array(z.string()),
+  remaining_issues: z.array(z.string()),
+});
+
+const speakerSuggestionSchema = z.object({
+  speaker: z.string(),
+  suggested_voice: z.string(),
+  suggested_config: voiceConfigSchema,
+  reason: z.string(),
+});
 
 export const voicesApi = {
   // Get voice reference vocabulary
-  getReference: async (): Promise<
-    ApiResponse<{
-      reference?: string;
-      texture_timbre?: Record<string, string[]>;
-      emotion?: Record<string, string[]>;
-      delivery?: Record<string, string>;
-      examples?: Array<Record<string, string>>;
-    }>
-  > => {
-    return apiClient.get("/voices/reference");
+  getReference: async (signal?: AbortSignal): Promise<ApiResponse<InferSchema<typeof voiceReferenceSchema>>> => {
+    return validateResponse(
+      apiClient.get("/voices/reference", undefined, { signal }),
+      voiceReferenceSchema,
+      "GET /voices/reference"
+    );
   },
 
   // Get available voices
-  list: async (): Promise<
-    ApiResponse<{
-      custom: Voice[];
-      lora: Voice[];
-    }>
-  > => {
-    return apiClient.get("/voices");
+  list: async (signal?: AbortSignal): Promise<ApiResponse<InferSchema<typeof voiceListSchema>>> => {
+    return validateResponse(apiClient.get("/voices", undefined, { signal }), voiceListSchema, "GET /voices");
   },
 
   // Get project voice configs
-  getProjectVoices: async (projectId: string): Promise<ApiResponse<{ voices: VoiceConfig[] }>> => {
-    return apiClient.get(`/projects/${projectId}/voices`);
+  getProjectVoices: async (
+    projectId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ voices: VoiceConfig[] }>> => {
+    return validateResponse(
+      apiClient.get(`/projects/${projectId}/voices`, undefined, { signal }),
+      z.object({ voices: z.array(voiceConfigSchema) }),
+      "GET /projects/:id/voices"
+    );
   },
 
   // Parse speakers from script
-  parseSpeakers: async (projectId: string): Promise<
+  parseSpeakers: async (projectId: string, signal?: AbortSignal): Promise<
     ApiResponse<{
       speakers: string[];
       total_entries: number;
     }>
   > => {
-    return apiClient.post(`/projects/${projectId}/voices/parse`);
+    return validateResponse(
+      apiClient.post(`/projects/${projectId}/voices/parse`, undefined, { signal }),
+      z.object({ speakers: z.array(z.string()), total_entries: z.number() }),
+      "POST /projects/:id/voices/parse"
+    );
   },
 
   // Set voice config
   setVoiceConfig: async (
     projectId: string,
-    voices: VoiceConfig[]
+    voices: VoiceConfig[],
+    signal?: AbortSignal
   ): Promise<ApiResponse<{ updated: boolean; count: number }>> => {
-    return apiClient.post(`/projects/${projectId}/voices/config`, { voices });
+    return validateResponse(
+      apiClient.post(`/projects/${projectId}/voices/config`, { voices }, { signal }),
+      z.object({ updated: z.boolean(), count: z.number() }),
+      "POST /projects/:id/voices/config"
+    );
   },
 
   // Preview voice
@@ -73,19 +126,30 @@ export const voicesApi = {
     voice_type: string;
     voice_name?: string;
     instruct?: string;
-  }): Promise<ApiResponse<{ audio_url: string; duration: number }>> => {
-    return apiClient.post("/voices/preview", data);
+  }, signal?: AbortSignal): Promise<ApiResponse<{ audio_url: string; duration: number }>> => {
+    return validateResponse(
+      apiClient.post("/voices/preview", data, { signal }),
+      z.object({ audio_url: z.string(), duration: z.number() }),
+      "POST /voices/preview"
+    );
   },
 
-  // Upload reference audio for cloning
+  // Upload reference audio for cloning, in resumable chunks
   uploadCloneAudio: async (
     audio: File,
-    text: string
+    text: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: UploadProgress) => void,
+    controller?: UploadController
   ): Promise<ApiResponse<{ audio_path: string; duration: number }>> => {
-    const formData = new FormData();
-    formData.append("audio", audio);
-    formData.append("text", text);
-    return apiClient.upload("/voices/clone/upload", formData);
+    return uploadResumable(audio, {
+      purpose: "voice_clone",
+      fields: { text },
+      schema: z.object({ audio_path: z.string(), duration: z.number() }),
+      onProgress,
+      signal,
+      controller,
+    });
   },
 
   // Design voice from description
@@ -94,46 +158,48 @@ export const voicesApi = {
     gender?: "male" | "female";
     age_range?: string;
     style?: string;
-  }): Promise<ApiResponse<{ preview_url: string; voice_id: string }>> => {
-    return apiClient.post("/voices/design", data);
+  }, signal?: AbortSignal): Promise<ApiResponse<{ preview_url: string; voice_id: string }>> => {
+    return validateResponse(
+      apiClient.post("/voices/design", data, { signal }),
+      z.object({ preview_url: z.string(), voice_id: z.string() }),
+      "POST /voices/design"
+    );
   },
 
   // Voice Consistency Check
-  checkConsistency: async (projectId: string): Promise<
-    ApiResponse<{
-      is_consistent: boolean;
-      issues: Array<{
-        speaker: string;
-        issue_type: string;
-        description: string;
-        affected_entries: number;
-      }>;
-      speakers_summary: Record<string, number>;
-    }>
-  > => {
-    return apiClient.get(`/projects/${projectId}/voice-consistency/check`);
+  checkConsistency: async (
+    projectId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof consistencyCheckSchema>>> => {
+    return validateResponse(
+      apiClient.get(`/projects/${projectId}/voice-consistency/check`, undefined, { signal }),
+      consistencyCheckSchema,
+      "GET /projects/:id/voice-consistency/check"
+    );
   },
 
   // Auto-fix consistency issues
-  autoFixConsistency: async (projectId: string): Promise<
-    ApiResponse<{
-      fixed_count: number;
-      issues_fixed: string[];
-      remaining_issues: string[];
-    }>
-  > => {
-    return apiClient.post(`/projects/${projectId}/voice-consistency/auto-fix`);
+  autoFixConsistency: async (
+    projectId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof consistencyFixSchema>>> => {
+    return validateResponse(
+      apiClient.post(`/projects/${projectId}/voice-consistency/auto-fix`, undefined, { signal }),
+      consistencyFixSchema,
+      "POST /projects/:id/voice-consistency/auto-fix"
+    );
   },
 
   // Get voice suggestions for a speaker
-  getSpeakerSuggestion: async (projectId: string, speaker: string): Promise<
-    ApiResponse<{
-      speaker: string;
-      suggested_voice: string;
-      suggested_config: VoiceConfig;
-      reason: string;
-    }>
-  > => {
-    return apiClient.get(`/projects/${projectId}/voice-consistency/suggest/${speaker}`);
+  getSpeakerSuggestion: async (
+    projectId: string,
+    speaker: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<InferSchema<typeof speakerSuggestionSchema>>> => {
+    return validateResponse(
+      apiClient.get(`/projects/${projectId}/voice-consistency/suggest/${speaker}`, undefined, { signal }),
+      speakerSuggestionSchema,
+      "GET /projects/:id/voice-consistency/suggest/:speaker"
+    );
   },
 };
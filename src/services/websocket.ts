@@ -1,8 +1,9 @@
 /**
  * WebSocket Service for Real-time Progress Updates
  */
+import { session } from "./session";
 
-type ProgressMessage = {
+export type ProgressMessage = {
   type: 'connected' | 'progress' | 'chunk_completed' | 'generation_complete' | 'error' | 'heartbeat' | 'pong';
   project_id: string;
   timestamp: string;
@@ -30,12 +31,32 @@ type ProgressMessage = {
   };
 };
 
-type ProgressCallback = (message: ProgressMessage) => void;
+export type ProgressCallback = (message: ProgressMessage) => void;
+
+/**
+ * Supplies the token for each (re)connect
+ */
+export type TokenProvider = () => Promise<string | null>;
+
+/**
+ * Opens the socket for a progress URL; swapped out by the mock backend
+ */
+export type SocketFactory = (url: string) => WebSocket;
+
+let socketFactory: SocketFactory = (url) => new WebSocket(url);
+
+export const setSocketFactory = (factory: SocketFactory) => {
+  socketFactory = factory;
+};
+
+// Close codes the backend uses when it rejects the token
+const AUTH_CLOSE_CODES = [1008, 4401];
 
 export class ProjectWebSocket {
   private ws: WebSocket | null = null;
   private projectId: string;
-  private url: string;
+  private baseUrl: string;
+  private getToken: TokenProvider;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
@@ -43,19 +64,25 @@ export class ProjectWebSocket {
   private callbacks: Set<ProgressCallback> = new Set();
   private heartbeatInterval: NodeJS.Timeout | null = null;
 
-  constructor(projectId: string, token?: string) {
+  /**
+   * `getToken` defaults to the shared session, so every reconnect uses a
+   * token refreshed the same way as HTTP requests.
+   */
+  constructor(projectId: string, getToken: TokenProvider = () => session.getValidToken()) {
     this.projectId = projectId;
+    this.getToken = getToken;
     const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsHost = window.location.hostname;
     const wsPort = import.meta.env.VITE_API_BASE_URL?.replace(/https?:\/\/([^/:]+).*$/, '$1') || 'localhost:8000';
-    const tokenParam = token ? `?token=${token}` : '';
-    this.url = `${wsProtocol}//${wsPort}/api/ws/projects/${projectId}/progress${tokenParam}`;
+    this.baseUrl = `${wsProtocol}//${wsPort}/api/ws/projects/${projectId}/progress`;
   }
 
-  connect(): Promise<void> {
+  async connect(): Promise<void> {
+    const token = await this.getToken();
+    const url = token ? `${this.baseUrl}?token=${encodeURIComponent(token)}` : this.baseUrl;
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
+        this.ws = socketFactory(url);
         this.isManualClose = false;
 
         this.ws.onopen = () => {
@@ -78,16 +105,22 @@ export class ProjectWebSocket {
           reject(error);
         };
 
-        this.ws.onclose = () => {
+        this.ws.onclose = async (event) => {
           console.log('WebSocket closed');
           this.stopHeartbeat();
 
+          // Token rejected: refresh before reconnecting, give up if the session is gone
+          if (!this.isManualClose && AUTH_CLOSE_CODES.includes(event.code)) {
+            const token = await session.refresh();
+            if (!token) return;
+          }
+
           // Attempt reconnection if not manual close
           if (!this.isManualClose && this.reconnectAttempts < this.maxReconnectAttempts) {
             this.reconnectAttempts++;
             const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
             console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-            setTimeout(() => this.connect(), delay);
+            setTimeout(() => this.connect().catch(console.error), delay);
           }
         };
 
@@ -154,7 +187,7 @@ class WebSocketServiceManager {
     this.connections = new Map();
   }
 
-  connect(projectId: string, token?: string): ProjectWebSocket {
+  connect(projectId: string, getToken?: TokenProvider): ProjectWebSocket {
     // Return existing connection if available
     const existing = this.connections.get(projectId);
     if (existing && existing.isConnected()) {
@@ -162,7 +195,7 @@ class WebSocketServiceManager {
     }
 
     // Create new connection
-    const ws = new ProjectWebSocket(projectId, token);
+    const ws = new ProjectWebSocket(projectId, getToken);
     this.connections.set(projectId, ws);
     ws.connect().catch(console.error);
 
@@ -27,7 +27,7 @@ interface AudioState {
   setCurrentTime: (t: number) => void;
   setDuration: (d: number) => void;
   cycleSpeed: () => void;
-  seekToBlock: (blockIndex: number) => void;
+  seekToBlock: (blockIndex: number) => boolean;
   setActiveBlock: (index: number | null) => void;
   setParagraphTimeMap: (map: ParagraphTimeMap) => void;
   setBlockTexts: (texts: string[]) => void;
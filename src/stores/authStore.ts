@@ -4,12 +4,15 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { authService, type User } from "@/services/auth";
+import { session } from "@/services/session";
 
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  /** 会话因令牌无法刷新而失效，登录页据此提示 */
+  sessionExpired: boolean;
 
   // Actions
   login: (email: string, password: string) => Promise<void>;
@@ -26,6 +29,7 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      sessionExpired: false,
 
       login: async (email, password) => {
         set({ isLoading: true, error: null });
@@ -36,6 +40,7 @@ export const useAuthStore = create<AuthState>()(
               user: response.data.user,
               isAuthenticated: true,
               isLoading: false,
+              sessionExpired: false,
             });
           } else {
             throw new Error(response.error?.message || "登录失败");
@@ -58,6 +63,7 @@ export const useAuthStore = create<AuthState>()(
               user: response.data.user,
               isAuthenticated: true,
               isLoading: false,
+              sessionExpired: false,
             });
           } else {
             throw new Error(response.error?.message || "注册失败");
@@ -76,6 +82,7 @@ export const useAuthStore = create<AuthState>()(
         set({
           user: null,
           isAuthenticated: false,
+          sessionExpired: false,
         });
       },
 
@@ -91,6 +98,9 @@ export const useAuthStore = create<AuthState>()(
             user,
             isAuthenticated: true,
           });
+        } else {
+          // 持久化的登录状态已没有对应的令牌
+          set({ user: null, isAuthenticated: false });
         }
       },
     }),
@@ -103,3 +113,8 @@ export const useAuthStore = create<AuthState>()(
     }
   )
 );
+
+// 刷新令牌失败时同步登出状态，ProtectedRoute 会据此跳转到登录页
+session.onExpired(() => {
+  useAuthStore.setState({ user: null, isAuthenticated: false, sessionExpired: true });
+});
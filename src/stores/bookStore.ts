@@ -3,20 +3,31 @@
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { booksApi, type Book as ApiBook } from "@/services";
-
-export interface Book {
-  id: string;
-  title: string;
-  author?: string;
-  coverUrl?: string;
-  fileType: "txt" | "pdf" | "epub";
-  totalPages?: number;
-  totalChars?: number;
-  progress: number;
-  createdAt: string;
-  updatedAt: string;
-  projects?: any[];
+import {
+  booksApi,
+  isRequestCanceled,
+  type BookListParams,
+  type BookUpdate,
+  type UploadController,
+  type UploadProgress,
+} from "@/services";
+import { fromReadingPosition, toBook, type Book, type ReadingPosition } from "@/services/generated/models";
+import { createRequestScope } from "@/lib/abort";
+import type { PlaceRead } from "@/lib/position";
+import type { BookSort } from "@/lib/shelves";
+
+export type { Book };
+
+/** This device's last place in a book, and whether the backend has it yet */
+export interface SavedPlace extends PlaceRead {
+  synced: boolean;
+}
+
+/** How the bookshelf asks for its books */
+export interface ShelfQuery {
+  sort: BookSort;
+  order: "asc" | "desc";
+  search: string;
 }
 
 interface BookStore {
@@ -24,39 +35,47 @@ interface BookStore {
   currentBook: Book | null;
   isLoading: boolean;
   error: string | null;
+  /** Last place read on this device, by book */
+  places: Record<string, SavedPlace>;
+  /** Tells this device's reading positions apart from other devices' */
+  deviceId: string;
+  shelfQuery: ShelfQuery;
 
   // Actions
-  fetchBooks: (params?: {
-    page?: number;
-    page_size?: number;
-    search?: string;
-  }) => Promise<void>;
-  fetchBook: (bookId: string) => Promise<void>;
+  /** The bookshelf's sort and search apply unless `params` overrides them */
+  fetchBooks: (params?: BookListParams, signal?: AbortSignal) => Promise<void>;
+  setShelfQuery: (change: Partial<ShelfQuery>) => void;
+  fetchBook: (bookId: string, signal?: AbortSignal) => Promise<void>;
   setCurrentBook: (book: Book | null) => void;
   addBook: (book: Book) => void;
   removeBook: (bookId: string) => void;
   deleteBook: (bookId: string) => Promise<void>;
-  updateBookProgress: (bookId: string, progress: number) => void;
+  deleteBooks: (bookIds: string[]) => Promise<void>;
+  updateBook: (bookId: string, data: Pick<BookUpdate, "tags" | "collection_ids">) => Promise<void>;
+  /** Swap in fresh copies of books the backend changed */
+  replaceBooks: (books: Book[]) => void;
+  updateBookProgress: (bookId: string, progress: number, position: ReadingPosition) => void;
+  syncProgress: (bookId: string) => Promise<void>;
   uploadBook: (
     file: File,
     metadata?: { title?: string; author?: string },
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number, details?: UploadProgress) => void,
+    controller?: UploadController
   ) => Promise<Book>;
 }
 
-const mapApiBook = (apiBook: ApiBook): Book => ({
-  id: apiBook.id,
-  title: apiBook.title,
-  author: apiBook.author,
-  coverUrl: apiBook.cover_url,
-  fileType: apiBook.file_type,
-  totalPages: apiBook.total_pages,
-  totalChars: apiBook.total_chars,
-  progress: apiBook.progress,
-  createdAt: apiBook.created_at,
-  updatedAt: apiBook.updated_at,
-  projects: apiBook.projects,
-});
+// A newer search or book switch cancels the request it replaces
+const listRequests = createRequestScope();
+const detailRequests = createRequestScope();
+
+// The bookshelf groups and filters on the client, so it loads the whole library at once
+const LIBRARY_PAGE_SIZE = 200;
+
+// A position is sent once the reader has stayed put this long
+const SYNC_POSITION_DELAY = 1500;
+const syncTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const newDeviceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 
 export const useBookStore = create<BookStore>()(
   persist(
@@ -65,16 +84,29 @@ export const useBookStore = create<BookStore>()(
       currentBook: null,
       isLoading: false,
       error: null,
+      places: {},
+      deviceId: newDeviceId(),
+      shelfQuery: { sort: "last_opened_at", order: "desc", search: "" },
 
-      fetchBooks: async (params = {}) => {
+      fetchBooks: async (params = {}, signal) => {
+        const requestSignal = listRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await booksApi.list(params);
+          const { sort, order, search } = get().shelfQuery;
+          const response = await booksApi.list(
+            { page_size: LIBRARY_PAGE_SIZE, sort, order, search: search.trim() || undefined, ...params },
+            requestSignal
+          );
+          if (!listRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const books = response.data.items.map(mapApiBook);
+            const books = response.data.items.map(toBook);
             set({ books, isLoading: false });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
           set({
             error: error.message || "获取书籍列表失败",
             isLoading: false,
@@ -82,17 +114,27 @@ export const useBookStore = create<BookStore>()(
         }
       },
 
-      fetchBook: async (bookId) => {
+      setShelfQuery: (change) => {
+        set((state) => ({ shelfQuery: { ...state.shelfQuery, ...change } }));
+      },
+
+      fetchBook: async (bookId, signal) => {
+        const requestSignal = detailRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await booksApi.get(bookId);
+          const response = await booksApi.get(bookId, requestSignal);
+          if (!detailRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const book = mapApiBook(response.data);
+            const book = toBook(response.data);
             set({ currentBook: book, isLoading: false });
           } else {
             set({ currentBook: null, isLoading: false, error: "书籍不存在" });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (detailRequests.isLatest(requestSignal)) set({ isLoading: false });
+            throw error;
+          }
           set({
             currentBook: null,
             error: error.message || "获取书籍详情失败",
@@ -115,6 +157,7 @@ export const useBookStore = create<BookStore>()(
           books: state.books.filter((b) => b.id !== bookId),
           currentBook:
             state.currentBook?.id === bookId ? null : state.currentBook,
+          places: Object.fromEntries(Object.entries(state.places).filter(([id]) => id !== bookId)),
         }));
       },
 
@@ -136,29 +179,100 @@ export const useBookStore = create<BookStore>()(
         }
       },
 
-      updateBookProgress: (bookId, progress) => {
+      deleteBooks: async (bookIds) => {
+        set({ isLoading: true, error: null });
+        const results = await Promise.allSettled(bookIds.map((bookId) => booksApi.delete(bookId)));
+        const deleted = new Set(bookIds.filter((_, index) => results[index].status === "fulfilled"));
+        set((state) => ({
+          books: state.books.filter((b) => !deleted.has(b.id)),
+          currentBook: state.currentBook && deleted.has(state.currentBook.id) ? null : state.currentBook,
+          places: Object.fromEntries(Object.entries(state.places).filter(([id]) => !deleted.has(id))),
+          isLoading: false,
+        }));
+        const failed = bookIds.length - deleted.size;
+        if (failed > 0) {
+          const message = `有 ${failed} 本书删除失败`;
+          set({ error: message });
+          throw new Error(message);
+        }
+      },
+
+      updateBook: async (bookId, data) => {
+        try {
+          const response = await booksApi.update(bookId, data);
+          if (response.success && response.data) {
+            get().replaceBooks([toBook(response.data)]);
+          }
+        } catch (error) {
+          set({ error: (error as Error)?.message || "更新书籍失败" });
+          throw error;
+        }
+      },
+
+      replaceBooks: (books) => {
+        const updated = new Map(books.map((book) => [book.id, book]));
         set((state) => ({
-          books: state.books.map((b) =>
-            b.id === bookId ? { ...b, progress } : b
-          ),
+          books: state.books.map((b) => updated.get(b.id) ?? b),
           currentBook:
-            state.currentBook?.id === bookId
-              ? { ...state.currentBook, progress }
+            state.currentBook && updated.has(state.currentBook.id)
+              ? updated.get(state.currentBook.id)
               : state.currentBook,
         }));
       },
 
-      uploadBook: async (file, metadata, onProgress) => {
+      updateBookProgress: (bookId, progress, position) => {
+        const place: SavedPlace = {
+          position: { ...position, device: get().deviceId, updatedAt: new Date().toISOString() },
+          progress,
+          synced: false,
+        };
+        const update = (book: Book) => ({ ...book, progress, position: place.position });
+        set((state) => ({
+          books: state.books.map((b) => (b.id === bookId ? update(b) : b)),
+          currentBook: state.currentBook?.id === bookId ? update(state.currentBook) : state.currentBook,
+          places: { ...state.places, [bookId]: place },
+        }));
+        clearTimeout(syncTimers.get(bookId));
+        syncTimers.set(bookId, setTimeout(() => get().syncProgress(bookId), SYNC_POSITION_DELAY));
+      },
+
+      syncProgress: async (bookId) => {
+        clearTimeout(syncTimers.get(bookId));
+        syncTimers.delete(bookId);
+        const place = get().places[bookId];
+        if (!place || place.synced) return;
+        try {
+          // The backend ignores a position older than the one it has
+          await booksApi.update(bookId, {
+            progress: place.progress,
+            position: fromReadingPosition(place.position),
+          });
+          set((state) =>
+            state.places[bookId] === place
+              ? { places: { ...state.places, [bookId]: { ...place, synced: true } } }
+              : {}
+          );
+        } catch (error) {
+          // Stays unsynced, and is sent again the next time the book is opened
+          console.error("[bookStore] 同步阅读位置失败:", error);
+        }
+      },
+
+      uploadBook: async (file, metadata, onProgress, controller) => {
         set({ isLoading: true, error: null });
         try {
-          const response = await booksApi.upload(file, metadata, onProgress);
+          const response = await booksApi.upload(file, metadata, onProgress, undefined, controller);
           if (response.success && response.data) {
-            const book = mapApiBook(response.data);
+            const book = toBook(response.data);
             set((state) => ({ books: [book, ...state.books], isLoading: false }));
             return book;
           }
           throw new Error("上传失败");
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            set({ isLoading: false });
+            throw error;
+          }
           set({
             error: error.message || "上传书籍失败",
             isLoading: false,
@@ -174,6 +288,10 @@ export const useBookStore = create<BookStore>()(
         currentBook: state.currentBook?.id
           ? { id: state.currentBook.id }
           : null,
+        places: state.places,
+        deviceId: state.deviceId,
+        // A search is only kept while the bookshelf is open
+        shelfQuery: { ...state.shelfQuery, search: "" },
       }),
     }
   )
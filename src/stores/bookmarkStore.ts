@@ -0,0 +1,124 @@
+/**
+ * Bookmark Store with API integration
+ */
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { bookmarksApi, isRequestCanceled, type BookmarkCreate } from "@/services";
+import { toBookmark, type Bookmark } from "@/services/generated/models";
+import { createRequestScope } from "@/lib/abort";
+
+export type { Bookmark };
+
+interface BookmarkStore {
+  bookmarks: Bookmark[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchBookBookmarks: (bookId: string, signal?: AbortSignal) => Promise<void>;
+  addBookmark: (bookId: string, data: BookmarkCreate) => Promise<Bookmark | null>;
+  renameBookmark: (bookmarkId: string, label: string) => Promise<void>;
+  deleteBookmark: (bookmarkId: string) => Promise<void>;
+}
+
+// A newer fetch replaces the book's list, so the latest one wins
+const listRequests = createRequestScope();
+
+export const useBookmarkStore = create<BookmarkStore>()(
+  persist(
+    (set) => ({
+      bookmarks: [],
+      isLoading: false,
+      error: null,
+
+      fetchBookBookmarks: async (bookId, signal) => {
+        const requestSignal = listRequests.next(signal);
+        set({ isLoading: true, error: null });
+        try {
+          const response = await bookmarksApi.getBookBookmarks(bookId, requestSignal);
+          if (!listRequests.isLatest(requestSignal)) return;
+          if (response.success && response.data) {
+            const fetched = response.data.map(toBookmark);
+            // Other books' bookmarks stay available offline
+            set((state) => ({
+              bookmarks: [...state.bookmarks.filter((b) => b.bookId !== bookId), ...fetched],
+              isLoading: false,
+            }));
+          }
+        } catch (error) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
+          set({
+            error: (error as Error)?.message || "获取书签失败",
+            isLoading: false,
+          });
+        }
+      },
+
+      addBookmark: async (bookId, data) => {
+        set({ isLoading: true, error: null });
+        try {
+          const response = await bookmarksApi.create(bookId, data);
+          if (response.success && response.data) {
+            const bookmark = toBookmark(response.data);
+            set((state) => ({
+              bookmarks: [...state.bookmarks, bookmark],
+              isLoading: false,
+            }));
+            return bookmark;
+          }
+          set({ isLoading: false });
+          return null;
+        } catch (error) {
+          set({
+            error: (error as Error)?.message || "添加书签失败",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+
+      renameBookmark: async (bookmarkId, label) => {
+        try {
+          const response = await bookmarksApi.update(bookmarkId, { label: label.trim() || null });
+          if (response.success && response.data) {
+            const updated = toBookmark(response.data);
+            set((state) => ({
+              bookmarks: state.bookmarks.map((b) => (b.id === bookmarkId ? updated : b)),
+            }));
+          }
+        } catch (error) {
+          set({ error: (error as Error)?.message || "修改书签失败" });
+          throw error;
+        }
+      },
+
+      deleteBookmark: async (bookmarkId) => {
+        set({ isLoading: true, error: null });
+        try {
+          const response = await bookmarksApi.delete(bookmarkId);
+          if (response.success) {
+            set((state) => ({
+              bookmarks: state.bookmarks.filter((b) => b.id !== bookmarkId),
+              isLoading: false,
+            }));
+          }
+        } catch (error) {
+          set({
+            error: (error as Error)?.message || "删除书签失败",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+    }),
+    {
+      name: "bookmark-storage",
+      partialize: (state) => ({
+        bookmarks: state.bookmarks,
+      }),
+    }
+  )
+);
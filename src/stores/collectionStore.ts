@@ -0,0 +1,122 @@
+/**
+ * Collection Store with API integration
+ */
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { collectionsApi, isRequestCanceled } from "@/services";
+import { toBook, toCollection, type Collection } from "@/services/generated/models";
+import { useBookStore } from "./bookStore";
+
+export type { Collection };
+
+interface CollectionStore {
+  collections: Collection[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchCollections: (signal?: AbortSignal) => Promise<void>;
+  createCollection: (name: string) => Promise<Collection>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  addBooks: (collectionId: string, bookIds: string[]) => Promise<void>;
+}
+
+export const useCollectionStore = create<CollectionStore>()(
+  persist(
+    (set) => ({
+      collections: [],
+      isLoading: false,
+      error: null,
+
+      fetchCollections: async (signal) => {
+        set({ isLoading: true, error: null });
+        try {
+          const response = await collectionsApi.list(signal);
+          if (response.success && response.data) {
+            set({ collections: response.data.map(toCollection), isLoading: false });
+          }
+        } catch (error) {
+          if (isRequestCanceled(error)) {
+            set({ isLoading: false });
+            return;
+          }
+          set({
+            error: (error as Error)?.message || "获取书单失败",
+            isLoading: false,
+          });
+        }
+      },
+
+      createCollection: async (name) => {
+        set({ error: null });
+        try {
+          const response = await collectionsApi.create({ name: name.trim() });
+          if (response.success && response.data) {
+            const collection = toCollection(response.data);
+            set((state) => ({ collections: [...state.collections, collection] }));
+            return collection;
+          }
+          throw new Error("创建书单失败");
+        } catch (error) {
+          set({ error: (error as Error)?.message || "创建书单失败" });
+          throw error;
+        }
+      },
+
+      renameCollection: async (collectionId, name) => {
+        try {
+          const response = await collectionsApi.update(collectionId, { name: name.trim() });
+          if (response.success && response.data) {
+            const updated = toCollection(response.data);
+            set((state) => ({
+              collections: state.collections.map((c) => (c.id === collectionId ? updated : c)),
+            }));
+          }
+        } catch (error) {
+          set({ error: (error as Error)?.message || "重命名书单失败" });
+          throw error;
+        }
+      },
+
+      deleteCollection: async (collectionId) => {
+        try {
+          const response = await collectionsApi.delete(collectionId);
+          if (response.success) {
+            set((state) => ({
+              collections: state.collections.filter((c) => c.id !== collectionId),
+            }));
+            // The books stay, only the shelf goes
+            const { books } = useBookStore.getState();
+            useBookStore.getState().replaceBooks(
+              books
+                .filter((book) => book.collectionIds?.includes(collectionId))
+                .map((book) => ({ ...book, collectionIds: book.collectionIds.filter((id) => id !== collectionId) }))
+            );
+          }
+        } catch (error) {
+          set({ error: (error as Error)?.message || "删除书单失败" });
+          throw error;
+        }
+      },
+
+      addBooks: async (collectionId, bookIds) => {
+        try {
+          const response = await collectionsApi.addBooks(collectionId, bookIds);
+          if (response.success && response.data) {
+            useBookStore.getState().replaceBooks(response.data.map(toBook));
+          }
+        } catch (error) {
+          set({ error: (error as Error)?.message || "加入书单失败" });
+          throw error;
+        }
+      },
+    }),
+    {
+      name: "collection-storage",
+      partialize: (state) => ({
+        collections: state.collections,
+      }),
+    }
+  )
+);
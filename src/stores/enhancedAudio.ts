@@ -82,7 +82,7 @@ export const useEnhancedAudioStore = create<PlaybackState>((set, get) => ({
         // Build chapter list from chunks
         const chunksResponse = await audioApi.getChunks(projectId);
 
-        const chapters: AudioChapter[] = (chunksResponse.data || []).map((chunk, index) => ({
+        const chapters: AudioChapter[] = (chunksResponse.data?.items || []).map((chunk, index) => ({
           id: chunk.id,
           title: `${chunk.speaker} - 第${index + 1}段`,
           startTime: chunk.start_time || 0,
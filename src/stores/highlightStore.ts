@@ -3,35 +3,15 @@
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { highlightsApi, type Highlight as ApiHighlight } from "@/services";
-
-export interface Highlight {
-  id: string;
-  userId: string;
-  bookId: string;
-  chunkId: string | null;
-  text: string;
-  color: "yellow" | "green" | "blue" | "pink";
-  startOffset: number;
-  endOffset: number;
-  chapter: string | null;
-  note?: {
-    id: string;
-    highlightId: string;
-    content: string;
-    createdAt: string;
-    updatedAt: string;
-  } | null;
-  createdAt: string;
-  bookTitle?: string;
-  bookAuthor?: string;
-  bookCoverUrl?: string;
-}
+import { highlightsApi, isRequestCanceled, type HighlightCreate, type HighlightUpdate } from "@/services";
+import { toHighlight, toNote, type Highlight, type HighlightColor } from "@/services/generated/models";
+import type { ApiResponse } from "@/services/api";
+import { createRequestScope } from "@/lib/abort";
+
+export type { Highlight, HighlightColor };
 
 /** 用于阅读页内联展示的划线（与 Highlight 同构） */
 export type SavedHighlight = Highlight;
-/** 划线颜色 */
-export type HighlightColor = Highlight["color"];
 
 interface HighlightStore {
   highlights: Highlight[];
@@ -39,41 +19,57 @@ interface HighlightStore {
   error: string | null;
 
   // Actions
-  fetchBookHighlights: (bookId: string) => Promise<void>;
-  fetchAllHighlights: () => Promise<void>;
-  addHighlight: (bookId: string, data: {
-    text: string;
-    color: "yellow" | "green" | "blue" | "pink";
-    start_offset: number;
-    end_offset: number;
-    chapter?: string;
-    chunk_id?: string;
-    note?: string;
-  }) => Promise<void>;
+  fetchBookHighlights: (bookId: string, signal?: AbortSignal) => Promise<void>;
+  fetchAllHighlights: (signal?: AbortSignal) => Promise<void>;
+  addHighlight: (bookId: string, data: HighlightCreate) => Promise<void>;
+  /** Put a highlight on other text, e.g. one that can't be found in the book any more */
+  moveHighlight: (highlightId: string, data: HighlightUpdate) => Promise<void>;
   deleteHighlight: (highlightId: string) => Promise<void>;
+  // Edits show at once and are undone if the server refuses them
+  recolorHighlight: (highlightId: string, color: HighlightColor) => Promise<void>;
+  setNote: (highlightId: string, content: string) => Promise<void>;
+  deleteNote: (highlightId: string) => Promise<void>;
 }
 
-const mapApiHighlight = (apiHighlight: ApiHighlight): Highlight => ({
-  id: apiHighlight.id,
-  userId: apiHighlight.user_id,
-  bookId: apiHighlight.book_id,
-  chunkId: apiHighlight.chunk_id,
-  text: apiHighlight.text,
-  color: apiHighlight.color,
-  startOffset: apiHighlight.start_offset,
-  endOffset: apiHighlight.end_offset,
-  chapter: apiHighlight.chapter,
-  note: apiHighlight.note
-    ? {
-        id: apiHighlight.note.id,
-        highlightId: apiHighlight.note.highlight_id,
-        content: apiHighlight.note.content,
-        createdAt: apiHighlight.note.created_at,
-        updatedAt: apiHighlight.note.updated_at,
-      }
-    : null,
-  createdAt: apiHighlight.created_at,
-});
+// Both fetches replace the whole list, so the latest one wins
+const listRequests = createRequestScope();
+
+const updateHighlight = (highlightId: string, edit: (highlight: Highlight) => Highlight) =>
+  useHighlightStore.setState((state) => ({
+    highlights: state.highlights.map((h) => (h.id === highlightId ? edit(h) : h)),
+  }));
+
+/**
+ * Apply `change` to a highlight before `request` is sent. If it fails, the
+ * changed fields go back to what they were, unless a later edit has changed
+ * them again.
+ */
+const editHighlight = async <T>(
+  highlightId: string,
+  change: Partial<Highlight>,
+  request: () => Promise<ApiResponse<T>>,
+  failure: string
+): Promise<T | undefined> => {
+  const previous = useHighlightStore.getState().highlights.find((h) => h.id === highlightId);
+  if (!previous) return undefined;
+  updateHighlight(highlightId, (h) => ({ ...h, ...change }));
+  useHighlightStore.setState({ error: null });
+  try {
+    const response = await request();
+    if (!response.success) throw new Error(response.error?.message || failure);
+    return response.data;
+  } catch (error) {
+    updateHighlight(highlightId, (h) => {
+      const restored = { ...h };
+      (Object.keys(change) as Array<keyof Highlight>).forEach((field) => {
+        if (h[field] === change[field]) Object.assign(restored, { [field]: previous[field] });
+      });
+      return restored;
+    });
+    useHighlightStore.setState({ error: (error as Error)?.message || failure });
+    throw error;
+  }
+};
 
 export const useHighlightStore = create<HighlightStore>()(
   persist(
@@ -82,20 +78,21 @@ export const useHighlightStore = create<HighlightStore>()(
       isLoading: false,
       error: null,
 
-      fetchBookHighlights: async (bookId) => {
+      fetchBookHighlights: async (bookId, signal) => {
+        const requestSignal = listRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await highlightsApi.getBookHighlights(bookId);
+          const response = await highlightsApi.getBookHighlights(bookId, undefined, requestSignal);
+          if (!listRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const highlights = response.data.map((h: any) => ({
-              ...mapApiHighlight(h),
-              bookTitle: h.book?.title,
-              bookAuthor: h.book?.author,
-              bookCoverUrl: h.book?.cover_url,
-            }));
+            const highlights = response.data.map(toHighlight);
             set({ highlights, isLoading: false });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
           set({
             error: error.message || "获取划线列表失败",
             isLoading: false,
@@ -103,20 +100,21 @@ export const useHighlightStore = create<HighlightStore>()(
         }
       },
 
-      fetchAllHighlights: async () => {
+      fetchAllHighlights: async (signal) => {
+        const requestSignal = listRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await highlightsApi.getAll();
+          const response = await highlightsApi.getAll(requestSignal);
+          if (!listRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const highlights = response.data.map((h: any) => ({
-              ...mapApiHighlight(h),
-              bookTitle: h.book?.title,
-              bookAuthor: h.book?.author,
-              bookCoverUrl: h.book?.cover_url,
-            }));
+            const highlights = response.data.map(toHighlight);
             set({ highlights, isLoading: false });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
           set({
             error: error.message || "获取划线列表失败",
             isLoading: false,
@@ -129,7 +127,7 @@ export const useHighlightStore = create<HighlightStore>()(
         try {
           const response = await highlightsApi.create(bookId, data);
           if (response.success && response.data) {
-            const newHighlight = mapApiHighlight(response.data);
+            const newHighlight = toHighlight(response.data);
             set((state) => ({
               highlights: [...state.highlights, newHighlight],
               isLoading: false,
@@ -144,6 +142,64 @@ export const useHighlightStore = create<HighlightStore>()(
         }
       },
 
+      moveHighlight: async (highlightId, data) => {
+        set({ isLoading: true, error: null });
+        try {
+          const response = await highlightsApi.update(highlightId, data);
+          if (response.success && response.data) {
+            const moved = toHighlight(response.data);
+            set((state) => ({
+              highlights: state.highlights.map((h) => (h.id === highlightId ? { ...h, ...moved } : h)),
+              isLoading: false,
+            }));
+          }
+        } catch (error) {
+          set({
+            error: (error as Error)?.message || "移动划线失败",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+
+      recolorHighlight: async (highlightId, color) => {
+        await editHighlight(
+          highlightId,
+          { color },
+          () => highlightsApi.update(highlightId, { color }),
+          "修改划线颜色失败"
+        );
+      },
+
+      setNote: async (highlightId, content) => {
+        const current = get().highlights.find((h) => h.id === highlightId)?.note;
+        const timestamp = new Date().toISOString();
+        const note = {
+          id: current?.id ?? `pending-${highlightId}`,
+          highlightId,
+          content,
+          createdAt: current?.createdAt ?? timestamp,
+          updatedAt: timestamp,
+        };
+        const saved = await editHighlight(
+          highlightId,
+          { note },
+          () => highlightsApi.setNote(highlightId, content),
+          "保存笔记失败"
+        );
+        // The server's copy has the real id, unless the note was edited again meanwhile
+        if (saved) updateHighlight(highlightId, (h) => (h.note === note ? { ...h, note: toNote(saved) } : h));
+      },
+
+      deleteNote: async (highlightId) => {
+        await editHighlight(
+          highlightId,
+          { note: undefined },
+          () => highlightsApi.deleteNote(highlightId),
+          "删除笔记失败"
+        );
+      },
+
       deleteHighlight: async (highlightId) => {
         set({ isLoading: true, error: null });
         try {
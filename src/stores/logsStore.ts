@@ -11,6 +11,8 @@ export interface LogEntry {
   level: "info" | "warning" | "error" | "success" | "debug";
   message: string;
   source?: string;
+  /** Structured details, e.g. a request trace */
+  data?: Record<string, unknown>;
 }
 
 interface LogsStore {
@@ -0,0 +1,152 @@
+/**
+ * Reader preferences, kept per user with optional overrides for single books
+ */
+import { useMemo } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useAuthStore } from "@/stores/authStore";
+import type { ScriptConversion } from "@/lib/cjk";
+
+export type { ScriptConversion };
+
+export type ReaderTheme = "light" | "sepia" | "dark" | "contrast" | "eink";
+export type ReadingFont = "serif" | "sans";
+
+export interface ReaderPreferences {
+  theme: ReaderTheme;
+  font: ReadingFont;
+  /** In px */
+  fontSize: number;
+  lineHeight: number;
+  /** Space on each side of the text, in px */
+  margin: number;
+  /** Space between paragraphs, in em */
+  paragraphSpacing: number;
+  script: ScriptConversion;
+  /** Show pinyin above Chinese characters */
+  pinyin: boolean;
+}
+
+export const DEFAULT_PREFERENCES: ReaderPreferences = {
+  theme: "light",
+  font: "serif",
+  fontSize: 16,
+  lineHeight: 1.9,
+  margin: 32,
+  paragraphSpacing: 1,
+  script: "original",
+  pinyin: false,
+};
+
+export const READER_THEMES: ReaderTheme[] = ["light", "sepia", "dark", "contrast", "eink"];
+
+/** Class next-themes puts on the document for each theme; Tailwind already owns a `sepia` class */
+export const THEME_CLASSES: Record<ReaderTheme, string> = {
+  light: "light",
+  sepia: "theme-sepia",
+  dark: "dark",
+  contrast: "theme-contrast",
+  eink: "theme-eink",
+};
+
+export const READING_FONTS: Record<ReadingFont, string> = {
+  serif: "'Noto Serif SC', 'Noto Serif TC', 'Songti SC', SimSun, Georgia, serif",
+  sans: "'Noto Sans SC', 'Noto Sans TC', 'PingFang SC', 'Microsoft YaHei', sans-serif",
+};
+
+// Signed-out readers share one set of preferences
+const GUEST = "guest";
+
+const bookKey = (userId: string, bookId: string) => `${userId}:${bookId}`;
+
+interface PreferenceStore {
+  /** Each user's preferences, by user id */
+  users: Record<string, Partial<ReaderPreferences>>;
+  /** Preferences that apply to one book only, by user and book */
+  books: Record<string, Partial<ReaderPreferences>>;
+
+  /** Change the book's own preferences when it has them, otherwise the user's */
+  update: (userId: string, bookId: string | undefined, change: Partial<ReaderPreferences>) => void;
+  /** Start or stop keeping separate preferences for a book; they start from the user's */
+  setBookOverride: (userId: string, bookId: string, enabled: boolean) => void;
+  /** Back to the defaults, for the book when it has its own preferences */
+  reset: (userId: string, bookId?: string) => void;
+}
+
+export const resolvePreferences = (
+  state: Pick<PreferenceStore, "users" | "books">,
+  userId: string,
+  bookId?: string
+): ReaderPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...state.users[userId],
+  ...(bookId ? state.books[bookKey(userId, bookId)] : undefined),
+});
+
+export const usePreferenceStore = create<PreferenceStore>()(
+  persist(
+    (set, get) => ({
+      users: {},
+      books: {},
+
+      update: (userId, bookId, change) => {
+        const key = bookId && bookKey(userId, bookId);
+        if (key && get().books[key]) {
+          set((state) => ({ books: { ...state.books, [key]: { ...state.books[key], ...change } } }));
+        } else {
+          set((state) => ({ users: { ...state.users, [userId]: { ...state.users[userId], ...change } } }));
+        }
+      },
+
+      setBookOverride: (userId, bookId, enabled) => {
+        const key = bookKey(userId, bookId);
+        set((state) => {
+          const books = { ...state.books };
+          if (enabled) {
+            books[key] = resolvePreferences(state, userId);
+          } else {
+            delete books[key];
+          }
+          return { books };
+        });
+      },
+
+      reset: (userId, bookId) => {
+        const key = bookId && bookKey(userId, bookId);
+        if (key && get().books[key]) {
+          set((state) => ({ books: { ...state.books, [key]: { ...DEFAULT_PREFERENCES } } }));
+        } else {
+          set((state) => {
+            const users = { ...state.users };
+            delete users[userId];
+            return { users };
+          });
+        }
+      },
+    }),
+    {
+      name: "preference-storage",
+    }
+  )
+);
+
+/**
+ * The signed-in user's preferences for a book, and whether the book has its
+ * own. Updates go wherever the shown preferences come from.
+ */
+export const useReaderPreferences = (bookId?: string) => {
+  const userId = useAuthStore((s) => s.user?.id) ?? GUEST;
+  const own = usePreferenceStore((s) => s.users[userId]);
+  const book = usePreferenceStore((s) => (bookId ? s.books[bookKey(userId, bookId)] : undefined));
+
+  const preferences = useMemo<ReaderPreferences>(() => ({ ...DEFAULT_PREFERENCES, ...own, ...book }), [own, book]);
+
+  return {
+    userId,
+    preferences,
+    perBook: !!book,
+    update: (change: Partial<ReaderPreferences>) => usePreferenceStore.getState().update(userId, bookId, change),
+    setPerBook: (enabled: boolean) => bookId && usePreferenceStore.getState().setBookOverride(userId, bookId, enabled),
+    reset: () => usePreferenceStore.getState().reset(userId, bookId),
+  };
+};
@@ -2,34 +2,11 @@
  * Project Store with API integration
  */
 import { create } from "zustand";
-import { projectsApi, scriptsApi, audioApi, voicesApi, websocketService, type Project as ApiProject, type ScriptEntry, type Chunk } from "@/services";
+import { projectsApi, scriptsApi, audioApi, voicesApi, websocketService, type ScriptEntry, type Chunk } from "@/services";
+import { toProject, type Book, type Project } from "@/services/generated/models";
 import { useLogsStore } from "./logsStore";
 
-export interface Project {
-  id: string;
-  bookId: string;
-  bookTitle?: string;
-  name: string;
-  description?: string;
-  status: "draft" | "processing" | "completed" | "failed";
-  config: {
-    tts_mode: string;
-    tts_url?: string;
-    language: string;
-    parallel_workers?: number;
-  };
-  audioPath?: string;
-  duration?: number;
-  createdAt: string;
-  updatedAt: string;
-  progress?: {
-    totalChunks: number;
-    completedChunks: number;
-    percentage: number;
-  };
-  // Include all fields from API
-  audio_path?: string;
-}
+export type { Project };
 
 interface ProjectStore {
   currentProject: Project | null;
@@ -49,6 +26,8 @@ interface ProjectStore {
   setCurrentProject: (project: Project | null) => void;
   fetchProject: (projectId: string) => Promise<void>;
   createProject: (bookId: string, name: string, description?: string) => Promise<Project>;
+  /** One project per book, named after it; books whose project failed are left out */
+  createProjects: (books: Book[]) => Promise<Project[]>;
   generateScript: (options?: any) => Promise<void>;
   fetchScript: () => Promise<void>;
   updateScript: (script: ScriptEntry[]) => Promise<void>;
@@ -62,28 +41,6 @@ interface ProjectStore {
   disconnectWebSocket: () => void;
 }
 
-const mapApiProject = (apiProject: ApiProject): Project => ({
-  id: apiProject.id,
-  bookId: apiProject.book_id,
-  bookTitle: apiProject.book_title,
-  name: apiProject.name,
-  description: apiProject.description,
-  status: apiProject.status,
-  config: apiProject.config,
-  audioPath: apiProject.audio_path,
-  audio_path: apiProject.audio_path,
-  duration: apiProject.duration,
-  createdAt: apiProject.created_at,
-  updatedAt: apiProject.updated_at,
-  progress: apiProject.progress
-    ? {
-        totalChunks: apiProject.progress.total_chunks,
-        completedChunks: apiProject.progress.completed_chunks,
-        percentage: apiProject.progress.percentage,
-      }
-    : undefined,
-});
-
 export const useProjectStore = create<ProjectStore>((set, get) => ({
   currentProject: null,
   script: null,
@@ -172,7 +129,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     try {
       const response = await projectsApi.get(projectId);
       if (response.success && response.data) {
-        set({ currentProject: mapApiProject(response.data) });
+        set({ currentProject: toProject(response.data) });
       }
     } catch (error: any) {
       set({ error: error.message || "获取项目失败" });
@@ -188,7 +145,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
         description,
       });
       if (response.success && response.data) {
-        const project = mapApiProject(response.data);
+        const project = toProject(response.data);
         set({ currentProject: project });
         return project;
       }
@@ -199,6 +156,20 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     }
   },
 
+  createProjects: async (books) => {
+    set({ error: null });
+    const results = await Promise.allSettled(
+      books.map((book) => projectsApi.create({ book_id: book.id, name: `${book.title} 有声书` }))
+    );
+    const projects = results.flatMap((result) =>
+      result.status === "fulfilled" && result.value.success && result.value.data ? [toProject(result.value.data)] : []
+    );
+    if (projects.length < books.length) {
+      set({ error: `有 ${books.length - projects.length} 本书创建项目失败` });
+    }
+    return projects;
+  },
+
   generateScript: async (options = {}) => {
     const { currentProject } = get();
     if (!currentProject) return;
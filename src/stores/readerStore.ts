@@ -0,0 +1,62 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/** Scroll through the book, or turn pages laid out to fit the screen */
+export type ReadingLayout = "scroll" | "paged";
+
+/** A request to bring a block of the open book into view */
+export interface ScrollRequest {
+  blockIndex: number;
+  align: ScrollLogicalPosition;
+  behavior: ScrollBehavior;
+  /** Character within the block; the paged layout turns to the page holding it */
+  offset?: number;
+  /** Tells repeated requests for the same block apart */
+  id: number;
+}
+
+interface ReaderState {
+  layout: ReadingLayout;
+  /**
+   * Pending scroll for the reading view. Blocks far from the viewport aren't
+   * mounted, so other components ask the reader to scroll instead of looking
+   * the block up in the DOM.
+   */
+  scrollRequest: ScrollRequest | null;
+
+  setLayout: (layout: ReadingLayout) => void;
+  scrollToBlock: (
+    blockIndex: number,
+    options?: Partial<Pick<ScrollRequest, "align" | "behavior" | "offset">>
+  ) => void;
+  clearScrollRequest: () => void;
+}
+
+let nextRequestId = 1;
+
+export const useReaderStore = create<ReaderState>()(
+  persist(
+    (set) => ({
+      layout: "scroll",
+      scrollRequest: null,
+
+      setLayout: (layout) => set({ layout }),
+      scrollToBlock: (blockIndex, options = {}) =>
+        set({
+          scrollRequest: {
+            blockIndex,
+            align: options.align ?? "start",
+            behavior: options.behavior ?? "smooth",
+            offset: options.offset,
+            id: nextRequestId++,
+          },
+        }),
+      clearScrollRequest: () => set({ scrollRequest: null }),
+    }),
+    {
+      name: "reader-storage",
+      // Only the reader's preference outlives the page
+      partialize: (state) => ({ layout: state.layout }),
+    }
+  )
+);
@@ -3,19 +3,11 @@
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { thoughtsApi, type Thought as ApiThought } from "@/services";
+import { thoughtsApi, isRequestCanceled } from "@/services";
+import { toThought, type Thought } from "@/services/generated/models";
+import { createRequestScope } from "@/lib/abort";
 
-export interface Thought {
-  id: string;
-  userId: string;
-  bookId: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-  bookTitle?: string;
-  bookAuthor?: string;
-  bookCoverUrl?: string;
-}
+export type { Thought };
 
 interface ThoughtStore {
   thoughts: Thought[];
@@ -23,25 +15,19 @@ interface ThoughtStore {
   error: string | null;
 
   // Actions
-  fetchThoughts: (params?: { book_id?: string; page?: number; page_size?: number }) => Promise<void>;
-  fetchBookThoughts: (bookId: string) => Promise<void>;
+  fetchThoughts: (
+    params?: { book_id?: string; page?: number; page_size?: number },
+    signal?: AbortSignal
+  ) => Promise<void>;
+  fetchBookThoughts: (bookId: string, signal?: AbortSignal) => Promise<void>;
   addThought: (thought: Thought) => void;
   updateThought: (thoughtId: string, content: string) => Promise<void>;
   deleteThought: (thoughtId: string) => Promise<void>;
   createThought: (bookId: string, content: string) => Promise<Thought>;
 }
 
-const mapApiThought = (apiThought: ApiThought): Thought => ({
-  id: apiThought.id,
-  userId: apiThought.user_id,
-  bookId: apiThought.book_id,
-  content: apiThought.content,
-  createdAt: apiThought.created_at,
-  updatedAt: apiThought.updated_at,
-  bookTitle: apiThought.book_title,
-  bookAuthor: apiThought.book_author,
-  bookCoverUrl: apiThought.book_cover_url,
-});
+// Both fetches replace the whole list, so the latest one wins
+const listRequests = createRequestScope();
 
 export const useThoughtStore = create<ThoughtStore>()(
   persist(
@@ -50,15 +36,21 @@ export const useThoughtStore = create<ThoughtStore>()(
       isLoading: false,
       error: null,
 
-      fetchThoughts: async (params = {}) => {
+      fetchThoughts: async (params = {}, signal) => {
+        const requestSignal = listRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await thoughtsApi.list(params);
+          const response = await thoughtsApi.list(params, requestSignal);
+          if (!listRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const thoughts = response.data.map(mapApiThought);
+            const thoughts = response.data.map(toThought);
             set({ thoughts, isLoading: false });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
           set({
             error: error.message || "获取想法列表失败",
             isLoading: false,
@@ -66,15 +58,21 @@ export const useThoughtStore = create<ThoughtStore>()(
         }
       },
 
-      fetchBookThoughts: async (bookId) => {
+      fetchBookThoughts: async (bookId, signal) => {
+        const requestSignal = listRequests.next(signal);
         set({ isLoading: true, error: null });
         try {
-          const response = await thoughtsApi.getBookThoughts(bookId);
+          const response = await thoughtsApi.getBookThoughts(bookId, requestSignal);
+          if (!listRequests.isLatest(requestSignal)) return;
           if (response.success && response.data) {
-            const thoughts = response.data.map(mapApiThought);
+            const thoughts = response.data.map(toThought);
             set({ thoughts, isLoading: false });
           }
         } catch (error: any) {
+          if (isRequestCanceled(error)) {
+            if (listRequests.isLatest(requestSignal)) set({ isLoading: false });
+            return;
+          }
           set({
             error: error.message || "获取想法列表失败",
             isLoading: false,
@@ -91,7 +89,7 @@ export const useThoughtStore = create<ThoughtStore>()(
         try {
           const response = await thoughtsApi.update(thoughtId, { content });
           if (response.success && response.data) {
-            const thought = mapApiThought(response.data);
+            const thought = toThought(response.data);
             set((state) => ({
               thoughts: state.thoughts.map((t) =>
                 t.id === thoughtId ? thought : t
@@ -132,7 +130,7 @@ export const useThoughtStore = create<ThoughtStore>()(
         try {
           const response = await thoughtsApi.create({ book_id: bookId, content });
           if (response.success && response.data) {
-            const thought = mapApiThought(response.data);
+            const thought = toThought(response.data);
             set((state) => ({
               thoughts: [thought, ...state.thoughts],
               isLoading: false,
@@ -0,0 +1,37 @@
+/**
+ * Highlight Anchoring Tests
+ * Finding highlights again by their selectors after the text has changed
+ */
+import { describe, it, expect } from "vitest";
+import { anchorQuote, describeRange, quoteAt } from "../lib/anchoring";
+
+const TEXT = "春天来了。她站在门口，看见院子里的海棠已经开了。\n\n傍晚，她又站在门口，看见院子里的海棠已经落了。";
+
+const rangeOf = (text: string, exact: string, from = 0) => {
+  const start = text.indexOf(exact, from);
+  return { start, end: start + exact.length };
+};
+
+describe("Highlight anchoring", () => {
+  it("should follow a highlight to where its text went, telling repeated text apart by its context", () => {
+    const { start, end } = rangeOf(TEXT, "她又站在门口");
+    const selector = describeRange(TEXT, start, end);
+    expect(anchorQuote(TEXT, selector)).toEqual({ start, end });
+
+    // Paragraphs split and text added before it: the second 站在门口 is still the one
+    const resplit = "序\n\n" + TEXT.replace("\n\n", "\n\n\n\n");
+    expect(anchorQuote(resplit, describeRange(TEXT, start + 2, end))).toEqual(rangeOf(resplit, "站在门口", 20));
+
+    // Highlights saved with offsets only are found by their text near those offsets
+    expect(anchorQuote(resplit, quoteAt("院子里的海棠", 32, 38))).toEqual(rangeOf(resplit, "院子里的海棠", 30));
+  });
+
+  it("should match edited text approximately and give up on text that is gone", () => {
+    const exact = "看见院子里的海棠已经开了";
+    const selector = describeRange(TEXT, TEXT.indexOf(exact), TEXT.indexOf(exact) + exact.length);
+    const edited = TEXT.replace(exact, "看见园子里的海棠已经开了");
+
+    expect(anchorQuote(edited, selector)).toEqual(rangeOf(edited, "看见园子里的海棠已经开了"));
+    expect(anchorQuote("春天来了。她站在门口，什么也没看见。", selector)).toBeNull();
+  });
+});
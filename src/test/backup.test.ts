@@ -0,0 +1,110 @@
+/**
+ * Library Backup Tests
+ * Archive round trips, version checks and restore planning
+ */
+import { describe, it, expect } from "vitest";
+import {
+  BackupError,
+  packBackup,
+  planRestore,
+  unpackBackup,
+  type LibraryBackup,
+  type LibraryContents,
+} from "../lib/backup";
+import { buildZip } from "../lib/zip";
+import type { BookDto, HighlightDto } from "../services/generated/schemas";
+
+const TIME = "2026-10-01T08:00:00.000Z";
+
+const book = (id: string, title: string, extra: Partial<BookDto> = {}): BookDto => ({
+  id,
+  user_id: "user-a",
+  title,
+  author: "林舟",
+  file_type: "txt",
+  total_chars: 12,
+  progress: 0,
+  created_at: TIME,
+  updated_at: TIME,
+  ...extra,
+});
+
+const highlight = (id: string, bookId: string, start: number, text: string): HighlightDto => ({
+  id,
+  user_id: "user-a",
+  book_id: bookId,
+  text,
+  color: "yellow",
+  start_offset: start,
+  end_offset: start + text.length,
+  created_at: TIME,
+});
+
+const backup = (): LibraryBackup => ({
+  createdAt: TIME,
+  userId: "user-a",
+  books: [
+    {
+      book: book("book-1", "春夜", { progress: 0.5, position: { block: 3, offset: 0, updated_at: TIME } }),
+      content: "三月的雨下了整整一夜。",
+      chapters: [{ index: 0, title: "第一章", offset: 0 }],
+      pages: null,
+      fileName: "original.txt",
+      file: new TextEncoder().encode("三月的雨下了整整一夜。"),
+    },
+    {
+      book: book("book-2", "山海小记", { file_type: "epub" }),
+      content: "清晨的渡口",
+      chapters: [],
+      pages: null,
+      fileName: "original.epub",
+      file: new Uint8Array([80, 75, 3, 4]),
+    },
+  ],
+  highlights: [highlight("highlight-1", "book-1", 0, "三月的雨"), highlight("highlight-2", "book-2", 0, "清晨")],
+  thoughts: [],
+  bookmarks: [],
+  settings: {
+    scriptTemplates: [{ id: "1", name: "旁白" }],
+    datasetPresets: [{ id: "7", name: "开心", entries: [] }],
+  },
+});
+
+describe("Library backup", () => {
+  it("should read back what it archived and refuse newer or foreign archives", async () => {
+    const original = backup();
+    const restored = await unpackBackup(packBackup(original));
+
+    expect(restored.books.map(({ book }) => book.title)).toEqual(["春夜", "山海小记"]);
+    expect(new TextDecoder().decode(restored.books[0].file)).toBe("三月的雨下了整整一夜。");
+    expect(restored.highlights).toEqual(original.highlights);
+    expect(restored.settings).toEqual(original.settings);
+
+    const newer = buildZip([
+      ["manifest.json", JSON.stringify({ format: "reading-library-backup", version: 99, created_at: TIME })],
+    ]);
+    await expect(unpackBackup(newer)).rejects.toThrow(/更新的版本/);
+    await expect(unpackBackup(new TextEncoder().encode("not a zip"))).rejects.toBeInstanceOf(BackupError);
+  });
+
+  it("should skip what the library already has and map books onto the ones already there", () => {
+    const library: LibraryContents = {
+      userId: "user-b",
+      books: [book("book-9", "春夜", { user_id: "user-b", progress: 0.2 })],
+      highlights: [{ ...highlight("highlight-9", "book-9", 0, "三月的雨"), user_id: "user-b" }],
+      thoughts: [],
+      bookmarks: [],
+      settings: { scriptTemplates: [{ id: "1", name: "对白" }], datasetPresets: [{ id: "7", name: "开心", entries: [] }] },
+    };
+
+    const plan = planRestore(backup(), library);
+
+    expect(plan.otherAccount).toBe(true);
+    expect(plan.existing).toEqual(new Map([["book-1", "book-9"]]));
+    expect(plan.books.map(({ book }) => book.id)).toEqual(["book-2"]);
+    expect(plan.positions.map(({ book }) => book.id)).toEqual(["book-1"]);
+    expect(plan.highlights.map(({ id }) => id)).toEqual(["highlight-2"]);
+    expect(plan.settings).toEqual({ scriptTemplates: [{ id: "1-2", name: "旁白" }], datasetPresets: [] });
+    expect(plan.skipped).toEqual({ books: 1, highlights: 1, thoughts: 0, bookmarks: 0, settings: 1 });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Chapter Detection Tests
+ * Numerals, heading hierarchy, reader patterns and stored corrections
+ */
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import { installMockBackend, resetMockBackend } from "../mocks";
+import {
+  chapterBlocks,
+  ChapterPatternError,
+  chapterPath,
+  detectChapters,
+  isChapterHeading,
+  parseChineseNumeral,
+  parseHeadingNumber,
+} from "../lib/chapters";
+import { booksApi } from "../services/books";
+import { projectsApi } from "../services/projects";
+import { scriptsApi } from "../services/scripts";
+
+const NOVEL = [
+  "卷一 风起",
+  "第一章 归来",
+  "天色渐渐暗了。",
+  "第二章 旧信",
+  "第一节 拆信",
+  "她读到天亮。",
+  "第 十二 回 重逢",
+  "卷二 雨落",
+  "第一章 渡口",
+  "第一章说的是一个很长的故事，这一行只是正文，不是标题。",
+].join("\n\n");
+
+describe("Chapter detection", () => {
+  it("should read Chinese, Roman and English numerals", () => {
+    expect(parseChineseNumeral("十二")).toBe(12);
+    expect(parseChineseNumeral("一百零五")).toBe(105);
+    expect(parseChineseNumeral("两千零三十")).toBe(2030);
+    expect(parseChineseNumeral("二〇二三")).toBe(2023);
+    expect(parseChineseNumeral("１２")).toBe(12);
+    expect(parseHeadingNumber("XIV")).toBe(14);
+    expect(parseHeadingNumber("twenty-one")).toBe(21);
+    expect(parseChineseNumeral("十二章")).toBeNull();
+  });
+
+  it("should arrange volumes, chapters and sections into levels", () => {
+    const chapters = detectChapters(NOVEL);
+
+    expect(chapters.map(({ title, kind, level, number }) => [title, kind, level, number])).toEqual([
+      ["卷一 风起", "volume", 1, 1],
+      ["第一章 归来", "chapter", 2, 1],
+      ["第二章 旧信", "chapter", 2, 2],
+      ["第一节 拆信", "section", 3, 1],
+      ["第 十二 回 重逢", "chapter", 2, 12],
+      ["卷二 雨落", "volume", 1, 2],
+      ["第一章 渡口", "chapter", 2, 1],
+    ]);
+    expect(chapters[2].offset).toBe(NOVEL.indexOf("第二章"));
+    expect(chapterPath(chapters, 3)).toEqual(["卷一 风起", "第二章 旧信", "第一节 拆信"]);
+    expect(chapterBlocks(chapters, NOVEL).map((chapter) => chapter.blockIndex)).toEqual([0, 1, 3, 4, 6, 7, 8]);
+    expect(detectChapters("Chapter One\n\nIt rained.\n\nCHAPTER II\n\n# Epilogue").map((c) => c.level)).toEqual([
+      1, 1, 1,
+    ]);
+    expect(isChapterHeading("第三章")).toBe(true);
+  });
+
+  it("should use reader patterns alongside or instead of the built-in ones", () => {
+    const text = "【1】开端\n\n正文。\n\n【2】转折\n\n第一章 其实不是";
+
+    expect(detectChapters(text, { patterns: [{ source: "^【(\\d+)】", kind: "chapter" }] })).toHaveLength(3);
+    expect(
+      detectChapters(text, { patterns: [{ source: "^【(\\d+)】", kind: "chapter" }], builtIn: false }).map(
+        (chapter) => [chapter.title, chapter.number]
+      )
+    ).toEqual([
+      ["【1】开端", 1],
+      ["【2】转折", 2],
+    ]);
+    expect(() => detectChapters(text, { patterns: [{ source: "([", kind: "chapter" }] })).toThrow(
+      ChapterPatternError
+    );
+  });
+});
+
+describe("Stored chapters", () => {
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+  });
+
+  it("should serve corrected chapters and use them as script sections", async () => {
+    const file = new File([NOVEL], "长夜.txt", { type: "text/plain" });
+    const book = await booksApi.upload(file, { title: "长夜" });
+    const detected = await booksApi.getContent(book.data.id);
+
+    expect(detected.data.chapters).toHaveLength(7);
+    expect(detected.data.chapters[3]).toMatchObject({ title: "第一节 拆信", level: 3 });
+
+    const saved = await booksApi.updateChapters(book.data.id, [
+      { index: 0, title: "上卷", offset: 0, level: 1 },
+      { index: 1, title: "归来", offset: NOVEL.indexOf("第一章 归来"), level: 2 },
+    ]);
+    const content = await booksApi.getContent(book.data.id);
+
+    expect(saved.data).toHaveLength(2);
+    expect(content.data.chapters.map((chapter) => chapter.title)).toEqual(["上卷", "归来"]);
+
+    const project = await projectsApi.create({ book_id: book.data.id, name: "长夜" });
+    await scriptsApi.generate(project.data.id);
+    await vi.waitFor(async () => expect((await scriptsApi.getStatus(project.data.id)).data.status).toBe("approved"));
+    const script = await scriptsApi.get(project.data.id);
+
+    expect(script.data.content[0]).toMatchObject({ text: "天色渐渐暗了。", section: "上卷 / 归来" });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Reader Preference Tests
+ * Script conversion, pinyin and per-book preferences
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { annotate, convertScript, loadConverter, loadPinyin } from "../lib/cjk";
+import { DEFAULT_PREFERENCES, resolvePreferences, usePreferenceStore } from "../stores/preferenceStore";
+
+describe("Chinese display forms", () => {
+  it("should convert between simplified and traditional without moving offsets", async () => {
+    const text = "后来他们在头发里发现了一张纸条。";
+    const traditional = convertScript(await loadConverter("traditional"), text);
+
+    expect(traditional).toBe("後來他們在頭髮裏發現了一張紙條。");
+    expect(traditional).toHaveLength(text.length);
+    expect(convertScript(await loadConverter("simplified"), traditional)).toBe(text);
+    expect(convertScript(() => "短", text)).toBe(text);
+  });
+
+  it("should pair Chinese characters with their readings and keep other text in runs", async () => {
+    const text = "他说：OK，行。";
+    const parts = annotate(text, (await loadPinyin())(text));
+
+    expect(parts).toEqual([
+      { base: "他", reading: "tā" },
+      { base: "说", reading: "shuō" },
+      "：OK，",
+      { base: "行", reading: "xíng" },
+      "。",
+    ]);
+    expect(annotate(text, ["tā"])).toEqual([text]);
+  });
+});
+
+describe("Reader preferences", () => {
+  beforeEach(() => {
+    usePreferenceStore.setState({ users: {}, books: {} });
+  });
+
+  it("should keep a book's own preferences apart from the user's", () => {
+    const store = usePreferenceStore.getState();
+
+    store.update("user-1", "book-1", { fontSize: 20, theme: "sepia" });
+    store.setBookOverride("user-1", "book-1", true);
+    store.update("user-1", "book-1", { theme: "eink", pinyin: true });
+
+    const state = usePreferenceStore.getState();
+    expect(resolvePreferences(state, "user-1")).toMatchObject({ fontSize: 20, theme: "sepia", pinyin: false });
+    expect(resolvePreferences(state, "user-1", "book-1")).toMatchObject({ fontSize: 20, theme: "eink", pinyin: true });
+    expect(resolvePreferences(state, "user-2", "book-1")).toEqual(DEFAULT_PREFERENCES);
+
+    store.setBookOverride("user-1", "book-1", false);
+    expect(resolvePreferences(usePreferenceStore.getState(), "user-1", "book-1").theme).toBe("sepia");
+  });
+});
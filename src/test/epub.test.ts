@@ -0,0 +1,119 @@
+/**
+ * EPUB Reading Tests
+ * Container, spine and TOC parsing, and chapter blocks
+ */
+import { describe, it, expect } from "vitest";
+import { blockOffsets, EpubDocument, EpubError } from "../lib/epub";
+import { buildEpub } from "../mocks/epub";
+import { buildZip } from "../lib/zip";
+
+const CONTAINER =
+  '<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">' +
+  '<rootfiles><rootfile full-path="OPS/package.opf" media-type="application/oebps-package+xml"/></rootfiles></container>';
+
+// EPUB 2 layout: NCX table of contents, nested entries, a footnote and an image
+const OPF = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>雨夜集</dc:title><dc:creator>沈青</dc:creator><dc:language>zh</dc:language>
+  </metadata>
+  <manifest>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+    <item id="img" href="images/dot.png" media-type="image/png"/>
+  </manifest>
+  <spine toc="ncx"><itemref idref="c1"/><itemref idref="c2"/></spine>
+</package>`;
+
+const NCX = `<?xml version="1.0"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/"><navMap>
+  <navPoint id="p1"><navLabel><text>第一章 夜雨</text></navLabel><content src="text/one.xhtml"/>
+    <navPoint id="p1-1"><navLabel><text>注释</text></navLabel><content src="text/one.xhtml#note-1"/></navPoint>
+  </navPoint>
+  <navPoint id="p2"><navLabel><text>第二章 晴</text></navLabel><content src="text/two.xhtml"/></navPoint>
+</navMap></ncx>`;
+
+const ONE = `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>一</title><style>p { color: red }</style></head>
+<body>
+  <h1 id="top">第一章 夜雨</h1>
+  <p>雨下了<em>整整</em>一夜<a href="#note-1" epub:type="noteref">1</a>。</p>
+  <script>alert("x")</script>
+  <p onclick="alert('x')">她推开
+     <a href="two.xhtml#end">门</a>。</p>
+  <div><img src="../images/dot.png" alt="插图"/></div>
+  <aside epub:type="footnote" id="note-1"><p>旧历三月。</p></aside>
+</body></html>`;
+
+const TWO = `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>二</title></head>
+<body><h2>第二章 晴</h2><ul><li>清晨</li><li id="end">午后</li></ul></body></html>`;
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const buildSample = () =>
+  buildZip([
+    ["mimetype", "application/epub+zip"],
+    ["META-INF/container.xml", CONTAINER],
+    ["OPS/package.opf", OPF],
+    ["OPS/toc.ncx", NCX],
+    ["OPS/text/one.xhtml", ONE],
+    ["OPS/text/two.xhtml", TWO],
+    ["OPS/images/dot.png", PNG],
+  ]);
+
+describe("EpubDocument", () => {
+  it("should read metadata, spine and a nested NCX table of contents", async () => {
+    const book = await EpubDocument.open(buildSample());
+
+    expect(book).toMatchObject({ title: "雨夜集", author: "沈青", language: "zh" });
+    expect(book.spine.map((item) => item.href)).toEqual(["OPS/text/one.xhtml", "OPS/text/two.xhtml"]);
+    expect(book.toc).toEqual([
+      { title: "第一章 夜雨", level: 1, chapterIndex: 0, fragment: undefined },
+      { title: "注释", level: 2, chapterIndex: 0, fragment: "note-1" },
+      { title: "第二章 晴", level: 1, chapterIndex: 1, fragment: undefined },
+    ]);
+  });
+
+  it("should turn chapter XHTML into blocks without scripts or styles", async () => {
+    const book = await EpubDocument.open(buildSample());
+    const chapter = await book.loadChapter(0);
+
+    expect(chapter.title).toBe("第一章 夜雨");
+    expect(chapter.blocks.map((block) => [block.type, block.text])).toEqual([
+      ["heading", "第一章 夜雨"],
+      ["paragraph", "雨下了整整一夜1。"],
+      ["paragraph", "她推开门。"],
+      ["image", ""],
+      ["footnote", "旧历三月。"],
+    ]);
+    expect(chapter.blocks[0].anchors).toEqual(["top"]);
+    expect(chapter.blocks[4].anchors).toEqual(["note-1"]);
+    expect(chapter.blocks[1].inlines).toEqual([
+      { text: "雨下了", marks: [] },
+      { text: "整整", marks: ["em"] },
+      { text: "一夜", marks: [] },
+      { text: "1", marks: [], href: "#note-1", noteRef: true },
+      { text: "。", marks: [] },
+    ]);
+    expect(chapter.blocks[2].inlines[1]).toMatchObject({ text: "门", target: { chapterIndex: 1, fragment: "end" } });
+    expect(chapter.blocks[3]).toMatchObject({ alt: "插图", src: expect.stringMatching(/^(blob:|data:image\/png)/) });
+    expect(blockOffsets(chapter.blocks)).toEqual([0, 8, 19, 26, 28]);
+  });
+
+  it("should read the navigation document of an EPUB 3 book", async () => {
+    const book = await EpubDocument.open(
+      buildEpub("山海小记", "周行", [{ title: "第一章 出发", paragraphs: ["清晨的渡口雾气很重。"] }])
+    );
+    const chapter = await book.loadChapter(0);
+
+    expect(book.toc).toEqual([{ title: "第一章 出发", level: 1, chapterIndex: 0, fragment: undefined }]);
+    expect(chapter.blocks.map((block) => block.text).join("\n\n")).toBe("第一章 出发\n\n清晨的渡口雾气很重。");
+  });
+
+  it("should reject archives that aren't EPUBs", async () => {
+    await expect(EpubDocument.open(buildZip([["readme.txt", "hi"]]))).rejects.toBeInstanceOf(EpubError);
+  });
+});
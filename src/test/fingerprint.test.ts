@@ -0,0 +1,22 @@
+/**
+ * Book Fingerprint Tests
+ * Text signatures that survive re-exports but tell different books apart
+ */
+import { describe, it, expect } from "vitest";
+import { DUPLICATE_SIMILARITY, matchableText, signatureSimilarity, textSignature } from "../lib/fingerprint";
+import { SEED_BOOKS } from "../mocks/fixtures";
+
+describe("Book fingerprints", () => {
+  it("should match copies of a book however they are laid out, and not other books", () => {
+    const [spring, travels] = SEED_BOOKS.map((book) => book.content);
+    const reflowed = spring.replace(/\n\n/g, "\n").replace(/，/g, ", ").replace("整整一夜", "整整一晚");
+
+    expect(matchableText("“你好，Ｗｏｒｌｄ！”\n\n")).toBe("你好world");
+    expect(signatureSimilarity(textSignature(spring), textSignature(spring))).toBe(1);
+    expect(signatureSimilarity(textSignature(spring), textSignature(reflowed))).toBeGreaterThanOrEqual(
+      DUPLICATE_SIMILARITY
+    );
+    expect(signatureSimilarity(textSignature(spring), textSignature(travels))).toBeLessThan(0.1);
+    expect(textSignature("短")).toEqual([]);
+  });
+});
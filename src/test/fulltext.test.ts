@@ -0,0 +1,70 @@
+/**
+ * Library Search Tests
+ * CJK n-grams, ranking and the passages shown for each book
+ */
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { createLibraryIndex, indexBook, searchLibrary, tokenize, unindexBook } from "../lib/fulltext";
+import { installMockBackend, resetMockBackend } from "../mocks";
+import { booksApi } from "../services/books";
+import { searchApi } from "../services/search";
+
+describe("Library search", () => {
+  it("should index unspaced scripts as characters and pairs, and spaced ones as words", () => {
+    expect(tokenize("海棠开了 Spring Rain")).toEqual(["海", "棠", "开", "了", "海棠", "棠开", "开了", "spring", "rain"]);
+    expect(tokenize("海棠开了", true)).toEqual(["海棠", "棠开", "开了"]);
+    expect(tokenize("雨", true)).toEqual(["雨"]);
+  });
+
+  it("should rank exact matches first and point at where they occur", () => {
+    const index = createLibraryIndex();
+    indexBook(index, "scattered", ["老宅的门开了。", "正是海棠开花的时候"]);
+    indexBook(index, "exact", ["第一章", "院子里的海棠已经开了。", "海棠开了又谢。"]);
+    indexBook(index, "unrelated", ["清晨的渡口雾气很重。"]);
+
+    const matches = searchLibrary(index, "海棠开了");
+    expect(matches.map((match) => match.bookId)).toEqual(["exact", "scattered"]);
+    expect(matches[0]).toMatchObject({ matchCount: 1, passages: [{ block: 2, start: 0, end: 4, occurrence: 0 }] });
+    expect(matches[1]).toMatchObject({
+      matchCount: 0,
+      passages: [
+        { block: 1, start: 2, end: 4, occurrence: null },
+        { block: 0, start: 4, end: 6, occurrence: null },
+      ],
+    });
+
+    expect(searchLibrary(index, "海棠", ["scattered"]).map((match) => match.bookId)).toEqual(["scattered"]);
+    unindexBook(index, "exact");
+    expect(searchLibrary(index, "海棠开了").map((match) => match.bookId)).toEqual(["scattered"]);
+  });
+});
+
+describe("Library search service", () => {
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+  });
+
+  it("should search the text of every book and narrow it down by author", async () => {
+    const { data } = await searchApi.library({ q: "祖母" });
+    expect(data.items).toHaveLength(1);
+    expect(data.items[0]).toMatchObject({ book: { id: "book-1" }, matchCount: 2 });
+    expect(data.items[0].passages[0]).toMatchObject({ block: 2, offset: 9, length: 2, occurrence: 0, match: "祖母" });
+
+    expect((await searchApi.library({ q: "老人" })).data.items.map((hit) => hit.book.title)).toEqual(["山海小记"]);
+    expect((await searchApi.library({ q: "老人", author: "林舟" })).data.items).toEqual([]);
+    expect((await searchApi.library({ q: " " })).data.total).toBe(0);
+  });
+
+  it("should find uploaded books and forget deleted ones", async () => {
+    const file = new File(["第一章 灯塔\n\n守夜人点亮了灯塔。"], "灯塔.txt", { type: "text/plain" });
+    const { data: book } = await booksApi.upload(file);
+
+    expect((await searchApi.library({ q: "守夜人" })).data.items.map((hit) => hit.book.id)).toEqual([book.id]);
+
+    await booksApi.delete(book.id);
+    expect((await searchApi.library({ q: "守夜人" })).data.items).toEqual([]);
+  });
+});
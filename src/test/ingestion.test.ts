@@ -0,0 +1,105 @@
+/**
+ * Ingestion Pipeline Tests
+ * Encoding detection, normalization, metadata and the upload hand-off
+ */
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { installMockBackend, resetMockBackend } from "../mocks";
+import { SEED_BOOKS } from "../mocks/fixtures";
+import { decodeText, detectEncoding, detectFileType, extractMetadata, normalizeText } from "../lib/ingestion";
+import { booksApi } from "../services/books";
+import { highlightsApi } from "../services/highlights";
+import { ingestBook, type UploadStep } from "../services/uploadApi";
+
+const hex = (value: string) => new Uint8Array(value.match(/../g).map((byte) => parseInt(byte, 16)));
+
+// "第一章 归来\n\n我们这个时代的人，都在说着自己的话。" in GBK, and its traditional form in Big5
+const GBK = hex(
+  "b5dad2bbd5c220b9e9c0b40a0aced2c3c7d5e2b8f6cab1b4fab5c4c8cba3acb6bcd4dacbb5d7c5d7d4bcbab5c4bbb0a1a3"
+);
+const BIG5 = hex(
+  "b2c4a440b3b920c26ba8d30a0aa7daadccb36fadd3aec9a54eaabaa448a141b3a3a662bba1b5dba6dba476aabab8dca143"
+);
+
+describe("text ingestion", () => {
+  it("should tell GBK from Big5", () => {
+    expect(detectEncoding(GBK)).toBe("gbk");
+    expect(detectEncoding(BIG5)).toBe("big5");
+    expect(decodeText(GBK)).toBe("第一章 归来\n\n我们这个时代的人，都在说着自己的话。");
+    expect(decodeText(BIG5)).toBe("第一章 歸來\n\n我們這個時代的人，都在說著自己的話。");
+  });
+
+  it("should recognize formats by their leading bytes", () => {
+    expect(detectFileType(hex("255044462d312e37"), "scan.bin")).toBe("pdf");
+    expect(detectFileType(GBK, "book.txt")).toBe("txt");
+    expect(detectFileType(hex("000102030405060708"), "book.txt")).toBeNull();
+  });
+
+  it("should join hard-wrapped lines and split one-line paragraphs", () => {
+    const wrapped = "　　天色渐渐暗了，\r\n街上的人少了。\r\n\r\n第二章 夜\r\n\r\n　　灯亮了。";
+    const lines = "天色暗了。\n街上没人。\n第二章 夜\n灯亮了。";
+
+    expect(normalizeText(wrapped)).toBe("天色渐渐暗了，街上的人少了。\n\n第二章 夜\n\n灯亮了。");
+    expect(normalizeText(lines)).toBe("天色暗了。\n\n街上没人。\n\n第二章 夜\n\n灯亮了。");
+  });
+
+  it("should take title and author from front matter or the file name", () => {
+    expect(extractMetadata("x.txt", "书名：《长夜》\n作者：林木\n\n第一章 起")).toEqual({ title: "长夜", author: "林木" });
+    expect(extractMetadata("长夜 - 林木.txt")).toEqual({ title: "长夜", author: "林木" });
+    expect(extractMetadata("《长夜》林木.txt")).toEqual({ title: "长夜", author: "林木" });
+  });
+});
+
+describe("ingestBook", () => {
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+  });
+
+  it("should upload GBK text as normalized UTF-8, reporting every step", async () => {
+    const steps: UploadStep[] = [];
+    const file = new File([GBK], "归来 - 佚名.txt", { type: "text/plain" });
+
+    const result = await ingestBook(file, { onProgress: (step) => steps.at(-1) !== step && steps.push(step) });
+    const content = await booksApi.getContent(result.book.id);
+
+    expect(steps).toEqual([
+      "detecting",
+      "normalizing",
+      "detecting_chapters",
+      "extracting_metadata",
+      "checking_duplicates",
+      "uploading",
+      "complete",
+    ]);
+    expect(result).toMatchObject({ encoding: "gbk", metadata: { title: "归来", author: "佚名" } });
+    expect(result.chapters.map((chapter) => chapter.title)).toEqual(["第一章 归来"]);
+    expect(content.data.content).toBe("第一章 归来\n\n我们这个时代的人，都在说着自己的话。");
+  });
+
+  it("should offer a book already on the shelf and carry its highlights over to a new edition", async () => {
+    // The same book with a typo fixed and a line added at the front
+    const revised = ["修订版前言", SEED_BOOKS[0].content.replace("整整一夜", "整整一晚")].join("\n\n");
+    const file = new File([revised], "春夜 - 林舟.txt", { type: "text/plain" });
+    await booksApi.update("book-1", { progress: 0.5, position: { block: 5, offset: 3 } });
+
+    const result = await ingestBook(file, {
+      onDuplicate: async (duplicates) => {
+        expect(duplicates.map((duplicate) => [duplicate.book.id, duplicate.same_file])).toEqual([["book-1", false]]);
+        return { action: "replace", book: duplicates[0].book };
+      },
+    });
+
+    expect(result).toMatchObject({ outcome: "replaced", edition: { highlights: 2, unplaced: 0 } });
+    await expect(booksApi.get("book-1")).rejects.toMatchObject({ status: 404 });
+    const { data: book } = await booksApi.get(result.book.id);
+    expect(book).toMatchObject({ progress: 0.5, position: { block: 6, offset: 3 } });
+    const { data: highlights } = await highlightsApi.getBookHighlights(result.book.id);
+    const paragraphs = revised.split("\n\n");
+    highlights.forEach((highlight) => {
+      expect(paragraphs[Number(highlight.chapter)].slice(highlight.start_offset, highlight.end_offset)).toBe(highlight.text);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Note Markdown Tests
+ * Parsing highlight notes into blocks and inline runs
+ */
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown } from "../lib/markdown";
+
+describe("Note Markdown", () => {
+  it("should parse blocks and inline marks, keeping line breaks and dropping unsafe links", () => {
+    expect(parseMarkdown("## 海棠\n\n> 已经开了\n\n- **季节**\n- 见[原文](https://example.com)\n\n第一行\n第二行")).toEqual([
+      { type: "heading", level: 2, children: [{ type: "text", text: "海棠" }] },
+      { type: "quote", children: [{ type: "paragraph", children: [{ type: "text", text: "已经开了" }] }] },
+      {
+        type: "list",
+        ordered: false,
+        items: [
+          [{ type: "paragraph", children: [{ type: "strong", children: [{ type: "text", text: "季节" }] }] }],
+          [
+            {
+              type: "paragraph",
+              children: [
+                { type: "text", text: "见" },
+                { type: "link", href: "https://example.com", children: [{ type: "text", text: "原文" }] },
+              ],
+            },
+          ],
+        ],
+      },
+      {
+        type: "paragraph",
+        children: [{ type: "text", text: "第一行" }, { type: "break" }, { type: "text", text: "第二行" }],
+      },
+    ]);
+
+    expect(parseInline("`a*b*` *斜* [x](javascript:void)")).toEqual([
+      { type: "code", text: "a*b*" },
+      { type: "text", text: " " },
+      { type: "emphasis", children: [{ type: "text", text: "斜" }] },
+      { type: "text", text: " " },
+      { type: "text", text: "x" },
+    ]);
+  });
+});
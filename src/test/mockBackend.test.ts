@@ -0,0 +1,200 @@
+/**
+ * Mock Backend Tests
+ * The real services running against the in-process mock backend
+ */
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { installMockBackend, resetMockBackend } from "../mocks";
+import { fakeSpeech } from "../mocks/audio";
+import { audioApi } from "../services/audio";
+import { backupService } from "../services/backup";
+import { booksApi } from "../services/books";
+import { bookmarksApi } from "../services/bookmarks";
+import { collectionsApi } from "../services/collections";
+import { highlightsApi } from "../services/highlights";
+import { projectsApi } from "../services/projects";
+import { scriptsApi } from "../services/scripts";
+import { useBookmarkStore } from "../stores/bookmarkStore";
+import { useBookStore } from "../stores/bookStore";
+import { useCollectionStore } from "../stores/collectionStore";
+import { useHighlightStore } from "../stores/highlightStore";
+
+describe("mock backend", () => {
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+  });
+
+  it("should serve the seeded library through the validated services", async () => {
+    const response = await booksApi.list();
+
+    expect(response.success).toBe(true);
+    expect(response.data.items.map((book) => book.title)).toEqual(expect.arrayContaining(["春夜", "山海小记"]));
+  });
+
+  it("should store uploaded books with detected chapters", async () => {
+    const file = new File(["第一章 雨\n\n下雨了。\n\n第二章 晴\n\n天晴了。"], "天气.txt", { type: "text/plain" });
+    const onProgress = vi.fn();
+
+    const uploaded = await booksApi.upload(file, { author: "佚名" }, onProgress);
+    const content = await booksApi.getContent(uploaded.data.id);
+
+    expect(uploaded.data).toMatchObject({ title: "天气", author: "佚名", file_type: "txt" });
+    expect(onProgress).toHaveBeenCalledWith(100, expect.objectContaining({ state: "completed" }));
+    expect(content.data.chapters.map((chapter) => chapter.title)).toEqual(["第一章 雨", "第二章 晴"]);
+  });
+
+  it("should keep the exact reading position alongside the progress", async () => {
+    const { data: books } = await booksApi.list();
+    const bookId = books.items[0].id;
+
+    await booksApi.update(bookId, { progress: 0.42, position: { chapter: null, block: 12, offset: 37 } });
+    const book = await booksApi.get(bookId);
+
+    expect(book.data).toMatchObject({ progress: 0.42, position: { block: 12, offset: 37 } });
+  });
+
+  it("should sync the latest reading position and ignore an older one from another device", async () => {
+    const { updateBookProgress, syncProgress } = useBookStore.getState();
+    updateBookProgress("book-1", 0.6, { block: 20, offset: 4, audioTime: 95 });
+    await syncProgress("book-1");
+
+    const { deviceId, places } = useBookStore.getState();
+    expect(places["book-1"].synced).toBe(true);
+
+    // Reported from an offline phone before this device moved on
+    await booksApi.update("book-1", {
+      progress: 0.1,
+      position: { block: 2, offset: 0, device: "phone", updated_at: "2020-01-01T00:00:00.000Z" },
+    });
+    const book = await booksApi.get("book-1");
+
+    expect(book.data).toMatchObject({
+      progress: 0.6,
+      position: { block: 20, offset: 4, audio_time: 95, device: deviceId },
+    });
+  });
+
+  it("should keep bookmarks with their audio time until the book is deleted", async () => {
+    useBookmarkStore.setState({ bookmarks: [] });
+    const { addBookmark, renameBookmark, fetchBookBookmarks } = useBookmarkStore.getState();
+
+    const bookmark = await addBookmark("book-1", { block: 3, offset: 5, excerpt: "夜色很深", audio_time: 42.5 });
+    await addBookmark("book-2", { block: 0, offset: 0 });
+    await renameBookmark(bookmark.id, "  重读这里 ");
+    await fetchBookBookmarks("book-1");
+
+    expect(useBookmarkStore.getState().bookmarks).toEqual([
+      expect.objectContaining({ bookId: "book-2", block: 0, excerpt: "" }),
+      expect.objectContaining({ bookId: "book-1", block: 3, offset: 5, label: "重读这里", audioTime: 42.5 }),
+    ]);
+
+    await booksApi.delete("book-1");
+    expect((await bookmarksApi.getBookBookmarks("book-1")).data).toEqual([]);
+    expect((await bookmarksApi.getBookBookmarks("book-2")).data).toHaveLength(1);
+  });
+
+  it("should show highlight edits at once and undo the ones the server refuses", async () => {
+    await useHighlightStore.getState().fetchBookHighlights("book-1");
+    const { recolorHighlight, setNote, deleteNote } = useHighlightStore.getState();
+    const find = (id: string) => useHighlightStore.getState().highlights.find((h) => h.id === id);
+
+    const saving = setNote("highlight-2", "**读到天亮**");
+    expect(find("highlight-2").note).toEqual(expect.objectContaining({ id: "pending-highlight-2" }));
+    await saving;
+    await recolorHighlight("highlight-2", "pink");
+    await deleteNote("highlight-1");
+
+    expect(find("highlight-2")).toEqual(
+      expect.objectContaining({ color: "pink", note: expect.objectContaining({ id: "note-highlight-2" }) })
+    );
+    expect(find("highlight-1").note).toBeUndefined();
+    expect((await highlightsApi.getBookHighlights("book-1")).data).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: "highlight-1", note: null }),
+        expect.objectContaining({ id: "highlight-2", color: "pink" }),
+      ])
+    );
+
+    // The note is already gone on the server, so deleting it again fails and it comes back
+    useHighlightStore.setState((state) => ({
+      highlights: state.highlights.map((h) => (h.id === "highlight-1" ? { ...h, note: find("highlight-2").note } : h)),
+    }));
+    await expect(deleteNote("highlight-1")).rejects.toThrow();
+    expect(find("highlight-1").note).toEqual(expect.objectContaining({ content: "**读到天亮**" }));
+    expect(useHighlightStore.getState().error).toBeTruthy();
+  });
+
+  it("should shelve books in collections, tag them and sort by when they were last read", async () => {
+    useCollectionStore.setState({ collections: [] });
+    useBookStore.setState({ shelfQuery: { sort: "last_opened_at", order: "desc", search: "" } });
+    const { createCollection, addBooks, deleteCollection } = useCollectionStore.getState();
+
+    const favourites = await createCollection(" 枕边书 ");
+    await expect(collectionsApi.create({ name: "枕边书" })).rejects.toMatchObject({ status: 409 });
+    await useBookStore.getState().fetchBooks();
+    await addBooks(favourites.id, ["book-1", "book-2"]);
+    await useBookStore.getState().updateBook("book-2", { tags: ["游记", " 游记", "散文", ""] });
+    await booksApi.update("book-2", { position: { block: 1, offset: 0 } });
+
+    await useBookStore.getState().fetchBooks();
+    const { books } = useBookStore.getState();
+    expect(books.map((book) => book.id)).toEqual(["book-2", "book-1"]);
+    expect(books[0]).toMatchObject({ tags: ["游记", "散文"], collectionIds: [favourites.id], audioReady: false });
+
+    useBookStore.getState().setShelfQuery({ search: "散文" });
+    await useBookStore.getState().fetchBooks();
+    expect(useBookStore.getState().books.map((book) => book.title)).toEqual(["山海小记"]);
+
+    await deleteCollection(favourites.id);
+    expect(useBookStore.getState().books[0].collectionIds).toEqual([]);
+    expect((await booksApi.get("book-1")).data.collection_ids).toEqual([]);
+  });
+
+  it("should restore a deleted book with its notes from a backup and skip what is still there", async () => {
+    await highlightsApi.setNote("highlight-2", "信里写了什么？");
+    const archive = await backupService.create();
+    await booksApi.delete("book-1");
+
+    const plan = await backupService.plan(archive);
+    expect(plan.books.map(({ book }) => book.title)).toEqual(["春夜"]);
+    expect(plan.skipped.books).toBe(1);
+
+    const result = await backupService.restore(plan);
+    expect(result).toMatchObject({ books: 1, highlights: 2, thoughts: 1, failures: [] });
+    const { data: books } = await booksApi.list();
+    const restored = books.items.find((book) => book.title === "春夜");
+    expect(restored.id).not.toBe("book-1");
+    expect(restored.progress).toBe(0.35);
+    const { data: highlights } = await highlightsApi.getBookHighlights(restored.id);
+    expect(highlights.map((highlight) => highlight.note?.content)).toEqual(["开篇用海棠点出季节。", "信里写了什么？"]);
+
+    const again = await backupService.plan(archive);
+    expect(again.books).toEqual([]);
+    expect(again.highlights).toEqual([]);
+  });
+
+  it("should turn a book into deterministic audio", async () => {
+    const project = await projectsApi.create({ book_id: "book-2", name: "山海小记" });
+    const projectId = project.data.id;
+
+    expect(await audioApi.getAudio(projectId)).toMatchObject({ success: false, error: { code: "AUDIO_NOT_READY" } });
+
+    await scriptsApi.generate(projectId);
+    await vi.waitFor(async () => expect((await scriptsApi.getStatus(projectId)).data.status).toBe("approved"));
+    await scriptsApi.createChunks(projectId);
+    await audioApi.generateFast(projectId);
+    await vi.waitFor(async () => expect((await audioApi.getAudio(projectId)).success).toBe(true));
+
+    const chunks = await audioApi.getChunks(projectId);
+    const [first] = chunks.data.items;
+    expect(chunks.data.items.every((chunk) => chunk.status === "completed")).toBe(true);
+    expect(first.audio_path).toBe(fakeSpeech(first.text).url);
+  });
+
+  it("should answer missing records with a 404", async () => {
+    await expect(projectsApi.get("project-missing")).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Generated Model Tests
+ * Wire (snake_case) to model (camelCase) mappers
+ */
+import { describe, it, expect } from "vitest";
+import { fromBook, toBook, toHighlight, toProject } from "../services/generated/models";
+import type { BookDto, HighlightDto, ProjectDto } from "../services/generated/schemas";
+
+const bookDto: BookDto = {
+  id: "b1",
+  user_id: "u1",
+  title: "围城",
+  author: "钱锺书",
+  cover_url: null,
+  file_type: "txt",
+  total_pages: null,
+  total_chars: 240000,
+  progress: 12,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-02T00:00:00Z",
+};
+
+describe("generated models", () => {
+  it("should round-trip a book", () => {
+    const book = toBook(bookDto);
+    expect(book.coverUrl).toBeNull();
+    expect(book.totalChars).toBe(240000);
+    expect(fromBook(book)).toEqual({ ...bookDto, projects: undefined });
+  });
+
+  it("should map nested objects", () => {
+    const project = toProject({
+      id: "p1",
+      book_id: "b1",
+      name: "有声书",
+      status: "processing",
+      config: { tts_mode: "edge", language: "zh-CN" },
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+      progress: { total_chunks: 10, completed_chunks: 4, percentage: 40 },
+    } as ProjectDto);
+
+    expect(project.config.ttsMode).toBe("edge");
+    expect(project.progress).toEqual({ totalChunks: 10, completedChunks: 4, percentage: 40 });
+  });
+
+  it("should keep missing optional objects empty", () => {
+    const highlight = toHighlight({
+      id: "h1",
+      user_id: "u1",
+      book_id: "b1",
+      text: "城中的人想逃出来",
+      color: "yellow",
+      start_offset: 0,
+      end_offset: 8,
+      note: null,
+      created_at: "2024-01-01T00:00:00Z",
+      book: { title: "围城" },
+    } as HighlightDto);
+
+    expect(highlight.note).toBeNull();
+    expect(highlight.book?.title).toBe("围城");
+    expect(highlight.startOffset).toBe(0);
+  });
+});
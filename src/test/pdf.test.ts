@@ -0,0 +1,112 @@
+/**
+ * PDF Text Layer Tests
+ * Running headers, reflow, de-hyphenation and page mapping
+ */
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { installMockBackend, resetMockBackend } from "../mocks";
+import {
+  locateOffset,
+  pageLabelsByParagraph,
+  reflowPages,
+  stripRunningHeaders,
+  type PdfLine,
+  type PdfPageLayer,
+} from "../lib/pdf";
+import { booksApi } from "../services/books";
+
+const LEFT = 72;
+const FULL = 450;
+
+// One line of body text; `short` lines end before the right margin
+const line = (text: string, y: number, options: { x?: number; short?: boolean } = {}): PdfLine => ({
+  text,
+  x: options.x ?? LEFT,
+  y,
+  width: options.short ? 200 : FULL - ((options.x ?? LEFT) - LEFT),
+  height: 12,
+});
+
+const page = (pageNumber: number, lines: PdfLine[]): PdfPageLayer => ({
+  pageNumber,
+  label: String(pageNumber + 10),
+  lines,
+});
+
+const BOOK: PdfPageLayer[] = [
+  page(1, [
+    line("长夜 · 林木", 20),
+    line("第一章 归来", 80, { x: 200, short: true }),
+    line("天色渐渐暗了，街上的", 120, { x: 96 }),
+    line("人少了。", 140, { short: true }),
+    line("11", 780, { x: 290, short: true }),
+  ]),
+  page(2, [
+    line("长夜 · 林木", 20),
+    line("灯亮了，窗外传来 a fami-", 120, { x: 96 }),
+    line("liar song", 140),
+    line("12", 780, { x: 290, short: true }),
+  ]),
+  page(3, [
+    line("长夜 · 林木", 20),
+    line("和远处的钟声。", 120, { short: true }),
+    line("— 13 —", 780, { x: 280, short: true }),
+  ]),
+];
+
+describe("PDF text layer", () => {
+  it("should drop running headers and page numbers", () => {
+    const pages = stripRunningHeaders(BOOK);
+
+    expect(pages.map((p) => p.lines.map((l) => l.text))).toEqual([
+      ["第一章 归来", "天色渐渐暗了，街上的", "人少了。"],
+      ["灯亮了，窗外传来 a fami-", "liar song"],
+      ["和远处的钟声。"],
+    ]);
+  });
+
+  it("should reflow lines into paragraphs across page breaks", () => {
+    const { text, pages } = reflowPages(stripRunningHeaders(BOOK));
+
+    expect(text).toBe("第一章 归来\n\n天色渐渐暗了，街上的人少了。\n\n灯亮了，窗外传来 a familiar song和远处的钟声。");
+    expect(pages).toEqual([
+      { pageNumber: 1, label: "11", offset: 0 },
+      { pageNumber: 2, label: "12", offset: 24 },
+      { pageNumber: 3, label: "13", offset: 48 },
+    ]);
+  });
+
+  it("should map offsets to a page and a position on it", () => {
+    const { text, pages } = reflowPages(stripRunningHeaders(BOOK));
+
+    expect(locateOffset(pages, text.indexOf("钟声"))).toEqual({ pageNumber: 3, label: "13", position: 4 });
+    expect(locateOffset(pages, 0)).toEqual({ pageNumber: 1, label: "11", position: 0 });
+    expect(pageLabelsByParagraph(pages, text)).toEqual({ 0: "11", 2: "12–13" });
+  });
+});
+
+describe("PDF upload", () => {
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+  });
+
+  it("should store the cleaned text and page map sent with the file", async () => {
+    const file = new File(["%PDF-1.7"], "长夜.pdf", { type: "application/pdf" });
+    const { text, pages } = reflowPages(stripRunningHeaders(BOOK));
+
+    const book = await booksApi.upload(file, { title: "长夜", text, pages });
+    const content = await booksApi.getContent(book.data.id);
+    const chapter = await booksApi.getContent(book.data.id, "plain", 0);
+
+    expect(content.data.content).toBe(text);
+    expect(content.data.pages).toEqual([
+      { page_number: 1, label: "11", offset: 0 },
+      { page_number: 2, label: "12", offset: 24 },
+      { page_number: 3, label: "13", offset: 48 },
+    ]);
+    expect(chapter.data.pages).toHaveLength(3);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Reading Position Tests
+ * Which place a book opens at when devices disagree, and the time left to read
+ */
+import { describe, it, expect } from "vitest";
+import { formatTimeLeft, readingTimeLeft, resolvePlaces, type PlaceRead } from "../lib/position";
+
+const place = (block: number, progress: number, device?: string, updatedAt?: string): PlaceRead => ({
+  position: { block, offset: 0, device, updatedAt },
+  progress,
+});
+
+describe("Reading position", () => {
+  it("should offer a newer place from another device instead of jumping to it", () => {
+    const here = place(10, 0.2, "laptop", "2026-10-01T08:00:00.000Z");
+    const phone = place(40, 0.5, "phone", "2026-10-02T08:00:00.000Z");
+
+    expect(resolvePlaces(here, phone, "laptop")).toEqual({ open: here, elsewhere: phone });
+    expect(resolvePlaces(phone, here, "phone")).toEqual({ open: phone, elsewhere: null });
+    // A first visit on this device simply opens where the reader is
+    expect(resolvePlaces(null, phone, "laptop")).toEqual({ open: phone, elsewhere: null });
+    // Places saved before they were timed go by how far they are
+    expect(resolvePlaces(place(10, 0.2), place(40, 0.5, "phone"), "laptop").elsewhere).toEqual(
+      place(40, 0.5, "phone")
+    );
+    expect(resolvePlaces(here, place(10, 0.21, "phone", "2026-10-03T08:00:00.000Z"), "laptop").elsewhere).toBeNull();
+  });
+
+  it("should estimate the time left from the book's length", () => {
+    expect(readingTimeLeft(null, 0.5)).toBeNull();
+    expect(readingTimeLeft(120000, 0.5)).toBe(150);
+    expect(formatTimeLeft(150)).toBe("还剩 2 小时 30 分钟");
+    expect(formatTimeLeft(12)).toBe("还剩 12 分钟");
+    expect(formatTimeLeft(0)).toBe("即将读完");
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Reader Page Tests
+ * Keyboard shortcuts of the reading page
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import Reader from "@/pages/Reader";
+import { useBookmarkStore } from "@/stores/bookmarkStore";
+import { installMockBackend, resetMockBackend } from "@/mocks";
+
+// The waveform needs Web Audio, which jsdom doesn't have
+vi.mock("@/components/AudioPlayer", () => ({ default: () => null }));
+
+const renderReader = (bookId: string) =>
+  render(
+    <MemoryRouter initialEntries={[`/reader/${bookId}`]}>
+      <Routes>
+        <Route path="/reader/:bookId" element={<Reader />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe("Reader shortcuts", () => {
+  const scrollIntoView = Element.prototype.scrollIntoView;
+
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterAll(() => {
+    Element.prototype.scrollIntoView = scrollIntoView;
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+    useBookmarkStore.setState({ bookmarks: [] });
+  });
+
+  it("should bookmark on Ctrl+D, but not while typing in a field", async () => {
+    renderReader("book-1");
+    await screen.findByText("“路上耽搁了几天。”林晚放下行李，轻声说。");
+
+    const field = document.createElement("textarea");
+    document.body.appendChild(field);
+    fireEvent.keyDown(field, { key: "d", ctrlKey: true });
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(useBookmarkStore.getState().bookmarks).toHaveLength(0);
+    field.remove();
+
+    fireEvent.keyDown(document.body, { key: "d", ctrlKey: true });
+    await vi.waitFor(() => expect(useBookmarkStore.getState().bookmarks).toHaveLength(1));
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Reader Content Tests
+ * Windowed rendering of long books, the paged layout and search hits
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { act, fireEvent, render } from "@testing-library/react";
+import { useRef, type ComponentProps, type MutableRefObject } from "react";
+import ReaderContent from "@/components/ReaderContent";
+import { useHighlightStore } from "@/stores/highlightStore";
+import { useReaderStore } from "@/stores/readerStore";
+import { describeRange } from "@/lib/anchoring";
+
+const VIEWPORT = 600;
+const BOOK = Array.from({ length: 1000 }, (_, index) => `第 ${index} 段：夜色很深。`).join("\n\n");
+
+const rect = (top: number, height: number) =>
+  ({ top, bottom: top + height, left: 0, right: 600, width: 600, height, x: 0, y: top }) as DOMRect;
+
+// jsdom has no layout: give the scroller a viewport and move the list as it scrolls
+const stubScroller = (scroller: HTMLElement) => {
+  let scrollTop = 0;
+  Object.defineProperty(scroller, "clientHeight", { value: VIEWPORT });
+  Object.defineProperty(scroller, "scrollTop", {
+    get: () => scrollTop,
+    set: (value: number) => {
+      scrollTop = value;
+    },
+  });
+  scroller.scrollTo = ((options: ScrollToOptions) => {
+    scrollTop = options.top ?? 0;
+  }) as HTMLElement["scrollTo"];
+  scroller.getBoundingClientRect = () => rect(0, VIEWPORT);
+  const list = () => scroller.querySelector<HTMLElement>(".select-text");
+  Element.prototype.getBoundingClientRect = function (this: Element) {
+    return rect(this === list() ? -scrollTop : 0, 0);
+  };
+};
+
+// Re-renders hand the ref the same scroller again
+const stubbed = new WeakSet<HTMLElement>();
+
+const Harness = (props: Partial<ComponentProps<typeof ReaderContent>>) => {
+  const scrollRef = useRef<HTMLDivElement>(null) as MutableRefObject<HTMLDivElement | null>;
+  return (
+    <div
+      ref={(element) => {
+        if (element && !stubbed.has(element)) {
+          stubScroller(element);
+          stubbed.add(element);
+        }
+        scrollRef.current = element;
+      }}
+    >
+      <ReaderContent title="长夜" author="林木" bookId="book-long" content={BOOK} scrollRef={scrollRef} {...props} />
+    </div>
+  );
+};
+
+const mountedBlocks = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>("[data-block-index]")).map((el) => Number(el.dataset.blockIndex));
+
+describe("ReaderContent windowing", () => {
+  const getBoundingClientRect = Element.prototype.getBoundingClientRect;
+  const scrollIntoView = Element.prototype.scrollIntoView;
+
+  beforeAll(() => {
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterAll(() => {
+    Element.prototype.getBoundingClientRect = getBoundingClientRect;
+    Element.prototype.scrollIntoView = scrollIntoView;
+  });
+
+  beforeEach(() => {
+    useHighlightStore.setState({
+      highlights: [
+        {
+          id: "hl-1",
+          userId: "user-1",
+          bookId: "book-long",
+          text: "夜色",
+          color: "yellow",
+          startOffset: 6,
+          endOffset: 8,
+          chapter: "2",
+          createdAt: "2026-01-01T00:00:00Z",
+        },
+      ],
+    });
+  });
+
+  it("should mount only the blocks near the viewport", () => {
+    const { container } = render(<Harness />);
+    const mounted = mountedBlocks(container);
+
+    expect(mounted.length).toBeGreaterThan(0);
+    expect(mounted.length).toBeLessThan(100);
+    expect(mounted[0]).toBe(0);
+    expect(container.querySelector('[data-block-index="2"] mark')?.textContent).toBe("夜色");
+  });
+
+  it("should mount a far block when asked to scroll to it", () => {
+    const { container } = render(<Harness />);
+
+    act(() => {
+      useReaderStore.getState().scrollToBlock(800, { align: "center" });
+    });
+
+    expect(mountedBlocks(container)).toContain(800);
+    expect(mountedBlocks(container)).not.toContain(0);
+    expect(useReaderStore.getState().scrollRequest).toBeNull();
+  });
+
+  it("should mark search hits inside highlights and flash the current one each time it's shown", () => {
+    const hits = new Map([
+      [2, [{ start: 6, end: 8 }]],
+      [800, [{ start: 8, end: 10 }]],
+    ]);
+    const current = { section: 0, block: 800, start: 8, end: 10 };
+    const { container, rerender } = render(<Harness search={{ hits, current: null, flash: 0 }} />);
+
+    const hit = container.querySelector('[data-block-index="2"] mark mark');
+    expect(hit?.textContent).toBe("夜色");
+    expect(hit?.className).toContain("bg-primary/15");
+
+    rerender(<Harness search={{ hits, current, flash: 1 }} />);
+    act(() => {
+      useReaderStore.getState().scrollToBlock(800, { align: "center", offset: 8 });
+    });
+    const flashing = container.querySelector('[data-block-index="800"] mark');
+    expect(flashing?.textContent).toBe("夜色");
+    expect(flashing?.className).toContain("animate-search-flash");
+
+    // Showing the same hit again remounts it so the animation replays
+    rerender(<Harness search={{ hits, current, flash: 2 }} />);
+    expect(container.querySelector('[data-block-index="800"] mark')).not.toBe(flashing);
+  });
+
+  it("should place highlights by their selectors and report the ones it can't find", () => {
+    const start = BOOK.indexOf("第 5 段：") + 6;
+    // Saved before the text moved: offsets and paragraph no longer point at it
+    const { quote } = describeRange(BOOK, start, start + 2);
+    const highlight = {
+      userId: "user-1",
+      bookId: "book-long",
+      color: "yellow" as const,
+      startOffset: 0,
+      endOffset: 2,
+      chapter: "0",
+      createdAt: "2026-01-01T00:00:00Z",
+    };
+    useHighlightStore.setState({
+      highlights: [
+        { ...highlight, id: "hl-moved", text: "夜色", selector: { quote, position: { start: start + 40, end: start + 42 } } },
+        {
+          ...highlight,
+          id: "hl-lost",
+          text: "晨光",
+          selector: { quote: { exact: "晨光", prefix: "", suffix: "" }, position: { start: 0, end: 2 } },
+        },
+      ],
+    });
+    const onOrphansChange = vi.fn();
+    const { container } = render(<Harness onOrphansChange={onOrphansChange} />);
+
+    expect(container.querySelector('[data-block-index="5"] mark')?.textContent).toBe("夜色");
+    expect(container.querySelector('[data-block-index="0"] mark')).toBeNull();
+    expect(onOrphansChange).toHaveBeenLastCalledWith([expect.objectContaining({ id: "hl-lost" })]);
+  });
+
+  it("should page through one chapter at a time and report where the page starts", () => {
+    const chapters = [
+      { title: "第一章", level: 1, blockIndex: 0 },
+      { title: "第二章", level: 1, blockIndex: 400 },
+    ];
+    const onPositionChange = vi.fn();
+    const { container, getByText } = render(
+      <Harness paged chapters={chapters} onPositionChange={onPositionChange} />
+    );
+
+    // Long stretches are split so a chapter never lays out hundreds of blocks at once
+    expect(mountedBlocks(container)).toEqual(Array.from({ length: 300 }, (_, index) => index));
+    expect(getByText("第 1 / 1 页")).toBeTruthy();
+    expect(onPositionChange).toHaveBeenLastCalledWith({ chapter: undefined, block: 0, offset: 0 });
+
+    act(() => {
+      fireEvent.keyDown(window, { key: "ArrowRight" });
+    });
+    expect(mountedBlocks(container)[0]).toBe(300);
+
+    act(() => {
+      useReaderStore.getState().scrollToBlock(450);
+    });
+    expect(mountedBlocks(container)[0]).toBe(400);
+    expect(getByText("第二章")).toBeTruthy();
+    expect(onPositionChange).toHaveBeenLastCalledWith({ chapter: undefined, block: 400, offset: 0 });
+
+    act(() => {
+      fireEvent.keyDown(window, { key: "PageUp" });
+    });
+    expect(mountedBlocks(container)[0]).toBe(300);
+  });
+});
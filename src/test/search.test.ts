@@ -0,0 +1,78 @@
+/**
+ * Find-in-book Tests
+ * Width and case folding, whole words, regular expressions and chapter grouping
+ */
+import { describe, it, expect } from "vitest";
+import {
+  foldText,
+  hitContext,
+  prepareSections,
+  searchBook,
+  SearchPatternError,
+  textSections,
+  type SearchOptions,
+} from "../lib/search";
+
+const PLAIN: SearchOptions = { wholeWord: false, regex: false };
+
+const search = (texts: string[], query: string, options: Partial<SearchOptions> = {}) =>
+  searchBook(prepareSections([{ title: "", start: 0, texts }]), query, { ...PLAIN, ...options }).hits.map(
+    ({ block, start, end }) => texts[block].slice(start, end)
+  );
+
+describe("Find in book", () => {
+  it("should fold width and case without moving offsets", () => {
+    const text = "ＡＢＣ，「你好」。　Ｉｔ’ｓ";
+    expect(foldText(text)).toBe('abc,"你好". it\'s');
+    expect(foldText(text)).toHaveLength(text.length);
+
+    expect(search(["他说：“Hello，World！”"], 'hello,world!"')).toEqual(["Hello，World！”"]);
+    expect(search(["ＧＰＴ 与 gpt"], "Gpt")).toEqual(["ＧＰＴ", "gpt"]);
+  });
+
+  it("should only match whole words in spaced scripts", () => {
+    const texts = ["The cat concatenates.", "猫cat", "小猫很可爱"];
+    expect(search(texts, "cat", { wholeWord: true })).toEqual(["cat", "cat"]);
+    expect(search(texts, "猫", { wholeWord: true })).toEqual(["猫", "猫"]);
+  });
+
+  it("should run regular expressions against the folded text", () => {
+    expect(search(["第１２章", "第三章", "第 7 节"], "第\\s*\\d+\\s*[章节]", { regex: true })).toEqual([
+      "第１２章",
+      "第 7 节",
+    ]);
+    // A full-width bracket stays a literal bracket
+    expect(search(["注（一）与注(二)"], "（.）", { regex: true })).toEqual(["（一）", "(二)"]);
+    expect(() => search(["text"], "(unclosed", { regex: true })).toThrow(SearchPatternError);
+  });
+
+  it("should list hits by chapter and stop at the limit", () => {
+    const blocks = ["序言 雨", "第一章", "雨下着", "第二章", "雨停了，雨后"];
+    const sections = textSections(blocks, [
+      { title: "第二章", level: 1, blockIndex: 3 },
+      { title: "第一章", level: 1, blockIndex: 1 },
+    ], "书名");
+    expect(sections.map(({ title, start }) => [title, start])).toEqual([
+      ["书名", 0],
+      ["第一章", 1],
+      ["第二章", 3],
+    ]);
+
+    const prepared = prepareSections(sections);
+    expect(searchBook(prepared, "雨", PLAIN).hits).toEqual([
+      { section: 0, block: 0, start: 3, end: 4 },
+      { section: 1, block: 2, start: 0, end: 1 },
+      { section: 2, block: 4, start: 0, end: 1 },
+      { section: 2, block: 4, start: 4, end: 5 },
+    ]);
+    expect(searchBook(prepared, "雨", PLAIN, 3)).toMatchObject({ truncated: true, hits: { length: 3 } });
+  });
+
+  it("should show the text around a hit on one line", () => {
+    expect(hitContext("很久以前，\n有一座山。山里有座庙。", 9, 10, 4)).toEqual({
+      before: "…有一座",
+      match: "山",
+      after: "。山里有…",
+    });
+  });
+});
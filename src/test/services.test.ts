@@ -1,56 +1,56 @@
 /**
  * Frontend Services Tests
- * Tests API client and services
+ * Tests API client and services against the local mock backend
  */
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
 import { ApiClient, ApiResponse } from "../services/api";
-import axios from "axios";
-
-// Mock axios
-vi.mock("axios", () => ({
-  default: {
-    create: vi.fn(() => ({
-      interceptors: {
-        request: {
-          use: vi.fn(),
-        },
-        response: {
-          use: vi.fn(),
-        },
-      },
-      get: vi.fn(),
-      post: vi.fn(),
-      put: vi.fn(),
-      patch: vi.fn(),
-      delete: vi.fn(),
-    })),
-  },
-}));
+import { installMockBackend, mockServer } from "../mocks";
+import { fail, ok, type MockRequest, type MockResponse } from "../mocks/server";
+
+const METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+// What the routes below received, and what `/scripted` answers next
+let received: MockRequest[] = [];
+let replies: MockResponse[] = [];
+
+beforeAll(() => {
+  installMockBackend({ delay: 0 });
+  METHODS.forEach((method) => {
+    // Echo the request back
+    mockServer.on(method, "/echo/:id", (request) => {
+      received.push(request);
+      const { method, params, query, body } = request;
+      return ok({ method, id: params.id, query: Object.fromEntries(query), body });
+    });
+    // Answer with the queued replies, then succeed
+    mockServer.on(method, "/scripted", (request) => {
+      received.push(request);
+      return replies.shift() ?? ok({ attempt: received.length });
+    });
+  });
+});
+
+beforeEach(() => {
+  received = [];
+  replies = [];
+});
+
+const createClient = (config: Partial<ConstructorParameters<typeof ApiClient>[0]> = {}) => {
+  const client = new ApiClient({ baseURL: "http://localhost:8000/api", ...config });
+  client.useAdapter(mockServer.adapter);
+  return client;
+};
+
+const rateLimited = (retryAfter: string): MockResponse => ({
+  ...fail(429, "RATE_LIMITED", "Too many requests"),
+  headers: { "Retry-After": retryAfter },
+});
 
 describe("ApiClient", () => {
   let apiClient: ApiClient;
-  let mockAxiosInstance: any;
 
   beforeEach(() => {
-    // Create mock axios instance
-    mockAxiosInstance = {
-      interceptors: {
-        request: { use: vi.fn() },
-        response: { use: vi.fn() },
-      },
-      get: vi.fn(),
-      post: vi.fn(),
-      put: vi.fn(),
-      patch: vi.fn(),
-      delete: vi.fn(),
-    };
-
-    (axios.create as any).mockReturnValue(mockAxiosInstance);
-    apiClient = new ApiClient({ baseURL: "http://localhost:8000/api" });
-  });
-
-  afterEach(() => {
-    vi.clearAllMocks();
+    apiClient = createClient();
   });
 
   describe("Token Management", () => {
@@ -68,85 +68,148 @@ describe("ApiClient", () => {
 
   describe("HTTP Methods", () => {
     it("should make GET request", async () => {
-      const mockResponse = { success: true, data: { result: "test" } };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
-
-      const result = await apiClient.get("/test");
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith("/test", {});
+      const result = await apiClient.get("/echo/1");
+      expect(result).toEqual({ success: true, data: { method: "get", id: "1", query: {}, body: {} } });
     });
 
     it("should make GET request with params", async () => {
-      const mockResponse = { success: true, data: { result: "test" } };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
-
-      const params = { page: 1, limit: 10 };
-      const result = await apiClient.get("/test", params);
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith("/test", { params });
+      const result = await apiClient.get("/echo/1", { page: 1, limit: 10 });
+      expect(result.data.query).toEqual({ page: "1", limit: "10" });
     });
 
     it("should make POST request", async () => {
-      const mockResponse = { success: true, data: { id: 1 } };
-      mockAxiosInstance.post.mockResolvedValue(mockResponse);
-
-      const data = { name: "test" };
-      const result = await apiClient.post("/test", data);
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith("/test", data);
+      const result = await apiClient.post("/echo/1", { name: "test" });
+      expect(result.data).toMatchObject({ method: "post", body: { name: "test" } });
     });
 
     it("should make PUT request", async () => {
-      const mockResponse = { success: true, data: { id: 1 } };
-      mockAxiosInstance.put.mockResolvedValue(mockResponse);
-
-      const data = { name: "updated" };
-      const result = await apiClient.put("/test/1", data);
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.put).toHaveBeenCalledWith("/test/1", data);
+      const result = await apiClient.put("/echo/1", { name: "updated" });
+      expect(result.data).toMatchObject({ method: "put", body: { name: "updated" } });
     });
 
     it("should make PATCH request", async () => {
-      const mockResponse = { success: true, data: { id: 1 } };
-      mockAxiosInstance.patch.mockResolvedValue(mockResponse);
-
-      const data = { name: "patched" };
-      const result = await apiClient.patch("/test/1", data);
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.patch).toHaveBeenCalledWith("/test/1", data);
+      const result = await apiClient.patch("/echo/1", { name: "patched" });
+      expect(result.data).toMatchObject({ method: "patch", body: { name: "patched" } });
     });
 
     it("should make DELETE request", async () => {
-      const mockResponse = { success: true, data: null };
-      mockAxiosInstance.delete.mockResolvedValue(mockResponse);
+      const result = await apiClient.delete("/echo/1");
+      expect(result.data).toMatchObject({ method: "delete", id: "1" });
+    });
 
-      const result = await apiClient.delete("/test/1");
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.delete).toHaveBeenCalledWith("/test/1");
+    it("should turn error envelopes into rejections carrying the status", async () => {
+      await expect(apiClient.get("/missing")).rejects.toMatchObject({
+        status: 404,
+        message: "Mock backend has no route for GET /missing",
+      });
     });
   });
 
   describe("Upload", () => {
     it("should upload file with progress callback", async () => {
-      const mockResponse = { success: true, data: { url: "http://example.com/file" } };
-      mockAxiosInstance.post.mockResolvedValue(mockResponse);
-
       const formData = new FormData();
       formData.append("file", new Blob(["test"]), "test.txt");
       const onProgress = vi.fn();
 
-      const result = await apiClient.upload("/upload", formData, onProgress);
-      expect(result).toEqual(mockResponse);
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
-        "/upload",
-        formData,
-        expect.objectContaining({
-          headers: { "Content-Type": "multipart/form-data" },
-          timeout: 300000,
-          onUploadProgress: expect.any(Function),
-        })
-      );
+      const result = await apiClient.upload("/scripted", formData, onProgress);
+      expect(result.success).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith(100);
+
+      const [request] = received;
+      expect((request.form?.get("file") as File).name).toBe("test.txt");
+      // Left to the browser so the multipart boundary is set
+      expect(request.headers["Content-Type"]).not.toBe("application/json");
+    });
+  });
+});
+
+describe("Retry Policies", () => {
+  let apiClient: ApiClient;
+
+  beforeEach(() => {
+    apiClient = createClient({ retry: { baseDelay: 0, maxDelay: 0 } });
+  });
+
+  it("should retry GET requests on gateway errors", async () => {
+    replies = [fail(502, "BAD_GATEWAY", "Bad gateway")];
+
+    const result = await apiClient.get("/scripted");
+    expect(result).toEqual({ success: true, data: { attempt: 2 } });
+    expect(received).toHaveLength(2);
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    replies = Array.from({ length: 5 }, () => fail(503, "UNAVAILABLE", "HTTP 503"));
+
+    await expect(apiClient.get("/scripted", undefined, { retry: { retries: 2 } })).rejects.toThrow("HTTP 503");
+    expect(received).toHaveLength(3);
+  });
+
+  it("should not retry client errors", async () => {
+    replies = [fail(404, "NOT_FOUND", "HTTP 404")];
+
+    await expect(apiClient.get("/scripted")).rejects.toThrow("HTTP 404");
+    expect(received).toHaveLength(1);
+  });
+
+  it("should not retry POST without an idempotency key", async () => {
+    replies = [fail(503, "UNAVAILABLE", "HTTP 503")];
+
+    await expect(apiClient.post("/scripted", {})).rejects.toThrow("HTTP 503");
+    expect(received).toHaveLength(1);
+  });
+
+  it("should retry POST on 429 honouring Retry-After", async () => {
+    vi.useFakeTimers();
+    replies = [rateLimited("2")];
+
+    const pending = apiClient.post("/scripted", {});
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(received).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ success: true, data: { attempt: 2 } });
+    expect(received).toHaveLength(2);
+    vi.useRealTimers();
+  });
+
+  it("should reuse the same idempotency key across retries", async () => {
+    replies = [fail(503, "UNAVAILABLE", "HTTP 503")];
+
+    await apiClient.post("/scripted", {}, { idempotencyKey: true });
+
+    const [first, second] = received;
+    const key = first.headers["Idempotency-Key"];
+    expect(key).toBeTruthy();
+    expect(second.headers["Idempotency-Key"]).toBe(key);
+  });
+
+  it("should not send a request whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(apiClient.get("/scripted", { page: 1 }, { signal: controller.signal })).rejects.toMatchObject({
+      code: "ERR_CANCELED",
+    });
+    expect(received).toHaveLength(0);
+  });
+
+  it("should stop retrying once the request is aborted", async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    replies = Array.from({ length: 5 }, () => fail(503, "UNAVAILABLE", "HTTP 503"));
+
+    const pending = apiClient.get("/scripted", undefined, {
+      signal: controller.signal,
+      retry: { baseDelay: 1000, maxDelay: 1000 },
     });
+    const assertion = expect(pending).rejects.toMatchObject({ code: "ERR_CANCELED" });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+    expect(received).toHaveLength(1);
+    vi.useRealTimers();
   });
 });
 
@@ -278,4 +341,22 @@ describe("Service Integration Tests", () => {
     expect(soundEffects).toBeDefined();
     expect(soundEffects.soundEffectsApi).toBeDefined();
   });
+
+  it("should import config service", async () => {
+    const config = await import("../services/config");
+    expect(config).toBeDefined();
+    expect(config.configApi).toBeDefined();
+  });
+
+  it("should import system service", async () => {
+    const system = await import("../services/system");
+    expect(system).toBeDefined();
+    expect(system.systemApi).toBeDefined();
+  });
+
+  it("should import LoRA service", async () => {
+    const lora = await import("../services/lora");
+    expect(lora).toBeDefined();
+    expect(lora.loraApi).toBeDefined();
+  });
 });
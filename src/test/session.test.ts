@@ -0,0 +1,92 @@
+/**
+ * Session Tests
+ * Token expiry parsing and single-flight refresh
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getTokenExpiry, session } from "../services/session";
+
+const makeToken = (exp: number) => {
+  const payload = btoa(JSON.stringify({ sub: "u1", exp })).replace(/=+$/, "");
+  return `header.${payload}.signature`;
+};
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+describe("getTokenExpiry", () => {
+  it("should read exp in milliseconds", () => {
+    expect(getTokenExpiry(makeToken(1700000000))).toBe(1700000000 * 1000);
+  });
+
+  it("should return null for tokens that aren't JWTs", () => {
+    expect(getTokenExpiry("opaque-token")).toBeNull();
+    expect(getTokenExpiry("a.not-base64!.c")).toBeNull();
+  });
+});
+
+describe("session", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    session.clear();
+    vi.useRealTimers();
+  });
+
+  it("should share one refresh between concurrent callers", async () => {
+    const handler = vi.fn().mockResolvedValue({ accessToken: "new-token", refreshToken: "new-refresh" });
+    session.setRefreshHandler(handler);
+    session.start({ accessToken: "old-token", refreshToken: "refresh" });
+
+    const results = await Promise.all([session.refresh(), session.refresh(), session.refresh()]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(["new-token", "new-token", "new-token"]);
+    expect(session.getAccessToken()).toBe("new-token");
+    expect(session.getRefreshToken()).toBe("new-refresh");
+  });
+
+  it("should expire the session when the refresh token is rejected", async () => {
+    session.setRefreshHandler(vi.fn().mockRejectedValue(Object.assign(new Error("nope"), { status: 401 })));
+    session.start({ accessToken: "old-token", refreshToken: "refresh" });
+    const onExpired = vi.fn();
+    const unsubscribe = session.onExpired(onExpired);
+
+    await expect(session.refresh()).resolves.toBeNull();
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(session.getAccessToken()).toBeNull();
+    unsubscribe();
+  });
+
+  it("should keep the session when refresh fails on the network", async () => {
+    session.setRefreshHandler(vi.fn().mockRejectedValue(new Error("Network Error")));
+    session.start({ accessToken: "old-token", refreshToken: "refresh" });
+
+    await expect(session.refresh()).resolves.toBeNull();
+    expect(session.getAccessToken()).toBe("old-token");
+  });
+
+  it("should refresh a token that is about to expire before handing it out", async () => {
+    const handler = vi.fn().mockResolvedValue({ accessToken: "new-token" });
+    session.setRefreshHandler(handler);
+    session.start({ accessToken: makeToken(nowInSeconds() + 10), refreshToken: "refresh" });
+
+    await expect(session.getValidToken()).resolves.toBe("new-token");
+    expect(handler).toHaveBeenCalledWith("refresh");
+  });
+
+  it("should expire when the token runs out without a refresh token", async () => {
+    vi.useFakeTimers();
+    const onExpired = vi.fn();
+    const unsubscribe = session.onExpired(onExpired);
+    session.start({ accessToken: makeToken(nowInSeconds() + 120) });
+
+    await vi.advanceTimersByTimeAsync(119 * 1000);
+    expect(onExpired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2 * 1000);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+});
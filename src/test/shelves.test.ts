@@ -0,0 +1,42 @@
+/**
+ * Bookshelf Tests
+ * Smart shelves and typed-in tags
+ */
+import { describe, it, expect } from "vitest";
+import { onShelf, parseTags, type Shelf } from "../lib/shelves";
+import type { Book } from "../services/generated/models";
+
+const NOW = Date.parse("2026-10-18T00:00:00.000Z");
+
+const book = (id: string, progress: number, createdAt: string, extra: Partial<Book> = {}): Book => ({
+  id,
+  userId: "user-1",
+  title: id,
+  fileType: "txt",
+  progress,
+  createdAt,
+  updatedAt: createdAt,
+  ...extra,
+});
+
+describe("Bookshelf", () => {
+  it("should work out the smart shelves from reading and audiobook state", () => {
+    const books = [
+      book("new", 0, "2026-10-10T00:00:00.000Z"),
+      book("reading", 0.4, "2025-01-01T00:00:00.000Z", { audioReady: true, tags: ["小说"] }),
+      book("finished", 1, "2025-01-01T00:00:00.000Z", { collectionIds: ["collection-1"] }),
+    ];
+    const shelved = (shelf: Shelf) => books.filter((b) => onShelf(b, shelf, NOW)).map((b) => b.id);
+
+    expect(shelved({ kind: "smart", id: "reading" })).toEqual(["reading"]);
+    expect(shelved({ kind: "smart", id: "unread" })).toEqual(["new"]);
+    expect(shelved({ kind: "smart", id: "recent" })).toEqual(["new"]);
+    expect(shelved({ kind: "smart", id: "audio" })).toEqual(["reading"]);
+    expect(shelved({ kind: "collection", id: "collection-1" })).toEqual(["finished"]);
+    expect(shelved({ kind: "tag", tag: "小说" })).toEqual(["reading"]);
+  });
+
+  it("should split typed tags at commas and spaces", () => {
+    expect(parseTags("小说，#散文 待重读、小说  ")).toEqual(["小说", "散文", "待重读"]);
+  });
+});
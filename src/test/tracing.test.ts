@@ -0,0 +1,106 @@
+/**
+ * Request Tracing Tests
+ * Redaction and network log entries
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { AxiosHeaders, type AxiosResponse } from "axios";
+import {
+  CORRELATION_HEADER,
+  TRACE_SOURCE,
+  redactHeaders,
+  redactPayload,
+  requestTracer,
+  type TracedConfig,
+} from "../services/tracing";
+import { useLogsStore } from "../stores/logsStore";
+
+const makeConfig = (overrides: Partial<TracedConfig> = {}): TracedConfig =>
+  ({ method: "post", url: "/auth/login", headers: new AxiosHeaders(), ...overrides }) as TracedConfig;
+
+describe("redaction", () => {
+  it("should mask credentials in headers", () => {
+    const headers = new AxiosHeaders({ Authorization: "Bearer secret", "Content-Type": "application/json" });
+    expect(redactHeaders(headers)).toEqual({ Authorization: "[REDACTED]", "Content-Type": "application/json" });
+  });
+
+  it("should mask sensitive fields at any depth", () => {
+    const payload = { username: "reader", password: "hunter2", session: { refresh_token: "r1", expires: 3600 } };
+    expect(redactPayload(payload)).toEqual({
+      username: "reader",
+      password: "[REDACTED]",
+      session: { refresh_token: "[REDACTED]", expires: 3600 },
+    });
+  });
+
+  it("should describe files instead of logging their contents", () => {
+    const formData = new FormData();
+    formData.append("file", new File(["第一章 ..."], "book.txt", { type: "text/plain" }));
+    formData.append("title", "围城");
+
+    const redacted = redactPayload(formData) as Record<string, string>;
+    expect(redacted.title).toBe("围城");
+    expect(redacted.file).toMatch(/^\[File book\.txt, \d+ bytes, text\/plain\]$/);
+  });
+
+  it("should truncate long strings and arrays", () => {
+    const redacted = redactPayload({ content: "字".repeat(500), items: Array.from({ length: 25 }, (_, i) => i) }) as {
+      content: string;
+      items: unknown[];
+    };
+    expect(redacted.content).toContain("(500 chars)");
+    expect(redacted.items).toHaveLength(21);
+  });
+});
+
+describe("requestTracer", () => {
+  beforeEach(() => {
+    useLogsStore.getState().clearLogs();
+    requestTracer.setLevel("basic");
+  });
+
+  it("should log each request with its correlation ID, status and timing", () => {
+    const config = makeConfig();
+    requestTracer.begin(config);
+    requestTracer.succeed({ config, status: 200, data: {} } as AxiosResponse);
+
+    const [log] = useLogsStore.getState().logs;
+    expect(log.source).toBe(TRACE_SOURCE);
+    expect(log.message).toMatch(/^POST \/auth\/login → 200 \(\d+ms\)$/);
+    expect(log.data.correlationId).toBe(config.headers[CORRELATION_HEADER]);
+    expect(log.data.body).toBeUndefined();
+  });
+
+  it("should keep the correlation ID when a request is replayed", () => {
+    const config = makeConfig();
+    requestTracer.begin(config);
+    const id = config.headers[CORRELATION_HEADER];
+    requestTracer.begin(config);
+    expect(config.headers[CORRELATION_HEADER]).toBe(id);
+  });
+
+  it("should only log failures at the errors level", () => {
+    requestTracer.setLevel("errors");
+    const config = makeConfig({ method: "get", url: "/books" });
+    requestTracer.begin(config);
+    requestTracer.succeed({ config, status: 200, data: {} } as AxiosResponse);
+    requestTracer.fail(config, { message: "Server error", response: { status: 503 } });
+
+    const logs = useLogsStore.getState().logs;
+    expect(logs).toHaveLength(1);
+    expect(logs[0].level).toBe("error");
+    expect(logs[0].message).toContain("GET /books → 503");
+  });
+
+  it("should include redacted bodies when verbose", () => {
+    requestTracer.setLevel("verbose");
+    const config = makeConfig({ data: { username: "reader", password: "hunter2" } });
+    config.headers.Authorization = "Bearer secret";
+    requestTracer.begin(config);
+    requestTracer.succeed({ config, status: 200, data: { access_token: "t1" } } as AxiosResponse);
+
+    const { data } = useLogsStore.getState().logs[0];
+    expect(data.body).toEqual({ username: "reader", password: "[REDACTED]" });
+    expect(data.response).toEqual({ access_token: "[REDACTED]" });
+    expect((data.headers as Record<string, unknown>).Authorization).toBe("[REDACTED]");
+  });
+});
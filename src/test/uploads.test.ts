@@ -0,0 +1,131 @@
+/**
+ * Resumable Upload Tests
+ * Chunked uploads against the mock backend
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import { db, installMockBackend, mockServer, resetMockBackend } from "../mocks";
+import { booksApi } from "../services/books";
+import { bookSchema } from "../services/generated/schemas";
+import { uploadSessions } from "../services/uploadSessions";
+import { UploadController, uploadResumable, type UploadProgress } from "../services/uploads";
+
+const TEXT = "第一章 出发\n\n清晨的码头上雾气很重。\n\n第二章 海上\n\n船在风里摇晃了三天。";
+
+describe("resumable uploads", () => {
+  let chunkRequests: string[];
+
+  beforeAll(() => {
+    installMockBackend({ delay: 0 });
+    const recordRequest = mockServer.onRequest;
+    mockServer.onRequest = (request) => {
+      recordRequest?.(request);
+      if (/^\/uploads\/[^/]+\/chunks\//.test(request.path)) {
+        chunkRequests.push(`${request.path.split("/").pop()}:${request.form?.get("checksum") ? "checked" : "unchecked"}`);
+      }
+    };
+  });
+
+  beforeEach(() => {
+    resetMockBackend();
+    chunkRequests = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all((await uploadSessions.list()).map((session) => uploadSessions.delete(session.fingerprint)));
+  });
+
+  const upload = (file: File, options: Partial<Parameters<typeof uploadResumable>[1]> = {}) =>
+    uploadResumable(file, { purpose: "book", schema: bookSchema, chunkSize: 16, ...options });
+
+  it("should send checksummed chunks and assemble the book", async () => {
+    const file = new File([TEXT], "航海.txt", { type: "text/plain" });
+    const progress: UploadProgress[] = [];
+
+    const response = await upload(file, { fields: { author: "佚名" }, onProgress: (value) => progress.push(value) });
+    const content = await booksApi.getContent(response.data.id);
+
+    const totalChunks = Math.ceil(file.size / 16);
+    expect(chunkRequests).toHaveLength(totalChunks);
+    expect(chunkRequests.every((request) => request.endsWith(":checked"))).toBe(true);
+    expect(response.data).toMatchObject({ title: "航海", author: "佚名" });
+    expect(content.data.chapters.map((chapter) => chapter.title)).toEqual(["第一章 出发", "第二章 海上"]);
+    expect(progress.at(-1)).toMatchObject({ state: "completed", percent: 100, uploadedChunks: totalChunks });
+    expect(db.uploads.size).toBe(0);
+  });
+
+  it("should only send the missing chunks when resuming", async () => {
+    const file = new File([TEXT], "航海.txt", { type: "text/plain" });
+    const interrupted = new AbortController();
+
+    await expect(
+      upload(file, {
+        signal: interrupted.signal,
+        onProgress: ({ uploadedChunks }) => uploadedChunks === 2 && interrupted.abort(),
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(await uploadSessions.list("book")).toHaveLength(1);
+
+    chunkRequests = [];
+    const response = await upload(file);
+
+    expect(response.success).toBe(true);
+    expect(chunkRequests.map((request) => request.split(":")[0])).not.toContain("0");
+    expect(chunkRequests.map((request) => request.split(":")[0])).not.toContain("1");
+    expect(await uploadSessions.list("book")).toHaveLength(0);
+  });
+
+  it("should wait while paused and finish after resuming", async () => {
+    const file = new File([TEXT], "航海.txt", { type: "text/plain" });
+    const controller = new UploadController();
+    const states: string[] = [];
+
+    const pending = upload(file, {
+      controller,
+      onProgress: ({ state, uploadedChunks }) => {
+        states.push(state);
+        if (uploadedChunks === 1 && !states.includes("paused")) controller.pause();
+        if (state === "paused") setTimeout(() => controller.resume(), 10);
+      },
+    });
+
+    expect((await pending).success).toBe(true);
+    expect(states).toContain("paused");
+    expect(states.at(-1)).toBe("completed");
+  });
+
+  it("should stop when aborted while paused and keep the session", async () => {
+    const file = new File([TEXT], "航海.txt", { type: "text/plain" });
+    const controller = new UploadController();
+    const interrupted = new AbortController();
+
+    const pending = upload(file, {
+      controller,
+      signal: interrupted.signal,
+      onProgress: ({ state, uploadedChunks }) => {
+        if (uploadedChunks === 1 && state === "uploading") controller.pause();
+        if (state === "paused") setTimeout(() => interrupted.abort(), 10);
+      },
+    });
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    const sent = chunkRequests.length;
+    controller.resume();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(chunkRequests).toHaveLength(sent);
+    expect(await uploadSessions.list("book")).toHaveLength(1);
+  });
+
+  it("should discard the session when cancelled", async () => {
+    const file = new File([TEXT], "航海.txt", { type: "text/plain" });
+    const controller = new UploadController();
+
+    await expect(
+      upload(file, { controller, onProgress: ({ uploadedChunks }) => uploadedChunks === 1 && controller.cancel() })
+    ).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(db.uploads.size).toBe(0);
+    expect(await uploadSessions.list()).toHaveLength(0);
+    expect(db.books.some((book) => book.title === "航海")).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Response Validation Tests
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { ApiValidationError, paginatedSchema, validateResponse } from "../services/validation";
+import { bookSchema } from "../services/books";
+import type { ApiResponse } from "../services/api";
+import { useLogsStore } from "../stores/logsStore";
+
+const validBook = {
+  id: "b1",
+  user_id: "u1",
+  title: "围城",
+  author: null,
+  file_type: "txt",
+  progress: 0.5,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+};
+
+describe("validateResponse", () => {
+  beforeEach(() => {
+    useLogsStore.getState().clearLogs();
+  });
+
+  it("should pass through a valid payload untouched", async () => {
+    const response = { success: true, data: { ...validBook, extra: 1 } };
+    const result = await validateResponse(Promise.resolve(response), bookSchema, "GET /books/:id");
+    expect(result).toBe(response);
+    expect((result.data as Record<string, unknown>).extra).toBe(1);
+  });
+
+  it("should validate paginated payloads", async () => {
+    const response = {
+      success: true,
+      data: { items: [validBook], total: 1, page: 1, page_size: 20, total_pages: 1 },
+    };
+    await expect(
+      validateResponse(Promise.resolve(response), paginatedSchema(bookSchema), "GET /books")
+    ).resolves.toBe(response);
+  });
+
+  it("should throw a typed error and log it for invalid payloads", async () => {
+    const response = { success: true, data: { ...validBook, file_type: "docx" } };
+    const error = await validateResponse(Promise.resolve(response), bookSchema, "GET /books/:id").catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.endpoint).toBe("GET /books/:id");
+    expect(error.issues[0].path).toEqual(["file_type"]);
+
+    const logs = useLogsStore.getState().logs;
+    expect(logs).toHaveLength(1);
+    expect(logs[0].level).toBe("error");
+    expect(logs[0].message).toContain("GET /books/:id");
+  });
+
+  it("should not validate data on failed responses", async () => {
+    const response = {
+      success: false,
+      error: { code: "AUDIO_NOT_READY", message: "Audio not generated" },
+    };
+    await expect(
+      validateResponse(Promise.resolve(response), z.object({ audio_url: z.string() }), "GET /audio")
+    ).resolves.toBe(response);
+  });
+
+  it("should reject a malformed envelope", async () => {
+    await expect(
+      validateResponse(
+        Promise.resolve({ data: validBook } as unknown as ApiResponse<unknown>),
+        bookSchema,
+        "GET /books/:id"
+      )
+    ).rejects.toBeInstanceOf(ApiValidationError);
+  });
+});
@@ -2,59 +2,8 @@
  * Shared type definitions for the application
  */
 
-// Book types
-export interface Book {
-  id: string;
-  title: string;
-  author?: string;
-  cover?: string;
-  coverUrl?: string;
-  progress: number;
-  totalChapters?: number;
-  currentChapter?: number;
-  // For uploaded books
-  sections?: string[];
-  audioUrl?: string;
-}
-
-// Project types
-export interface Project {
-  id: string;
-  bookId: string;
-  bookTitle?: string;
-  name: string;
-  description?: string;
-  status: "draft" | "processing" | "completed" | "failed";
-  audioPath?: string;
-  duration?: number;
-  progress?: {
-    totalChunks: number;
-    completedChunks: number;
-    percentage: number;
-  };
-}
-
-// Script types
-export interface ScriptEntry {
-  index: number;
-  speaker: string;
-  text: string;
-  instruct?: string;
-  emotion?: string;
-  section?: string;
-}
-
-// Chunk types
-export interface Chunk {
-  id: string;
-  speaker: string;
-  text: string;
-  instruct?: string;
-  status: "pending" | "processing" | "completed" | "failed";
-  audioPath?: string;
-  duration?: number;
-  orderIndex: number;
-}
+// Book, project, script and chunk types are generated from the OpenAPI spec
+export type { Book, Chunk, ChunkStatus, Project, ProjectStatus, ScriptEntry } from "@/services/generated/models";
 
 // Voice types
 export interface Voice {
@@ -75,29 +24,7 @@ export interface VoiceConfig {
 }
 
 // Highlight types
-export type HighlightColor = "yellow" | "green" | "blue" | "pink";
-
-export interface Highlight {
-  id: string;
-  userId: string;
-  bookId: string;
-  chunkId?: string;
-  text: string;
-  color: HighlightColor;
-  startOffset: number;
-  endOffset: number;
-  chapter?: string;
-  note?: Note;
-  createdAt: string;
-}
-
-export interface Note {
-  id: string;
-  highlightId: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type { Highlight, HighlightColor, Note } from "@/services/generated/models";
 
 // API Response types
 export interface ApiResponse<T = any> {
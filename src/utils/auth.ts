@@ -1,12 +1,25 @@
 /**
  * Authentication utilities
  */
+import { session } from "@/services/session";
 
 /**
  * Get the current auth token from localStorage
  */
 export function getAuthToken(): string | null {
-  return localStorage.getItem("auth_token");
+  return session.getAccessToken();
+}
+
+/**
+ * Where to send the user after signing in: the page they were redirected
+ * from (passed as `state.from` by ProtectedRoute), or the bookshelf
+ */
+export function getReturnPath(state: unknown): string {
+  const from = (state as { from?: { pathname?: string; search?: string; hash?: string } } | null)?.from;
+  if (!from?.pathname || from.pathname === "/login") {
+    return "/";
+  }
+  return `${from.pathname}${from.search || ""}${from.hash || ""}`;
 }
 
 /**
@@ -28,21 +41,29 @@ export function getAuthHeaders(): HeadersInit {
 /**
  * Wrapper for fetch that automatically includes authentication headers
  * Use this instead of direct fetch() calls to authenticated endpoints
+ *
+ * Shares the session refresh with ApiClient: a token about to expire is
+ * refreshed first, and a 401 is retried once with a refreshed token.
  */
 export async function authFetch(
   url: string,
   options: RequestInit = {}
 ): Promise<Response> {
-  const token = getAuthToken();
-
-  // If we have a token, add it to the headers
-  if (token) {
+  const send = (token: string | null) => {
     const headers = new Headers(options.headers);
-    headers.append("Authorization", `Bearer ${token}`);
-    options.headers = headers;
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...options, headers });
+  };
+
+  const response = await send(await session.getValidToken());
+  if (response.status !== 401) {
+    return response;
   }
 
-  return fetch(url, options);
+  const token = await session.refresh();
+  return token ? send(token) : response;
 }
 
 /**
@@ -54,18 +75,10 @@ export async function authFetchUpload(
   formData: FormData,
   options: RequestInit = {}
 ): Promise<Response> {
-  const token = getAuthToken();
-
-  const headers = new Headers(options.headers);
-  if (token) {
-    headers.append("Authorization", `Bearer ${token}`);
-  }
   // Don't set Content-Type for FormData - let browser set it with boundary
-
-  return fetch(url, {
+  return authFetch(url, {
     ...options,
     method: options.method || "POST",
-    headers,
     body: formData,
   });
 }
@@ -14,7 +14,7 @@ export default {
     },
     extend: {
       fontFamily: {
-        reading: ['"Noto Serif SC"', 'Georgia', 'serif'],
+        reading: ['var(--reading-font)'],
         sans: ['Inter', '-apple-system', 'BlinkMacSystemFont', 'sans-serif'],
       },
       colors: {
@@ -88,12 +88,17 @@ export default {
           from: { opacity: "0", transform: "translateX(16px)" },
           to: { opacity: "1", transform: "translateX(0)" },
         },
+        "search-flash": {
+          from: { boxShadow: "0 0 0 6px hsl(var(--primary) / 0.45)" },
+          to: { boxShadow: "0 0 0 0 hsl(var(--primary) / 0)" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
         "fade-in": "fade-in 0.4s ease-out",
         "slide-in-right": "slide-in-right 0.3s ease-out",
+        "search-flash": "search-flash 0.6s ease-out 2",
       },
     },
   },